@@ -0,0 +1,71 @@
+import { RSSFetcher } from '@/lib/content-fetcher/rss-fetcher';
+
+const PODCAST_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0"
+  xmlns:itunes="http://www.itunes.com/dtds/podcast-1.0.dtd"
+  xmlns:podcast="https://podcastindex.org/namespace/1.0">
+  <channel>
+    <title>Test Podcast</title>
+    <link>https://example.com</link>
+    <item>
+      <title>Episode 1</title>
+      <guid>episode-1</guid>
+      <enclosure url="https://example.com/ep1.mp3" type="audio/mpeg" length="1000" />
+      <itunes:duration>45:30</itunes:duration>
+      <itunes:episode>1</itunes:episode>
+      <podcast:transcript url="https://example.com/ep1.vtt" type="text/vtt" />
+      <podcast:transcript url="https://example.com/ep1.json" type="application/json" language="en" />
+      <podcast:chapters url="https://example.com/ep1-chapters.json" type="application/json+chapters" />
+    </item>
+  </channel>
+</rss>`;
+
+const BLOG_FEED = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0">
+  <channel>
+    <title>Test Blog</title>
+    <item>
+      <title>Post</title>
+      <link>https://example.com/post</link>
+    </item>
+  </channel>
+</rss>`;
+
+describe('RSSFetcher podcast parsing', () => {
+  const fetcher = new RSSFetcher();
+
+  it('should extract iTunes and Podcasting 2.0 episode metadata', async () => {
+    const result = await fetcher.parseString(PODCAST_FEED);
+
+    expect(result.success).toBe(true);
+    expect(result.feed?.isPodcast).toBe(true);
+    expect(result.feed?.items[0].podcast).toEqual({
+      duration: 2730,
+      transcripts: [
+        {
+          url: 'https://example.com/ep1.vtt',
+          type: 'text/vtt',
+          language: undefined,
+          rel: undefined,
+        },
+        {
+          url: 'https://example.com/ep1.json',
+          type: 'application/json',
+          language: 'en',
+          rel: undefined,
+        },
+      ],
+      chaptersUrl: 'https://example.com/ep1-chapters.json',
+      chaptersType: 'application/json+chapters',
+      episode: 1,
+      season: undefined,
+    });
+  });
+
+  it('should leave regular feeds untouched', async () => {
+    const result = await fetcher.parseString(BLOG_FEED);
+
+    expect(result.feed?.isPodcast).toBe(false);
+    expect(result.feed?.items[0].podcast).toBeUndefined();
+  });
+});
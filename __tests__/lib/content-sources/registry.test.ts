@@ -0,0 +1,201 @@
+import {
+  ContentSourceRegistry,
+  createContentSourceRegistry,
+  type ContentSource,
+  type ContentSourceContext,
+} from '@/lib/content-sources';
+import { RSSContentSource } from '@/lib/content-sources/rss-source';
+import { LinkedInContentSource } from '@/lib/content-sources/linkedin-source';
+import {
+  PLATFORM_DEFINITIONS,
+  SOCIAL_PLATFORMS,
+} from '@/lib/content-sources/platforms';
+import { RSSFetcher } from '@/lib/content-fetcher/rss-fetcher';
+import type { BrightDataFetcher } from '@/lib/content-fetcher/brightdata-fetcher';
+import { PLATFORM_VALUES } from '@/types/creator';
+import { createMockRSSItem } from '../../utils/test-helpers';
+
+jest.mock('@/lib/content-fetcher/rss-fetcher');
+
+const createContext = (
+  overrides: Partial<ContentSourceContext> = {}
+): ContentSourceContext => ({
+  creatorId: 'creator-123',
+  creatorName: 'Test Creator',
+  creatorUrl: {
+    id: 'url-1',
+    platform: 'rss',
+    url: 'https://example.com/feed.xml',
+    validation_status: 'valid',
+  },
+  supabase: {} as ContentSourceContext['supabase'],
+  maxItems: 20,
+  ...overrides,
+});
+
+describe('ContentSourceRegistry', () => {
+  it('should create sources lazily and cache them', () => {
+    const source: ContentSource = {
+      platform: 'rss',
+      fetch: jest.fn(),
+    };
+    const create = jest.fn(() => source);
+    const registry = new ContentSourceRegistry().register({
+      platform: 'rss',
+      create,
+    });
+
+    expect(create).not.toHaveBeenCalled();
+    expect(registry.get('rss')).toBe(source);
+    expect(registry.get('rss')).toBe(source);
+    expect(create).toHaveBeenCalledTimes(1);
+  });
+
+  it('should return null for unregistered or unconfigured platforms', () => {
+    const registry = new ContentSourceRegistry().register({
+      platform: 'youtube',
+      create: () => null,
+    });
+
+    expect(registry.has('youtube')).toBe(true);
+    expect(registry.get('youtube')).toBeNull();
+    expect(registry.has('threads')).toBe(false);
+    expect(registry.get('threads')).toBeNull();
+  });
+
+  it('should register the default platforms', () => {
+    const registry = createContentSourceRegistry();
+
+    expect(registry.platforms()).toEqual(
+      expect.arrayContaining([
+        'rss',
+        'youtube',
+        'twitter',
+        'threads',
+        'linkedin',
+      ])
+    );
+  });
+});
+
+describe('RSSContentSource', () => {
+  it('should return normalized items limited to maxItems', async () => {
+    const fetcher = new RSSFetcher() as jest.Mocked<RSSFetcher>;
+    fetcher.parseURL.mockResolvedValue({
+      success: true,
+      feed: {
+        title: 'Feed',
+        link: 'https://example.com',
+        items: [
+          createMockRSSItem({ guid: 'a', link: 'https://example.com/a' }),
+          createMockRSSItem({ guid: 'b', link: 'https://example.com/b' }),
+          createMockRSSItem({ guid: 'c', link: 'https://example.com/c' }),
+        ],
+      },
+      fetchedAt: new Date(),
+      responseTime: 10,
+    } as Awaited<ReturnType<RSSFetcher['parseURL']>>);
+
+    const source = new RSSContentSource(fetcher);
+    const result = await source.fetch(createContext({ maxItems: 2 }));
+
+    expect(result.status).toBe('fetched');
+    expect(result.items).toHaveLength(2);
+    expect(result.items[0]).toMatchObject({
+      creator_id: 'creator-123',
+      platform: 'rss',
+      platform_content_id: 'a',
+    });
+  });
+
+  it('should send stored validators and skip parsing on 304', async () => {
+    const fetcher = new RSSFetcher() as jest.Mocked<RSSFetcher>;
+    fetcher.parseURL.mockResolvedValue({
+      success: true,
+      notModified: true,
+      validators: { etag: '"v2"', lastModified: null },
+      fetchedAt: new Date(),
+      responseTime: 10,
+    });
+
+    const source = new RSSContentSource(fetcher);
+    const context = createContext();
+    context.creatorUrl.etag = '"v1"';
+    context.creatorUrl.last_modified = 'Mon, 19 Oct 2026 09:00:00 GMT';
+    const result = await source.fetch(context);
+
+    expect(fetcher.parseURL).toHaveBeenCalledWith(
+      'https://example.com/feed.xml',
+      {
+        conditional: {
+          etag: '"v1"',
+          lastModified: 'Mon, 19 Oct 2026 09:00:00 GMT',
+        },
+      }
+    );
+    expect(result).toEqual({
+      items: [],
+      status: 'not_modified',
+      validators: { etag: '"v2"', lastModified: null },
+    });
+  });
+
+  it('should surface fetch errors without items', async () => {
+    const fetcher = new RSSFetcher() as jest.Mocked<RSSFetcher>;
+    fetcher.parseURL.mockResolvedValue({
+      success: false,
+      error: 'Feed not found',
+      fetchedAt: new Date(),
+      responseTime: 10,
+    });
+
+    const source = new RSSContentSource(fetcher);
+    const result = await source.fetch(createContext());
+
+    expect(result.items).toEqual([]);
+    expect(result.error).toBe('Feed not found');
+  });
+});
+
+describe('LinkedInContentSource', () => {
+  it('should skip fetching when configured to', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const fetcher = { triggerCollectionOnly: jest.fn() };
+    const source = new LinkedInContentSource(
+      fetcher as unknown as BrightDataFetcher,
+      { skip: true }
+    );
+
+    const result = await source.fetch(
+      createContext({
+        creatorUrl: {
+          id: 'url-2',
+          platform: 'linkedin',
+          url: 'https://www.linkedin.com/in/someone',
+          validation_status: 'valid',
+        },
+      })
+    );
+
+    expect(result).toEqual({ items: [], status: 'skipped' });
+    expect(fetcher.triggerCollectionOnly).not.toHaveBeenCalled();
+  });
+});
+
+describe('PLATFORM_DEFINITIONS', () => {
+  it('should define every platform exactly once', () => {
+    expect(
+      PLATFORM_DEFINITIONS.map((definition) => definition.platform).sort()
+    ).toEqual([...PLATFORM_VALUES].sort());
+  });
+
+  it('should list the short-form platforms as social', () => {
+    expect(SOCIAL_PLATFORMS).toEqual([
+      'twitter',
+      'linkedin',
+      'threads',
+      'bluesky',
+      'mastodon',
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+import { z } from 'zod';
+import {
+  LLMGateway,
+  StubProvider,
+  extractJson,
+  resolveTaskRoutes,
+  type LLMProvider,
+  type LLMRoute,
+} from '@/lib/llm';
+import { LLMError, type LLMTask } from '@/types/llm';
+
+function routes(summary: LLMRoute[]): Record<LLMTask, LLMRoute[]> {
+  return { ...resolveTaskRoutes({}), summary };
+}
+
+function failingProvider(
+  name: LLMProvider['name'],
+  error: LLMError
+): LLMProvider {
+  return {
+    name,
+    supportsWebSearch: false,
+    complete: jest.fn().mockRejectedValue(error),
+  };
+}
+
+const request = {
+  task: 'summary' as const,
+  messages: [{ role: 'user' as const, content: 'Summarize the week' }],
+};
+
+describe('LLMGateway', () => {
+  it('should answer deterministically from the stub provider', async () => {
+    const gateway = new LLMGateway(
+      [{ name: 'stub', create: () => new StubProvider() }],
+      resolveTaskRoutes({ LLM_PROVIDER: 'stub' })
+    );
+
+    const first = await gateway.complete(request);
+    const second = await gateway.complete(request);
+
+    expect(first.text).toBe('[stub summary] Summarize the week');
+    expect(second).toEqual(first);
+    expect(first).toMatchObject({ provider: 'stub', model: 'stub', cost: 0 });
+  });
+
+  it('should fall back to the next provider when one is rate limited', async () => {
+    const openai = failingProvider(
+      'openai',
+      new LLMError('openai: slow down', 'RATE_LIMITED', 429, 'openai')
+    );
+    const usage = jest.fn();
+    const gateway = new LLMGateway(
+      [
+        { name: 'openai', create: () => openai },
+        { name: 'anthropic', create: () => null },
+        { name: 'stub', create: () => new StubProvider(() => 'fallback') },
+      ],
+      routes([
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+        { provider: 'stub', model: 'stub' },
+      ])
+    );
+    gateway.onUsage(usage);
+
+    const completion = await gateway.complete(request);
+    expect(completion).toMatchObject({ text: 'fallback', provider: 'stub' });
+    expect(usage).toHaveBeenCalledWith(
+      expect.objectContaining({ task: 'summary', provider: 'stub' })
+    );
+
+    // The rate limited provider cools down instead of being retried
+    await gateway.complete(request);
+    expect(openai.complete).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not fall back on a bad request', async () => {
+    const stub = new StubProvider();
+    const gateway = new LLMGateway(
+      [
+        {
+          name: 'openai',
+          create: () =>
+            failingProvider(
+              'openai',
+              new LLMError('openai: bad', 'INVALID_REQUEST', 400, 'openai')
+            ),
+        },
+        { name: 'stub', create: () => stub },
+      ],
+      routes([
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'stub', model: 'stub' },
+      ])
+    );
+
+    await expect(gateway.complete(request)).rejects.toMatchObject({
+      code: 'INVALID_REQUEST',
+    });
+  });
+
+  it('should validate JSON answers and fall back when they do not match', async () => {
+    const gateway = new LLMGateway(
+      [
+        {
+          name: 'openai',
+          create: () => new StubProvider(() => '{"score": "high"}'),
+        },
+        {
+          name: 'stub',
+          create: () =>
+            new StubProvider(
+              () => '```json\n{"score": 72, "reason": "SaaS"}\n```'
+            ),
+        },
+      ],
+      routes([
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'stub', model: 'stub' },
+      ])
+    );
+
+    const result = await gateway.completeJson(
+      request,
+      z.object({ score: z.number(), reason: z.string() })
+    );
+
+    expect(result.data).toEqual({ score: 72, reason: 'SaaS' });
+    expect(result.provider).toBe('stub');
+  });
+
+  it('should report tasks with no configured provider as unavailable', async () => {
+    const gateway = new LLMGateway(
+      [{ name: 'openai', create: () => null }],
+      routes([{ provider: 'openai', model: 'gpt-4o-mini' }])
+    );
+
+    expect(gateway.isAvailable('summary')).toBe(false);
+    await expect(gateway.complete(request)).rejects.toMatchObject({
+      code: 'NOT_CONFIGURED',
+    });
+  });
+
+  it('should submit batches past providers without a batch API and cost results at the batch price', async () => {
+    const batching: LLMProvider = {
+      name: 'anthropic',
+      supportsWebSearch: false,
+      complete: jest.fn(),
+      submitBatch: jest.fn().mockResolvedValue('msgbatch_1'),
+      getBatch: jest.fn().mockResolvedValue({
+        status: 'completed',
+        results: [
+          {
+            customId: 'item-0',
+            response: {
+              text: 'Summary',
+              usage: { inputTokens: 1_000_000, outputTokens: 0 },
+            },
+          },
+          { customId: 'item-1', error: 'anthropic: request expired' },
+        ],
+      }),
+    };
+    const usage = jest.fn();
+    const gateway = new LLMGateway(
+      [
+        {
+          name: 'openai',
+          create: () =>
+            failingProvider('openai', new LLMError('unused', 'UNAVAILABLE')),
+        },
+        { name: 'anthropic', create: () => batching },
+      ],
+      routes([
+        { provider: 'openai', model: 'gpt-4o-mini' },
+        { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+      ])
+    );
+    gateway.onUsage(usage);
+
+    const submission = await gateway.submitBatch([
+      { customId: 'item-0', request },
+      { customId: 'item-1', request },
+    ]);
+    const outcome = await gateway.getBatch('summary', submission, {
+      'item-0': { contentId: 'content-1' },
+    });
+
+    expect(submission).toEqual({
+      provider: 'anthropic',
+      model: 'claude-3-5-haiku-latest',
+      batchId: 'msgbatch_1',
+    });
+    expect(batching.submitBatch).toHaveBeenCalledWith([
+      expect.objectContaining({
+        customId: 'item-0',
+        request: expect.objectContaining({
+          task: 'summary',
+          model: 'claude-3-5-haiku-latest',
+        }),
+      }),
+      expect.anything(),
+    ]);
+    // Half of $0.80 per 1M input tokens
+    expect(outcome.results[0].completion?.cost).toBeCloseTo(0.4);
+    expect(outcome.results[1]).toEqual({
+      customId: 'item-1',
+      error: 'anthropic: request expired',
+    });
+    expect(usage).toHaveBeenCalledTimes(1);
+    expect(usage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        batch: true,
+        attribution: { contentId: 'content-1' },
+      })
+    );
+  });
+});
+
+describe('resolveTaskRoutes', () => {
+  it('should apply per-task overrides from the environment', () => {
+    const resolved = resolveTaskRoutes({
+      LLM_ROUTE_SUMMARY: 'anthropic:claude-3-5-haiku-latest, bogus:x',
+    });
+
+    expect(resolved.summary).toEqual([
+      { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+    ]);
+    expect(resolved.relevancy[0].provider).toBe('openai');
+  });
+
+  it('should extract JSON surrounded by prose', () => {
+    expect(extractJson('Here you go: {"a": 1} hope that helps')).toEqual({
+      a: 1,
+    });
+  });
+});
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AdCampaignService,
+  buildCampaignReport,
+  campaignReportToCsv,
+  isCampaignLive,
+  isUnderFrequencyCap,
+  selectCampaigns,
+} from '@/lib/services/ad-campaign-service';
+import type { AdCampaign } from '@/types/advertiser';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+function campaign(id: string, overrides: Partial<AdCampaign> = {}): AdCampaign {
+  return {
+    id,
+    position: 1,
+    company_name: `Company ${id}`,
+    logo_url: `https://cdn.example.com/${id}.png`,
+    link_url: `https://example.com/${id}`,
+    tagline: 'Tagline',
+    is_active: true,
+    starts_at: null,
+    ends_at: null,
+    lounge_ids: [],
+    weight: 1,
+    frequency_cap: null,
+    frequency_cap_days: 7,
+    ...overrides,
+  };
+}
+
+describe('AdCampaignService', () => {
+  describe('eligibility', () => {
+    it('should only run active campaigns inside their flight', () => {
+      expect(isCampaignLive(campaign('a'), 'l1', NOW)).toBe(true);
+      expect(
+        isCampaignLive(campaign('a', { is_active: false }), 'l1', NOW)
+      ).toBe(false);
+      expect(
+        isCampaignLive(
+          campaign('a', { starts_at: '2026-10-20T00:00:00.000Z' }),
+          'l1',
+          NOW
+        )
+      ).toBe(false);
+      expect(
+        isCampaignLive(
+          campaign('a', { ends_at: '2026-10-19T00:00:00.000Z' }),
+          'l1',
+          NOW
+        )
+      ).toBe(false);
+    });
+
+    it('should respect lounge targeting', () => {
+      const targeted = campaign('a', { lounge_ids: ['l2'] });
+
+      expect(isCampaignLive(targeted, 'l1', NOW)).toBe(false);
+      expect(isCampaignLive(targeted, 'l2', NOW)).toBe(true);
+    });
+
+    it('should count only impressions inside the cap window', () => {
+      const capped = { frequency_cap: 2, frequency_cap_days: 7 };
+
+      expect(
+        isUnderFrequencyCap(
+          capped,
+          ['2026-10-18T08:00:00.000Z', '2026-10-01T08:00:00.000Z'],
+          NOW
+        )
+      ).toBe(true);
+      expect(
+        isUnderFrequencyCap(
+          capped,
+          ['2026-10-18T08:00:00.000Z', '2026-10-15T08:00:00.000Z'],
+          NOW
+        )
+      ).toBe(false);
+      expect(
+        isUnderFrequencyCap(
+          { frequency_cap: null, frequency_cap_days: 7 },
+          Array(50).fill('2026-10-18T08:00:00.000Z'),
+          NOW
+        )
+      ).toBe(true);
+    });
+  });
+
+  describe('selectCampaigns', () => {
+    it('should keep every campaign when they fit, in position order', () => {
+      const selected = selectCampaigns([
+        campaign('b', { position: 2 }),
+        campaign('a', { position: 1 }),
+      ]);
+
+      expect(selected.map((c) => c.id)).toEqual(['a', 'b']);
+    });
+
+    it('should draw by weight without repeats when there are more than two', () => {
+      const campaigns = [
+        campaign('a', { position: 1, weight: 1 }),
+        campaign('b', { position: 2, weight: 8 }),
+        campaign('c', { position: 3, weight: 1 }),
+      ];
+      // First roll lands in b's share; second roll (b removed) in c's
+      const rolls = [0.5, 0.9];
+
+      const selected = selectCampaigns(campaigns, 2, () => rolls.shift()!);
+
+      expect(selected.map((c) => c.id)).toEqual(['b', 'c']);
+    });
+  });
+
+  describe('reports', () => {
+    it('should fill days without activity and export CSV', () => {
+      const report = buildCampaignReport(
+        { id: 'a', company_name: 'Acme' },
+        new Date('2026-10-17T00:00:00.000Z'),
+        NOW,
+        [
+          { day: '2026-10-17', impressions: 200, clicks: 5 },
+          { day: '2026-10-19', impressions: 100, clicks: 1 },
+        ]
+      );
+
+      expect(report.days.map((d) => d.date)).toEqual([
+        '2026-10-17',
+        '2026-10-18',
+        '2026-10-19',
+      ]);
+      expect(report.impressions).toBe(300);
+      expect(report.clicks).toBe(6);
+      expect(campaignReportToCsv(report)).toBe(
+        [
+          'date,impressions,clicks,ctr_percent',
+          '2026-10-17,200,5,2.50',
+          '2026-10-18,0,0,0.00',
+          '2026-10-19,100,1,1.00',
+          'total,300,6,2.00',
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('chooseCampaigns', () => {
+    function createSupabase(
+      campaigns: AdCampaign[],
+      impressions: Array<{ campaign_id: string; created_at: string }>
+    ) {
+      const from = jest.fn((table: string) =>
+        table === 'email_advertisers'
+          ? {
+              select: () => ({
+                eq: jest.fn().mockResolvedValue({
+                  data: campaigns,
+                  error: null,
+                }),
+              }),
+            }
+          : {
+              select: () => ({
+                eq: () => ({
+                  in: () => ({
+                    gte: jest
+                      .fn()
+                      .mockResolvedValue({ data: impressions, error: null }),
+                  }),
+                }),
+              }),
+            }
+      );
+      return { from } as unknown as SupabaseClient;
+    }
+
+    it('should skip campaigns the recipient has seen too often', async () => {
+      const supabase = createSupabase(
+        [
+          campaign('a', { position: 1, frequency_cap: 1 }),
+          campaign('b', { position: 2, lounge_ids: ['l2'] }),
+          campaign('c', { position: 3 }),
+        ],
+        [{ campaign_id: 'a', created_at: '2026-10-18T08:00:00.000Z' }]
+      );
+      const service = new AdCampaignService(supabase);
+
+      const forUser = await service.chooseCampaigns('l1', 'user-1', NOW);
+      const forTestSend = await service.chooseCampaigns('l1', null, NOW);
+
+      expect(forUser.map((c) => c.id)).toEqual(['c']);
+      expect(forTestSend.map((c) => c.id)).toEqual(['a', 'c']);
+    });
+  });
+
+  it('should bill at most one click per delivery and campaign', async () => {
+    const upsert = jest.fn().mockResolvedValue({ error: null });
+    const supabase = {
+      from: jest.fn(() => ({ upsert })),
+    } as unknown as SupabaseClient;
+
+    await new AdCampaignService(supabase).recordClick('a', {
+      editionId: 'edition-1',
+      deliveryId: 'delivery-1',
+    });
+
+    expect(upsert).toHaveBeenCalledWith(
+      { campaign_id: 'a', edition_id: 'edition-1', delivery_id: 'delivery-1' },
+      { onConflict: 'delivery_id,campaign_id', ignoreDuplicates: true }
+    );
+  });
+});
@@ -0,0 +1,220 @@
+import {
+  ContentDeduplicationService,
+  calculateShingleSimilarity,
+  clusterCrossCreatorContent,
+  createShingles,
+  type ContentForClustering,
+} from '@/lib/services/content-deduplication';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const hoursAgo = (hours: number) =>
+  new Date(NOW.getTime() - hours * HOUR_MS).toISOString();
+
+const ANNOUNCEMENT =
+  'We just raised a $40M Series B led by Acme Ventures to bring AI agents to every finance team';
+
+const post = (
+  overrides: Partial<ContentForClustering> & { id: string; creator_id: string }
+): ContentForClustering => ({
+  platform: 'twitter',
+  title: '',
+  description: ANNOUNCEMENT,
+  published_at: hoursAgo(1),
+  ...overrides,
+});
+
+describe('ContentDeduplicationService', () => {
+  describe('createShingles', () => {
+    it('should build normalized word shingles', () => {
+      expect(createShingles('Hello, World! How are you?')).toEqual(
+        new Set(['hello world how', 'world how are', 'how are you'])
+      );
+    });
+
+    it('should return no shingles for short text', () => {
+      expect(createShingles('Big news').size).toBe(0);
+    });
+  });
+
+  describe('calculateShingleSimilarity', () => {
+    it('should score identical and disjoint texts', () => {
+      const shingles = createShingles(ANNOUNCEMENT);
+
+      expect(calculateShingleSimilarity(shingles, shingles)).toBe(1);
+      expect(
+        calculateShingleSimilarity(
+          shingles,
+          createShingles('A completely different post about hiring engineers')
+        )
+      ).toBe(0);
+      expect(calculateShingleSimilarity(new Set(), new Set())).toBe(0);
+    });
+  });
+
+  describe('clusterCrossCreatorContent', () => {
+    it('should group the same announcement across creators and platforms', () => {
+      const clusters = clusterCrossCreatorContent(
+        [post({ id: 'new', creator_id: 'a' })],
+        [
+          post({
+            id: 'linkedin',
+            creator_id: 'b',
+            platform: 'linkedin',
+            description: `${ANNOUNCEMENT}. Congrats to the team!`,
+          }),
+          post({
+            id: 'other',
+            creator_id: 'c',
+            description: 'Our quarterly hiring update for the engineering team',
+          }),
+        ]
+      );
+
+      expect(clusters).toHaveLength(1);
+      expect(clusters[0].map((item) => item.id).sort()).toEqual([
+        'linkedin',
+        'new',
+      ]);
+    });
+
+    it('should ignore posts by the same creator and outside the window', () => {
+      const clusters = clusterCrossCreatorContent(
+        [post({ id: 'new', creator_id: 'a' })],
+        [
+          post({ id: 'own', creator_id: 'a' }),
+          post({ id: 'old', creator_id: 'b', published_at: hoursAgo(72) }),
+        ]
+      );
+
+      expect(clusters).toEqual([]);
+    });
+
+    it('should not match very short posts', () => {
+      const clusters = clusterCrossCreatorContent(
+        [post({ id: 'new', creator_id: 'a', description: 'Big news today!' })],
+        [post({ id: 'b1', creator_id: 'b', description: 'Big news today!' })]
+      );
+
+      expect(clusters).toEqual([]);
+    });
+  });
+
+  describe('clusterCrossCreatorDuplicates', () => {
+    const createSupabaseMock = (
+      candidates: ContentForClustering[],
+      existing: ContentForClustering[]
+    ) => {
+      const updates: Array<{ data: Record<string, unknown>; ids: unknown }> =
+        [];
+      const candidateQuery: Record<string, jest.Mock> = {
+        eq: jest.fn(() => candidateQuery),
+        gte: jest.fn().mockResolvedValue({ data: candidates, error: null }),
+      };
+      const existingQuery: Record<string, jest.Mock> = {
+        neq: jest.fn(() => existingQuery),
+        gte: jest.fn(() => existingQuery),
+        lte: jest.fn(() => existingQuery),
+        order: jest.fn(() => existingQuery),
+        range: jest.fn(() => existingQuery),
+        overrideTypes: jest.fn().mockResolvedValue({
+          data: existing.map(({ id, published_at }) => ({ id, published_at })),
+          error: null,
+        }),
+      };
+      const textQuery = {
+        in: jest.fn().mockResolvedValue({ data: existing, error: null }),
+      };
+      const groupQuery = {
+        in: jest.fn().mockResolvedValue({
+          data: [{ id: 'yt', platform: 'youtube', published_at: hoursAgo(3) }],
+          error: null,
+        }),
+      };
+
+      const select = jest
+        .fn()
+        .mockReturnValueOnce(candidateQuery)
+        .mockReturnValueOnce(existingQuery)
+        .mockImplementation((columns: string) =>
+          columns.includes('content_body') ? textQuery : groupQuery
+        );
+      const update = jest.fn((data: Record<string, unknown>) => ({
+        in: jest.fn((_column: string, ids: unknown) => {
+          updates.push({ data, ids });
+          return Promise.resolve({ error: null });
+        }),
+        eq: jest.fn((_column: string, id: unknown) => {
+          updates.push({ data, ids: id });
+          return Promise.resolve({ error: null });
+        }),
+      }));
+
+      return {
+        supabase: { from: jest.fn(() => ({ select, update })) } as any,
+        updates,
+        textQuery,
+      };
+    };
+
+    it('should join an existing group and pick the primary by platform priority', async () => {
+      const { supabase, updates } = createSupabaseMock(
+        [post({ id: 'new', creator_id: 'a' })],
+        [
+          post({
+            id: 'linkedin',
+            creator_id: 'b',
+            platform: 'linkedin',
+            duplicate_group_id: 'group-1',
+            is_primary: false,
+          }),
+        ]
+      );
+
+      const result = await new ContentDeduplicationService(
+        supabase
+      ).clusterCrossCreatorDuplicates('a', NOW);
+
+      expect(result).toEqual({ groupsUpdated: 1 });
+      expect(updates[0].data).toEqual({
+        duplicate_group_id: 'group-1',
+        is_primary: false,
+      });
+      expect((updates[0].ids as string[]).sort()).toEqual([
+        'linkedin',
+        'new',
+        'yt',
+      ]);
+      expect(updates[1]).toEqual({ data: { is_primary: true }, ids: 'yt' });
+    });
+
+    it('should only load text for the posts closest to a candidate', async () => {
+      const others = Array.from({ length: 600 }, (_, i) =>
+        post({
+          id: `other-${i}`,
+          creator_id: 'b',
+          description: `Unrelated update number ${i} about something else entirely`,
+          published_at: new Date(
+            NOW.getTime() - HOUR_MS - i * 60 * 1000
+          ).toISOString(),
+        })
+      );
+      const { supabase, textQuery } = createSupabaseMock(
+        [post({ id: 'new', creator_id: 'a' })],
+        others
+      );
+
+      await new ContentDeduplicationService(
+        supabase
+      ).clusterCrossCreatorDuplicates('a', NOW);
+
+      const loaded = textQuery.in.mock.calls.flatMap(
+        ([, ids]: [string, string[]]) => ids
+      );
+      expect(loaded).toHaveLength(500);
+      expect(loaded).toContain('other-0');
+      expect(loaded).not.toContain('other-599');
+    });
+  });
+});
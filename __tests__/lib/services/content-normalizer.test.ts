@@ -1,6 +1,6 @@
 import { ContentNormalizer } from '@/lib/services/content-normalizer';
 import { RSSItem } from '@/types/rss';
-import { NormalizeContentInput } from '@/types/content';
+import { CreateContentInput, NormalizeContentInput } from '@/types/content';
 import { createMockRSSItem } from '../../utils/test-helpers';
 
 describe('ContentNormalizer', () => {
@@ -393,6 +393,298 @@ describe('ContentNormalizer', () => {
     });
   });
 
+  describe('Podcast normalization', () => {
+    it('should add episode duration and artwork to podcast items', () => {
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'rss',
+        platformData: createMockRSSItem({
+          link: undefined,
+          itunes: {
+            duration: '01:02:03',
+            image: 'https://example.com/episode.jpg',
+          },
+          podcast: { duration: 3723, transcripts: [] },
+        }),
+        sourceUrl: 'https://example.com/feed.xml',
+      });
+
+      expect(result.url).toBe('https://example.com/podcast.mp3');
+      expect(result.media_urls).toEqual([
+        {
+          url: 'https://example.com/podcast.mp3',
+          type: 'audio',
+          size: 1234567,
+          duration: 3723000,
+        },
+        { url: 'https://example.com/episode.jpg', type: 'image' },
+      ]);
+    });
+  });
+
+  describe('Bluesky normalization', () => {
+    const author = {
+      did: 'did:plc:author',
+      handle: 'founder.bsky.social',
+      displayName: 'Founder',
+    };
+    const basePost = {
+      uri: 'at://did:plc:author/app.bsky.feed.post/3kpost',
+      cid: 'cid-1',
+      author,
+      record: {
+        text: 'Shipping our new pricing page today',
+        createdAt: '2024-01-01T12:00:00.000Z',
+      },
+      likeCount: 10,
+      replyCount: 2,
+      repostCount: 3,
+      indexedAt: '2024-01-01T12:00:01.000Z',
+    };
+
+    it('should normalize a plain post', () => {
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'bluesky',
+        platformData: { post: basePost },
+      });
+
+      expect(result.platform).toBe('bluesky');
+      expect(result.platform_content_id).toBe(basePost.uri);
+      expect(result.url).toBe(
+        'https://bsky.app/profile/founder.bsky.social/post/3kpost'
+      );
+      expect(result.content_body).toBe('Shipping our new pricing page today');
+      expect(result.engagement_metrics?.likes).toBe(10);
+      expect(result.reference_type).toBeUndefined();
+    });
+
+    it('should map reposts to retweet references', () => {
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'bluesky',
+        platformData: {
+          post: basePost,
+          reason: {
+            $type: 'app.bsky.feed.defs#reasonRepost',
+            by: { did: 'did:plc:reposter', handle: 'vc.bsky.social' },
+            indexedAt: '2024-01-02T08:00:00.000Z',
+          },
+        },
+      });
+
+      expect(result.reference_type).toBe('retweet');
+      expect(result.platform_content_id).toBe(
+        `${basePost.uri}#repost:did:plc:reposter`
+      );
+      expect(result.referenced_content?.author?.username).toBe(
+        'founder.bsky.social'
+      );
+      expect(result.published_at).toBe('2024-01-02T08:00:00.000Z');
+    });
+
+    it('should map quote embeds to quote references', () => {
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'bluesky',
+        platformData: {
+          post: {
+            ...basePost,
+            embed: {
+              $type: 'app.bsky.embed.record#view',
+              record: {
+                $type: 'app.bsky.embed.record#viewRecord',
+                uri: 'at://did:plc:other/app.bsky.feed.post/3kquoted',
+                cid: 'cid-2',
+                author: { did: 'did:plc:other', handle: 'other.bsky.social' },
+                value: {
+                  text: 'Original take',
+                  createdAt: '2023-12-31T12:00:00.000Z',
+                },
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.reference_type).toBe('quote');
+      expect(result.referenced_content?.text).toBe('Original take');
+      expect(result.referenced_content?.url).toBe(
+        'https://bsky.app/profile/other.bsky.social/post/3kquoted'
+      );
+    });
+
+    it('should map replies using the parent post', () => {
+      const parentUri = 'at://did:plc:other/app.bsky.feed.post/3kparent';
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'bluesky',
+        platformData: {
+          post: {
+            ...basePost,
+            record: {
+              ...basePost.record,
+              reply: {
+                root: { uri: parentUri, cid: 'cid-3' },
+                parent: { uri: parentUri, cid: 'cid-3' },
+              },
+            },
+          },
+        },
+      });
+
+      expect(result.reference_type).toBe('reply');
+      expect(result.referenced_content?.platform_content_id).toBe(parentUri);
+    });
+  });
+
+  describe('Mastodon normalization', () => {
+    const account = {
+      id: '1',
+      username: 'founder',
+      acct: 'founder',
+      display_name: 'Founder',
+      url: 'https://mastodon.social/@founder',
+    };
+    const baseStatus = {
+      id: '111',
+      uri: 'https://mastodon.social/users/founder/statuses/111',
+      url: 'https://mastodon.social/@founder/111',
+      created_at: '2024-01-01T12:00:00.000Z',
+      content: '<p>We hit <strong>$1M ARR</strong></p>',
+      account,
+      media_attachments: [
+        {
+          id: 'm1',
+          type: 'image' as const,
+          url: 'https://files.mastodon.social/m1.png',
+          preview_url: 'https://files.mastodon.social/m1_small.png',
+        },
+      ],
+      favourites_count: 5,
+      replies_count: 1,
+      reblogs_count: 2,
+    };
+
+    it('should normalize a status into plain text content', () => {
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'mastodon',
+        platformData: baseStatus,
+      });
+
+      expect(result.platform).toBe('mastodon');
+      expect(result.platform_content_id).toBe(baseStatus.uri);
+      expect(result.url).toBe('https://mastodon.social/@founder/111');
+      expect(result.content_body).toBe('We hit $1M ARR');
+      expect(result.media_urls).toEqual([
+        expect.objectContaining({
+          url: 'https://files.mastodon.social/m1.png',
+          type: 'image',
+        }),
+      ]);
+    });
+
+    it('should map boosts to retweet references', () => {
+      const result = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'mastodon',
+        platformData: {
+          ...baseStatus,
+          id: '222',
+          uri: 'https://mastodon.social/users/vc/statuses/222/activity',
+          content: '',
+          account: { ...account, id: '2', acct: 'vc', username: 'vc' },
+          media_attachments: [],
+          reblog: baseStatus,
+        },
+      });
+
+      expect(result.reference_type).toBe('retweet');
+      expect(result.title).toBe('Boost by @vc');
+      expect(result.content_body).toBe('We hit $1M ARR');
+      expect(result.referenced_content?.author?.username).toBe('founder');
+    });
+
+    it('should map replies and quotes', () => {
+      const reply = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'mastodon',
+        platformData: { ...baseStatus, in_reply_to_id: '99' },
+      });
+      expect(reply.reference_type).toBe('reply');
+      expect(reply.referenced_content?.platform_content_id).toBe('99');
+
+      const quote = normalizer.normalize({
+        creator_id: 'creator-123',
+        platform: 'mastodon',
+        platformData: {
+          ...baseStatus,
+          quote: { state: 'accepted', quoted_status: baseStatus },
+        },
+      });
+      expect(quote.reference_type).toBe('quote');
+      expect(quote.referenced_content?.text).toBe('We hit $1M ARR');
+    });
+  });
+
+  describe('linkThreads', () => {
+    const tweet = (
+      id: string,
+      replyTo?: string,
+      creator_id = 'creator-123'
+    ): CreateContentInput => ({
+      creator_id,
+      platform: 'twitter',
+      platform_content_id: id,
+      url: `https://x.com/founder/status/${id}`,
+      content_body: `Post ${id}`,
+      ...(replyTo && {
+        reference_type: 'reply' as const,
+        referenced_content: { id: replyTo, platform_content_id: replyTo },
+      }),
+    });
+
+    it('should link a self-reply chain to its opener in reply order', () => {
+      // Newest first, as the scraper returns them
+      const result = normalizer.linkThreads([
+        tweet('3', '2'),
+        tweet('standalone'),
+        tweet('2', '1'),
+        tweet('1'),
+      ]);
+
+      expect(
+        result.map((item) => [
+          item.platform_content_id,
+          item.thread_id,
+          item.thread_position,
+        ])
+      ).toEqual([
+        ['3', '1', 2],
+        ['standalone', undefined, undefined],
+        ['2', '1', 1],
+        ['1', '1', 0],
+      ]);
+    });
+
+    it('should leave replies to other creators and unknown posts unlinked', () => {
+      const result = normalizer.linkThreads([
+        tweet('1'),
+        tweet('2', '1', 'creator-456'),
+        tweet('3', 'not-fetched'),
+      ]);
+
+      expect(result.every((item) => item.thread_id === undefined)).toBe(true);
+    });
+
+    it('should not loop on a reply cycle', () => {
+      const result = normalizer.linkThreads([tweet('a', 'b'), tweet('b', 'a')]);
+
+      expect(result.map((item) => item.thread_id)).toHaveLength(2);
+    });
+  });
+
   describe('helper methods', () => {
     it('should calculate correct word count', () => {
       const testCases = [
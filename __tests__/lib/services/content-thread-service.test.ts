@@ -0,0 +1,164 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { ContentThreadService } from '@/lib/services/content-thread-service';
+import type { CreateContentInput } from '@/types/content';
+
+function tweet(
+  id: string,
+  extra: Partial<CreateContentInput> = {}
+): CreateContentInput {
+  return {
+    creator_id: 'creator-1',
+    platform: 'twitter',
+    platform_content_id: id,
+    url: `https://x.com/founder/status/${id}`,
+    content_body: `Post ${id}`,
+    ...extra,
+  };
+}
+
+function replyTo(parentId: string) {
+  return {
+    reference_type: 'reply' as const,
+    referenced_content: { id: parentId, platform_content_id: parentId },
+  };
+}
+
+function mockSupabase(rows: Array<Record<string, unknown>> = []) {
+  const updates: Array<{ values: Record<string, unknown>; id: unknown }> = [];
+
+  const from = jest.fn(() => {
+    const query: Record<string, jest.Mock> = {};
+    let values: Record<string, unknown> | null = null;
+    for (const method of ['select', 'in', 'not', 'order']) {
+      query[method] = jest.fn(() => query);
+    }
+    query.update = jest.fn((update) => {
+      values = update;
+      return query;
+    });
+    query.eq = jest.fn((_column, id) => {
+      if (values) updates.push({ values, id });
+      return query;
+    });
+    query.then = jest.fn((resolve) => resolve({ data: rows, error: null }));
+    return query;
+  });
+
+  return {
+    client: { from } as unknown as SupabaseClient,
+    from,
+    updates,
+  };
+}
+
+describe('ContentThreadService', () => {
+  describe('attachToStoredThreads', () => {
+    it('should skip the lookup when no reply points outside the batch', async () => {
+      const { client, from } = mockSupabase();
+      const inputs = [
+        tweet('1', { thread_id: '1', thread_position: 0 }),
+        tweet('2', { ...replyTo('1'), thread_id: '1', thread_position: 1 }),
+      ];
+
+      const result = await new ContentThreadService(
+        client
+      ).attachToStoredThreads(inputs);
+
+      expect(result).toBe(inputs);
+      expect(from).not.toHaveBeenCalled();
+    });
+
+    it('should continue a stored thread with the replies chained in the batch', async () => {
+      const { client, updates } = mockSupabase([
+        {
+          id: 'content-2',
+          creator_id: 'creator-1',
+          platform_content_id: '2',
+          thread_id: '1',
+          thread_position: 1,
+        },
+      ]);
+
+      const result = await new ContentThreadService(
+        client
+      ).attachToStoredThreads([
+        tweet('4', { ...replyTo('3'), thread_id: '3', thread_position: 1 }),
+        tweet('3', { ...replyTo('2'), thread_id: '3', thread_position: 0 }),
+        tweet('standalone'),
+      ]);
+
+      expect(
+        result.map((item) => [item.thread_id, item.thread_position])
+      ).toEqual([
+        ['1', 3],
+        ['1', 2],
+        [undefined, undefined],
+      ]);
+      expect(updates).toEqual([]);
+    });
+
+    it('should open a thread at a stored post that had none', async () => {
+      const { client, updates } = mockSupabase([
+        {
+          id: 'content-1',
+          creator_id: 'creator-1',
+          platform_content_id: '1',
+          thread_id: null,
+          thread_position: null,
+        },
+      ]);
+
+      const result = await new ContentThreadService(
+        client
+      ).attachToStoredThreads([tweet('2', replyTo('1'))]);
+
+      expect(result[0]).toMatchObject({ thread_id: '1', thread_position: 1 });
+      expect(updates).toEqual([
+        { values: { thread_id: '1', thread_position: 0 }, id: 'content-1' },
+      ]);
+    });
+
+    it('should ignore replies to posts by another creator', async () => {
+      const { client } = mockSupabase([
+        {
+          id: 'content-9',
+          creator_id: 'creator-2',
+          platform_content_id: '9',
+          thread_id: null,
+          thread_position: null,
+        },
+      ]);
+
+      const result = await new ContentThreadService(
+        client
+      ).attachToStoredThreads([tweet('2', replyTo('9'))]);
+
+      expect(result[0].thread_id).toBeUndefined();
+    });
+  });
+
+  it('should group thread posts by member', async () => {
+    const post = (id: string, position: number) => ({
+      id,
+      creator_id: 'creator-1',
+      thread_id: '1',
+      thread_position: position,
+      content_body: `Post ${id}`,
+    });
+    const { client } = mockSupabase([
+      post('content-1', 0),
+      post('content-2', 1),
+    ]);
+
+    const threads = await new ContentThreadService(client).getThreads([
+      { id: 'content-2', creator_id: 'creator-1', thread_id: '1' },
+      { id: 'content-5', creator_id: 'creator-1', thread_id: null },
+    ]);
+
+    expect(Array.from(threads.keys())).toEqual(['content-2']);
+    expect(threads.get('content-2')?.map((p) => p.id)).toEqual([
+      'content-1',
+      'content-2',
+    ]);
+  });
+});
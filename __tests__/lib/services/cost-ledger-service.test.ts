@@ -0,0 +1,190 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  CostLedgerService,
+  LLM_TASK_SUBSYSTEMS,
+  summarizeBudget,
+} from '@/lib/services/cost-ledger-service';
+import { CostLedgerError, type CostDailyTotal } from '@/types/cost';
+import type { Database } from '@/types/database.types';
+
+const NOW = new Date('2026-10-19T15:00:00.000Z');
+
+function total(
+  day: string,
+  subsystem: CostDailyTotal['subsystem'],
+  cost: number,
+  provider = 'openai',
+  model: string | null = 'gpt-4o-mini'
+): CostDailyTotal {
+  return {
+    day,
+    subsystem,
+    provider,
+    model_or_actor: model,
+    calls: 2,
+    units: 100,
+    cost_usd: cost,
+  };
+}
+
+function mockSupabase({
+  totals = [] as CostDailyTotal[],
+  budgets = [] as Array<Record<string, unknown>>,
+  insertError = null as { message: string } | null,
+} = {}) {
+  const insert = jest.fn().mockResolvedValue({ error: insertError });
+  const rpc = jest.fn().mockResolvedValue({ data: totals, error: null });
+  const from = jest.fn(() => {
+    const query: Record<string, jest.Mock> = {};
+    query.insert = insert;
+    query.select = jest.fn(() => query);
+    query.eq = jest.fn(() => query);
+    query.then = jest.fn((resolve) => resolve({ data: budgets, error: null }));
+    return query;
+  });
+
+  return {
+    client: { from, rpc } as unknown as SupabaseClient<Database>,
+    insert,
+    rpc,
+  };
+}
+
+describe('CostLedgerService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(NOW);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('summarizeBudget', () => {
+    const totals = [
+      total('2026-09-30', 'ai_news', 50),
+      total('2026-10-02', 'ai_news', 7),
+      total('2026-10-19', 'ai_news', 3),
+      total('2026-10-19', 'summaries', 40),
+    ];
+
+    it('should sum today and the month for one subsystem only', () => {
+      expect(summarizeBudget('ai_news', null, totals, NOW)).toEqual({
+        subsystem: 'ai_news',
+        dailySpend: 3,
+        monthlySpend: 10,
+        dailyLimit: null,
+        monthlyLimit: null,
+        exceeded: null,
+      });
+    });
+
+    it('should report the daily limit first when both are exceeded', () => {
+      const status = summarizeBudget(
+        'ai_news',
+        { daily_limit_usd: 2, monthly_limit_usd: 5 },
+        totals,
+        NOW
+      );
+
+      expect(status.exceeded).toBe('daily');
+    });
+
+    it('should report a monthly overrun within the daily limit', () => {
+      const status = summarizeBudget(
+        'ai_news',
+        { daily_limit_usd: 5, monthly_limit_usd: 10 },
+        totals,
+        NOW
+      );
+
+      expect(status.exceeded).toBe('monthly');
+    });
+  });
+
+  it('should record attribution and keep the content in metadata', async () => {
+    const { client, insert } = mockSupabase();
+
+    await new CostLedgerService(client).record({
+      subsystem: 'relevancy',
+      provider: 'openai',
+      modelOrActor: 'gpt-4o-mini',
+      task: 'relevancy',
+      unitType: 'tokens',
+      units: 1200,
+      inputTokens: 1100,
+      outputTokens: 100,
+      costUsd: 0.000225,
+      attribution: { loungeId: 'lounge-1', contentId: 'content-1' },
+    });
+
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        subsystem: 'relevancy',
+        lounge_id: 'lounge-1',
+        creator_id: null,
+        cost_usd: 0.000225,
+        metadata: { content_id: 'content-1' },
+      })
+    );
+  });
+
+  it('should raise a storage error when the insert fails', async () => {
+    const { client } = mockSupabase({ insertError: { message: 'down' } });
+
+    await expect(
+      new CostLedgerService(client).record({
+        subsystem: 'scraping',
+        provider: 'apify',
+        unitType: 'items',
+        units: 5,
+        costUsd: 0.002,
+      })
+    ).rejects.toBeInstanceOf(CostLedgerError);
+  });
+
+  it('should build a gap-free trend with vendors ranked by cost', async () => {
+    const { client, rpc } = mockSupabase({
+      totals: [
+        total('2026-10-01', 'ai_news', 9),
+        total('2026-10-17', 'scraping', 1.5, 'apify', 'apidojo/tweet-scraper'),
+        total('2026-10-19', 'summaries', 0.5),
+        total('2026-10-19', 'relevancy', 0.25),
+      ],
+      budgets: [
+        { subsystem: 'scraping', daily_limit_usd: 1, monthly_limit_usd: null },
+      ],
+    });
+
+    const report = await new CostLedgerService(client).getReport(3);
+
+    // A 3-day window still reads the whole month for monthly budgets
+    expect(rpc).toHaveBeenCalledWith('cost_ledger_daily_totals', {
+      p_since: '2026-10-01T00:00:00.000Z',
+    });
+    expect(report.trend.map((point) => point.day)).toEqual([
+      '2026-10-17',
+      '2026-10-18',
+      '2026-10-19',
+    ]);
+    expect(report.trend[1].total).toBe(0);
+    expect(report.trend[2].bySubsystem.summaries).toBe(0.5);
+    expect(report.totalCost).toBe(2.25);
+    expect(report.vendors[0]).toMatchObject({
+      provider: 'apify',
+      model_or_actor: 'apidojo/tweet-scraper',
+      cost: 1.5,
+    });
+    expect(report.vendors[1]).toMatchObject({ provider: 'openai', cost: 0.75 });
+
+    const aiNews = report.budgets.find((b) => b.subsystem === 'ai_news');
+    expect(aiNews?.monthlySpend).toBe(9);
+    const scraping = report.budgets.find((b) => b.subsystem === 'scraping');
+    expect(scraping).toMatchObject({ dailySpend: 0, exceeded: null });
+  });
+
+  it('should assign every gateway task to a subsystem', () => {
+    expect(LLM_TASK_SUBSYSTEMS.summary).toBe('summaries');
+    expect(LLM_TASK_SUBSYSTEMS.prompt_generation).toBe('images');
+    expect(LLM_TASK_SUBSYSTEMS.social_post_selection).toBe('digests');
+  });
+});
@@ -0,0 +1,236 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DigestAnalyticsService,
+  createRecipientToken,
+  createTrackedLink,
+  hasAnalyticsConsent,
+  parseTrackedLink,
+  summarizeDigestEvents,
+  verifyRecipientToken,
+  type TrackedDeliveryRow,
+} from '@/lib/services/digest-analytics-service';
+
+function linkParams(url: string, token = 'token') {
+  return new URL(url.replace('%%tracking_token%%', token)).searchParams;
+}
+
+describe('DigestAnalyticsService', () => {
+  const originalEnv = { ...process.env };
+
+  beforeAll(() => {
+    process.env.DIGEST_TRACKING_SECRET = 'test-secret';
+    process.env.NEXT_PUBLIC_APP_URL = 'https://app.example.com';
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('tracking links', () => {
+    it('should round-trip recipient tokens and reject forged ones', () => {
+      const token = createRecipientToken('delivery-1');
+
+      expect(verifyRecipientToken(token)).toBe('delivery-1');
+      expect(
+        verifyRecipientToken(token.replace('delivery-1', 'delivery-2'))
+      ).toBeNull();
+      expect(verifyRecipientToken('')).toBeNull();
+      expect(verifyRecipientToken('garbage')).toBeNull();
+    });
+
+    it('should parse a signed link and reject tampered destinations', () => {
+      const url = createTrackedLink({
+        editionId: 'edition-1',
+        section: 'advertiser',
+        target: 'Acme',
+        url: 'https://acme.com/?utm=digest&x=1',
+      });
+
+      expect(parseTrackedLink(linkParams(url))).toEqual({
+        editionId: 'edition-1',
+        section: 'advertiser',
+        target: 'Acme',
+        url: 'https://acme.com/?utm=digest&x=1',
+      });
+
+      const tampered = linkParams(url);
+      tampered.set('u', 'https://evil.example.com');
+      expect(parseTrackedLink(tampered)).toBeNull();
+
+      const retargeted = linkParams(url);
+      retargeted.set('t', 'Other');
+      expect(parseTrackedLink(retargeted)).toBeNull();
+    });
+
+    it('should not issue redirects to non-http destinations', () => {
+      const url = createTrackedLink({
+        editionId: 'edition-1',
+        section: 'news',
+        url: 'javascript:alert(1)',
+      });
+
+      expect(parseTrackedLink(linkParams(url))).toBeNull();
+    });
+  });
+
+  it('should only treat explicit analytics consent as consent', () => {
+    expect(hasAnalyticsConsent({ analytics_consent: true })).toBe(true);
+    expect(hasAnalyticsConsent({ analytics_consent: false })).toBe(false);
+    expect(hasAnalyticsConsent({ marketing_consent: true })).toBe(false);
+    expect(hasAnalyticsConsent(null)).toBe(false);
+  });
+
+  it('should summarize opens and CTR per lounge, day and section', () => {
+    const deliveries: TrackedDeliveryRow[] = [
+      {
+        id: 'd1',
+        lounge_id: 'l1',
+        sent_at: '2026-10-18T08:00:00Z',
+        lounges: { name: 'SaaS' },
+      },
+      {
+        id: 'd2',
+        lounge_id: 'l1',
+        sent_at: '2026-10-19T08:00:00Z',
+        lounges: { name: 'SaaS' },
+      },
+      {
+        id: 'd3',
+        lounge_id: 'l2',
+        sent_at: '2026-10-19T08:00:00Z',
+        lounges: { name: 'AI' },
+      },
+      {
+        id: 'd4',
+        lounge_id: 'l2',
+        sent_at: '2026-10-19T08:00:00Z',
+        lounges: { name: 'AI' },
+      },
+    ];
+
+    const report = summarizeDigestEvents('2026-10-01T00:00:00Z', deliveries, [
+      { delivery_id: 'd1', event_type: 'open', section: null, target: null },
+      { delivery_id: 'd1', event_type: 'click', section: 'news', target: '1' },
+      { delivery_id: 'd1', event_type: 'click', section: 'news', target: '2' },
+      // A click without a pixel load still counts as an open
+      {
+        delivery_id: 'd3',
+        event_type: 'click',
+        section: 'advertiser',
+        target: 'Acme',
+      },
+      // Events for deliveries outside the report are ignored
+      { delivery_id: 'dx', event_type: 'open', section: null, target: null },
+    ]);
+
+    expect(report.totals).toEqual({
+      tracked: 4,
+      opens: 2,
+      clicks: 3,
+      openRate: 0.5,
+      clickRate: 0.5,
+    });
+    expect(
+      report.lounges.map((l) => [l.name, l.openRate, l.clickRate])
+    ).toEqual([
+      ['SaaS', 0.5, 0.5],
+      ['AI', 0.5, 0.5],
+    ]);
+    expect(report.days.map((d) => [d.date, d.tracked])).toEqual([
+      ['2026-10-18', 1],
+      ['2026-10-19', 3],
+    ]);
+    expect(report.sections).toEqual([
+      { section: 'news', clicks: 2, clickRate: 0.25 },
+      { section: 'advertiser', clicks: 1, clickRate: 0.25 },
+    ]);
+    expect(report.advertisers).toEqual([
+      { name: 'Acme', clicks: 1, clickRate: 0.25 },
+    ]);
+  });
+
+  describe('recordEvent', () => {
+    function createSupabase(delivery: Record<string, unknown> | null) {
+      const insert = jest.fn().mockResolvedValue({ error: null });
+      const overrideTypes = jest
+        .fn()
+        .mockResolvedValue({ data: delivery, error: null });
+      const maybeSingle = jest.fn(() => ({ overrideTypes }));
+      const from = jest.fn((table: string) =>
+        table === 'digest_events'
+          ? { insert }
+          : { select: () => ({ eq: () => ({ maybeSingle }) }) }
+      );
+      return { supabase: { from } as unknown as SupabaseClient, insert };
+    }
+
+    const delivery = {
+      id: 'delivery-1',
+      edition_id: 'edition-1',
+      lounge_id: 'l1',
+      user_id: 'user-1',
+      tracked: true,
+      users: { consent_details: { analytics_consent: true } },
+    };
+
+    it('should record clicks for consenting recipients', async () => {
+      const { supabase, insert } = createSupabase(delivery);
+      const service = new DigestAnalyticsService(supabase);
+
+      const recorded = await service.recordEvent(
+        createRecipientToken('delivery-1'),
+        {
+          type: 'click',
+          link: {
+            editionId: 'edition-1',
+            section: 'news',
+            url: 'https://x.com',
+          },
+        }
+      );
+
+      expect(recorded).toBe(true);
+      expect(insert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          delivery_id: 'delivery-1',
+          user_id: 'user-1',
+          event_type: 'click',
+          section: 'news',
+          url: 'https://x.com',
+        })
+      );
+    });
+
+    it('should skip recipients who withdrew consent after the send', async () => {
+      const { supabase, insert } = createSupabase({
+        ...delivery,
+        users: { consent_details: { analytics_consent: false } },
+      });
+      const service = new DigestAnalyticsService(supabase);
+
+      const recorded = await service.recordEvent(
+        createRecipientToken('delivery-1'),
+        { type: 'open' }
+      );
+
+      expect(recorded).toBe(false);
+      expect(insert).not.toHaveBeenCalled();
+    });
+
+    it('should skip untracked sends and empty tokens', async () => {
+      const { supabase, insert } = createSupabase({
+        ...delivery,
+        tracked: false,
+      });
+      const service = new DigestAnalyticsService(supabase);
+
+      expect(
+        await service.recordEvent(createRecipientToken('delivery-1'), {
+          type: 'open',
+        })
+      ).toBe(false);
+      expect(await service.recordEvent('', { type: 'open' })).toBe(false);
+      expect(insert).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import {
+  canManageArchive,
+  canViewArchive,
+  getDigestArchivePath,
+  getEditionPreview,
+  latestVersions,
+  withArchiveHead,
+  type ArchiveLounge,
+} from '@/lib/services/digest-archive-service';
+
+const LOUNGE: ArchiveLounge = {
+  id: 'lounge-1',
+  name: 'SaaS',
+  description: 'Making You Smarter Every Morning',
+  subdomain: 'saas',
+  user_id: null,
+  is_system_lounge: true,
+};
+
+describe('DigestArchiveService', () => {
+  it('should build edition paths with the type only for weekly editions', () => {
+    expect(getDigestArchivePath('lounge-1')).toBe('/digests/lounge-1');
+    expect(getDigestArchivePath('lounge-1', '2026-10-19')).toBe(
+      '/digests/lounge-1/2026-10-19'
+    );
+    expect(getDigestArchivePath('lounge-1', '2026-10-19', 'weekly')).toBe(
+      '/digests/lounge-1/2026-10-19?type=weekly'
+    );
+  });
+
+  it('should keep the newest version of each edition in order', () => {
+    const rows = [
+      {
+        id: 'd2',
+        edition_type: 'daily',
+        edition_date: '2026-10-19',
+        version: 2,
+      },
+      {
+        id: 'd1',
+        edition_type: 'daily',
+        edition_date: '2026-10-19',
+        version: 1,
+      },
+      {
+        id: 'w1',
+        edition_type: 'weekly',
+        edition_date: '2026-10-19',
+        version: 1,
+      },
+      {
+        id: 'd0',
+        edition_type: 'daily',
+        edition_date: '2026-10-18',
+        version: 1,
+      },
+    ] as const;
+
+    expect(latestVersions([...rows]).map((row) => row.id)).toEqual([
+      'd2',
+      'w1',
+      'd0',
+    ]);
+  });
+
+  it('should limit custom lounges to their owner and admins', () => {
+    const custom = { ...LOUNGE, is_system_lounge: false, user_id: 'owner' };
+    const reader = { id: 'reader', role: 'viewer' };
+
+    expect(canViewArchive(LOUNGE, reader)).toBe(true);
+    expect(canViewArchive(LOUNGE, null)).toBe(false);
+    expect(canViewArchive(custom, reader)).toBe(false);
+    expect(canViewArchive(custom, { id: 'owner', role: 'viewer' })).toBe(true);
+    expect(canManageArchive(LOUNGE, reader)).toBe(false);
+    expect(canManageArchive(LOUNGE, { id: 'admin', role: 'admin' })).toBe(true);
+  });
+
+  it('should preview the big story or the weekly narrative', () => {
+    expect(
+      getEditionPreview({
+        edition_type: 'daily',
+        subject: 'SaaS Daily Digest - Oct 19, 2026',
+        inputs: {
+          aiNewsSummary: {
+            bigStory: { title: 'Big raise', summary: 'A  long\nsummary' },
+          },
+        },
+      })
+    ).toEqual({
+      title: 'SaaS Daily Digest - Oct 19, 2026',
+      headline: 'Big raise',
+      description: 'A long summary',
+    });
+
+    const weekly = getEditionPreview({
+      edition_type: 'weekly',
+      subject: 'SaaS Weekly Best Of',
+      inputs: {
+        narrative: 'x'.repeat(300),
+        themes: [{ title: 'Pricing', summary: 'Theme summary' }],
+      },
+    });
+    expect(weekly.headline).toBe('Pricing');
+    expect(weekly.description).toHaveLength(200);
+    expect(weekly.description.endsWith('…')).toBe(true);
+  });
+
+  it('should inject escaped preview tags and an archive link', () => {
+    const html = withArchiveHead(
+      '<!DOCTYPE html><html><head><meta charset="UTF-8"/></head><body style="margin:0"><p>Digest</p></body></html>',
+      {
+        title: 'Tom & Jerry <Daily>',
+        description: 'Say "hi"',
+        url: 'https://app.example.com/digests/saas/2026-10-19',
+        archiveUrl: 'https://app.example.com/digests/saas',
+        archiveLabel: 'All SaaS digests',
+        imageUrl: 'https://app.example.com/api/digests/e1/og',
+      }
+    );
+
+    expect(html).toContain(
+      '<head><title>Tom &amp; Jerry &lt;Daily&gt;</title>'
+    );
+    expect(html).toContain(
+      '<meta property="og:description" content="Say &quot;hi&quot;" />'
+    );
+    expect(html).toContain(
+      '<meta property="og:image" content="https://app.example.com/api/digests/e1/og" />'
+    );
+    expect(html).toContain('summary_large_image');
+    expect(html).toMatch(
+      /<body style="margin:0"><div[^>]*><a href="https:\/\/app\.example\.com\/digests\/saas"/
+    );
+  });
+
+  it('should leave out the preview image for private editions', () => {
+    const html = withArchiveHead('<html><head></head><body></body></html>', {
+      title: 'Digest',
+      description: '',
+      url: 'https://app.example.com/digests/saas/2026-10-19',
+      archiveUrl: 'https://app.example.com/digests/saas',
+      archiveLabel: 'All SaaS digests',
+    });
+
+    expect(html).not.toContain('og:image');
+    expect(html).toContain('content="summary"');
+  });
+});
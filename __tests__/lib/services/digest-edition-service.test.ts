@@ -0,0 +1,200 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DIGEST_PLACEHOLDERS,
+  DigestEditionService,
+  getEditionDate,
+  getWeekStartDate,
+  personalizeEdition,
+} from '@/lib/services/digest-edition-service';
+import type { DigestEdition } from '@/types/digest';
+
+const EDITION: DigestEdition = {
+  id: 'edition-1',
+  lounge_id: 'lounge-1',
+  edition_type: 'daily',
+  edition_date: '2026-10-19',
+  version: 1,
+  status: 'ready',
+  subject: 'SaaS Daily Digest - Oct 19, 2026',
+  html: `<a href="${DIGEST_PLACEHOLDERS.UNSUBSCRIBE_URL}">Unsubscribe</a>`,
+  text_body: `Unsubscribe: ${DIGEST_PLACEHOLDERS.UNSUBSCRIBE_URL}`,
+  inputs: null,
+  error: null,
+  is_public: false,
+  shared_at: null,
+  created_at: '2026-10-19T13:00:00.000Z',
+  built_at: '2026-10-19T13:02:00.000Z',
+};
+
+describe('DigestEditionService', () => {
+  it('fills placeholders per recipient, escaping them in HTML', () => {
+    const fields = {
+      email: 'jane@example.com',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe?t=a&u=b',
+    };
+
+    expect(personalizeEdition(EDITION.html!, fields)).toBe(
+      '<a href="https://app.example.com/unsubscribe?t=a&amp;u=b">Unsubscribe</a>'
+    );
+    expect(personalizeEdition(EDITION.text_body!, fields, 'text')).toBe(
+      'Unsubscribe: https://app.example.com/unsubscribe?t=a&u=b'
+    );
+  });
+
+  it('inserts each recipient sponsor block without escaping', () => {
+    const fields = {
+      email: 'jane@example.com',
+      unsubscribeUrl: 'https://app.example.com/unsubscribe',
+      advertisers: {
+        html: '<table><tr><td>Acme</td></tr></table>',
+        text: 'Acme',
+      },
+    };
+    const template = `<div>${DIGEST_PLACEHOLDERS.ADVERTISERS}</div>`;
+
+    expect(personalizeEdition(template, fields)).toBe(
+      '<div><table><tr><td>Acme</td></tr></table></div>'
+    );
+    expect(personalizeEdition(template, fields, 'text')).toBe(
+      '<div>Acme</div>'
+    );
+    expect(
+      personalizeEdition(template, { ...fields, advertisers: undefined })
+    ).toBe('<div></div>');
+  });
+
+  it('uses the UTC date as the edition date', () => {
+    expect(getEditionDate(new Date('2026-10-19T23:30:00.000Z'))).toBe(
+      '2026-10-19'
+    );
+  });
+
+  it('dates weekly editions by the Monday of the week', () => {
+    expect(getWeekStartDate(new Date('2026-10-25T23:30:00.000Z'))).toBe(
+      '2026-10-19'
+    );
+    expect(getWeekStartDate(new Date('2026-10-19T00:00:00.000Z'))).toBe(
+      '2026-10-19'
+    );
+  });
+
+  it('reserves the next version of an edition', async () => {
+    const insert = jest.fn().mockReturnValue({
+      select: jest.fn().mockReturnValue({
+        single: jest.fn().mockResolvedValue({
+          data: { ...EDITION, version: 3, status: 'building' },
+          error: null,
+        }),
+      }),
+    });
+    const latest: Record<string, jest.Mock> = {};
+    latest.select = jest.fn(() => latest);
+    latest.eq = jest.fn(() => latest);
+    latest.order = jest.fn(() => latest);
+    latest.limit = jest.fn(() => latest);
+    latest.maybeSingle = jest
+      .fn()
+      .mockResolvedValue({ data: { ...EDITION, version: 2 }, error: null });
+
+    const from = jest
+      .fn()
+      .mockReturnValueOnce(latest)
+      .mockReturnValueOnce({ insert });
+
+    const service = new DigestEditionService({
+      from,
+    } as unknown as SupabaseClient);
+    const edition = await service.startEdition('lounge-1', '2026-10-19');
+
+    expect(edition.version).toBe(3);
+    expect(insert).toHaveBeenCalledWith(
+      expect.objectContaining({ version: 3, status: 'building' })
+    );
+  });
+
+  it('skips recipients who already received the edition that day', async () => {
+    const existing: Record<string, jest.Mock> = {};
+    existing.select = jest.fn(() => existing);
+    existing.eq = jest.fn(() => existing);
+    existing.maybeSingle = jest.fn().mockResolvedValue({
+      data: { id: 'delivery-1', status: 'sent' },
+      error: null,
+    });
+
+    const from = jest
+      .fn()
+      .mockReturnValueOnce({
+        insert: jest.fn().mockReturnValue({
+          select: jest.fn().mockReturnValue({
+            single: jest.fn().mockResolvedValue({
+              data: null,
+              error: { code: '23505', message: 'duplicate key' },
+            }),
+          }),
+        }),
+      })
+      .mockReturnValueOnce(existing);
+
+    const service = new DigestEditionService({
+      from,
+    } as unknown as SupabaseClient);
+    const delivery = await service.claimDelivery(
+      { ...EDITION, id: 'edition-2', version: 2 },
+      { userId: 'user-1', email: 'jane@example.com' }
+    );
+
+    expect(delivery).toBeNull();
+    expect(existing.eq).toHaveBeenCalledWith('edition_date', '2026-10-19');
+  });
+
+  it('only retries deliveries that recorded a failure', async () => {
+    const existing = (status: string) => {
+      const query: Record<string, jest.Mock> = {};
+      query.select = jest.fn(() => query);
+      query.eq = jest.fn(() => query);
+      query.maybeSingle = jest.fn().mockResolvedValue({
+        data: { id: 'delivery-1', status },
+        error: null,
+      });
+      return query;
+    };
+    const conflict = () => ({
+      insert: jest.fn().mockReturnValue({
+        select: jest.fn().mockReturnValue({
+          single: jest.fn().mockResolvedValue({
+            data: null,
+            error: { code: '23505', message: 'duplicate key' },
+          }),
+        }),
+      }),
+    });
+    const retry: Record<string, jest.Mock> = {};
+    retry.update = jest.fn(() => retry);
+    retry.eq = jest.fn(() => retry);
+    retry.select = jest.fn(() => retry);
+    retry.maybeSingle = jest.fn().mockResolvedValue({
+      data: { id: 'delivery-1', status: 'pending' },
+      error: null,
+    });
+
+    const from = jest
+      .fn()
+      .mockReturnValueOnce(conflict())
+      .mockReturnValueOnce(existing('pending'))
+      .mockReturnValueOnce(conflict())
+      .mockReturnValueOnce(existing('failed'))
+      .mockReturnValueOnce(retry);
+
+    const service = new DigestEditionService({
+      from,
+    } as unknown as SupabaseClient);
+    const recipient = { userId: 'user-1', email: 'jane@example.com' };
+
+    expect(await service.claimDelivery(EDITION, recipient)).toBeNull();
+    expect(await service.claimDelivery(EDITION, recipient)).toEqual({
+      id: 'delivery-1',
+      status: 'pending',
+    });
+    expect(retry.eq).toHaveBeenCalledWith('status', 'failed');
+  });
+});
@@ -0,0 +1,99 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DigestPreferencesService,
+  createPreferencesToken,
+  getOneClickUnsubscribeUrl,
+  getPreferencesUrl,
+  verifyPreferencesToken,
+} from '@/lib/services/digest-preferences-service';
+
+const USER_ID = '2b7c1f0e-4a4e-4b8f-9a0d-0f6c1f2e3d4c';
+
+function mockSupabase() {
+  const updates: Array<{ table: string; values: Record<string, unknown> }> = [];
+  const filters: Array<[string, unknown]> = [];
+
+  const from = jest.fn((table: string) => {
+    const query: Record<string, jest.Mock> = {};
+    query.update = jest.fn((values) => {
+      updates.push({ table, values });
+      return query;
+    });
+    query.eq = jest.fn((column, value) => {
+      filters.push([column, value]);
+      return query;
+    });
+    query.then = jest.fn((resolve) => resolve({ error: null }));
+    return query;
+  });
+
+  return { client: { from } as unknown as SupabaseClient, updates, filters };
+}
+
+describe('DigestPreferencesService', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = {
+      ...originalEnv,
+      DIGEST_PREFERENCES_SECRET: 'test-secret',
+      NEXT_PUBLIC_APP_URL: 'https://app.example.com',
+    };
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('should verify its own tokens and reject tampered ones', () => {
+    const token = createPreferencesToken(USER_ID);
+
+    expect(verifyPreferencesToken(token)).toBe(USER_ID);
+    expect(
+      verifyPreferencesToken(`other-user${token.slice(USER_ID.length)}`)
+    ).toBeNull();
+    expect(verifyPreferencesToken(`${token}x`)).toBeNull();
+    expect(verifyPreferencesToken(null)).toBeNull();
+  });
+
+  it('should reject every token when no secret is configured', () => {
+    const token = createPreferencesToken(USER_ID);
+    delete process.env.DIGEST_PREFERENCES_SECRET;
+
+    expect(verifyPreferencesToken(token)).toBeNull();
+  });
+
+  it('should build preference and one-click unsubscribe links', () => {
+    const preferences = new URL(getPreferencesUrl(USER_ID, 'lounge-1'));
+    expect(preferences.pathname).toBe('/email-preferences');
+    expect(preferences.searchParams.get('lounge')).toBe('lounge-1');
+    expect(verifyPreferencesToken(preferences.searchParams.get('token'))).toBe(
+      USER_ID
+    );
+
+    const unsubscribe = new URL(
+      getOneClickUnsubscribeUrl(USER_ID, 'lounge-1', 'weekly')
+    );
+    expect(unsubscribe.pathname).toBe('/api/digest/unsubscribe');
+    expect(unsubscribe.searchParams.get('type')).toBe('weekly');
+  });
+
+  it('should only turn off the digest the email was for', async () => {
+    const { client, updates, filters } = mockSupabase();
+
+    await new DigestPreferencesService(client).unsubscribe(
+      USER_ID,
+      'lounge-1',
+      'weekly'
+    );
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].table).toBe('lounge_digest_subscriptions');
+    expect(updates[0].values).toMatchObject({ weekly_subscribed: false });
+    expect(updates[0].values).not.toHaveProperty('subscribed');
+    expect(filters).toEqual([
+      ['user_id', USER_ID],
+      ['lounge_id', 'lounge-1'],
+    ]);
+  });
+});
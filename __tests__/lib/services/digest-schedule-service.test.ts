@@ -0,0 +1,197 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  DigestScheduleService,
+  getNextDigestSendAt,
+} from '@/lib/services/digest-schedule-service';
+
+const DAILY = {
+  frequency: 'daily' as const,
+  time_of_day: '08:00',
+  day_of_week: null,
+};
+
+describe('DigestScheduleService', () => {
+  it('schedules daily digests at local time in the user timezone', () => {
+    // 09:00 in Tokyo, so today's 08:00 slot has passed
+    const next = getNextDigestSendAt(
+      DAILY,
+      'Asia/Tokyo',
+      new Date('2026-10-19T00:00:00.000Z')
+    );
+
+    expect(next.toISOString()).toBe('2026-10-19T23:00:00.000Z');
+  });
+
+  it('skips weekends for weekday schedules', () => {
+    // Friday afternoon in New York
+    const next = getNextDigestSendAt(
+      { frequency: 'weekdays', time_of_day: '06:00', day_of_week: null },
+      'America/New_York',
+      new Date('2026-10-23T20:00:00.000Z')
+    );
+
+    expect(next.toISOString()).toBe('2026-10-26T10:00:00.000Z');
+  });
+
+  it('sends weekly digests on the chosen day', () => {
+    // Monday 07:00 in Los Angeles, just after the 06:00 slot
+    const next = getNextDigestSendAt(
+      { frequency: 'weekly', time_of_day: '06:00', day_of_week: 1 },
+      'America/Los_Angeles',
+      new Date('2026-10-19T14:00:00.000Z')
+    );
+
+    expect(next.toISOString()).toBe('2026-10-26T13:00:00.000Z');
+  });
+
+  it('keeps the local time across a DST change', () => {
+    const next = getNextDigestSendAt(
+      { ...DAILY, time_of_day: '06:00' },
+      'America/Los_Angeles',
+      new Date('2026-10-31T14:00:00.000Z')
+    );
+
+    // Nov 1 is the first day of PST (UTC-8)
+    expect(next.toISOString()).toBe('2026-11-01T14:00:00.000Z');
+  });
+
+  it('falls back to Pacific time for unknown timezones', () => {
+    const after = new Date('2026-10-19T00:00:00.000Z');
+
+    expect(getNextDigestSendAt(DAILY, 'Mars/Olympus', after)).toEqual(
+      getNextDigestSendAt(DAILY, 'America/Los_Angeles', after)
+    );
+  });
+
+  it('advances schedules after handing due ones over and only initialises new ones', async () => {
+    const now = new Date('2026-10-19T15:00:00.000Z');
+    const rows = [
+      {
+        user_id: 'due-user',
+        ...DAILY,
+        last_sent: '2026-10-18T15:00:00.000Z',
+        next_send_at: '2026-10-19T14:55:00.000Z',
+        users: { email: 'due@example.com', timezone: 'Europe/London' },
+      },
+      {
+        user_id: 'new-user',
+        ...DAILY,
+        last_sent: null,
+        next_send_at: null,
+        users: { email: 'new@example.com', timezone: null },
+      },
+    ];
+
+    const calls: string[] = [];
+    const query: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'eq', 'or']) {
+      query[method] = jest.fn(() => query);
+    }
+    query.overrideTypes = jest.fn().mockResolvedValue({
+      data: rows,
+      error: null,
+    });
+    const rpc = jest.fn(async () => {
+      calls.push('advance');
+      return { data: 2, error: null };
+    });
+
+    const service = new DigestScheduleService({
+      from: jest.fn(() => query),
+      rpc,
+    } as unknown as SupabaseClient);
+    const send = jest.fn(async () => {
+      calls.push('send');
+    });
+    const due = await service.dispatchDueDigests(send, now);
+
+    expect(due).toEqual([
+      {
+        userId: 'due-user',
+        email: 'due@example.com',
+        lastSent: '2026-10-18T15:00:00.000Z',
+        scheduledFor: '2026-10-19T14:55:00.000Z',
+      },
+    ]);
+    expect(send).toHaveBeenCalledWith(due);
+    expect(calls).toEqual(['send', 'advance']);
+
+    const [name, { p_schedules }] = rpc.mock.calls[0] as unknown as [
+      string,
+      { p_schedules: Array<Record<string, unknown>> },
+    ];
+    expect(name).toBe('advance_digest_schedules');
+    expect(p_schedules).toHaveLength(2);
+    expect(p_schedules[0]).toEqual({
+      user_id: 'due-user',
+      previous_send_at: '2026-10-19T14:55:00.000Z',
+      // 08:00 in London (BST) tomorrow
+      next_send_at: '2026-10-20T07:00:00.000Z',
+    });
+  });
+
+  it('leaves schedules due when queueing fails', async () => {
+    const query: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'eq', 'or']) {
+      query[method] = jest.fn(() => query);
+    }
+    query.overrideTypes = jest.fn().mockResolvedValue({
+      data: [
+        {
+          user_id: 'due-user',
+          ...DAILY,
+          last_sent: null,
+          next_send_at: '2026-10-19T14:55:00.000Z',
+          users: { email: 'due@example.com', timezone: null },
+        },
+      ],
+      error: null,
+    });
+    const rpc = jest.fn();
+
+    const service = new DigestScheduleService({
+      from: jest.fn(() => query),
+      rpc,
+    } as unknown as SupabaseClient);
+
+    await expect(
+      service.dispatchDueDigests(async () => {
+        throw new Error('Redis unavailable');
+      })
+    ).rejects.toThrow('Redis unavailable');
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('moves the next send past a pause', async () => {
+    const now = new Date('2026-10-19T15:00:00.000Z');
+    const upserts: Array<Record<string, unknown>> = [];
+    const from = jest.fn((table: string) => {
+      const query: Record<string, jest.Mock> = {};
+      query.select = jest.fn(() => query);
+      query.eq = jest.fn(() => query);
+      query.maybeSingle = jest.fn().mockResolvedValue({
+        data:
+          table === 'users'
+            ? { timezone: 'UTC' }
+            : { ...DAILY, active: true, last_sent: null, next_send_at: null },
+        error: null,
+      });
+      query.upsert = jest.fn((values) => {
+        upserts.push(values);
+        return Promise.resolve({ error: null });
+      });
+      return query;
+    });
+
+    const service = new DigestScheduleService({
+      from,
+    } as unknown as SupabaseClient);
+    await service.pauseSchedule('user-1', 2, now);
+
+    expect(upserts[0]).toMatchObject({
+      user_id: 'user-1',
+      paused_until: '2026-11-02T15:00:00.000Z',
+      next_send_at: '2026-11-03T08:00:00.000Z',
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  EmailSuppressionService,
+  MAX_SOFT_BOUNCES,
+  classifyBounce,
+  getSoftBounceBackoff,
+  isSuppressionActive,
+  signResendPayload,
+  verifyResendSignature,
+} from '@/lib/services/email-suppression-service';
+import type { ResendWebhookEvent } from '@/types/email-delivery';
+
+const SECRET = `whsec_${Buffer.from('test-secret').toString('base64')}`;
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function bounce(type: string): ResendWebhookEvent {
+  return {
+    type: 'email.bounced',
+    created_at: NOW.toISOString(),
+    data: {
+      email_id: 'email-1',
+      to: ['Reader@Example.com'],
+      bounce: { type, message: 'Bounced' },
+    },
+  };
+}
+
+function mockSupabase(
+  existing: Record<string, unknown> | null = null,
+  processedAt: string | null = null
+) {
+  const upserts: Array<{ table: string; values: Record<string, unknown> }> = [];
+  const updates: Array<{ table: string; values: Record<string, unknown> }> = [];
+
+  const from = jest.fn((table: string) => {
+    const query: Record<string, jest.Mock> = {};
+    query.upsert = jest.fn((values) => {
+      upserts.push({ table, values });
+      return Promise.resolve({ error: null });
+    });
+    query.update = jest.fn((values) => {
+      updates.push({ table, values });
+      return { eq: jest.fn().mockResolvedValue({ error: null }) };
+    });
+    query.select = jest.fn(() => query);
+    query.eq = jest.fn(() => query);
+    query.maybeSingle = jest.fn(() =>
+      table === 'email_events'
+        ? query
+        : Promise.resolve({ data: existing, error: null })
+    );
+    query.overrideTypes = jest.fn().mockResolvedValue({
+      data: { processed_at: processedAt },
+      error: null,
+    });
+    return query;
+  });
+
+  return { client: { from } as unknown as SupabaseClient, upserts, updates };
+}
+
+describe('EmailSuppressionService', () => {
+  describe('webhook signatures', () => {
+    const timestamp = String(NOW.getTime() / 1000);
+    const body = '{"type":"email.delivered"}';
+
+    it('should accept a fresh signature over the raw body', () => {
+      const signature = signResendPayload(SECRET, 'msg_1', timestamp, body);
+
+      expect(
+        verifyResendSignature(
+          SECRET,
+          { id: 'msg_1', timestamp, signature: `v1,stale ${signature}` },
+          body,
+          NOW
+        )
+      ).toBe(true);
+    });
+
+    it('should reject tampered, stale or unsigned requests', () => {
+      const signature = signResendPayload(SECRET, 'msg_1', timestamp, body);
+      const headers = { id: 'msg_1', timestamp, signature };
+
+      expect(verifyResendSignature(SECRET, headers, `${body} `, NOW)).toBe(
+        false
+      );
+      expect(
+        verifyResendSignature(
+          SECRET,
+          headers,
+          body,
+          new Date(NOW.getTime() + 10 * 60 * 1000)
+        )
+      ).toBe(false);
+      expect(
+        verifyResendSignature(
+          SECRET,
+          { ...headers, signature: null },
+          body,
+          NOW
+        )
+      ).toBe(false);
+    });
+  });
+
+  it('should only treat permanent bounces as hard', () => {
+    expect(classifyBounce({ type: 'Permanent' })).toBe('hard');
+    expect(classifyBounce({ type: 'Transient' })).toBe('soft');
+    expect(classifyBounce(undefined)).toBe('soft');
+  });
+
+  it('should back off soft bounces up to a month', () => {
+    expect(getSoftBounceBackoff(1)).toBe(DAY_MS);
+    expect(getSoftBounceBackoff(3)).toBe(4 * DAY_MS);
+    expect(getSoftBounceBackoff(10)).toBe(30 * DAY_MS);
+  });
+
+  it('should let soft bounce holds expire', () => {
+    expect(
+      isSuppressionActive({ reason: 'complaint', suppressed_until: null }, NOW)
+    ).toBe(true);
+    expect(
+      isSuppressionActive(
+        { reason: 'soft_bounce', suppressed_until: '2026-10-19T11:00:00Z' },
+        NOW
+      )
+    ).toBe(false);
+  });
+
+  it('should suppress hard bounces for good', async () => {
+    const { client, upserts } = mockSupabase();
+
+    const recorded = await new EmailSuppressionService(client).recordEvent(
+      'msg_1',
+      bounce('Permanent'),
+      NOW
+    );
+
+    expect(recorded).toBe(true);
+    expect(upserts[1]).toEqual({
+      table: 'email_suppressions',
+      values: expect.objectContaining({
+        email: 'reader@example.com',
+        reason: 'hard_bounce',
+        suppressed_until: null,
+      }),
+    });
+  });
+
+  it('should hold soft bounces and escalate repeats', async () => {
+    const first = mockSupabase();
+    await new EmailSuppressionService(first.client).recordEvent(
+      'msg_1',
+      bounce('Transient'),
+      NOW
+    );
+    expect(first.upserts[1].values).toMatchObject({
+      reason: 'soft_bounce',
+      soft_bounce_count: 1,
+      suppressed_until: new Date(NOW.getTime() + DAY_MS).toISOString(),
+    });
+
+    const repeat = mockSupabase({
+      reason: 'soft_bounce',
+      soft_bounce_count: MAX_SOFT_BOUNCES - 1,
+    });
+    await new EmailSuppressionService(repeat.client).recordEvent(
+      'msg_2',
+      bounce('Transient'),
+      NOW
+    );
+    expect(repeat.upserts[1].values).toMatchObject({
+      reason: 'hard_bounce',
+      soft_bounce_count: MAX_SOFT_BOUNCES,
+    });
+  });
+
+  it('should look up suppressions only for the given addresses', async () => {
+    const query: Record<string, jest.Mock> = {};
+    for (const method of ['select', 'in', 'or']) {
+      query[method] = jest.fn(() => query);
+    }
+    query.then = jest.fn((resolve) =>
+      resolve({
+        data: [
+          {
+            email: 'bounced@example.com',
+            reason: 'hard_bounce',
+            suppressed_until: null,
+          },
+          {
+            email: 'resting@example.com',
+            reason: 'soft_bounce',
+            suppressed_until: '2026-10-19T11:00:00Z',
+          },
+        ],
+        error: null,
+      })
+    );
+    const client = { from: jest.fn(() => query) } as unknown as SupabaseClient;
+
+    const suppressed = await new EmailSuppressionService(
+      client
+    ).getSuppressedEmails(
+      ['Bounced@Example.com', 'resting@example.com', 'bounced@example.com'],
+      NOW
+    );
+
+    expect(query.in).toHaveBeenCalledWith('email', [
+      'bounced@example.com',
+      'resting@example.com',
+    ]);
+    expect(Array.from(suppressed)).toEqual(['bounced@example.com']);
+  });
+
+  it('should ignore redelivered webhooks', async () => {
+    const { client, upserts, updates } = mockSupabase(
+      null,
+      '2026-10-19T11:00:00.000Z'
+    );
+
+    const recorded = await new EmailSuppressionService(client).recordEvent(
+      'msg_1',
+      bounce('Permanent'),
+      NOW
+    );
+
+    expect(recorded).toBe(false);
+    expect(upserts).toHaveLength(1);
+    expect(updates).toHaveLength(0);
+  });
+
+  it('should apply a retried event whose suppression never landed', async () => {
+    const { client, upserts, updates } = mockSupabase(null, null);
+
+    const recorded = await new EmailSuppressionService(client).recordEvent(
+      'msg_1',
+      bounce('Permanent'),
+      NOW
+    );
+
+    expect(recorded).toBe(true);
+    expect(upserts[1].values).toMatchObject({ reason: 'hard_bounce' });
+    expect(updates).toEqual([
+      {
+        table: 'email_events',
+        values: { processed_at: NOW.toISOString() },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import {
+  buildAtomFeed,
+  buildJsonFeed,
+  buildRssFeed,
+  canReadLoungeFeed,
+  createFeedToken,
+  loungeFeedScope,
+  savedFeedScope,
+  verifyFeedToken,
+  type FeedDocument,
+} from '@/lib/services/feed-export-service';
+
+const FEED: FeedDocument = {
+  title: 'SaaS · Daily News',
+  description: 'Top posts from the SaaS lounge',
+  homePageUrl: 'https://app.example.com/dashboard',
+  feedUrl: 'https://app.example.com/api/lounges/l1/feed.xml',
+  entries: [
+    {
+      id: 'c1',
+      url: 'https://example.com/post?a=1&b=2',
+      title: 'Pricing <experiments> & results',
+      summary: 'A short AI summary',
+      author: 'Jane Doe',
+      published_at: '2026-10-19T08:00:00.000Z',
+      tags: ['pricing'],
+    },
+  ],
+};
+
+describe('FeedExportService', () => {
+  const originalSecret = process.env.FEED_TOKEN_SECRET;
+
+  beforeAll(() => {
+    process.env.FEED_TOKEN_SECRET = 'test-secret';
+  });
+
+  afterAll(() => {
+    process.env.FEED_TOKEN_SECRET = originalSecret;
+  });
+
+  describe('feed tokens', () => {
+    it('should verify a token for the scope it was issued for', () => {
+      const token = createFeedToken('user-1', loungeFeedScope('l1'));
+
+      expect(verifyFeedToken(token, loungeFeedScope('l1'))).toBe('user-1');
+    });
+
+    it('should reject tokens for other scopes or with a forged user', () => {
+      const token = createFeedToken('user-1', savedFeedScope());
+
+      expect(verifyFeedToken(token, loungeFeedScope('l1'))).toBeNull();
+      expect(verifyFeedToken(token, savedFeedScope('c1'))).toBeNull();
+      expect(
+        verifyFeedToken(token.replace('user-1', 'user-2'), savedFeedScope())
+      ).toBeNull();
+      expect(verifyFeedToken(null, savedFeedScope())).toBeNull();
+      expect(verifyFeedToken('garbage', savedFeedScope())).toBeNull();
+    });
+  });
+
+  describe('canReadLoungeFeed', () => {
+    it('should only open custom lounges to their owner', () => {
+      const custom = { user_id: 'user-1', is_system_lounge: false };
+
+      expect(canReadLoungeFeed(custom, 'user-1')).toBe(true);
+      expect(canReadLoungeFeed(custom, 'user-2')).toBe(false);
+      expect(
+        canReadLoungeFeed({ user_id: null, is_system_lounge: true }, 'user-2')
+      ).toBe(true);
+    });
+  });
+
+  describe('buildRssFeed', () => {
+    it('should escape titles and links', () => {
+      const xml = buildRssFeed(FEED);
+
+      expect(xml).toContain(
+        '<title>Pricing &lt;experiments&gt; &amp; results</title>'
+      );
+      expect(xml).toContain(
+        '<link>https://example.com/post?a=1&amp;b=2</link>'
+      );
+      expect(xml).toContain('<dc:creator>Jane Doe</dc:creator>');
+      expect(xml).toContain('<category>pricing</category>');
+    });
+  });
+
+  describe('buildAtomFeed', () => {
+    it('should use the newest entry as the feed update time', () => {
+      expect(buildAtomFeed(FEED)).toContain(
+        '<updated>2026-10-19T08:00:00.000Z</updated>'
+      );
+    });
+  });
+
+  describe('buildJsonFeed', () => {
+    it('should emit JSON Feed 1.1 items', () => {
+      const feed = buildJsonFeed(FEED);
+
+      expect(feed.version).toBe('https://jsonfeed.org/version/1.1');
+      expect(feed.items[0]).toMatchObject({
+        id: 'c1',
+        title: 'Pricing <experiments> & results',
+        summary: 'A short AI summary',
+        date_published: '2026-10-19T08:00:00.000Z',
+        authors: [{ name: 'Jane Doe' }],
+        tags: ['pricing'],
+      });
+    });
+  });
+});
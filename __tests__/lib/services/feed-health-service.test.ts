@@ -0,0 +1,136 @@
+import {
+  FeedHealthService,
+  calculateItemCadenceHours,
+  updateAverageLatency,
+} from '@/lib/services/feed-health-service';
+import type { CreatorUrl } from '@/types/creator';
+
+const createSupabaseMock = () => {
+  const eq = jest.fn().mockResolvedValue({ error: null });
+  const update = jest.fn((_data: Record<string, unknown>) => ({ eq }));
+  const from = jest.fn(() => ({ update }));
+  return { client: { from } as any, update, eq };
+};
+
+const createUrl = (overrides: Partial<CreatorUrl> = {}): CreatorUrl => ({
+  id: 'url-1',
+  platform: 'rss',
+  url: 'https://example.com/feed.xml',
+  validation_status: 'valid',
+  ...overrides,
+});
+
+describe('FeedHealthService', () => {
+  describe('calculateItemCadenceHours', () => {
+    it('should return the median gap between items', () => {
+      expect(
+        calculateItemCadenceHours([
+          '2026-10-19T00:00:00Z',
+          '2026-10-18T00:00:00Z',
+          '2026-10-17T12:00:00Z',
+          undefined,
+          '2026-10-15T12:00:00Z',
+        ])
+      ).toBe(24);
+    });
+
+    it('should return null with fewer than two dates', () => {
+      expect(calculateItemCadenceHours(['2026-10-19T00:00:00Z'])).toBeNull();
+    });
+  });
+
+  describe('updateAverageLatency', () => {
+    it('should seed with the first sample and smooth later ones', () => {
+      expect(updateAverageLatency(null, 400)).toBe(400);
+      expect(updateAverageLatency(400, 900)).toBe(500);
+    });
+  });
+
+  describe('recordSuccess', () => {
+    it('should reset the failure streak and store validators', async () => {
+      const { client, update, eq } = createSupabaseMock();
+      const service = new FeedHealthService(client);
+
+      await service.recordSuccess(
+        createUrl({
+          consecutive_failures: 3,
+          failing_since: '2026-10-10T00:00:00Z',
+          validation_status: 'invalid',
+        }),
+        {
+          latencyMs: 200,
+          validators: { etag: '"abc"', lastModified: null },
+          publishedAt: ['2026-10-19T00:00:00Z', '2026-10-18T12:00:00Z'],
+        }
+      );
+
+      expect(eq).toHaveBeenCalledWith('id', 'url-1');
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          etag: '"abc"',
+          last_modified: null,
+          consecutive_failures: 0,
+          failing_since: null,
+          average_latency_ms: 200,
+          item_cadence_hours: 12,
+          validation_status: 'valid',
+        })
+      );
+    });
+
+    it('should keep the previous cadence on a 304', async () => {
+      const { client, update } = createSupabaseMock();
+      const service = new FeedHealthService(client);
+
+      await service.recordSuccess(createUrl({ item_cadence_hours: 6 }), {
+        latencyMs: 50,
+      });
+
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({ item_cadence_hours: 6 })
+      );
+    });
+  });
+
+  describe('recordFailure', () => {
+    it('should start a failure streak', async () => {
+      const { client, update } = createSupabaseMock();
+      const service = new FeedHealthService(client, { deadAfterDays: 7 });
+
+      const result = await service.recordFailure(createUrl(), {
+        latencyMs: 100,
+        error: 'HTTP 500',
+      });
+
+      expect(result.markedInvalid).toBe(false);
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          consecutive_failures: 1,
+          last_error: 'HTTP 500',
+          failing_since: expect.any(String),
+        })
+      );
+      expect(update.mock.calls[0][0]).not.toHaveProperty('validation_status');
+    });
+
+    it('should mark feeds dead past the threshold as invalid', async () => {
+      const { client, update } = createSupabaseMock();
+      const service = new FeedHealthService(client, { deadAfterDays: 7 });
+      const failingSince = new Date(Date.now() - 8 * 86400000).toISOString();
+
+      const result = await service.recordFailure(
+        createUrl({ failing_since: failingSince, consecutive_failures: 40 }),
+        { latencyMs: 100, error: 'HTTP 404' }
+      );
+
+      expect(result.markedInvalid).toBe(true);
+      expect(update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          failing_since: failingSince,
+          consecutive_failures: 41,
+          validation_status: 'invalid',
+        })
+      );
+    });
+  });
+});
@@ -0,0 +1,333 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  LLMGateway,
+  StubProvider,
+  resolveTaskRoutes,
+  type LLMProvider,
+} from '@/lib/llm';
+import { LLMBatchService } from '@/lib/services/llm-batch-service';
+import { RelevancyService } from '@/lib/services/relevancy-service';
+import type { Database } from '@/types/database.types';
+import type { LLMBatchJob } from '@/types/llm-batch';
+
+jest.mock('@/lib/queue/queue-service', () => ({
+  queueWebhookDeliveries: jest.fn(),
+}));
+
+// The batch service always passes its own client to AISummaryService
+jest.mock('@supabase/ssr', () => ({ createServerClient: jest.fn() }));
+jest.mock('next/headers', () => ({ cookies: jest.fn() }));
+
+const LONG_POST = Array.from({ length: 120 }, (_, i) => `word${i}`).join(' ');
+
+// Answers summaries with plain text, key moments with JSON, and relevancy
+// with a score unless the content asks for a bad answer
+function stubGateway() {
+  const stub = new StubProvider((request) => {
+    if (request.task === 'summary' && request.json) {
+      return JSON.stringify({
+        key_moments: [
+          { time: '2:10', title: 'The annual plan' },
+          { time: '[0:00]', title: 'Pricing overview' },
+          { time: 'soon', title: 'Not a timestamp' },
+        ],
+      });
+    }
+    if (request.task === 'summary') {
+      return 'Founders share how they cut churn by pricing annually.';
+    }
+    const prompt = request.messages[1].content;
+    return prompt.includes('garbled')
+      ? 'not json'
+      : JSON.stringify({ score: 80, reason: 'On theme' });
+  });
+  return new LLMGateway(
+    [{ name: 'stub', create: () => stub }],
+    resolveTaskRoutes({ LLM_PROVIDER: 'stub' })
+  );
+}
+
+function mockSupabase({
+  pending = [] as Array<Record<string, unknown>>,
+  // Rows a pending -> processing claim moves (default: all pending)
+  claimed = undefined as Array<Record<string, unknown>> | undefined,
+  relevancyItems = [] as Array<Record<string, unknown>>,
+} = {}) {
+  const inserts: Array<{ table: string; values: Record<string, unknown> }> = [];
+  const updates: Array<{ table: string; values: Record<string, unknown> }> = [];
+
+  const from = jest.fn((table: string) => {
+    const query: Record<string, jest.Mock> = {};
+    let single: unknown = { data: null, error: null };
+    let updating = false;
+    for (const method of [
+      'select',
+      'eq',
+      'neq',
+      'order',
+      'limit',
+      'in',
+      'not',
+    ]) {
+      query[method] = jest.fn(() => query);
+    }
+    query.insert = jest.fn((values) => {
+      inserts.push({ table, values });
+      single = {
+        data: { id: 'job-1', status: 'in_progress', ...values },
+        error: null,
+      };
+      return query;
+    });
+    query.update = jest.fn((values) => {
+      updates.push({ table, values });
+      updating = true;
+      return query;
+    });
+    query.single = jest.fn(() => Promise.resolve(single));
+    query.maybeSingle = jest
+      .fn()
+      .mockResolvedValue({ data: null, error: null });
+    query.then = jest.fn((resolve) =>
+      resolve({
+        data:
+          table !== 'content' ? [] : updating && claimed ? claimed : pending,
+        error: null,
+      })
+    );
+    return query;
+  });
+  const rpc = jest
+    .fn()
+    .mockResolvedValue({ data: relevancyItems, error: null });
+
+  return {
+    client: { from, rpc } as unknown as SupabaseClient<Database>,
+    inserts,
+    updates,
+  };
+}
+
+function relevancyItem(id: string, text: string) {
+  return {
+    content_id: id,
+    lounge_id: 'lounge-1',
+    lounge_name: 'SaaS',
+    theme_description: 'SaaS growth',
+    content_title: text,
+    content_description: text,
+    content_url: `https://example.com/${id}`,
+    creator_name: 'Founder',
+  };
+}
+
+describe('LLMBatchService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should batch summaries and complete content too short to summarize', async () => {
+    const { client, inserts, updates } = mockSupabase({
+      pending: [
+        { id: 'long', content_body: LONG_POST, transcript: null },
+        { id: 'short', content_body: 'Too short', transcript: null },
+      ],
+    });
+
+    const job = await new LLMBatchService(
+      client,
+      stubGateway()
+    ).submitSummaries();
+
+    expect(inserts[0].values).toMatchObject({
+      task: 'summary',
+      provider: 'stub',
+      provider_batch_id: 'stub-batch-1',
+      request_count: 2,
+      items: [
+        { custom_id: 'item-0', content_id: 'long', summary_type: 'short' },
+        { custom_id: 'item-1', content_id: 'long', summary_type: 'long' },
+      ],
+    });
+    expect(job?.id).toBe('job-1');
+    expect(updates).toContainEqual({
+      table: 'content',
+      values: expect.objectContaining({
+        summary_status: 'completed',
+        ai_summary_short: null,
+      }),
+    });
+    expect(updates).toContainEqual({
+      table: 'content',
+      values: { summary_status: 'processing' },
+    });
+  });
+
+  it('should submit only the content it claimed', async () => {
+    const { client, inserts } = mockSupabase({
+      pending: [
+        { id: 'mine', content_body: LONG_POST, transcript: null },
+        { id: 'taken', content_body: LONG_POST, transcript: null },
+      ],
+      claimed: [{ id: 'mine', content_body: LONG_POST, transcript: null }],
+    });
+
+    await new LLMBatchService(client, stubGateway()).submitSummaries();
+
+    expect(
+      (inserts[0].values.items as Array<{ content_id: string }>).map(
+        (item) => item.content_id
+      )
+    ).toEqual(['mine', 'mine']);
+  });
+
+  it('should save batched summaries and close the job', async () => {
+    const { client, inserts, updates } = mockSupabase({
+      pending: [{ id: 'long', content_body: LONG_POST, transcript: null }],
+    });
+    const service = new LLMBatchService(client, stubGateway());
+    await service.submitSummaries();
+
+    const ended = await service.pollJob(
+      inserts[0].values as unknown as LLMBatchJob
+    );
+
+    expect(ended).toBe(true);
+    expect(updates).toContainEqual({
+      table: 'content',
+      values: expect.objectContaining({
+        summary_status: 'completed',
+        summary_model: 'stub',
+        ai_summary_short:
+          'Founders share how they cut churn by pricing annually.',
+        summary_word_count_long: 9,
+      }),
+    });
+    expect(updates).toContainEqual({
+      table: 'llm_batch_jobs',
+      values: expect.objectContaining({
+        status: 'completed',
+        succeeded_count: 2,
+        failed_count: 0,
+      }),
+    });
+  });
+
+  it('should pick key moments from a timed transcript', async () => {
+    const { client, inserts, updates } = mockSupabase({
+      pending: [
+        {
+          id: 'video',
+          content_body: 'Short description',
+          transcript: LONG_POST,
+          transcript_segments: [
+            { start: 0, text: 'Today we look at pricing.' },
+            { start: 130, text: 'Here is the annual plan.' },
+          ],
+        },
+      ],
+    });
+    const service = new LLMBatchService(client, stubGateway());
+    await service.submitSummaries();
+
+    expect(
+      (inserts[0].values.items as Array<{ summary_type: string }>).map(
+        (item) => item.summary_type
+      )
+    ).toEqual(['short', 'long', 'key_moments']);
+
+    await service.pollJob(inserts[0].values as unknown as LLMBatchJob);
+
+    expect(updates).toContainEqual({
+      table: 'content',
+      values: expect.objectContaining({
+        summary_status: 'completed',
+        key_moments: [
+          { start_time: 0, title: 'Pricing overview' },
+          { start_time: 130, title: 'The annual plan' },
+        ],
+      }),
+    });
+  });
+
+  it('should score relevancy results and fall back to neutral on a bad answer', async () => {
+    const updateScores = jest
+      .spyOn(RelevancyService.prototype, 'updateRelevancyScores')
+      .mockResolvedValue();
+    const { client, inserts } = mockSupabase({
+      relevancyItems: [
+        relevancyItem('c1', 'How we cut churn to 2%'),
+        relevancyItem('c2', 'garbled'),
+      ],
+    });
+    const service = new LLMBatchService(client, stubGateway());
+
+    await service.submitRelevancyChecks();
+    await service.pollJob(inserts[0].values as unknown as LLMBatchJob);
+
+    expect(updateScores).toHaveBeenCalledWith([
+      {
+        content_id: 'c1',
+        lounge_id: 'lounge-1',
+        score: 80,
+        reason: 'On theme',
+      },
+      {
+        content_id: 'c2',
+        lounge_id: 'lounge-1',
+        score: 50,
+        reason: 'Error during relevancy check',
+      },
+    ]);
+  });
+
+  it('should mark summaries as errored when the provider rejects the batch', async () => {
+    const provider: LLMProvider = {
+      name: 'openai',
+      supportsWebSearch: false,
+      complete: jest.fn(),
+      submitBatch: jest.fn(),
+      getBatch: jest.fn().mockResolvedValue({
+        status: 'failed',
+        results: [],
+        error: 'Invalid JSONL',
+      }),
+    };
+    const gateway = new LLMGateway([
+      { name: 'openai', create: () => provider },
+    ]);
+    const { client, updates } = mockSupabase();
+
+    await new LLMBatchService(client, gateway).pollJob({
+      id: 'job-1',
+      task: 'summary',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      provider_batch_id: 'batch_abc',
+      items: [
+        {
+          custom_id: 'item-0',
+          content_id: 'content-1',
+          summary_type: 'short',
+          word_count: 40,
+        },
+      ],
+      request_count: 1,
+    } as LLMBatchJob);
+
+    expect(updates).toContainEqual({
+      table: 'content',
+      values: {
+        summary_status: 'error',
+        summary_error_message: 'Invalid JSONL',
+      },
+    });
+    expect(updates).toContainEqual({
+      table: 'llm_batch_jobs',
+      values: expect.objectContaining({
+        status: 'failed',
+        error: 'Invalid JSONL',
+      }),
+    });
+  });
+});
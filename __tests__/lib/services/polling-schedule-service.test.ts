@@ -0,0 +1,170 @@
+import {
+  MAX_POLL_INTERVAL_MINUTES,
+  MIN_POLL_INTERVAL_MINUTES,
+  PollingScheduleService,
+  calculateFailureBackoffMinutes,
+  calculatePollIntervalMinutes,
+  isPollDue,
+} from '@/lib/services/polling-schedule-service';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+const hoursAgo = (hours: number) =>
+  new Date(NOW.getTime() - hours * HOUR_MS).toISOString();
+
+describe('PollingScheduleService', () => {
+  describe('calculatePollIntervalMinutes', () => {
+    it('should poll daily posters twice a day', () => {
+      const dates = Array.from({ length: 14 }, (_, i) => hoursAgo(i * 24 + 1));
+
+      expect(calculatePollIntervalMinutes(dates, NOW)).toBe(720);
+    });
+
+    it('should clamp prolific creators to the minimum interval', () => {
+      const dates = Array.from({ length: 500 }, (_, i) => hoursAgo(i / 2));
+
+      expect(calculatePollIntervalMinutes(dates, NOW)).toBe(
+        MIN_POLL_INTERVAL_MINUTES
+      );
+    });
+
+    it('should back off quiet creators', () => {
+      expect(calculatePollIntervalMinutes([hoursAgo(20 * 24)], NOW)).toBe(
+        MAX_POLL_INTERVAL_MINUTES / 2
+      );
+    });
+
+    it('should park dormant creators at the maximum interval', () => {
+      expect(calculatePollIntervalMinutes([hoursAgo(60 * 24)], NOW)).toBe(
+        MAX_POLL_INTERVAL_MINUTES
+      );
+      expect(calculatePollIntervalMinutes([], NOW)).toBe(
+        MAX_POLL_INTERVAL_MINUTES
+      );
+    });
+  });
+
+  describe('calculateFailureBackoffMinutes', () => {
+    it('should double the interval after each failure, within bounds', () => {
+      expect(calculateFailureBackoffMinutes(null)).toBe(
+        MIN_POLL_INTERVAL_MINUTES
+      );
+      expect(calculateFailureBackoffMinutes(90)).toBe(180);
+      expect(calculateFailureBackoffMinutes(MAX_POLL_INTERVAL_MINUTES)).toBe(
+        MAX_POLL_INTERVAL_MINUTES
+      );
+    });
+  });
+
+  describe('isPollDue', () => {
+    it('should treat unscheduled URLs as due', () => {
+      expect(isPollDue({ next_poll_at: null }, NOW)).toBe(true);
+    });
+
+    it('should allow a small grace period before the due time', () => {
+      const inThreeMinutes = new Date(NOW.getTime() + 3 * 60 * 1000);
+      const inAnHour = new Date(NOW.getTime() + HOUR_MS);
+
+      expect(
+        isPollDue({ next_poll_at: inThreeMinutes.toISOString() }, NOW)
+      ).toBe(true);
+      expect(isPollDue({ next_poll_at: inAnHour.toISOString() }, NOW)).toBe(
+        false
+      );
+    });
+  });
+
+  describe('filterDueCreators', () => {
+    const createSupabaseMock = (urls: unknown[]) => {
+      const inFn = jest.fn().mockResolvedValue({ data: urls, error: null });
+      const select = jest.fn(() => ({ in: inFn }));
+      return { from: jest.fn(() => ({ select })) } as any;
+    };
+
+    it('should keep creators with at least one due URL', async () => {
+      const future = new Date(NOW.getTime() + 6 * HOUR_MS).toISOString();
+      const service = new PollingScheduleService(
+        createSupabaseMock([
+          { creator_id: 'a', platform: 'rss', next_poll_at: future },
+          { creator_id: 'a', platform: 'twitter', next_poll_at: null },
+          { creator_id: 'b', platform: 'rss', next_poll_at: future },
+          { creator_id: 'c', platform: 'linkedin', next_poll_at: null },
+        ])
+      );
+
+      const due = await service.filterDueCreators(
+        [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+        { skipLinkedIn: true, now: NOW }
+      );
+
+      expect(due).toEqual([{ id: 'a' }]);
+    });
+  });
+
+  describe('scheduleNextPolls', () => {
+    it('should back off failed URLs and reschedule the rest by cadence', async () => {
+      const updates: Array<{ id: unknown; values: Record<string, unknown> }> =
+        [];
+      const creatorQuery = {
+        eq: () => ({
+          single: jest.fn().mockResolvedValue({
+            data: { always_poll_hourly: true },
+            error: null,
+          }),
+        }),
+      };
+      const contentQuery = {
+        eq: () => ({
+          gte: () => ({
+            order: () => ({
+              limit: jest.fn().mockResolvedValue({ data: [], error: null }),
+            }),
+          }),
+        }),
+      };
+      const from = jest.fn((table: string) => ({
+        select: () => (table === 'creators' ? creatorQuery : contentQuery),
+        update: (values: Record<string, unknown>) => ({
+          eq: jest.fn((_column: string, id: unknown) => {
+            updates.push({ id, values });
+            return Promise.resolve({ error: null });
+          }),
+        }),
+      }));
+      const url = (id: string, pollIntervalMinutes: number) => ({
+        id,
+        platform: 'rss' as const,
+        url: `https://example.com/${id}.xml`,
+        validation_status: 'valid' as const,
+        poll_interval_minutes: pollIntervalMinutes,
+      });
+
+      await new PollingScheduleService({ from } as any).scheduleNextPolls(
+        'creator-1',
+        [
+          { creatorUrl: url('ok', 240), failed: false },
+          { creatorUrl: url('broken', 240), failed: true },
+        ],
+        NOW
+      );
+
+      expect(updates).toEqual([
+        {
+          id: 'ok',
+          values: {
+            next_poll_at: new Date(NOW.getTime() + HOUR_MS).toISOString(),
+            poll_interval_minutes: 60,
+          },
+        },
+        {
+          id: 'broken',
+          values: {
+            next_poll_at: new Date(NOW.getTime() + 8 * HOUR_MS).toISOString(),
+            poll_interval_minutes: 480,
+          },
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { RelevancyService } from '@/lib/services/relevancy-service';
+import {
+  RelevancyEvalService,
+  computeMetrics,
+  createMockRelevancyGateway,
+  mockRelevancyScore,
+} from '@/lib/services/relevancy-eval-service';
+import type { LoungeRelevancyPolicy } from '@/types/relevancy-policy';
+import type { RelevancyEvalItem } from '@/types/relevancy-eval';
+
+jest.mock('@/lib/queue/queue-service', () => ({
+  queueWebhookDeliveries: jest.fn(),
+}));
+
+const LOUNGE_ID = '5d7f2c1e-8b1a-4c3e-9f0d-1a2b3c4d5e6f';
+
+const livePolicy: Partial<LoungeRelevancyPolicy> = {
+  keep_criteria: ['SaaS metrics (MRR, ARR, churn)'],
+  borderline_criteria: [],
+  filter_criteria: ['Celebrity gossip and sports results'],
+  examples: [],
+  focus: null,
+  threshold: 60,
+};
+
+function item(
+  id: string,
+  text: string,
+  label: RelevancyEvalItem['label']
+): RelevancyEvalItem {
+  return {
+    content_id: id,
+    lounge_id: LOUNGE_ID,
+    lounge_name: 'SaaS',
+    theme_description: '',
+    content_title: text,
+    content_description: text,
+    content_url: `https://example.com/${id}`,
+    creator_name: 'Founder',
+    label,
+    source: label === 'keep' ? 'correction' : 'manual_delete',
+  };
+}
+
+const dataset = [
+  item('c1', 'How we cut churn to 2% monthly', 'keep'),
+  item('c2', 'Why founders should host podcast interviews', 'keep'),
+  item('c3', 'Celebrity gossip from the weekend', 'filter'),
+];
+
+// Live policy and adjustments, as RelevancyService reads them
+function mockSupabase() {
+  const from = jest.fn(() => {
+    const query: Record<string, jest.Mock> = {};
+    query.select = jest.fn(() => query);
+    query.eq = jest.fn(() => query);
+    query.maybeSingle = jest
+      .fn()
+      .mockResolvedValue({ data: livePolicy, error: null });
+    query.then = jest.fn((resolve) => resolve({ data: [], error: null }));
+    return query;
+  });
+
+  return { from } as unknown as SupabaseClient;
+}
+
+describe('RelevancyEvalService', () => {
+  it('should compute precision and recall of keep decisions', () => {
+    const metrics = computeMetrics(
+      [
+        { label: 'keep', score: 80 },
+        { label: 'keep', score: 40 },
+        { label: 'filter', score: 70 },
+        { label: 'filter', score: 10 },
+      ],
+      60
+    );
+
+    expect(metrics).toMatchObject({
+      true_positives: 1,
+      false_positives: 1,
+      false_negatives: 1,
+      true_negatives: 1,
+      precision: 0.5,
+      recall: 0.5,
+    });
+    expect(computeMetrics([], 60).precision).toBe(0);
+  });
+
+  it('should score prompts by the criteria the content matches', () => {
+    const prompt = (content: string) =>
+      `LOUNGE: SaaS
+KEEP (Score 60+):
+- SaaS metrics (MRR, ARR, churn)
+
+FILTER OUT (Score <60):
+- Celebrity gossip
+
+CONTENT TO EVALUATE:
+Author: Founder
+Content: ${content}
+
+CRITICAL FILTERING RULES:
+Score 0-100 based on relevance to the lounge. The threshold is 60.`;
+
+    expect(mockRelevancyScore(prompt('Our churn fell')).score).toBe(75);
+    expect(mockRelevancyScore(prompt('Celebrity news')).score).toBe(30);
+    expect(mockRelevancyScore(prompt('Weekend plans')).score).toBe(45);
+  });
+
+  it('should report items a suggestion flips', async () => {
+    const supabase = mockSupabase();
+    const evals = new RelevancyEvalService(
+      supabase,
+      new RelevancyService(supabase, createMockRelevancyGateway())
+    );
+
+    const report = await evals.evaluate(
+      LOUNGE_ID,
+      dataset,
+      {
+        adjustments: [
+          {
+            adjustment_type: 'keep',
+            adjustment_text: 'Founders sharing podcast interviews',
+          },
+        ],
+      },
+      { mock: true }
+    );
+
+    expect(report.baseline).toMatchObject({ precision: 1, recall: 0.5 });
+    expect(report.candidate).toMatchObject({ precision: 1, recall: 1 });
+    expect(report.flips).toEqual([
+      expect.objectContaining({ content_id: 'c2', label: 'keep', fixed: true }),
+    ]);
+  });
+
+  it('should flag items a stricter policy breaks', async () => {
+    const supabase = mockSupabase();
+    const evals = new RelevancyEvalService(
+      supabase,
+      new RelevancyService(supabase, createMockRelevancyGateway())
+    );
+
+    const report = await evals.evaluate(LOUNGE_ID, dataset, {
+      rules: {
+        ...(livePolicy as LoungeRelevancyPolicy),
+        threshold: 80,
+      },
+    });
+
+    expect(report.candidate.threshold).toBe(80);
+    expect(report.flips).toEqual([
+      expect.objectContaining({ content_id: 'c1', fixed: false }),
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  EMPTY_RELEVANCY_POLICY,
+  RelevancyPolicyService,
+  buildPolicyContext,
+} from '@/lib/services/relevancy-policy-service';
+import {
+  RelevancyPolicyError,
+  type LoungeRelevancyPolicy,
+} from '@/types/relevancy-policy';
+
+const LOUNGE_ID = '5d7f2c1e-8b1a-4c3e-9f0d-1a2b3c4d5e6f';
+
+const policy: LoungeRelevancyPolicy = {
+  id: 'policy-2',
+  lounge_id: LOUNGE_ID,
+  version: 2,
+  keep_criteria: ['SaaS metrics (MRR, ARR, churn)'],
+  borderline_criteria: ['Generic startup advice'],
+  filter_criteria: ['Celebrity gossip'],
+  examples: [
+    { content: 'Our churn halved after annual plans', verdict: 'keep' },
+  ],
+  focus: null,
+  threshold: 60,
+  change_note: null,
+  rolled_back_from: null,
+  is_active: false,
+  created_by: null,
+  created_at: '2026-10-19T12:00:00.000Z',
+};
+
+function mockSupabase(existing: LoungeRelevancyPolicy | null) {
+  const rpc = jest.fn((_name: string, args: Record<string, unknown>) =>
+    Promise.resolve({ data: { ...policy, version: 3, ...args }, error: null })
+  );
+  const from = jest.fn(() => {
+    const query: Record<string, jest.Mock> = {};
+    query.select = jest.fn(() => query);
+    query.eq = jest.fn(() => query);
+    query.maybeSingle = jest
+      .fn()
+      .mockResolvedValue({ data: existing, error: null });
+    return query;
+  });
+
+  return { client: { from, rpc } as unknown as SupabaseClient, rpc };
+}
+
+describe('RelevancyPolicyService', () => {
+  describe('buildPolicyContext', () => {
+    it('should put borderline criteria in a band below the threshold', () => {
+      const context = buildPolicyContext(policy);
+
+      expect(context).toContain(
+        'KEEP (Score 60+):\n- SaaS metrics (MRR, ARR, churn)'
+      );
+      expect(context).toContain(
+        'BORDERLINE (Score 40-59):\n- Generic startup advice'
+      );
+      expect(context).toContain('FILTER OUT (Score <40):\n- Celebrity gossip');
+      expect(context).toContain(
+        'EXAMPLES:\n- KEEP: "Our churn halved after annual plans"'
+      );
+    });
+
+    it('should filter everything under the threshold without a borderline band', () => {
+      const context = buildPolicyContext(
+        { ...policy, borderline_criteria: [], threshold: 50 },
+        [{ adjustment_type: 'filter', adjustment_text: 'Sports results' }]
+      );
+
+      expect(context).not.toContain('BORDERLINE');
+      expect(context).toContain(
+        'FILTER OUT (Score <50):\n- Celebrity gossip\n- Sports results'
+      );
+    });
+
+    it('should add approved adjustments to lounges without a policy', () => {
+      expect(buildPolicyContext(EMPTY_RELEVANCY_POLICY)).toBe('');
+      expect(
+        buildPolicyContext(EMPTY_RELEVANCY_POLICY, [
+          { adjustment_type: 'keep', adjustment_text: 'Founder AMAs' },
+        ])
+      ).toContain('KEEP (Score 60+):\n- Founder AMAs');
+    });
+  });
+
+  it('should roll back by republishing the old version', async () => {
+    const { client, rpc } = mockSupabase(policy);
+
+    await new RelevancyPolicyService(client).rollback(LOUNGE_ID, 2, 'admin-1');
+
+    expect(rpc).toHaveBeenCalledWith(
+      'publish_lounge_relevancy_policy',
+      expect.objectContaining({
+        p_lounge_id: LOUNGE_ID,
+        p_keep_criteria: policy.keep_criteria,
+        p_threshold: 60,
+        p_change_note: 'Rolled back to version 2',
+        p_created_by: 'admin-1',
+        p_rolled_back_from: 2,
+      })
+    );
+  });
+
+  it('should refuse to roll back to a version that does not exist', async () => {
+    const { client, rpc } = mockSupabase(null);
+
+    await expect(
+      new RelevancyPolicyService(client).rollback(LOUNGE_ID, 9, 'admin-1')
+    ).rejects.toMatchObject({
+      constructor: RelevancyPolicyError,
+      code: 'NOT_FOUND',
+    });
+    expect(rpc).not.toHaveBeenCalled();
+  });
+});
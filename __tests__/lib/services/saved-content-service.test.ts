@@ -0,0 +1,133 @@
+import {
+  SavedContentService,
+  countTags,
+  normalizeTags,
+} from '@/lib/services/saved-content-service';
+import { SavedContentError } from '@/types/saved';
+
+describe('SavedContentService', () => {
+  describe('normalizeTags', () => {
+    it('should lowercase, hyphenate and de-duplicate tags', () => {
+      expect(
+        normalizeTags([' AI ', 'ai', 'Series B', '', 42, 'go-to-market'])
+      ).toEqual(['ai', 'series-b', 'go-to-market']);
+    });
+
+    it('should return an empty list for non-array values', () => {
+      expect(normalizeTags(null)).toEqual([]);
+      expect(normalizeTags('ai')).toEqual([]);
+    });
+  });
+
+  describe('countTags', () => {
+    it('should count tags across items, most used first', () => {
+      expect(
+        countTags([
+          { tags: ['pricing', 'ai'] },
+          { tags: ['ai'] },
+          { tags: null },
+          { tags: ['funding'] },
+        ])
+      ).toEqual([
+        { tag: 'ai', count: 2 },
+        { tag: 'funding', count: 1 },
+        { tag: 'pricing', count: 1 },
+      ]);
+    });
+  });
+
+  describe('bulkAction', () => {
+    const createSupabaseMock = (rows: Array<{ id: string; tags: unknown }>) => {
+      const updates: Array<{ data: Record<string, unknown>; ids: unknown }> =
+        [];
+      const selectQuery: Record<string, jest.Mock> = {
+        eq: jest.fn(() => selectQuery),
+        in: jest.fn().mockResolvedValue({ data: rows, error: null }),
+      };
+      const update = jest.fn((data: Record<string, unknown>) => {
+        const updateQuery: Record<string, jest.Mock> = {
+          eq: jest.fn(() => updateQuery),
+          in: jest.fn((_column: string, ids: string[]) => {
+            updates.push({ data, ids });
+            return updateQuery;
+          }),
+          select: jest.fn(() => {
+            const ids = updates[updates.length - 1].ids as string[];
+            return Promise.resolve({
+              data: ids.map((id) => ({ id })),
+              error: null,
+            });
+          }),
+        };
+        return updateQuery;
+      });
+
+      return {
+        supabase: {
+          from: jest.fn(() => ({ select: () => selectQuery, update })),
+        } as any,
+        updates,
+      };
+    };
+
+    it('should merge added tags into each item', async () => {
+      const { supabase, updates } = createSupabaseMock([
+        { id: 'a', tags: ['ai'] },
+        { id: 'b', tags: [] },
+      ]);
+
+      const updated = await new SavedContentService(
+        supabase,
+        'user-1'
+      ).bulkAction({
+        action: 'add_tags',
+        ids: ['a', 'b'],
+        tags: ['AI', 'Pricing'],
+      });
+
+      expect(updated).toBe(2);
+      expect(updates.map(({ data, ids }) => [ids, data.tags])).toEqual([
+        [['a'], ['ai', 'pricing']],
+        [['b'], ['ai', 'pricing']],
+      ]);
+    });
+
+    it('should mark many items read in one update', async () => {
+      const { supabase, updates } = createSupabaseMock([]);
+
+      const updated = await new SavedContentService(
+        supabase,
+        'user-1'
+      ).bulkAction({ action: 'mark_read', ids: ['a', 'b', 'c'] });
+
+      expect(updated).toBe(3);
+      expect(updates).toHaveLength(1);
+      expect(updates[0].data).toMatchObject({ read_status: true });
+    });
+  });
+
+  describe('updateItem', () => {
+    it('should throw NOT_FOUND when the item belongs to someone else', async () => {
+      const query: Record<string, jest.Mock> = {
+        eq: jest.fn(() => query),
+        select: jest.fn(() => query),
+        maybeSingle: jest.fn(() => query),
+        overrideTypes: jest.fn().mockResolvedValue({ data: null, error: null }),
+      };
+      const supabase = {
+        from: jest.fn(() => ({ update: jest.fn(() => query) })),
+      } as any;
+
+      const promise = new SavedContentService(supabase, 'user-1').updateItem(
+        'other',
+        { read_status: true }
+      );
+
+      await expect(promise).rejects.toBeInstanceOf(SavedContentError);
+      await expect(promise).rejects.toMatchObject({
+        code: 'NOT_FOUND',
+        statusCode: 404,
+      });
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  SearchService,
+  getOperatorSuggestions,
+  parseSearchQuery,
+  toWebSearchQuery,
+} from '@/lib/services/search-service';
+
+describe('SearchService', () => {
+  describe('parseSearchQuery', () => {
+    it('should split operators from free text', () => {
+      const parsed = parseSearchQuery(
+        'from:"Jane Doe" platform:x lounge:SaaS after:2026-10-01 before:2026-10-15 pricing'
+      );
+
+      expect(parsed).toEqual({
+        terms: ['pricing'],
+        phrases: [],
+        excluded: [],
+        from: ['Jane Doe'],
+        platforms: ['twitter'],
+        lounges: ['SaaS'],
+        after: '2026-10-01T00:00:00.000Z',
+        before: '2026-10-15T00:00:00.000Z',
+      });
+    });
+
+    it('should parse quoted phrases and exclusions', () => {
+      const parsed = parseSearchQuery('"series b" funding -crypto -"web 3"');
+
+      expect(parsed.terms).toEqual(['funding']);
+      expect(parsed.phrases).toEqual(['series b']);
+      expect(parsed.excluded).toEqual(['crypto', '"web 3"']);
+    });
+
+    it('should ignore invalid operator values and keep unknown prefixes as text', () => {
+      const parsed = parseSearchQuery(
+        'platform:myspace after:someday note:launch'
+      );
+
+      expect(parsed.platforms).toEqual([]);
+      expect(parsed.after).toBeUndefined();
+      expect(parsed.terms).toEqual(['note:launch']);
+    });
+  });
+
+  describe('toWebSearchQuery', () => {
+    it('should build a websearch_to_tsquery string', () => {
+      expect(
+        toWebSearchQuery(parseSearchQuery('ai "series b" -crypto from:jane'))
+      ).toBe('ai "series b" -crypto');
+    });
+
+    it('should keep exclusions without positive terms', () => {
+      expect(toWebSearchQuery(parseSearchQuery('from:jane -crypto'))).toBe(
+        '-crypto'
+      );
+    });
+
+    it('should return an empty string when the query only has operators', () => {
+      expect(toWebSearchQuery(parseSearchQuery('from:jane platform:x'))).toBe(
+        ''
+      );
+    });
+  });
+
+  describe('getOperatorSuggestions', () => {
+    it('should complete operator names', () => {
+      expect(getOperatorSuggestions('funding pl').map((s) => s.query)).toEqual([
+        'funding platform:',
+      ]);
+    });
+
+    it('should complete platform and lounge values', () => {
+      expect(getOperatorSuggestions('platform:y').map((s) => s.query)).toEqual([
+        'platform:youtube ',
+      ]);
+      expect(
+        getOperatorSuggestions('ai lounge:ven', {
+          lounges: ['Venture Capital', 'SaaS'],
+        }).map((s) => s.query)
+      ).toEqual(['ai lounge:"Venture Capital" ']);
+    });
+
+    it('should not suggest anything for plain words', () => {
+      expect(getOperatorSuggestions('funding')).toEqual([]);
+      expect(getOperatorSuggestions('')).toEqual([]);
+    });
+  });
+
+  describe('resolveCreatorIds', () => {
+    it('should intersect from: and lounge: matches', async () => {
+      const tables: Record<string, unknown> = {
+        creators: {
+          select: () => ({
+            or: jest.fn().mockResolvedValue({
+              data: [{ id: 'jane' }, { id: 'janet' }],
+              error: null,
+            }),
+          }),
+        },
+        lounges: {
+          select: () => ({
+            or: jest
+              .fn()
+              .mockResolvedValue({ data: [{ id: 'saas' }], error: null }),
+          }),
+        },
+        creator_lounges: {
+          select: () => ({
+            in: jest.fn().mockResolvedValue({
+              data: [{ creator_id: 'janet' }, { creator_id: 'bob' }],
+              error: null,
+            }),
+          }),
+        },
+      };
+      const supabase = { from: jest.fn((table) => tables[table]) } as any;
+
+      const service = new SearchService(supabase);
+
+      await expect(
+        service.resolveCreatorIds(parseSearchQuery('from:jan lounge:saas'))
+      ).resolves.toEqual(['janet']);
+      await expect(
+        service.resolveCreatorIds(parseSearchQuery('pricing'))
+      ).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+import { TranscriptService } from '@/lib/services/transcript-service';
+
+describe('TranscriptService', () => {
+  describe('selectTranscript', () => {
+    it('should prefer timed formats over plain text', () => {
+      const selected = TranscriptService.selectTranscript([
+        { url: 'https://example.com/t.txt', type: 'text/plain' },
+        { url: 'https://example.com/t.srt', type: 'application/x-subrip' },
+        { url: 'https://example.com/t.vtt', type: 'text/vtt' },
+      ]);
+
+      expect(selected?.url).toBe('https://example.com/t.vtt');
+    });
+
+    it('should return undefined when there are no transcripts', () => {
+      expect(TranscriptService.selectTranscript([])).toBeUndefined();
+    });
+  });
+
+  describe('parseTranscript', () => {
+    it('should parse WebVTT cues with speakers', () => {
+      const vtt = [
+        'WEBVTT',
+        '',
+        '00:00:01.000 --> 00:00:04.500',
+        '<v Alice>Welcome to the show.',
+        '',
+        '00:01:05.250 --> 00:01:08.000',
+        '<v Bob>Thanks for having me.',
+      ].join('\n');
+
+      const result = TranscriptService.parseTranscript(vtt, 'text/vtt');
+
+      expect(result.text).toBe('Welcome to the show. Thanks for having me.');
+      expect(result.segments).toEqual([
+        { start: 1, end: 4.5, text: 'Welcome to the show.', speaker: 'Alice' },
+        {
+          start: 65.25,
+          end: 68,
+          text: 'Thanks for having me.',
+          speaker: 'Bob',
+        },
+      ]);
+    });
+
+    it('should parse SRT cues', () => {
+      const srt = [
+        '1',
+        '00:00:00,000 --> 00:00:02,000',
+        'First line',
+        '',
+        '2',
+        '01:00:00,500 --> 01:00:03,000',
+        'Second line',
+        'continues here',
+      ].join('\r\n');
+
+      const result = TranscriptService.parseTranscript(
+        srt,
+        'application/x-subrip'
+      );
+
+      expect(result.segments).toHaveLength(2);
+      expect(result.segments[1]).toEqual({
+        start: 3600.5,
+        end: 3603,
+        text: 'Second line continues here',
+      });
+    });
+
+    it('should parse the Podcasting 2.0 JSON format', () => {
+      const json = JSON.stringify({
+        version: '1.0.0',
+        segments: [
+          { speaker: 'Host', startTime: 0.5, endTime: 2, body: 'Hello' },
+          { startTime: 2, endTime: 3, body: '  ' },
+          { startTime: 3, endTime: 5, body: 'world' },
+        ],
+      });
+
+      const result = TranscriptService.parseTranscript(
+        json,
+        'application/json'
+      );
+
+      expect(result.text).toBe('Hello world');
+      expect(result.segments[0]).toEqual({
+        start: 0.5,
+        end: 2,
+        text: 'Hello',
+        speaker: 'Host',
+      });
+    });
+
+    it('should strip HTML transcripts to text', () => {
+      const result = TranscriptService.parseTranscript(
+        '<p><cite>Host:</cite> Hello</p>\n<p>there</p>',
+        'text/html'
+      );
+
+      expect(result.text).toBe('Host: Hello there');
+      expect(result.segments).toEqual([]);
+    });
+  });
+
+  describe('parseChapters', () => {
+    it('should parse, sort and drop hidden chapters', () => {
+      const chapters = TranscriptService.parseChapters(
+        JSON.stringify({
+          version: '1.2.0',
+          chapters: [
+            { startTime: 300, title: 'Interview', img: 'https://x/i.jpg' },
+            { startTime: 0, title: 'Intro' },
+            { startTime: 120, title: 'Sponsor', toc: false },
+          ],
+        })
+      );
+
+      expect(chapters).toEqual([
+        {
+          start_time: 0,
+          end_time: undefined,
+          title: 'Intro',
+          url: undefined,
+          image_url: undefined,
+        },
+        {
+          start_time: 300,
+          end_time: undefined,
+          title: 'Interview',
+          url: undefined,
+          image_url: 'https://x/i.jpg',
+        },
+      ]);
+    });
+  });
+
+  it('should cap long transcripts and their segments together', () => {
+    const line = 'x'.repeat(99_999);
+    const segments = Array.from({ length: 6 }, (_, i) => ({
+      start: i * 60,
+      text: line,
+    }));
+
+    const capped = TranscriptService.capTranscript({
+      text: segments.map((segment) => segment.text).join(' '),
+      segments,
+    });
+
+    expect(capped.text).toHaveLength(500000);
+    expect(capped.segments).toHaveLength(5);
+  });
+});
@@ -0,0 +1,175 @@
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  WebhookService,
+  generateWebhookSecret,
+  matchesWebhookFilter,
+  signWebhookPayload,
+} from '@/lib/services/webhook-service';
+import { CreateWebhookSchema } from '@/types/webhook';
+
+jest.mock('dns/promises', () => ({ lookup: jest.fn() }));
+
+const CANDIDATE = {
+  content_id: 'c1',
+  score: 72,
+  lounges: [
+    { id: 'saas', score: 72 },
+    { id: 'ai', score: 55 },
+  ],
+  creator_id: 'creator-1',
+  platform: 'twitter',
+};
+
+const NO_FILTERS = {
+  lounge_id: null,
+  min_relevancy_score: null,
+  platforms: [],
+  creator_ids: [],
+};
+
+describe('WebhookService', () => {
+  it('signs the timestamp and body with the endpoint secret', () => {
+    const body = JSON.stringify({ id: 'd1' });
+    const header = signWebhookPayload('whsec_test', body, 1760000000);
+    const expected = createHmac('sha256', 'whsec_test')
+      .update(`1760000000.${body}`)
+      .digest('hex');
+
+    expect(header).toBe(`t=1760000000,v1=${expected}`);
+    expect(generateWebhookSecret()).toMatch(/^whsec_/);
+  });
+
+  it('scores against the filtered lounge when one is set', () => {
+    expect(matchesWebhookFilter(NO_FILTERS, CANDIDATE)).toBe(true);
+    expect(
+      matchesWebhookFilter(
+        { ...NO_FILTERS, lounge_id: 'saas', min_relevancy_score: 70 },
+        CANDIDATE
+      )
+    ).toBe(true);
+    expect(
+      matchesWebhookFilter(
+        { ...NO_FILTERS, lounge_id: 'ai', min_relevancy_score: 70 },
+        CANDIDATE
+      )
+    ).toBe(false);
+    expect(
+      matchesWebhookFilter({ ...NO_FILTERS, lounge_id: 'crypto' }, CANDIDATE)
+    ).toBe(false);
+  });
+
+  it('applies platform and creator filters', () => {
+    expect(
+      matchesWebhookFilter({ ...NO_FILTERS, platforms: ['youtube'] }, CANDIDATE)
+    ).toBe(false);
+    expect(
+      matchesWebhookFilter(
+        {
+          ...NO_FILTERS,
+          platforms: ['twitter'],
+          creator_ids: ['creator-1'],
+        },
+        CANDIDATE
+      )
+    ).toBe(true);
+    expect(
+      matchesWebhookFilter({ ...NO_FILTERS, creator_ids: ['other'] }, CANDIDATE)
+    ).toBe(false);
+  });
+
+  it('rejects endpoints on private addresses', async () => {
+    for (const url of [
+      'https://localhost/hook',
+      'https://127.0.0.1/hook',
+      'https://169.254.169.254/latest/meta-data',
+      'https://[::ffff:10.0.0.1]/hook',
+      'https://metadata.google.internal/hook',
+    ]) {
+      expect(CreateWebhookSchema.safeParse({ url }).success).toBe(false);
+    }
+    expect(
+      CreateWebhookSchema.safeParse({ url: 'https://hooks.example.com/in' })
+        .success
+    ).toBe(true);
+
+    // A public-looking hostname that resolves inside the network
+    (lookup as unknown as jest.Mock).mockResolvedValue([
+      { address: '93.184.216.34', family: 4 },
+      { address: '10.0.0.5', family: 4 },
+    ]);
+    const from = jest.fn();
+    const service = new WebhookService({ from } as unknown as SupabaseClient);
+
+    await expect(
+      service.createEndpoint('user-1', { url: 'https://hooks.example.com/in' })
+    ).rejects.toMatchObject({ code: 'INVALID_URL', statusCode: 400 });
+    expect(from).not.toHaveBeenCalled();
+  });
+
+  it('creates one delivery per matching endpoint, skipping duplicates', async () => {
+    const upsert = jest.fn().mockReturnValue({
+      select: jest
+        .fn()
+        .mockResolvedValue({ data: [{ id: 'd1' }], error: null }),
+    });
+    const from = jest.fn((table: string) => {
+      if (table === 'webhook_endpoints') {
+        return {
+          select: jest.fn().mockReturnValue({
+            eq: jest.fn().mockResolvedValue({
+              data: [
+                { id: 'e1', ...NO_FILTERS, lounge_id: 'saas' },
+                { id: 'e2', ...NO_FILTERS, platforms: ['youtube'] },
+              ],
+              error: null,
+            }),
+          }),
+        };
+      }
+      if (table === 'content') {
+        return {
+          select: jest.fn().mockReturnValue({
+            in: jest.fn().mockReturnValue({
+              overrideTypes: jest.fn().mockResolvedValue({
+                data: [
+                  {
+                    id: 'c1',
+                    title: 'Pricing teardown',
+                    url: 'https://example.com/c1',
+                    platform: 'twitter',
+                    creator_id: 'creator-1',
+                    published_at: '2026-10-19T08:00:00.000Z',
+                    relevancy_score: 72,
+                    creators: { display_name: 'Jane Doe' },
+                  },
+                ],
+              }),
+            }),
+          }),
+        };
+      }
+      return { upsert };
+    });
+
+    const service = new WebhookService({ from } as unknown as SupabaseClient);
+    const ids = await service.createDeliveriesForKeptContent([
+      {
+        content_id: 'c1',
+        score: 72,
+        lounges: [{ id: 'saas', score: 72 }],
+      },
+    ]);
+
+    expect(ids).toEqual(['d1']);
+    const [rows, options] = upsert.mock.calls[0];
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      endpoint_id: 'e1',
+      content_id: 'c1',
+      event_type: 'content.kept',
+    });
+    expect(options).toMatchObject({ ignoreDuplicates: true });
+  });
+});
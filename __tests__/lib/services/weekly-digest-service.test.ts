@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LLMGateway, StubProvider, resolveTaskRoutes } from '@/lib/llm';
+import {
+  WeeklyDigestService,
+  findMostDiscussed,
+  rankWeeklyContent,
+  type WeeklyContentItem,
+} from '@/lib/services/weekly-digest-service';
+
+function item(
+  id: string,
+  overrides: Partial<WeeklyContentItem> = {}
+): WeeklyContentItem {
+  return {
+    id,
+    title: `Post ${id}`,
+    description: null,
+    url: `https://example.com/${id}`,
+    platform: 'twitter',
+    thumbnail_url: null,
+    published_at: '2026-10-14T12:00:00.000Z',
+    ai_summary_short: null,
+    relevancy_score: 80,
+    engagement_metrics: null,
+    creator_id: 'creator-1',
+    creator: { display_name: 'Creator One' },
+    ...overrides,
+  };
+}
+
+describe('WeeklyDigestService', () => {
+  it('ranks by relevancy, engagement and saves together', () => {
+    const ranked = rankWeeklyContent(
+      [
+        item('relevant-only', { relevancy_score: 95 }),
+        item('popular', {
+          relevancy_score: 75,
+          engagement_metrics: { likes: 5000, comments: 400 },
+        }),
+        item('saved', { relevancy_score: 80 }),
+      ],
+      { saved: 12, popular: 1 }
+    );
+
+    expect(ranked.map((r) => r.id)).toEqual([
+      'popular',
+      'saved',
+      'relevant-only',
+    ]);
+    expect(ranked[1].saves).toBe(12);
+  });
+
+  it('builds most discussed from groups with several creators', () => {
+    const topics = findMostDiscussed([
+      {
+        id: 'a1',
+        title: 'Acme raises $50M',
+        url: 'https://example.com/a1',
+        ai_summary_short: null,
+        duplicate_group_id: 'group-a',
+        is_primary: false,
+        creator_id: 'c1',
+        creator: { display_name: 'One' },
+      },
+      {
+        id: 'a2',
+        title: 'Acme closes Series B',
+        url: 'https://example.com/a2',
+        ai_summary_short: 'Acme raised a $50M Series B.',
+        duplicate_group_id: 'group-a',
+        is_primary: true,
+        creator_id: 'c2',
+        creator: { display_name: 'Two' },
+      },
+      {
+        id: 'b1',
+        title: 'Same creator twice',
+        url: 'https://example.com/b1',
+        ai_summary_short: null,
+        duplicate_group_id: 'group-b',
+        is_primary: true,
+        creator_id: 'c1',
+        creator: { display_name: 'One' },
+      },
+      {
+        id: 'b2',
+        title: 'Same creator twice',
+        url: 'https://example.com/b2',
+        ai_summary_short: null,
+        duplicate_group_id: 'group-b',
+        is_primary: false,
+        creator_id: 'c1',
+        creator: { display_name: 'One' },
+      },
+    ]);
+
+    expect(topics).toEqual([
+      {
+        groupId: 'group-a',
+        title: 'Acme closes Series B',
+        url: 'https://example.com/a2',
+        summary: 'Acme raised a $50M Series B.',
+        creators: ['One', 'Two'],
+        itemCount: 2,
+      },
+    ]);
+  });
+
+  it('falls back to a single ranked list without an LLM', async () => {
+    const service = new WeeklyDigestService({} as SupabaseClient, null);
+    const items = rankWeeklyContent([item('1'), item('2')], {});
+
+    const result = await service.generateThemes('SaaS', items);
+
+    expect(result.narrative).toBeUndefined();
+    expect(result.themes).toHaveLength(1);
+    expect(result.themes[0].items).toEqual(items);
+  });
+
+  it('groups items into the themes the LLM returns', async () => {
+    const stub = new StubProvider(() =>
+      JSON.stringify({
+        narrative: 'Pricing was the story of the week.',
+        themes: [
+          { title: 'Pricing', summary: 'Usage wins', indices: [2, 0] },
+          { title: 'Duplicate', indices: [0, 9] },
+          { title: 'Agents', indices: [1] },
+        ],
+      })
+    );
+    const llm = new LLMGateway(
+      [{ name: 'stub', create: () => stub }],
+      resolveTaskRoutes({ LLM_PROVIDER: 'stub' })
+    );
+    const service = new WeeklyDigestService({} as SupabaseClient, llm);
+    const items = rankWeeklyContent([item('1'), item('2'), item('3')], {});
+
+    const result = await service.generateThemes('SaaS', items);
+
+    expect(result.narrative).toBe('Pricing was the story of the week.');
+    expect(
+      result.themes.map((theme) => [theme.title, theme.items.map((i) => i.id)])
+    ).toEqual([
+      ['Pricing', [items[0].id, items[2].id]],
+      ['Agents', [items[1].id]],
+    ]);
+  });
+});
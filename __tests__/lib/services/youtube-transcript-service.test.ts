@@ -0,0 +1,174 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  TimedTextTranscriptProvider,
+  YouTubeTranscriptService,
+  type YouTubeTranscriptProvider,
+} from '@/lib/services/youtube-transcript-service';
+import type { CreateContentInput } from '@/types/content';
+import type { YouTubeVideo } from '@/types/youtube';
+
+const VTT = [
+  'WEBVTT',
+  '',
+  '00:00:00.000 --> 00:00:03.000',
+  'Today we look at pricing.',
+  '',
+  '00:02:10.000 --> 00:02:14.000',
+  'Here is the annual plan.',
+].join('\n');
+
+function response(body: string) {
+  return { ok: true, status: 200, text: async () => body };
+}
+
+function provider(
+  name: string,
+  fetchTranscript: YouTubeTranscriptProvider['fetchTranscript']
+): YouTubeTranscriptProvider {
+  return { name, fetchTranscript: jest.fn(fetchTranscript) };
+}
+
+function video(id: string, language?: string): YouTubeVideo {
+  return {
+    id,
+    snippet: {
+      publishedAt: '2026-10-01T00:00:00Z',
+      channelId: 'channel-1',
+      title: `Video ${id}`,
+      description: '',
+      thumbnails: {},
+      defaultAudioLanguage: language,
+    },
+  };
+}
+
+function item(id: string): CreateContentInput {
+  return {
+    creator_id: 'creator-1',
+    platform: 'youtube',
+    platform_content_id: id,
+    url: `https://www.youtube.com/watch?v=${id}`,
+  };
+}
+
+function mockSupabase(transcribedIds: string[] = []) {
+  const query: Record<string, jest.Mock> = {};
+  for (const method of ['select', 'eq', 'not', 'in']) {
+    query[method] = jest.fn(() => query);
+  }
+  query.then = jest.fn((resolve) =>
+    resolve({
+      data: transcribedIds.map((id) => ({ platform_content_id: id })),
+      error: null,
+    })
+  );
+  return { from: jest.fn(() => query) } as unknown as SupabaseClient;
+}
+
+describe('YouTubeTranscriptService', () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    jest.restoreAllMocks();
+  });
+
+  it('should fall through to the next provider when one has no transcript', async () => {
+    const failing = provider('youtube', async () => {
+      throw new Error('HTTP 429');
+    });
+    const empty = provider('empty', async () => null);
+    const external = provider('transcript-api', async () => ({
+      text: 'Hello there',
+      segments: [{ start: 0, text: 'Hello there' }],
+    }));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const transcript = await new YouTubeTranscriptService([
+      failing,
+      empty,
+      external,
+    ]).fetchTranscript({ videoId: 'abc' });
+
+    expect(transcript).toEqual({
+      text: 'Hello there',
+      segments: [{ start: 0, text: 'Hello there' }],
+      source: 'transcript-api',
+    });
+    expect(empty.fetchTranscript).toHaveBeenCalledWith({ videoId: 'abc' });
+  });
+
+  it('should attach transcripts to videos that have none stored', async () => {
+    const captions = provider('youtube', async ({ videoId }) =>
+      videoId === 'v2'
+        ? null
+        : { text: `Captions for ${videoId}`, segments: [] }
+    );
+    const items = [item('v1'), item('v2'), item('v3')];
+
+    await new YouTubeTranscriptService([captions]).attachTranscripts(
+      mockSupabase(['v3']),
+      'creator-1',
+      [video('v1', 'de'), video('v2'), video('v3')],
+      items
+    );
+
+    expect(captions.fetchTranscript).toHaveBeenCalledTimes(2);
+    expect(captions.fetchTranscript).toHaveBeenCalledWith({
+      videoId: 'v1',
+      language: 'de',
+    });
+    expect(items[0]).toMatchObject({
+      transcript: 'Captions for v1',
+      transcript_source: 'youtube',
+    });
+    expect(items[1].transcript).toBeUndefined();
+    expect(items[2].transcript).toBeUndefined();
+  });
+
+  describe('TimedTextTranscriptProvider', () => {
+    it('should fall back to auto-generated captions', async () => {
+      const fetchMock = jest
+        .fn()
+        .mockResolvedValueOnce(response(''))
+        .mockResolvedValueOnce(response(VTT));
+      global.fetch = fetchMock;
+
+      const transcript =
+        await new TimedTextTranscriptProvider().fetchTranscript({
+          videoId: 'abc',
+        });
+
+      expect(fetchMock.mock.calls[0][0]).toBe(
+        'https://www.youtube.com/api/timedtext?v=abc&lang=en&fmt=vtt'
+      );
+      expect(fetchMock.mock.calls[1][0]).toContain('kind=asr');
+      expect(transcript?.segments.map((segment) => segment.start)).toEqual([
+        0, 130,
+      ]);
+    });
+
+    it('should only try auto-generated captions for uncaptioned videos', async () => {
+      const fetchMock = jest.fn().mockResolvedValue(response(VTT));
+      global.fetch = fetchMock;
+
+      const transcript =
+        await new TimedTextTranscriptProvider().fetchTranscript({
+          videoId: 'abc',
+          captions: false,
+        });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][0]).toContain('kind=asr');
+      expect(transcript?.text).toContain('pricing');
+    });
+
+    it('should return null when the video has no captions', async () => {
+      global.fetch = jest.fn().mockResolvedValue(response(''));
+
+      await expect(
+        new TimedTextTranscriptProvider().fetchTranscript({ videoId: 'abc' })
+      ).resolves.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { CostLedgerService } from '@/lib/services/cost-ledger-service';
+import { CostLedgerError, UpdateCostBudgetSchema } from '@/types/cost';
+
+/**
+ * Signed-in admin's user ID, or the response to send instead
+ */
+async function requireAdminUser(): Promise<string | NextResponse> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (userError || !userData || userData.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return user.id;
+}
+
+// The ledger and budgets are only readable and writable with the service role
+function getLedgerService() {
+  return new CostLedgerService(
+    createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    )
+  );
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof CostLedgerError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error('Error in costs endpoint:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// GET /api/admin/costs?days= - Spend trend, budget status and top vendors
+export async function GET(request: NextRequest) {
+  const userId = await requireAdminUser();
+  if (userId instanceof NextResponse) return userId;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1),
+      90
+    );
+
+    return NextResponse.json(await getLedgerService().getReport(days));
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// PUT /api/admin/costs - Set a subsystem's daily and monthly limits
+export async function PUT(request: NextRequest) {
+  const userId = await requireAdminUser();
+  if (userId instanceof NextResponse) return userId;
+
+  try {
+    const input = UpdateCostBudgetSchema.parse(await request.json());
+    const budget = await getLedgerService().updateBudget(input, userId);
+    return NextResponse.json(budget);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
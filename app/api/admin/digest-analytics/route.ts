@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/utils/supabase/server';
+import { DigestAnalyticsService } from '@/lib/services/digest-analytics-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated and is admin
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1),
+      90
+    );
+    const loungeId = searchParams.get('lounge_id') || undefined;
+
+    // Deliveries and events aren't readable across users with the anon key
+    const serviceClient = createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const report = await new DigestAnalyticsService(serviceClient).getReport({
+      days,
+      loungeId,
+    });
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Error fetching digest analytics:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch digest analytics' },
+      { status: 500 }
+    );
+  }
+}
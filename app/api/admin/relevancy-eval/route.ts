@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { RelevancyService } from '@/lib/services/relevancy-service';
+import {
+  RelevancyEvalService,
+  createMockRelevancyGateway,
+} from '@/lib/services/relevancy-eval-service';
+import { getLLMGateway } from '@/lib/llm';
+import { RelevancyPolicyError } from '@/types/relevancy-policy';
+import { RelevancyEvalRequestSchema } from '@/types/relevancy-eval';
+
+// POST /api/admin/relevancy-eval - Replay labeled content through a candidate
+// suggestion or policy and compare it with the live prompt
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated and is admin
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const input = RelevancyEvalRequestSchema.parse(await request.json());
+
+    // RELEVANCY_EVAL_MOCK scores with the keyword mock instead of a model
+    const mock = process.env.RELEVANCY_EVAL_MOCK === 'true';
+    if (!mock && !getLLMGateway().isAvailable('relevancy')) {
+      return NextResponse.json(
+        { error: 'No LLM provider is configured for relevancy checks' },
+        { status: 503 }
+      );
+    }
+
+    // Corrections and deleted content aren't readable with the anon key
+    const serviceClient = createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const evals = new RelevancyEvalService(
+      serviceClient,
+      new RelevancyService(
+        serviceClient,
+        mock ? createMockRelevancyGateway() : undefined
+      )
+    );
+
+    const [dataset, adjustments] = await Promise.all([
+      evals.buildDataset(input.lounge_id, input.limit),
+      input.suggestion_id
+        ? evals.getSuggestionCandidate(input.lounge_id, input.suggestion_id)
+        : undefined,
+    ]);
+
+    const report = await evals.evaluate(
+      input.lounge_id,
+      dataset,
+      { rules: input.policy, adjustments },
+      { mock }
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RelevancyPolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    console.error('Error evaluating relevancy candidate:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { RelevancyPolicyService } from '@/lib/services/relevancy-policy-service';
+import {
+  RelevancyPolicyError,
+  RollbackRelevancyPolicySchema,
+} from '@/types/relevancy-policy';
+
+// POST /api/admin/relevancy-policies/rollback - Make an older version live
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    // Check if user is authenticated and is admin
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { data: userData, error: userError } = await supabase
+      .from('users')
+      .select('role')
+      .eq('id', user.id)
+      .single();
+
+    if (userError || !userData || userData.role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Admin access required' },
+        { status: 403 }
+      );
+    }
+
+    const { lounge_id, version } = RollbackRelevancyPolicySchema.parse(
+      await request.json()
+    );
+
+    // Policies are only readable and writable with the service role
+    const serviceClient = createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const policy = await new RelevancyPolicyService(serviceClient).rollback(
+      lounge_id,
+      version,
+      user.id
+    );
+
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof RelevancyPolicyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    console.error('Error rolling back relevancy policy:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
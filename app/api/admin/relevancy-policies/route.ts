@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { RelevancyPolicyService } from '@/lib/services/relevancy-policy-service';
+import {
+  PublishRelevancyPolicySchema,
+  RelevancyPolicyError,
+} from '@/types/relevancy-policy';
+
+/**
+ * Signed-in admin's user ID, or the response to send instead
+ */
+async function requireAdminUser(): Promise<string | NextResponse> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+  if (authError || !user) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { data: userData, error: userError } = await supabase
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single();
+
+  if (userError || !userData || userData.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Admin access required' },
+      { status: 403 }
+    );
+  }
+
+  return user.id;
+}
+
+// Policies are only readable and writable with the service role
+function getPolicyService() {
+  return new RelevancyPolicyService(
+    createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    )
+  );
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof RelevancyPolicyError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error('Error in relevancy-policies endpoint:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// GET /api/admin/relevancy-policies - Lounges and their live policy versions
+// GET /api/admin/relevancy-policies?lounge_id= - A lounge's policy history
+export async function GET(request: NextRequest) {
+  const userId = await requireAdminUser();
+  if (userId instanceof NextResponse) return userId;
+
+  try {
+    const service = getPolicyService();
+    const loungeId = new URL(request.url).searchParams.get('lounge_id');
+
+    if (!loungeId) {
+      return NextResponse.json({ lounges: await service.listLounges() });
+    }
+
+    const versions = await service.listVersions(loungeId);
+    return NextResponse.json({
+      policy: versions.find((version) => version.is_active) || null,
+      versions,
+    });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// POST /api/admin/relevancy-policies - Publish a new version of a policy
+export async function POST(request: NextRequest) {
+  const userId = await requireAdminUser();
+  if (userId instanceof NextResponse) return userId;
+
+  try {
+    const input = PublishRelevancyPolicySchema.parse(await request.json());
+    const policy = await getPolicyService().publish(input, userId);
+    return NextResponse.json(policy, { status: 201 });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
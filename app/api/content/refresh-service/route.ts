@@ -320,6 +320,7 @@ export async function POST() {
                 [searchUrl],
                 {
                   maxTweets: 20, // Increased since we're filtering by date
+                  creatorId: creator.id,
                 }
               );
 
@@ -398,6 +399,7 @@ export async function POST() {
             try {
               const items = await apifyFetcher.fetchThreadsContent([username], {
                 resultsLimit: 10, // Limit to 10 for manual refresh
+                creatorId: creator.id,
               });
 
               if (!items || items.length === 0) {
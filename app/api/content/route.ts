@@ -2,8 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
 import { z } from 'zod';
-import type { ContentWithCreator, EngagementMetrics } from '@/types/content';
+import type {
+  ContentWithCreator,
+  EngagementMetrics,
+  SharedByCreator,
+} from '@/types/content';
 import type { Database } from '@/types/database.types';
+import { PLATFORM_VALUES, type Platform } from '@/types/creator';
+import {
+  SearchService,
+  parseSearchQuery,
+  toWebSearchQuery,
+} from '@/lib/services/search-service';
+import { ContentThreadService } from '@/lib/services/content-thread-service';
 
 // Query parameters schema
 const querySchema = z.object({
@@ -12,16 +23,14 @@ const querySchema = z.object({
   platforms: z
     .string()
     .transform((val) => val.split(',').filter(Boolean))
-    .pipe(
-      z.array(
-        z.enum(['youtube', 'twitter', 'linkedin', 'threads', 'rss', 'website'])
-      )
-    )
+    .pipe(z.array(z.enum(PLATFORM_VALUES)))
     .optional(),
   creator_id: z.string().uuid().optional(),
   lounge_id: z.string().uuid().optional(),
   search: z.string().optional(),
-  sort_by: z.enum(['published_at', 'created_at']).default('published_at'),
+  sort_by: z
+    .enum(['relevance', 'published_at', 'created_at'])
+    .default('published_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc'),
   content_type: z.enum(['social', 'news']).optional(),
   hours_ago: z.coerce.number().min(1).max(168).optional(), // For news filtering (max 7 days)
@@ -200,42 +209,28 @@ export async function GET(request: NextRequest) {
       creatorIds = [];
     }
 
-    // If there's a search query, also find creators whose names match
-    let searchCreatorIds: string[] = [];
-    if (query.search) {
-      const { data: matchingCreators, error: searchError } = (await supabase
-        .from('creators')
-        .select('id, display_name')
-        .ilike('display_name', `%${query.search}%`)) as {
-        data: { id: string; display_name: string }[] | null;
-        error: any;
-      };
-
-      console.log('Creator search query:', {
+    // Split the search into full-text terms and operators, resolving
+    // from: and lounge: to creator IDs
+    const parsedSearch = query.search ? parseSearchQuery(query.search) : null;
+    const searchText = parsedSearch ? toWebSearchQuery(parsedSearch) : '';
+    const searchService = new SearchService(supabase);
+    const searchCreatorIds = parsedSearch
+      ? await searchService.resolveCreatorIds(parsedSearch)
+      : null;
+
+    if (parsedSearch) {
+      console.log('Search query:', {
         searchTerm: query.search,
-        matchingCreatorsFound: matchingCreators?.length || 0,
-        error: searchError,
-        sampleCreators: matchingCreators
-          ?.slice(0, 3)
-          .map((c) => c.display_name),
+        searchText,
+        operators: {
+          from: parsedSearch.from,
+          platforms: parsedSearch.platforms,
+          lounges: parsedSearch.lounges,
+          before: parsedSearch.before,
+          after: parsedSearch.after,
+        },
+        matchingCreatorCount: searchCreatorIds?.length,
       });
-
-      if (matchingCreators && matchingCreators.length > 0) {
-        // Filter to only include creators that are in the original set (respecting lounge filter)
-        const filteredMatchingCreators = matchingCreators.filter((c) =>
-          creatorIds.includes(c.id)
-        );
-        searchCreatorIds = filteredMatchingCreators.map((c) => c.id);
-
-        console.log('Filtered creators matching search:', {
-          searchTerm: query.search,
-          totalMatchingCreators: matchingCreators.length,
-          filteredMatchingCreatorCount: searchCreatorIds.length,
-          matchingCreatorNames: filteredMatchingCreators.map(
-            (c) => c.display_name
-          ),
-        });
-      }
     }
 
     console.log('Creator IDs for query:', {
@@ -245,8 +240,12 @@ export async function GET(request: NextRequest) {
       showingAllContent: creatorIds.length === 0 && !query.lounge_id,
     });
 
-    // Only return empty if we have a specific lounge with no creators
-    if (query.lounge_id && creatorIds.length === 0) {
+    // Only return empty if we have a specific lounge with no creators,
+    // or a from:/lounge: operator that matched nobody
+    if (
+      (query.lounge_id && creatorIds.length === 0) ||
+      searchCreatorIds?.length === 0
+    ) {
       // Specific lounge has no creators
       return NextResponse.json({
         content: [],
@@ -311,11 +310,9 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Build the content query with lounge associations
-    let contentQuery = supabase
-      .from('content')
-      .select(
-        `
+    // Build the content query with lounge associations. Full-text searches
+    // start from search_content, which adds each match's rank.
+    const contentSelect = `
         *,
         creator:creators(
           id,
@@ -324,10 +321,21 @@ export async function GET(request: NextRequest) {
           metadata,
           content_type
         )
-      `,
-        { count: 'exact' }
-      )
-      .eq('processing_status', 'processed');
+      `;
+    const baseContentQuery = supabase
+      .from('content')
+      .select(contentSelect, { count: 'exact' });
+    let contentQuery = (
+      searchText
+        ? (supabase
+            .rpc(
+              'search_content',
+              { search_query: searchText },
+              { count: 'exact' }
+            )
+            .select(contentSelect) as unknown as typeof baseContentQuery)
+        : baseContentQuery
+    ).eq('processing_status', 'processed');
 
     // Filter by creator_id if we have specific creators
     if (creatorIds.length > 0) {
@@ -366,6 +374,11 @@ export async function GET(request: NextRequest) {
       contentQuery = contentQuery.eq('is_primary', true);
     }
 
+    // Later posts in a thread are shown on their opener's card
+    contentQuery = contentQuery.or(
+      'thread_position.is.null,thread_position.eq.0'
+    );
+
     // Apply content type filter if specified
     if (query.content_type) {
       // First get creators of the specified type
@@ -416,29 +429,35 @@ export async function GET(request: NextRequest) {
 
     // Note: Lounge filtering removed as content_topics table doesn't exist yet
 
-    if (query.search) {
-      // Build a complex OR query that includes:
-      // 1. Content with matching title or description
-      // 2. Content from creators with matching names
-      if (searchCreatorIds.length > 0) {
-        // If we found creators matching the search, include their content
-        // Use proper PostgREST syntax for IN clause
-        const creatorIdList = searchCreatorIds.join(',');
-        contentQuery = contentQuery.or(
-          `title.ilike.%${query.search}%,description.ilike.%${query.search}%,creator_id.in.(${creatorIdList})`
-        );
-      } else {
-        // No matching creators, just search content
-        contentQuery = contentQuery.or(
-          `title.ilike.%${query.search}%,description.ilike.%${query.search}%`
-        );
+    // Apply search operators
+    if (parsedSearch) {
+      if (searchCreatorIds) {
+        contentQuery = contentQuery.in('creator_id', searchCreatorIds);
+      }
+      if (parsedSearch.platforms.length > 0) {
+        contentQuery = contentQuery.in('platform', parsedSearch.platforms);
+      }
+      if (parsedSearch.after) {
+        contentQuery = contentQuery.gte('published_at', parsedSearch.after);
+      }
+      if (parsedSearch.before) {
+        contentQuery = contentQuery.lt('published_at', parsedSearch.before);
       }
     }
 
-    // Apply sorting
-    contentQuery = contentQuery.order(query.sort_by, {
-      ascending: query.sort_order === 'asc',
-    });
+    // Apply sorting (relevance orders searches by rank, newest first on
+    // ties, with id last so pages don't overlap)
+    if (query.sort_by === 'relevance' && searchText) {
+      contentQuery = contentQuery
+        .order('rank', { ascending: false })
+        .order('published_at', { ascending: false })
+        .order('id');
+    } else {
+      contentQuery = contentQuery.order(
+        query.sort_by === 'relevance' ? 'published_at' : query.sort_by,
+        { ascending: query.sort_order === 'asc' }
+      );
+    }
 
     // Apply pagination
     const offset = (query.page - 1) * query.limit;
@@ -762,6 +781,97 @@ export async function GET(request: NextRequest) {
       });
     }
 
+    // Add rank and highlighted snippets to full-text search results
+    if (searchText && transformedContent.length > 0) {
+      const snippets = await searchService.getSnippets(
+        searchText,
+        transformedContent.map((c) => c.id)
+      );
+      transformedContent.forEach((content) => {
+        const match = snippets.get(content.id);
+        if (match) {
+          content.search_rank = match.rank;
+          content.search_snippet = match.snippet;
+        }
+      });
+    }
+
+    // Collapse cross-creator duplicates: list the other creators behind each
+    // primary item so the card can show "also shared by N creators"
+    const primaryGroupIds = [
+      ...new Set(
+        transformedContent
+          .filter((c) => c.is_primary !== false && c.duplicate_group_id)
+          .map((c) => c.duplicate_group_id!)
+      ),
+    ];
+    if (primaryGroupIds.length > 0) {
+      const { data: groupedContent } = await supabase
+        .from('content')
+        .select(
+          'id, duplicate_group_id, creator_id, platform, url, creator:creators(id, display_name, avatar_url)'
+        )
+        .in('duplicate_group_id', primaryGroupIds)
+        .eq('is_primary', false);
+
+      const sharedByGroup = new Map<string, SharedByCreator[]>();
+      groupedContent?.forEach((grouped) => {
+        if (!grouped.duplicate_group_id || !grouped.creator) return;
+        if (!isPrivilegedUser && deletedContentIds.has(grouped.id)) return;
+
+        const groupCreator = grouped.creator as unknown as {
+          id: string;
+          display_name: string;
+          avatar_url: string | null;
+        };
+        const shared = sharedByGroup.get(grouped.duplicate_group_id) || [];
+        shared.push({
+          content_id: grouped.id,
+          creator_id: grouped.creator_id,
+          name: groupCreator.display_name,
+          avatar_url: groupCreator.avatar_url,
+          platform: grouped.platform as Platform,
+          url: grouped.url,
+        });
+        sharedByGroup.set(grouped.duplicate_group_id, shared);
+      });
+
+      transformedContent.forEach((content) => {
+        const shared = content.duplicate_group_id
+          ? sharedByGroup.get(content.duplicate_group_id)
+          : undefined;
+        if (!shared || content.is_primary === false) return;
+
+        // One entry per creator, excluding the creator of the card itself
+        const seen = new Set([content.creator_id]);
+        content.also_shared_by = shared.filter((entry) => {
+          if (seen.has(entry.creator_id)) return false;
+          seen.add(entry.creator_id);
+          return true;
+        });
+      });
+    }
+
+    // Attach the rest of each thread to its opener for the expandable card
+    const threadOpeners = transformedContent.filter(
+      (c) => c.thread_id && c.thread_position === 0
+    );
+    if (threadOpeners.length > 0) {
+      const threads = await new ContentThreadService(supabase).getThreads(
+        threadOpeners
+      );
+      threadOpeners.forEach((content) => {
+        const posts = threads
+          .get(content.id)
+          ?.filter(
+            (post) =>
+              post.id !== content.id &&
+              (isPrivilegedUser || !deletedContentIds.has(post.id))
+          );
+        if (posts && posts.length > 0) content.thread_posts = posts;
+      });
+    }
+
     // Debug: Check Bob Gourley in transformed content
     const transformedBobGourley = transformedContent.find(
       (c) => c.id === '87546a50-7064-4c2b-90a9-e18ec5f4a1dd'
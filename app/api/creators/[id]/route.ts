@@ -12,6 +12,7 @@ const updateCreatorSchema = z.object({
   description: z.string().max(500).optional(),
   avatar_url: z.string().url().optional(),
   is_active: z.boolean().optional(),
+  always_poll_hourly: z.boolean().optional(),
 });
 
 export async function PUT(
@@ -6,6 +6,7 @@ import {
   PlatformDetector,
   PlatformDetectionError,
 } from '@/lib/platform-detector';
+import { PlatformSchema } from '@/types/creator';
 
 const createCreatorSchema = z.object({
   display_name: z.string().min(1, 'Display name is required').max(100),
@@ -17,6 +18,7 @@ const createCreatorSchema = z.object({
   lounge_id: z.string().uuid('Invalid lounge ID'),
   avatar_url: z.string().url().optional(),
   content_type: z.enum(['social', 'news']).default('social'),
+  always_poll_hourly: z.boolean().default(false),
 });
 
 const getCreatorsSchema = z.object({
@@ -32,10 +34,7 @@ const getCreatorsSchema = z.object({
     .pipe(z.number().min(1).max(100))
     .optional()
     .nullable(),
-  platform: z
-    .enum(['youtube', 'twitter', 'linkedin', 'threads', 'rss'])
-    .optional()
-    .nullable(),
+  platform: PlatformSchema.optional().nullable(),
   topic: z.string().optional().nullable(),
   lounge_id: z.string().uuid().optional().nullable(),
   search: z.string().optional().nullable(),
@@ -132,6 +131,7 @@ export async function POST(request: NextRequest) {
       lounge_id,
       avatar_url,
       content_type,
+      always_poll_hourly,
     } = validation.data;
 
     // Validate and detect platforms for all URLs
@@ -262,6 +262,7 @@ export async function POST(request: NextRequest) {
       bio: description,
       avatar_url: avatar_url || null,
       content_type: content_type,
+      always_poll_hourly,
       status: 'active',
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -611,6 +612,10 @@ export async function GET(request: NextRequest) {
       platform: string;
       url: string;
       validation_status: string;
+      last_success_at: string | null;
+      failing_since: string | null;
+      consecutive_failures: number;
+      last_error: string | null;
     }> = [];
     let creatorLounges: Array<{
       creator_id: string;
@@ -626,7 +631,9 @@ export async function GET(request: NextRequest) {
       // Fetch URLs separately with optional platform filter
       let urlQuery = supabase
         .from('creator_urls')
-        .select('id, creator_id, platform, url, validation_status')
+        .select(
+          'id, creator_id, platform, url, validation_status, last_success_at, failing_since, consecutive_failures, last_error'
+        )
         .in('creator_id', allCreatorIds);
 
       if (platform) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
+import { extractJson, getLLMGateway } from '@/lib/llm';
+import { isOverBudget } from '@/lib/services/cost-ledger-service';
 
 // This should be called weekly via a cron job
 export async function GET(request: NextRequest) {
@@ -11,14 +12,21 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // The learning loop can wait a week; scoring new content can't
+    if (await isOverBudget('relevancy')) {
+      return NextResponse.json({
+        message: 'Relevancy budget exceeded, analysis skipped',
+        corrections_analyzed: 0,
+        suggestions_generated: 0,
+      });
+    }
+
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    const openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY!,
-    });
+    const llm = getLLMGateway();
 
     // Get unprocessed corrections from the past week
     const oneWeekAgo = new Date();
@@ -123,8 +131,9 @@ Respond in JSON format:
 }`;
 
       try {
-        const response = await openai.chat.completions.create({
-          model: 'gpt-4o-mini',
+        const response = await llm.complete({
+          task: 'relevancy_analysis',
+          attribution: { loungeId },
           messages: [
             {
               role: 'system',
@@ -137,13 +146,18 @@ Respond in JSON format:
             },
           ],
           temperature: 0.3,
-          max_tokens: 500,
-          response_format: { type: 'json_object' },
+          maxTokens: 500,
+          json: true,
         });
 
-        const analysis = JSON.parse(
-          response.choices[0].message.content || '{}'
-        );
+        const analysis = extractJson(response.text) as {
+          pattern_analysis?: string;
+          adjustments?: Array<{
+            type: string;
+            text: string;
+            reasoning?: string;
+          }>;
+        };
 
         analysisSummary[lounge.name] = {
           corrections_count: loungeCorrections.length,
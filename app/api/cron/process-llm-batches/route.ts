@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import type { Database } from '@/types/database.types';
+import {
+  LLMBatchService,
+  isLLMBatchModeEnabled,
+} from '@/lib/services/llm-batch-service';
+
+export const maxDuration = 300; // seconds
+
+// Submit pending summaries and relevancy checks as provider batch jobs,
+// and apply the results of jobs that have ended. Safe to run every few
+// minutes; with LLM_BATCH_MODE off it only drains jobs already submitted.
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+  console.log('[Cron] Process LLM batches endpoint called');
+
+  // Verify cron secret
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    console.error('[Cron] CRON_SECRET not configured');
+    return NextResponse.json(
+      { error: 'Server configuration error' },
+      { status: 500 }
+    );
+  }
+
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    console.error('[Cron] Invalid authorization');
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  if (
+    !process.env.NEXT_PUBLIC_SUPABASE_URL ||
+    !process.env.SUPABASE_SERVICE_ROLE_KEY
+  ) {
+    console.error('[Cron] Supabase configuration missing');
+    return NextResponse.json(
+      { error: 'Server configuration error' },
+      { status: 500 }
+    );
+  }
+
+  try {
+    const supabase = createClient<Database>(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+      {
+        auth: {
+          persistSession: false,
+          autoRefreshToken: false,
+        },
+      }
+    );
+
+    const result = await new LLMBatchService(supabase).run({
+      submit: isLLMBatchModeEnabled(),
+    });
+
+    const elapsed = Date.now() - startTime;
+    console.log(
+      `[Cron] LLM batches: ${result.submitted.length} submitted, ${result.applied}/${result.polled} open jobs applied in ${elapsed}ms`
+    );
+
+    return NextResponse.json({
+      success: true,
+      submitted: result.submitted.map((job) => ({
+        id: job.id,
+        task: job.task,
+        provider: job.provider,
+        requests: job.request_count,
+      })),
+      polled: result.polled,
+      applied: result.applied,
+      errors: result.errors,
+      elapsed: `${elapsed}ms`,
+    });
+  } catch (error) {
+    console.error('[Cron] Error processing LLM batches:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
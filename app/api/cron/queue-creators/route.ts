@@ -102,7 +102,7 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Queue all creators for processing, skipping LinkedIn
+    // Queue creators that are due per their polling schedule, skipping LinkedIn
     const queueResult = await queueCreatorsForProcessing(creators, {
       skipLinkedIn: true,
     });
@@ -112,10 +112,11 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Queued ${queueResult.queued} creators for non-LinkedIn processing (${queueResult.skipped} skipped)`,
+      message: `Queued ${queueResult.queued} creators for non-LinkedIn processing (${queueResult.skipped} skipped, ${queueResult.notDue} not due)`,
       stats: {
         creatorsQueued: queueResult.queued,
         creatorsSkipped: queueResult.skipped,
+        creatorsNotDue: queueResult.notDue,
         totalCreators: creators.length,
         platforms: 'RSS, YouTube, Twitter, Threads (LinkedIn skipped)',
         queueStatus: queueStats,
@@ -92,7 +92,7 @@ export async function GET(request: NextRequest) {
       `[LinkedIn Cron] Found ${uniqueCreators.length} LinkedIn creators to process`
     );
 
-    // Queue all LinkedIn creators for processing
+    // Queue LinkedIn creators that are due per their polling schedule
     const queueResult = await queueCreatorsForProcessing(uniqueCreators);
 
     // Get current queue statistics
@@ -100,10 +100,11 @@ export async function GET(request: NextRequest) {
 
     return NextResponse.json({
       success: true,
-      message: `Queued ${queueResult.queued} LinkedIn creators for processing (${queueResult.skipped} skipped)`,
+      message: `Queued ${queueResult.queued} LinkedIn creators for processing (${queueResult.skipped} skipped, ${queueResult.notDue} not due)`,
       stats: {
         creatorsQueued: queueResult.queued,
         creatorsSkipped: queueResult.skipped,
+        creatorsNotDue: queueResult.notDue,
         totalLinkedInCreators: uniqueCreators.length,
         queueStatus: queueStats,
       },
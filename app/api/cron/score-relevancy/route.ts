@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getRelevancyService } from '@/lib/services/relevancy-service';
+import { isLLMBatchModeEnabled } from '@/lib/services/llm-batch-service';
 
 // Verify cron authorization
 function verifyCronAuth(request: NextRequest): boolean {
@@ -25,6 +26,18 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Bulk scoring goes through /api/cron/process-llm-batches instead
+    if (isLLMBatchModeEnabled()) {
+      return NextResponse.json({
+        success: true,
+        message: 'Relevancy is scored by batch jobs',
+        stats: {
+          processed: 0,
+          errors: 0,
+        },
+      });
+    }
+
     // Check if OpenAI is configured
     if (!process.env.OPENAI_API_KEY) {
       console.error('[RELEVANCY-CRON] OpenAI API key not configured');
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { queueDigestEditions } from '@/lib/queue/queue-service';
+import { DigestScheduleService } from '@/lib/services/digest-schedule-service';
 import { DigestService } from '@/lib/services/digest-service';
-import { queueEmailDigests } from '@/lib/queue/queue-service';
 import { createClient } from '@supabase/supabase-js';
 
-// This endpoint will be called by Vercel Cron at 6am PT daily
-// Now it just queues jobs and returns immediately (scalable to millions of users)
+// This endpoint is called by an external cron every 15 minutes.
+// It queues digests for users whose local delivery time has come up and
+// returns immediately (scalable to millions of users)
 export async function GET(request: NextRequest) {
   try {
     // Verify this is a cron job request (security)
@@ -13,7 +15,7 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log('Starting daily digest queue process...');
+    console.log('Starting digest schedule run...');
 
     // Initialize Supabase client
     const supabase = createClient(
@@ -21,69 +23,47 @@ export async function GET(request: NextRequest) {
       process.env.SUPABASE_SERVICE_KEY!
     );
 
-    // Get all users who have subscribed to at least one lounge with their IDs
-    const { data: subscriptions, error } = await supabase
-      .from('lounge_digest_subscriptions')
-      .select('users!inner(id, email)')
-      .eq('subscribed', true);
+    // Build each due lounge edition once and send it to the users whose
+    // delivery time has come up. Schedules advance once the builds are queued.
+    const runAt = new Date();
+    let queueResult = { queued: 0, recipients: 0 };
+    const scheduleService = new DigestScheduleService(supabase);
+    const dueDigests = await scheduleService.dispatchDueDigests(async (due) => {
+      console.log(`Queuing digest editions for ${due.length} users...`);
 
-    if (error) {
-      console.error('Error fetching subscriptions:', error);
-      return NextResponse.json(
-        { error: 'Failed to fetch subscriptions' },
-        { status: 500 }
-      );
-    }
-
-    // Deduplicate users (they might be subscribed to multiple lounges)
-    const uniqueUsersMap = new Map<string, { email: string; userId: string }>();
-
-    for (const sub of subscriptions || []) {
-      const user = (sub as any).users;
-      if (user && !uniqueUsersMap.has(user.id)) {
-        uniqueUsersMap.set(user.id, {
-          email: user.email,
-          userId: user.id,
-        });
-      }
-    }
+      const editions = await DigestService.getDueEditions(due);
+      queueResult = await queueDigestEditions(editions, runAt);
+    }, runAt);
 
-    const uniqueUsers = Array.from(uniqueUsersMap.values());
-
-    if (uniqueUsers.length === 0) {
-      console.log('No users with lounge subscriptions found');
+    if (dueDigests.length === 0) {
+      console.log('No digests due');
       return NextResponse.json({
         success: true,
-        message: 'No users with lounge subscriptions',
+        message: 'No digests due',
         count: 0,
       });
     }
 
-    console.log(`Queuing digests for ${uniqueUsers.length} users...`);
-
-    // Queue all digest jobs - this is FAST even for millions of users
-    const queueResult = await queueEmailDigests(uniqueUsers);
-
     console.log(
-      `Daily digest queue process complete. Queued: ${queueResult.queued}, Skipped: ${queueResult.skipped}`
+      `Digest schedule run complete. Editions: ${queueResult.queued}, Recipients: ${queueResult.recipients}`
     );
 
     return NextResponse.json({
       success: true,
-      message: 'Daily digests queued for processing',
+      message: 'Due digest editions queued for processing',
       stats: {
-        total: uniqueUsers.length,
-        queued: queueResult.queued,
-        skipped: queueResult.skipped,
+        total: dueDigests.length,
+        editions: queueResult.queued,
+        recipients: queueResult.recipients,
       },
       // Return immediately - workers will process in background
       processingNote:
-        'Digests are being processed in the background by workers',
+        'Digest editions are built and sent in the background by workers',
     });
   } catch (error) {
-    console.error('Error in daily digest cron job:', error);
+    console.error('Error in digest schedule cron job:', error);
     return NextResponse.json(
-      { error: 'Failed to queue daily digests' },
+      { error: 'Failed to queue digests' },
       { status: 500 }
     );
   }
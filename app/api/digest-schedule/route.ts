@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { DigestScheduleService } from '@/lib/services/digest-schedule-service';
+import { DigestError, UpdateDigestScheduleSchema } from '@/types/digest';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof DigestError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error(`Error ${action} digest schedule:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// GET /api/digest-schedule - When the user's digest is sent
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const schedule = await new DigestScheduleService(supabase).getSchedule(
+      user.id
+    );
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    return errorResponse(error, 'fetching');
+  }
+}
+
+// PUT /api/digest-schedule - Change frequency, local time, weekday or timezone
+export async function PUT(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = UpdateDigestScheduleSchema.parse(await request.json());
+    const schedule = await new DigestScheduleService(supabase).updateSchedule(
+      user.id,
+      input
+    );
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
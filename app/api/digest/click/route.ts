@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { AdCampaignService } from '@/lib/services/ad-campaign-service';
+import {
+  DigestAnalyticsService,
+  parseTrackedLink,
+  verifyRecipientToken,
+} from '@/lib/services/digest-analytics-service';
+
+// Redirect for links in digest emails. Records the click when the recipient
+// consented to analytics; always forwards to the destination.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const link = parseTrackedLink(searchParams);
+
+  if (!link) {
+    return NextResponse.json({ error: 'Invalid link' }, { status: 400 });
+  }
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_KEY!
+  );
+
+  // Advertiser clicks are billed whatever the recipient's consent, but only
+  // from a real delivery; links without a valid recipient token still
+  // redirect
+  const deliveryId = verifyRecipientToken(searchParams.get('r'));
+  if (
+    deliveryId &&
+    link.section === 'advertiser' &&
+    z.string().uuid().safeParse(link.target).success
+  ) {
+    try {
+      await new AdCampaignService(supabase).recordClick(link.target!, {
+        editionId: link.editionId,
+        deliveryId,
+      });
+    } catch (error) {
+      console.error('Error recording advertiser click:', error);
+    }
+  }
+
+  try {
+    await new DigestAnalyticsService(supabase).recordEvent(
+      searchParams.get('r'),
+      { type: 'click', link }
+    );
+  } catch (error) {
+    // Never block the reader on analytics
+    console.error('Error recording digest click:', error);
+  }
+
+  return NextResponse.redirect(link.url, 302);
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  DigestAnalyticsService,
+  OPEN_PIXEL_GIF,
+} from '@/lib/services/digest-analytics-service';
+
+// Open pixel for digest emails. Only rendered when DIGEST_TRACK_OPENS is on,
+// and only recorded for recipients who consented to analytics.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    await new DigestAnalyticsService(supabase).recordEvent(
+      searchParams.get('r'),
+      { type: 'open' }
+    );
+  } catch (error) {
+    console.error('Error recording digest open:', error);
+  }
+
+  return new NextResponse(new Uint8Array(OPEN_PIXEL_GIF), {
+    headers: {
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, max-age=0',
+    },
+  });
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { ZodError } from 'zod';
+import {
+  DigestPreferencesService,
+  verifyPreferencesToken,
+} from '@/lib/services/digest-preferences-service';
+import { DigestError, UpdateDigestPreferencesSchema } from '@/types/digest';
+
+function getPreferencesService() {
+  return new DigestPreferencesService(
+    createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    )
+  );
+}
+
+// Signed links in digest emails stand in for a sign-in
+function getUserId(request: NextRequest): string {
+  const userId = verifyPreferencesToken(
+    request.nextUrl.searchParams.get('token')
+  );
+  if (!userId) {
+    throw new DigestError(
+      'This preferences link is invalid',
+      'INVALID_LINK',
+      401
+    );
+  }
+  return userId;
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof DigestError && error.statusCode) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// GET /api/digest/preferences?token= - A recipient's digest settings
+export async function GET(request: NextRequest) {
+  try {
+    const preferences = await getPreferencesService().getPreferences(
+      getUserId(request)
+    );
+    return NextResponse.json(preferences);
+  } catch (error) {
+    return errorResponse(error, 'Failed to fetch digest preferences');
+  }
+}
+
+// PUT /api/digest/preferences?token= - Change lounge subscriptions,
+// frequency or pause digests
+export async function PUT(request: NextRequest) {
+  try {
+    const userId = getUserId(request);
+    const input = UpdateDigestPreferencesSchema.parse(await request.json());
+    const preferences = await getPreferencesService().updatePreferences(
+      userId,
+      input
+    );
+    return NextResponse.json(preferences);
+  } catch (error) {
+    return errorResponse(error, 'Failed to update digest preferences');
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  DigestPreferencesService,
+  verifyPreferencesToken,
+} from '@/lib/services/digest-preferences-service';
+
+// POST /api/digest/unsubscribe - RFC 8058 one-click unsubscribe, sent by mail
+// clients from the List-Unsubscribe header. Unsubscribes from the lounge's
+// daily or weekly digest, or from all digests without a lounge.
+export async function POST(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const userId = verifyPreferencesToken(searchParams.get('token'));
+  if (!userId) {
+    return NextResponse.json(
+      { error: 'This unsubscribe link is invalid' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    await new DigestPreferencesService(supabase).unsubscribe(
+      userId,
+      searchParams.get('lounge'),
+      searchParams.get('type') === 'weekly' ? 'weekly' : 'daily'
+    );
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error unsubscribing from digest:', error);
+    return NextResponse.json(
+      { error: 'Failed to unsubscribe' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/digest/unsubscribe - Opened in a browser or by a link scanner.
+// Never changes anything; shows the preference center instead.
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const params = new URLSearchParams();
+  for (const key of ['token', 'lounge']) {
+    const value = searchParams.get(key);
+    if (value) params.set(key, value);
+  }
+
+  return NextResponse.redirect(
+    new URL(`/email-preferences?${params}`, request.url)
+  );
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ImageResponse } from 'next/og';
+import { createClient } from '@supabase/supabase-js';
+import {
+  DigestArchiveService,
+  getEditionPreview,
+} from '@/lib/services/digest-archive-service';
+import { DigestError } from '@/types/digest';
+
+// GET /api/digests/[id]/og - Link preview image for a publicly shared edition
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const edition = await new DigestArchiveService(supabase).getPublicEdition(
+      id
+    );
+    const preview = getEditionPreview(edition);
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: '100%',
+            height: '100%',
+            display: 'flex',
+            flexDirection: 'column',
+            justifyContent: 'space-between',
+            padding: '64px',
+            backgroundColor: '#f6f9fc',
+            fontFamily: 'sans-serif',
+          }}
+        >
+          <div style={{ fontSize: 32, color: '#525f7f' }}>{preview.title}</div>
+          <div
+            style={{
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '24px',
+            }}
+          >
+            <div style={{ fontSize: 60, fontWeight: 700, color: '#1a1a1a' }}>
+              {preview.headline}
+            </div>
+            {preview.description && (
+              <div style={{ fontSize: 28, color: '#525f7f' }}>
+                {preview.description}
+              </div>
+            )}
+          </div>
+          <div style={{ fontSize: 28, color: '#8898aa' }}>Pulse</div>
+        </div>
+      ),
+      {
+        width: 1200,
+        height: 630,
+        headers: {
+          'Cache-Control': 'public, max-age=3600, stale-while-revalidate=86400',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof DigestError && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: 'Digest not found' }, { status: 404 });
+    }
+
+    console.error('Error rendering digest preview image:', error);
+    return NextResponse.json(
+      { error: 'Failed to render preview image' },
+      { status: 500 }
+    );
+  }
+}
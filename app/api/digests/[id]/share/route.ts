@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { ZodError } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import {
+  DigestArchiveService,
+  canManageArchive,
+} from '@/lib/services/digest-archive-service';
+import { ShareDigestEditionSchema } from '@/types/digest';
+
+// POST /api/digests/[id]/share - Share an edition publicly or make it
+// private again. Lounge owners and admins only.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { is_public } = ShareDigestEditionSchema.parse(await request.json());
+
+    const serviceClient = createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const { data: edition } = await serviceClient
+      .from('digest_editions')
+      .select('id, lounge_id')
+      .eq('id', id)
+      .maybeSingle();
+    if (!edition) {
+      return NextResponse.json({ error: 'Digest not found' }, { status: 404 });
+    }
+
+    const archive = new DigestArchiveService(serviceClient);
+    const lounge = await archive.resolveLounge(edition.lounge_id);
+    if (
+      !lounge ||
+      !canManageArchive(lounge, await archive.getViewer(user.id))
+    ) {
+      return NextResponse.json(
+        { error: 'Only the lounge owner can share its digests' },
+        { status: 403 }
+      );
+    }
+
+    await archive.setPublic(id, is_public);
+
+    return NextResponse.json({ success: true, is_public });
+  } catch (error) {
+    if (error instanceof ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating digest sharing:', error);
+    return NextResponse.json(
+      { error: 'Failed to update digest sharing' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { requireAdmin } from '@/utils/auth/admin-check';
+import {
+  AdCampaignService,
+  campaignReportToCsv,
+} from '@/lib/services/ad-campaign-service';
+import { AdCampaignError } from '@/types/advertiser';
+
+// GET /api/email-advertisers/[id]/report - Daily impressions and clicks.
+// `?format=csv` downloads the report for billing.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const authError = await requireAdmin(request);
+  if (authError) return authError;
+
+  try {
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(
+      Math.max(parseInt(searchParams.get('days') || '30', 10) || 30, 1),
+      365
+    );
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const report = await new AdCampaignService(supabase).getReport(id, days);
+
+    if (searchParams.get('format') === 'csv') {
+      const slug =
+        report.companyName.toLowerCase().replace(/[^a-z0-9]+/g, '-') ||
+        'campaign';
+      return new NextResponse(campaignReportToCsv(report), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${slug}-${report.days[0].date}-to-${report.days[report.days.length - 1].date}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json(report);
+  } catch (error) {
+    if (error instanceof AdCampaignError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    console.error('Error fetching campaign report:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch campaign report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,97 +1,76 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
+import { z } from 'zod';
+import { requireAdmin } from '@/utils/auth/admin-check';
+import { AdCampaignService } from '@/lib/services/ad-campaign-service';
+import {
+  AdCampaignError,
+  CreateAdCampaignSchema,
+  UpdateAdCampaignSchema,
+} from '@/types/advertiser';
 
-export async function GET(request: NextRequest) {
-  try {
-    const supabase = createClient(
+function getCampaignService() {
+  return new AdCampaignService(
+    createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_KEY!
+    )
+  );
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
     );
+  }
+  if (error instanceof AdCampaignError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
 
-    const { data, error } = await supabase
-      .from('email_advertisers')
-      .select('*')
-      .order('position');
+  console.error('API error:', error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
 
-    if (error) {
-      console.error('Database error:', error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+// GET /api/email-advertisers - List advertiser campaigns
+export async function GET(request: NextRequest) {
+  const authError = await requireAdmin(request);
+  if (authError) return authError;
 
-    return NextResponse.json(data || []);
+  try {
+    return NextResponse.json(await getCampaignService().listCampaigns());
   } catch (error) {
-    console.error('API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
+// POST /api/email-advertisers - Create a campaign
 export async function POST(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_KEY!
-    );
-
-    const { data, error } = await supabase
-      .from('email_advertisers')
-      .upsert(body)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Database error:', error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
+  const authError = await requireAdmin(request);
+  if (authError) return authError;
 
-    return NextResponse.json(data);
+  try {
+    const input = CreateAdCampaignSchema.parse(await request.json());
+    const campaign = await getCampaignService().createCampaign(input);
+    return NextResponse.json(campaign, { status: 201 });
   } catch (error) {
-    console.error('API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
 
+// PUT /api/email-advertisers - Update a campaign by id
 export async function PUT(request: NextRequest) {
-  try {
-    const body = await request.json();
-    const { id, ...updateData } = body;
+  const authError = await requireAdmin(request);
+  if (authError) return authError;
 
-    if (!id) {
-      return NextResponse.json(
-        { error: 'ID is required for update' },
-        { status: 400 }
-      );
-    }
-
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.SUPABASE_SERVICE_KEY!
-    );
-
-    const { data, error } = await supabase
-      .from('email_advertisers')
-      .update(updateData)
-      .eq('id', id)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Database error:', error);
-      return NextResponse.json({ error: error.message }, { status: 500 });
-    }
-
-    return NextResponse.json(data);
+  try {
+    const input = UpdateAdCampaignSchema.parse(await request.json());
+    return NextResponse.json(await getCampaignService().updateCampaign(input));
   } catch (error) {
-    console.error('API error:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return errorResponse(error);
   }
 }
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import {
+  canReadLoungeFeed,
+  createFeedToken,
+  loungeFeedScope,
+  savedFeedScope,
+} from '@/lib/services/feed-export-service';
+
+const FeedUrlQuerySchema = z.object({
+  lounge_id: z.string().uuid().optional(),
+  collection_id: z.string().uuid().optional(),
+});
+
+// GET /api/feeds?lounge_id=... | ?collection_id=... - Signed feed URLs for the current user.
+// Without a lounge, returns feeds for the user's saved items.
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { lounge_id, collection_id } = FeedUrlQuerySchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+
+    let path: string;
+    const params = new URLSearchParams();
+
+    if (lounge_id) {
+      const { data: lounge } = await supabase
+        .from('lounges')
+        .select('user_id, is_system_lounge')
+        .eq('id', lounge_id)
+        .maybeSingle();
+
+      if (!lounge || !canReadLoungeFeed(lounge, user.id)) {
+        return NextResponse.json(
+          { error: 'Lounge not found' },
+          { status: 404 }
+        );
+      }
+
+      path = `/api/lounges/${lounge_id}/feed`;
+      params.set('token', createFeedToken(user.id, loungeFeedScope(lounge_id)));
+    } else {
+      path = '/api/saved/feed';
+      if (collection_id) params.set('collection', collection_id);
+      params.set(
+        'token',
+        createFeedToken(user.id, savedFeedScope(collection_id))
+      );
+    }
+
+    const query = params.toString();
+    return NextResponse.json({
+      rss: `${baseUrl}${path}.xml?${query}`,
+      atom: `${baseUrl}${path}.xml?${query}&format=atom`,
+      json: `${baseUrl}${path}.json?${query}`,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating feed URLs:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
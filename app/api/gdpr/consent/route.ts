@@ -161,9 +161,33 @@ export async function POST(request: NextRequest) {
       'unknown';
     const userAgent = request.headers.get('user-agent') || 'unknown';
 
+    // Keep each consent type's flag so it can be read back on its own
+    // (digest analytics checks analytics_consent before tracking)
+    const { data: currentUser } = await supabase
+      .from('users')
+      .select('consent_details')
+      .eq('id', user.id)
+      .single();
+    const currentDetails =
+      currentUser?.consent_details &&
+      typeof currentUser.consent_details === 'object' &&
+      !Array.isArray(currentUser.consent_details)
+        ? currentUser.consent_details
+        : {};
+    const consentFlags =
+      consent_type === 'all'
+        ? {
+            data_processing_consent: consent_given,
+            marketing_consent: consent_given,
+            analytics_consent: consent_given,
+          }
+        : { [`${consent_type}_consent`]: consent_given };
+
     // Prepare consent details with audit information
     const fullConsentDetails = {
+      ...currentDetails,
       ...consent_details,
+      ...consentFlags,
       ip_address: ip,
       user_agent: userAgent,
       timestamp: new Date().toISOString(),
@@ -183,13 +207,13 @@ export async function POST(request: NextRequest) {
       preferences?: Record<string, boolean>;
     } = {
       updated_at: new Date().toISOString(),
+      consent_details: fullConsentDetails,
     };
 
     // Handle different consent types
     if (consent_type === 'all' || consent_type === 'data_processing') {
       updateData.gdpr_consent = consent_given;
       updateData.gdpr_consent_date = new Date().toISOString();
-      updateData.consent_details = fullConsentDetails;
     }
 
     const { error: updateError } = await supabase
@@ -205,6 +229,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Withdrawing analytics consent erases recorded digest engagement
+    if (
+      !consent_given &&
+      (consent_type === 'all' || consent_type === 'analytics')
+    ) {
+      await supabase.from('digest_events').delete().eq('user_id', user.id);
+    }
+
     // Log the consent change for audit purposes
     await supabase.from('api_usage_tracking').insert({
       user_id: user.id,
@@ -330,6 +362,10 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    if (!analytics_consent) {
+      await supabase.from('digest_events').delete().eq('user_id', user.id);
+    }
+
     // Log the consent setup for audit purposes
     await supabase.from('api_usage_tracking').insert({
       user_id: user.id,
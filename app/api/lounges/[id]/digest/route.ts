@@ -1,5 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/utils/supabase/server';
+import { z } from 'zod';
+import {
+  DEFAULT_DIGEST_TIME,
+  UpdateLoungeDigestSubscriptionSchema,
+} from '@/types/digest';
 
 export async function GET(
   request: NextRequest,
@@ -18,10 +23,10 @@ export async function GET(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Check if user is subscribed to this lounge's digest
+    // Check which of this lounge's digests the user is subscribed to
     const { data, error } = await supabase
       .from('lounge_digest_subscriptions')
-      .select('subscribed')
+      .select('subscribed, weekly_subscribed')
       .eq('user_id', user.id)
       .eq('lounge_id', id)
       .single();
@@ -33,6 +38,7 @@ export async function GET(
 
     return NextResponse.json({
       subscribed: data?.subscribed || false,
+      weekly_subscribed: data?.weekly_subscribed || false,
     });
   } catch (error) {
     console.error('Error fetching digest subscription:', error);
@@ -50,7 +56,9 @@ export async function POST(
   try {
     const { id } = await params;
     const supabase = await createClient();
-    const { subscribed } = await request.json();
+    const changes = UpdateLoungeDigestSubscriptionSchema.parse(
+      await request.json()
+    );
 
     // Get current user
     const {
@@ -61,6 +69,15 @@ export async function POST(
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
+    // Omitted fields keep their current value; a new row starts unsubscribed
+    // from both rather than taking the column's daily default
+    const { data: current } = await supabase
+      .from('lounge_digest_subscriptions')
+      .select('subscribed, weekly_subscribed')
+      .eq('user_id', user.id)
+      .eq('lounge_id', id)
+      .maybeSingle();
+
     // Upsert subscription status
     const { data, error } = await supabase
       .from('lounge_digest_subscriptions')
@@ -68,7 +85,9 @@ export async function POST(
         {
           user_id: user.id,
           lounge_id: id,
-          subscribed,
+          subscribed: changes.subscribed ?? current?.subscribed ?? false,
+          weekly_subscribed:
+            changes.weekly_subscribed ?? current?.weekly_subscribed ?? false,
           updated_at: new Date().toISOString(),
         },
         {
@@ -82,8 +101,34 @@ export async function POST(
       throw error;
     }
 
+    // First subscription: give the user the default schedule so the
+    // scheduler picks them up. Existing schedules are left alone.
+    if (changes.subscribed || changes.weekly_subscribed) {
+      const { error: scheduleError } = await supabase
+        .from('email_digests')
+        .upsert(
+          {
+            user_id: user.id,
+            frequency: 'daily',
+            time_of_day: DEFAULT_DIGEST_TIME,
+            active: true,
+          },
+          { onConflict: 'user_id', ignoreDuplicates: true }
+        );
+
+      if (scheduleError) {
+        console.error('Error creating digest schedule:', scheduleError);
+      }
+    }
+
     return NextResponse.json({ success: true, data });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      );
+    }
     console.error('Error updating digest subscription:', error);
     return NextResponse.json(
       { error: 'Failed to update subscription' },
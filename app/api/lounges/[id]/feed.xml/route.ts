@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  FeedExportService,
+  loungeFeedScope,
+  parseFeedFormat,
+  renderFeed,
+  verifyFeedToken,
+} from '@/lib/services/feed-export-service';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/lounges/[id]/feed.xml?token=... - RSS, or Atom with &format=atom
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const userId = verifyFeedToken(
+      request.nextUrl.searchParams.get('token'),
+      loungeFeedScope(id)
+    );
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid feed token' },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const feed = await new FeedExportService(supabase).buildLoungeFeed(
+      userId,
+      id,
+      {
+        homePageUrl: `${baseUrl}/dashboard`,
+        feedUrl: `${baseUrl}${request.nextUrl.pathname}`,
+      }
+    );
+
+    if (!feed) {
+      return NextResponse.json({ error: 'Lounge not found' }, { status: 404 });
+    }
+
+    const { body, contentType } = renderFeed(
+      feed,
+      parseFeedFormat(request.nextUrl.searchParams.get('format'))
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building lounge feed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
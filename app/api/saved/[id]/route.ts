@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { SavedContentService } from '@/lib/services/saved-content-service';
+import { SavedContentError, UpdateSavedItemSchema } from '@/types/saved';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof SavedContentError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error(`Error ${action} saved item:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// PATCH /api/saved/[id] - Update notes, tags, read state or collection
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = UpdateSavedItemSchema.parse(await request.json());
+    const service = new SavedContentService(supabase, user.id);
+
+    return NextResponse.json({ item: await service.updateItem(id, input) });
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+// DELETE /api/saved/[id] - Remove a saved item
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await new SavedContentService(supabase, user.id).deleteItem(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { SavedContentService } from '@/lib/services/saved-content-service';
+import { BulkSavedActionSchema, SavedContentError } from '@/types/saved';
+
+// POST /api/saved/bulk - Mark read/unread, tag, move or delete many items
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = BulkSavedActionSchema.parse(await request.json());
+    const updated = await new SavedContentService(supabase, user.id).bulkAction(
+      input
+    );
+
+    return NextResponse.json({ success: true, updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request body', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SavedContentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    console.error('Error applying bulk saved action:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
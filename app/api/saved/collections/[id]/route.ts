@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { SavedContentService } from '@/lib/services/saved-content-service';
+import { SavedContentError, UpdateCollectionSchema } from '@/types/saved';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof SavedContentError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error(`Error ${action} collection:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// PATCH /api/saved/collections/[id] - Rename or describe a collection
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = UpdateCollectionSchema.parse(await request.json());
+    const service = new SavedContentService(supabase, user.id);
+
+    return NextResponse.json({
+      collection: await service.updateCollection(id, input),
+    });
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+// DELETE /api/saved/collections/[id] - Delete a collection, keeping its items
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await new SavedContentService(supabase, user.id).deleteCollection(id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { SavedContentService } from '@/lib/services/saved-content-service';
+import { CreateCollectionSchema, SavedContentError } from '@/types/saved';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof SavedContentError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error(`Error ${action} collections:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// GET /api/saved/collections - List the user's collections
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const service = new SavedContentService(supabase, user.id);
+    return NextResponse.json({ collections: await service.listCollections() });
+  } catch (error) {
+    return errorResponse(error, 'fetching');
+  }
+}
+
+// POST /api/saved/collections - Create a collection
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = CreateCollectionSchema.parse(await request.json());
+    const service = new SavedContentService(supabase, user.id);
+
+    return NextResponse.json(
+      { collection: await service.createCollection(input) },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, 'creating');
+  }
+}
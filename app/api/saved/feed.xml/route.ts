@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  FeedExportService,
+  parseFeedFormat,
+  renderFeed,
+  savedFeedScope,
+  verifyFeedToken,
+} from '@/lib/services/feed-export-service';
+
+export const dynamic = 'force-dynamic';
+
+// GET /api/saved/feed.xml?token=...&collection=... - RSS, or Atom with &format=atom
+export async function GET(request: NextRequest) {
+  try {
+    const collectionId = request.nextUrl.searchParams.get('collection');
+    const userId = verifyFeedToken(
+      request.nextUrl.searchParams.get('token'),
+      savedFeedScope(collectionId)
+    );
+
+    if (!userId) {
+      return NextResponse.json(
+        { error: 'Invalid feed token' },
+        { status: 401 }
+      );
+    }
+
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+
+    const baseUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const feed = await new FeedExportService(supabase).buildSavedFeed(
+      userId,
+      collectionId,
+      {
+        homePageUrl: `${baseUrl}/saved`,
+        feedUrl: `${baseUrl}${request.nextUrl.pathname}`,
+      }
+    );
+
+    if (!feed) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    const { body, contentType } = renderFeed(
+      feed,
+      parseFeedFormat(request.nextUrl.searchParams.get('format'))
+    );
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building saved items feed:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
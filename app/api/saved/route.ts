@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { SavedContentService } from '@/lib/services/saved-content-service';
+import { SavedContentError, SavedFiltersSchema } from '@/types/saved';
+
+// GET /api/saved - List saved items, filterable by collection, tag and read state
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const filters = SavedFiltersSchema.parse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    );
+
+    const service = new SavedContentService(supabase, user.id);
+    return NextResponse.json(await service.listSaved(filters));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid query parameters', details: error.errors },
+        { status: 400 }
+      );
+    }
+    if (error instanceof SavedContentError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    console.error('Error fetching saved content:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
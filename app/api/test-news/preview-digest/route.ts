@@ -4,6 +4,10 @@ import { DailyDigestEmail } from '@/emails/daily-digest';
 import { DigestService } from '@/lib/services/digest-service';
 import { NewsSummaryService } from '@/lib/services/news-summary-service';
 import { getSaaSStockMoversService } from '@/lib/services/saas-stock-movers-service';
+import {
+  AdCampaignService,
+  toDigestAdvertiser,
+} from '@/lib/services/ad-campaign-service';
 import { createClient } from '@supabase/supabase-js';
 import { requireAdmin } from '@/utils/auth/admin-check';
 
@@ -125,12 +129,11 @@ export async function POST(request: NextRequest) {
       referenced_content: item.referenced_content || undefined,
     }));
 
-    // Fetch active advertisers
-    const { data: advertisers } = await supabase
-      .from('email_advertisers')
-      .select('position, company_name, logo_url, link_url, tagline')
-      .eq('is_active', true)
-      .order('position');
+    // Pick live advertiser campaigns as a send would, without frequency caps
+    const campaigns = await new AdCampaignService(supabase).chooseCampaigns(
+      lounge.id,
+      null
+    );
 
     // Format top social posts
     const formattedTopPosts = topSocialPosts.map((item) => ({
@@ -165,7 +168,7 @@ export async function POST(request: NextRequest) {
         date,
         aiNewsSummary,
         stockMovers,
-        advertisers: advertisers || [],
+        advertisers: campaigns.map(toDigestAdvertiser),
       })
     );
 
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/utils/supabase/server';
+import { WebhookService } from '@/lib/services/webhook-service';
+import { WebhookError } from '@/types/webhook';
+
+// GET /api/webhooks/[id]/deliveries - Recent delivery log for an endpoint
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const deliveries = await new WebhookService(supabase).listDeliveries(
+      user.id,
+      id
+    );
+    return NextResponse.json({ deliveries });
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.statusCode || 500 }
+      );
+    }
+
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { WebhookService } from '@/lib/services/webhook-service';
+import { UpdateWebhookSchema, WebhookError } from '@/types/webhook';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof WebhookError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error(`Error ${action} webhook:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// PATCH /api/webhooks/[id] - Update URL, filters or active state
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = UpdateWebhookSchema.parse(await request.json());
+    const webhook = await new WebhookService(supabase).updateEndpoint(
+      user.id,
+      id,
+      input
+    );
+
+    return NextResponse.json({ webhook });
+  } catch (error) {
+    return errorResponse(error, 'updating');
+  }
+}
+
+// DELETE /api/webhooks/[id] - Remove an endpoint and its delivery log
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    await new WebhookService(supabase).deleteEndpoint(user.id, id);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return errorResponse(error, 'deleting');
+  }
+}
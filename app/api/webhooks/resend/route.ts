@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import {
+  EmailSuppressionService,
+  verifyResendSignature,
+} from '@/lib/services/email-suppression-service';
+import { ResendWebhookEventSchema } from '@/types/email-delivery';
+
+// POST /api/webhooks/resend - Delivery feedback from Resend. Bounces and
+// complaints feed the suppression list digests honor.
+export async function POST(request: NextRequest) {
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET is not configured');
+    return NextResponse.json(
+      { error: 'Webhook not configured' },
+      { status: 500 }
+    );
+  }
+
+  // The signature covers the raw body, so parse only after verifying it
+  const body = await request.text();
+  const headers = {
+    id: request.headers.get('svix-id') || request.headers.get('webhook-id'),
+    timestamp:
+      request.headers.get('svix-timestamp') ||
+      request.headers.get('webhook-timestamp'),
+    signature:
+      request.headers.get('svix-signature') ||
+      request.headers.get('webhook-signature'),
+  };
+  if (!verifyResendSignature(secret, headers, body)) {
+    return NextResponse.json({ error: 'Invalid signature' }, { status: 401 });
+  }
+
+  let event;
+  try {
+    event = ResendWebhookEventSchema.parse(JSON.parse(body));
+  } catch {
+    return NextResponse.json({ error: 'Invalid payload' }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    );
+    const recorded = await new EmailSuppressionService(supabase).recordEvent(
+      headers.id!,
+      event
+    );
+
+    return NextResponse.json({ received: true, recorded });
+  } catch (error) {
+    // A 5xx makes Resend retry; the event ID keeps the retry idempotent
+    console.error('Error recording Resend webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to record event' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { createClient } from '@/utils/supabase/server';
+import { WebhookService } from '@/lib/services/webhook-service';
+import { CreateWebhookSchema, WebhookError } from '@/types/webhook';
+
+function errorResponse(error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid request body', details: error.errors },
+      { status: 400 }
+    );
+  }
+  if (error instanceof WebhookError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.statusCode || 500 }
+    );
+  }
+
+  console.error(`Error ${action} webhooks:`, error);
+  return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+}
+
+// GET /api/webhooks - List the user's webhook endpoints
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const webhooks = await new WebhookService(supabase).listEndpoints(user.id);
+    return NextResponse.json({ webhooks });
+  } catch (error) {
+    return errorResponse(error, 'fetching');
+  }
+}
+
+// POST /api/webhooks - Register an endpoint. The response includes the signing secret.
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const input = CreateWebhookSchema.parse(await request.json());
+    const webhook = await new WebhookService(supabase).createEndpoint(
+      user.id,
+      input
+    );
+
+    return NextResponse.json({ webhook }, { status: 201 });
+  } catch (error) {
+    return errorResponse(error, 'creating');
+  }
+}
@@ -51,6 +51,9 @@ import { createBrowserSupabaseClient } from '@/lib/supabase';
 import { UserCog, Shield, Users, Loader2, Trash2 } from 'lucide-react';
 import { format } from 'date-fns';
 import { AdminRelevancyLearning } from '@/components/admin-relevancy-learning';
+import { AdminRelevancyPolicies } from '@/components/admin-relevancy-policies';
+import { AdminDigestAnalytics } from '@/components/admin-digest-analytics';
+import { AdminCostLedger } from '@/components/admin-cost-ledger';
 
 interface UserWithRole {
   id: string;
@@ -434,8 +437,17 @@ export default function AdminDashboard() {
           </Card>
         </div>
 
+        {/* Relevancy Policies */}
+        <AdminRelevancyPolicies />
+
         {/* Relevancy Learning System */}
         <AdminRelevancyLearning />
+
+        {/* Digest Engagement */}
+        <AdminDigestAnalytics />
+
+        {/* Spend and Budgets */}
+        <AdminCostLedger />
       </div>
 
       {/* Delete Confirmation Dialog */}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/utils/supabase/server';
+import {
+  DigestArchiveService,
+  canViewArchive,
+  getDigestArchivePath,
+  getEditionPreview,
+  withArchiveHead,
+} from '@/lib/services/digest-archive-service';
+import { DigestError } from '@/types/digest';
+
+// GET /digests/[lounge]/[date] - One edition rendered as a web page.
+// `?type=weekly` for the weekly edition dated that Monday.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ lounge: string; date: string }> }
+) {
+  const { lounge: slug, date } = await params;
+  const editionType =
+    request.nextUrl.searchParams.get('type') === 'weekly' ? 'weekly' : 'daily';
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return new NextResponse('Not found', { status: 404 });
+  }
+
+  try {
+    // Editions are shared across lounge members, so read with the service role
+    const archive = new DigestArchiveService(
+      createServiceClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_KEY!
+      )
+    );
+    const lounge = await archive.resolveLounge(slug);
+    if (!lounge) return new NextResponse('Not found', { status: 404 });
+
+    const edition = await archive.getEdition(lounge.id, date, editionType);
+
+    if (!edition.is_public) {
+      const supabase = await createClient();
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+      if (!user) {
+        return NextResponse.redirect(new URL('/auth/login', request.url));
+      }
+      if (!canViewArchive(lounge, await archive.getViewer(user.id))) {
+        return new NextResponse('Not found', { status: 404 });
+      }
+    }
+
+    const appUrl = process.env.NEXT_PUBLIC_APP_URL || request.nextUrl.origin;
+    const preview = getEditionPreview(edition);
+    const html = withArchiveHead(await archive.renderWebVersion(edition), {
+      title: preview.title,
+      description: preview.description,
+      url: `${appUrl}${getDigestArchivePath(lounge.id, date, editionType)}`,
+      archiveUrl: `${appUrl}/digests/${slug}`,
+      archiveLabel: `All ${lounge.name} digests`,
+      // Preview images are only served for shared editions
+      imageUrl: edition.is_public
+        ? `${appUrl}/api/digests/${edition.id}/og`
+        : undefined,
+    });
+
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': edition.is_public
+          ? 'public, max-age=300, stale-while-revalidate=3600'
+          : 'private, no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof DigestError && error.code === 'NOT_FOUND') {
+      return new NextResponse('Not found', { status: 404 });
+    }
+
+    console.error('Error rendering digest edition:', error);
+    return new NextResponse('Failed to load digest', { status: 500 });
+  }
+}
@@ -0,0 +1,182 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound, redirect } from 'next/navigation';
+import { createClient as createServiceClient } from '@supabase/supabase-js';
+import { createClient } from '@/utils/supabase/server';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { DigestShareToggle } from '@/components/digests/digest-share-toggle';
+import {
+  DIGEST_ARCHIVE_PAGE_SIZE,
+  DigestArchiveService,
+  canManageArchive,
+  canViewArchive,
+  getDigestArchivePath,
+} from '@/lib/services/digest-archive-service';
+
+interface ArchivePageProps {
+  params: Promise<{ lounge: string }>;
+  searchParams: Promise<{ q?: string; before?: string }>;
+}
+
+function getArchiveService() {
+  // Editions are shared across lounge members, so read with the service role
+  return new DigestArchiveService(
+    createServiceClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_KEY!
+    )
+  );
+}
+
+function formatEditionDate(editionDate: string): string {
+  return new Date(`${editionDate}T12:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+export async function generateMetadata({
+  params,
+}: ArchivePageProps): Promise<Metadata> {
+  const { lounge: slug } = await params;
+  const lounge = await getArchiveService().resolveLounge(slug);
+
+  return {
+    title: lounge ? `${lounge.name} Digest Archive` : 'Digest Archive',
+    description: lounge?.description || undefined,
+  };
+}
+
+export default async function DigestArchivePage({
+  params,
+  searchParams,
+}: ArchivePageProps) {
+  const { lounge: slug } = await params;
+  const { q, before } = await searchParams;
+  const query = q?.trim().slice(0, 200) || undefined;
+
+  const archive = getArchiveService();
+  const lounge = await archive.resolveLounge(slug);
+  if (!lounge) notFound();
+
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  const viewer = await archive.getViewer(user?.id);
+
+  // Readers without access only see editions that were shared publicly
+  const publicOnly = !canViewArchive(lounge, viewer);
+  const canShare = canManageArchive(lounge, viewer);
+
+  const editions = await archive.listEditions(lounge.id, {
+    query,
+    before: before && /^\d{4}-\d{2}-\d{2}$/.test(before) ? before : undefined,
+    publicOnly,
+  });
+  if (publicOnly && !user && editions.length === 0 && !query && !before) {
+    redirect('/auth/login');
+  }
+
+  const olderParams = new URLSearchParams();
+  if (query) olderParams.set('q', query);
+  if (editions.length > 0) {
+    olderParams.set('before', editions[editions.length - 1].edition_date);
+  }
+
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container max-w-3xl mx-auto px-4">
+        <div className="mb-8">
+          <Link href="/dashboard">
+            <Button variant="outline">← Back to Dashboard</Button>
+          </Link>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{lounge.name} Digest Archive</CardTitle>
+            {lounge.description && (
+              <p className="text-sm text-muted-foreground">
+                {lounge.description}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <form className="flex gap-2" action={getDigestArchivePath(slug)}>
+              <Input
+                name="q"
+                defaultValue={query}
+                placeholder="Search past digests"
+                aria-label="Search past digests"
+              />
+              <Button type="submit">Search</Button>
+            </form>
+
+            {editions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                {query
+                  ? `No digests match "${query}".`
+                  : 'No digests have been sent yet.'}
+              </p>
+            ) : (
+              <ul className="divide-y">
+                {editions.map((edition) => (
+                  <li
+                    key={edition.id}
+                    className="flex items-center justify-between gap-4 py-3"
+                  >
+                    <div className="min-w-0">
+                      <Link
+                        href={getDigestArchivePath(
+                          slug,
+                          edition.edition_date,
+                          edition.edition_type
+                        )}
+                        className="font-medium hover:underline"
+                      >
+                        {edition.subject ||
+                          formatEditionDate(edition.edition_date)}
+                      </Link>
+                      <div className="mt-1 flex items-center gap-2 text-xs text-muted-foreground">
+                        <span>{formatEditionDate(edition.edition_date)}</span>
+                        {edition.edition_type === 'weekly' && (
+                          <Badge variant="secondary">Weekly</Badge>
+                        )}
+                      </div>
+                    </div>
+                    {canShare ? (
+                      <DigestShareToggle
+                        editionId={edition.id}
+                        isPublic={edition.is_public}
+                      />
+                    ) : (
+                      edition.is_public && (
+                        <Badge variant="outline">Public</Badge>
+                      )
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {editions.length === DIGEST_ARCHIVE_PAGE_SIZE && (
+              <div className="flex justify-end">
+                <Link
+                  href={`${getDigestArchivePath(slug)}?${olderParams.toString()}`}
+                >
+                  <Button variant="outline">Older digests →</Button>
+                </Link>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,315 @@
+'use client';
+
+import { Suspense, useCallback, useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Loader2, Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  MAX_DIGEST_PAUSE_WEEKS,
+  type DigestPreferences,
+  type UpdateDigestPreferencesInput,
+} from '@/types/digest';
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  daily: 'Every day',
+  weekdays: 'Weekdays (Mon–Fri)',
+  weekly: 'Once a week',
+};
+
+const PAUSE_OPTIONS = [1, 2, 4, 8, MAX_DIGEST_PAUSE_WEEKS];
+
+function EmailPreferencesContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const highlightedLounge = searchParams.get('lounge');
+  const [preferences, setPreferences] = useState<DigestPreferences | null>(
+    null
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const endpoint = `/api/digest/preferences?${new URLSearchParams({ token })}`;
+
+  useEffect(() => {
+    fetch(endpoint)
+      .then(async (response) => {
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to load preferences');
+        }
+        setPreferences(result);
+      })
+      .catch((err) =>
+        setError(
+          err instanceof Error ? err.message : 'Failed to load preferences'
+        )
+      );
+  }, [endpoint]);
+
+  const save = useCallback(
+    async (changes: UpdateDigestPreferencesInput, message: string) => {
+      setSaving(true);
+      try {
+        const response = await fetch(endpoint, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(changes),
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to save preferences');
+        }
+        setPreferences(result);
+        toast.success(message);
+      } catch (err) {
+        toast.error(
+          err instanceof Error ? err.message : 'Failed to save preferences'
+        );
+      } finally {
+        setSaving(false);
+      }
+    },
+    [endpoint]
+  );
+
+  if (error) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Preferences</CardTitle>
+          <CardDescription>
+            {error}. Use the link from your latest digest, or sign in to manage
+            your digests from your account settings.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (!preferences) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const { schedule } = preferences;
+  const pausedUntil =
+    schedule.paused_until && new Date(schedule.paused_until) > new Date()
+      ? new Date(schedule.paused_until).toLocaleDateString('en-US', {
+          month: 'long',
+          day: 'numeric',
+          year: 'numeric',
+        })
+      : null;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <CardTitle>Digest Emails</CardTitle>
+              <CardDescription className="mt-1.5">
+                Sent to {preferences.email}
+              </CardDescription>
+            </div>
+            <Switch
+              checked={schedule.active}
+              onCheckedChange={(active) =>
+                save(
+                  { active },
+                  active ? 'Digests turned back on' : 'Unsubscribed from all'
+                )
+              }
+              disabled={saving}
+              aria-label="Send digests"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label>Frequency</Label>
+            <Select
+              value={
+                schedule.frequency === 'monthly' ? 'weekly' : schedule.frequency
+              }
+              onValueChange={(frequency) =>
+                save(
+                  {
+                    frequency:
+                      frequency as UpdateDigestPreferencesInput['frequency'],
+                  },
+                  'Frequency updated'
+                )
+              }
+              disabled={saving || !schedule.active}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Pause</Label>
+            {pausedUntil ? (
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                  Paused until {pausedUntil}
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => save({ pause_weeks: 0 }, 'Digests resumed')}
+                  disabled={saving}
+                >
+                  Resume
+                </Button>
+              </div>
+            ) : (
+              <Select
+                value=""
+                onValueChange={(weeks) =>
+                  save(
+                    { pause_weeks: Number(weeks) },
+                    `Digests paused for ${weeks} week${weeks === '1' ? '' : 's'}`
+                  )
+                }
+                disabled={saving || !schedule.active}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Pause digests for…" />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAUSE_OPTIONS.map((weeks) => (
+                    <SelectItem key={weeks} value={String(weeks)}>
+                      {weeks} week{weeks === 1 ? '' : 's'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lounges</CardTitle>
+          <CardDescription>
+            Choose the daily and weekly digests you get for each lounge.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {preferences.lounges.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              You aren&apos;t subscribed to any lounge digests.
+            </p>
+          ) : (
+            <ul className="divide-y">
+              {preferences.lounges.map((lounge) => (
+                <li
+                  key={lounge.lounge_id}
+                  className={`flex flex-wrap items-center justify-between gap-4 py-3 ${
+                    lounge.lounge_id === highlightedLounge
+                      ? 'rounded-md bg-muted px-3'
+                      : ''
+                  }`}
+                >
+                  <span className="font-medium">{lounge.name}</span>
+                  <div className="flex items-center gap-6">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={lounge.subscribed}
+                        onCheckedChange={(subscribed) =>
+                          save(
+                            {
+                              lounges: [
+                                { lounge_id: lounge.lounge_id, subscribed },
+                              ],
+                            },
+                            `${lounge.name} daily digest ${subscribed ? 'on' : 'off'}`
+                          )
+                        }
+                        disabled={saving}
+                      />
+                      Daily
+                    </label>
+                    <label className="flex items-center gap-2 text-sm">
+                      <Switch
+                        checked={lounge.weekly_subscribed}
+                        onCheckedChange={(weekly_subscribed) =>
+                          save(
+                            {
+                              lounges: [
+                                {
+                                  lounge_id: lounge.lounge_id,
+                                  weekly_subscribed,
+                                },
+                              ],
+                            },
+                            `${lounge.name} weekly best of ${weekly_subscribed ? 'on' : 'off'}`
+                          )
+                        }
+                        disabled={saving}
+                      />
+                      Weekly
+                    </label>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
+
+export default function EmailPreferencesPage() {
+  return (
+    <div className="min-h-screen bg-background py-8">
+      <div className="container max-w-3xl mx-auto px-4 space-y-6">
+        <div className="flex items-center gap-2">
+          <Mail className="h-8 w-8" />
+          <h1 className="text-3xl font-bold">Email Preferences</h1>
+        </div>
+        <Suspense
+          fallback={
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          }
+        >
+          <EmailPreferencesContent />
+        </Suspense>
+      </div>
+    </div>
+  );
+}
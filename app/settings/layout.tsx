@@ -11,6 +11,7 @@ import {
   Settings,
   Key,
   Monitor,
+  Webhook,
 } from 'lucide-react';
 
 const settingsNav = [
@@ -38,6 +39,12 @@ const settingsNav = [
     icon: CreditCard,
     description: 'Subscription and payment methods',
   },
+  {
+    title: 'Webhooks',
+    href: '/settings/webhooks',
+    icon: Webhook,
+    description: 'Push new content to your own endpoints',
+  },
   {
     title: 'Preferences',
     href: '/settings/preferences',
@@ -0,0 +1,237 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Bell, Clock, Loader2 } from 'lucide-react';
+import { useDigestSchedule } from '@/hooks/use-digest-schedule';
+import type { DigestSchedule } from '@/types/digest';
+
+const FREQUENCY_LABELS: Record<string, string> = {
+  daily: 'Every day',
+  weekdays: 'Weekdays (Mon–Fri)',
+  weekly: 'Once a week',
+};
+
+const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+function getTimezones(current: string): string[] {
+  const supported =
+    (
+      Intl as typeof Intl & { supportedValuesOf?: (key: string) => string[] }
+    ).supportedValuesOf?.('timeZone') || [];
+  return supported.includes(current) ? supported : [current, ...supported];
+}
+
+export default function NotificationSettingsPage() {
+  const { data: schedule, isLoading, updateSchedule } = useDigestSchedule();
+  const [form, setForm] = useState<DigestSchedule | null>(null);
+
+  useEffect(() => {
+    if (schedule) setForm(schedule);
+  }, [schedule]);
+
+  const timezones = useMemo(
+    () => (form ? getTimezones(form.timezone) : []),
+    [form]
+  );
+  const browserTimezone = useMemo(
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    []
+  );
+
+  if (isLoading || !form) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  const update = (changes: Partial<DigestSchedule>) =>
+    setForm({ ...form, ...changes });
+
+  const handleSave = () => {
+    updateSchedule.mutate({
+      frequency: form.frequency === 'monthly' ? 'weekly' : form.frequency,
+      time_of_day: form.time_of_day,
+      day_of_week: form.frequency === 'weekly' ? (form.day_of_week ?? 1) : null,
+      timezone: form.timezone,
+      active: form.active,
+    });
+  };
+
+  const nextSend =
+    schedule?.active && schedule.next_send_at
+      ? new Date(schedule.next_send_at).toLocaleString('en-US', {
+          timeZone: schedule.timezone,
+          weekday: 'long',
+          month: 'short',
+          day: 'numeric',
+          hour: 'numeric',
+          minute: '2-digit',
+        })
+      : null;
+
+  return (
+    <div className="container max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Bell className="h-8 w-8" />
+        <h1 className="text-3xl font-bold">Notifications</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                <CardTitle>Digest Schedule</CardTitle>
+              </div>
+              <CardDescription className="mt-1.5">
+                When your lounge digests arrive, in your local time. Digests are
+                skipped when there&apos;s nothing new since the last one.
+              </CardDescription>
+            </div>
+            <Switch
+              checked={form.active}
+              onCheckedChange={(active) => update({ active })}
+              aria-label="Send digests"
+            />
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label>Frequency</Label>
+              <Select
+                value={form.frequency}
+                onValueChange={(frequency) =>
+                  update({
+                    frequency: frequency as DigestSchedule['frequency'],
+                  })
+                }
+                disabled={!form.active}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.frequency === 'weekly' && (
+              <div>
+                <Label>Day</Label>
+                <Select
+                  value={String(form.day_of_week ?? 1)}
+                  onValueChange={(day) => update({ day_of_week: Number(day) })}
+                  disabled={!form.active}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>
+                        {day}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div>
+              <Label htmlFor="digest-time">Time</Label>
+              <Input
+                id="digest-time"
+                type="time"
+                value={form.time_of_day}
+                onChange={(e) => update({ time_of_day: e.target.value })}
+                disabled={!form.active}
+              />
+            </div>
+
+            <div>
+              <Label>Timezone</Label>
+              <Select
+                value={form.timezone}
+                onValueChange={(timezone) => update({ timezone })}
+                disabled={!form.active}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  {timezones.map((timezone) => (
+                    <SelectItem key={timezone} value={timezone}>
+                      {timezone.replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {browserTimezone && browserTimezone !== form.timezone && (
+                <Button
+                  type="button"
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  onClick={() => update({ timezone: browserTimezone })}
+                >
+                  Use {browserTimezone.replace(/_/g, ' ')}
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              {nextSend
+                ? `Next digest: ${nextSend}`
+                : schedule?.active
+                  ? 'Your next digest will be scheduled shortly'
+                  : 'Digests are paused'}
+            </p>
+            <Button onClick={handleSave} disabled={updateSchedule.isPending}>
+              {updateSchedule.isPending && (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              )}
+              Save schedule
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
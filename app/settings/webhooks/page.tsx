@@ -0,0 +1,470 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Webhook,
+  Plus,
+  Send,
+  Trash2,
+  Copy,
+  History,
+  Loader2,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { PLATFORM_VALUES, type Platform } from '@/types/creator';
+import type { CreateWebhookInput, WebhookEndpoint } from '@/types/webhook';
+import {
+  useWebhookDeliveries,
+  useWebhookMutations,
+  useWebhooks,
+} from '@/hooks/use-webhooks';
+
+const ANY = 'any';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+function useFilterOptions() {
+  const [lounges, setLounges] = useState<Option[]>([]);
+  const [creators, setCreators] = useState<Option[]>([]);
+
+  useEffect(() => {
+    fetch('/api/lounges?limit=100')
+      .then((response) => response.json())
+      .then((data) =>
+        setLounges(
+          (data.data?.lounges || []).map((l: Option) => ({
+            id: l.id,
+            name: l.name,
+          }))
+        )
+      )
+      .catch(() => setLounges([]));
+
+    fetch('/api/creators?limit=100')
+      .then((response) => response.json())
+      .then((data) =>
+        setCreators(
+          (data.data?.creators || []).map(
+            (c: { id: string; display_name: string }) => ({
+              id: c.id,
+              name: c.display_name,
+            })
+          )
+        )
+      )
+      .catch(() => setCreators([]));
+  }, []);
+
+  return { lounges, creators };
+}
+
+function DeliveryLog({ webhookId }: { webhookId: string }) {
+  const { data: deliveries = [], isLoading } = useWebhookDeliveries(webhookId);
+
+  if (isLoading) {
+    return <Loader2 className="h-4 w-4 animate-spin mx-auto my-4" />;
+  }
+  if (deliveries.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground py-4 text-center">
+        No deliveries yet
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Time</TableHead>
+          <TableHead>Event</TableHead>
+          <TableHead>Status</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Response</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id}>
+            <TableCell className="whitespace-nowrap">
+              {format(new Date(delivery.created_at), 'MMM d, HH:mm:ss')}
+            </TableCell>
+            <TableCell>
+              <code className="text-xs">{delivery.event_type}</code>
+            </TableCell>
+            <TableCell>
+              <Badge
+                variant={
+                  delivery.status === 'succeeded'
+                    ? 'default'
+                    : delivery.status === 'failed'
+                      ? 'destructive'
+                      : 'secondary'
+                }
+              >
+                {delivery.status}
+              </Badge>
+            </TableCell>
+            <TableCell>{delivery.attempts}</TableCell>
+            <TableCell className="text-xs text-muted-foreground">
+              {delivery.error || delivery.response_status || '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function WebhookCard({
+  webhook,
+  lounges,
+}: {
+  webhook: WebhookEndpoint;
+  lounges: Option[];
+}) {
+  const { updateWebhook, deleteWebhook, sendTestEvent } = useWebhookMutations();
+  const [showLog, setShowLog] = useState(false);
+
+  const loungeName = lounges.find((l) => l.id === webhook.lounge_id)?.name;
+  const filters = [
+    webhook.lounge_id && `Lounge: ${loungeName || 'Unknown'}`,
+    webhook.min_relevancy_score !== null &&
+      `Score ≥ ${webhook.min_relevancy_score}`,
+    webhook.platforms.length > 0 &&
+      `Platforms: ${webhook.platforms.join(', ')}`,
+    webhook.creator_ids.length > 0 &&
+      `${webhook.creator_ids.length} creator${webhook.creator_ids.length === 1 ? '' : 's'}`,
+  ].filter(Boolean);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div className="min-w-0">
+            <CardTitle className="text-base font-mono truncate">
+              {webhook.url}
+            </CardTitle>
+            <CardDescription>
+              {webhook.description || 'No description'}
+            </CardDescription>
+          </div>
+          <Switch
+            checked={webhook.is_active}
+            onCheckedChange={(is_active) =>
+              updateWebhook.mutate({ id: webhook.id, is_active })
+            }
+            aria-label="Active"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!webhook.is_active && webhook.consecutive_failures > 0 && (
+          <Alert variant="destructive">
+            <AlertTitle>Disabled after repeated failures</AlertTitle>
+            <AlertDescription>
+              {webhook.consecutive_failures} deliveries in a row failed. Fix the
+              endpoint and switch it back on.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          {filters.length > 0 ? (
+            filters.map((filter) => (
+              <Badge key={filter as string} variant="outline">
+                {filter}
+              </Badge>
+            ))
+          ) : (
+            <Badge variant="outline">All kept content</Badge>
+          )}
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => sendTestEvent.mutate(webhook.id)}
+            disabled={sendTestEvent.isPending}
+          >
+            {sendTestEvent.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Send className="h-4 w-4 mr-2" />
+            )}
+            Send test event
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setShowLog(!showLog)}
+          >
+            <History className="h-4 w-4 mr-2" />
+            {showLog ? 'Hide deliveries' : 'Show deliveries'}
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-destructive"
+            onClick={() => {
+              if (confirm('Delete this webhook and its delivery log?')) {
+                deleteWebhook.mutate(webhook.id);
+              }
+            }}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+        </div>
+
+        {showLog && <DeliveryLog webhookId={webhook.id} />}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CreateWebhookForm({
+  lounges,
+  creators,
+}: {
+  lounges: Option[];
+  creators: Option[];
+}) {
+  const { createWebhook } = useWebhookMutations();
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [loungeId, setLoungeId] = useState(ANY);
+  const [minScore, setMinScore] = useState('');
+  const [platforms, setPlatforms] = useState<Platform[]>([]);
+  const [creatorId, setCreatorId] = useState(ANY);
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const input: CreateWebhookInput = {
+      url: url.trim(),
+      description: description.trim() || undefined,
+      lounge_id: loungeId === ANY ? null : loungeId,
+      min_relevancy_score: minScore ? Number(minScore) : null,
+      platforms,
+      creator_ids: creatorId === ANY ? [] : [creatorId],
+    };
+
+    createWebhook.mutate(input, {
+      onSuccess: ({ webhook }) => {
+        setSecret(webhook.secret || null);
+        setUrl('');
+        setDescription('');
+        setLoungeId(ANY);
+        setMinScore('');
+        setPlatforms([]);
+        setCreatorId(ANY);
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Plus className="h-5 w-5" />
+          <CardTitle>Add Endpoint</CardTitle>
+        </div>
+        <CardDescription>
+          We POST a signed JSON payload to this URL whenever content passes
+          relevancy review and matches your filters.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {secret && (
+          <Alert className="mb-4">
+            <AlertTitle>Signing secret</AlertTitle>
+            <AlertDescription className="space-y-2">
+              <p>
+                Copy it now, it won&apos;t be shown again. Verify the{' '}
+                <code>X-Webhook-Signature</code> header as HMAC-SHA256 of{' '}
+                <code>{'{t}.{body}'}</code>.
+              </p>
+              <div className="flex gap-2">
+                <Input readOnly value={secret} className="font-mono text-xs" />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="outline"
+                  onClick={() => {
+                    navigator.clipboard.writeText(secret);
+                    toast.success('Secret copied');
+                  }}
+                  aria-label="Copy secret"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://example.com/webhooks/daily-news"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                placeholder="Slack relay"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Lounge</Label>
+              <Select value={loungeId} onValueChange={setLoungeId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any lounge</SelectItem>
+                  {lounges.map((lounge) => (
+                    <SelectItem key={lounge.id} value={lounge.id}>
+                      {lounge.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="webhook-min-score">Minimum relevancy score</Label>
+              <Input
+                id="webhook-min-score"
+                type="number"
+                min={0}
+                max={100}
+                placeholder="Lounge threshold"
+                value={minScore}
+                onChange={(e) => setMinScore(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label>Creator</Label>
+              <Select value={creatorId} onValueChange={setCreatorId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any creator</SelectItem>
+                  {creators.map((creator) => (
+                    <SelectItem key={creator.id} value={creator.id}>
+                      {creator.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Platforms</Label>
+            <div className="flex flex-wrap gap-4 mt-2">
+              {PLATFORM_VALUES.map((platform) => (
+                <label
+                  key={platform}
+                  className="flex items-center gap-2 text-sm capitalize"
+                >
+                  <Checkbox
+                    checked={platforms.includes(platform)}
+                    onCheckedChange={(checked) =>
+                      setPlatforms((current) =>
+                        checked
+                          ? [...current, platform]
+                          : current.filter((p) => p !== platform)
+                      )
+                    }
+                  />
+                  {platform}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <Button type="submit" disabled={createWebhook.isPending}>
+            {createWebhook.isPending && (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            )}
+            Add endpoint
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function WebhookSettingsPage() {
+  const { data: webhooks = [], isLoading } = useWebhooks();
+  const { lounges, creators } = useFilterOptions();
+
+  return (
+    <div className="container max-w-4xl mx-auto p-6 space-y-6">
+      <div className="flex items-center gap-2 mb-6">
+        <Webhook className="h-8 w-8" />
+        <h1 className="text-3xl font-bold">Webhooks</h1>
+      </div>
+
+      <CreateWebhookForm lounges={lounges} creators={creators} />
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : (
+        webhooks.map((webhook) => (
+          <WebhookCard key={webhook.id} webhook={webhook} lounges={lounges} />
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,402 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { DollarSign, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  COST_SUBSYSTEMS,
+  type CostBudgetStatus,
+  type CostReport,
+  type CostSubsystem,
+} from '@/types/cost';
+
+const SUBSYSTEM_LABELS: Record<CostSubsystem, string> = {
+  summaries: 'Summaries',
+  relevancy: 'Relevancy',
+  ai_news: 'AI news',
+  digests: 'Digests',
+  images: 'Images',
+  scraping: 'Scraping',
+};
+
+// Subsystems whose non-critical jobs pause when over budget
+const PAUSABLE: readonly CostSubsystem[] = ['ai_news', 'images', 'relevancy'];
+
+const SUBSYSTEM_COLORS: Record<CostSubsystem, string> = {
+  summaries: 'hsl(220 70% 50%)',
+  relevancy: 'hsl(160 60% 45%)',
+  ai_news: 'hsl(30 80% 55%)',
+  digests: 'hsl(280 65% 60%)',
+  images: 'hsl(340 75% 55%)',
+  scraping: 'hsl(197 37% 40%)',
+};
+
+const chartConfig: ChartConfig = Object.fromEntries(
+  COST_SUBSYSTEMS.map((subsystem) => [
+    subsystem,
+    { label: SUBSYSTEM_LABELS[subsystem], color: SUBSYSTEM_COLORS[subsystem] },
+  ])
+);
+
+function formatUsd(amount: number) {
+  return `$${amount.toFixed(amount > 0 && amount < 1 ? 4 : 2)}`;
+}
+
+function formatLimit(limit: number | null) {
+  return limit === null ? '' : String(limit);
+}
+
+// Empty input clears the limit
+function parseLimit(value: string): number | null {
+  const trimmed = value.trim();
+  return trimmed === '' ? null : Number(trimmed);
+}
+
+function BudgetRow({
+  status,
+  onSave,
+}: {
+  status: CostBudgetStatus;
+  onSave: (daily: number | null, monthly: number | null) => Promise<void>;
+}) {
+  const [daily, setDaily] = useState(formatLimit(status.dailyLimit));
+  const [monthly, setMonthly] = useState(formatLimit(status.monthlyLimit));
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setDaily(formatLimit(status.dailyLimit));
+    setMonthly(formatLimit(status.monthlyLimit));
+  }, [status.dailyLimit, status.monthlyLimit]);
+
+  const dirty =
+    daily !== formatLimit(status.dailyLimit) ||
+    monthly !== formatLimit(status.monthlyLimit);
+
+  const save = async () => {
+    setSaving(true);
+    try {
+      await onSave(parseLimit(daily), parseLimit(monthly));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <TableRow>
+      <TableCell>
+        {SUBSYSTEM_LABELS[status.subsystem]}
+        {!PAUSABLE.includes(status.subsystem) && (
+          <div className="text-xs text-muted-foreground">Alert only</div>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        {formatUsd(status.dailySpend)}
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="No limit"
+          className="w-28"
+          value={daily}
+          onChange={(e) => setDaily(e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right">
+        {formatUsd(status.monthlySpend)}
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min="0"
+          step="0.01"
+          placeholder="No limit"
+          className="w-28"
+          value={monthly}
+          onChange={(e) => setMonthly(e.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        {status.exceeded ? (
+          <Badge variant="destructive">
+            Over {status.exceeded} budget
+            {PAUSABLE.includes(status.subsystem) ? ', paused' : ''}
+          </Badge>
+        ) : (
+          <Badge variant="secondary">Within budget</Badge>
+        )}
+      </TableCell>
+      <TableCell className="text-right">
+        <Button size="sm" onClick={save} disabled={!dirty || saving}>
+          Save
+        </Button>
+      </TableCell>
+    </TableRow>
+  );
+}
+
+export function AdminCostLedger() {
+  const [report, setReport] = useState<CostReport | null>(null);
+  const [days, setDays] = useState('30');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadReport();
+  }, [days]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/costs?days=${days}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch spend');
+      }
+
+      setReport(data);
+    } catch (error) {
+      console.error('Error loading spend:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to load spend'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveBudget = async (
+    subsystem: CostSubsystem,
+    daily: number | null,
+    monthly: number | null
+  ) => {
+    try {
+      const response = await fetch('/api/admin/costs', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          subsystem,
+          daily_limit_usd: daily,
+          monthly_limit_usd: monthly,
+        }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save budget');
+      }
+
+      toast.success(`${SUBSYSTEM_LABELS[subsystem]} budget saved`);
+      await loadReport();
+    } catch (error) {
+      console.error('Error saving budget:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to save budget'
+      );
+    }
+  };
+
+  const today = report?.budgets.reduce((sum, b) => sum + b.dailySpend, 0);
+  const month = report?.budgets.reduce((sum, b) => sum + b.monthlySpend, 0);
+  const chartData = report?.trend.map((point) => ({
+    day: point.day.slice(5),
+    ...point.bySubsystem,
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="h-5 w-5" />
+            Spend
+          </CardTitle>
+          <CardDescription>
+            LLM, scraping and data API costs from the cost ledger (UTC days)
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={loadReport}
+            disabled={loading}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!report ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            {loading ? 'Loading spend...' : 'No data available'}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <div className="text-sm text-muted-foreground">Today</div>
+                <div className="text-2xl font-bold">
+                  {formatUsd(today || 0)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">
+                  Month to date
+                </div>
+                <div className="text-2xl font-bold">
+                  {formatUsd(month || 0)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">
+                  Last {report.days} days
+                </div>
+                <div className="text-2xl font-bold">
+                  {formatUsd(report.totalCost)}
+                </div>
+              </div>
+            </div>
+
+            <ChartContainer config={chartConfig} className="h-[240px] w-full">
+              <BarChart data={chartData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="day" tickLine={false} axisLine={false} />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value) => `$${value}`}
+                />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                {COST_SUBSYSTEMS.map((subsystem) => (
+                  <Bar
+                    key={subsystem}
+                    dataKey={subsystem}
+                    stackId="spend"
+                    fill={`var(--color-${subsystem})`}
+                  />
+                ))}
+              </BarChart>
+            </ChartContainer>
+
+            <Tabs defaultValue="budgets">
+              <TabsList>
+                <TabsTrigger value="budgets">Budgets</TabsTrigger>
+                <TabsTrigger value="vendors">Vendors</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="budgets">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Subsystem</TableHead>
+                      <TableHead className="text-right">Today</TableHead>
+                      <TableHead>Daily limit</TableHead>
+                      <TableHead className="text-right">Month</TableHead>
+                      <TableHead>Monthly limit</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.budgets.map((status) => (
+                      <BudgetRow
+                        key={status.subsystem}
+                        status={status}
+                        onSave={(daily, monthly) =>
+                          saveBudget(status.subsystem, daily, monthly)
+                        }
+                      />
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="vendors">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Model or actor</TableHead>
+                      <TableHead className="text-right">Calls</TableHead>
+                      <TableHead className="text-right">Units</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.vendors.map((vendor) => (
+                      <TableRow
+                        key={`${vendor.provider}:${vendor.model_or_actor}`}
+                      >
+                        <TableCell>{vendor.provider}</TableCell>
+                        <TableCell>{vendor.model_or_actor || '-'}</TableCell>
+                        <TableCell className="text-right">
+                          {vendor.calls}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {vendor.units.toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatUsd(vendor.cost)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Mail, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  DigestAnalyticsReport,
+  DigestEngagementStats,
+} from '@/types/digest';
+
+const SECTION_LABELS: Record<string, string> = {
+  big_story: 'Big story',
+  news: 'News',
+  special: 'Special section',
+  social: 'Social posts',
+  advertiser: 'Advertisers',
+  most_discussed: 'Most discussed',
+  theme: 'Weekly themes',
+};
+
+function formatRate(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function StatsCells({ stats }: { stats: DigestEngagementStats }) {
+  return (
+    <>
+      <TableCell className="text-right">{stats.tracked}</TableCell>
+      <TableCell className="text-right">{stats.opens}</TableCell>
+      <TableCell className="text-right">{formatRate(stats.openRate)}</TableCell>
+      <TableCell className="text-right">{stats.clicks}</TableCell>
+      <TableCell className="text-right">
+        {formatRate(stats.clickRate)}
+      </TableCell>
+    </>
+  );
+}
+
+function StatsHeads() {
+  return (
+    <>
+      <TableHead className="text-right">Tracked sends</TableHead>
+      <TableHead className="text-right">Opens</TableHead>
+      <TableHead className="text-right">Open rate</TableHead>
+      <TableHead className="text-right">Clicks</TableHead>
+      <TableHead className="text-right">CTR</TableHead>
+    </>
+  );
+}
+
+export function AdminDigestAnalytics() {
+  const [report, setReport] = useState<DigestAnalyticsReport | null>(null);
+  const [days, setDays] = useState('30');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadReport();
+  }, [days]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/digest-analytics?days=${days}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch digest analytics');
+      }
+
+      setReport(data);
+    } catch (error) {
+      console.error('Error loading digest analytics:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to load digest analytics'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Digest Engagement
+          </CardTitle>
+          <CardDescription>
+            Opens and clicks from recipients who consented to analytics
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={days} onValueChange={setDays}>
+            <SelectTrigger className="w-[140px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={loadReport}
+            disabled={loading}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!report ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            {loading ? 'Loading digest analytics...' : 'No data available'}
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-4">
+              <div>
+                <div className="text-sm text-muted-foreground">
+                  Tracked sends
+                </div>
+                <div className="text-2xl font-bold">
+                  {report.totals.tracked}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Open rate</div>
+                <div className="text-2xl font-bold">
+                  {formatRate(report.totals.openRate)}
+                </div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">Clicks</div>
+                <div className="text-2xl font-bold">{report.totals.clicks}</div>
+              </div>
+              <div>
+                <div className="text-sm text-muted-foreground">CTR</div>
+                <div className="text-2xl font-bold">
+                  {formatRate(report.totals.clickRate)}
+                </div>
+              </div>
+            </div>
+
+            <Tabs defaultValue="lounges">
+              <TabsList>
+                <TabsTrigger value="lounges">Lounges</TabsTrigger>
+                <TabsTrigger value="days">Over time</TabsTrigger>
+                <TabsTrigger value="sections">Sections</TabsTrigger>
+                <TabsTrigger value="advertisers">Advertisers</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="lounges">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Lounge</TableHead>
+                      <StatsHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.lounges.map((lounge) => (
+                      <TableRow key={lounge.loungeId}>
+                        <TableCell>{lounge.name}</TableCell>
+                        <StatsCells stats={lounge} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="days">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sent</TableHead>
+                      <StatsHeads />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.days.map((day) => (
+                      <TableRow key={day.date}>
+                        <TableCell>{day.date}</TableCell>
+                        <StatsCells stats={day} />
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="sections">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Section</TableHead>
+                      <TableHead className="text-right">Clicks</TableHead>
+                      <TableHead className="text-right">CTR</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.sections.map((section) => (
+                      <TableRow key={section.section}>
+                        <TableCell>
+                          {SECTION_LABELS[section.section] || section.section}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {section.clicks}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatRate(section.clickRate)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+
+              <TabsContent value="advertisers">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Advertiser</TableHead>
+                      <TableHead className="text-right">Clicks</TableHead>
+                      <TableHead className="text-right">CTR</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.advertisers.map((advertiser) => (
+                      <TableRow key={advertiser.name}>
+                        <TableCell>{advertiser.name}</TableCell>
+                        <TableCell className="text-right">
+                          {advertiser.clicks}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatRate(advertiser.clickRate)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TabsContent>
+            </Tabs>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
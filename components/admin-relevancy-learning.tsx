@@ -12,8 +12,18 @@ import {
 } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { RelevancyEvalReportView } from '@/components/relevancy-eval-report';
 import { Check, X, RefreshCw, AlertCircle, TrendingUp } from 'lucide-react';
 import { toast } from 'sonner';
+import type { RelevancyEvalReport } from '@/types/relevancy-eval';
 
 interface PromptAdjustment {
   id: string;
@@ -52,6 +62,11 @@ export function AdminRelevancyLearning() {
   const [recentRuns, setRecentRuns] = useState<AnalysisRun[]>([]);
   const [loading, setLoading] = useState(true);
   const [processing, setProcessing] = useState(false);
+  const [reviewing, setReviewing] = useState<PromptAdjustment | null>(null);
+  const [evalReport, setEvalReport] = useState<RelevancyEvalReport | null>(
+    null
+  );
+  const [evalError, setEvalError] = useState<string | null>(null);
   const supabase = createClient();
 
   useEffect(() => {
@@ -114,6 +129,38 @@ export function AdminRelevancyLearning() {
     }
   };
 
+  // Show what the suggestion would change on labeled content before it goes live
+  const reviewSuggestion = async (suggestion: PromptAdjustment) => {
+    setReviewing(suggestion);
+    setEvalReport(null);
+    setEvalError(null);
+    try {
+      const response = await fetch('/api/admin/relevancy-eval', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          lounge_id: suggestion.lounge_id,
+          suggestion_id: suggestion.id,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to evaluate suggestion');
+      }
+
+      setEvalReport(data);
+    } catch (error) {
+      console.error('Error evaluating suggestion:', error);
+      setEvalError(
+        error instanceof Error ? error.message : 'Failed to evaluate suggestion'
+      );
+    }
+  };
+
   const handleApprove = async (suggestionId: string) => {
     setProcessing(true);
     try {
@@ -135,6 +182,7 @@ export function AdminRelevancyLearning() {
       }
 
       toast.success('Suggestion approved and activated');
+      setReviewing(null);
       await loadData();
     } catch (error) {
       console.error('Error approving suggestion:', error);
@@ -315,11 +363,11 @@ export function AdminRelevancyLearning() {
                       <Button
                         size="sm"
                         variant="default"
-                        onClick={() => handleApprove(suggestion.id)}
+                        onClick={() => reviewSuggestion(suggestion)}
                         disabled={processing}
                       >
                         <Check className="h-4 w-4 mr-1" />
-                        Approve
+                        Review & Approve
                       </Button>
                       <Button
                         size="sm"
@@ -480,6 +528,45 @@ export function AdminRelevancyLearning() {
           )}
         </TabsContent>
       </Tabs>
+
+      <Dialog
+        open={!!reviewing}
+        onOpenChange={(open) => !open && setReviewing(null)}
+      >
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              Evaluate {reviewing?.adjustment_type} adjustment for{' '}
+              {reviewing?.lounges?.name}
+            </DialogTitle>
+            <DialogDescription>{reviewing?.adjustment_text}</DialogDescription>
+          </DialogHeader>
+
+          {evalReport ? (
+            <RelevancyEvalReportView report={evalReport} />
+          ) : evalError ? (
+            <p className="text-sm text-destructive">{evalError}</p>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-8 text-sm text-muted-foreground">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+              Replaying labeled content...
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewing(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => reviewing && handleApprove(reviewing.id)}
+              disabled={processing || (!evalReport && !evalError)}
+            >
+              <Check className="h-4 w-4 mr-1" />
+              {evalError ? 'Approve without evaluation' : 'Approve'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
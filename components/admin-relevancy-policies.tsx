@@ -0,0 +1,530 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { RelevancyEvalReportView } from '@/components/relevancy-eval-report';
+import {
+  FlaskConical,
+  ListChecks,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  X,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+import type {
+  LoungeRelevancyPolicy,
+  RelevancyPolicyExample,
+  RelevancyPolicyLounge,
+} from '@/types/relevancy-policy';
+import type { RelevancyEvalReport } from '@/types/relevancy-eval';
+
+interface PolicyDraft {
+  keep: string;
+  borderline: string;
+  filter: string;
+  examples: RelevancyPolicyExample[];
+  focus: string;
+  threshold: string;
+  changeNote: string;
+}
+
+function toDraft(
+  policy: LoungeRelevancyPolicy | null,
+  lounge?: RelevancyPolicyLounge
+): PolicyDraft {
+  return {
+    keep: policy?.keep_criteria.join('\n') || '',
+    borderline: policy?.borderline_criteria.join('\n') || '',
+    filter: policy?.filter_criteria.join('\n') || '',
+    examples: policy?.examples || [],
+    focus: policy?.focus || '',
+    threshold: String(policy?.threshold ?? lounge?.relevancy_threshold ?? 60),
+    changeNote: '',
+  };
+}
+
+// One criterion per line
+function toLines(value: string) {
+  return value
+    .split('\n')
+    .map((line) => line.replace(/^\s*-\s*/, '').trim())
+    .filter(Boolean);
+}
+
+export function AdminRelevancyPolicies() {
+  const [lounges, setLounges] = useState<RelevancyPolicyLounge[]>([]);
+  const [loungeId, setLoungeId] = useState('');
+  const [versions, setVersions] = useState<LoungeRelevancyPolicy[]>([]);
+  const [draft, setDraft] = useState<PolicyDraft>(toDraft(null));
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [evalReport, setEvalReport] = useState<RelevancyEvalReport | null>(
+    null
+  );
+
+  useEffect(() => {
+    loadLounges();
+  }, []);
+
+  useEffect(() => {
+    if (loungeId) loadPolicy(loungeId);
+  }, [loungeId]);
+
+  const loadLounges = async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/admin/relevancy-policies');
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch lounges');
+      }
+
+      setLounges(data.lounges || []);
+      if (!loungeId && data.lounges?.length > 0) {
+        setLoungeId(data.lounges[0].id);
+      }
+    } catch (error) {
+      console.error('Error loading relevancy policies:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to load relevancy policies'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadPolicy = async (id: string) => {
+    setLoading(true);
+    try {
+      const response = await fetch(
+        `/api/admin/relevancy-policies?lounge_id=${id}`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to fetch relevancy policy');
+      }
+
+      setVersions(data.versions || []);
+      setEvalReport(null);
+      setDraft(
+        toDraft(
+          data.policy,
+          lounges.find((lounge) => lounge.id === id)
+        )
+      );
+    } catch (error) {
+      console.error('Error loading relevancy policy:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to load relevancy policy'
+      );
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const submit = async (
+    path: string,
+    body: Record<string, unknown>,
+    message: string
+  ) => {
+    setSaving(true);
+    try {
+      const response = await fetch(path, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lounge_id: loungeId, ...body }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save relevancy policy');
+      }
+
+      toast.success(message);
+      await Promise.all([loadLounges(), loadPolicy(loungeId)]);
+    } catch (error) {
+      console.error('Error saving relevancy policy:', error);
+      toast.error(
+        error instanceof Error
+          ? error.message
+          : 'Failed to save relevancy policy'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const draftPolicy = () => ({
+    keep_criteria: toLines(draft.keep),
+    borderline_criteria: toLines(draft.borderline),
+    filter_criteria: toLines(draft.filter),
+    examples: draft.examples
+      .filter((example) => example.content.trim())
+      .map((example) => ({
+        ...example,
+        reason: example.reason?.trim() || undefined,
+      })),
+    focus: draft.focus.trim() || null,
+    threshold: Number(draft.threshold),
+  });
+
+  const handlePublish = () =>
+    submit(
+      '/api/admin/relevancy-policies',
+      { ...draftPolicy(), change_note: draft.changeNote.trim() || null },
+      'New policy version published'
+    );
+
+  // Compare the draft with the live version on labeled content
+  const handleEvaluate = async () => {
+    setSaving(true);
+    setEvalReport(null);
+    try {
+      const response = await fetch('/api/admin/relevancy-eval', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ lounge_id: loungeId, policy: draftPolicy() }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to evaluate policy');
+      }
+
+      setEvalReport(data);
+    } catch (error) {
+      console.error('Error evaluating relevancy policy:', error);
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to evaluate policy'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRollback = (version: number) =>
+    submit(
+      '/api/admin/relevancy-policies/rollback',
+      { version },
+      `Rolled back to version ${version}`
+    );
+
+  const updateExample = (
+    index: number,
+    changes: Partial<RelevancyPolicyExample>
+  ) =>
+    setDraft({
+      ...draft,
+      examples: draft.examples.map((example, i) =>
+        i === index ? { ...example, ...changes } : example
+      ),
+    });
+
+  const criteriaFields: Array<{
+    key: 'keep' | 'borderline' | 'filter';
+    label: string;
+    hint: string;
+  }> = [
+    { key: 'keep', label: 'Keep', hint: 'Scores at or above the threshold' },
+    {
+      key: 'borderline',
+      label: 'Borderline',
+      hint: 'Up to 20 points below the threshold; leave empty for none',
+    },
+    { key: 'filter', label: 'Filter out', hint: 'Scores below the threshold' },
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <ListChecks className="h-5 w-5" />
+            Relevancy Policies
+          </CardTitle>
+          <CardDescription>
+            What each lounge keeps and filters. Approved suggestions are added
+            on top of the live version.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={loungeId} onValueChange={setLoungeId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="Choose a lounge" />
+            </SelectTrigger>
+            <SelectContent>
+              {lounges.map((lounge) => (
+                <SelectItem key={lounge.id} value={lounge.id}>
+                  {lounge.name}
+                  {lounge.active_version === null && ' (no policy)'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => loungeId && loadPolicy(loungeId)}
+            disabled={loading || !loungeId}
+          >
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!loungeId ? (
+          <div className="py-8 text-center text-sm text-muted-foreground">
+            {loading ? 'Loading lounges...' : 'No system lounges'}
+          </div>
+        ) : (
+          <Tabs defaultValue="edit">
+            <TabsList>
+              <TabsTrigger value="edit">Edit</TabsTrigger>
+              <TabsTrigger value="history">
+                History ({versions.length})
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="edit" className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-[120px_1fr]">
+                <div className="space-y-2">
+                  <Label htmlFor="policy-threshold">Threshold</Label>
+                  <Input
+                    id="policy-threshold"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={draft.threshold}
+                    onChange={(e) =>
+                      setDraft({ ...draft, threshold: e.target.value })
+                    }
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="policy-focus">Focus</Label>
+                  <Input
+                    id="policy-focus"
+                    placeholder="Stay strictly on theme"
+                    value={draft.focus}
+                    onChange={(e) =>
+                      setDraft({ ...draft, focus: e.target.value })
+                    }
+                  />
+                </div>
+              </div>
+
+              {criteriaFields.map(({ key, label, hint }) => (
+                <div key={key} className="space-y-2">
+                  <Label htmlFor={`policy-${key}`}>{label}</Label>
+                  <Textarea
+                    id={`policy-${key}`}
+                    rows={5}
+                    placeholder="One criterion per line"
+                    value={draft[key]}
+                    onChange={(e) =>
+                      setDraft({ ...draft, [key]: e.target.value })
+                    }
+                  />
+                  <p className="text-xs text-muted-foreground">{hint}</p>
+                </div>
+              ))}
+
+              <div className="space-y-2">
+                <Label>Examples</Label>
+                {draft.examples.map((example, index) => (
+                  <div key={index} className="flex items-start gap-2">
+                    <Select
+                      value={example.verdict}
+                      onValueChange={(verdict) =>
+                        updateExample(index, {
+                          verdict: verdict as RelevancyPolicyExample['verdict'],
+                        })
+                      }
+                    >
+                      <SelectTrigger className="w-[110px]">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="keep">Keep</SelectItem>
+                        <SelectItem value="filter">Filter</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      placeholder="Post text"
+                      value={example.content}
+                      onChange={(e) =>
+                        updateExample(index, { content: e.target.value })
+                      }
+                    />
+                    <Input
+                      className="w-1/3"
+                      placeholder="Why (optional)"
+                      value={example.reason || ''}
+                      onChange={(e) =>
+                        updateExample(index, { reason: e.target.value })
+                      }
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() =>
+                        setDraft({
+                          ...draft,
+                          examples: draft.examples.filter(
+                            (_, i) => i !== index
+                          ),
+                        })
+                      }
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() =>
+                    setDraft({
+                      ...draft,
+                      examples: [
+                        ...draft.examples,
+                        { content: '', verdict: 'keep' },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add example
+                </Button>
+              </div>
+
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="policy-note">Change note</Label>
+                  <Input
+                    id="policy-note"
+                    placeholder="What changed and why"
+                    value={draft.changeNote}
+                    onChange={(e) =>
+                      setDraft({ ...draft, changeNote: e.target.value })
+                    }
+                  />
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={handleEvaluate}
+                  disabled={saving || loading}
+                >
+                  <FlaskConical className="mr-1 h-4 w-4" />
+                  Evaluate
+                </Button>
+                <Button onClick={handlePublish} disabled={saving || loading}>
+                  Publish new version
+                </Button>
+              </div>
+
+              {evalReport && <RelevancyEvalReportView report={evalReport} />}
+            </TabsContent>
+
+            <TabsContent value="history">
+              {versions.length === 0 ? (
+                <div className="py-8 text-center text-sm text-muted-foreground">
+                  This lounge has no policy yet. Publishing one creates version
+                  1.
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Version</TableHead>
+                      <TableHead>Published</TableHead>
+                      <TableHead className="text-right">Threshold</TableHead>
+                      <TableHead className="text-right">Criteria</TableHead>
+                      <TableHead>Note</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {versions.map((version) => (
+                      <TableRow key={version.id}>
+                        <TableCell>v{version.version}</TableCell>
+                        <TableCell>
+                          {format(new Date(version.created_at), 'PP p')}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {version.threshold}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {version.keep_criteria.length} /{' '}
+                          {version.borderline_criteria.length} /{' '}
+                          {version.filter_criteria.length}
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {version.change_note}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {version.is_active ? (
+                            <Badge>Live</Badge>
+                          ) : (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleRollback(version.version)}
+                              disabled={saving}
+                            >
+                              <RotateCcw className="mr-1 h-4 w-4" />
+                              Roll back
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
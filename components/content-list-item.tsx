@@ -12,17 +12,11 @@ import {
   TooltipProvider,
 } from '@/components/ui/tooltip';
 import { Icons } from '@/components/icons';
+import { getPlatformIcon } from '@/components/platform-icons';
 import { AISummaryCompact } from '@/components/ui/ai-summary';
 import { ReferencedContentDisplay } from '@/components/referenced-content';
 import { VideoThumbnail } from '@/components/video-thumbnail';
-import {
-  Bookmark,
-  ExternalLink,
-  Trash2,
-  Youtube,
-  Linkedin,
-  Rss,
-} from 'lucide-react';
+import { Bookmark, ExternalLink, Trash2 } from 'lucide-react';
 import type { Creator } from '@/types/creator';
 import type { ReferenceType, ReferencedContent } from '@/types/content';
 
@@ -133,22 +127,6 @@ export const ContentListItem = React.memo(function ContentListItem({
     return item.title;
   };
 
-  const getPlatformIcon = (platformName: string) => {
-    switch (platformName?.toLowerCase()) {
-      case 'youtube':
-        return Youtube;
-      case 'x':
-      case 'twitter':
-        return Icons.x;
-      case 'linkedin':
-        return Linkedin;
-      case 'threads':
-        return Icons.threads;
-      default:
-        return Rss;
-    }
-  };
-
   const PlatformIcon = getPlatformIcon(item.platform);
 
   if (!creator) return null;
@@ -4,7 +4,7 @@ import React, { useState, KeyboardEvent, useEffect } from 'react';
 import { z } from 'zod';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { PlatformDetector } from '@/lib/platform-detector';
+import { Platform, PlatformDetector } from '@/lib/platform-detector';
 import { useAuth } from '@/hooks/use-auth';
 import { createBrowserSupabaseClient } from '@/lib/supabase';
 import type { Creator } from '@/types/creator';
@@ -30,32 +30,13 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/components/ui/use-toast';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import {
-  Youtube,
-  Linkedin,
-  Rss,
-  Globe,
-  Loader2,
-  AlertCircle,
-  X,
-  Newspaper,
-  Users,
-} from 'lucide-react';
-import { Icons } from '@/components/icons';
+import { Switch } from '@/components/ui/switch';
+import { Globe, Loader2, AlertCircle, X, Newspaper, Users } from 'lucide-react';
+import { getPlatformIcon } from '@/components/platform-icons';
 import { cn } from '@/lib/utils';
 import { LoungeSelector } from '@/components/lounges/lounge-selector';
 import { CreatorAvatarUpload } from '@/components/creators/creator-avatar-upload';
 
-// Platform icons mapping
-const platformIcons = {
-  youtube: Youtube,
-  twitter: Icons.x,
-  linkedin: Linkedin,
-  threads: Icons.threads,
-  rss: Rss,
-  unknown: Globe,
-};
-
 // Form schema
 const createCreatorSchema = z.object({
   display_name: z.string().min(1, 'Display name is required').max(100),
@@ -63,20 +44,14 @@ const createCreatorSchema = z.object({
   urls: z.array(
     z.object({
       url: z.string().url(),
-      platform: z.enum([
-        'youtube',
-        'twitter',
-        'linkedin',
-        'threads',
-        'rss',
-        'unknown',
-      ]),
+      platform: z.nativeEnum(Platform),
     })
   ),
   topics: z.array(z.string()).optional(),
   lounge_id: z.string().optional(), // Add lounge_id to form schema
   avatar_url: z.string().optional(),
   content_type: z.enum(['social', 'news']).default('social'),
+  always_poll_hourly: z.boolean().default(false),
 });
 
 type CreateCreatorFormData = z.infer<typeof createCreatorSchema>;
@@ -117,6 +92,7 @@ export function AddCreatorModal({
       urls: [],
       topics: [],
       content_type: 'social',
+      always_poll_hourly: false,
     },
   });
 
@@ -131,6 +107,7 @@ export function AddCreatorModal({
         lounge_id: undefined, // Not needed for edit mode
         avatar_url: creator.avatar_url || '',
         content_type: (creator as any).content_type || 'social',
+        always_poll_hourly: creator.always_poll_hourly || false,
       });
       setAvatarUrl(creator.avatar_url || '');
       setDeletedUrlIds([]); // Reset deleted URLs tracking
@@ -145,6 +122,7 @@ export function AddCreatorModal({
         lounge_id: selectedLoungeId || undefined,
         avatar_url: '',
         content_type: 'social',
+        always_poll_hourly: false,
       });
       setAvatarUrl('');
       setDeletedUrlIds([]);
@@ -155,7 +133,8 @@ export function AddCreatorModal({
 
   const addUrl = () => {
     setUrlError(null);
-    let trimmedUrl = urlInput.trim();
+    // Fediverse handles (@user@instance) become profile URLs
+    let trimmedUrl = PlatformDetector.normalizeHandle(urlInput);
 
     if (!trimmedUrl) {
       setUrlError('Please enter a URL');
@@ -223,13 +202,7 @@ export function AddCreatorModal({
         ...urls,
         {
           url: trimmedUrl,
-          platform: platformInfo.platform as
-            | 'youtube'
-            | 'twitter'
-            | 'linkedin'
-            | 'threads'
-            | 'rss'
-            | 'unknown',
+          platform: platformInfo.platform,
         },
       ];
 
@@ -237,14 +210,9 @@ export function AddCreatorModal({
         newUrls,
         currentUrls: urls,
         platformDetected: platformInfo.platform,
-        isValidPlatform: [
-          'youtube',
-          'twitter',
-          'linkedin',
-          'threads',
-          'rss',
-          'unknown',
-        ].includes(platformInfo.platform),
+        isValidPlatform: Object.values(Platform).includes(
+          platformInfo.platform
+        ),
       });
 
       form.setValue('urls', newUrls, {
@@ -422,6 +390,7 @@ export function AddCreatorModal({
           lounge_id: loungeId,
           avatar_url: avatarUrl || undefined,
           content_type: data.content_type,
+          always_poll_hourly: data.always_poll_hourly,
         };
         console.log('Sending request to /api/creators:', requestBody);
 
@@ -460,6 +429,7 @@ export function AddCreatorModal({
             bio: data.description || null,
             avatar_url: avatarUrl || null,
             content_type: data.content_type,
+            always_poll_hourly: data.always_poll_hourly,
           })
           .eq('id', creator?.id);
 
@@ -675,6 +645,29 @@ export function AddCreatorModal({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="always_poll_hourly"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Always poll hourly</FormLabel>
+                    <FormDescription>
+                      Skip the adaptive schedule and check this creator every
+                      hour
+                    </FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      disabled={isSubmitting}
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <FormItem>
               <FormLabel>Avatar</FormLabel>
               <FormControl>
@@ -731,10 +724,7 @@ export function AddCreatorModal({
                   {urls.length > 0 && (
                     <div className="flex flex-wrap gap-2 pt-2">
                       {urls.map((urlItem, index) => {
-                        const Icon =
-                          platformIcons[
-                            urlItem.platform as keyof typeof platformIcons
-                          ] || platformIcons.unknown;
+                        const Icon = getPlatformIcon(urlItem.platform, Globe);
                         return (
                           <Badge
                             key={index}
@@ -812,10 +802,7 @@ export function AddCreatorModal({
                       {creator?.creator_urls
                         ?.filter((url) => !deletedUrlIds.includes(url.id))
                         .map((urlItem) => {
-                          const Icon =
-                            platformIcons[
-                              urlItem.platform as keyof typeof platformIcons
-                            ] || platformIcons.unknown;
+                          const Icon = getPlatformIcon(urlItem.platform, Globe);
 
                           // Check if only one URL remains
                           const isLastUrl =
@@ -907,10 +894,7 @@ export function AddCreatorModal({
                         })}
                       {/* New URLs to be added */}
                       {urls.map((urlItem, index) => {
-                        const Icon =
-                          platformIcons[
-                            urlItem.platform as keyof typeof platformIcons
-                          ] || platformIcons.unknown;
+                        const Icon = getPlatformIcon(urlItem.platform, Globe);
                         return (
                           <Badge
                             key={`new-${index}`}
@@ -6,9 +6,10 @@ import { useCreators } from '@/hooks/use-creators';
 import { useAuth } from '@/hooks/use-auth';
 import { createBrowserSupabaseClient } from '@/lib/supabase';
 import { useToast } from '@/components/ui/use-toast';
-import type {
-  Creator,
-  CreatorFilters as CreatorFiltersType,
+import {
+  isFeedStale,
+  type Creator,
+  type CreatorFilters as CreatorFiltersType,
 } from '@/types/creator';
 import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
@@ -40,9 +41,12 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
-  Youtube,
-  Linkedin,
-  Rss,
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+  TooltipProvider,
+} from '@/components/ui/tooltip';
+import {
   AtSign,
   Filter,
   Search,
@@ -53,22 +57,13 @@ import {
   Plus,
   Globe,
   Edit,
+  AlertTriangle,
 } from 'lucide-react';
-import { Icons } from '@/components/icons';
+import { getPlatformIcon } from '@/components/platform-icons';
+import { PLATFORM_DEFINITIONS } from '@/lib/content-sources/platforms';
 import { cn } from '@/lib/utils';
 import { AddCreatorModal } from './add-creator-modal';
 
-// Platform icons mapping
-const platformIcons = {
-  youtube: Youtube,
-  twitter: Icons.x,
-  x: Icons.x,
-  linkedin: Linkedin,
-  threads: Icons.threads,
-  rss: Rss,
-  website: Globe,
-};
-
 // Get platform display name
 const getPlatformDisplayName = (platform: string) => {
   if (platform?.toLowerCase() === 'twitter') return 'X';
@@ -76,6 +71,45 @@ const getPlatformDisplayName = (platform: string) => {
   return platform?.charAt(0).toUpperCase() + platform?.slice(1) || 'Website';
 };
 
+// Badge listing feeds that are failing or haven't been fetched recently
+function StaleFeedBadge({ creator }: { creator: Creator }) {
+  const staleUrls = (creator.urls || creator.creator_urls || []).filter(
+    (url) => url.platform === 'rss' && isFeedStale(url)
+  );
+
+  if (staleUrls.length === 0) return null;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Badge
+            variant="outline"
+            className="text-xs gap-1 border-amber-500 text-amber-600"
+            data-testid="stale-feed-badge"
+          >
+            <AlertTriangle className="h-3 w-3" />
+            Stale feed
+          </Badge>
+        </TooltipTrigger>
+        <TooltipContent>
+          {staleUrls.map((url) => (
+            <p key={url.id} className="max-w-xs truncate">
+              {url.url}
+              {url.validation_status === 'invalid'
+                ? ' (dead)'
+                : url.last_success_at
+                  ? ` (last fetched ${new Date(url.last_success_at).toLocaleDateString()})`
+                  : ''}
+              {url.last_error && ` - ${url.last_error}`}
+            </p>
+          ))}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
 // Search component with debouncing - Memoized to prevent re-renders
 const CreatorSearch = memo(function CreatorSearch({
   value,
@@ -150,13 +184,13 @@ function CreatorFilters({
   onFiltersChange: (filters: Partial<CreatorFiltersType>) => void;
   onClearFilters: () => void;
 }) {
-  const platforms = [
-    { value: 'youtube', label: 'YouTube' },
-    { value: 'twitter', label: 'X' },
-    { value: 'linkedin', label: 'LinkedIn' },
-    { value: 'threads', label: 'Threads' },
-    { value: 'rss', label: 'RSS' },
-  ];
+  // Platforms creators can be added on
+  const platforms = PLATFORM_DEFINITIONS.filter(
+    (definition) => definition.detection
+  ).map((definition) => ({
+    value: definition.platform,
+    label: definition.label,
+  }));
 
   // Use dynamic lounges from the database
   const { lounges: dynamicLounges, loading: loungesLoading } = useLounges();
@@ -348,10 +382,7 @@ function CreatorTable({
         </TableHeader>
         <TableBody>
           {creators.map((creator) => {
-            const Icon =
-              creator.platform && creator.platform in platformIcons
-                ? platformIcons[creator.platform as keyof typeof platformIcons]
-                : platformIcons.website;
+            const Icon = getPlatformIcon(creator.platform, Globe);
             return (
               <TableRow key={creator.id}>
                 <TableCell>
@@ -424,6 +455,7 @@ function CreatorTable({
                     <span className="text-sm">
                       {creator.is_active ? 'Active' : 'Inactive'}
                     </span>
+                    <StaleFeedBadge creator={creator} />
                   </div>
                 </TableCell>
                 <TableCell>
@@ -481,10 +513,7 @@ function CreatorCards({
   return (
     <div className="grid gap-4" data-testid="creators-cards">
       {creators.map((creator) => {
-        const Icon =
-          creator.platform && creator.platform in platformIcons
-            ? platformIcons[creator.platform as keyof typeof platformIcons]
-            : platformIcons.website;
+        const Icon = getPlatformIcon(creator.platform, Globe);
         return (
           <Card key={creator.id} className="p-4">
             <div className="flex items-start gap-3">
@@ -515,6 +544,7 @@ function CreatorCards({
                       )}
                     />
                   </div>
+                  <StaleFeedBadge creator={creator} />
                 </div>
                 {creator.bio && (
                   <p className="text-sm text-muted-foreground mb-2 line-clamp-2">
@@ -11,7 +11,12 @@ import { useDigestSubscription } from '@/hooks/use-digest-subscription';
 import { useFeedSubscription } from '@/hooks/use-feed-subscription';
 import type { Creator, Platform } from '@/types/creator';
 import type { Lounge } from '@/types/lounge';
-import type { MediaUrl } from '@/types/content';
+import type {
+  KeyMoment,
+  MediaUrl,
+  SharedByCreator,
+  ThreadPost,
+} from '@/types/content';
 import { toast } from 'sonner';
 import {
   Sidebar,
@@ -82,6 +87,7 @@ import { Switch } from '@/components/ui/switch';
 import { Checkbox } from '@/components/ui/checkbox';
 import { DatePickerWithRange } from '@/components/date-picker-with-range';
 import { Icons } from '@/components/icons';
+import { getPlatformIcon } from '@/components/platform-icons';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
 import {
   Search,
@@ -96,12 +102,11 @@ import {
   Bell,
   Filter,
   MoreHorizontal,
-  Youtube,
-  Linkedin,
   Loader2,
   UserCog,
   X as XIcon,
   Mail,
+  Users,
 } from 'lucide-react';
 import { AddCreatorModal } from '@/components/creators/add-creator-modal';
 import { BackToTop } from '@/components/back-to-top';
@@ -116,29 +121,14 @@ import { ContentLinkPreviews } from '@/components/content-link-previews';
 import type { ReferenceType, ReferencedContent } from '@/types/content';
 import { useSearchSuggestions } from '@/hooks/use-search-suggestions';
 import { SearchSuggestions } from '@/components/search-suggestions';
+import { SearchSnippet } from '@/components/search-snippet';
+import { ThreadPosts } from '@/components/thread-posts';
+import { KeyMoments } from '@/components/key-moments';
+import { FeedLinksMenu } from '@/components/feed-links-menu';
 import { LinkedInContentDisplay } from '@/components/ui/linkedin-content-display';
 import { NewsWidget } from '@/components/news/news-widget';
 import { MobileNewsSection } from '@/components/news/mobile-news-section';
 
-// --- PLATFORM ICONS ---
-
-const getPlatformIcon = (platform: string) => {
-  switch (platform) {
-    case 'youtube':
-      return Youtube;
-    case 'twitter':
-      return Icons.x;
-    case 'linkedin':
-      return Linkedin;
-    case 'threads':
-      return Icons.threads;
-    case 'rss':
-      return Rss;
-    default:
-      return Rss;
-  }
-};
-
 // Mock topics array removed - now using real lounges from useLounges hook
 
 // Static creators array removed - now fetched from database in DailyNewsDashboard component
@@ -178,6 +168,10 @@ interface FeedItem {
   content_hash?: string; // Only present for curators/admins
   duplicate_group_id?: string; // Only present for curators/admins
   is_primary?: boolean; // Only present for curators/admins
+  also_shared_by?: SharedByCreator[]; // Other creators in the duplicate group
+  search_snippet?: string; // Highlighted match when searching
+  thread_posts?: ThreadPost[]; // The rest of a self-reply thread
+  key_moments?: KeyMoment[]; // Timestamped highlights from a video transcript
   relevancy_score?: number;
   relevancy_checked_at?: string;
   relevancy_reason?: string;
@@ -304,6 +298,23 @@ function AppSidebar({
         {/* Extra spacing above Lounges for non-curator users */}
         {!canManageCreators && <div className="h-3"></div>}
 
+        {/* Saved Items */}
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              <SidebarMenuItem>
+                <SidebarMenuButton asChild tooltip="Saved Items">
+                  <Link href="/saved">
+                    <Bookmark className="w-4 h-4" />
+                    <span className="truncate">Saved Items</span>
+                  </Link>
+                </SidebarMenuButton>
+              </SidebarMenuItem>
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarSeparator />
+
         {/* Topics Section */}
         <SidebarGroup>
           <Collapsible defaultOpen>
@@ -558,6 +569,11 @@ function Header({
     setShowSuggestions(false);
   };
 
+  // Operator completions fill in the query without running the search
+  const handleOperatorClick = (query: string) => {
+    setLocalSearchQuery(query);
+  };
+
   // Sync local search with parent when parent changes (e.g., clear filters)
   React.useEffect(() => {
     setLocalSearchQuery(searchQuery);
@@ -566,15 +582,23 @@ function Header({
   // Reset selected index when suggestions change
   React.useEffect(() => {
     setSelectedSuggestionIndex(-1);
-  }, [suggestions.creators, suggestions.content, localSearchQuery]);
+  }, [
+    suggestions.operators,
+    suggestions.creators,
+    suggestions.content,
+    localSearchQuery,
+  ]);
 
   // Calculate total suggestions count for keyboard navigation
   const getTotalSuggestions = () => {
     const searchItem = localSearchQuery ? 1 : 0;
     const recentCount = !localSearchQuery ? recentSearches.length : 0;
+    const operatorsCount = suggestions.operators.length;
     const creatorsCount = suggestions.creators.length;
     const contentCount = suggestions.content.length;
-    return searchItem + recentCount + creatorsCount + contentCount;
+    return (
+      searchItem + recentCount + operatorsCount + creatorsCount + contentCount
+    );
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -618,6 +642,15 @@ function Header({
         }
       }
 
+      // Operator completions
+      for (const operator of suggestions.operators) {
+        if (currentIndex === selectedSuggestionIndex) {
+          handleOperatorClick(operator.query);
+          return;
+        }
+        currentIndex++;
+      }
+
       // Creators
       for (const creator of suggestions.creators) {
         if (currentIndex === selectedSuggestionIndex) {
@@ -682,12 +715,14 @@ function Header({
           </div>
           {showSuggestions && (
             <SearchSuggestions
+              operators={suggestions.operators}
               creators={suggestions.creators}
               content={suggestions.content}
               isLoading={suggestions.isLoading}
               searchQuery={localSearchQuery}
               recentSearches={recentSearches}
               onSuggestionClick={handleSuggestionClick}
+              onOperatorClick={handleOperatorClick}
               onClearRecentSearches={() => {
                 setRecentSearches([]);
                 localStorage.removeItem('recentSearches');
@@ -841,22 +876,6 @@ export const ContentCard = React.memo(function ContentCard({
     console.log('Hiten Shah tweet deletion_reason:', item.deletion_reason);
   }
 
-  const getPlatformIcon = (platform: string) => {
-    switch (platform?.toLowerCase()) {
-      case 'youtube':
-        return Youtube;
-      case 'x':
-      case 'twitter':
-        return Icons.x;
-      case 'linkedin':
-        return Linkedin;
-      case 'threads':
-        return Icons.threads;
-      default:
-        return Rss;
-    }
-  };
-
   const getPlatformDisplayName = (platform: string) => {
     if (platform?.toLowerCase() === 'twitter') return 'X';
     if (platform?.toLowerCase() === 'x') return 'X';
@@ -1121,11 +1140,44 @@ export const ContentCard = React.memo(function ContentCard({
               </TooltipProvider>
             </div>
           </div>
+          {item.also_shared_by && item.also_shared_by.length > 0 && (
+            <TooltipProvider>
+              <Tooltip>
+                <TooltipTrigger asChild>
+                  <p className="inline-flex items-center gap-1.5 mb-2 text-xs text-gray-500 dark:text-gray-400 cursor-default">
+                    <Users className="h-3.5 w-3.5" />
+                    Also shared by {item.also_shared_by.length}{' '}
+                    {item.also_shared_by.length === 1 ? 'creator' : 'creators'}
+                  </p>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <ul className="space-y-1">
+                    {item.also_shared_by.map((shared) => (
+                      <li key={shared.content_id}>
+                        <a
+                          href={shared.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="hover:underline"
+                        >
+                          {shared.name} &middot;{' '}
+                          {getPlatformDisplayName(shared.platform)}
+                        </a>
+                      </li>
+                    ))}
+                  </ul>
+                </TooltipContent>
+              </Tooltip>
+            </TooltipProvider>
+          )}
           <h3 className="font-bold text-lg mb-1 text-gray-900 dark:text-white">
             {item.platform === 'linkedin'
               ? getLinkedInTitle(item, creator)
               : item.title}
           </h3>
+          {item.search_snippet && (
+            <SearchSnippet snippet={item.search_snippet} className="mb-3" />
+          )}
           {/* Use LinkedIn content display for LinkedIn, AI summaries for others */}
           {item.platform === 'linkedin' ? (
             <LinkedInContentDisplay
@@ -1158,6 +1210,13 @@ export const ContentCard = React.memo(function ContentCard({
               lazyLoad={true}
             />
           )}
+          {item.platform === 'youtube' && item.key_moments && (
+            <KeyMoments
+              moments={item.key_moments}
+              videoUrl={item.url}
+              className="mb-4"
+            />
+          )}
 
           {/* Display X/Twitter video embed */}
           {item.platform === 'twitter' &&
@@ -1224,10 +1283,10 @@ export const ContentCard = React.memo(function ContentCard({
               return null;
             })()}
 
-          {/* Display images for Twitter, LinkedIn, Threads, and RSS posts */}
+          {/* Display images for posts; YouTube's video is shown above */}
           {item.media_urls &&
             item.media_urls.length > 0 &&
-            ['twitter', 'linkedin', 'threads', 'rss'].includes(item.platform) &&
+            item.platform !== 'youtube' &&
             (() => {
               // For LinkedIn, skip this section if there's a video (handled above)
               if (
@@ -1621,6 +1680,10 @@ export const ContentCard = React.memo(function ContentCard({
             />
           )}
 
+          {item.thread_posts && item.thread_posts.length > 0 && (
+            <ThreadPosts posts={item.thread_posts} className="mb-4" />
+          )}
+
           <div className="flex flex-wrap gap-2 mb-4">
             {(item.topics || []).map((topic) => {
               return (
@@ -1998,8 +2061,10 @@ export function DailyNewsDashboard() {
   // Digest subscription state
   const {
     subscribed: digestSubscribed,
+    weeklySubscribed: weeklyDigestSubscribed,
     loading: digestLoading,
     toggleSubscription: toggleDigestSubscription,
+    toggleWeeklySubscription: toggleWeeklyDigestSubscription,
   } = useDigestSubscription(selectedLoungeId);
 
   // Feed subscription state
@@ -2044,7 +2109,7 @@ export function DailyNewsDashboard() {
     platforms:
       selectedPlatforms.length > 0 ? (selectedPlatforms as any) : undefined,
     search: debouncedSearchQuery || undefined,
-    sort_by: 'published_at',
+    sort_by: debouncedSearchQuery ? 'relevance' : 'published_at',
     sort_order: 'desc',
   });
 
@@ -2382,18 +2447,54 @@ export function DailyNewsDashboard() {
                                 {feedSubscribed ? 'In Feed' : 'Hidden'}
                               </span>
                             </Button>
-                            <Button
-                              variant={digestSubscribed ? 'default' : 'outline'}
-                              size="sm"
-                              onClick={toggleDigestSubscription}
-                              disabled={digestLoading}
-                              className="gap-2"
-                            >
-                              <Mail className="h-4 w-4" />
-                              <span className="hidden sm:inline">
-                                {digestSubscribed ? 'Email On' : 'Email Off'}
-                              </span>
-                            </Button>
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button
+                                  variant={
+                                    digestSubscribed || weeklyDigestSubscribed
+                                      ? 'default'
+                                      : 'outline'
+                                  }
+                                  size="sm"
+                                  disabled={digestLoading}
+                                  className="gap-2"
+                                >
+                                  <Mail className="h-4 w-4" />
+                                  <span className="hidden sm:inline">
+                                    {digestSubscribed || weeklyDigestSubscribed
+                                      ? 'Email On'
+                                      : 'Email Off'}
+                                  </span>
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuLabel>
+                                  Email digests
+                                </DropdownMenuLabel>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuCheckboxItem
+                                  checked={digestSubscribed}
+                                  onCheckedChange={toggleDigestSubscription}
+                                >
+                                  Daily digest
+                                </DropdownMenuCheckboxItem>
+                                <DropdownMenuCheckboxItem
+                                  checked={weeklyDigestSubscribed}
+                                  onCheckedChange={
+                                    toggleWeeklyDigestSubscription
+                                  }
+                                >
+                                  Weekly best of
+                                </DropdownMenuCheckboxItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem asChild>
+                                  <Link href={`/digests/${selectedLoungeId}`}>
+                                    Past digests
+                                  </Link>
+                                </DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                            <FeedLinksMenu loungeId={selectedLoungeId} />
                           </>
                         )}
 
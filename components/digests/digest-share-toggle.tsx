@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { toast } from 'sonner';
+
+interface DigestShareToggleProps {
+  editionId: string;
+  isPublic: boolean;
+}
+
+export function DigestShareToggle({
+  editionId,
+  isPublic: initialIsPublic,
+}: DigestShareToggleProps) {
+  const [isPublic, setIsPublic] = useState(initialIsPublic);
+  const [saving, setSaving] = useState(false);
+
+  const toggle = async (checked: boolean) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/digests/${editionId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ is_public: checked }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to update sharing');
+      }
+
+      setIsPublic(checked);
+      toast.success(checked ? 'Digest is now public' : 'Digest is now private');
+    } catch (error) {
+      toast.error(
+        error instanceof Error ? error.message : 'Failed to update sharing'
+      );
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Switch checked={isPublic} onCheckedChange={toggle} disabled={saving} />
+      Public
+    </label>
+  );
+}
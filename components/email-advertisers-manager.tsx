@@ -8,144 +8,165 @@ import {
   CardHeader,
   CardTitle,
 } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { createBrowserClient } from '@supabase/ssr';
 import { toast } from 'sonner';
-import { Loader2, Save, Upload, X } from 'lucide-react';
-
-interface EmailAdvertiser {
-  id?: string;
-  position: number;
-  company_name: string;
-  logo_url: string;
-  link_url: string;
-  tagline: string;
-  is_active: boolean;
+import {
+  BarChart3,
+  Download,
+  Loader2,
+  Plus,
+  Save,
+  Upload,
+  X,
+} from 'lucide-react';
+import type { AdCampaign, AdCampaignReport } from '@/types/advertiser';
+
+// Unsaved campaigns have no id yet
+type CampaignDraft = Omit<AdCampaign, 'id'> & { id?: string; key: string };
+
+interface LoungeOption {
+  id: string;
+  name: string;
+}
+
+const newDraft = (position: number): CampaignDraft => ({
+  key: `new-${Date.now()}`,
+  position,
+  company_name: '',
+  logo_url: '',
+  link_url: '',
+  tagline: '',
+  is_active: false,
+  starts_at: null,
+  ends_at: null,
+  lounge_ids: [],
+  weight: 1,
+  frequency_cap: null,
+  frequency_cap_days: 7,
+});
+
+// <input type="date"> values are UTC days; flights start and end at midnight UTC
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : '');
+const fromDateInput = (value: string) =>
+  value ? new Date(`${value}T00:00:00Z`).toISOString() : null;
+
+function flightStatus(campaign: CampaignDraft): string {
+  const now = new Date();
+  if (!campaign.is_active) return 'Paused';
+  if (campaign.starts_at && new Date(campaign.starts_at) > now) {
+    return 'Scheduled';
+  }
+  if (campaign.ends_at && new Date(campaign.ends_at) <= now) return 'Ended';
+  return 'Live';
 }
 
 export function EmailAdvertisersManager() {
-  const [advertisers, setAdvertisers] = useState<{
-    [key: number]: EmailAdvertiser;
-  }>({
-    1: {
-      position: 1,
-      company_name: '',
-      logo_url: '',
-      link_url: '',
-      tagline: '',
-      is_active: false,
-    },
-    2: {
-      position: 2,
-      company_name: '',
-      logo_url: '',
-      link_url: '',
-      tagline: '',
-      is_active: false,
-    },
-  });
+  const [campaigns, setCampaigns] = useState<CampaignDraft[]>([]);
+  const [lounges, setLounges] = useState<LoungeOption[]>([]);
+  const [reports, setReports] = useState<Record<string, AdCampaignReport>>({});
   const [loading, setLoading] = useState(true);
-  const [saving, setSaving] = useState<number | null>(null);
-  const [uploading, setUploading] = useState<number | null>(null);
-  const fileInputRefs = useRef<{ [key: number]: HTMLInputElement | null }>({});
+  const [saving, setSaving] = useState<string | null>(null);
+  const [uploading, setUploading] = useState<string | null>(null);
+  const fileInputRefs = useRef<{ [key: string]: HTMLInputElement | null }>({});
 
   useEffect(() => {
-    const fetchAdvertisers = async () => {
-      console.log('Fetching advertisers...');
+    const fetchData = async () => {
       setLoading(true);
 
       try {
-        // Use fetch API directly to bypass potential Supabase client issues
-        const response = await fetch('/api/email-advertisers');
+        const [campaignsResponse, loungesResponse] = await Promise.all([
+          fetch('/api/email-advertisers'),
+          fetch('/api/lounges'),
+        ]);
 
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
+        if (!campaignsResponse.ok) {
+          throw new Error(`HTTP error! status: ${campaignsResponse.status}`);
         }
 
-        const data = await response.json();
-        console.log('Fetched advertisers:', data);
-
-        const advertiserMap: { [key: number]: EmailAdvertiser } = {
-          1: {
-            position: 1,
-            company_name: '',
-            logo_url: '',
-            link_url: '',
-            tagline: '',
-            is_active: false,
-          },
-          2: {
-            position: 2,
-            company_name: '',
-            logo_url: '',
-            link_url: '',
-            tagline: '',
-            is_active: false,
-          },
-        };
-
-        if (data && data.length > 0) {
-          data.forEach((ad: EmailAdvertiser) => {
-            advertiserMap[ad.position] = ad;
-          });
-        }
+        const data: AdCampaign[] = await campaignsResponse.json();
+        setCampaigns(
+          data.map((campaign) => ({ ...campaign, key: campaign.id }))
+        );
 
-        setAdvertisers(advertiserMap);
+        if (loungesResponse.ok) {
+          const result = await loungesResponse.json();
+          setLounges(result.data?.lounges || []);
+        }
       } catch (error) {
         console.error('Error fetching advertisers:', error);
-        // Don't show error toast, just use empty form
+        toast.error('Failed to load advertiser campaigns');
       } finally {
         setLoading(false);
       }
     };
 
-    fetchAdvertisers();
+    fetchData();
   }, []);
 
-  const saveAdvertiser = async (position: number) => {
-    setSaving(position);
-    const advertiser = advertisers[position];
+  const updateCampaign = <K extends keyof CampaignDraft>(
+    key: string,
+    field: K,
+    value: CampaignDraft[K]
+  ) => {
+    setCampaigns((prev) =>
+      prev.map((campaign) =>
+        campaign.key === key ? { ...campaign, [field]: value } : campaign
+      )
+    );
+  };
 
-    if (!advertiser) {
-      toast.error('No advertiser data to save');
-      setSaving(null);
-      return;
-    }
+  const toggleLounge = (key: string, loungeId: string, checked: boolean) => {
+    const campaign = campaigns.find((c) => c.key === key);
+    if (!campaign) return;
 
-    try {
-      const endpoint = advertiser.id
-        ? '/api/email-advertisers'
-        : '/api/email-advertisers';
-      const method = advertiser.id ? 'PUT' : 'POST';
+    updateCampaign(
+      key,
+      'lounge_ids',
+      checked
+        ? [...campaign.lounge_ids, loungeId]
+        : campaign.lounge_ids.filter((id) => id !== loungeId)
+    );
+  };
+
+  const addCampaign = () => {
+    const position =
+      campaigns.reduce((max, campaign) => Math.max(max, campaign.position), 0) +
+      1;
+    setCampaigns((prev) => [...prev, newDraft(position)]);
+  };
 
-      const response = await fetch(endpoint, {
-        method,
+  const saveCampaign = async (key: string) => {
+    const campaign = campaigns.find((c) => c.key === key);
+    if (!campaign) return;
+
+    setSaving(key);
+    try {
+      const response = await fetch('/api/email-advertisers', {
+        method: campaign.id ? 'PUT' : 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({
-          ...advertiser,
-          position,
-        }),
+        // The local key isn't a campaign field
+        body: JSON.stringify({ ...campaign, key: undefined }),
       });
 
+      const data = await response.json();
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to save');
+        const detail = data.details?.[0]?.message;
+        throw new Error(detail || data.error || 'Failed to save');
       }
 
-      const data = await response.json();
-
-      setAdvertisers((prev) => ({
-        ...prev,
-        [position]: data,
-      }));
-
+      setCampaigns((prev) =>
+        prev.map((c) => (c.key === key ? { ...data, key } : c))
+      );
       toast.success(
-        `Advertiser ${position} ${advertiser.id ? 'updated' : 'created'} successfully`
+        `${data.company_name} ${campaign.id ? 'updated' : 'created'} successfully`
       );
     } catch (error: any) {
       console.error('Error saving advertiser:', error);
@@ -155,39 +176,33 @@ export function EmailAdvertisersManager() {
     }
   };
 
-  const uploadLogo = async (position: number, file: File) => {
-    if (!file) {
-      console.error('No file provided');
-      return;
+  const loadReport = async (campaignId: string) => {
+    try {
+      const response = await fetch(
+        `/api/email-advertisers/${campaignId}/report?days=30`
+      );
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load report');
+      }
+
+      setReports((prev) => ({ ...prev, [campaignId]: data }));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load report');
     }
+  };
 
-    console.log(
-      'Starting upload for position',
-      position,
-      'file:',
-      file.name,
-      'size:',
-      file.size
-    );
-    setUploading(position);
+  const uploadLogo = async (key: string, file: File) => {
+    if (!file) return;
+
+    setUploading(key);
 
     const supabase = createBrowserClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
     );
 
-    // Check auth session
-    const {
-      data: { session },
-      error: sessionError,
-    } = await supabase.auth.getSession();
-    console.log(
-      'Auth session:',
-      session ? 'exists' : 'missing',
-      'error:',
-      sessionError
-    );
-
     try {
       // Check file size (max 5MB)
       if (file.size > 5 * 1024 * 1024) {
@@ -196,14 +211,7 @@ export function EmailAdvertisersManager() {
 
       // Create a unique filename
       const fileExt = file.name.split('.').pop()?.toLowerCase();
-      const fileName = `${position}-${Date.now()}.${fileExt}`;
-      const filePath = `logos/${fileName}`;
-
-      console.log('Uploading to path:', filePath);
-      console.log('Supabase URL:', process.env.NEXT_PUBLIC_SUPABASE_URL);
-
-      // Upload the file with timeout
-      console.log('Calling supabase.storage.upload...');
+      const filePath = `logos/${key}-${Date.now()}.${fileExt}`;
 
       const uploadPromise = supabase.storage
         .from('advertiser-logos')
@@ -219,61 +227,30 @@ export function EmailAdvertisersManager() {
         )
       );
 
-      const { data: uploadData, error: uploadError } = (await Promise.race([
+      const { error: uploadError } = (await Promise.race([
         uploadPromise,
         timeoutPromise,
       ]).catch((err) => ({ data: null, error: err }))) as any;
 
-      console.log('Upload response - data:', uploadData, 'error:', uploadError);
-
       if (uploadError) {
-        console.error('Upload error details:', {
-          message: uploadError.message,
-          statusCode: uploadError.statusCode,
-          error: uploadError,
-        });
         throw uploadError;
       }
 
-      console.log('Upload successful:', uploadData);
-
-      // Get the public URL
       const {
         data: { publicUrl },
       } = supabase.storage.from('advertiser-logos').getPublicUrl(filePath);
 
-      console.log('Public URL:', publicUrl);
-
-      // Update the advertiser with the new logo URL
-      updateAdvertiser(position, 'logo_url', publicUrl);
-
-      // Don't auto-save, just update the state
-      // User can save manually with the Save Changes button
+      // Don't auto-save; the user saves the campaign manually
+      updateCampaign(key, 'logo_url', publicUrl);
       toast.success('Logo uploaded successfully');
     } catch (error: any) {
-      console.error('Full error object:', error);
-      console.error('Error stack:', error.stack);
+      console.error('Error uploading logo:', error);
       toast.error(error.message || 'Failed to upload logo');
     } finally {
-      console.log('Setting uploading to null');
       setUploading(null);
     }
   };
 
-  const updateAdvertiser = (
-    position: number,
-    field: keyof EmailAdvertiser,
-    value: any
-  ) => {
-    setAdvertisers((prev) => ({
-      ...prev,
-      [position]: {
-        ...prev[position],
-        [field]: value,
-      },
-    }));
-  };
-
   if (loading) {
     return (
       <Card>
@@ -286,30 +263,48 @@ export function EmailAdvertisersManager() {
 
   return (
     <Card>
-      <CardHeader>
-        <CardTitle>Email Digest Advertisers</CardTitle>
-        <CardDescription>
-          Manage the two advertiser slots that appear at the top of digest
-          emails
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Email Digest Advertisers</CardTitle>
+          <CardDescription>
+            Campaigns shown at the top of digest emails. Up to two run per
+            email; when more are live they rotate by weight.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={addCampaign}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Campaign
+        </Button>
       </CardHeader>
       <CardContent className="space-y-6">
-        {[1, 2].map((position) => {
-          const advertiser = advertisers[position];
+        {campaigns.length === 0 && (
+          <p className="text-sm text-muted-foreground">
+            No advertiser campaigns yet.
+          </p>
+        )}
+
+        {campaigns.map((campaign) => {
+          const { key } = campaign;
+          const report = campaign.id ? reports[campaign.id] : undefined;
 
           return (
-            <div key={position} className="border rounded-lg p-4 space-y-4">
+            <div key={key} className="border rounded-lg p-4 space-y-4">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-medium">
-                  Advertiser Position {position}
-                </h3>
                 <div className="flex items-center gap-2">
-                  <Label htmlFor={`active-${position}`}>Active</Label>
+                  <h3 className="text-lg font-medium">
+                    {campaign.company_name || 'New campaign'}
+                  </h3>
+                  {campaign.id && (
+                    <Badge variant="secondary">{flightStatus(campaign)}</Badge>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`active-${key}`}>Active</Label>
                   <Switch
-                    id={`active-${position}`}
-                    checked={advertiser.is_active}
+                    id={`active-${key}`}
+                    checked={campaign.is_active}
                     onCheckedChange={(checked) =>
-                      updateAdvertiser(position, 'is_active', checked)
+                      updateCampaign(key, 'is_active', checked)
                     }
                   />
                 </div>
@@ -317,23 +312,23 @@ export function EmailAdvertisersManager() {
 
               <div className="grid gap-4">
                 <div>
-                  <Label htmlFor={`company-${position}`}>Company Name</Label>
+                  <Label htmlFor={`company-${key}`}>Company Name</Label>
                   <Input
-                    id={`company-${position}`}
-                    value={advertiser.company_name}
+                    id={`company-${key}`}
+                    value={campaign.company_name}
                     onChange={(e) =>
-                      updateAdvertiser(position, 'company_name', e.target.value)
+                      updateCampaign(key, 'company_name', e.target.value)
                     }
                     placeholder="e.g., VISTA POINT ADVISORS"
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor={`logo-${position}`}>Logo</Label>
+                  <Label htmlFor={`logo-${key}`}>Logo</Label>
                   <div className="space-y-2">
                     <input
                       ref={(el) => {
-                        fileInputRefs.current[position] = el;
+                        fileInputRefs.current[key] = el;
                       }}
                       type="file"
                       accept="image/*"
@@ -341,17 +336,17 @@ export function EmailAdvertisersManager() {
                       onChange={(e) => {
                         const file = e.target.files?.[0];
                         if (file) {
-                          uploadLogo(position, file);
+                          uploadLogo(key, file);
                         }
                         // Reset the input so the same file can be selected again
                         e.target.value = '';
                       }}
                     />
-                    {advertiser.logo_url ? (
+                    {campaign.logo_url ? (
                       <div className="flex items-center gap-4">
                         <img
-                          src={advertiser.logo_url}
-                          alt={advertiser.company_name}
+                          src={campaign.logo_url}
+                          alt={campaign.company_name}
                           className="h-16 w-32 object-contain border rounded"
                           onError={(e) => {
                             (e.target as HTMLImageElement).style.display =
@@ -362,73 +357,208 @@ export function EmailAdvertisersManager() {
                           type="button"
                           variant="outline"
                           size="sm"
-                          onClick={() => {
-                            updateAdvertiser(position, 'logo_url', '');
-                          }}
+                          onClick={() => updateCampaign(key, 'logo_url', '')}
                         >
                           <X className="h-4 w-4 mr-1" />
                           Remove
                         </Button>
                       </div>
                     ) : (
-                      <div className="flex items-center gap-2">
-                        <Button
-                          type="button"
-                          variant="outline"
-                          size="sm"
-                          disabled={uploading === position}
-                          onClick={() =>
-                            fileInputRefs.current[position]?.click()
-                          }
-                        >
-                          {uploading === position ? (
-                            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
-                          ) : (
-                            <Upload className="h-4 w-4 mr-1" />
-                          )}
-                          Upload Logo
-                        </Button>
-                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        disabled={uploading === key}
+                        onClick={() => fileInputRefs.current[key]?.click()}
+                      >
+                        {uploading === key ? (
+                          <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                        ) : (
+                          <Upload className="h-4 w-4 mr-1" />
+                        )}
+                        Upload Logo
+                      </Button>
                     )}
                   </div>
                 </div>
 
                 <div>
-                  <Label htmlFor={`link-${position}`}>Link URL</Label>
+                  <Label htmlFor={`link-${key}`}>Link URL</Label>
                   <Input
-                    id={`link-${position}`}
-                    value={advertiser.link_url}
+                    id={`link-${key}`}
+                    value={campaign.link_url}
                     onChange={(e) =>
-                      updateAdvertiser(position, 'link_url', e.target.value)
+                      updateCampaign(key, 'link_url', e.target.value)
                     }
                     placeholder="https://example.com"
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor={`tagline-${position}`}>Tagline</Label>
+                  <Label htmlFor={`tagline-${key}`}>Tagline</Label>
                   <Input
-                    id={`tagline-${position}`}
-                    value={advertiser.tagline}
+                    id={`tagline-${key}`}
+                    value={campaign.tagline}
                     onChange={(e) =>
-                      updateAdvertiser(position, 'tagline', e.target.value)
+                      updateCampaign(key, 'tagline', e.target.value)
                     }
                     placeholder="Brief description of the company"
                   />
                 </div>
 
-                <Button
-                  onClick={() => saveAdvertiser(position)}
-                  disabled={saving === position}
-                  className="w-full sm:w-auto"
-                >
-                  {saving === position ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <Save className="mr-2 h-4 w-4" />
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div>
+                    <Label htmlFor={`starts-${key}`}>Start date</Label>
+                    <Input
+                      id={`starts-${key}`}
+                      type="date"
+                      value={toDateInput(campaign.starts_at)}
+                      onChange={(e) =>
+                        updateCampaign(
+                          key,
+                          'starts_at',
+                          fromDateInput(e.target.value)
+                        )
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`ends-${key}`}>End date</Label>
+                    <Input
+                      id={`ends-${key}`}
+                      type="date"
+                      value={toDateInput(campaign.ends_at)}
+                      onChange={(e) =>
+                        updateCampaign(
+                          key,
+                          'ends_at',
+                          fromDateInput(e.target.value)
+                        )
+                      }
+                    />
+                  </div>
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <div>
+                    <Label htmlFor={`weight-${key}`}>Rotation weight</Label>
+                    <Input
+                      id={`weight-${key}`}
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={campaign.weight}
+                      onChange={(e) =>
+                        updateCampaign(
+                          key,
+                          'weight',
+                          Math.max(1, parseInt(e.target.value, 10) || 1)
+                        )
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`cap-${key}`}>
+                      Max impressions per reader
+                    </Label>
+                    <Input
+                      id={`cap-${key}`}
+                      type="number"
+                      min={1}
+                      placeholder="Unlimited"
+                      value={campaign.frequency_cap ?? ''}
+                      onChange={(e) =>
+                        updateCampaign(
+                          key,
+                          'frequency_cap',
+                          e.target.value ? parseInt(e.target.value, 10) : null
+                        )
+                      }
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor={`cap-days-${key}`}>Per (days)</Label>
+                    <Input
+                      id={`cap-days-${key}`}
+                      type="number"
+                      min={1}
+                      max={90}
+                      value={campaign.frequency_cap_days}
+                      onChange={(e) =>
+                        updateCampaign(
+                          key,
+                          'frequency_cap_days',
+                          Math.max(1, parseInt(e.target.value, 10) || 7)
+                        )
+                      }
+                    />
+                  </div>
+                </div>
+
+                {lounges.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Lounges</Label>
+                    <p className="text-xs text-muted-foreground">
+                      Leave all unchecked to run in every lounge.
+                    </p>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      {lounges.map((lounge) => (
+                        <label
+                          key={lounge.id}
+                          className="flex items-center gap-2 text-sm"
+                        >
+                          <Checkbox
+                            checked={campaign.lounge_ids.includes(lounge.id)}
+                            onCheckedChange={(checked) =>
+                              toggleLounge(key, lounge.id, checked === true)
+                            }
+                          />
+                          {lounge.name}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {report && (
+                  <div className="rounded-md bg-muted p-3 text-sm">
+                    Last 30 days: {report.impressions} impressions,{' '}
+                    {report.clicks} clicks, {(report.ctr * 100).toFixed(2)}% CTR
+                  </div>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    onClick={() => saveCampaign(key)}
+                    disabled={saving === key}
+                  >
+                    {saving === key ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Save className="mr-2 h-4 w-4" />
+                    )}
+                    Save Campaign
+                  </Button>
+                  {campaign.id && (
+                    <>
+                      <Button
+                        variant="outline"
+                        onClick={() => loadReport(campaign.id!)}
+                      >
+                        <BarChart3 className="mr-2 h-4 w-4" />
+                        Report
+                      </Button>
+                      <Button variant="outline" asChild>
+                        <a
+                          href={`/api/email-advertisers/${campaign.id}/report?days=30&format=csv`}
+                        >
+                          <Download className="mr-2 h-4 w-4" />
+                          Export CSV
+                        </a>
+                      </Button>
+                    </>
                   )}
-                  Save Advertiser {position}
-                </Button>
+                </div>
               </div>
             </div>
           );
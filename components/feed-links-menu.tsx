@@ -0,0 +1,96 @@
+'use client';
+
+import * as React from 'react';
+import { Link2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+
+interface FeedUrls {
+  rss: string;
+  atom: string;
+  json: string;
+}
+
+interface FeedLinksMenuProps {
+  loungeId?: string;
+  collectionId?: string;
+}
+
+const FEED_LABELS: Record<keyof FeedUrls, string> = {
+  rss: 'Copy RSS URL',
+  atom: 'Copy Atom URL',
+  json: 'Copy JSON Feed URL',
+};
+
+/**
+ * Copies personal, token-signed feed URLs for a lounge or saved collection.
+ * Without a lounge, the URLs cover the user's saved items.
+ */
+export function FeedLinksMenu({ loungeId, collectionId }: FeedLinksMenuProps) {
+  const [urls, setUrls] = React.useState<FeedUrls | null>(null);
+  const [loading, setLoading] = React.useState(false);
+
+  React.useEffect(() => {
+    setUrls(null);
+  }, [loungeId, collectionId]);
+
+  const loadUrls = async (open: boolean) => {
+    if (!open || urls) return;
+
+    const params = new URLSearchParams();
+    if (loungeId) params.set('lounge_id', loungeId);
+    if (collectionId) params.set('collection_id', collectionId);
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/feeds?${params}`);
+      if (!response.ok) throw new Error('Failed to create feed URLs');
+      setUrls(await response.json());
+    } catch (error) {
+      toast.error('Could not create feed URLs');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast.success('Feed URL copied');
+  };
+
+  return (
+    <DropdownMenu onOpenChange={loadUrls}>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Link2 className="h-4 w-4" />
+          <span className="hidden sm:inline">Feed URL</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel className="font-normal text-xs text-muted-foreground">
+          Personal link for feed readers. Keep it private.
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {loading || !urls ? (
+          <div className="flex justify-center py-2">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : (
+          (Object.keys(FEED_LABELS) as Array<keyof FeedUrls>).map((format) => (
+            <DropdownMenuItem key={format} onSelect={() => copy(urls[format])}>
+              {FEED_LABELS[format]}
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
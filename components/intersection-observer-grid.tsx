@@ -112,6 +112,10 @@ export function IntersectionObserverGrid({
         item.duplicate_group_id === null ? undefined : item.duplicate_group_id,
       is_primary: item.is_primary === null ? undefined : item.is_primary,
       content_hash: item.content_hash === null ? undefined : item.content_hash,
+      also_shared_by: item.also_shared_by,
+      search_snippet: item.search_snippet,
+      thread_posts: item.thread_posts,
+      key_moments: item.key_moments === null ? undefined : item.key_moments,
     }),
     []
   );
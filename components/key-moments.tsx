@@ -0,0 +1,70 @@
+'use client';
+
+import * as React from 'react';
+import { Clock } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { KeyMoment } from '@/types/content';
+
+interface KeyMomentsProps {
+  moments: KeyMoment[];
+  // Watch URL of the video the moments are from
+  videoUrl: string;
+  className?: string;
+}
+
+function formatTime(time: number): string {
+  const total = Math.floor(time);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+function withTimestamp(videoUrl: string, time: number): string {
+  try {
+    const url = new URL(videoUrl);
+    url.searchParams.set('t', `${Math.floor(time)}s`);
+    return url.toString();
+  } catch {
+    return videoUrl;
+  }
+}
+
+/**
+ * Timestamped highlights from a video's transcript, each linking to its
+ * point in the video
+ */
+export function KeyMoments({ moments, videoUrl, className }: KeyMomentsProps) {
+  if (moments.length === 0) return null;
+
+  return (
+    <div className={className}>
+      <h4 className="mb-2 inline-flex items-center gap-1.5 text-xs font-medium text-gray-500 dark:text-gray-400">
+        <Clock className="h-3.5 w-3.5" />
+        Key moments
+      </h4>
+      <ol className="space-y-1">
+        {moments.map((moment) => (
+          <li key={moment.start_time}>
+            <a
+              href={withTimestamp(videoUrl, moment.start_time)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={cn(
+                'group inline-flex items-baseline gap-2 text-sm text-gray-700 dark:text-gray-300',
+                'hover:text-gray-900 dark:hover:text-gray-100'
+              )}
+            >
+              <span className="font-mono text-xs text-blue-600 dark:text-blue-400 group-hover:underline">
+                {formatTime(moment.start_time)}
+              </span>
+              <span>{moment.title}</span>
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+import type { ComponentType } from 'react';
+import { Globe, Linkedin, Rss, Youtube, type LucideProps } from 'lucide-react';
+import { Icons } from '@/components/icons';
+import type { Platform } from '@/types/content';
+
+type PlatformIcon = ComponentType<LucideProps>;
+
+// Keyed by every platform, so a new one needs an icon to type-check
+const PLATFORM_ICONS: Record<Platform, PlatformIcon> = {
+  youtube: Youtube,
+  twitter: Icons.x,
+  linkedin: Linkedin,
+  threads: Icons.threads,
+  bluesky: Icons.bluesky,
+  mastodon: Icons.mastodon,
+  rss: Rss,
+  website: Globe,
+};
+
+/**
+ * Icon for a platform name ('x' is accepted for Twitter), or the fallback
+ * for anything unrecognised
+ */
+export function getPlatformIcon(
+  platform: string | null | undefined,
+  fallback: PlatformIcon = Rss
+): PlatformIcon {
+  const name = platform?.toLowerCase() === 'x' ? 'twitter' : platform;
+  return PLATFORM_ICONS[name?.toLowerCase() as Platform] || fallback;
+}
@@ -0,0 +1,157 @@
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import type {
+  RelevancyEvalMetrics,
+  RelevancyEvalReport,
+} from '@/types/relevancy-eval';
+
+function formatRate(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+function MetricDelta({
+  label,
+  baseline,
+  candidate,
+}: {
+  label: string;
+  baseline: number;
+  candidate: number;
+}) {
+  const delta = candidate - baseline;
+  return (
+    <div>
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-bold">{formatRate(candidate)}</div>
+      <div
+        className={`text-xs ${
+          delta > 0
+            ? 'text-green-600'
+            : delta < 0
+              ? 'text-red-600'
+              : 'text-muted-foreground'
+        }`}
+      >
+        {delta === 0
+          ? 'No change'
+          : `${delta > 0 ? '+' : ''}${(delta * 100).toFixed(1)} pts from ${formatRate(baseline)}`}
+      </div>
+    </div>
+  );
+}
+
+function Counts({ metrics }: { metrics: RelevancyEvalMetrics }) {
+  return (
+    <span>
+      {metrics.true_positives} kept correctly, {metrics.false_positives} wrongly
+      kept, {metrics.false_negatives} wrongly filtered
+    </span>
+  );
+}
+
+/**
+ * Precision, recall and flipped items from an offline relevancy evaluation
+ */
+export function RelevancyEvalReportView({
+  report,
+}: {
+  report: RelevancyEvalReport;
+}) {
+  const fixed = report.flips.filter((flip) => flip.fixed).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-3">
+        <MetricDelta
+          label="Precision"
+          baseline={report.baseline.precision}
+          candidate={report.candidate.precision}
+        />
+        <MetricDelta
+          label="Recall"
+          baseline={report.baseline.recall}
+          candidate={report.candidate.recall}
+        />
+        <div>
+          <div className="text-sm text-muted-foreground">Flipped</div>
+          <div className="text-2xl font-bold">{report.flips.length}</div>
+          <div className="text-xs text-muted-foreground">
+            {fixed} fixed, {report.flips.length - fixed} broken
+          </div>
+        </div>
+      </div>
+
+      <div className="text-sm text-muted-foreground space-y-1">
+        <p>
+          {report.dataset_size} labeled items
+          {report.mock && ' scored by the mock model'}.
+        </p>
+        <p>
+          Live (threshold {report.baseline.threshold}):{' '}
+          <Counts metrics={report.baseline} />
+        </p>
+        <p>
+          Candidate (threshold {report.candidate.threshold}):{' '}
+          <Counts metrics={report.candidate} />
+        </p>
+      </div>
+
+      {report.flips.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Content</TableHead>
+              <TableHead>Label</TableHead>
+              <TableHead className="text-right">Live</TableHead>
+              <TableHead className="text-right">Candidate</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {report.flips.map((flip) => (
+              <TableRow key={flip.content_id}>
+                <TableCell className="max-w-xs">
+                  <a
+                    href={flip.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="line-clamp-2 hover:underline"
+                    title={flip.candidate_reason}
+                  >
+                    {flip.title || flip.url}
+                  </a>
+                </TableCell>
+                <TableCell>
+                  {flip.label}
+                  <div className="text-xs text-muted-foreground">
+                    {flip.source.replace('_', ' ')}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {flip.baseline_score}
+                </TableCell>
+                <TableCell className="text-right">
+                  {flip.candidate_score}
+                </TableCell>
+                <TableCell>
+                  <Badge variant={flip.fixed ? 'default' : 'destructive'}>
+                    {flip.fixed ? 'Fixed' : 'Broken'}
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
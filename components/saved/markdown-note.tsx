@@ -0,0 +1,102 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+
+interface MarkdownNoteProps {
+  markdown: string;
+  className?: string;
+}
+
+// **bold**, *italic*, `code` and [label](https://url)
+const INLINE_PATTERN =
+  /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\(https?:\/\/[^)\s]+\))/g;
+
+function renderInline(text: string): React.ReactNode[] {
+  return text.split(INLINE_PATTERN).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>;
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return (
+        <code
+          key={index}
+          className="rounded bg-gray-100 dark:bg-gray-800 px-1 text-xs"
+        >
+          {part.slice(1, -1)}
+        </code>
+      );
+    }
+    const link = part.match(/^\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)$/);
+    if (link) {
+      return (
+        <a
+          key={index}
+          href={link[2]}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-primary underline"
+        >
+          {link[1]}
+        </a>
+      );
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>;
+    }
+    return <React.Fragment key={index}>{part}</React.Fragment>;
+  });
+}
+
+/**
+ * Renders the small markdown subset used in saved-item notes: headings,
+ * bullet lists, paragraphs and inline formatting. Raw HTML is shown as text.
+ */
+export function MarkdownNote({ markdown, className }: MarkdownNoteProps) {
+  const blocks: React.ReactNode[] = [];
+  let list: string[] = [];
+
+  const flushList = () => {
+    if (list.length === 0) return;
+    blocks.push(
+      <ul key={blocks.length} className="list-disc pl-5 space-y-0.5">
+        {list.map((item, index) => (
+          <li key={index}>{renderInline(item)}</li>
+        ))}
+      </ul>
+    );
+    list = [];
+  };
+
+  markdown.split('\n').forEach((line) => {
+    const bullet = line.match(/^\s*[-*]\s+(.*)$/);
+    if (bullet) {
+      list.push(bullet[1]);
+      return;
+    }
+    flushList();
+
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    if (heading) {
+      blocks.push(
+        <p key={blocks.length} className="font-semibold">
+          {renderInline(heading[2])}
+        </p>
+      );
+    } else if (line.trim()) {
+      blocks.push(<p key={blocks.length}>{renderInline(line)}</p>);
+    }
+  });
+  flushList();
+
+  return (
+    <div
+      className={cn(
+        'space-y-1.5 text-sm text-gray-700 dark:text-gray-300',
+        className
+      )}
+    >
+      {blocks}
+    </div>
+  );
+}
@@ -0,0 +1,668 @@
+'use client';
+
+import * as React from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  Bookmark,
+  Check,
+  ExternalLink,
+  FolderOpen,
+  Inbox,
+  Loader2,
+  Pencil,
+  Plus,
+  Tag,
+  Trash2,
+  X as XIcon,
+} from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FeedLinksMenu } from '@/components/feed-links-menu';
+import { MarkdownNote } from '@/components/saved/markdown-note';
+import {
+  useSavedCollections,
+  useSavedItems,
+  useSavedMutations,
+} from '@/hooks/use-saved-content';
+import { cn } from '@/lib/utils';
+import {
+  UNSORTED_COLLECTION,
+  type SavedCollection,
+  type SavedFilters,
+  type SavedItem,
+} from '@/types/saved';
+
+const ALL = 'all';
+
+function parseTagInput(value: string): string[] {
+  return value
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+function CollectionsPanel({
+  collections,
+  selected,
+  onSelect,
+}: {
+  collections: SavedCollection[];
+  selected?: string;
+  onSelect: (collectionId?: string) => void;
+}) {
+  const { createCollection, updateCollection, deleteCollection } =
+    useSavedMutations();
+  const [newName, setNewName] = React.useState('');
+  const [editingId, setEditingId] = React.useState<string | null>(null);
+  const [editName, setEditName] = React.useState('');
+
+  const handleCreate = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!newName.trim()) return;
+    createCollection.mutate(
+      { name: newName.trim() },
+      { onSuccess: () => setNewName('') }
+    );
+  };
+
+  const handleRename = (id: string) => {
+    if (editName.trim()) {
+      updateCollection.mutate({ id, name: editName.trim() });
+    }
+    setEditingId(null);
+  };
+
+  const entryClass = (active: boolean) =>
+    cn(
+      'flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-sm text-left',
+      active
+        ? 'bg-primary/10 text-primary font-medium'
+        : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+    );
+
+  return (
+    <div className="space-y-1">
+      <button
+        className={entryClass(!selected)}
+        onClick={() => onSelect(undefined)}
+      >
+        <Bookmark className="h-4 w-4" />
+        All saved
+      </button>
+      <button
+        className={entryClass(selected === UNSORTED_COLLECTION)}
+        onClick={() => onSelect(UNSORTED_COLLECTION)}
+      >
+        <Inbox className="h-4 w-4" />
+        Unsorted
+      </button>
+
+      {collections.map((collection) =>
+        editingId === collection.id ? (
+          <Input
+            key={collection.id}
+            autoFocus
+            value={editName}
+            onChange={(e) => setEditName(e.target.value)}
+            onBlur={() => handleRename(collection.id)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleRename(collection.id);
+              if (e.key === 'Escape') setEditingId(null);
+            }}
+            className="h-8"
+          />
+        ) : (
+          <div key={collection.id} className="group flex items-center">
+            <button
+              className={entryClass(selected === collection.id)}
+              onClick={() => onSelect(collection.id)}
+            >
+              <FolderOpen className="h-4 w-4" />
+              <span className="flex-1 truncate">{collection.name}</span>
+              <span className="text-xs text-muted-foreground">
+                {collection.item_count ?? 0}
+              </span>
+            </button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 opacity-0 group-hover:opacity-100"
+              onClick={() => {
+                setEditingId(collection.id);
+                setEditName(collection.name);
+              }}
+              aria-label={`Rename ${collection.name}`}
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 opacity-0 group-hover:opacity-100"
+              onClick={() => {
+                if (
+                  confirm(
+                    `Delete "${collection.name}"? Its items stay saved as unsorted.`
+                  )
+                ) {
+                  deleteCollection.mutate(collection.id);
+                  if (selected === collection.id) onSelect(undefined);
+                }
+              }}
+              aria-label={`Delete ${collection.name}`}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        )
+      )}
+
+      <form onSubmit={handleCreate} className="flex gap-1 pt-2">
+        <Input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="New collection"
+          className="h-8"
+        />
+        <Button
+          type="submit"
+          size="icon"
+          variant="outline"
+          className="h-8 w-8 shrink-0"
+          disabled={!newName.trim() || createCollection.isPending}
+          aria-label="Create collection"
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+function SavedItemCard({
+  item,
+  collections,
+  selected,
+  onToggleSelected,
+}: {
+  item: SavedItem;
+  collections: SavedCollection[];
+  selected: boolean;
+  onToggleSelected: () => void;
+}) {
+  const { updateItem, deleteItem } = useSavedMutations();
+  const [tagInput, setTagInput] = React.useState('');
+  const [editingNotes, setEditingNotes] = React.useState(false);
+  const [notes, setNotes] = React.useState(item.notes || '');
+  const content = item.content;
+
+  React.useEffect(() => {
+    if (!editingNotes) setNotes(item.notes || '');
+  }, [item.notes, editingNotes]);
+
+  const addTags = (event: React.FormEvent) => {
+    event.preventDefault();
+    const added = parseTagInput(tagInput);
+    if (added.length === 0) return;
+    updateItem.mutate(
+      { id: item.id, tags: [...item.tags, ...added] },
+      { onSuccess: () => setTagInput('') }
+    );
+  };
+
+  const saveNotes = () => {
+    updateItem.mutate(
+      { id: item.id, notes: notes.trim() ? notes : null },
+      { onSuccess: () => setEditingNotes(false) }
+    );
+  };
+
+  return (
+    <Card className={cn(item.read_status && 'opacity-75')}>
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-start gap-3">
+          <Checkbox
+            checked={selected}
+            onCheckedChange={onToggleSelected}
+            aria-label="Select item"
+            className="mt-1"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              {!item.read_status && (
+                <span
+                  className="h-2 w-2 rounded-full bg-primary shrink-0"
+                  aria-label="Unread"
+                />
+              )}
+              <a
+                href={content?.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-medium hover:underline line-clamp-2"
+              >
+                {content?.title || content?.description || 'Untitled'}
+              </a>
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">
+              {content?.creator?.name && `${content.creator.name} · `}
+              Saved{' '}
+              {formatDistanceToNow(new Date(item.saved_at), {
+                addSuffix: true,
+              })}
+            </p>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() =>
+                updateItem.mutate({
+                  id: item.id,
+                  read_status: !item.read_status,
+                })
+              }
+            >
+              <Check className="h-4 w-4 mr-1" />
+              {item.read_status ? 'Mark unread' : 'Mark read'}
+            </Button>
+            {content?.url && (
+              <Button variant="ghost" size="icon" asChild>
+                <a
+                  href={content.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  aria-label="Open original"
+                >
+                  <ExternalLink className="h-4 w-4" />
+                </a>
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => deleteItem.mutate(item.id)}
+              aria-label="Remove from saved"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 pl-7">
+          {item.tags.map((tag) => (
+            <Badge key={tag} variant="secondary" className="gap-1">
+              {tag}
+              <button
+                onClick={() =>
+                  updateItem.mutate({
+                    id: item.id,
+                    tags: item.tags.filter((t) => t !== tag),
+                  })
+                }
+                aria-label={`Remove tag ${tag}`}
+              >
+                <XIcon className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+          <form onSubmit={addTags}>
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Add tags…"
+              className="h-7 w-32 text-xs"
+            />
+          </form>
+          <Select
+            value={item.collection_id || UNSORTED_COLLECTION}
+            onValueChange={(value) =>
+              updateItem.mutate({
+                id: item.id,
+                collection_id: value === UNSORTED_COLLECTION ? null : value,
+              })
+            }
+          >
+            <SelectTrigger className="h-7 w-40 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={UNSORTED_COLLECTION}>Unsorted</SelectItem>
+              {collections.map((collection) => (
+                <SelectItem key={collection.id} value={collection.id}>
+                  {collection.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="pl-7">
+          {editingNotes ? (
+            <div className="space-y-2">
+              <Textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Notes (markdown supported)"
+                rows={4}
+              />
+              {notes.trim() && (
+                <div className="rounded-md border p-2">
+                  <MarkdownNote markdown={notes} />
+                </div>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={saveNotes}
+                  disabled={updateItem.isPending}
+                >
+                  Save notes
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setEditingNotes(false)}
+                >
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : item.notes ? (
+            <button
+              className="w-full text-left rounded-md bg-gray-50 dark:bg-gray-900 p-2"
+              onClick={() => setEditingNotes(true)}
+            >
+              <MarkdownNote markdown={item.notes} />
+            </button>
+          ) : (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-muted-foreground"
+              onClick={() => setEditingNotes(true)}
+            >
+              <Pencil className="h-3 w-3 mr-1" />
+              Add notes
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+export function SavedItemsView() {
+  const [filters, setFilters] = React.useState<SavedFilters>({ page: 1 });
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [bulkTags, setBulkTags] = React.useState('');
+
+  const { data, isLoading } = useSavedItems(filters);
+  const { data: collections = [] } = useSavedCollections();
+  const { bulkAction } = useSavedMutations();
+
+  const items = data?.items || [];
+  const ids = Array.from(selectedIds);
+
+  const updateFilters = (update: Partial<SavedFilters>) => {
+    setFilters((current) => ({ ...current, ...update, page: 1 }));
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelectedIds((current) => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+
+  const runBulk = (
+    input: Parameters<typeof bulkAction.mutate>[0],
+    keepSelection = false
+  ) =>
+    bulkAction.mutate(input, {
+      onSuccess: () => {
+        if (!keepSelection) setSelectedIds(new Set());
+        setBulkTags('');
+      },
+    });
+
+  return (
+    <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+      <aside>
+        <CollectionsPanel
+          collections={collections}
+          selected={filters.collection_id}
+          onSelect={(collection_id) => updateFilters({ collection_id })}
+        />
+      </aside>
+
+      <div className="space-y-4 min-w-0">
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={filters.read_status || ALL}
+            onValueChange={(value) =>
+              updateFilters({
+                read_status:
+                  value === ALL ? undefined : (value as 'read' | 'unread'),
+              })
+            }
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All</SelectItem>
+              <SelectItem value="unread">Unread</SelectItem>
+              <SelectItem value="read">Read</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {(data?.tags || []).map(({ tag, count }) => (
+            <Badge
+              key={tag}
+              variant={filters.tag === tag ? 'default' : 'outline'}
+              className="cursor-pointer"
+              onClick={() =>
+                updateFilters({ tag: filters.tag === tag ? undefined : tag })
+              }
+            >
+              <Tag className="h-3 w-3 mr-1" />
+              {tag} ({count})
+            </Badge>
+          ))}
+
+          {filters.collection_id !== UNSORTED_COLLECTION && (
+            <div className="ml-auto">
+              <FeedLinksMenu collectionId={filters.collection_id} />
+            </div>
+          )}
+        </div>
+
+        {items.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-md border bg-white dark:bg-gray-900 p-2">
+            <Checkbox
+              checked={items.every((item) => selectedIds.has(item.id))}
+              onCheckedChange={(checked) =>
+                setSelectedIds(
+                  checked ? new Set(items.map((item) => item.id)) : new Set()
+                )
+              }
+              aria-label="Select all"
+            />
+            <span className="text-sm text-muted-foreground mr-2">
+              {ids.length > 0
+                ? `${ids.length} selected`
+                : `${data?.total ?? 0} items`}
+            </span>
+
+            {ids.length > 0 && (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runBulk({ action: 'mark_read', ids })}
+                >
+                  Mark read
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => runBulk({ action: 'mark_unread', ids })}
+                >
+                  Mark unread
+                </Button>
+                <Select
+                  onValueChange={(value) =>
+                    runBulk({
+                      action: 'move',
+                      ids,
+                      collection_id:
+                        value === UNSORTED_COLLECTION ? null : value,
+                    })
+                  }
+                >
+                  <SelectTrigger className="h-9 w-40">
+                    <SelectValue placeholder="Move to…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNSORTED_COLLECTION}>
+                      Unsorted
+                    </SelectItem>
+                    {collections.map((collection) => (
+                      <SelectItem key={collection.id} value={collection.id}>
+                        {collection.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={bulkTags}
+                  onChange={(e) => setBulkTags(e.target.value)}
+                  placeholder="tag, another"
+                  className="h-9 w-36"
+                />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={parseTagInput(bulkTags).length === 0}
+                  onClick={() =>
+                    runBulk(
+                      {
+                        action: 'add_tags',
+                        ids,
+                        tags: parseTagInput(bulkTags),
+                      },
+                      true
+                    )
+                  }
+                >
+                  Add tags
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={parseTagInput(bulkTags).length === 0}
+                  onClick={() =>
+                    runBulk(
+                      {
+                        action: 'remove_tags',
+                        ids,
+                        tags: parseTagInput(bulkTags),
+                      },
+                      true
+                    )
+                  }
+                >
+                  Remove tags
+                </Button>
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => {
+                    if (confirm(`Remove ${ids.length} saved items?`)) {
+                      runBulk({ action: 'delete', ids });
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Delete
+                </Button>
+                {bulkAction.isPending && (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-32 w-full" />
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <Bookmark className="h-8 w-8 mx-auto mb-3" />
+            <p>No saved items here yet.</p>
+            <p className="text-sm">
+              Bookmark posts from your feed to build a reading queue.
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <SavedItemCard
+                key={item.id}
+                item={item}
+                collections={collections}
+                selected={selectedIds.has(item.id)}
+                onToggleSelected={() => toggleSelected(item.id)}
+              />
+            ))}
+          </div>
+        )}
+
+        {data && (data.page > 1 || data.has_more) && (
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              disabled={data.page <= 1}
+              onClick={() =>
+                setFilters((current) => ({ ...current, page: data.page - 1 }))
+              }
+            >
+              Previous
+            </Button>
+            <Button
+              variant="outline"
+              disabled={!data.has_more}
+              onClick={() =>
+                setFilters((current) => ({ ...current, page: data.page + 1 }))
+              }
+            >
+              Next
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
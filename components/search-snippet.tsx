@@ -0,0 +1,40 @@
+'use client';
+
+import * as React from 'react';
+import { cn } from '@/lib/utils';
+
+interface SearchSnippetProps {
+  // Snippet from the search API, with hits wrapped in <mark></mark>
+  snippet: string;
+  className?: string;
+}
+
+/**
+ * Highlighted excerpt for a full-text search result. Only the <mark> tags
+ * are interpreted; everything else is rendered as text.
+ */
+export function SearchSnippet({ snippet, className }: SearchSnippetProps) {
+  const parts = snippet.split(/<mark>(.*?)<\/mark>/g);
+
+  return (
+    <p
+      className={cn(
+        'text-sm text-gray-600 dark:text-gray-300 line-clamp-3',
+        className
+      )}
+    >
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <mark
+            key={index}
+            className="bg-yellow-100 dark:bg-yellow-900/50 text-inherit rounded-sm px-0.5"
+          >
+            {part}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{part}</React.Fragment>
+        )
+      )}
+    </p>
+  );
+}
@@ -4,30 +4,31 @@ import * as React from 'react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Icons } from '@/components/icons';
+import { getPlatformIcon } from '@/components/platform-icons';
 import { Badge } from '@/components/ui/badge';
 import {
   Loader2,
-  Youtube,
-  Linkedin,
-  Rss,
   User,
   FileText,
   Clock,
   Search,
+  SlidersHorizontal,
 } from 'lucide-react';
 import type {
   CreatorSuggestion,
   ContentSuggestion,
+  OperatorSuggestion,
 } from '@/hooks/use-search-suggestions';
 
 interface SearchSuggestionsProps {
+  operators?: OperatorSuggestion[];
   creators: CreatorSuggestion[];
   content: ContentSuggestion[];
   isLoading: boolean;
   searchQuery: string;
   recentSearches: string[];
   onSuggestionClick: (suggestion: string) => void;
+  onOperatorClick?: (query: string) => void;
   onCreatorClick?: (creatorId: string) => void;
   onContentClick?: (contentId: string) => void;
   onClearRecentSearches: () => void;
@@ -35,22 +36,6 @@ interface SearchSuggestionsProps {
   selectedIndex?: number;
 }
 
-const getPlatformIcon = (platform: string) => {
-  switch (platform?.toLowerCase()) {
-    case 'youtube':
-      return Youtube;
-    case 'x':
-    case 'twitter':
-      return Icons.x;
-    case 'linkedin':
-      return Linkedin;
-    case 'threads':
-      return Icons.threads;
-    default:
-      return Rss;
-  }
-};
-
 const formatDate = (dateString: string) => {
   const date = new Date(dateString);
   const now = new Date();
@@ -70,18 +55,21 @@ const formatDate = (dateString: string) => {
 };
 
 export function SearchSuggestions({
+  operators = [],
   creators,
   content,
   isLoading,
   searchQuery,
   recentSearches,
   onSuggestionClick,
+  onOperatorClick,
   onCreatorClick,
   onContentClick,
   onClearRecentSearches,
   selectedIndex = -1,
 }: SearchSuggestionsProps) {
-  const hasResults = creators.length > 0 || content.length > 0;
+  const hasResults =
+    operators.length > 0 || creators.length > 0 || content.length > 0;
   const showRecentSearches = !searchQuery && recentSearches.length > 0;
 
   const currentIndex = 0;
@@ -142,6 +130,42 @@ export function SearchSuggestions({
                 </div>
               )}
 
+              {/* Operator completions */}
+              {operators.length > 0 && (
+                <div className="border-b">
+                  <div className="px-3 py-2 bg-gray-50 dark:bg-gray-800/50">
+                    <p className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Search operators
+                    </p>
+                  </div>
+                  <div className="py-1">
+                    {operators.map((operator) => (
+                      <Button
+                        key={operator.label}
+                        type="button"
+                        variant="ghost"
+                        className="w-full justify-start text-sm rounded-none py-2 h-auto"
+                        // Keep focus in the input so the query can be finished
+                        onMouseDown={(e) => e.preventDefault()}
+                        onClick={() =>
+                          onOperatorClick
+                            ? onOperatorClick(operator.query)
+                            : onSuggestionClick(operator.query)
+                        }
+                      >
+                        <div className="flex items-center gap-3 w-full">
+                          <SlidersHorizontal className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                          <span className="font-mono">{operator.label}</span>
+                          <span className="text-xs text-gray-500 truncate">
+                            {operator.description}
+                          </span>
+                        </div>
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Creators section */}
               {creators.length > 0 && (
                 <div className="border-b">
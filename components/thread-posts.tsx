@@ -0,0 +1,64 @@
+'use client';
+
+import * as React from 'react';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import { ChevronDown, ExternalLink, MessagesSquare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { ThreadPost } from '@/types/content';
+
+interface ThreadPostsProps {
+  // The posts after the opener, in thread order
+  posts: ThreadPost[];
+  className?: string;
+}
+
+/**
+ * The rest of a self-reply thread, collapsed under the opener's card
+ */
+export function ThreadPosts({ posts, className }: ThreadPostsProps) {
+  const [open, setOpen] = React.useState(false);
+
+  if (posts.length === 0) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={className}>
+      <CollapsibleTrigger className="inline-flex items-center gap-1.5 text-xs font-medium text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors">
+        <MessagesSquare className="h-3.5 w-3.5" />
+        {open ? 'Hide thread' : 'Show thread'} &middot; {posts.length} more{' '}
+        {posts.length === 1 ? 'post' : 'posts'}
+        <ChevronDown
+          className={cn(
+            'h-3.5 w-3.5 transition-transform duration-200',
+            open && 'rotate-180'
+          )}
+        />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="overflow-hidden data-[state=closed]:animate-accordion-up data-[state=open]:animate-accordion-down">
+        <ol className="mt-3 space-y-3 border-l-2 border-gray-200 dark:border-gray-700 pl-4">
+          {posts.map((post) => (
+            <li key={post.id} className="group">
+              <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+                {post.content_body}
+              </p>
+              <a
+                href={post.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="mt-1 inline-flex items-center gap-1 text-xs text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+              >
+                {post.published_at
+                  ? new Date(post.published_at).toLocaleString()
+                  : 'View post'}
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </li>
+          ))}
+        </ol>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
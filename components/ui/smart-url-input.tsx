@@ -9,6 +9,7 @@ import {
   type PlatformInfo,
 } from '@/lib/platform-detector';
 import { Loader2, XCircle, Youtube, X, Linkedin, Rss } from 'lucide-react';
+import { Icons } from '@/components/icons';
 
 interface SmartUrlInputProps
   extends Omit<
@@ -25,7 +26,9 @@ const platformIcons = {
   [Platform.YOUTUBE]: Youtube,
   [Platform.TWITTER]: X,
   [Platform.LINKEDIN]: Linkedin,
-  [Platform.THREADS]: X,
+  [Platform.THREADS]: Icons.threads,
+  [Platform.BLUESKY]: Icons.bluesky,
+  [Platform.MASTODON]: Icons.mastodon,
   [Platform.RSS]: Rss,
   [Platform.UNKNOWN]: XCircle,
 } as const;
@@ -35,6 +38,8 @@ const platformLabels = {
   [Platform.TWITTER]: 'X',
   [Platform.LINKEDIN]: 'LinkedIn',
   [Platform.THREADS]: 'Threads',
+  [Platform.BLUESKY]: 'Bluesky',
+  [Platform.MASTODON]: 'Mastodon',
   [Platform.RSS]: 'RSS',
   [Platform.UNKNOWN]: 'Unknown',
 } as const;
@@ -15,6 +15,8 @@ import {
   Text,
 } from '@react-email/components';
 import * as React from 'react';
+import type { DigestAdvertiser } from '@/types/advertiser';
+import type { DigestLinkSection } from '@/types/digest';
 
 interface ContentItem {
   id: string;
@@ -92,14 +94,6 @@ interface StockMoversData {
   generatedAt: string;
 }
 
-interface EmailAdvertiser {
-  position: number;
-  company_name: string;
-  logo_url: string;
-  link_url: string;
-  tagline: string;
-}
-
 interface DailyDigestEmailProps {
   loungeName: string;
   loungeDescription: string;
@@ -108,7 +102,10 @@ interface DailyDigestEmailProps {
   recipientEmail: string;
   unsubscribeUrl: string;
   date: string;
-  advertisers?: EmailAdvertiser[];
+  advertisers?: DigestAdvertiser[];
+  // Stands in for the advertisers section when sponsors are chosen per
+  // recipient at send time
+  advertisersSlot?: string;
   aiNewsSummary?: {
     bigStory?: {
       title: string;
@@ -137,6 +134,17 @@ interface DailyDigestEmailProps {
     generatedAt: string;
   };
   stockMovers?: StockMoversData;
+  // Wraps outbound links for click tracking; links are left as-is without it
+  trackLink?: (
+    url: string,
+    section: DigestLinkSection,
+    target?: string
+  ) => string;
+  openPixelUrl?: string;
+  // This edition in the web archive, linked above the header
+  webVersionUrl?: string;
+  // Rendering for the web archive rather than an inbox
+  webVersion?: boolean;
 }
 
 // Platform icon images - using hosted PNGs for email compatibility
@@ -188,6 +196,246 @@ const truncateToLines = (text: string, maxChars: number = 200): string => {
   return truncated + '...';
 };
 
+/**
+ * "Presented By" sponsor block. Rendered on its own too, so each recipient's
+ * sponsors can be filled into a shared edition.
+ */
+export const DailyDigestAdvertisers = ({
+  advertisers,
+  trackLink,
+}: {
+  advertisers?: DigestAdvertiser[];
+  trackLink?: DailyDigestEmailProps['trackLink'];
+}) => {
+  const track = trackLink || ((url: string) => url);
+
+  if (!advertisers || advertisers.length === 0) return null;
+
+  return (
+    <Section style={advertiserSection}>
+      <Text style={advertiserSectionTitle}>Presented By</Text>
+      {advertisers.length === 1 ? (
+        // Single advertiser - center it
+        <table width="100%" cellPadding="0" cellSpacing="0" border={0}>
+          <tbody>
+            <tr>
+              <td align="center">
+                <Link
+                  href={track(
+                    advertisers[0].link_url,
+                    'advertiser',
+                    advertisers[0].id || advertisers[0].company_name
+                  )}
+                  style={{
+                    textDecoration: 'none',
+                    display: 'inline-block',
+                  }}
+                >
+                  <table cellPadding="0" cellSpacing="0" border={0}>
+                    <tbody>
+                      <tr>
+                        <td
+                          style={{
+                            ...advertiserCard,
+                            maxWidth: '280px',
+                          }}
+                        >
+                          <table
+                            width="100%"
+                            cellPadding="0"
+                            cellSpacing="0"
+                            border={0}
+                          >
+                            <tbody>
+                              <tr>
+                                <td
+                                  style={{
+                                    padding: '4px',
+                                    textAlign: 'center',
+                                    height: '25px',
+                                    verticalAlign: 'middle',
+                                    backgroundColor: '#ffffff',
+                                    borderRadius: '4px',
+                                  }}
+                                >
+                                  <Img
+                                    src={advertisers[0].logo_url}
+                                    alt={advertisers[0].company_name}
+                                    style={advertiserLogo}
+                                  />
+                                </td>
+                              </tr>
+                              <tr>
+                                <td>
+                                  <Text style={advertiserTagline}>
+                                    {advertisers[0].tagline}
+                                  </Text>
+                                </td>
+                              </tr>
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </Link>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      ) : (
+        // Two advertisers - side by side with proper scaling
+        <table width="100%" cellPadding="0" cellSpacing="0" border={0}>
+          <tbody>
+            <tr>
+              <td
+                width="49%"
+                style={{
+                  verticalAlign: 'top',
+                  backgroundColor: '#ffffff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '6px',
+                }}
+              >
+                <Link
+                  href={track(
+                    advertisers[0].link_url,
+                    'advertiser',
+                    advertisers[0].id || advertisers[0].company_name
+                  )}
+                  style={{ textDecoration: 'none', display: 'block' }}
+                >
+                  <table
+                    width="100%"
+                    cellPadding="0"
+                    cellSpacing="0"
+                    border={0}
+                  >
+                    <tbody>
+                      <tr>
+                        <td style={advertiserCardNoBg}>
+                          <table
+                            width="100%"
+                            cellPadding="0"
+                            cellSpacing="0"
+                            border={0}
+                          >
+                            <tbody>
+                              <tr>
+                                <td
+                                  style={{
+                                    padding: '4px',
+                                    textAlign: 'center',
+                                    height: '25px',
+                                    verticalAlign: 'middle',
+                                    backgroundColor: '#ffffff',
+                                    borderRadius: '4px',
+                                  }}
+                                >
+                                  <Img
+                                    src={advertisers[0].logo_url}
+                                    alt={advertisers[0].company_name}
+                                    style={advertiserLogo}
+                                  />
+                                </td>
+                              </tr>
+                              <tr>
+                                <td>
+                                  <Text style={advertiserTagline}>
+                                    {advertisers[0].tagline}
+                                  </Text>
+                                </td>
+                              </tr>
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </Link>
+              </td>
+              <td
+                width="12"
+                style={{
+                  width: '12px',
+                  minWidth: '12px',
+                  maxWidth: '12px',
+                }}
+              ></td>
+              <td
+                width="49%"
+                style={{
+                  verticalAlign: 'top',
+                  backgroundColor: '#ffffff',
+                  border: '1px solid #e5e7eb',
+                  borderRadius: '6px',
+                }}
+              >
+                <Link
+                  href={track(
+                    advertisers[1].link_url,
+                    'advertiser',
+                    advertisers[1].id || advertisers[1].company_name
+                  )}
+                  style={{ textDecoration: 'none', display: 'block' }}
+                >
+                  <table
+                    width="100%"
+                    cellPadding="0"
+                    cellSpacing="0"
+                    border={0}
+                  >
+                    <tbody>
+                      <tr>
+                        <td style={advertiserCardNoBg}>
+                          <table
+                            width="100%"
+                            cellPadding="0"
+                            cellSpacing="0"
+                            border={0}
+                          >
+                            <tbody>
+                              <tr>
+                                <td
+                                  style={{
+                                    padding: '4px',
+                                    textAlign: 'center',
+                                    height: '25px',
+                                    verticalAlign: 'middle',
+                                    backgroundColor: '#ffffff',
+                                    borderRadius: '4px',
+                                  }}
+                                >
+                                  <Img
+                                    src={advertisers[1].logo_url}
+                                    alt={advertisers[1].company_name}
+                                    style={advertiserLogo}
+                                  />
+                                </td>
+                              </tr>
+                              <tr>
+                                <td>
+                                  <Text style={advertiserTagline}>
+                                    {advertisers[1].tagline}
+                                  </Text>
+                                </td>
+                              </tr>
+                            </tbody>
+                          </table>
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                </Link>
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      )}
+    </Section>
+  );
+};
+
 export const DailyDigestEmail = ({
   loungeName,
   loungeDescription,
@@ -199,7 +447,13 @@ export const DailyDigestEmail = ({
   aiNewsSummary,
   stockMovers,
   advertisers,
+  advertisersSlot,
+  trackLink,
+  openPixelUrl,
+  webVersionUrl,
+  webVersion,
 }: DailyDigestEmailProps) => {
+  const track = trackLink || ((url: string) => url);
   const previewText = `Your ${loungeName} Daily Digest - ${content.length} updates`;
 
   // Determine logo based on lounge name
@@ -230,6 +484,14 @@ export const DailyDigestEmail = ({
       <Preview>{previewText}</Preview>
       <Body style={main}>
         <Container style={container}>
+          {webVersionUrl && (
+            <Text style={webVersionText}>
+              <Link href={webVersionUrl} style={footerLink}>
+                View in browser
+              </Link>
+            </Text>
+          )}
+
           {/* Header with Logo, Subheading, and Date */}
           <Section style={header}>
             <Img src={logoUrl} height="40" alt={loungeName} style={logo} />
@@ -238,216 +500,11 @@ export const DailyDigestEmail = ({
           </Section>
 
           {/* Advertisers Section */}
-          {advertisers && advertisers.length > 0 && (
-            <Section style={advertiserSection}>
-              <Text style={advertiserSectionTitle}>Presented By</Text>
-              {advertisers.length === 1 ? (
-                // Single advertiser - center it
-                <table width="100%" cellPadding="0" cellSpacing="0" border={0}>
-                  <tbody>
-                    <tr>
-                      <td align="center">
-                        <Link
-                          href={advertisers[0].link_url}
-                          style={{
-                            textDecoration: 'none',
-                            display: 'inline-block',
-                          }}
-                        >
-                          <table cellPadding="0" cellSpacing="0" border={0}>
-                            <tbody>
-                              <tr>
-                                <td
-                                  style={{
-                                    ...advertiserCard,
-                                    maxWidth: '280px',
-                                  }}
-                                >
-                                  <table
-                                    width="100%"
-                                    cellPadding="0"
-                                    cellSpacing="0"
-                                    border={0}
-                                  >
-                                    <tbody>
-                                      <tr>
-                                        <td
-                                          style={{
-                                            padding: '4px',
-                                            textAlign: 'center',
-                                            height: '25px',
-                                            verticalAlign: 'middle',
-                                            backgroundColor: '#ffffff',
-                                            borderRadius: '4px',
-                                          }}
-                                        >
-                                          <Img
-                                            src={advertisers[0].logo_url}
-                                            alt={advertisers[0].company_name}
-                                            style={advertiserLogo}
-                                          />
-                                        </td>
-                                      </tr>
-                                      <tr>
-                                        <td>
-                                          <Text style={advertiserTagline}>
-                                            {advertisers[0].tagline}
-                                          </Text>
-                                        </td>
-                                      </tr>
-                                    </tbody>
-                                  </table>
-                                </td>
-                              </tr>
-                            </tbody>
-                          </table>
-                        </Link>
-                      </td>
-                    </tr>
-                  </tbody>
-                </table>
-              ) : (
-                // Two advertisers - side by side with proper scaling
-                <table width="100%" cellPadding="0" cellSpacing="0" border={0}>
-                  <tbody>
-                    <tr>
-                      <td
-                        width="49%"
-                        style={{
-                          verticalAlign: 'top',
-                          backgroundColor: '#ffffff',
-                          border: '1px solid #e5e7eb',
-                          borderRadius: '6px',
-                        }}
-                      >
-                        <Link
-                          href={advertisers[0].link_url}
-                          style={{ textDecoration: 'none', display: 'block' }}
-                        >
-                          <table
-                            width="100%"
-                            cellPadding="0"
-                            cellSpacing="0"
-                            border={0}
-                          >
-                            <tbody>
-                              <tr>
-                                <td style={advertiserCardNoBg}>
-                                  <table
-                                    width="100%"
-                                    cellPadding="0"
-                                    cellSpacing="0"
-                                    border={0}
-                                  >
-                                    <tbody>
-                                      <tr>
-                                        <td
-                                          style={{
-                                            padding: '4px',
-                                            textAlign: 'center',
-                                            height: '25px',
-                                            verticalAlign: 'middle',
-                                            backgroundColor: '#ffffff',
-                                            borderRadius: '4px',
-                                          }}
-                                        >
-                                          <Img
-                                            src={advertisers[0].logo_url}
-                                            alt={advertisers[0].company_name}
-                                            style={advertiserLogo}
-                                          />
-                                        </td>
-                                      </tr>
-                                      <tr>
-                                        <td>
-                                          <Text style={advertiserTagline}>
-                                            {advertisers[0].tagline}
-                                          </Text>
-                                        </td>
-                                      </tr>
-                                    </tbody>
-                                  </table>
-                                </td>
-                              </tr>
-                            </tbody>
-                          </table>
-                        </Link>
-                      </td>
-                      <td
-                        width="12"
-                        style={{
-                          width: '12px',
-                          minWidth: '12px',
-                          maxWidth: '12px',
-                        }}
-                      ></td>
-                      <td
-                        width="49%"
-                        style={{
-                          verticalAlign: 'top',
-                          backgroundColor: '#ffffff',
-                          border: '1px solid #e5e7eb',
-                          borderRadius: '6px',
-                        }}
-                      >
-                        <Link
-                          href={advertisers[1].link_url}
-                          style={{ textDecoration: 'none', display: 'block' }}
-                        >
-                          <table
-                            width="100%"
-                            cellPadding="0"
-                            cellSpacing="0"
-                            border={0}
-                          >
-                            <tbody>
-                              <tr>
-                                <td style={advertiserCardNoBg}>
-                                  <table
-                                    width="100%"
-                                    cellPadding="0"
-                                    cellSpacing="0"
-                                    border={0}
-                                  >
-                                    <tbody>
-                                      <tr>
-                                        <td
-                                          style={{
-                                            padding: '4px',
-                                            textAlign: 'center',
-                                            height: '25px',
-                                            verticalAlign: 'middle',
-                                            backgroundColor: '#ffffff',
-                                            borderRadius: '4px',
-                                          }}
-                                        >
-                                          <Img
-                                            src={advertisers[1].logo_url}
-                                            alt={advertisers[1].company_name}
-                                            style={advertiserLogo}
-                                          />
-                                        </td>
-                                      </tr>
-                                      <tr>
-                                        <td>
-                                          <Text style={advertiserTagline}>
-                                            {advertisers[1].tagline}
-                                          </Text>
-                                        </td>
-                                      </tr>
-                                    </tbody>
-                                  </table>
-                                </td>
-                              </tr>
-                            </tbody>
-                          </table>
-                        </Link>
-                      </td>
-                    </tr>
-                  </tbody>
-                </table>
-              )}
-            </Section>
+          {advertisersSlot ?? (
+            <DailyDigestAdvertisers
+              advertisers={advertisers}
+              trackLink={trackLink}
+            />
           )}
 
           <Section style={{ padding: '0 10px' }}>
@@ -489,7 +546,10 @@ export const DailyDigestEmail = ({
                 <Heading as="h3" style={bigStoryHeadline}>
                   {aiNewsSummary.bigStory.sourceUrl ? (
                     <Link
-                      href={aiNewsSummary.bigStory.sourceUrl}
+                      href={track(
+                        aiNewsSummary.bigStory.sourceUrl,
+                        'big_story'
+                      )}
                       style={bigStoryHeadlineLink}
                     >
                       {aiNewsSummary.bigStory.title}
@@ -511,7 +571,7 @@ export const DailyDigestEmail = ({
                 </Text>
                 {aiNewsSummary.bigStory.sourceUrl && (
                   <Link
-                    href={aiNewsSummary.bigStory.sourceUrl}
+                    href={track(aiNewsSummary.bigStory.sourceUrl, 'big_story')}
                     style={summaryLink}
                   >
                     Read more →
@@ -575,7 +635,11 @@ export const DailyDigestEmail = ({
                               <Text style={newsItemText}>
                                 {bullet.sourceUrl ? (
                                   <Link
-                                    href={bullet.sourceUrl}
+                                    href={track(
+                                      bullet.sourceUrl,
+                                      'news',
+                                      String(index + 1)
+                                    )}
                                     style={newsItemLink}
                                   >
                                     {bullet.text}
@@ -685,7 +749,11 @@ export const DailyDigestEmail = ({
                                   <Text style={newsItemText}>
                                     {item.sourceUrl ? (
                                       <Link
-                                        href={item.sourceUrl}
+                                        href={track(
+                                          item.sourceUrl,
+                                          'special',
+                                          String(index + 1)
+                                        )}
                                         style={newsItemLink}
                                       >
                                         {item.text}
@@ -851,7 +919,10 @@ export const DailyDigestEmail = ({
                               <Text
                                 style={{ margin: '0', marginBottom: '2px' }}
                               >
-                                <Link href={post.url} style={socialPostTitle}>
+                                <Link
+                                  href={track(post.url, 'social', post.id)}
+                                  style={socialPostTitle}
+                                >
                                   {post.title.length > 80
                                     ? post.title.substring(0, 80) + '...'
                                     : post.title}
@@ -1184,29 +1255,35 @@ export const DailyDigestEmail = ({
           {/* Footer */}
           <Section style={footer}>
             <Text style={footerText}>
-              You're receiving this because you're subscribed to the{' '}
-              {loungeName} Daily Digest from Pulse.
-            </Text>
-            <Text style={footerLinks}>
-              <Link href={unsubscribeUrl} style={footerLink}>
-                Unsubscribe
-              </Link>
-              {' • '}
-              <Link
-                href="https://lounge.ai/settings/account"
-                style={footerLink}
-              >
-                Email Preferences
-              </Link>
-              {' • '}
-              <Link href="https://lounge.ai/dashboard" style={footerLink}>
-                Visit Dashboard
-              </Link>
+              {webVersion
+                ? `You're reading the web archive of the ${loungeName} Daily Digest from Pulse.`
+                : `You're receiving this because you're subscribed to the ${loungeName} Daily Digest from Pulse.`}
             </Text>
+            {!webVersion && (
+              <Text style={footerLinks}>
+                <Link href={unsubscribeUrl} style={footerLink}>
+                  Unsubscribe
+                </Link>
+                {' • '}
+                <Link
+                  href="https://lounge.ai/settings/account"
+                  style={footerLink}
+                >
+                  Email Preferences
+                </Link>
+                {' • '}
+                <Link href="https://lounge.ai/dashboard" style={footerLink}>
+                  Visit Dashboard
+                </Link>
+              </Text>
+            )}
             <Text style={copyright}>
               © {new Date().getFullYear()} Pulse. All rights reserved.
             </Text>
           </Section>
+          {openPixelUrl && (
+            <Img src={openPixelUrl} width="1" height="1" alt="" />
+          )}
         </Container>
       </Body>
     </Html>
@@ -1815,6 +1892,13 @@ const footerLink = {
   textDecoration: 'underline',
 };
 
+const webVersionText = {
+  color: '#8898aa',
+  fontSize: '11px',
+  textAlign: 'center' as const,
+  margin: '0 0 10px 0',
+};
+
 const copyright = {
   color: '#8898aa',
   fontSize: '11px',
@@ -0,0 +1,565 @@
+import {
+  Body,
+  Container,
+  Head,
+  Heading,
+  Hr,
+  Html,
+  Img,
+  Link,
+  Preview,
+  Section,
+  Text,
+} from '@react-email/components';
+import * as React from 'react';
+import type { DigestAdvertiser } from '@/types/advertiser';
+import type { DigestLinkSection } from '@/types/digest';
+
+interface WeeklyItem {
+  id: string;
+  title: string;
+  url: string;
+  creator_name: string;
+  platform: 'youtube' | 'twitter' | 'linkedin' | 'threads' | 'rss' | 'website';
+  thumbnail_url?: string;
+  ai_summary_short?: string;
+  saves?: number;
+  engagement_metrics?: {
+    likes?: number;
+    views?: number;
+    shares?: number;
+    comments?: number;
+  };
+}
+
+interface WeeklyTheme {
+  title: string;
+  summary?: string;
+  items: WeeklyItem[];
+}
+
+interface DiscussedTopic {
+  title: string;
+  url: string;
+  summary?: string;
+  creators: string[];
+}
+
+interface WeeklyDigestEmailProps {
+  loungeName: string;
+  loungeDescription: string;
+  // e.g. "October 12 – October 18"
+  weekLabel: string;
+  narrative?: string;
+  themes: WeeklyTheme[];
+  mostDiscussed: DiscussedTopic[];
+  recipientEmail: string;
+  unsubscribeUrl: string;
+  advertisers?: DigestAdvertiser[];
+  // Stands in for the advertisers section when sponsors are chosen per
+  // recipient at send time
+  advertisersSlot?: string;
+  // Wraps outbound links for click tracking; links are left as-is without it
+  trackLink?: (
+    url: string,
+    section: DigestLinkSection,
+    target?: string
+  ) => string;
+  openPixelUrl?: string;
+  // This edition in the web archive, linked above the header
+  webVersionUrl?: string;
+  // Rendering for the web archive rather than an inbox
+  webVersion?: boolean;
+}
+
+const baseUrl = 'https://lounge.ai';
+
+const platformLabels: Record<string, string> = {
+  youtube: 'YouTube',
+  twitter: 'X',
+  linkedin: 'LinkedIn',
+  threads: 'Threads',
+  rss: 'Blog',
+  website: 'Web',
+};
+
+// Helper function to format large counts (1.2K, 3.4M)
+const formatCount = (count: number): string => {
+  if (count >= 1000000) return `${(count / 1000000).toFixed(1)}M`;
+  if (count >= 1000) return `${(count / 1000).toFixed(1)}K`;
+  return String(Math.round(count));
+};
+
+const getItemMeta = (item: WeeklyItem): string => {
+  const parts = [
+    item.creator_name,
+    platformLabels[item.platform] || item.platform,
+  ];
+  if (item.engagement_metrics?.likes) {
+    parts.push(`${formatCount(item.engagement_metrics.likes)} likes`);
+  }
+  if (item.saves) {
+    parts.push(`${item.saves} ${item.saves === 1 ? 'save' : 'saves'}`);
+  }
+  return parts.join(' • ');
+};
+
+// "Presented By" sponsor block, also rendered per recipient at send time
+export const WeeklyDigestAdvertisers = ({
+  advertisers,
+  trackLink,
+}: {
+  advertisers?: DigestAdvertiser[];
+  trackLink?: WeeklyDigestEmailProps['trackLink'];
+}) => {
+  const track = trackLink || ((url: string) => url);
+
+  if (!advertisers || advertisers.length === 0) return null;
+
+  return (
+    <Section style={advertiserSection}>
+      <Text style={sectionLabel}>Presented By</Text>
+      {advertisers.map((advertiser) => (
+        <Link
+          key={advertiser.position}
+          href={track(
+            advertiser.link_url,
+            'advertiser',
+            advertiser.id || advertiser.company_name
+          )}
+          style={advertiserLink}
+        >
+          <Img
+            src={advertiser.logo_url}
+            alt={advertiser.company_name}
+            style={advertiserLogo}
+          />
+          <Text style={advertiserTagline}>{advertiser.tagline}</Text>
+        </Link>
+      ))}
+    </Section>
+  );
+};
+
+export const WeeklyDigestEmail = ({
+  loungeName,
+  loungeDescription,
+  weekLabel,
+  narrative,
+  themes,
+  mostDiscussed,
+  recipientEmail,
+  unsubscribeUrl,
+  advertisers,
+  advertisersSlot,
+  trackLink,
+  openPixelUrl,
+  webVersionUrl,
+  webVersion,
+}: WeeklyDigestEmailProps) => {
+  const track = trackLink || ((url: string) => url);
+  const itemCount = themes.reduce((sum, theme) => sum + theme.items.length, 0);
+  const previewText = `The best of ${loungeName} this week - ${itemCount} top posts`;
+
+  return (
+    <Html>
+      <Head />
+      <Preview>{previewText}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          {webVersionUrl && (
+            <Text style={webVersionText}>
+              <Link href={webVersionUrl} style={footerLink}>
+                View in browser
+              </Link>
+            </Text>
+          )}
+
+          {/* Header */}
+          <Section style={header}>
+            <Text style={eyebrow}>Weekly Best Of</Text>
+            <Heading style={loungeTitle}>{loungeName}</Heading>
+            <Text style={loungeDesc}>{loungeDescription}</Text>
+            <Text style={dateText}>{weekLabel}</Text>
+          </Section>
+
+          {/* Advertisers Section */}
+          {advertisersSlot ?? (
+            <WeeklyDigestAdvertisers
+              advertisers={advertisers}
+              trackLink={trackLink}
+            />
+          )}
+
+          {/* Narrative */}
+          {narrative && (
+            <Section style={section}>
+              <Text style={sectionTitle}>The Week in {loungeName}</Text>
+              <Text style={narrativeText}>{narrative}</Text>
+            </Section>
+          )}
+
+          {/* Most Discussed */}
+          {mostDiscussed.length > 0 && (
+            <>
+              <Section style={{ padding: '0 10px' }}>
+                <Hr style={divider} />
+              </Section>
+              <Section style={section}>
+                <Text style={sectionTitle}>🔥 Most Discussed</Text>
+                {mostDiscussed.map((topic, i) => (
+                  <div key={i} style={topicContainer}>
+                    <Link
+                      href={track(topic.url, 'most_discussed', String(i + 1))}
+                      style={itemLink}
+                    >
+                      {topic.title}
+                    </Link>
+                    {topic.summary && (
+                      <Text style={itemSummary}>{topic.summary}</Text>
+                    )}
+                    <Text style={itemMeta}>
+                      Covered by {topic.creators.length} creators:{' '}
+                      {topic.creators.slice(0, 4).join(', ')}
+                      {topic.creators.length > 4 &&
+                        ` and ${topic.creators.length - 4} more`}
+                    </Text>
+                  </div>
+                ))}
+              </Section>
+            </>
+          )}
+
+          {/* Themes */}
+          {themes.map((theme, themeIndex) => (
+            <React.Fragment key={themeIndex}>
+              <Section style={{ padding: '0 10px' }}>
+                <Hr style={divider} />
+              </Section>
+              <Section style={section}>
+                <Text style={sectionTitle}>{theme.title}</Text>
+                {theme.summary && (
+                  <Text style={themeSummary}>{theme.summary}</Text>
+                )}
+                {theme.items.map((item) => (
+                  <table
+                    key={item.id}
+                    width="100%"
+                    cellPadding="0"
+                    cellSpacing="0"
+                    border={0}
+                    style={itemContainer}
+                  >
+                    <tbody>
+                      <tr>
+                        {item.thumbnail_url && (
+                          <td width="88" style={{ verticalAlign: 'top' }}>
+                            <Img
+                              src={item.thumbnail_url}
+                              width="80"
+                              height="80"
+                              alt=""
+                              style={thumbnail}
+                            />
+                          </td>
+                        )}
+                        <td style={{ verticalAlign: 'top' }}>
+                          <Link
+                            href={track(item.url, 'theme', item.id)}
+                            style={itemLink}
+                          >
+                            {item.title}
+                          </Link>
+                          {item.ai_summary_short && (
+                            <Text style={itemSummary}>
+                              {item.ai_summary_short}
+                            </Text>
+                          )}
+                          <Text style={itemMeta}>{getItemMeta(item)}</Text>
+                        </td>
+                      </tr>
+                    </tbody>
+                  </table>
+                ))}
+              </Section>
+            </React.Fragment>
+          ))}
+
+          {/* Footer */}
+          <Section style={footer}>
+            <Text style={footerText}>
+              {webVersion
+                ? `You're reading the web archive of the ${loungeName} Weekly Best Of from Pulse.`
+                : `You're receiving this because you're subscribed to the ${loungeName} Weekly Best Of from Pulse as ${recipientEmail}.`}
+            </Text>
+            {!webVersion && (
+              <Text style={footerLinks}>
+                <Link href={unsubscribeUrl} style={footerLink}>
+                  Unsubscribe
+                </Link>
+                {' • '}
+                <Link
+                  href={`${baseUrl}/settings/notifications`}
+                  style={footerLink}
+                >
+                  Email Preferences
+                </Link>
+                {' • '}
+                <Link href={`${baseUrl}/dashboard`} style={footerLink}>
+                  Visit Dashboard
+                </Link>
+              </Text>
+            )}
+            <Text style={copyright}>
+              © {new Date().getFullYear()} Pulse. All rights reserved.
+            </Text>
+          </Section>
+          {openPixelUrl && (
+            <Img src={openPixelUrl} width="1" height="1" alt="" />
+          )}
+        </Container>
+      </Body>
+    </Html>
+  );
+};
+
+WeeklyDigestEmail.PreviewProps = {
+  loungeName: 'SaaS',
+  loungeDescription: 'Making You Smarter Every Morning',
+  weekLabel: 'October 12 – October 18',
+  recipientEmail: 'user@example.com',
+  unsubscribeUrl: 'https://lounge.ai/settings/account',
+  narrative:
+    'Pricing dominated the conversation this week as three public SaaS companies moved to usage-based plans. AI agents kept pushing into support and sales tooling, and founders traded notes on efficient growth as funding stayed selective.',
+  mostDiscussed: [
+    {
+      title: 'Salesforce announces new AI-powered CRM features',
+      url: 'https://example.com/salesforce-ai',
+      summary:
+        'Einstein GPT integration brings automation across the Salesforce suite.',
+      creators: ['Jason Lemkin', 'Sarah Chen', 'TechCrunch', 'Aaron Levie'],
+    },
+  ],
+  themes: [
+    {
+      title: 'The pricing reset',
+      summary: 'Seat-based pricing keeps losing ground to usage and outcomes.',
+      items: [
+        {
+          id: '1',
+          title: 'Why SaaS pricing is broken and how to fix it',
+          url: 'https://example.com/post1',
+          creator_name: 'Sarah Chen',
+          platform: 'linkedin',
+          ai_summary_short:
+            'A 10-point framework for moving to value-based pricing.',
+          saves: 42,
+          engagement_metrics: { likes: 3456 },
+        },
+      ],
+    },
+    {
+      title: 'Agents at work',
+      items: [
+        {
+          id: '2',
+          title: 'Building a $10M ARR SaaS in stealth mode',
+          url: 'https://youtube.com/watch?v=example',
+          creator_name: 'Maria Santos',
+          platform: 'youtube',
+          thumbnail_url:
+            'https://images.unsplash.com/photo-1551288049-bebda4e38f71?w=120&h=120&fit=crop',
+          ai_summary_short:
+            'How to build a profitable SaaS without any marketing or PR',
+          saves: 12,
+          engagement_metrics: { likes: 890, views: 89000 },
+        },
+      ],
+    },
+  ],
+} as WeeklyDigestEmailProps;
+
+export default WeeklyDigestEmail;
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily:
+    '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px',
+  marginBottom: '64px',
+  borderRadius: '5px',
+  maxWidth: '600px',
+};
+
+const header = {
+  padding: '6px 10px 20px',
+  textAlign: 'center' as const,
+};
+
+const eyebrow = {
+  color: '#556cd6',
+  fontSize: '12px',
+  fontWeight: '600',
+  letterSpacing: '1px',
+  textTransform: 'uppercase' as const,
+  margin: '0 0 4px 0',
+};
+
+const loungeTitle = {
+  color: '#1a1a1a',
+  fontSize: '28px',
+  fontWeight: 'bold',
+  margin: '0 0 4px 0',
+};
+
+const loungeDesc = {
+  color: '#4a5568',
+  fontSize: '15px',
+  margin: '0 0 4px 0',
+  fontWeight: '500',
+  letterSpacing: '0.2px',
+};
+
+const dateText = {
+  color: '#8898aa',
+  fontSize: '13px',
+  margin: '8px 0 0 0',
+  fontWeight: '400',
+};
+
+const divider = {
+  borderColor: '#e6ebf1',
+  margin: '15px 0',
+};
+
+const section = {
+  padding: '0 10px',
+};
+
+const sectionLabel = {
+  color: '#8898aa',
+  fontSize: '11px',
+  textAlign: 'center' as const,
+  textTransform: 'uppercase' as const,
+  letterSpacing: '1px',
+  margin: '0 0 8px 0',
+};
+
+const sectionTitle = {
+  color: '#1a1a1a',
+  fontSize: '18px',
+  fontWeight: '600',
+  margin: '0 0 12px 0',
+};
+
+const narrativeText = {
+  color: '#4a5568',
+  fontSize: '15px',
+  lineHeight: '1.6',
+  margin: '0',
+};
+
+const themeSummary = {
+  color: '#6b7280',
+  fontSize: '14px',
+  fontStyle: 'italic' as const,
+  margin: '-6px 0 12px 0',
+};
+
+const topicContainer = {
+  marginBottom: '16px',
+};
+
+const itemContainer = {
+  marginBottom: '16px',
+};
+
+const thumbnail = {
+  borderRadius: '6px',
+  objectFit: 'cover' as const,
+};
+
+const itemLink = {
+  color: '#1a1a1a',
+  fontSize: '15px',
+  fontWeight: '600',
+  lineHeight: '1.4',
+  textDecoration: 'none',
+};
+
+const itemSummary = {
+  color: '#4a5568',
+  fontSize: '14px',
+  lineHeight: '1.5',
+  margin: '4px 0',
+};
+
+const itemMeta = {
+  color: '#8898aa',
+  fontSize: '12px',
+  margin: '4px 0 0 0',
+};
+
+const advertiserSection = {
+  padding: '0 10px 10px',
+  textAlign: 'center' as const,
+};
+
+const advertiserLink = {
+  display: 'block',
+  textDecoration: 'none',
+  marginBottom: '8px',
+};
+
+const advertiserLogo = {
+  maxHeight: '25px',
+  width: 'auto',
+  margin: '0 auto',
+};
+
+const advertiserTagline = {
+  color: '#4a5568',
+  fontSize: '12px',
+  margin: '4px 0 0 0',
+};
+
+const footer = {
+  padding: '20px 10px',
+  textAlign: 'center' as const,
+};
+
+const footerText = {
+  color: '#8898aa',
+  fontSize: '12px',
+  margin: '0 0 10px 0',
+};
+
+const footerLinks = {
+  color: '#8898aa',
+  fontSize: '12px',
+  margin: '0 0 10px 0',
+};
+
+const footerLink = {
+  color: '#556cd6',
+  textDecoration: 'underline',
+};
+
+const webVersionText = {
+  color: '#8898aa',
+  fontSize: '11px',
+  textAlign: 'center' as const,
+  margin: '0 0 10px 0',
+};
+
+const copyright = {
+  color: '#8898aa',
+  fontSize: '11px',
+  margin: '10px 0 0 0',
+};
@@ -4,18 +4,16 @@ import { useState, useEffect, useCallback, useRef } from 'react';
 import { toast } from 'sonner';
 import { useAuth } from './use-auth';
 import { createBrowserSupabaseClient } from '@/lib/supabase';
-import type { ContentWithCreator } from '@/types/content';
+import type { ContentWithCreator, Platform } from '@/types/content';
 import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { useViewportInfo } from './use-viewport-info';
 
 export interface ContentFilters {
-  platforms?: Array<
-    'youtube' | 'twitter' | 'linkedin' | 'threads' | 'rss' | 'website'
-  >;
+  platforms?: Array<Platform>;
   creator_id?: string;
   lounge_id?: string;
   search?: string;
-  sort_by?: 'published_at' | 'created_at';
+  sort_by?: 'relevance' | 'published_at' | 'created_at';
   sort_order?: 'asc' | 'desc';
   page?: number;
   limit?: number;
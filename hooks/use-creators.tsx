@@ -98,7 +98,9 @@ export function useCreators(initialFilters: Partial<CreatorFilters> = {}) {
           // Fetch all URLs with abort signal
           const { data: urls } = await supabase
             .from('creator_urls')
-            .select('id, creator_id, platform, url, validation_status')
+            .select(
+              'id, creator_id, platform, url, validation_status, last_success_at, failing_since, consecutive_failures, last_error'
+            )
             .in('creator_id', creatorIds)
             .abortSignal(abortController.signal);
 
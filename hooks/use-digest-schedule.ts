@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type { DigestSchedule, UpdateDigestScheduleInput } from '@/types/digest';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data;
+}
+
+export function useDigestSchedule() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: ['digest-schedule'],
+    queryFn: () =>
+      request<{ schedule: DigestSchedule }>('/api/digest-schedule'),
+    select: (data) => data.schedule,
+  });
+
+  const updateSchedule = useMutation({
+    mutationFn: (input: UpdateDigestScheduleInput) =>
+      request<{ schedule: DigestSchedule }>('/api/digest-schedule', {
+        method: 'PUT',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: (data) => {
+      queryClient.setQueryData(['digest-schedule'], data);
+      toast.success('Digest schedule saved');
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { ...query, updateSchedule };
+}
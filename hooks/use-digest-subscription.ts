@@ -1,9 +1,8 @@
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
+import type { LoungeDigestSubscription } from '@/types/digest';
 
-interface DigestSubscriptionData {
-  subscribed: boolean;
-}
+type DigestSubscriptionData = LoungeDigestSubscription;
 
 async function fetchDigestSubscription(
   loungeId: string
@@ -17,14 +16,14 @@ async function fetchDigestSubscription(
 
 async function updateDigestSubscription(
   loungeId: string,
-  subscribed: boolean
+  changes: Partial<DigestSubscriptionData>
 ): Promise<DigestSubscriptionData> {
   const response = await fetch(`/api/lounges/${loungeId}/digest`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
     },
-    body: JSON.stringify({ subscribed }),
+    body: JSON.stringify(changes),
   });
 
   if (!response.ok) {
@@ -48,9 +47,9 @@ export function useDigestSubscription(loungeId: string | null) {
 
   // Mutation for updating subscription
   const mutation = useMutation({
-    mutationFn: (newStatus: boolean) =>
-      updateDigestSubscription(loungeId!, newStatus),
-    onMutate: async (newStatus) => {
+    mutationFn: (changes: Partial<DigestSubscriptionData>) =>
+      updateDigestSubscription(loungeId!, changes),
+    onMutate: async (changes) => {
       // Cancel any outgoing refetches to prevent overwriting our optimistic update
       await queryClient.cancelQueries({
         queryKey: ['lounge-digest-subscription', loungeId],
@@ -65,24 +64,37 @@ export function useDigestSubscription(loungeId: string | null) {
       // Optimistically update to the new value
       queryClient.setQueryData<DigestSubscriptionData>(
         ['lounge-digest-subscription', loungeId],
-        { subscribed: newStatus }
+        {
+          subscribed: previousData?.subscribed ?? false,
+          weekly_subscribed: previousData?.weekly_subscribed ?? false,
+          ...changes,
+        }
       );
 
       // Return a context object with the snapshotted value
       return { previousData };
     },
-    onSuccess: (data, newStatus) => {
+    onSuccess: (data, changes) => {
       // Show success toast
-      toast.success(
-        newStatus
-          ? '📧 Daily digest enabled for this lounge'
-          : 'Daily digest disabled for this lounge'
-      );
+      if (changes.subscribed !== undefined) {
+        toast.success(
+          changes.subscribed
+            ? '📧 Daily digest enabled for this lounge'
+            : 'Daily digest disabled for this lounge'
+        );
+      }
+      if (changes.weekly_subscribed !== undefined) {
+        toast.success(
+          changes.weekly_subscribed
+            ? '📧 Weekly best-of enabled for this lounge'
+            : 'Weekly best-of disabled for this lounge'
+        );
+      }
 
       // No need to invalidate content queries for digest subscription
       // as it doesn't affect the feed display
     },
-    onError: (error, newStatus, context) => {
+    onError: (error, changes, context) => {
       // If the mutation fails, use the context returned from onMutate to roll back
       if (context?.previousData) {
         queryClient.setQueryData(
@@ -105,13 +117,20 @@ export function useDigestSubscription(loungeId: string | null) {
   const toggleSubscription = () => {
     if (!loungeId || mutation.isPending) return;
 
-    const newStatus = !(data?.subscribed ?? false);
-    mutation.mutate(newStatus);
+    mutation.mutate({ subscribed: !(data?.subscribed ?? false) });
+  };
+
+  const toggleWeeklySubscription = () => {
+    if (!loungeId || mutation.isPending) return;
+
+    mutation.mutate({ weekly_subscribed: !(data?.weekly_subscribed ?? false) });
   };
 
   return {
     subscribed: data?.subscribed ?? false,
+    weeklySubscribed: data?.weekly_subscribed ?? false,
     loading: isLoading || mutation.isPending,
     toggleSubscription,
+    toggleWeeklySubscription,
   };
 }
@@ -4,18 +4,16 @@ import { useInfiniteQuery } from '@tanstack/react-query';
 import { useCallback, useMemo, useRef, useEffect } from 'react';
 import { toast } from 'sonner';
 import { useAuth } from './use-auth';
-import type { ContentWithCreator } from '@/types/content';
+import type { ContentWithCreator, Platform } from '@/types/content';
 
 const ITEMS_PER_PAGE = 50; // Larger batch size for fewer loading interruptions
 
 export interface ContentFilters {
-  platforms?: Array<
-    'youtube' | 'twitter' | 'linkedin' | 'threads' | 'rss' | 'website'
-  >;
+  platforms?: Array<Platform>;
   creator_id?: string;
   lounge_id?: string;
   search?: string;
-  sort_by?: 'published_at' | 'created_at';
+  sort_by?: 'relevance' | 'published_at' | 'created_at';
   sort_order?: 'asc' | 'desc';
 }
 
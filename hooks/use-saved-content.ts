@@ -0,0 +1,138 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type {
+  BulkSavedAction,
+  CreateCollectionInput,
+  SavedCollection,
+  SavedFilters,
+  SavedItem,
+  SavedListResponse,
+  UpdateCollectionInput,
+  UpdateSavedItemInput,
+} from '@/types/saved';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data;
+}
+
+function toSearchParams(filters: SavedFilters): string {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params.toString();
+}
+
+export function useSavedItems(filters: SavedFilters) {
+  return useQuery({
+    queryKey: ['saved-items', filters],
+    queryFn: () =>
+      request<SavedListResponse>(`/api/saved?${toSearchParams(filters)}`),
+    placeholderData: keepPreviousData,
+    staleTime: 30 * 1000, // 30 seconds
+  });
+}
+
+export function useSavedCollections() {
+  return useQuery({
+    queryKey: ['saved-collections'],
+    queryFn: () =>
+      request<{ collections: SavedCollection[] }>('/api/saved/collections'),
+    select: (data) => data.collections,
+    staleTime: 60 * 1000, // 1 minute
+  });
+}
+
+export function useSavedMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['saved-items'] });
+    queryClient.invalidateQueries({ queryKey: ['saved-collections'] });
+  };
+  const onError = (error: Error) => toast.error(error.message);
+
+  const updateItem = useMutation({
+    mutationFn: ({ id, ...input }: UpdateSavedItemInput & { id: string }) =>
+      request<{ item: SavedItem }>(`/api/saved/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteItem = useMutation({
+    mutationFn: (id: string) =>
+      request(`/api/saved/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      toast.success('Removed from saved items');
+      invalidate();
+    },
+    onError,
+  });
+
+  const bulkAction = useMutation({
+    mutationFn: (input: BulkSavedAction) =>
+      request<{ updated: number }>('/api/saved/bulk', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: ({ updated }) => {
+      toast.success(`Updated ${updated} item${updated === 1 ? '' : 's'}`);
+      invalidate();
+    },
+    onError,
+  });
+
+  const createCollection = useMutation({
+    mutationFn: (input: CreateCollectionInput) =>
+      request<{ collection: SavedCollection }>('/api/saved/collections', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const updateCollection = useMutation({
+    mutationFn: ({ id, ...input }: UpdateCollectionInput & { id: string }) =>
+      request<{ collection: SavedCollection }>(`/api/saved/collections/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const deleteCollection = useMutation({
+    mutationFn: (id: string) =>
+      request(`/api/saved/collections/${id}`, { method: 'DELETE' }),
+    onSuccess: invalidate,
+    onError,
+  });
+
+  return {
+    updateItem,
+    deleteItem,
+    bulkAction,
+    createCollection,
+    updateCollection,
+    deleteCollection,
+  };
+}
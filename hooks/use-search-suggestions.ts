@@ -1,7 +1,14 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useDebounce } from '@/hooks/use-debounce';
+import {
+  getOperatorSuggestions,
+  parseSearchQuery,
+  type OperatorSuggestion,
+} from '@/lib/services/search-service';
+
+export type { OperatorSuggestion };
 
 export interface CreatorSuggestion {
   id: string;
@@ -20,83 +27,162 @@ export interface ContentSuggestion {
 }
 
 export interface SearchSuggestions {
+  operators: OperatorSuggestion[];
   creators: CreatorSuggestion[];
   content: ContentSuggestion[];
   isLoading: boolean;
 }
 
+const EMPTY_SUGGESTIONS: SearchSuggestions = {
+  operators: [],
+  creators: [],
+  content: [],
+  isLoading: false,
+};
+
+// The from: value being typed at the end of the query, if any
+const FROM_OPERATOR_PATTERN = /(?:^|\s)from:"?([^"\s]*)$/i;
+
 export function useSearchSuggestions(query: string, enabled: boolean = true) {
-  const [suggestions, setSuggestions] = useState<SearchSuggestions>({
-    creators: [],
-    content: [],
-    isLoading: false,
-  });
+  const [suggestions, setSuggestions] =
+    useState<SearchSuggestions>(EMPTY_SUGGESTIONS);
+  const loungeNames = useRef<string[] | null>(null);
 
   const debouncedQuery = useDebounce(query, 300);
 
-  const fetchSuggestions = useCallback(async (searchQuery: string) => {
-    if (!searchQuery.trim() || searchQuery.length < 2) {
-      setSuggestions({ creators: [], content: [], isLoading: false });
-      return;
-    }
-
-    setSuggestions((prev) => ({ ...prev, isLoading: true }));
+  // Lounge names for lounge: completions, loaded the first time they're needed
+  const getLoungeNames = useCallback(async () => {
+    if (loungeNames.current) return loungeNames.current;
 
     try {
-      // Fetch both creators and content in parallel
-      const [creatorsRes, contentRes] = await Promise.all([
-        fetch(
-          `/api/creators?search=${encodeURIComponent(searchQuery)}&limit=5`
-        ),
-        fetch(
-          `/api/content?search=${encodeURIComponent(searchQuery)}&limit=5&sort_by=published_at&sort_order=desc`
-        ),
-      ]);
-
-      let creators: CreatorSuggestion[] = [];
-      let content: ContentSuggestion[] = [];
-
-      if (creatorsRes.ok) {
-        const creatorsData = await creatorsRes.json();
-        creators = (creatorsData.data?.creators || []).map((c: any) => ({
-          id: c.id,
-          display_name: c.display_name,
-          platform: c.platform,
-          avatar_url: c.avatar_url,
-          handle: c.handle,
-        }));
-      }
+      const response = await fetch('/api/lounges?limit=100');
+      const data = await response.json();
+      loungeNames.current = (data.data?.lounges || []).map(
+        (lounge: { name: string }) => lounge.name
+      );
+    } catch {
+      loungeNames.current = [];
+    }
+    return loungeNames.current || [];
+  }, []);
 
-      if (contentRes.ok) {
-        const contentData = await contentRes.json();
-        content = (contentData.data || []).map((item: any) => ({
-          id: item.id,
-          title: item.title,
-          creator_name:
-            item.creator?.display_name || item.creator?.name || 'Unknown',
-          platform: item.platform,
-          published_at: item.published_at,
-        }));
+  const fetchSuggestions = useCallback(
+    async (searchQuery: string) => {
+      if (!searchQuery.trim() || searchQuery.length < 2) {
+        setSuggestions(EMPTY_SUGGESTIONS);
+        return;
       }
 
-      setSuggestions({
-        creators,
-        content,
-        isLoading: false,
-      });
-    } catch (error) {
-      console.error('Error fetching search suggestions:', error);
-      setSuggestions({
-        creators: [],
-        content: [],
-        isLoading: false,
-      });
-    }
-  }, []);
+      setSuggestions((prev) => ({ ...prev, isLoading: true }));
+
+      try {
+        const lastToken = searchQuery.split(/\s+/).pop() || '';
+        const operators = getOperatorSuggestions(searchQuery, {
+          lounges: /^lounge:/i.test(lastToken)
+            ? await getLoungeNames()
+            : undefined,
+        });
+
+        // While typing from:, complete creator names instead of searching
+        const fromMatch = searchQuery.match(FROM_OPERATOR_PATTERN);
+        if (fromMatch || lastToken.includes(':')) {
+          let creators: CreatorSuggestion[] = [];
+          if (fromMatch && fromMatch[1].length > 0) {
+            const creatorsRes = await fetch(
+              `/api/creators?search=${encodeURIComponent(fromMatch[1])}&limit=5`
+            );
+            if (creatorsRes.ok) {
+              const creatorsData = await creatorsRes.json();
+              creators = (creatorsData.data?.creators || []).map((c: any) => ({
+                id: c.id,
+                display_name: c.display_name,
+                platform: c.platform,
+                avatar_url: c.avatar_url,
+                handle: c.handle,
+              }));
+            }
+          }
+
+          setSuggestions({
+            operators: [
+              ...operators,
+              ...creators.map((creator) => {
+                const name = /\s/.test(creator.display_name)
+                  ? `"${creator.display_name}"`
+                  : creator.display_name;
+                return {
+                  query: searchQuery.replace(
+                    FROM_OPERATOR_PATTERN,
+                    (token) => `${token.match(/^\s/) ? ' ' : ''}from:${name} `
+                  ),
+                  label: `from:${name}`,
+                  description: 'Posts by a creator',
+                };
+              }),
+            ],
+            creators: [],
+            content: [],
+            isLoading: false,
+          });
+          return;
+        }
+
+        // Creator names are matched against the free text only
+        const parsed = parseSearchQuery(searchQuery);
+        const freeText =
+          [...parsed.terms, ...parsed.phrases].join(' ') || searchQuery;
+
+        // Fetch both creators and content in parallel
+        const [creatorsRes, contentRes] = await Promise.all([
+          fetch(`/api/creators?search=${encodeURIComponent(freeText)}&limit=5`),
+          fetch(
+            `/api/content?search=${encodeURIComponent(searchQuery)}&limit=5&sort_by=relevance`
+          ),
+        ]);
+
+        let creators: CreatorSuggestion[] = [];
+        let content: ContentSuggestion[] = [];
+
+        if (creatorsRes.ok) {
+          const creatorsData = await creatorsRes.json();
+          creators = (creatorsData.data?.creators || []).map((c: any) => ({
+            id: c.id,
+            display_name: c.display_name,
+            platform: c.platform,
+            avatar_url: c.avatar_url,
+            handle: c.handle,
+          }));
+        }
+
+        if (contentRes.ok) {
+          const contentData = await contentRes.json();
+          content = (contentData.content || []).map((item: any) => ({
+            id: item.id,
+            title: item.title,
+            creator_name:
+              item.creator?.display_name || item.creator?.name || 'Unknown',
+            platform: item.platform,
+            published_at: item.published_at,
+          }));
+        }
+
+        setSuggestions({
+          operators,
+          creators,
+          content,
+          isLoading: false,
+        });
+      } catch (error) {
+        console.error('Error fetching search suggestions:', error);
+        setSuggestions(EMPTY_SUGGESTIONS);
+      }
+    },
+    [getLoungeNames]
+  );
 
   useEffect(() => {
     if (!enabled) {
-      setSuggestions({ creators: [], content: [], isLoading: false });
+      setSuggestions(EMPTY_SUGGESTIONS);
       return;
     }
 
@@ -0,0 +1,98 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import type {
+  CreateWebhookInput,
+  UpdateWebhookInput,
+  WebhookDelivery,
+  WebhookEndpoint,
+} from '@/types/webhook';
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...init?.headers },
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Request failed');
+  }
+
+  return data;
+}
+
+export function useWebhooks() {
+  return useQuery({
+    queryKey: ['webhooks'],
+    queryFn: () => request<{ webhooks: WebhookEndpoint[] }>('/api/webhooks'),
+    select: (data) => data.webhooks,
+  });
+}
+
+export function useWebhookDeliveries(webhookId: string | null) {
+  return useQuery({
+    queryKey: ['webhook-deliveries', webhookId],
+    queryFn: () =>
+      request<{ deliveries: WebhookDelivery[] }>(
+        `/api/webhooks/${webhookId}/deliveries`
+      ),
+    select: (data) => data.deliveries,
+    enabled: !!webhookId,
+    refetchInterval: 30 * 1000, // Pick up retries while the log is open
+  });
+}
+
+export function useWebhookMutations() {
+  const queryClient = useQueryClient();
+  const onError = (error: Error) => toast.error(error.message);
+
+  const createWebhook = useMutation({
+    mutationFn: (input: CreateWebhookInput) =>
+      request<{ webhook: WebhookEndpoint }>('/api/webhooks', {
+        method: 'POST',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks'] }),
+    onError,
+  });
+
+  const updateWebhook = useMutation({
+    mutationFn: ({ id, ...input }: UpdateWebhookInput & { id: string }) =>
+      request<{ webhook: WebhookEndpoint }>(`/api/webhooks/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify(input),
+      }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['webhooks'] }),
+    onError,
+  });
+
+  const deleteWebhook = useMutation({
+    mutationFn: (id: string) =>
+      request(`/api/webhooks/${id}`, { method: 'DELETE' }),
+    onSuccess: () => {
+      toast.success('Webhook deleted');
+      queryClient.invalidateQueries({ queryKey: ['webhooks'] });
+    },
+    onError,
+  });
+
+  const sendTestEvent = useMutation({
+    mutationFn: (id: string) =>
+      request<{ delivery: WebhookDelivery }>(`/api/webhooks/${id}/test`, {
+        method: 'POST',
+      }),
+    onSuccess: ({ delivery }, id) => {
+      if (delivery.status === 'succeeded') {
+        toast.success(
+          `Test event delivered (HTTP ${delivery.response_status})`
+        );
+      } else {
+        toast.error(`Test event failed: ${delivery.error || 'unknown error'}`);
+      }
+      queryClient.invalidateQueries({ queryKey: ['webhook-deliveries', id] });
+    },
+    onError,
+  });
+
+  return { createWebhook, updateWebhook, deleteWebhook, sendTestEvent };
+}
@@ -140,6 +140,64 @@ describe('PlatformDetector', () => {
     });
   });
 
+  describe('Bluesky URL detection', () => {
+    it('should detect Bluesky profile URLs', () => {
+      const testCases = [
+        'https://bsky.app/profile/testuser.bsky.social',
+        'https://bsky.app/profile/testuser.bsky.social/post/3kabc123',
+      ];
+
+      testCases.forEach((url) => {
+        const result = PlatformDetector.detect(url);
+        expect(result.platform).toBe(Platform.BLUESKY);
+        expect(result.platformUserId).toBe('testuser.bsky.social');
+        expect(result.profileUrl).toBe(
+          'https://bsky.app/profile/testuser.bsky.social'
+        );
+      });
+    });
+
+    it('should detect Bluesky DID profile URLs', () => {
+      const url = 'https://bsky.app/profile/did:plc:abc123';
+      const result = PlatformDetector.detect(url);
+
+      expect(result.platform).toBe(Platform.BLUESKY);
+      expect(result.platformUserId).toBe('did:plc:abc123');
+    });
+  });
+
+  describe('Mastodon URL detection', () => {
+    it('should detect instance/@user profile URLs', () => {
+      const url = 'https://mastodon.social/@TestUser';
+      const result = PlatformDetector.detect(url);
+
+      expect(result.platform).toBe(Platform.MASTODON);
+      expect(result.platformUserId).toBe('TestUser@mastodon.social');
+      expect(result.profileUrl).toBe('https://mastodon.social/@TestUser');
+      expect(result.metadata.instance).toBe('mastodon.social');
+      expect(result.metadata.username).toBe('TestUser');
+    });
+
+    it('should detect @user@instance handles', () => {
+      const testCases = ['@testuser@hachyderm.io', 'testuser@hachyderm.io'];
+
+      testCases.forEach((handle) => {
+        const result = PlatformDetector.detect(handle);
+        expect(result.platform).toBe(Platform.MASTODON);
+        expect(result.profileUrl).toBe('https://hachyderm.io/@testuser');
+      });
+    });
+
+    it('should not treat other /@user sites as Mastodon', () => {
+      expect(() =>
+        PlatformDetector.detect('https://medium.com/@writer')
+      ).toThrow(PlatformDetectionError);
+      expect(
+        PlatformDetector.detect('https://www.youtube.com/@testchannel').platform
+      ).toBe(Platform.YOUTUBE);
+    });
+  });
+
   describe('RSS URL detection', () => {
     it('should detect RSS file URLs', () => {
       const testCases = [
@@ -1,5 +1,6 @@
-import { ApifyClient } from 'apify-client';
+import { ApifyClient, type ActorRun } from 'apify-client';
 import type { CreateContentInput, ReferencedContent } from '@/types/content';
+import { recordCost, VENDOR_PRICING } from '@/lib/services/cost-ledger-service';
 
 export interface ApifyConfig {
   apiKey: string;
@@ -77,6 +78,27 @@ export class ApifyFetcher {
     });
   }
 
+  // Record a finished run in the cost ledger. Runs report what they cost;
+  // older runs without usageTotalUsd are priced per item.
+  private async recordRun(
+    actor: string,
+    run: ActorRun,
+    itemCount: number,
+    creatorId?: string
+  ) {
+    await recordCost({
+      subsystem: 'scraping',
+      provider: 'apify',
+      modelOrActor: actor,
+      unitType: 'items',
+      units: itemCount,
+      costUsd:
+        run.usageTotalUsd ?? itemCount * (VENDOR_PRICING.apify[actor] || 0),
+      attribution: { creatorId },
+      metadata: { run_id: run.id },
+    });
+  }
+
   // Get extracted author info and clear the list
   getExtractedAuthors(): AuthorInfo[] {
     const authors = [...this.extractedAuthors];
@@ -86,7 +108,7 @@ export class ApifyFetcher {
 
   async fetchTwitterContent(
     urls: string[],
-    options?: { maxTweets?: number }
+    options?: { maxTweets?: number; creatorId?: string }
   ): Promise<CreateContentInput[]> {
     console.log(
       `[ApifyFetcher] Fetching Twitter content for ${urls.length} URLs`
@@ -156,6 +178,12 @@ export class ApifyFetcher {
       const { items } = await this.client
         .dataset(run.defaultDatasetId)
         .listItems();
+      await this.recordRun(
+        ApifyFetcher.ACTORS.TWITTER,
+        run,
+        items.length,
+        options?.creatorId
+      );
 
       // Transform Twitter data to ContentItem format
       return this.transformTwitterData(items);
@@ -167,7 +195,7 @@ export class ApifyFetcher {
 
   async fetchThreadsContent(
     usernames: string[],
-    options?: { resultsLimit?: number }
+    options?: { resultsLimit?: number; creatorId?: string }
   ): Promise<CreateContentInput[]> {
     console.log(
       `[ApifyFetcher] Fetching Threads content for ${usernames.length} users`
@@ -206,6 +234,12 @@ export class ApifyFetcher {
       const { items } = await this.client
         .dataset(run.defaultDatasetId)
         .listItems();
+      await this.recordRun(
+        ApifyFetcher.ACTORS.THREADS,
+        run,
+        items.length,
+        options?.creatorId
+      );
 
       return this.transformThreadsData(items);
     } catch (error) {
@@ -216,7 +250,11 @@ export class ApifyFetcher {
 
   async fetchLinkedInContent(
     profileUrls: string[],
-    options?: { maxResults?: number; published_after?: string }
+    options?: {
+      maxResults?: number;
+      published_after?: string;
+      creatorId?: string;
+    }
   ): Promise<CreateContentInput[]> {
     console.log(
       `[ApifyFetcher] Fetching LinkedIn content for ${profileUrls.length} profiles`
@@ -257,6 +295,12 @@ export class ApifyFetcher {
         const { items } = await this.client
           .dataset(run.defaultDatasetId)
           .listItems();
+        await this.recordRun(
+          ApifyFetcher.ACTORS.LINKEDIN,
+          run,
+          items.length,
+          options?.creatorId
+        );
 
         const transformedItems = this.transformLinkedInData(
           items,
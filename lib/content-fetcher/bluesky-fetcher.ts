@@ -0,0 +1,78 @@
+import {
+  BlueskyAuthorFeedResponse,
+  BlueskyFeedViewPost,
+  BlueskyFetchError,
+  BlueskyFetchOptions,
+  DEFAULT_BLUESKY_FETCH_OPTIONS,
+} from '@/types/bluesky';
+
+/**
+ * Bluesky Fetcher Service
+ *
+ * Reads an author's feed from the public AT Protocol AppView.
+ * No authentication is required for public profiles.
+ */
+export class BlueskyFetcher {
+  private options: BlueskyFetchOptions;
+
+  constructor(options: BlueskyFetchOptions = {}) {
+    this.options = { ...DEFAULT_BLUESKY_FETCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Fetch recent posts, reposts and replies for a handle or DID
+   */
+  async fetchAuthorFeed(
+    actor: string,
+    options?: Partial<BlueskyFetchOptions>
+  ): Promise<BlueskyFeedViewPost[]> {
+    const fetchOptions = { ...this.options, ...options };
+    const params = new URLSearchParams({
+      actor,
+      limit: String(Math.min(fetchOptions.limit || 20, 100)),
+      filter: 'posts_with_replies',
+    });
+    const endpoint = `${fetchOptions.serviceUrl}/xrpc/app.bsky.feed.getAuthorFeed?${params}`;
+
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(fetchOptions.timeout || 10000),
+      });
+    } catch (error) {
+      throw new BlueskyFetchError(
+        `Network error fetching Bluesky feed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'NETWORK_ERROR',
+        undefined,
+        actor
+      );
+    }
+
+    if (!response.ok) {
+      const code =
+        response.status === 400 || response.status === 404
+          ? 'ACTOR_NOT_FOUND'
+          : response.status === 429
+            ? 'RATE_LIMITED'
+            : 'API_ERROR';
+      throw new BlueskyFetchError(
+        `Bluesky API returned ${response.status} for ${actor}`,
+        code,
+        response.status,
+        actor
+      );
+    }
+
+    const data = (await response.json()) as BlueskyAuthorFeedResponse;
+    return data.feed || [];
+  }
+
+  /**
+   * Extract the handle or DID from a bsky.app profile URL
+   */
+  static extractActor(url: string): string | null {
+    const match = url.match(/bsky\.app\/profile\/([^/?#]+)/i);
+    return match ? decodeURIComponent(match[1]) : null;
+  }
+}
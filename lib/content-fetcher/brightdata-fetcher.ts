@@ -1,4 +1,5 @@
 import type { CreateContentInput } from '@/types/content';
+import { recordCost, VENDOR_PRICING } from '@/lib/services/cost-ledger-service';
 
 export interface BrightDataConfig {
   apiKey: string;
@@ -373,7 +374,9 @@ export class BrightDataFetcher {
           `[BrightDataFetcher] Snapshot ready after ${elapsedSeconds} seconds`
         );
         // Fetch the results
-        return this.getSnapshotData(snapshotId);
+        const posts = await this.getSnapshotData(snapshotId);
+        await this.recordSnapshotCost(status, posts.length);
+        return posts;
       } else if (status.status === 'failed') {
         throw new Error(`Snapshot failed: ${status.error || 'Unknown error'}`);
       }
@@ -394,6 +397,28 @@ export class BrightDataFetcher {
     );
   }
 
+  /**
+   * Record a ready snapshot in the cost ledger. Bright Data bills per record
+   * collected, so its own count and cost win over what was downloaded.
+   */
+  async recordSnapshotCost(
+    status: BrightDataSnapshotStatus,
+    downloadedCount: number,
+    creatorId?: string
+  ): Promise<void> {
+    const records = status.result_count ?? downloadedCount;
+    await recordCost({
+      subsystem: 'scraping',
+      provider: 'brightdata',
+      modelOrActor: BrightDataFetcher.DATASET_ID,
+      unitType: 'records',
+      units: records,
+      costUsd: status.cost ?? records * VENDOR_PRICING.brightdata,
+      attribution: { creatorId },
+      metadata: { snapshot_id: status.snapshot_id },
+    });
+  }
+
   /**
    * Get snapshot status
    */
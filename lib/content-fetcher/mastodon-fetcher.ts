@@ -0,0 +1,123 @@
+import {
+  DEFAULT_MASTODON_FETCH_OPTIONS,
+  MastodonAccount,
+  MastodonFetchError,
+  MastodonFetchOptions,
+  MastodonStatus,
+  parseMastodonProfileUrl,
+} from '@/types/mastodon';
+
+/**
+ * Mastodon Fetcher Service
+ *
+ * Reads public account timelines from any Mastodon-compatible instance
+ * through the unauthenticated REST API.
+ */
+export class MastodonFetcher {
+  private options: MastodonFetchOptions;
+
+  constructor(options: MastodonFetchOptions = {}) {
+    this.options = { ...DEFAULT_MASTODON_FETCH_OPTIONS, ...options };
+  }
+
+  /**
+   * Fetch recent statuses for a profile URL (https://instance/@user)
+   */
+  async fetchStatusesByUrl(
+    profileUrl: string,
+    options?: Partial<MastodonFetchOptions>
+  ): Promise<MastodonStatus[]> {
+    const parsed = parseMastodonProfileUrl(profileUrl);
+    if (!parsed) {
+      throw new MastodonFetchError(
+        'Invalid Mastodon profile URL',
+        'INVALID_URL',
+        400,
+        profileUrl
+      );
+    }
+
+    const account = await this.lookupAccount(
+      parsed.instance,
+      parsed.username,
+      options
+    );
+    return this.fetchStatuses(parsed.instance, account.id, options);
+  }
+
+  /**
+   * Resolve a local username to an account on its home instance
+   */
+  async lookupAccount(
+    instance: string,
+    username: string,
+    options?: Partial<MastodonFetchOptions>
+  ): Promise<MastodonAccount> {
+    const fetchOptions = { ...this.options, ...options };
+    const params = new URLSearchParams({ acct: username });
+    return this.request<MastodonAccount>(
+      `https://${instance}/api/v1/accounts/lookup?${params}`,
+      `https://${instance}/@${username}`,
+      fetchOptions.timeout
+    );
+  }
+
+  /**
+   * Fetch an account's public statuses, including boosts
+   */
+  async fetchStatuses(
+    instance: string,
+    accountId: string,
+    options?: Partial<MastodonFetchOptions>
+  ): Promise<MastodonStatus[]> {
+    const fetchOptions = { ...this.options, ...options };
+    const params = new URLSearchParams({
+      limit: String(Math.min(fetchOptions.limit || 20, 40)),
+      exclude_replies: String(!!fetchOptions.excludeReplies),
+    });
+
+    return this.request<MastodonStatus[]>(
+      `https://${instance}/api/v1/accounts/${accountId}/statuses?${params}`,
+      `https://${instance}`,
+      fetchOptions.timeout
+    );
+  }
+
+  private async request<T>(
+    endpoint: string,
+    profileUrl: string,
+    timeout?: number
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        headers: { Accept: 'application/json' },
+        signal: AbortSignal.timeout(timeout || 10000),
+      });
+    } catch (error) {
+      throw new MastodonFetchError(
+        `Network error fetching Mastodon data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'NETWORK_ERROR',
+        undefined,
+        profileUrl
+      );
+    }
+
+    if (!response.ok) {
+      const code =
+        response.status === 404
+          ? 'ACCOUNT_NOT_FOUND'
+          : response.status === 429
+            ? 'RATE_LIMITED'
+            : 'API_ERROR';
+      throw new MastodonFetchError(
+        `Mastodon API returned ${response.status} for ${endpoint}`,
+        code,
+        response.status,
+        profileUrl
+      );
+    }
+
+    return (await response.json()) as T;
+  }
+}
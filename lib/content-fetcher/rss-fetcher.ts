@@ -1,5 +1,6 @@
 import Parser from 'rss-parser';
 import {
+  RSSCacheValidators,
   RSSFeed,
   RSSFetchResult,
   RSSFetchOptions,
@@ -7,12 +8,24 @@ import {
   RSSErrorCode,
   DEFAULT_RSS_FETCH_OPTIONS,
   RSS_ERROR_MESSAGES,
+  RSSPodcastMetadata,
   isValidRSSUrl,
   normalizeRSSDate,
+  parseItunesDuration,
 } from '@/types/rss';
 import { ContentService } from '@/lib/services/content-service';
 import { ContentNormalizer } from '@/lib/services/content-normalizer';
 
+// Podcasting 2.0 item tags, always parsed so podcast feeds work without config
+const PODCAST_ITEM_FIELDS: Array<
+  string | [string, string, { keepArray: boolean }]
+> = [
+  ['podcast:transcript', 'podcast:transcript', { keepArray: true }],
+  'podcast:chapters',
+];
+
+type PodcastTagValue = { $?: Record<string, string | undefined> };
+
 /**
  * RSS Fetcher Service
  *
@@ -25,13 +38,22 @@ export class RSSFetcher {
   constructor(private options: RSSFetchOptions = {}) {
     const mergedOptions = { ...DEFAULT_RSS_FETCH_OPTIONS, ...options };
 
-    this.parser = new Parser({
-      timeout: mergedOptions.timeout,
-      customFields: mergedOptions.customFields,
+    this.parser = this.createParser(mergedOptions);
+  }
+
+  /**
+   * Build an rss-parser instance, adding the podcast namespace fields
+   */
+  private createParser(options: RSSFetchOptions): Parser {
+    return new Parser({
+      timeout: options.timeout,
+      customFields: {
+        feed: options.customFields?.feed,
+        item: [...(options.customFields?.item || []), ...PODCAST_ITEM_FIELDS],
+      },
       headers: {
-        'User-Agent':
-          mergedOptions.userAgent || DEFAULT_RSS_FETCH_OPTIONS.userAgent!,
-        ...mergedOptions.headers,
+        'User-Agent': options.userAgent || DEFAULT_RSS_FETCH_OPTIONS.userAgent!,
+        ...options.headers,
       },
     });
   }
@@ -62,19 +84,36 @@ export class RSSFetcher {
       // Create a new parser with request-specific options if needed
       let parser = this.parser;
       if (options) {
-        parser = new Parser({
-          timeout: fetchOptions.timeout,
-          customFields: fetchOptions.customFields,
-          headers: {
-            'User-Agent':
-              fetchOptions.userAgent || DEFAULT_RSS_FETCH_OPTIONS.userAgent!,
-            ...fetchOptions.headers,
-          },
-        });
+        parser = this.createParser(fetchOptions);
       }
 
-      // Fetch and parse the RSS feed
-      const rawFeed = await parser.parseURL(url);
+      // Fetch and parse the RSS feed. Conditional requests fetch the body
+      // ourselves so the response headers and 304s are visible.
+      let rawFeed;
+      let validators: RSSCacheValidators | undefined;
+      if (fetchOptions.conditional) {
+        const response = await this.fetchConditional(url, fetchOptions);
+        validators = {
+          etag: response.headers.get('etag') ?? fetchOptions.conditional.etag,
+          lastModified:
+            response.headers.get('last-modified') ??
+            fetchOptions.conditional.lastModified,
+        };
+
+        if (response.status === 304) {
+          return {
+            success: true,
+            notModified: true,
+            validators,
+            fetchedAt: new Date(),
+            responseTime: Date.now() - startTime,
+          };
+        }
+
+        rawFeed = await parser.parseString(await response.text());
+      } else {
+        rawFeed = await parser.parseURL(url);
+      }
 
       // Normalize the feed data
       const normalizedFeed = this.normalizeFeed(rawFeed, url, fetchOptions);
@@ -99,6 +138,7 @@ export class RSSFetcher {
         feed: normalizedFeed,
         fetchedAt: new Date(),
         responseTime,
+        validators,
         storedContent,
       };
     } catch (error) {
@@ -114,6 +154,47 @@ export class RSSFetcher {
     }
   }
 
+  /**
+   * Send a GET with If-None-Match / If-Modified-Since from the last fetch
+   */
+  private async fetchConditional(
+    url: string,
+    options: RSSFetchOptions
+  ): Promise<Response> {
+    const headers: Record<string, string> = {
+      'User-Agent': options.userAgent || DEFAULT_RSS_FETCH_OPTIONS.userAgent!,
+      Accept:
+        'application/rss+xml, application/atom+xml, application/xml, text/xml;q=0.9, */*;q=0.8',
+      ...options.headers,
+    };
+    if (options.conditional?.etag) {
+      headers['If-None-Match'] = options.conditional.etag;
+    }
+    if (options.conditional?.lastModified) {
+      headers['If-Modified-Since'] = options.conditional.lastModified;
+    }
+
+    const response = await fetch(url, {
+      headers,
+      signal: AbortSignal.timeout(
+        options.timeout || DEFAULT_RSS_FETCH_OPTIONS.timeout!
+      ),
+    });
+
+    if (!response.ok && response.status !== 304) {
+      const code: RSSErrorCode =
+        response.status === 404 ? 'NOT_FOUND' : 'NETWORK_ERROR';
+      throw new RSSFetchError(
+        `${RSS_ERROR_MESSAGES[code]}: HTTP ${response.status}`,
+        code,
+        response.status,
+        url
+      );
+    }
+
+    return response;
+  }
+
   /**
    * Parse RSS content from a string
    */
@@ -266,6 +347,7 @@ export class RSSFetcher {
             }
           : undefined,
       itunes: item.itunes,
+      podcast: this.extractPodcastMetadata(item),
       custom: this.extractCustomFields(item, 'item'),
     }));
 
@@ -297,11 +379,59 @@ export class RSSFetcher {
             }
           : undefined,
       itunes: rawFeed.itunes,
+      isPodcast: !!rawFeed.itunes || items.some((item) => !!item.podcast),
       items,
       custom: this.extractCustomFields(rawFeed, 'feed'),
     };
   }
 
+  /**
+   * Extract iTunes / Podcasting 2.0 episode metadata.
+   * Returns undefined for items that are not podcast episodes.
+   */
+  private extractPodcastMetadata(item: {
+    enclosure?: { url?: string; type?: string };
+    itunes?: Record<string, unknown>;
+    [key: string]: unknown;
+  }): RSSPodcastMetadata | undefined {
+    const transcriptTags = (item['podcast:transcript'] ||
+      []) as PodcastTagValue[];
+    const chaptersTag = item['podcast:chapters'] as PodcastTagValue | undefined;
+    const hasAudio = !!item.enclosure?.type?.startsWith('audio/');
+
+    if (!item.itunes && !hasAudio && !transcriptTags.length && !chaptersTag) {
+      return undefined;
+    }
+
+    const transcripts = transcriptTags
+      .map((tag) => tag.$)
+      .filter((attrs): attrs is Record<string, string> => !!attrs?.url)
+      .map((attrs) => ({
+        url: attrs.url,
+        type: attrs.type || '',
+        language: attrs.language,
+        rel: attrs.rel,
+      }));
+
+    const toNumber = (value: unknown) => {
+      const parsed = parseInt(String(value ?? ''), 10);
+      return Number.isNaN(parsed) ? undefined : parsed;
+    };
+
+    return {
+      duration: parseItunesDuration(
+        typeof item.itunes?.duration === 'string'
+          ? item.itunes.duration
+          : undefined
+      ),
+      transcripts,
+      chaptersUrl: chaptersTag?.$?.url,
+      chaptersType: chaptersTag?.$?.type,
+      episode: toNumber(item.itunes?.episode),
+      season: toNumber(item.itunes?.season),
+    };
+  }
+
   /**
    * Extract categories from item, handling various formats
    */
@@ -470,15 +600,7 @@ export class RSSFetcher {
     this.options = { ...this.options, ...options };
 
     // Recreate parser with new options
-    this.parser = new Parser({
-      timeout: this.options.timeout,
-      customFields: this.options.customFields,
-      headers: {
-        'User-Agent':
-          this.options.userAgent || DEFAULT_RSS_FETCH_OPTIONS.userAgent!,
-        ...this.options.headers,
-      },
-    });
+    this.parser = this.createParser(this.options);
   }
 
   /**
@@ -13,6 +13,7 @@ import {
 import { ContentService } from '@/lib/services/content-service';
 import type { SupabaseClient } from '@supabase/supabase-js';
 import { ContentNormalizer } from '@/lib/services/content-normalizer';
+import { YouTubeTranscriptService } from '@/lib/services/youtube-transcript-service';
 
 /**
  * Parse YouTube ISO 8601 duration to seconds
@@ -169,7 +170,7 @@ export class YouTubeFetcher {
         part: ['snippet', 'contentDetails', 'statistics', 'status'],
         id: videoIds,
         fields:
-          'items(id,snippet(publishedAt,channelId,title,description,thumbnails,channelTitle,tags),contentDetails(duration),statistics,status)', // Optimize response size
+          'items(id,snippet(publishedAt,channelId,title,description,thumbnails,channelTitle,tags,defaultAudioLanguage),contentDetails(duration,caption),statistics,status)', // Optimize response size
       });
 
       const videos = videosResponse.data.items || [];
@@ -345,7 +346,7 @@ export class YouTubeFetcher {
         part: ['snippet', 'contentDetails', 'statistics', 'status'],
         id: videoIds,
         fields:
-          'items(id,snippet(publishedAt,channelId,title,description,thumbnails,channelTitle,tags),contentDetails(duration),statistics,status)', // Optimize response size
+          'items(id,snippet(publishedAt,channelId,title,description,thumbnails,channelTitle,tags,defaultAudioLanguage),contentDetails(duration,caption),statistics,status)', // Optimize response size
       });
 
       const videos = videosResponse.data.items || [];
@@ -555,6 +556,12 @@ export class YouTubeFetcher {
         'youtube',
         videos
       );
+      await new YouTubeTranscriptService().attachTranscripts(
+        storageOptions.supabaseClient as SupabaseClient,
+        storageOptions.creator_id,
+        videos,
+        normalizedContent
+      );
 
       // Store content in batch
       const result =
@@ -0,0 +1,44 @@
+import { BlueskyFetcher } from '@/lib/content-fetcher/bluesky-fetcher';
+import { ContentNormalizer } from '@/lib/services/content-normalizer';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+export class BlueskyContentSource implements ContentSource {
+  readonly platform = 'bluesky' as const;
+  private normalizer = new ContentNormalizer();
+
+  constructor(private fetcher: BlueskyFetcher = new BlueskyFetcher()) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    const actor = BlueskyFetcher.extractActor(context.creatorUrl.url);
+    if (!actor) {
+      return {
+        items: [],
+        status: 'skipped',
+        error: 'Could not extract Bluesky handle from URL',
+      };
+    }
+
+    const feed = await this.fetcher.fetchAuthorFeed(actor, {
+      limit: context.maxItems,
+    });
+
+    return {
+      items: this.normalizer.normalizeMultiple(
+        context.creatorId,
+        'bluesky',
+        feed
+      ),
+      status: 'fetched',
+    };
+  }
+}
+
+export const blueskySourceDefinition: ContentSourceDefinition = {
+  platform: 'bluesky',
+  create: () => new BlueskyContentSource(),
+};
@@ -0,0 +1,41 @@
+import { ContentSourceRegistry } from './registry';
+import { rssSourceDefinition } from './rss-source';
+import { youtubeSourceDefinition } from './youtube-source';
+import { twitterSourceDefinition } from './twitter-source';
+import { threadsSourceDefinition } from './threads-source';
+import { linkedinSourceDefinition } from './linkedin-source';
+import { blueskySourceDefinition } from './bluesky-source';
+import { mastodonSourceDefinition } from './mastodon-source';
+import type { ContentSourceDefinition } from './types';
+
+export { ContentSourceRegistry } from './registry';
+export { createLinkedInSourceDefinition } from './linkedin-source';
+export type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+  ContentSourceStats,
+  PlatformDefinition,
+  PlatformDetection,
+  PlatformProfile,
+} from './types';
+
+// Adding a platform means adding its source module and listing it here
+export const DEFAULT_CONTENT_SOURCES: ContentSourceDefinition[] = [
+  rssSourceDefinition,
+  youtubeSourceDefinition,
+  twitterSourceDefinition,
+  threadsSourceDefinition,
+  linkedinSourceDefinition,
+  blueskySourceDefinition,
+  mastodonSourceDefinition,
+];
+
+export function createContentSourceRegistry(
+  definitions: ContentSourceDefinition[] = DEFAULT_CONTENT_SOURCES
+): ContentSourceRegistry {
+  const registry = new ContentSourceRegistry();
+  definitions.forEach((definition) => registry.register(definition));
+  return registry;
+}
@@ -0,0 +1,93 @@
+import { BrightDataFetcher } from '@/lib/content-fetcher/brightdata-fetcher';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+/**
+ * LinkedIn uses BrightData's two-phase collection: this source only triggers
+ * a snapshot, and the brightdata-processor worker stores the results later.
+ */
+export interface LinkedInSourceConfig {
+  // Leave URLs unfetched, e.g. on scheduled runs (see queue-creators)
+  skip?: boolean;
+}
+
+export class LinkedInContentSource implements ContentSource {
+  readonly platform = 'linkedin' as const;
+
+  constructor(
+    private fetcher: BrightDataFetcher,
+    private config: LinkedInSourceConfig = {}
+  ) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    const { creatorId, creatorName, creatorUrl, supabase } = context;
+
+    if (this.config.skip) {
+      console.log(
+        `[LinkedIn] Skipping LinkedIn for ${creatorName} (skip configured)`
+      );
+      return { items: [], status: 'skipped' };
+    }
+
+    console.log(
+      `[LinkedIn] Triggering BrightData collection for ${creatorName}: ${creatorUrl.url}`
+    );
+
+    // Phase 1: Just trigger the collection and save snapshot ID
+    // Note: We don't set date filters because many LinkedIn posts lack dates
+    // and will be filtered out if dates are specified (per BrightData API warning)
+    const snapshotId = await this.fetcher.triggerCollectionOnly([
+      creatorUrl.url,
+    ]);
+
+    // Save snapshot to database for processing later
+    const { error: insertError } = await supabase
+      .from('brightdata_snapshots')
+      .insert({
+        snapshot_id: snapshotId,
+        dataset_id: 'gd_lyy3tktm25m4avu764',
+        status: 'pending',
+        creator_urls: [creatorUrl.url],
+        metadata: {
+          creator_id: creatorId,
+          creator_name: creatorName,
+          max_results: 10,
+        },
+      });
+
+    if (insertError) {
+      console.error(
+        `[LinkedIn] Failed to save snapshot ${snapshotId}:`,
+        insertError
+      );
+    }
+
+    console.log(
+      `[LinkedIn] Collection triggered for ${creatorName}, snapshot: ${snapshotId}`
+    );
+
+    // Don't wait for results - they'll be processed by separate worker
+    return { items: [], status: 'collection_triggered' };
+  }
+}
+
+export function createLinkedInSourceDefinition(
+  config: LinkedInSourceConfig = {}
+): ContentSourceDefinition {
+  return {
+    platform: 'linkedin',
+    create: () =>
+      process.env.BRIGHTDATA_API_KEY
+        ? new LinkedInContentSource(
+            new BrightDataFetcher({ apiKey: process.env.BRIGHTDATA_API_KEY }),
+            config
+          )
+        : null,
+  };
+}
+
+export const linkedinSourceDefinition = createLinkedInSourceDefinition();
@@ -0,0 +1,36 @@
+import { MastodonFetcher } from '@/lib/content-fetcher/mastodon-fetcher';
+import { ContentNormalizer } from '@/lib/services/content-normalizer';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+export class MastodonContentSource implements ContentSource {
+  readonly platform = 'mastodon' as const;
+  private normalizer = new ContentNormalizer();
+
+  constructor(private fetcher: MastodonFetcher = new MastodonFetcher()) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    const statuses = await this.fetcher.fetchStatusesByUrl(
+      context.creatorUrl.url,
+      { limit: context.maxItems }
+    );
+
+    return {
+      items: this.normalizer.normalizeMultiple(
+        context.creatorId,
+        'mastodon',
+        statuses
+      ),
+      status: 'fetched',
+    };
+  }
+}
+
+export const mastodonSourceDefinition: ContentSourceDefinition = {
+  platform: 'mastodon',
+  create: () => new MastodonContentSource(),
+};
@@ -0,0 +1,202 @@
+import {
+  CreateContentInput,
+  MediaUrl,
+  ReferencedContent,
+  ReferenceType,
+  calculateReadingTime,
+  calculateWordCount,
+} from '@/types/content';
+import {
+  BlueskyEmbedView,
+  BlueskyFeedViewPost,
+  BlueskyPostView,
+  BlueskyViewRecord,
+  getBlueskyPostUrl,
+  isBlueskyPostView,
+  isBlueskyViewRecord,
+} from '@/types/bluesky';
+import { getDomain } from '@/lib/url-utils';
+import type { PlatformDefinition } from '../types';
+
+/**
+ * Normalize a Bluesky feed item (post, repost, reply or quote)
+ */
+function normalizeBlueskyContent(
+  creator_id: string,
+  item: BlueskyFeedViewPost
+): CreateContentInput {
+  const { post, reason } = item;
+  const isRepost = reason?.$type === 'app.bsky.feed.defs#reasonRepost';
+  const text = post.record.text || '';
+
+  let referenceType: ReferenceType | undefined;
+  let referencedContent: ReferencedContent | undefined;
+
+  if (isRepost) {
+    // The whole post belongs to someone else; keep its text for summaries
+    referenceType = 'retweet';
+    referencedContent = blueskyPostToReference(post);
+  } else {
+    const quoted = getBlueskyQuotedRecord(post.embed);
+    if (quoted) {
+      referenceType = 'quote';
+      referencedContent = blueskyPostToReference(quoted);
+    } else if (post.record.reply) {
+      referenceType = 'reply';
+      const parent = item.reply?.parent;
+      referencedContent = isBlueskyPostView(parent)
+        ? blueskyPostToReference(parent)
+        : {
+            id: post.record.reply.parent.uri,
+            platform_content_id: post.record.reply.parent.uri,
+          };
+    }
+  }
+
+  const author = isRepost && reason?.by ? reason.by : post.author;
+
+  return {
+    creator_id,
+    platform: 'bluesky',
+    // A repost shares the original URI, so key it by the reposter as well
+    platform_content_id: isRepost
+      ? `${post.uri}#repost:${reason?.by?.did || author.did}`
+      : post.uri,
+    url: getBlueskyPostUrl(post.uri, post.author.handle),
+    title: isRepost
+      ? `Repost by @${author.handle}`
+      : `Post by @${post.author.handle}`,
+    description: text,
+    published_at: new Date(
+      (isRepost && reason?.indexedAt) || post.record.createdAt || post.indexedAt
+    ).toISOString(),
+    content_body: text,
+    word_count: calculateWordCount(text),
+    reading_time_minutes: calculateReadingTime(text),
+    media_urls: isRepost ? [] : extractBlueskyMedia(post.embed),
+    engagement_metrics: isRepost
+      ? {}
+      : {
+          likes: post.likeCount || 0,
+          comments: post.replyCount || 0,
+          shares: (post.repostCount || 0) + (post.quoteCount || 0),
+        },
+    reference_type: referenceType,
+    referenced_content: referencedContent,
+  };
+}
+
+/**
+ * Find the quoted post inside a Bluesky embed, if any
+ */
+function getBlueskyQuotedRecord(
+  embed?: BlueskyEmbedView
+): BlueskyViewRecord | undefined {
+  if (!embed) return undefined;
+
+  if (embed.$type === 'app.bsky.embed.record#view') {
+    return isBlueskyViewRecord(embed.record) ? embed.record : undefined;
+  }
+
+  if (embed.$type === 'app.bsky.embed.recordWithMedia#view') {
+    return isBlueskyViewRecord(embed.record.record)
+      ? embed.record.record
+      : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Build referenced_content from a Bluesky post or embedded record
+ */
+function blueskyPostToReference(
+  post: BlueskyPostView | BlueskyViewRecord
+): ReferencedContent {
+  const isRecord = isBlueskyViewRecord(post);
+  const record = isRecord ? post.value : post.record;
+  const embed = isRecord ? post.embeds?.[0] : post.embed;
+
+  return {
+    id: post.uri,
+    platform_content_id: post.uri,
+    url: getBlueskyPostUrl(post.uri, post.author.handle),
+    text: record?.text,
+    author: {
+      id: post.author.did,
+      username: post.author.handle,
+      name: post.author.displayName || post.author.handle,
+      avatar_url: post.author.avatar,
+      is_verified: post.author.verification?.verifiedStatus === 'valid',
+    },
+    created_at: record?.createdAt,
+    media_urls: extractBlueskyMedia(embed),
+    engagement_metrics: {
+      likes: post.likeCount || 0,
+      comments: post.replyCount || 0,
+      shares: post.repostCount || 0,
+    },
+  };
+}
+
+/**
+ * Extract images, video and link cards from a Bluesky embed
+ */
+function extractBlueskyMedia(embed?: BlueskyEmbedView): MediaUrl[] {
+  if (!embed) return [];
+
+  switch (embed.$type) {
+    case 'app.bsky.embed.images#view':
+      return embed.images.map((image) => ({
+        url: image.fullsize,
+        type: 'image' as const,
+        title: image.alt || undefined,
+        thumbnail_url: image.thumb,
+        width: image.aspectRatio?.width,
+        height: image.aspectRatio?.height,
+      }));
+    case 'app.bsky.embed.video#view':
+      return [
+        {
+          url: embed.playlist,
+          type: 'video',
+          thumbnail_url: embed.thumbnail,
+          width: embed.aspectRatio?.width,
+          height: embed.aspectRatio?.height,
+        },
+      ];
+    case 'app.bsky.embed.external#view':
+      return [
+        {
+          url: embed.external.thumb || embed.external.uri,
+          type: 'link_preview',
+          link_url: embed.external.uri,
+          link_title: embed.external.title,
+          link_description: embed.external.description,
+          link_domain: getDomain(embed.external.uri),
+        },
+      ];
+    case 'app.bsky.embed.recordWithMedia#view':
+      return extractBlueskyMedia(embed.media);
+    default:
+      return [];
+  }
+}
+
+export const blueskyPlatform: PlatformDefinition = {
+  platform: 'bluesky',
+  label: 'Bluesky',
+  social: true,
+  detection: {
+    patterns: [
+      // Handles (user.bsky.social, custom domains) and DIDs
+      /^https?:\/\/(?:www\.)?bsky\.app\/profile\/([a-zA-Z0-9.:-]+)/,
+    ],
+    toProfile: (_url, match) => ({
+      platformUserId: match[1],
+      profileUrl: `https://bsky.app/profile/${match[1]}`,
+      metadata: { username: match[1] },
+    }),
+  },
+  normalize: normalizeBlueskyContent,
+};
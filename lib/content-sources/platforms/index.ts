@@ -0,0 +1,40 @@
+import type { Platform } from '@/types/content';
+import type { PlatformDefinition } from '../types';
+import { youtubePlatform } from './youtube';
+import { twitterPlatform } from './twitter';
+import { linkedinPlatform } from './linkedin';
+import { threadsPlatform } from './threads';
+import { blueskyPlatform } from './bluesky';
+import { mastodonPlatform } from './mastodon';
+import { rssPlatform } from './rss';
+import { websitePlatform } from './website';
+
+// Adding a platform means adding its module and listing it here. URLs are
+// detected in this order, so catch-all patterns (Mastodon's /@user, feed
+// paths) come after the platforms they could shadow.
+export const PLATFORM_DEFINITIONS: PlatformDefinition[] = [
+  youtubePlatform,
+  twitterPlatform,
+  linkedinPlatform,
+  threadsPlatform,
+  blueskyPlatform,
+  mastodonPlatform,
+  rssPlatform,
+  websitePlatform,
+];
+
+export function getPlatformDefinition(
+  platform: string
+): PlatformDefinition | undefined {
+  return PLATFORM_DEFINITIONS.find(
+    (definition) => definition.platform === platform
+  );
+}
+
+export const SOCIAL_PLATFORMS: Platform[] = PLATFORM_DEFINITIONS.filter(
+  (definition) => definition.social
+).map((definition) => definition.platform);
+
+export function isSocialPlatform(platform: string): boolean {
+  return getPlatformDefinition(platform)?.social ?? false;
+}
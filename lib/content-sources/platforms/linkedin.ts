@@ -0,0 +1,74 @@
+import {
+  CreateContentInput,
+  calculateReadingTime,
+  calculateWordCount,
+} from '@/types/content';
+import type { PlatformDefinition } from '../types';
+
+/**
+ * Normalize LinkedIn content (stub for future implementation)
+ */
+function normalizeLinkedInContent(
+  creator_id: string,
+  data: {
+    id?: string;
+    urn?: string;
+    url?: string;
+    title?: string;
+    text?: string;
+    image?: { url?: string };
+    publishedAt?: string;
+    images?: Array<{ url?: string; type?: string }>;
+    numLikes?: number;
+    numComments?: number;
+    numShares?: number;
+  }
+): CreateContentInput {
+  // LinkedIn-specific normalization
+  // This will be implemented when LinkedIn scraping is added
+  return {
+    creator_id,
+    platform: 'linkedin',
+    platform_content_id: data.id || data.urn || '',
+    url: data.url || '',
+    title: data.title || '',
+    description: data.text || '',
+    thumbnail_url: data.image?.url,
+    published_at: data.publishedAt || new Date().toISOString(),
+    content_body: data.text || '',
+    word_count: calculateWordCount(data.text || ''),
+    reading_time_minutes: calculateReadingTime(data.text || ''),
+    media_urls:
+      data.images
+        ?.filter((img: { url?: string; type?: string }) => img.url)
+        .map((img: { url?: string; type?: string }) => ({
+          url: img.url || '',
+          type: 'image' as const,
+        })) || [],
+    engagement_metrics: {
+      likes: data.numLikes,
+      comments: data.numComments,
+      shares: data.numShares,
+    },
+  };
+}
+
+export const linkedinPlatform: PlatformDefinition = {
+  platform: 'linkedin',
+  label: 'LinkedIn',
+  social: true,
+  detection: {
+    patterns: [
+      /^https?:\/\/(?:www\.)?linkedin\.com\/in\/([a-zA-Z0-9-]+)/,
+      /^https?:\/\/(?:www\.)?linkedin\.com\/company\/([a-zA-Z0-9-]+)/,
+    ],
+    toProfile: (url, match) => ({
+      platformUserId: match[1],
+      profileUrl: url,
+      metadata: url.includes('/company/')
+        ? { companyId: match[1] }
+        : { username: match[1] },
+    }),
+  },
+  normalize: normalizeLinkedInContent,
+};
@@ -0,0 +1,180 @@
+import {
+  CreateContentInput,
+  MediaUrl,
+  ReferencedContent,
+  ReferenceType,
+  calculateReadingTime,
+  calculateWordCount,
+  extractTextFromHTML,
+} from '@/types/content';
+import { MastodonStatus } from '@/types/mastodon';
+import { getDomain } from '@/lib/url-utils';
+import type { PlatformDefinition } from '../types';
+
+// Fediverse handle: @user@instance.tld (leading @ optional)
+const HANDLE_PATTERN = /^@?([a-zA-Z0-9_]+)@([a-zA-Z0-9.-]+\.[a-zA-Z]{2,})$/;
+
+// Sites that use /@username paths but are not Mastodon instances
+const NON_MASTODON_HOSTS = [
+  'medium.com',
+  'tiktok.com',
+  'youtube.com',
+  'threads.net',
+  'threads.com',
+  'substack.com',
+];
+
+/**
+ * Normalize a Mastodon status (post, boost, reply or quote)
+ */
+function normalizeMastodonContent(
+  creator_id: string,
+  status: MastodonStatus
+): CreateContentInput {
+  // Boosts wrap the original status; use its text so summaries have content
+  const source = status.reblog || status;
+  const text = getMastodonText(source);
+
+  let referenceType: ReferenceType | undefined;
+  let referencedContent: ReferencedContent | undefined;
+
+  if (status.reblog) {
+    referenceType = 'retweet';
+    referencedContent = mastodonStatusToReference(status.reblog);
+  } else if (status.quote?.state === 'accepted' && status.quote.quoted_status) {
+    referenceType = 'quote';
+    referencedContent = mastodonStatusToReference(status.quote.quoted_status);
+  } else if (status.in_reply_to_id) {
+    referenceType = 'reply';
+    referencedContent = {
+      id: status.in_reply_to_id,
+      platform_content_id: status.in_reply_to_id,
+    };
+  }
+
+  return {
+    creator_id,
+    platform: 'mastodon',
+    platform_content_id: status.uri || status.id,
+    url: source.url || source.uri,
+    title: status.reblog
+      ? `Boost by @${status.account.acct}`
+      : `Post by @${status.account.acct}`,
+    description: text,
+    published_at: new Date(status.created_at).toISOString(),
+    content_body: text,
+    word_count: calculateWordCount(text),
+    reading_time_minutes: calculateReadingTime(text),
+    media_urls: status.reblog ? [] : extractMastodonMedia(status),
+    engagement_metrics: status.reblog
+      ? {}
+      : {
+          likes: status.favourites_count || 0,
+          comments: status.replies_count || 0,
+          shares: (status.reblogs_count || 0) + (status.quotes_count || 0),
+        },
+    reference_type: referenceType,
+    referenced_content: referencedContent,
+  };
+}
+
+/**
+ * Build referenced_content from a Mastodon status
+ */
+function mastodonStatusToReference(status: MastodonStatus): ReferencedContent {
+  return {
+    id: status.uri || status.id,
+    platform_content_id: status.uri || status.id,
+    url: status.url || status.uri,
+    text: getMastodonText(status),
+    author: {
+      id: status.account.id,
+      username: status.account.acct,
+      name: status.account.display_name || status.account.username,
+      avatar_url: status.account.avatar,
+    },
+    created_at: status.created_at,
+    media_urls: extractMastodonMedia(status),
+    engagement_metrics: {
+      likes: status.favourites_count || 0,
+      comments: status.replies_count || 0,
+      shares: status.reblogs_count || 0,
+    },
+  };
+}
+
+/**
+ * Plain text for a Mastodon status, keeping any content warning
+ */
+function getMastodonText(status: MastodonStatus): string {
+  const text = extractTextFromHTML(status.content);
+  return status.spoiler_text ? `CW: ${status.spoiler_text} - ${text}` : text;
+}
+
+/**
+ * Extract media attachments and the preview card from a Mastodon status
+ */
+function extractMastodonMedia(status: MastodonStatus): MediaUrl[] {
+  const mediaUrls: MediaUrl[] = status.media_attachments
+    .filter((media) => media.url && media.type !== 'unknown')
+    .map((media) => {
+      const original = media.meta?.original;
+      return {
+        url: media.url,
+        type:
+          media.type === 'image'
+            ? ('image' as const)
+            : media.type === 'audio'
+              ? ('audio' as const)
+              : ('video' as const),
+        title: media.description || undefined,
+        thumbnail_url: media.preview_url || undefined,
+        width: original?.width,
+        height: original?.height,
+        duration: original?.duration ? original.duration * 1000 : undefined,
+      };
+    });
+
+  if (status.card?.url) {
+    mediaUrls.push({
+      url: status.card.image || status.card.url,
+      type: 'link_preview',
+      link_url: status.card.url,
+      link_title: status.card.title,
+      link_description: status.card.description,
+      link_domain: getDomain(status.card.url),
+    });
+  }
+
+  return mediaUrls;
+}
+
+export const mastodonPlatform: PlatformDefinition = {
+  platform: 'mastodon',
+  label: 'Mastodon',
+  social: true,
+  detection: {
+    patterns: [
+      // Profile URLs on any instance: https://instance/@user
+      /^https?:\/\/([a-z0-9.-]+\.[a-z]{2,})\/@([a-z0-9_]+)\/?(?:\?.*)?$/i,
+    ],
+    toProfile: (_url, match) => {
+      const instance = match[1].toLowerCase();
+      if (NON_MASTODON_HOSTS.includes(instance.replace(/^www\./, ''))) {
+        return null;
+      }
+      const username = match[2];
+      return {
+        platformUserId: `${username}@${instance}`,
+        profileUrl: `https://${instance}/@${username}`,
+        metadata: { username, instance },
+      };
+    },
+    // @user@instance becomes the instance's profile URL
+    normalizeInput: (input) => {
+      const match = input.match(HANDLE_PATTERN);
+      return match ? `https://${match[2].toLowerCase()}/@${match[1]}` : input;
+    },
+  },
+  normalize: normalizeMastodonContent,
+};
@@ -0,0 +1,217 @@
+import {
+  CreateContentInput,
+  MediaUrl,
+  calculateReadingTime,
+  calculateWordCount,
+  extractTextFromHTML,
+} from '@/types/content';
+import { RSSEnclosure, RSSItem } from '@/types/rss';
+import { getDomain } from '@/lib/url-utils';
+import type { PlatformDefinition } from '../types';
+
+/**
+ * Normalize RSS content
+ */
+function normalizeRSSContent(
+  creator_id: string,
+  item: RSSItem,
+  feedUrl?: string
+): CreateContentInput {
+  // Extract text content - prioritize full content over snippets
+  const contentBody =
+    item.content ||
+    item.description ||
+    item.summary ||
+    item.contentSnippet ||
+    '';
+  const textContent = extractTextFromHTML(contentBody);
+
+  // Extract media URLs
+  const mediaUrls: MediaUrl[] = [];
+
+  // Add enclosure if present (common for podcasts and media)
+  if (item.enclosure) {
+    const enclosure = normalizeRSSEnclosure(item.enclosure);
+    if (enclosure.type === 'audio' && item.podcast?.duration) {
+      enclosure.duration = item.podcast.duration * 1000;
+    }
+    mediaUrls.push(enclosure);
+  }
+
+  // Podcast episode artwork
+  if (
+    item.itunes?.image &&
+    !mediaUrls.some((m) => m.url === item.itunes?.image)
+  ) {
+    mediaUrls.push({
+      url: item.itunes.image,
+      type: 'image',
+    });
+  }
+
+  // Extract media:thumbnail if present
+  if ((item as any)['media:thumbnail']) {
+    const thumbnail = (item as any)['media:thumbnail'];
+    const thumbUrl = Array.isArray(thumbnail)
+      ? thumbnail[0]?.$?.url || thumbnail[0]?.url
+      : thumbnail.$?.url || thumbnail.url;
+
+    if (thumbUrl && !mediaUrls.some((m) => m.url === thumbUrl)) {
+      mediaUrls.push({
+        url: thumbUrl,
+        type: 'image',
+      });
+    }
+  }
+
+  // Extract media:content if present
+  if ((item as any)['media:content']) {
+    const mediaContent = (item as any)['media:content'];
+    const contents = Array.isArray(mediaContent)
+      ? mediaContent
+      : [mediaContent];
+
+    contents.forEach((content: any) => {
+      const url = content.$?.url || content.url;
+      const type = content.$?.type || content.type;
+      const medium = content.$?.medium || content.medium;
+
+      if (url && (medium === 'image' || type?.startsWith('image/'))) {
+        if (!mediaUrls.some((m) => m.url === url)) {
+          mediaUrls.push({
+            url,
+            type: 'image',
+          });
+        }
+      }
+    });
+  }
+
+  // Extract from media:group if present
+  if ((item as any)['media:group']) {
+    const group = (item as any)['media:group'];
+
+    // Check media:thumbnail in group
+    if (group['media:thumbnail']) {
+      const thumbnails = Array.isArray(group['media:thumbnail'])
+        ? group['media:thumbnail']
+        : [group['media:thumbnail']];
+
+      thumbnails.forEach((thumb: any) => {
+        const url = thumb.$?.url || thumb.url;
+        if (url && !mediaUrls.some((m) => m.url === url)) {
+          mediaUrls.push({
+            url,
+            type: 'image',
+          });
+        }
+      });
+    }
+
+    // Check media:content in group
+    if (group['media:content']) {
+      const contents = Array.isArray(group['media:content'])
+        ? group['media:content']
+        : [group['media:content']];
+
+      contents.forEach((content: any) => {
+        const url = content.$?.url || content.url;
+        const type = content.$?.type || content.type;
+        const medium = content.$?.medium || content.medium;
+
+        if (url && (medium === 'image' || type?.startsWith('image/'))) {
+          if (!mediaUrls.some((m) => m.url === url)) {
+            mediaUrls.push({
+              url,
+              type: 'image',
+            });
+          }
+        }
+      });
+    }
+  }
+
+  // Extract images from content HTML (as fallback)
+  const imageMatches = contentBody.match(/<img[^>]+src="([^">]+)"/g);
+  if (imageMatches) {
+    imageMatches.forEach((imgTag) => {
+      const srcMatch = imgTag.match(/src="([^">]+)"/);
+      if (srcMatch && srcMatch[1]) {
+        // Only add if not already in the list
+        if (!mediaUrls.some((m) => m.url === srcMatch[1])) {
+          mediaUrls.push({
+            url: srcMatch[1],
+            type: 'image',
+          });
+        }
+      }
+    });
+  }
+
+  // Calculate metrics
+  const word_count = calculateWordCount(textContent);
+  const reading_time_minutes = calculateReadingTime(textContent);
+
+  return {
+    creator_id,
+    platform: 'rss',
+    platform_content_id: item.guid || item.link || `${feedUrl}_${item.pubDate}`,
+    url: item.link || (item.podcast && item.enclosure?.url) || feedUrl || '',
+    title: item.title || 'Untitled',
+    description: item.contentSnippet || textContent.substring(0, 300),
+    published_at: item.pubDate
+      ? new Date(item.pubDate).toISOString()
+      : new Date().toISOString(),
+    content_body: contentBody,
+    word_count,
+    reading_time_minutes,
+    media_urls: mediaUrls,
+    engagement_metrics: {}, // RSS doesn't have engagement metrics
+  };
+}
+
+/**
+ * Normalize RSS enclosure to MediaUrl
+ */
+function normalizeRSSEnclosure(enclosure: RSSEnclosure): MediaUrl {
+  // Determine media type from MIME type
+  let type: MediaUrl['type'] = 'document';
+  const mimeType = enclosure.type.toLowerCase();
+
+  if (mimeType.startsWith('image/')) {
+    type = 'image';
+  } else if (mimeType.startsWith('video/')) {
+    type = 'video';
+  } else if (mimeType.startsWith('audio/')) {
+    type = 'audio';
+  }
+
+  return {
+    url: enclosure.url,
+    type,
+    size: enclosure.length,
+  };
+}
+
+export const rssPlatform: PlatformDefinition = {
+  platform: 'rss',
+  label: 'RSS',
+  social: false,
+  detection: {
+    patterns: [
+      /\.(rss|xml|atom)(?:\?.*)?$/i,
+      /\/feed\/?(?:\?.*)?$/i,
+      /\/rss\/?(?:\?.*)?$/i,
+      /\/atom\/?(?:\?.*)?$/i,
+    ],
+    toProfile: (url) => ({
+      platformUserId: getDomain(url) || 'unknown',
+      profileUrl: url,
+      metadata: {
+        feedUrl: url,
+        feedType: url.toLowerCase().includes('atom') ? 'atom' : 'rss',
+      },
+    }),
+  },
+  normalize: normalizeRSSContent,
+};
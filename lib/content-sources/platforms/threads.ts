@@ -0,0 +1,84 @@
+import {
+  CreateContentInput,
+  calculateReadingTime,
+  calculateWordCount,
+} from '@/types/content';
+import type { PlatformDefinition } from '../types';
+
+/**
+ * Normalize Threads content (stub for future implementation)
+ */
+function normalizeThreadsContent(
+  creator_id: string,
+  data: {
+    id?: string;
+    url?: string;
+    text?: string;
+    publishedAt?: string;
+    timestamp?: string;
+    media?: Array<{ url?: string; type?: string }>;
+    likeCount?: number;
+    replyCount?: number;
+    shareCount?: number;
+  }
+): CreateContentInput {
+  // Threads-specific normalization
+  // This will be implemented when Threads scraping is added
+  return {
+    creator_id,
+    platform: 'threads',
+    platform_content_id: data.id || '',
+    url: data.url || '',
+    title: '', // Threads posts don't have titles
+    description: data.text || '',
+    thumbnail_url: data.media?.[0]?.url,
+    published_at: data.timestamp || new Date().toISOString(),
+    content_body: data.text || '',
+    word_count: calculateWordCount(data.text || ''),
+    reading_time_minutes: calculateReadingTime(data.text || ''),
+    media_urls:
+      data.media
+        ?.filter((media: { url?: string; type?: string }) => media.url)
+        .map((media: { url?: string; type?: string }) => ({
+          url: media.url || '',
+          type: (media.type === 'video' ||
+          media.type === 'audio' ||
+          media.type === 'document'
+            ? media.type
+            : 'image') as 'image' | 'video' | 'audio' | 'document',
+        })) || [],
+    engagement_metrics: {
+      likes: data.likeCount,
+      comments: data.replyCount,
+      shares: data.shareCount,
+    },
+  };
+}
+
+export const threadsPlatform: PlatformDefinition = {
+  platform: 'threads',
+  label: 'Threads',
+  social: true,
+  detection: {
+    patterns: [
+      // Profile URLs with @username
+      /^https?:\/\/(?:www\.)?threads\.(?:com|net)\/@([a-zA-Z0-9._]+)/,
+      // Post URLs format: threads.com/t/PostID
+      /^https?:\/\/(?:www\.)?threads\.(?:com|net)\/t\/[a-zA-Z0-9_-]+/,
+      // Post URLs with username: threads.com/@username/post/PostID
+      /^https?:\/\/(?:www\.)?threads\.(?:com|net)\/@([a-zA-Z0-9._]+)\/post\/[a-zA-Z0-9_-]+/,
+    ],
+    toProfile: (url, match) => {
+      const username = match[1];
+      // A post URL without a username can't be turned into a profile URL
+      return username
+        ? {
+            platformUserId: username,
+            profileUrl: `https://www.threads.com/@${username}`,
+            metadata: { username },
+          }
+        : { platformUserId: 'threads-post', profileUrl: url, metadata: {} };
+    },
+  },
+  normalize: normalizeThreadsContent,
+};
@@ -0,0 +1,185 @@
+import {
+  CreateContentInput,
+  MediaUrl,
+  calculateReadingTime,
+  calculateWordCount,
+} from '@/types/content';
+import type { PlatformDefinition } from '../types';
+
+/**
+ * Normalize Twitter content (stub for future implementation)
+ */
+function normalizeTwitterContent(
+  creator_id: string,
+  data: {
+    id?: string;
+    text?: string;
+    author_id?: string;
+    created_at?: string;
+    lang?: string;
+    attachments?: { media_keys?: string[] };
+    entities?: {
+      hashtags?: Array<{ tag?: string }>;
+      media?: Array<{
+        type?: string;
+        media_url?: string;
+        media_url_https?: string;
+        url?: string;
+        display_url?: string;
+        expanded_url?: string;
+      }>;
+    };
+    includes?: {
+      media?: Array<{
+        type?: string;
+        url?: string;
+        preview_image_url?: string;
+        media_key?: string;
+        width?: number;
+        height?: number;
+        variants?: Array<{ url?: string }>;
+      }>;
+    };
+    public_metrics?: {
+      retweet_count?: number;
+      reply_count?: number;
+      like_count?: number;
+      bookmark_count?: number;
+      impression_count?: number;
+    };
+  }
+): CreateContentInput {
+  // Twitter-specific normalization
+  // This will be implemented when Twitter API integration is added
+  return {
+    creator_id,
+    platform: 'twitter',
+    platform_content_id: data.id || '',
+    url: data.id ? `https://twitter.com/i/status/${data.id}` : '',
+    title: '', // Tweets don't have titles
+    description: data.text || '',
+    published_at: data.created_at
+      ? new Date(data.created_at).toISOString()
+      : new Date().toISOString(),
+    content_body: data.text || '',
+    word_count: calculateWordCount(data.text || ''),
+    reading_time_minutes: calculateReadingTime(data.text || ''),
+    media_urls: extractTwitterMedia(data),
+    engagement_metrics: {
+      likes: data.public_metrics?.like_count,
+      retweets: data.public_metrics?.retweet_count,
+      comments: data.public_metrics?.reply_count,
+      bookmarks: data.public_metrics?.bookmark_count,
+    },
+  };
+}
+
+/**
+ * Extract media from Twitter data
+ */
+function extractTwitterMedia(data: {
+  attachments?: { media_keys?: string[] };
+  entities?: {
+    media?: Array<{
+      type?: string;
+      media_url?: string;
+      media_url_https?: string;
+      url?: string;
+      display_url?: string;
+      expanded_url?: string;
+    }>;
+  };
+  includes?: {
+    media?: Array<{
+      type?: string;
+      url?: string;
+      preview_image_url?: string;
+      media_key?: string;
+      width?: number;
+      height?: number;
+      duration_ms?: number;
+      variants?: Array<{ url?: string }>;
+    }>;
+  };
+}): MediaUrl[] {
+  const mediaUrls: MediaUrl[] = [];
+
+  // Handle attached media
+  if (data.attachments?.media_keys && data.includes?.media) {
+    data.includes.media.forEach(
+      (media: {
+        type?: string;
+        url?: string;
+        preview_image_url?: string;
+        media_key?: string;
+        width?: number;
+        height?: number;
+        duration_ms?: number;
+        variants?: Array<{ url?: string }>;
+      }) => {
+        if (
+          media.media_key &&
+          data.attachments?.media_keys?.includes(media.media_key)
+        ) {
+          if (media.type === 'photo') {
+            mediaUrls.push({
+              url: media.url || media.preview_image_url || '',
+              type: 'image',
+              width: media.width,
+              height: media.height,
+            });
+          } else if (media.type === 'video' || media.type === 'animated_gif') {
+            mediaUrls.push({
+              url: media.preview_image_url || '', // Videos use preview image
+              type: 'video',
+              duration: media.duration_ms
+                ? media.duration_ms / 1000
+                : undefined,
+              width: media.width,
+              height: media.height,
+            });
+          }
+        }
+      }
+    );
+  }
+
+  // Handle legacy media format
+  if (data.entities?.media) {
+    data.entities.media.forEach(
+      (media: {
+        type?: string;
+        media_url?: string;
+        media_url_https?: string;
+        url?: string;
+        display_url?: string;
+        expanded_url?: string;
+      }) => {
+        mediaUrls.push({
+          url: media.media_url_https || media.media_url || '',
+          type: media.type === 'photo' ? 'image' : 'video',
+        });
+      }
+    );
+  }
+
+  return mediaUrls;
+}
+
+export const twitterPlatform: PlatformDefinition = {
+  platform: 'twitter',
+  label: 'X',
+  social: true,
+  detection: {
+    patterns: [
+      /^https?:\/\/(?:www\.)?twitter\.com\/([a-zA-Z0-9_]+)/,
+      /^https?:\/\/(?:www\.)?x\.com\/([a-zA-Z0-9_]+)/,
+    ],
+    toProfile: (url, match) => ({
+      platformUserId: match[1],
+      profileUrl: url,
+      metadata: { username: match[1] },
+    }),
+  },
+  normalize: normalizeTwitterContent,
+};
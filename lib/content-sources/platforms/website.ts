@@ -0,0 +1,61 @@
+import {
+  CreateContentInput,
+  calculateReadingTime,
+  calculateWordCount,
+} from '@/types/content';
+import type { PlatformDefinition } from '../types';
+
+/**
+ * Normalize generic website content (stub for future implementation)
+ */
+function normalizeWebsiteContent(
+  creator_id: string,
+  data: {
+    title?: string;
+    url?: string;
+    description?: string;
+    published_at?: string;
+    [key: string]: unknown;
+  },
+  sourceUrl?: string
+): CreateContentInput {
+  // Generic website content normalization
+  // This will be implemented when web scraping is added
+  return {
+    creator_id,
+    platform: 'website',
+    platform_content_id: data.url || sourceUrl || '',
+    url: data.url || sourceUrl || '',
+    title: data.title || 'Untitled',
+    description: (data.description || data.excerpt || '') as string,
+    thumbnail_url: (data.image || data.thumbnail) as string | undefined,
+    published_at:
+      (data.publishDate as string) ||
+      (data.datePublished as string) ||
+      new Date().toISOString(),
+    content_body: (data.content || data.body || '') as string,
+    word_count: calculateWordCount((data.content || data.body || '') as string),
+    reading_time_minutes: calculateReadingTime(
+      (data.content || data.body || '') as string
+    ),
+    media_urls:
+      (data.images as Array<{ url?: string; type?: string } | string>)
+        ?.filter((img: { url?: string; type?: string } | string) =>
+          typeof img === 'string' ? img : img.url
+        )
+        .map((img: { url?: string; type?: string } | string) => ({
+          url: (typeof img === 'string' ? img : img.url) || '',
+          type: 'image' as const,
+        })) || [],
+    engagement_metrics: {},
+  };
+}
+
+export const websitePlatform: PlatformDefinition = {
+  platform: 'website',
+  label: 'Website',
+  social: false,
+  // No fetcher yet, so nothing processes website content
+  pending: true,
+  normalize: normalizeWebsiteContent,
+};
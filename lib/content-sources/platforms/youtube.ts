@@ -0,0 +1,105 @@
+import { CreateContentInput, calculateWordCount } from '@/types/content';
+import type { PlatformDefinition } from '../types';
+
+function isChannelId(id: string): boolean {
+  return id.startsWith('UC') && id.length === 24;
+}
+
+/**
+ * Normalize YouTube content (stub for future implementation)
+ */
+function normalizeYouTubeContent(
+  creator_id: string,
+  data: {
+    id?: string | { videoId?: string };
+    snippet?: {
+      title?: string;
+      description?: string;
+      publishedAt?: string;
+      channelTitle?: string;
+      tags?: string[];
+      thumbnails?: {
+        high?: { url?: string; width?: number; height?: number };
+        default?: { url?: string; width?: number; height?: number };
+      };
+    };
+    statistics?: {
+      viewCount?: string;
+      likeCount?: string;
+      commentCount?: string;
+    };
+    contentDetails?: {
+      duration?: string;
+    };
+  }
+): CreateContentInput {
+  // YouTube-specific normalization
+  // This will be implemented when YouTube API integration is added
+  return {
+    creator_id,
+    platform: 'youtube',
+    platform_content_id:
+      typeof data.id === 'string' ? data.id : data.id?.videoId || '',
+    url: data.id
+      ? `https://www.youtube.com/watch?v=${typeof data.id === 'string' ? data.id : data.id.videoId}`
+      : '',
+    title: data.snippet?.title || 'Untitled Video',
+    description: data.snippet?.description || '',
+    thumbnail_url:
+      data.snippet?.thumbnails?.high?.url ||
+      data.snippet?.thumbnails?.default?.url,
+    published_at: data.snippet?.publishedAt || new Date().toISOString(),
+    content_body: data.snippet?.description || '',
+    word_count: calculateWordCount(data.snippet?.description || ''),
+    reading_time_minutes: 0, // Videos don't have reading time
+    media_urls:
+      data.snippet?.thumbnails &&
+      (data.snippet.thumbnails.high?.url ||
+        data.snippet.thumbnails.default?.url)
+        ? [
+            {
+              url:
+                data.snippet.thumbnails.high?.url ||
+                data.snippet.thumbnails.default?.url ||
+                '',
+              type: 'image' as const,
+              width: data.snippet.thumbnails.high?.width,
+              height: data.snippet.thumbnails.high?.height,
+            },
+          ]
+        : [],
+    engagement_metrics: {
+      views: data.statistics?.viewCount
+        ? parseInt(data.statistics.viewCount)
+        : undefined,
+      likes: data.statistics?.likeCount
+        ? parseInt(data.statistics.likeCount)
+        : undefined,
+      comments: data.statistics?.commentCount
+        ? parseInt(data.statistics.commentCount)
+        : undefined,
+    },
+  };
+}
+
+export const youtubePlatform: PlatformDefinition = {
+  platform: 'youtube',
+  label: 'YouTube',
+  social: false,
+  detection: {
+    patterns: [
+      /^https?:\/\/(?:www\.)?youtube\.com\/channel\/([a-zA-Z0-9_-]+)/,
+      /^https?:\/\/(?:www\.)?youtube\.com\/@([a-zA-Z0-9_-]+)/,
+      /^https?:\/\/(?:www\.)?youtube\.com\/c\/([a-zA-Z0-9_-]+)/,
+      /^https?:\/\/(?:www\.)?youtube\.com\/user\/([a-zA-Z0-9_-]+)/,
+    ],
+    toProfile: (url, match) => ({
+      platformUserId: match[1],
+      profileUrl: url,
+      metadata: isChannelId(match[1])
+        ? { channelId: match[1] }
+        : { username: match[1] },
+    }),
+  },
+  normalize: normalizeYouTubeContent,
+};
@@ -0,0 +1,41 @@
+import type { Platform } from '@/types/content';
+import type { ContentSource, ContentSourceDefinition } from './types';
+
+/**
+ * Content Source Registry
+ *
+ * Maps each platform to the source that fetches it. Sources are created
+ * lazily on first use so unconfigured platforms never touch their SDKs.
+ */
+export class ContentSourceRegistry {
+  private definitions = new Map<Platform, ContentSourceDefinition>();
+  private instances = new Map<Platform, ContentSource | null>();
+
+  register(definition: ContentSourceDefinition): this {
+    this.definitions.set(definition.platform, definition);
+    this.instances.delete(definition.platform);
+    return this;
+  }
+
+  /**
+   * Get the source for a platform, or null if none is registered or configured
+   */
+  get(platform: Platform): ContentSource | null {
+    if (this.instances.has(platform)) {
+      return this.instances.get(platform) ?? null;
+    }
+
+    const definition = this.definitions.get(platform);
+    const source = definition ? definition.create() : null;
+    this.instances.set(platform, source);
+    return source;
+  }
+
+  has(platform: Platform): boolean {
+    return this.definitions.has(platform);
+  }
+
+  platforms(): Platform[] {
+    return Array.from(this.definitions.keys());
+  }
+}
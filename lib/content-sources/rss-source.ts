@@ -0,0 +1,122 @@
+import { RSSFetcher } from '@/lib/content-fetcher/rss-fetcher';
+import { ContentNormalizer } from '@/lib/services/content-normalizer';
+import { TranscriptService } from '@/lib/services/transcript-service';
+import type { CreateContentInput } from '@/types/content';
+import type { RSSItem } from '@/types/rss';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+export class RSSContentSource implements ContentSource {
+  readonly platform = 'rss' as const;
+  private normalizer = new ContentNormalizer();
+
+  constructor(
+    private fetcher: RSSFetcher = new RSSFetcher(),
+    private transcripts: TranscriptService = new TranscriptService()
+  ) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    const { creatorUrl } = context;
+    const result = await this.fetcher.parseURL(creatorUrl.url, {
+      conditional: {
+        etag: creatorUrl.etag,
+        lastModified: creatorUrl.last_modified,
+      },
+    });
+
+    if (result.notModified) {
+      return {
+        items: [],
+        status: 'not_modified',
+        validators: result.validators,
+      };
+    }
+
+    if (!result.success || !result.feed?.items) {
+      return { items: [], error: result.error };
+    }
+
+    const feedItems = result.feed.items.slice(0, context.maxItems);
+    const items = feedItems.map((item) =>
+      this.normalizer.normalize({
+        platform: 'rss',
+        platformData: item,
+        creator_id: context.creatorId,
+        sourceUrl: context.creatorUrl.url,
+      })
+    );
+
+    if (result.feed.isPodcast) {
+      await this.attachPodcastTranscripts(context, feedItems, items);
+    }
+
+    return { items, status: 'fetched', validators: result.validators };
+  }
+
+  /**
+   * Fetch podcast:transcript and podcast:chapters for new episodes.
+   * Episodes that already have a stored transcript are skipped.
+   */
+  private async attachPodcastTranscripts(
+    context: ContentSourceContext,
+    feedItems: RSSItem[],
+    items: CreateContentInput[]
+  ): Promise<void> {
+    const candidates = items
+      .map((content, index) => ({ content, podcast: feedItems[index].podcast }))
+      .filter(
+        ({ podcast }) =>
+          podcast && (podcast.transcripts.length > 0 || podcast.chaptersUrl)
+      );
+
+    if (candidates.length === 0) return;
+
+    const { data: existing } = await context.supabase
+      .from('content')
+      .select('platform_content_id')
+      .eq('creator_id', context.creatorId)
+      .eq('platform', 'rss')
+      .not('transcript', 'is', null)
+      .in(
+        'platform_content_id',
+        candidates.map(({ content }) => content.platform_content_id)
+      );
+    const alreadyTranscribed = new Set(
+      (existing || []).map((row) => row.platform_content_id)
+    );
+
+    for (const { content, podcast } of candidates) {
+      if (alreadyTranscribed.has(content.platform_content_id)) continue;
+
+      const transcriptLink = TranscriptService.selectTranscript(
+        podcast!.transcripts
+      );
+      const [transcript, chapters] = await Promise.all([
+        transcriptLink
+          ? this.transcripts.fetchTranscript(transcriptLink)
+          : null,
+        podcast!.chaptersUrl
+          ? this.transcripts.fetchChapters(podcast!.chaptersUrl)
+          : null,
+      ]);
+
+      if (transcript) {
+        content.transcript = transcript.text;
+        content.transcript_segments = transcript.segments;
+        content.transcript_source = 'podcast';
+      }
+      if (chapters) {
+        content.chapters = chapters;
+      }
+    }
+  }
+}
+
+export const rssSourceDefinition: ContentSourceDefinition = {
+  platform: 'rss',
+  create: () => new RSSContentSource(),
+};
@@ -0,0 +1,46 @@
+import { ApifyFetcher } from '@/lib/content-fetcher/apify-fetcher';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+export class ThreadsContentSource implements ContentSource {
+  readonly platform = 'threads' as const;
+
+  constructor(private fetcher: ApifyFetcher) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    const match = context.creatorUrl.url.match(/@([^/]+)/);
+    const username = match ? match[1] : null;
+
+    if (!username) {
+      return {
+        items: [],
+        status: 'skipped',
+        error: 'Could not extract Threads username from URL',
+      };
+    }
+
+    const items = await this.fetcher.fetchThreadsContent([username], {
+      resultsLimit: context.maxItems,
+      creatorId: context.creatorId,
+    });
+
+    return {
+      items: items.map((item) => ({ ...item, creator_id: context.creatorId })),
+      status: 'fetched',
+    };
+  }
+}
+
+export const threadsSourceDefinition: ContentSourceDefinition = {
+  platform: 'threads',
+  create: () =>
+    process.env.APIFY_API_KEY
+      ? new ThreadsContentSource(
+          new ApifyFetcher({ apiKey: process.env.APIFY_API_KEY })
+        )
+      : null,
+};
@@ -0,0 +1,63 @@
+import { ApifyFetcher } from '@/lib/content-fetcher/apify-fetcher';
+import { ContentNormalizer } from '@/lib/services/content-normalizer';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+export class TwitterContentSource implements ContentSource {
+  readonly platform = 'twitter' as const;
+  private normalizer = new ContentNormalizer();
+
+  constructor(private fetcher: ApifyFetcher) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    const { creatorId, creatorName, creatorUrl, supabase } = context;
+
+    const items = await this.fetcher.fetchTwitterContent([creatorUrl.url], {
+      maxTweets: context.maxItems,
+      creatorId,
+    });
+
+    // Extract and update creator avatar if missing
+    const authorInfo = this.fetcher.getExtractedAuthors();
+    if (authorInfo.length > 0 && authorInfo[0].avatar_url) {
+      const { data: creator } = await supabase
+        .from('creators')
+        .select('avatar_url')
+        .eq('id', creatorId)
+        .single();
+
+      if (creator && !creator.avatar_url) {
+        await supabase
+          .from('creators')
+          .update({
+            avatar_url: authorInfo[0].avatar_url,
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', creatorId);
+        console.log(`[Creator ${creatorName}] Updated avatar from Twitter`);
+      }
+    }
+
+    // Self-replies become one thread instead of a string of separate posts
+    return {
+      items: this.normalizer.linkThreads(
+        items.map((item) => ({ ...item, creator_id: creatorId }))
+      ),
+      status: 'fetched',
+    };
+  }
+}
+
+export const twitterSourceDefinition: ContentSourceDefinition = {
+  platform: 'twitter',
+  create: () =>
+    process.env.APIFY_API_KEY
+      ? new TwitterContentSource(
+          new ApifyFetcher({ apiKey: process.env.APIFY_API_KEY })
+        )
+      : null,
+};
@@ -0,0 +1,110 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CreateContentInput, Platform } from '@/types/content';
+import type { CreatorUrl } from '@/types/creator';
+import type { RSSCacheValidators } from '@/types/rss';
+
+/**
+ * Everything a content source needs to fetch one creator URL
+ */
+export interface ContentSourceContext {
+  creatorId: string;
+  creatorName: string;
+  creatorUrl: CreatorUrl;
+  supabase: SupabaseClient;
+  maxItems: number;
+}
+
+/**
+ * Result of fetching a single creator URL.
+ *
+ * Items are already normalized and stamped with the creator ID; storage is
+ * handled by the caller so every platform reports stats the same way.
+ */
+export interface ContentSourceResult {
+  items: CreateContentInput[];
+  // Set when the source defers work instead of returning items
+  // (e.g. BrightData snapshots that are collected by a separate worker)
+  // 'not_modified' means a conditional request returned 304
+  status?: 'fetched' | 'skipped' | 'collection_triggered' | 'not_modified';
+  error?: string;
+  // Cache validators to persist for the next conditional request
+  validators?: RSSCacheValidators;
+}
+
+/**
+ * Per-source stats recorded in creators.metadata.last_fetch_stats
+ */
+export interface ContentSourceStats {
+  fetched: number;
+  new: number;
+  updated: number;
+  error: string | null;
+  status?: ContentSourceResult['status'];
+}
+
+/**
+ * A platform integration that turns a creator URL into normalized content
+ */
+export interface ContentSource {
+  readonly platform: Platform;
+  fetch(context: ContentSourceContext): Promise<ContentSourceResult>;
+}
+
+/**
+ * Registers a platform. `create` returns null when the source is not
+ * configured in this environment (e.g. missing API key).
+ */
+export interface ContentSourceDefinition {
+  platform: Platform;
+  create: () => ContentSource | null;
+}
+
+/**
+ * A creator profile recognised from a URL
+ */
+export interface PlatformProfile {
+  platformUserId: string;
+  profileUrl: string;
+  metadata: {
+    channelId?: string;
+    username?: string;
+    companyId?: string;
+    instance?: string;
+    feedUrl?: string;
+    feedType?: 'rss' | 'atom';
+  };
+}
+
+/**
+ * How a platform's creator URLs are recognised
+ */
+export interface PlatformDetection {
+  // Matched against the lowercased URL, in order
+  patterns: RegExp[];
+  // Null hands the URL on to the next pattern or platform
+  toProfile: (url: string, match: RegExpMatchArray) => PlatformProfile | null;
+  // Rewrites shorthand input (e.g. a fediverse handle) into a profile URL
+  normalizeInput?: (input: string) => string;
+}
+
+/**
+ * What the app knows about a platform apart from fetching it: recognising
+ * its URLs and normalizing its items. Free of server-only imports so the
+ * browser can use it too.
+ */
+export interface PlatformDefinition {
+  platform: Platform;
+  label: string;
+  // Short-form posts, where the text matters more than the title
+  social: boolean;
+  // Stored content waits as 'pending' instead of showing on the dashboard
+  pending?: boolean;
+  // Platforms without detection can't be added as creator URLs
+  detection?: PlatformDetection;
+  // Turns one fetched item into content; data is the platform's own shape
+  normalize(
+    creatorId: string,
+    data: unknown,
+    sourceUrl?: string
+  ): CreateContentInput;
+}
@@ -0,0 +1,55 @@
+import { YouTubeFetcher } from '@/lib/content-fetcher/youtube-fetcher';
+import { ContentNormalizer } from '@/lib/services/content-normalizer';
+import { YouTubeTranscriptService } from '@/lib/services/youtube-transcript-service';
+import type {
+  ContentSource,
+  ContentSourceContext,
+  ContentSourceDefinition,
+  ContentSourceResult,
+} from './types';
+
+export class YouTubeContentSource implements ContentSource {
+  readonly platform = 'youtube' as const;
+  private normalizer = new ContentNormalizer();
+
+  constructor(
+    private fetcher: YouTubeFetcher,
+    private transcripts: YouTubeTranscriptService = new YouTubeTranscriptService()
+  ) {}
+
+  async fetch(context: ContentSourceContext): Promise<ContentSourceResult> {
+    // Storage is left to the caller so YouTube reports stats like every other source
+    const result = await this.fetcher.fetchChannelVideosByUrl(
+      context.creatorUrl.url,
+      { maxResults: context.maxItems }
+    );
+
+    if (!result.success || !result.videos) {
+      return { items: [], error: result.error };
+    }
+
+    const items = this.normalizer.normalizeMultiple(
+      context.creatorId,
+      'youtube',
+      result.videos
+    );
+    await this.transcripts.attachTranscripts(
+      context.supabase,
+      context.creatorId,
+      result.videos,
+      items
+    );
+
+    return { items, status: 'fetched' };
+  }
+}
+
+export const youtubeSourceDefinition: ContentSourceDefinition = {
+  platform: 'youtube',
+  create: () =>
+    process.env.YOUTUBE_API_KEY
+      ? new YouTubeContentSource(
+          new YouTubeFetcher({ apiKey: process.env.YOUTUBE_API_KEY })
+        )
+      : null,
+};
@@ -0,0 +1,246 @@
+import { LLMError } from '@/types/llm';
+import { llmErrorFromStatus, parseRetryAfter } from './errors';
+import type {
+  LLMProvider,
+  LLMProviderBatch,
+  LLMProviderBatchRequest,
+  LLMProviderDefinition,
+  LLMProviderRequest,
+  LLMProviderResponse,
+} from './types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+// The Messages API requires max_tokens
+const DEFAULT_MAX_TOKENS = 2048;
+
+interface AnthropicMessageResponse {
+  content?: Array<{ type: string; text?: string }>;
+  usage?: { input_tokens?: number; output_tokens?: number };
+  error?: { message?: string };
+}
+
+interface AnthropicBatchResponse {
+  id: string;
+  processing_status: 'in_progress' | 'canceling' | 'ended';
+  request_counts: {
+    succeeded: number;
+    errored: number;
+    canceled: number;
+    expired: number;
+  };
+  results_url: string | null;
+}
+
+// One line of a batch's results file
+interface AnthropicBatchLine {
+  custom_id: string;
+  result:
+    | { type: 'succeeded'; message: AnthropicMessageResponse }
+    | { type: 'errored'; error: { error?: { message?: string } } }
+    | { type: 'canceled' | 'expired' };
+}
+
+/**
+ * Claude over the Messages API. Called with fetch so the fallback provider
+ * doesn't pull in another SDK.
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly supportsWebSearch = true;
+
+  constructor(private apiKey: string) {}
+
+  async complete(request: LLMProviderRequest): Promise<LLMProviderResponse> {
+    const response = await this.request<AnthropicMessageResponse>(
+      ANTHROPIC_API_URL,
+      { method: 'POST', body: JSON.stringify(this.messageParams(request)) }
+    );
+    return this.toResponse(response);
+  }
+
+  /**
+   * Submit requests to the Message Batches API. Results are kept for 29
+   * days after the batch ends.
+   */
+  async submitBatch(requests: LLMProviderBatchRequest[]): Promise<string> {
+    const batch = await this.request<AnthropicBatchResponse>(
+      `${ANTHROPIC_API_URL}/batches`,
+      {
+        method: 'POST',
+        body: JSON.stringify({
+          requests: requests.map(({ customId, request }) => ({
+            custom_id: customId,
+            params: this.messageParams(request),
+          })),
+        }),
+      }
+    );
+    return batch.id;
+  }
+
+  async getBatch(batchId: string): Promise<LLMProviderBatch> {
+    const batch = await this.request<AnthropicBatchResponse>(
+      `${ANTHROPIC_API_URL}/batches/${batchId}`,
+      { method: 'GET' }
+    );
+
+    if (batch.processing_status !== 'ended' || !batch.results_url) {
+      return { status: 'in_progress', results: [] };
+    }
+
+    const lines = (
+      await this.request<string>(batch.results_url, { method: 'GET' }, true)
+    )
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as AnthropicBatchLine);
+
+    const counts = batch.request_counts;
+    const answered = counts.succeeded + counts.errored;
+
+    return {
+      status:
+        answered > 0
+          ? 'completed'
+          : counts.expired > 0
+            ? 'expired'
+            : 'cancelled',
+      results: lines.map(({ custom_id, result }) => {
+        if (result.type === 'succeeded') {
+          try {
+            return {
+              customId: custom_id,
+              response: this.toResponse(result.message),
+            };
+          } catch (error) {
+            return {
+              customId: custom_id,
+              error: error instanceof Error ? error.message : String(error),
+            };
+          }
+        }
+        return {
+          customId: custom_id,
+          error:
+            result.type === 'errored'
+              ? `anthropic: ${result.error.error?.message || 'request failed'}`
+              : `anthropic: request ${result.type}`,
+        };
+      }),
+    };
+  }
+
+  private messageParams(request: LLMProviderRequest) {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content);
+
+    // Claude has no JSON mode, so ask for it in the system prompt
+    if (request.jsonSchema) {
+      system.push(
+        `Respond with only a JSON object matching this JSON Schema:\n${JSON.stringify(request.jsonSchema.schema)}`
+      );
+    } else if (request.json) {
+      system.push('Respond with only a valid JSON object.');
+    }
+
+    return {
+      model: request.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      ...(system.length > 0 && { system: system.join('\n\n') }),
+      messages: request.messages
+        .filter((message) => message.role !== 'system')
+        .map(({ role, content }) => ({ role, content })),
+      ...(request.temperature !== undefined && {
+        temperature: Math.min(1, request.temperature),
+      }),
+      ...(request.webSearch && {
+        tools: [
+          {
+            type: 'web_search_20250305',
+            name: 'web_search',
+            max_uses: 5,
+            ...(request.webSearch.allowedDomains && {
+              allowed_domains: request.webSearch.allowedDomains,
+            }),
+          },
+        ],
+      }),
+    };
+  }
+
+  private toResponse(body: AnthropicMessageResponse): LLMProviderResponse {
+    const text = (body.content || [])
+      .filter((block) => block.type === 'text')
+      .map((block) => block.text || '')
+      .join('');
+
+    if (!text) {
+      throw new LLMError(
+        'anthropic: empty response',
+        'INVALID_RESPONSE',
+        undefined,
+        this.name
+      );
+    }
+
+    return {
+      text,
+      usage: {
+        inputTokens: body.usage?.input_tokens || 0,
+        outputTokens: body.usage?.output_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Call the API, mapping failures with llmErrorFromStatus. Returns the
+   * JSON body, or the raw text for JSONL results files.
+   */
+  private async request<T>(
+    url: string,
+    init: { method: 'GET' | 'POST'; body?: string },
+    raw = false
+  ): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        ...init,
+        headers: {
+          'content-type': 'application/json',
+          'x-api-key': this.apiKey,
+          'anthropic-version': ANTHROPIC_VERSION,
+        },
+      });
+    } catch (error) {
+      throw llmErrorFromStatus(
+        this.name,
+        undefined,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+
+    if (!response.ok) {
+      const body = (await response
+        .json()
+        .catch(() => ({}))) as AnthropicMessageResponse;
+      throw llmErrorFromStatus(
+        this.name,
+        response.status,
+        body.error?.message || response.statusText,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return (raw ? await response.text() : await response.json()) as T;
+  }
+}
+
+export const anthropicProviderDefinition: LLMProviderDefinition = {
+  name: 'anthropic',
+  create: () =>
+    process.env.ANTHROPIC_API_KEY
+      ? new AnthropicProvider(process.env.ANTHROPIC_API_KEY)
+      : null,
+};
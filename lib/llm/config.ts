@@ -0,0 +1,216 @@
+import type { LLMProviderName, LLMTask } from '@/types/llm';
+import type { LLMRoute } from './types';
+
+// Cost per 1M tokens in USD (as of 2025)
+export const MODEL_PRICING: Record<string, { input: number; output: number }> =
+  {
+    'gpt-5': { input: 1.25, output: 10.0 },
+    'gpt-5-mini': { input: 0.25, output: 2.0 },
+    'gpt-4o-mini': { input: 0.15, output: 0.6 },
+    'gpt-4': { input: 30.0, output: 60.0 },
+    'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+    'claude-3-5-haiku-latest': { input: 0.8, output: 4.0 },
+    'claude-sonnet-4-0': { input: 3.0, output: 15.0 },
+    'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+    'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  };
+
+// Models missing from MODEL_PRICING are costed as gpt-4o-mini
+const DEFAULT_PRICING = MODEL_PRICING['gpt-4o-mini'];
+
+// OpenAI and Anthropic both bill batch jobs at half the real-time price
+export const BATCH_PRICE_MULTIPLIER = 0.5;
+
+// Rate limiting configuration, per model. The gateway slows down at 80% of
+// requestsPerMinute rather than waiting for a 429.
+export const RATE_LIMITS: Record<
+  string,
+  { requestsPerMinute: number; tokensPerMinute: number; requestsPerDay: number }
+> = {
+  'gpt-5': {
+    requestsPerMinute: 500,
+    tokensPerMinute: 500000,
+    requestsPerDay: 10000,
+  },
+  'gpt-5-mini': {
+    requestsPerMinute: 1000,
+    tokensPerMinute: 400000,
+    requestsPerDay: 20000,
+  },
+  'gpt-4o-mini': {
+    requestsPerMinute: 500,
+    tokensPerMinute: 200000,
+    requestsPerDay: 10000,
+  },
+  'gpt-4': {
+    requestsPerMinute: 500,
+    tokensPerMinute: 40000,
+    requestsPerDay: 10000,
+  },
+  'gpt-3.5-turbo': {
+    requestsPerMinute: 3500,
+    tokensPerMinute: 90000,
+    requestsPerDay: 10000,
+  },
+  'claude-3-5-haiku-latest': {
+    requestsPerMinute: 50,
+    tokensPerMinute: 50000,
+    requestsPerDay: 10000,
+  },
+  'claude-sonnet-4-0': {
+    requestsPerMinute: 50,
+    tokensPerMinute: 30000,
+    requestsPerDay: 10000,
+  },
+  'gemini-2.5-flash': {
+    requestsPerMinute: 1000,
+    tokensPerMinute: 1000000,
+    requestsPerDay: 10000,
+  },
+  'gemini-2.5-flash-lite': {
+    requestsPerMinute: 4000,
+    tokensPerMinute: 4000000,
+    requestsPerDay: 20000,
+  },
+};
+
+const DEFAULT_RATE_LIMIT = RATE_LIMITS['gpt-4o-mini'];
+
+// How long a provider is skipped after a rate limit or outage, unless it
+// sent a Retry-After
+export const PROVIDER_COOLDOWN_MS = 60000;
+
+/**
+ * Per-task model routing. The first route answers; the rest are tried in
+ * order when it is rate limited, down or not configured. Keep fallbacks on
+ * a different provider so one vendor's incident doesn't take a task down.
+ */
+export const TASK_ROUTES: Record<LLMTask, LLMRoute[]> = {
+  summary: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  relevancy: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'gemini', model: 'gemini-2.5-flash-lite' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+  ],
+  relevancy_analysis: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+  ],
+  news_summary: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  news_curation: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  rss_curation: [
+    { provider: 'openai', model: 'gpt-5-mini' },
+    { provider: 'anthropic', model: 'claude-sonnet-4-0' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  news_search: [
+    { provider: 'openai', model: 'gpt-5' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+    { provider: 'anthropic', model: 'claude-sonnet-4-0' },
+  ],
+  funding_search: [
+    { provider: 'openai', model: 'gpt-5-mini' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  stock_movers: [
+    { provider: 'openai', model: 'gpt-5-mini' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  social_post_selection: [
+    { provider: 'openai', model: 'gpt-5-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+  prompt_generation: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+  ],
+  digest: [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'anthropic', model: 'claude-3-5-haiku-latest' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+  ],
+};
+
+const PROVIDER_NAMES: LLMProviderName[] = [
+  'openai',
+  'anthropic',
+  'gemini',
+  'stub',
+];
+
+/**
+ * Parse a route override such as "anthropic:claude-3-5-haiku-latest,
+ * openai:gpt-4o-mini". Unknown providers are dropped.
+ */
+export function parseRoutes(value: string): LLMRoute[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [provider, ...model] = entry.split(':');
+      return {
+        provider: provider as LLMProviderName,
+        model: model.join(':') || provider,
+      };
+    })
+    .filter((route) => PROVIDER_NAMES.includes(route.provider));
+}
+
+/**
+ * Task routes with environment overrides applied:
+ * - LLM_PROVIDER=stub answers every task with the deterministic stub
+ * - LLM_ROUTE_<TASK> (e.g. LLM_ROUTE_SUMMARY) replaces one task's routes
+ */
+export function resolveTaskRoutes(
+  env: Record<string, string | undefined> = process.env
+): Record<LLMTask, LLMRoute[]> {
+  const routes = { ...TASK_ROUTES };
+
+  for (const task of Object.keys(routes) as LLMTask[]) {
+    if (env.LLM_PROVIDER === 'stub') {
+      routes[task] = [{ provider: 'stub', model: 'stub' }];
+      continue;
+    }
+
+    const override = env[`LLM_ROUTE_${task.toUpperCase()}`];
+    const parsed = override ? parseRoutes(override) : [];
+    if (parsed.length > 0) {
+      routes[task] = parsed;
+    }
+  }
+
+  return routes;
+}
+
+export function calculateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+  batch = false
+): number {
+  if (model === 'stub') return 0;
+
+  const pricing = MODEL_PRICING[model] || DEFAULT_PRICING;
+  const cost =
+    (inputTokens / 1_000_000) * pricing.input +
+    (outputTokens / 1_000_000) * pricing.output;
+  return batch ? cost * BATCH_PRICE_MULTIPLIER : cost;
+}
+
+export function getRateLimit(model: string) {
+  return RATE_LIMITS[model] || DEFAULT_RATE_LIMIT;
+}
@@ -0,0 +1,32 @@
+import { LLMError, type LLMProviderName } from '@/types/llm';
+
+/**
+ * Classify a vendor HTTP failure. 429s and 5xx are worth retrying on
+ * another provider; auth failures are treated as an outage of that vendor
+ * so a revoked key degrades to the fallback instead of taking a task down.
+ */
+export function llmErrorFromStatus(
+  provider: LLMProviderName,
+  status: number | undefined,
+  message: string,
+  retryAfter?: number
+): LLMError {
+  const text = `${provider}: ${message}`;
+
+  if (status === 429) {
+    return new LLMError(text, 'RATE_LIMITED', status, provider, retryAfter);
+  }
+  if (status === 400 || status === 404 || status === 422) {
+    return new LLMError(text, 'INVALID_REQUEST', status, provider);
+  }
+  // 401/403, 5xx and network failures (no status)
+  return new LLMError(text, 'UNAVAILABLE', status, provider, retryAfter);
+}
+
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isFinite(seconds) ? seconds : undefined;
+}
@@ -0,0 +1,415 @@
+import type { z } from 'zod';
+import type { CostAttribution } from '@/types/cost';
+import {
+  LLMError,
+  type LLMBatchItem,
+  type LLMBatchOutcome,
+  type LLMBatchSubmission,
+  type LLMCompletion,
+  type LLMCompletionRequest,
+  type LLMProviderName,
+  type LLMTask,
+  type LLMUsageEvent,
+} from '@/types/llm';
+import {
+  PROVIDER_COOLDOWN_MS,
+  calculateCost,
+  getRateLimit,
+  resolveTaskRoutes,
+} from './config';
+import type {
+  LLMProvider,
+  LLMProviderBatch,
+  LLMProviderDefinition,
+  LLMRoute,
+} from './types';
+
+export type LLMUsageListener = (event: LLMUsageEvent) => void;
+
+/**
+ * Parse a model's JSON answer, tolerating code fences and prose around the
+ * object
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const match = trimmed.match(/\{[\s\S]*\}/);
+    if (!match) {
+      throw new Error('No JSON object in response');
+    }
+    return JSON.parse(match[0]);
+  }
+}
+
+/**
+ * LLM Gateway
+ *
+ * One entry point for every model call. Each task is routed through an
+ * ordered provider/model list from lib/llm/config.ts; a rate limit, outage
+ * or missing key on one provider falls through to the next, and the failed
+ * provider is skipped for a cooldown so later calls don't wait on it again.
+ */
+export class LLMGateway {
+  private definitions = new Map<LLMProviderName, LLMProviderDefinition>();
+  private instances = new Map<LLMProviderName, LLMProvider | null>();
+  private cooldowns = new Map<LLMProviderName, number>();
+  private requestWindows = new Map<string, { start: number; count: number }>();
+  private listeners: LLMUsageListener[] = [];
+
+  constructor(
+    definitions: LLMProviderDefinition[],
+    private routes: Record<LLMTask, LLMRoute[]> = resolveTaskRoutes()
+  ) {
+    definitions.forEach((definition) =>
+      this.definitions.set(definition.name, definition)
+    );
+  }
+
+  /**
+   * Get a provider, or null if none is registered or configured
+   */
+  getProvider(name: LLMProviderName): LLMProvider | null {
+    if (this.instances.has(name)) {
+      return this.instances.get(name) ?? null;
+    }
+
+    const definition = this.definitions.get(name);
+    const provider = definition ? definition.create() : null;
+    this.instances.set(name, provider);
+    return provider;
+  }
+
+  getRoutes(task: LLMTask): LLMRoute[] {
+    return this.routes[task] || [];
+  }
+
+  /**
+   * Whether any provider on the task's route is configured
+   */
+  isAvailable(task: LLMTask): boolean {
+    return this.getRoutes(task).some((route) =>
+      this.getProvider(route.provider)
+    );
+  }
+
+  /**
+   * Subscribe to the usage and cost of every completion. Returns an
+   * unsubscribe function.
+   */
+  onUsage(listener: LLMUsageListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  async complete(request: LLMCompletionRequest): Promise<LLMCompletion> {
+    const { completion } = await this.run(request, () => undefined);
+    return completion;
+  }
+
+  /**
+   * Complete and validate the answer against `schema`. An answer that
+   * isn't valid JSON or doesn't match falls back like an outage would.
+   */
+  async completeJson<S extends z.ZodTypeAny>(
+    request: LLMCompletionRequest,
+    schema: S
+  ): Promise<LLMCompletion & { data: z.infer<S> }> {
+    const { completion, data } = await this.run(
+      { ...request, json: true },
+      (text) => {
+        let json: unknown;
+        try {
+          json = extractJson(text);
+        } catch (error) {
+          throw new LLMError(
+            `Invalid JSON: ${error instanceof Error ? error.message : error}`,
+            'INVALID_RESPONSE'
+          );
+        }
+
+        const parsed = schema.safeParse(json);
+        if (!parsed.success) {
+          throw new LLMError(
+            `Response did not match schema: ${parsed.error.message}`,
+            'INVALID_RESPONSE'
+          );
+        }
+        return parsed.data as z.infer<S>;
+      }
+    );
+
+    return { ...completion, data };
+  }
+
+  /**
+   * Submit requests as one provider batch job, on the first route whose
+   * provider has a batch API. Falls through to the next such route when
+   * submission is rate limited or the provider is down, like `complete`.
+   */
+  async submitBatch(items: LLMBatchItem[]): Promise<LLMBatchSubmission> {
+    const task = items[0]?.request.task;
+    if (
+      !task ||
+      items.some(({ request }) => request.task !== task || request.webSearch)
+    ) {
+      throw new LLMError(
+        'A batch needs at least one request, all for the same task and without web search',
+        'INVALID_REQUEST',
+        400
+      );
+    }
+
+    const routes = this.getRoutes(task).filter(
+      (route) => this.getProvider(route.provider)?.submitBatch
+    );
+
+    if (routes.length === 0) {
+      throw new LLMError(
+        `No configured batch provider for task "${task}"`,
+        'NOT_CONFIGURED',
+        503
+      );
+    }
+
+    const failures: string[] = [];
+    for (const route of routes) {
+      const provider = this.getProvider(route.provider)!;
+
+      try {
+        const batchId = await provider.submitBatch!(
+          items.map(({ customId, request }) => ({
+            customId,
+            request: { ...request, model: route.model },
+          }))
+        );
+        return { provider: route.provider, model: route.model, batchId };
+      } catch (error) {
+        const llmError = this.toLLMError(error, route.provider);
+        if (!llmError.retryable) {
+          throw llmError;
+        }
+
+        failures.push(`${route.provider}/${route.model}: ${llmError.message}`);
+        console.warn(
+          `[LLM Gateway] ${route.provider}/${route.model} batch submission failed for ${task} (${llmError.code}), trying next route`
+        );
+      }
+    }
+
+    throw new LLMError(
+      `All batch providers failed for task "${task}": ${failures.join('; ')}`,
+      'UNAVAILABLE',
+      503
+    );
+  }
+
+  /**
+   * Poll a submitted batch. Once it has ended, each result carries its
+   * completion costed at the batch price, and its usage is emitted like a
+   * real-time completion's, so call this once per ended batch.
+   * `attributions` maps custom IDs to the spend they are recorded against.
+   */
+  async getBatch(
+    task: LLMTask,
+    submission: LLMBatchSubmission,
+    attributions: Record<string, CostAttribution> = {}
+  ): Promise<LLMBatchOutcome> {
+    const provider = this.getProvider(submission.provider);
+    if (!provider?.getBatch) {
+      throw new LLMError(
+        `Provider "${submission.provider}" is not configured for batches`,
+        'NOT_CONFIGURED',
+        503,
+        submission.provider
+      );
+    }
+
+    let batch: LLMProviderBatch;
+    try {
+      batch = await provider.getBatch(submission.batchId);
+    } catch (error) {
+      throw this.toLLMError(error, submission.provider);
+    }
+
+    const results = batch.results.map(({ customId, response, error }) => {
+      if (!response) {
+        return { customId, error: error || 'No response' };
+      }
+
+      const completion: LLMCompletion = {
+        text: response.text,
+        provider: submission.provider,
+        model: submission.model,
+        usage: response.usage,
+        cost: calculateCost(
+          submission.model,
+          response.usage.inputTokens,
+          response.usage.outputTokens,
+          true
+        ),
+      };
+      this.emitUsage({
+        ...completion,
+        task,
+        durationMs: 0,
+        attribution: attributions[customId],
+        batch: true,
+      });
+      return { customId, completion };
+    });
+
+    return {
+      status: batch.status,
+      results,
+      ...(batch.error && { error: batch.error }),
+    };
+  }
+
+  private async run<T>(
+    request: LLMCompletionRequest,
+    parse: (text: string) => T
+  ): Promise<{ completion: LLMCompletion; data: T }> {
+    const routes = this.getRoutes(request.task).filter((route) => {
+      const provider = this.getProvider(route.provider);
+      return provider && (!request.webSearch || provider.supportsWebSearch);
+    });
+
+    if (routes.length === 0) {
+      throw new LLMError(
+        `No configured provider for task "${request.task}"`,
+        'NOT_CONFIGURED',
+        503
+      );
+    }
+
+    // Skip providers cooling down, unless that leaves nothing to try
+    const now = Date.now();
+    const ready = routes.filter(
+      (route) => (this.cooldowns.get(route.provider) || 0) <= now
+    );
+    const attempts = ready.length > 0 ? ready : routes;
+
+    const failures: string[] = [];
+    for (const route of attempts) {
+      const provider = this.getProvider(route.provider)!;
+      const startedAt = Date.now();
+
+      try {
+        await this.throttle(route.model);
+        const response = await provider.complete({
+          ...request,
+          model: route.model,
+        });
+        const completion: LLMCompletion = {
+          text: response.text,
+          provider: route.provider,
+          model: route.model,
+          usage: response.usage,
+          cost: calculateCost(
+            route.model,
+            response.usage.inputTokens,
+            response.usage.outputTokens
+          ),
+        };
+        // Before parsing: an answer that fails validation was still billed
+        this.emitUsage({
+          ...completion,
+          task: request.task,
+          durationMs: Date.now() - startedAt,
+          attribution: request.attribution,
+        });
+
+        return { completion, data: parse(response.text) };
+      } catch (error) {
+        const llmError = this.toLLMError(error, route.provider);
+
+        if (!llmError.retryable) {
+          throw llmError;
+        }
+
+        if (
+          llmError.code === 'RATE_LIMITED' ||
+          llmError.code === 'UNAVAILABLE'
+        ) {
+          this.cooldowns.set(
+            route.provider,
+            Date.now() +
+              (llmError.retryAfter
+                ? llmError.retryAfter * 1000
+                : PROVIDER_COOLDOWN_MS)
+          );
+        }
+
+        failures.push(`${route.provider}/${route.model}: ${llmError.message}`);
+        console.warn(
+          `[LLM Gateway] ${route.provider}/${route.model} failed for ${request.task} (${llmError.code}), trying next route`
+        );
+      }
+    }
+
+    throw new LLMError(
+      `All providers failed for task "${request.task}": ${failures.join('; ')}`,
+      'UNAVAILABLE',
+      503
+    );
+  }
+
+  /**
+   * Wait for the next minute when a model nears its requests-per-minute
+   * limit
+   */
+  private async throttle(model: string): Promise<void> {
+    const now = Date.now();
+    const window = this.requestWindows.get(model) || { start: now, count: 0 };
+
+    if (now - window.start >= 60000) {
+      window.start = now;
+      window.count = 0;
+    }
+
+    const limit = getRateLimit(model);
+    if (window.count >= limit.requestsPerMinute * 0.8) {
+      const waitTime = 60000 - (now - window.start);
+      if (waitTime > 0) {
+        console.log(
+          `[LLM Gateway] Approaching ${model} rate limit, waiting ${waitTime}ms`
+        );
+        await new Promise((resolve) => setTimeout(resolve, waitTime));
+      }
+      window.start = Date.now();
+      window.count = 0;
+    }
+
+    window.count++;
+    this.requestWindows.set(model, window);
+  }
+
+  private toLLMError(error: unknown, provider: LLMProviderName): LLMError {
+    return error instanceof LLMError
+      ? error
+      : new LLMError(
+          error instanceof Error ? error.message : String(error),
+          'UNAVAILABLE',
+          undefined,
+          provider
+        );
+  }
+
+  private emitUsage(event: LLMUsageEvent) {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[LLM Gateway] Usage listener failed:', error);
+      }
+    }
+  }
+}
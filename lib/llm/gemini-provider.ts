@@ -0,0 +1,110 @@
+import type { GoogleGenAI } from '@google/genai';
+import { LLMError } from '@/types/llm';
+import { llmErrorFromStatus } from './errors';
+import type {
+  LLMProvider,
+  LLMProviderDefinition,
+  LLMProviderRequest,
+  LLMProviderResponse,
+} from './types';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly supportsWebSearch = true;
+  private genAI: GoogleGenAI | null = null;
+
+  constructor(private apiKey: string) {}
+
+  // The SDK ships as ESM only; load it on first use so importing the
+  // gateway doesn't pull it in where Gemini is never called
+  private async getClient(): Promise<GoogleGenAI> {
+    if (!this.genAI) {
+      const { GoogleGenAI } = await import('@google/genai');
+      this.genAI = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.genAI;
+  }
+
+  async complete(request: LLMProviderRequest): Promise<LLMProviderResponse> {
+    const system = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content);
+
+    // Grounding with Google Search can't be combined with JSON mode, so
+    // searches ask for JSON in the prompt instead
+    const jsonMode =
+      (request.json || !!request.jsonSchema) && !request.webSearch;
+    if (request.webSearch && request.jsonSchema) {
+      system.push(
+        `Respond with only a JSON object matching this JSON Schema:\n${JSON.stringify(request.jsonSchema.schema)}`
+      );
+    } else if (request.webSearch && request.json) {
+      system.push('Respond with only a valid JSON object.');
+    }
+    // Google Search grounding has no domain filter
+    if (request.webSearch?.allowedDomains) {
+      system.push(
+        `Only use sources from these domains: ${request.webSearch.allowedDomains.join(', ')}`
+      );
+    }
+
+    try {
+      const genAI = await this.getClient();
+      const response = await genAI.models.generateContent({
+        model: request.model,
+        contents: request.messages
+          .filter((message) => message.role !== 'system')
+          .map((message) => ({
+            role: message.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: message.content }],
+          })),
+        config: {
+          ...(system.length > 0 && { systemInstruction: system.join('\n\n') }),
+          ...(request.temperature !== undefined && {
+            temperature: request.temperature,
+          }),
+          ...(request.maxTokens && { maxOutputTokens: request.maxTokens }),
+          ...(jsonMode && { responseMimeType: 'application/json' }),
+          ...(jsonMode &&
+            request.jsonSchema && {
+              responseJsonSchema: request.jsonSchema.schema,
+            }),
+          ...(request.webSearch && { tools: [{ googleSearch: {} }] }),
+        },
+      });
+
+      const text = response.text;
+      if (!text) {
+        throw new LLMError(
+          'gemini: empty response',
+          'INVALID_RESPONSE',
+          undefined,
+          this.name
+        );
+      }
+
+      return {
+        text,
+        usage: {
+          inputTokens: response.usageMetadata?.promptTokenCount || 0,
+          outputTokens: response.usageMetadata?.candidatesTokenCount || 0,
+        },
+      };
+    } catch (error) {
+      if (error instanceof LLMError) throw error;
+      throw llmErrorFromStatus(
+        this.name,
+        (error as { status?: number }).status,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+export const geminiProviderDefinition: LLMProviderDefinition = {
+  name: 'gemini',
+  create: () => {
+    const apiKey = process.env.GOOGLE_API_KEY || process.env.GEMINI_API_KEY;
+    return apiKey ? new GeminiProvider(apiKey) : null;
+  },
+};
@@ -0,0 +1,58 @@
+import { LLMGateway } from './gateway';
+import { openAIProviderDefinition } from './openai-provider';
+import { anthropicProviderDefinition } from './anthropic-provider';
+import { geminiProviderDefinition } from './gemini-provider';
+import { stubProviderDefinition } from './stub-provider';
+import type { LLMProviderDefinition, LLMRoute } from './types';
+import type { LLMTask } from '@/types/llm';
+import { recordLLMUsage } from '@/lib/services/cost-ledger-service';
+
+export { LLMGateway, extractJson } from './gateway';
+export type { LLMUsageListener } from './gateway';
+export { StubProvider, defaultStubResponder } from './stub-provider';
+export type { StubResponder } from './stub-provider';
+export { OpenAIProvider } from './openai-provider';
+export {
+  BATCH_PRICE_MULTIPLIER,
+  MODEL_PRICING,
+  RATE_LIMITS,
+  TASK_ROUTES,
+  calculateCost,
+  resolveTaskRoutes,
+} from './config';
+export type {
+  LLMProvider,
+  LLMProviderBatch,
+  LLMProviderBatchRequest,
+  LLMProviderDefinition,
+  LLMProviderRequest,
+  LLMProviderResponse,
+  LLMRoute,
+} from './types';
+
+// Adding a vendor means adding its provider module and listing it here
+export const DEFAULT_LLM_PROVIDERS: LLMProviderDefinition[] = [
+  openAIProviderDefinition,
+  anthropicProviderDefinition,
+  geminiProviderDefinition,
+  stubProviderDefinition,
+];
+
+export function createLLMGateway(
+  definitions: LLMProviderDefinition[] = DEFAULT_LLM_PROVIDERS,
+  routes?: Record<LLMTask, LLMRoute[]>
+): LLMGateway {
+  return new LLMGateway(definitions, routes);
+}
+
+// Shared so cooldowns and rate limit windows apply across services
+let gateway: LLMGateway | null = null;
+
+export function getLLMGateway(): LLMGateway {
+  if (!gateway) {
+    gateway = createLLMGateway();
+    // Completions on the shared gateway are recorded in the cost ledger
+    gateway.onUsage(recordLLMUsage);
+  }
+  return gateway;
+}
@@ -0,0 +1,292 @@
+import OpenAI, { toFile } from 'openai';
+import type {
+  ChatCompletion,
+  ChatCompletionCreateParamsNonStreaming,
+} from 'openai/resources/chat/completions';
+import { LLMError, type LLMBatchStatus } from '@/types/llm';
+import { llmErrorFromStatus, parseRetryAfter } from './errors';
+import type {
+  LLMProvider,
+  LLMProviderBatch,
+  LLMProviderBatchRequest,
+  LLMProviderDefinition,
+  LLMProviderRequest,
+  LLMProviderResponse,
+} from './types';
+
+const BATCH_ENDPOINT = '/v1/chat/completions';
+
+// One line of a batch output or error file
+interface OpenAIBatchLine {
+  custom_id: string;
+  response?: { status_code: number; body: ChatCompletion } | null;
+  error?: { message?: string } | null;
+}
+
+// GPT-5 models reason before answering: they take max_completion_tokens
+// and reject a custom temperature
+function isReasoningModel(model: string): boolean {
+  return model.startsWith('gpt-5') || /^o\d/.test(model);
+}
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly supportsWebSearch = true;
+
+  constructor(readonly client: OpenAI) {}
+
+  async complete(request: LLMProviderRequest): Promise<LLMProviderResponse> {
+    let response: LLMProviderResponse;
+    try {
+      response = request.webSearch
+        ? await this.completeWithWebSearch(request)
+        : await this.completeChat(request);
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+
+    if (!response.text) {
+      throw new LLMError(
+        'openai: empty response',
+        'INVALID_RESPONSE',
+        undefined,
+        this.name
+      );
+    }
+    return response;
+  }
+
+  /**
+   * Submit chat completions as a batch job: upload them as a JSONL file,
+   * then start a batch over it with a 24 hour window
+   */
+  async submitBatch(requests: LLMProviderBatchRequest[]): Promise<string> {
+    try {
+      const lines = requests.map(({ customId, request }) =>
+        JSON.stringify({
+          custom_id: customId,
+          method: 'POST',
+          url: BATCH_ENDPOINT,
+          body: this.chatParams(request),
+        })
+      );
+      const file = await this.client.files.create({
+        file: await toFile(Buffer.from(lines.join('\n')), 'batch.jsonl'),
+        purpose: 'batch',
+      });
+      const batch = await this.client.batches.create({
+        input_file_id: file.id,
+        endpoint: BATCH_ENDPOINT,
+        completion_window: '24h',
+      });
+      return batch.id;
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+  }
+
+  async getBatch(batchId: string): Promise<LLMProviderBatch> {
+    try {
+      const batch = await this.client.batches.retrieve(batchId);
+
+      const status: LLMBatchStatus | null =
+        batch.status === 'completed' ||
+        batch.status === 'failed' ||
+        batch.status === 'expired' ||
+        batch.status === 'cancelled'
+          ? batch.status
+          : null;
+      if (!status) {
+        return { status: 'in_progress', results: [] };
+      }
+
+      // Expired and cancelled batches keep whatever finished in time
+      const lines = [
+        ...(await this.readBatchFile(batch.output_file_id)),
+        ...(await this.readBatchFile(batch.error_file_id)),
+      ];
+      const error = batch.errors?.data
+        ?.map((e) => e.message)
+        .filter(Boolean)
+        .join('; ');
+
+      return {
+        status,
+        results: lines.map((line) => {
+          const body = line.response?.body;
+          if (!body || line.response!.status_code >= 400) {
+            return {
+              customId: line.custom_id,
+              error:
+                line.error?.message ||
+                `openai: batch request failed with ${line.response?.status_code}`,
+            };
+          }
+          try {
+            const response = this.toResponse(body);
+            return response.text
+              ? { customId: line.custom_id, response }
+              : { customId: line.custom_id, error: 'openai: empty response' };
+          } catch (refusal) {
+            return {
+              customId: line.custom_id,
+              error: this.toLLMError(refusal).message,
+            };
+          }
+        }),
+        ...(error && { error }),
+      };
+    } catch (error) {
+      throw this.toLLMError(error);
+    }
+  }
+
+  private async readBatchFile(
+    fileId: string | null | undefined
+  ): Promise<OpenAIBatchLine[]> {
+    if (!fileId) return [];
+
+    const response = await this.client.files.content(fileId);
+    return (await response.text())
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as OpenAIBatchLine);
+  }
+
+  private chatParams(
+    request: LLMProviderRequest
+  ): ChatCompletionCreateParamsNonStreaming {
+    const reasoning = isReasoningModel(request.model);
+
+    return {
+      model: request.model,
+      messages: request.messages,
+      ...(request.maxTokens &&
+        (reasoning
+          ? { max_completion_tokens: request.maxTokens }
+          : { max_tokens: request.maxTokens })),
+      ...(request.temperature !== undefined &&
+        !reasoning && { temperature: request.temperature }),
+      ...(request.reasoningEffort &&
+        reasoning && { reasoning_effort: request.reasoningEffort }),
+      ...(request.jsonSchema
+        ? {
+            response_format: {
+              type: 'json_schema' as const,
+              json_schema: { ...request.jsonSchema, strict: true },
+            },
+          }
+        : request.json && {
+            response_format: { type: 'json_object' as const },
+          }),
+    };
+  }
+
+  private async completeChat(
+    request: LLMProviderRequest
+  ): Promise<LLMProviderResponse> {
+    return this.toResponse(
+      await this.client.chat.completions.create(this.chatParams(request))
+    );
+  }
+
+  private toResponse(response: ChatCompletion): LLMProviderResponse {
+    const refusal = response.choices[0]?.message?.refusal;
+    if (refusal) {
+      throw new LLMError(
+        `openai: model refused: ${refusal}`,
+        'INVALID_RESPONSE',
+        undefined,
+        this.name
+      );
+    }
+
+    return {
+      text: response.choices[0]?.message?.content || '',
+      usage: {
+        inputTokens: response.usage?.prompt_tokens || 0,
+        outputTokens: response.usage?.completion_tokens || 0,
+      },
+    };
+  }
+
+  /**
+   * Web search is only on the Responses API
+   */
+  private async completeWithWebSearch(
+    request: LLMProviderRequest
+  ): Promise<LLMProviderResponse> {
+    const instructions = request.messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+    const input = request.messages
+      .filter((message) => message.role !== 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const response = await this.client.responses.create({
+      model: request.model,
+      ...(request.reasoningEffort && {
+        reasoning: { effort: request.reasoningEffort },
+      }),
+      tools: [
+        {
+          type: 'web_search',
+          search_context_size: request.webSearch?.contextSize || 'medium',
+          ...(request.webSearch?.allowedDomains && {
+            filters: { allowed_domains: request.webSearch.allowedDomains },
+          }),
+        },
+      ],
+      ...(instructions && { instructions }),
+      input,
+      ...(request.maxTokens && { max_output_tokens: request.maxTokens }),
+      ...(request.jsonSchema && {
+        text: {
+          format: {
+            type: 'json_schema' as const,
+            name: request.jsonSchema.name,
+            strict: true,
+            schema: request.jsonSchema.schema,
+          },
+        },
+      }),
+    });
+
+    return {
+      text: response.output_text || '',
+      usage: {
+        inputTokens: response.usage?.input_tokens || 0,
+        outputTokens: response.usage?.output_tokens || 0,
+      },
+    };
+  }
+
+  private toLLMError(error: unknown): LLMError {
+    if (error instanceof LLMError) return error;
+
+    if (error instanceof OpenAI.APIError) {
+      return llmErrorFromStatus(
+        this.name,
+        error.status,
+        error.message,
+        parseRetryAfter(error.headers?.get('retry-after'))
+      );
+    }
+
+    return llmErrorFromStatus(
+      this.name,
+      undefined,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+export const openAIProviderDefinition: LLMProviderDefinition = {
+  name: 'openai',
+  create: () =>
+    process.env.OPENAI_API_KEY
+      ? new OpenAIProvider(new OpenAI({ apiKey: process.env.OPENAI_API_KEY }))
+      : null,
+};
@@ -0,0 +1,86 @@
+import type {
+  LLMProvider,
+  LLMProviderBatch,
+  LLMProviderBatchRequest,
+  LLMProviderDefinition,
+  LLMProviderRequest,
+  LLMProviderResponse,
+} from './types';
+
+export type StubResponder = (request: LLMProviderRequest) => string;
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Default stub answer: an empty object for JSON requests, otherwise the
+ * start of the last user message, so output is stable for a given input
+ */
+export const defaultStubResponder: StubResponder = (request) => {
+  if (request.json || request.jsonSchema) {
+    return '{}';
+  }
+
+  const lastUser = [...request.messages]
+    .reverse()
+    .find((message) => message.role === 'user');
+  const words = (lastUser?.content || '').split(/\s+/).filter(Boolean);
+  return `[stub ${request.task}] ${words.slice(0, 20).join(' ')}`.trim();
+};
+
+/**
+ * Deterministic local provider for tests, CI and offline runs. Never calls
+ * the network and costs nothing. Select it for every task with
+ * LLM_PROVIDER=stub, or pass a responder to script its answers. Batches
+ * are answered on submission and complete on the first poll.
+ */
+export class StubProvider implements LLMProvider {
+  readonly name = 'stub' as const;
+  readonly supportsWebSearch = true;
+  private batches = new Map<string, LLMProviderBatch>();
+
+  constructor(private respond: StubResponder = defaultStubResponder) {}
+
+  async complete(request: LLMProviderRequest): Promise<LLMProviderResponse> {
+    const text = this.respond(request);
+    return {
+      text,
+      usage: {
+        inputTokens: estimateTokens(
+          request.messages.map((message) => message.content).join('\n')
+        ),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  }
+
+  async submitBatch(requests: LLMProviderBatchRequest[]): Promise<string> {
+    const batchId = `stub-batch-${this.batches.size + 1}`;
+    this.batches.set(batchId, {
+      status: 'completed',
+      results: await Promise.all(
+        requests.map(async ({ customId, request }) => ({
+          customId,
+          response: await this.complete(request),
+        }))
+      ),
+    });
+    return batchId;
+  }
+
+  async getBatch(batchId: string): Promise<LLMProviderBatch> {
+    return (
+      this.batches.get(batchId) || {
+        status: 'failed',
+        results: [],
+        error: `Unknown batch ${batchId}`,
+      }
+    );
+  }
+}
+
+export const stubProviderDefinition: LLMProviderDefinition = {
+  name: 'stub',
+  create: () => new StubProvider(),
+};
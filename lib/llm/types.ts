@@ -0,0 +1,65 @@
+import type {
+  LLMBatchStatus,
+  LLMCompletionRequest,
+  LLMProviderName,
+  LLMUsage,
+} from '@/types/llm';
+
+/**
+ * A completion request with the model chosen by the gateway's route
+ */
+export interface LLMProviderRequest extends LLMCompletionRequest {
+  model: string;
+}
+
+export interface LLMProviderResponse {
+  text: string;
+  usage: LLMUsage;
+}
+
+export interface LLMProviderBatchRequest {
+  customId: string;
+  request: LLMProviderRequest;
+}
+
+export interface LLMProviderBatch {
+  status: LLMBatchStatus;
+  results: Array<{
+    customId: string;
+    response?: LLMProviderResponse;
+    error?: string;
+  }>;
+  error?: string;
+}
+
+/**
+ * One LLM vendor. Providers translate the common request into the vendor's
+ * API and throw LLMError, so the gateway can tell rate limits and outages
+ * (fall back) from bad requests (give up).
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly supportsWebSearch: boolean;
+  complete(request: LLMProviderRequest): Promise<LLMProviderResponse>;
+  // Vendors with a batch API implement both; every request shares one model
+  submitBatch?(requests: LLMProviderBatchRequest[]): Promise<string>;
+  getBatch?(batchId: string): Promise<LLMProviderBatch>;
+}
+
+/**
+ * Registers a provider. `create` returns null when the provider is not
+ * configured in this environment (e.g. missing API key).
+ */
+export interface LLMProviderDefinition {
+  name: LLMProviderName;
+  create: () => LLMProvider | null;
+}
+
+/**
+ * An ordered fallback list: the first entry answers unless it is rate
+ * limited, down or unconfigured
+ */
+export interface LLMRoute {
+  provider: LLMProviderName;
+  model: string;
+}
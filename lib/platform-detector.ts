@@ -1,25 +1,20 @@
 import { z } from 'zod';
+import { PLATFORM_DEFINITIONS } from '@/lib/content-sources/platforms';
+import type { PlatformProfile } from '@/lib/content-sources/types';
 
 export enum Platform {
   YOUTUBE = 'youtube',
   TWITTER = 'twitter',
   LINKEDIN = 'linkedin',
   THREADS = 'threads',
+  BLUESKY = 'bluesky',
+  MASTODON = 'mastodon',
   RSS = 'rss',
   UNKNOWN = 'unknown',
 }
 
-export interface PlatformInfo {
+export interface PlatformInfo extends PlatformProfile {
   platform: Platform;
-  platformUserId: string;
-  profileUrl: string;
-  metadata: {
-    channelId?: string;
-    username?: string;
-    companyId?: string;
-    feedUrl?: string;
-    feedType?: 'rss' | 'atom';
-  };
 }
 
 export class PlatformDetectionError extends Error {
@@ -36,40 +31,21 @@ export class PlatformDetectionError extends Error {
 const urlSchema = z.string().url();
 
 export class PlatformDetector {
-  private static readonly patterns = {
-    [Platform.YOUTUBE]: [
-      /^https?:\/\/(?:www\.)?youtube\.com\/channel\/([a-zA-Z0-9_-]+)/,
-      /^https?:\/\/(?:www\.)?youtube\.com\/@([a-zA-Z0-9_-]+)/,
-      /^https?:\/\/(?:www\.)?youtube\.com\/c\/([a-zA-Z0-9_-]+)/,
-      /^https?:\/\/(?:www\.)?youtube\.com\/user\/([a-zA-Z0-9_-]+)/,
-    ],
-    [Platform.TWITTER]: [
-      /^https?:\/\/(?:www\.)?twitter\.com\/([a-zA-Z0-9_]+)/,
-      /^https?:\/\/(?:www\.)?x\.com\/([a-zA-Z0-9_]+)/,
-    ],
-    [Platform.LINKEDIN]: [
-      /^https?:\/\/(?:www\.)?linkedin\.com\/in\/([a-zA-Z0-9-]+)/,
-      /^https?:\/\/(?:www\.)?linkedin\.com\/company\/([a-zA-Z0-9-]+)/,
-    ],
-    [Platform.THREADS]: [
-      // Profile URLs with @username
-      /^https?:\/\/(?:www\.)?threads\.(?:com|net)\/@([a-zA-Z0-9._]+)/,
-      // Post URLs format: threads.com/t/PostID
-      /^https?:\/\/(?:www\.)?threads\.(?:com|net)\/t\/[a-zA-Z0-9_-]+/,
-      // Post URLs with username: threads.com/@username/post/PostID
-      /^https?:\/\/(?:www\.)?threads\.(?:com|net)\/@([a-zA-Z0-9._]+)\/post\/[a-zA-Z0-9_-]+/,
-    ],
-    [Platform.RSS]: [
-      /\.(rss|xml|atom)(?:\?.*)?$/i,
-      /\/feed\/?(?:\?.*)?$/i,
-      /\/rss\/?(?:\?.*)?$/i,
-      /\/atom\/?(?:\?.*)?$/i,
-    ],
-  };
+  /**
+   * Rewrite shorthand input, such as a fediverse handle (@user@instance),
+   * into a profile URL. Anything else is returned trimmed but otherwise
+   * unchanged.
+   */
+  static normalizeHandle(input: string): string {
+    return PLATFORM_DEFINITIONS.reduce(
+      (url, { detection }) => detection?.normalizeInput?.(url) ?? url,
+      input.trim()
+    );
+  }
 
   static detect(url: string): PlatformInfo {
     // Validate URL format first
-    const trimmedUrl = url.trim();
+    const trimmedUrl = this.normalizeHandle(url);
     try {
       urlSchema.parse(trimmedUrl);
     } catch {
@@ -83,16 +59,21 @@ export class PlatformDetector {
     // Normalize URL for pattern matching
     const normalizedUrl = trimmedUrl.toLowerCase();
 
-    // Try to match against each platform
-    for (const [platform, patterns] of Object.entries(this.patterns)) {
-      for (const pattern of patterns) {
+    // Try to match against each platform, in definition order
+    for (const { platform, detection } of PLATFORM_DEFINITIONS) {
+      if (!detection) continue;
+
+      for (const pattern of detection.patterns) {
         const match = normalizedUrl.match(pattern);
-        if (match) {
-          return this.extractPlatformInfo(
-            platform as Platform,
-            trimmedUrl,
-            match
-          );
+        if (!match) continue;
+
+        // Captured IDs keep their original case where the pattern allows
+        const profile = detection.toProfile(
+          trimmedUrl,
+          trimmedUrl.match(pattern) || match
+        );
+        if (profile) {
+          return { platform: platform as Platform, ...profile };
         }
       }
     }
@@ -103,122 +84,4 @@ export class PlatformDetector {
       url
     );
   }
-
-  private static extractPlatformInfo(
-    platform: Platform,
-    originalUrl: string,
-    match: RegExpMatchArray
-  ): PlatformInfo {
-    // Extract the captured group from the original match (case-sensitive)
-    const patterns = this.patterns[platform as keyof typeof this.patterns];
-    const matchingPattern = patterns.find((p: RegExp) =>
-      originalUrl.toLowerCase().match(p)
-    );
-    const originalMatch = matchingPattern
-      ? originalUrl.match(matchingPattern)
-      : null;
-    const platformUserId = originalMatch?.[1] || match[1] || '';
-
-    switch (platform) {
-      case Platform.YOUTUBE:
-        return {
-          platform,
-          platformUserId,
-          profileUrl: originalUrl,
-          metadata: {
-            channelId: this.isChannelId(platformUserId)
-              ? platformUserId
-              : undefined,
-            username: !this.isChannelId(platformUserId)
-              ? platformUserId
-              : undefined,
-          },
-        };
-
-      case Platform.TWITTER:
-        return {
-          platform,
-          platformUserId,
-          profileUrl: originalUrl,
-          metadata: {
-            username: platformUserId,
-          },
-        };
-
-      case Platform.LINKEDIN:
-        const isCompany = originalUrl.includes('/company/');
-        return {
-          platform,
-          platformUserId,
-          profileUrl: originalUrl,
-          metadata: {
-            companyId: isCompany ? platformUserId : undefined,
-            username: !isCompany ? platformUserId : undefined,
-          },
-        };
-
-      case Platform.THREADS: {
-        let userId = platformUserId;
-        let profileUrl = originalUrl;
-
-        // For post URLs without username, extract from URL path
-        if (!userId && originalUrl.includes('/t/')) {
-          // This is a post URL without username - we'll use the domain as identifier
-          userId = 'threads-post';
-        }
-
-        // Convert post URLs to profile URLs when possible
-        if (userId && userId !== 'threads-post') {
-          profileUrl = `https://www.threads.com/@${userId}`;
-        }
-
-        return {
-          platform,
-          platformUserId: userId,
-          profileUrl,
-          metadata: {
-            username: userId !== 'threads-post' ? userId : undefined,
-          },
-        };
-      }
-
-      case Platform.RSS:
-        const feedType = this.determineFeedType(originalUrl);
-        return {
-          platform,
-          platformUserId: this.extractDomainFromUrl(originalUrl),
-          profileUrl: originalUrl,
-          metadata: {
-            feedUrl: originalUrl,
-            feedType,
-          },
-        };
-
-      default:
-        throw new PlatformDetectionError(
-          'PARSE_ERROR',
-          'Failed to extract platform information',
-          originalUrl
-        );
-    }
-  }
-
-  private static isChannelId(id: string): boolean {
-    return id.startsWith('UC') && id.length === 24;
-  }
-
-  private static determineFeedType(url: string): 'rss' | 'atom' {
-    const lowerUrl = url.toLowerCase();
-    if (lowerUrl.includes('atom')) return 'atom';
-    return 'rss';
-  }
-
-  private static extractDomainFromUrl(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      return urlObj.hostname.replace(/^www\./, '');
-    } catch {
-      return 'unknown';
-    }
-  }
 }
@@ -8,6 +8,7 @@ export const QUEUE_NAMES = {
   BRIGHTDATA_PROCESSING: 'brightdata-processing',
   AI_NEWS_GENERATION: 'ai-news-generation',
   EMAIL_DIGEST: 'email-digest',
+  WEBHOOK_DELIVERY: 'webhook-delivery',
 } as const;
 
 // Job names
@@ -17,6 +18,9 @@ export const JOB_NAMES = {
   PROCESS_SINGLE_CREATOR: 'process-single-creator',
   GENERATE_AI_NEWS: 'generate-ai-news',
   SEND_USER_DIGEST: 'send-user-digest',
+  BUILD_DIGEST_EDITION: 'build-digest-edition',
+  DELIVER_DIGEST_EDITION: 'deliver-digest-edition',
+  DELIVER_WEBHOOK: 'deliver-webhook',
 } as const;
 
 // Redis connection configuration for BullMQ with optimizations
@@ -83,6 +87,28 @@ export const AI_NEWS_JOB_OPTIONS = {
   // Delays are set per-job in queueAINewsGeneration function
 };
 
+// Webhook deliveries retry with backoff: 30s, 1m, 2m, 4m, 8m
+export const WEBHOOK_JOB_OPTIONS = {
+  ...DEFAULT_JOB_OPTIONS,
+  attempts: 6,
+  backoff: {
+    type: 'exponential' as const,
+    delay: 30000,
+  },
+  lockDuration: 60000,
+  stalledInterval: 60000,
+};
+
+// Edition builds retry while another job is rendering the same edition:
+// 1m, 2m, 4m, 8m
+export const DIGEST_EDITION_JOB_OPTIONS = {
+  attempts: 5,
+  backoff: {
+    type: 'exponential' as const,
+    delay: 60000,
+  },
+};
+
 // Worker concurrency settings - Restored to optimal levels with Exa
 export const WORKER_CONCURRENCY = {
   CONTENT_FETCH: 2, // Process 2 creators concurrently (reduced from 5)
@@ -91,4 +117,5 @@ export const WORKER_CONCURRENCY = {
   BRIGHTDATA_PROCESSING: 2, // Process 2 BrightData snapshots concurrently
   AI_NEWS_GENERATION: 2, // Process 2 news generation jobs concurrently to avoid GPT-5 rate limits
   EMAIL_DIGEST: 10, // Process 10 user digests concurrently (emails are fast)
+  WEBHOOK_DELIVERY: 5, // Deliver 5 webhooks concurrently
 };
@@ -1,16 +1,34 @@
 import { Queue, Worker, Job } from 'bullmq';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { PollingScheduleService } from '@/lib/services/polling-schedule-service';
+import type { DigestRecipient, DueEdition } from '@/types/digest';
 import {
   getRedisConnection,
   QUEUE_NAMES,
   JOB_NAMES,
   DEFAULT_JOB_OPTIONS,
   AI_NEWS_JOB_OPTIONS,
+  DIGEST_EDITION_JOB_OPTIONS,
+  WEBHOOK_JOB_OPTIONS,
   WORKER_CONCURRENCY,
 } from './config';
 
 // Singleton queue instances
 let queues: Record<string, Queue> | null = null;
 
+// Service client used to read polling schedules
+let supabase: SupabaseClient | null = null;
+
+function getSupabase() {
+  if (!supabase) {
+    supabase = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY!
+    );
+  }
+  return supabase;
+}
+
 // Initialize queues
 export function getQueues() {
   if (!queues) {
@@ -43,25 +61,39 @@ export function getQueues() {
         connection,
         defaultJobOptions: DEFAULT_JOB_OPTIONS,
       }),
+      [QUEUE_NAMES.WEBHOOK_DELIVERY]: new Queue(QUEUE_NAMES.WEBHOOK_DELIVERY, {
+        connection,
+        defaultJobOptions: WEBHOOK_JOB_OPTIONS,
+      }),
     };
   }
 
   return queues;
 }
 
-// Add creators to processing queue with deduplication
+// Add creators to processing queue with deduplication.
+// Only creators with a URL due per their polling schedule are queued
+// unless ignoreSchedule is set.
 export async function queueCreatorsForProcessing(
   creators: Array<{ id: string; display_name: string }>,
-  options?: { skipLinkedIn?: boolean }
+  options?: { skipLinkedIn?: boolean; ignoreSchedule?: boolean }
 ) {
   const queues = getQueues();
   const creatorQueue = queues[QUEUE_NAMES.CREATOR_PROCESSING];
 
+  const dueCreators = options?.ignoreSchedule
+    ? creators
+    : await new PollingScheduleService(getSupabase()).filterDueCreators(
+        creators,
+        { skipLinkedIn: options?.skipLinkedIn }
+      );
+  const notDue = creators.length - dueCreators.length;
+
   // Check for existing jobs and only add new ones
   const jobsToAdd = [];
   let skipped = 0;
 
-  for (const creator of creators) {
+  for (const creator of dueCreators) {
     // Use creator ID as job ID for deduplication
     const jobId = `creator-${creator.id}`;
     const existingJob = await creatorQueue.getJob(jobId);
@@ -75,6 +107,7 @@ export async function queueCreatorsForProcessing(
           creatorName: creator.display_name,
           timestamp: new Date().toISOString(),
           skipLinkedIn: options?.skipLinkedIn || false,
+          ignoreSchedule: options?.ignoreSchedule || false,
         },
         opts: {
           jobId, // Set job ID for deduplication
@@ -94,6 +127,7 @@ export async function queueCreatorsForProcessing(
             creatorName: creator.display_name,
             timestamp: new Date().toISOString(),
             skipLinkedIn: options?.skipLinkedIn || false,
+            ignoreSchedule: options?.ignoreSchedule || false,
           },
           opts: {
             jobId, // Set job ID for deduplication
@@ -114,6 +148,7 @@ export async function queueCreatorsForProcessing(
   return {
     queued: results.length,
     skipped,
+    notDue,
     jobs: results.map((job) => ({ id: job.id, name: job.name })),
   };
 }
@@ -121,7 +156,10 @@ export async function queueCreatorsForProcessing(
 // Add content for AI summary generation
 export async function queueContentForSummaries(
   contentIds: string[],
-  creatorId?: string
+  creatorId?: string,
+  // Realtime jobs are for content a user is waiting on; they're summarized
+  // right away even in LLM batch mode
+  options?: { realtime?: boolean }
 ) {
   const queues = getQueues();
   const summaryQueue = queues[QUEUE_NAMES.AI_SUMMARY];
@@ -131,6 +169,7 @@ export async function queueContentForSummaries(
     {
       contentIds,
       creatorId,
+      realtime: options?.realtime || false,
       timestamp: new Date().toISOString(),
     },
     {
@@ -273,7 +312,7 @@ export async function queueAINewsGeneration(
 
 // Queue email digests for users - highly scalable
 export async function queueEmailDigests(
-  users: Array<{ email: string; userId: string }>
+  users: Array<{ email: string; userId: string; lastSent?: string | null }>
 ) {
   const queues = getQueues();
   const digestQueue = queues[QUEUE_NAMES.EMAIL_DIGEST];
@@ -305,6 +344,7 @@ export async function queueEmailDigests(
       data: {
         userEmail: user.email,
         userId: user.userId,
+        lastSent: user.lastSent || null,
         timestamp: new Date().toISOString(),
         dateStr,
       },
@@ -332,6 +372,94 @@ export async function queueEmailDigests(
   };
 }
 
+// Queue one edition build per lounge for a scheduler run; each build fans
+// out to that run's recipients
+export async function queueDigestEditions(
+  editions: DueEdition[],
+  runAt: Date = new Date()
+) {
+  const queues = getQueues();
+  const digestQueue = queues[QUEUE_NAMES.EMAIL_DIGEST];
+
+  // Unique per run, so a build still running for an earlier run doesn't
+  // swallow this run's recipients
+  const results =
+    editions.length > 0
+      ? await digestQueue.addBulk(
+          editions.map((edition) => ({
+            name: JOB_NAMES.BUILD_DIGEST_EDITION,
+            data: {
+              ...edition,
+              timestamp: runAt.toISOString(),
+            },
+            opts: {
+              ...DIGEST_EDITION_JOB_OPTIONS,
+              jobId: `edition-${edition.loungeId}-${edition.editionType}-${runAt.getTime()}`,
+              priority: 1,
+            },
+          }))
+        )
+      : [];
+
+  return {
+    queued: results.length,
+    recipients: editions.reduce(
+      (total, edition) => total + edition.recipients.length,
+      0
+    ),
+  };
+}
+
+// Queue delivery of a built edition to each recipient
+export async function queueDigestDeliveries(
+  editionId: string,
+  recipients: DigestRecipient[]
+) {
+  const queues = getQueues();
+  const digestQueue = queues[QUEUE_NAMES.EMAIL_DIGEST];
+
+  const results =
+    recipients.length > 0
+      ? await digestQueue.addBulk(
+          recipients.map((recipient) => ({
+            name: JOB_NAMES.DELIVER_DIGEST_EDITION,
+            data: {
+              editionId,
+              userEmail: recipient.email,
+              userId: recipient.userId,
+            },
+            opts: {
+              jobId: `digest-${editionId}-${recipient.userId}`,
+              priority: 1,
+              // Spread jobs over 5 minutes to avoid bursts
+              delay: Math.floor(Math.random() * 300000),
+            },
+          }))
+        )
+      : [];
+
+  return { queued: results.length };
+}
+
+// Queue webhook deliveries; the delivery ID doubles as the job ID
+export async function queueWebhookDeliveries(deliveryIds: string[]) {
+  const queues = getQueues();
+  const webhookQueue = queues[QUEUE_NAMES.WEBHOOK_DELIVERY];
+
+  const results =
+    deliveryIds.length > 0
+      ? await webhookQueue.addBulk(
+          deliveryIds.map((deliveryId) => ({
+            name: JOB_NAMES.DELIVER_WEBHOOK,
+            data: { deliveryId },
+            opts: { jobId: `webhook-${deliveryId}` },
+          }))
+        )
+      : [];
+
+  return { queued: results.length };
+}
+
 // Cached queue stats to reduce Redis operations
 let statsCache: { data: any; timestamp: number } | null = null;
 const STATS_CACHE_TTL = 60000; // Cache for 1 minute
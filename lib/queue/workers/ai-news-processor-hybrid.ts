@@ -2,6 +2,7 @@ import { Worker, Job } from 'bullmq';
 import { createClient } from '@supabase/supabase-js';
 import { getHybridNewsService } from '@/lib/services/hybrid-news-service';
 import { getGPT5NewsService } from '@/lib/services/gpt5-news-service';
+import { isOverBudget } from '@/lib/services/cost-ledger-service';
 import {
   getRedisConnection,
   QUEUE_NAMES,
@@ -33,6 +34,20 @@ export async function processAINewsGenerationHybrid(job: {
       `[Mode: ${USE_HYBRID_MODE ? 'HYBRID RSS+GPT5' : 'Pure GPT5'}]`
   );
 
+  // AI news is non-critical, so it pauses while its budget is exceeded
+  if (await isOverBudget('ai_news')) {
+    console.log(
+      `[AI News Worker] AI news budget exceeded, skipping ${loungeName}`
+    );
+    return {
+      success: true,
+      skipped: true,
+      reason: 'AI news budget exceeded',
+      loungeId,
+      loungeName,
+    };
+  }
+
   try {
     // Initialize Supabase client with service key
     const supabase = createClient<Database>(
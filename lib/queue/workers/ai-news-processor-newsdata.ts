@@ -2,6 +2,7 @@ import { Worker, Job } from 'bullmq';
 import { createClient } from '@supabase/supabase-js';
 import { getNewsDataService } from '@/lib/services/newsdata-service';
 import { getGPTNewsCurator } from '@/lib/services/gpt-news-curator';
+import { isOverBudget } from '@/lib/services/cost-ledger-service';
 import { GenerateNewsResult } from '@/lib/services/perplexity-news-service';
 import {
   getRedisConnection,
@@ -30,6 +31,20 @@ export function createAINewsProcessorWorkerNewsData() {
         `[AI News Worker - NewsData] Processing news generation for: ${loungeName} (Job ID: ${job.id})`
       );
 
+      // AI news is non-critical, so it pauses while its budget is exceeded
+      if (await isOverBudget('ai_news')) {
+        console.log(
+          `[AI News Worker - NewsData] AI news budget exceeded, skipping ${loungeName}`
+        );
+        return {
+          success: true,
+          skipped: true,
+          reason: 'AI news budget exceeded',
+          loungeId,
+          loungeName,
+        };
+      }
+
       try {
         // Initialize Supabase client with service key
         const supabase = createClient<Database>(
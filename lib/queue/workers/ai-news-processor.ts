@@ -4,6 +4,7 @@ import {
   getGPT5NewsService,
   GenerateNewsResult,
 } from '@/lib/services/gpt5-news-service';
+import { isOverBudget } from '@/lib/services/cost-ledger-service';
 import {
   getRedisConnection,
   QUEUE_NAMES,
@@ -30,6 +31,20 @@ export async function processAINewsGeneration(job: { data: AINewsJobData }) {
     `[AI News Worker] Processing news generation for: ${loungeName} (Job ID: ${jobId})`
   );
 
+  // AI news is non-critical, so it pauses while its budget is exceeded
+  if (await isOverBudget('ai_news')) {
+    console.log(
+      `[AI News Worker] AI news budget exceeded, skipping ${loungeName}`
+    );
+    return {
+      success: true,
+      skipped: true,
+      reason: 'AI news budget exceeded',
+      loungeId,
+      loungeName,
+    };
+  }
+
   try {
     // Initialize Supabase client with service key
     const supabase = createClient<Database>(
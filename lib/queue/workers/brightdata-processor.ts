@@ -95,6 +95,11 @@ async function processBrightDataSnapshot(job: Job<BrightDataSnapshotJob>) {
 
       // Add creator_id if available in metadata
       const creatorId = metadata?.creator_id;
+      await brightDataFetcher.recordSnapshotCost(
+        snapshotStatus,
+        contentItems.length,
+        creatorId
+      );
       if (creatorId) {
         contentItems.forEach((item) => {
           item.creator_id = creatorId;
@@ -7,20 +7,30 @@ import {
   WORKER_CONCURRENCY,
 } from '../config';
 import { queueContentForSummaries } from '../queue-service';
-import { RSSFetcher } from '@/lib/content-fetcher/rss-fetcher';
-import { YouTubeFetcher } from '@/lib/content-fetcher/youtube-fetcher';
-import { ApifyFetcher } from '@/lib/content-fetcher/apify-fetcher';
-import { BrightDataFetcher } from '@/lib/content-fetcher/brightdata-fetcher';
 import { ContentService } from '@/lib/services/content-service';
-import { ContentNormalizer } from '@/lib/services/content-normalizer';
-import type { CreateContentInput } from '@/types/content';
+import { ContentDeduplicationService } from '@/lib/services/content-deduplication';
+import { FeedHealthService } from '@/lib/services/feed-health-service';
+import {
+  PollingScheduleService,
+  isPollDue,
+  type PolledUrl,
+} from '@/lib/services/polling-schedule-service';
+import {
+  createContentSourceRegistry,
+  createLinkedInSourceDefinition,
+  type ContentSourceRegistry,
+  type ContentSourceResult,
+  type ContentSourceStats,
+} from '@/lib/content-sources';
+
+// Maximum items fetched per creator URL on each run
+const MAX_ITEMS_PER_SOURCE = 20;
 
-// Initialize clients and fetchers inside the worker function
+// Initialize clients and sources inside the worker function
 let supabase: any;
-let rssFetcher: RSSFetcher;
-let youtubeFetcher: YouTubeFetcher | null;
-let apifyFetcher: ApifyFetcher | null;
-let brightDataFetcher: BrightDataFetcher | null;
+let contentSources: ContentSourceRegistry;
+// For jobs queued with skipLinkedIn
+let contentSourcesWithoutLinkedIn: ContentSourceRegistry;
 
 function initializeServices() {
   if (!supabase) {
@@ -29,16 +39,10 @@ function initializeServices() {
       process.env.SUPABASE_SERVICE_ROLE_KEY!
     );
 
-    rssFetcher = new RSSFetcher();
-    youtubeFetcher = process.env.YOUTUBE_API_KEY
-      ? new YouTubeFetcher({ apiKey: process.env.YOUTUBE_API_KEY })
-      : null;
-    apifyFetcher = process.env.APIFY_API_KEY
-      ? new ApifyFetcher({ apiKey: process.env.APIFY_API_KEY })
-      : null;
-    brightDataFetcher = process.env.BRIGHTDATA_API_KEY
-      ? new BrightDataFetcher({ apiKey: process.env.BRIGHTDATA_API_KEY })
-      : null;
+    contentSources = createContentSourceRegistry();
+    contentSourcesWithoutLinkedIn = createContentSourceRegistry().register(
+      createLinkedInSourceDefinition({ skip: true })
+    );
   }
 }
 
@@ -47,13 +51,18 @@ async function processCreator(job: Job) {
   // Initialize services on first use
   initializeServices();
 
-  const { creatorId, creatorName, skipLinkedIn = false } = job.data;
+  const {
+    creatorId,
+    creatorName,
+    skipLinkedIn = false,
+    ignoreSchedule = false,
+  } = job.data;
   const stats = {
     processed: 0,
     new: 0,
     updated: 0,
     errors: 0,
-    platforms: {} as Record<string, any>,
+    platforms: {} as Record<string, ContentSourceStats>,
   };
 
   try {
@@ -72,224 +81,147 @@ async function processCreator(job: Job) {
     // Removed progress update
 
     const contentService = new ContentService(supabase);
+    const feedHealth = new FeedHealthService(supabase);
+    const pollingSchedule = new PollingScheduleService(supabase);
+    const polledUrls: PolledUrl[] = [];
+    const now = new Date();
 
     // Process each platform URL
-    for (let i = 0; i < creatorUrls.length; i++) {
-      const creatorUrl = creatorUrls[i];
-      const platformStats = {
+    for (const creatorUrl of creatorUrls) {
+      const platformStats: ContentSourceStats = {
         fetched: 0,
         new: 0,
         updated: 0,
-        error: null as string | null,
+        error: null,
       };
 
       try {
-        let items: CreateContentInput[] = [];
-
-        switch (creatorUrl.platform) {
-          case 'rss':
-            if (rssFetcher) {
-              const result = await rssFetcher.parseURL(creatorUrl.url);
-              if (result.success && result.feed?.items) {
-                const normalizer = new ContentNormalizer();
-                items = result.feed.items.slice(0, 20).map((item) =>
-                  normalizer.normalize({
-                    platform: 'rss',
-                    platformData: item,
-                    creator_id: creatorId,
-                    sourceUrl: creatorUrl.url,
-                  })
-                );
-              }
-            }
-            break;
-
-          case 'youtube':
-            if (youtubeFetcher) {
-              const result = await youtubeFetcher.fetchChannelVideosByUrl(
-                creatorUrl.url,
-                {
-                  maxResults: 20,
-                  storage: {
-                    enabled: true,
-                    supabaseClient: supabase,
-                    creator_id: creatorId,
-                  },
-                }
-              );
-              // YouTube fetcher handles storage internally
-              platformStats.fetched = result.videos?.length || 0;
-              platformStats.new = result.storedContent?.created || 0;
-              platformStats.updated = result.storedContent?.updated || 0;
-
-              // Update main stats for YouTube
-              stats.processed += platformStats.fetched;
-              stats.new += platformStats.new;
-              stats.updated += platformStats.updated;
-            }
-            break;
-
-          case 'twitter':
-            if (apifyFetcher) {
-              items = await apifyFetcher.fetchTwitterContent([creatorUrl.url], {
-                maxTweets: 20,
+        const source = (
+          skipLinkedIn ? contentSourcesWithoutLinkedIn : contentSources
+        ).get(creatorUrl.platform);
+
+        if (!ignoreSchedule && !isPollDue(creatorUrl, now)) {
+          // Another URL made this creator due; this one can wait
+          platformStats.status = 'skipped';
+        } else if (!source) {
+          console.warn(
+            `[${creatorUrl.platform.toUpperCase()}] No content source configured for ${creatorName}`
+          );
+          platformStats.status = 'skipped';
+        } else {
+          // Track feed health for RSS creators
+          const tracksHealth = creatorUrl.platform === 'rss';
+          const startTime = Date.now();
+          let result: ContentSourceResult;
+          try {
+            result = await source.fetch({
+              creatorId,
+              creatorName,
+              creatorUrl,
+              supabase,
+              maxItems: MAX_ITEMS_PER_SOURCE,
+            });
+          } catch (error) {
+            polledUrls.push({ creatorUrl, failed: true });
+            if (tracksHealth) {
+              await feedHealth.recordFailure(creatorUrl, {
+                latencyMs: Date.now() - startTime,
+                error: error instanceof Error ? error.message : 'Unknown error',
               });
-              items = items.map((item) => ({ ...item, creator_id: creatorId }));
-
-              // Extract and update creator avatar if missing
-              const authorInfo = apifyFetcher.getExtractedAuthors();
-              if (authorInfo.length > 0) {
-                const { data: creator } = await supabase
-                  .from('creators')
-                  .select('avatar_url')
-                  .eq('id', creatorId)
-                  .single();
-
-                if (
-                  creator &&
-                  !creator.avatar_url &&
-                  authorInfo[0].avatar_url
-                ) {
-                  await supabase
-                    .from('creators')
-                    .update({
-                      avatar_url: authorInfo[0].avatar_url,
-                      updated_at: new Date().toISOString(),
-                    })
-                    .eq('id', creatorId);
-                  console.log(
-                    `[Creator ${creatorName}] Updated avatar from Twitter`
-                  );
-                }
-              }
-            }
-            break;
-
-          case 'threads':
-            if (apifyFetcher) {
-              const match = creatorUrl.url.match(/@([^/]+)/);
-              const username = match ? match[1] : null;
-              if (username) {
-                items = await apifyFetcher.fetchThreadsContent([username], {
-                  resultsLimit: 20,
-                });
-                items = items.map((item) => ({
-                  ...item,
-                  creator_id: creatorId,
-                }));
-              }
             }
-            break;
+            throw error;
+          }
+          const latencyMs = Date.now() - startTime;
+          const items = result.items;
+          platformStats.status = result.status;
+          platformStats.error = result.error ?? null;
+          if (result.status !== 'skipped') {
+            polledUrls.push({ creatorUrl, failed: !!result.error });
+          }
 
-          case 'linkedin':
-            // Skip LinkedIn if flag is set (when called from queue-creators)
-            if (skipLinkedIn) {
-              console.log(
-                `[LinkedIn] Skipping LinkedIn for ${creatorName} (skipLinkedIn flag set)`
-              );
-              break;
-            }
+          if (tracksHealth && result.error) {
+            await feedHealth.recordFailure(creatorUrl, {
+              latencyMs,
+              error: result.error,
+            });
+          }
 
-            // Use BrightData for LinkedIn - now with two-phase approach
-            if (brightDataFetcher) {
-              console.log(
-                `[LinkedIn] Triggering BrightData collection for ${creatorName}: ${creatorUrl.url}`
-              );
+          let storageFailed = false;
+          if (items.length > 0) {
+            console.log(
+              `[${creatorUrl.platform.toUpperCase()}] Storing ${items.length} items for ${creatorName}`
+            );
+            const results = await contentService.storeMultipleContent(items);
+            platformStats.fetched = items.length;
+            platformStats.new = results.created;
+            platformStats.updated = results.updated;
+
+            console.log(
+              `[${creatorUrl.platform.toUpperCase()}] Storage results for ${creatorName}: ` +
+                `${results.created} new, ${results.updated} updated, ${results.errors.length} errors`
+            );
 
-              try {
-                // Phase 1: Just trigger the collection and save snapshot ID
-                // Note: We don't set date filters because many LinkedIn posts lack dates
-                // and will be filtered out if dates are specified (per BrightData API warning)
-                const snapshotId =
-                  await brightDataFetcher.triggerCollectionOnly(
-                    [creatorUrl.url]
-                    // Removed date filter - causes posts without dates to be excluded
-                  );
-
-                // Save snapshot to database for processing later
-                const { error: insertError } = await supabase
-                  .from('brightdata_snapshots')
-                  .insert({
-                    snapshot_id: snapshotId,
-                    dataset_id: 'gd_lyy3tktm25m4avu764',
-                    status: 'pending',
-                    creator_urls: [creatorUrl.url],
-                    metadata: {
-                      creator_id: creatorId,
-                      creator_name: creatorName,
-                      max_results: 10,
-                    },
-                  });
-
-                if (insertError) {
-                  console.error(
-                    `[LinkedIn] Failed to save snapshot ${snapshotId}:`,
-                    insertError
-                  );
-                }
-
-                console.log(
-                  `[LinkedIn] Collection triggered for ${creatorName}, snapshot: ${snapshotId}`
-                );
-
-                // Don't wait for results - they'll be processed by separate worker
-                platformStats.fetched = 0;
-                (platformStats as any).status = 'collection_triggered';
-              } catch (error) {
-                console.error(
-                  `[LinkedIn] Failed to trigger collection for ${creatorName}:`,
-                  error
-                );
-                platformStats.error =
-                  error instanceof Error
-                    ? error.message
-                    : 'Failed to trigger collection';
-              }
-            } else {
-              console.warn(
-                `[LinkedIn] BrightData not configured for ${creatorName}`
+            // Log specific errors if any
+            if (results.errors.length > 0) {
+              console.error(
+                `[${creatorUrl.platform.toUpperCase()}] Storage errors for ${creatorName}:`,
+                results.errors
               );
             }
-            break;
-        }
 
-        // Store content if not already handled by the fetcher
-        if (items.length > 0 && creatorUrl.platform !== 'youtube') {
-          console.log(
-            `[${creatorUrl.platform.toUpperCase()}] Storing ${items.length} items for ${creatorName}`
-          );
-          const results = await contentService.storeMultipleContent(items);
-          platformStats.fetched = items.length;
-          platformStats.new = results.created;
-          platformStats.updated = results.updated;
-
-          console.log(
-            `[${creatorUrl.platform.toUpperCase()}] Storage results for ${creatorName}: ` +
-              `${results.created} new, ${results.updated} updated, ${results.errors.length} errors`
-          );
-
-          // Log specific errors if any
-          if (results.errors.length > 0) {
-            console.error(
-              `[${creatorUrl.platform.toUpperCase()}] Storage errors for ${creatorName}:`,
-              results.errors
-            );
+            stats.processed += items.length;
+            stats.new += results.created;
+            stats.updated += results.updated;
+            stats.errors += results.errors.length;
+            storageFailed = results.errors.length > 0;
           }
 
-          stats.processed += items.length;
-          stats.new += results.created;
-          stats.updated += results.updated;
-          stats.errors += results.errors.length;
+          // Cache validators are saved only once the items are stored, so a
+          // failed store is fetched again in full instead of answered by a 304
+          if (tracksHealth && !result.error) {
+            await feedHealth.recordSuccess(creatorUrl, {
+              latencyMs,
+              validators: storageFailed ? undefined : result.validators,
+              publishedAt:
+                result.status === 'not_modified'
+                  ? undefined
+                  : items.map((item) => item.published_at),
+            });
+          }
         }
       } catch (error) {
+        console.error(
+          `[${creatorUrl.platform.toUpperCase()}] Failed to fetch content for ${creatorName}:`,
+          error
+        );
         platformStats.error =
           error instanceof Error ? error.message : 'Unknown error';
         stats.errors++;
       }
 
       stats.platforms[creatorUrl.platform] = platformStats;
+    }
+
+    // Schedule the next poll for each URL fetched on this run, failed or not
+    await pollingSchedule.scheduleNextPolls(creatorId, polledUrls);
 
-      // Removed progress update to reduce Redis operations
+    // Group new content with the same post shared by other creators
+    if (stats.new > 0) {
+      try {
+        const { groupsUpdated } = await new ContentDeduplicationService(
+          supabase
+        ).clusterCrossCreatorDuplicates(creatorId, now);
+        if (groupsUpdated > 0) {
+          console.log(
+            `[Creator ${creatorName}] Grouped new content into ${groupsUpdated} cross-creator duplicate groups`
+          );
+        }
+      } catch (error) {
+        console.error(
+          `[Creator ${creatorName}] Cross-creator deduplication failed:`,
+          error
+        );
+      }
     }
 
     // Update creator's last_fetched_at
@@ -6,6 +6,8 @@ import {
   WORKER_CONCURRENCY,
 } from '../config';
 import { DigestService } from '@/lib/services/digest-service';
+import type { DueEdition } from '@/types/digest';
+import { queueDigestDeliveries } from '../queue-service';
 
 // Ensure environment variables are loaded
 import { config } from 'dotenv';
@@ -13,13 +15,13 @@ config({ path: '.env.local' });
 
 // Process a single user's digest email
 async function processUserDigest(job: Job) {
-  const { userEmail, userId, timestamp, dateStr } = job.data;
+  const { userEmail, userId, lastSent, dateStr } = job.data;
 
   console.log(`Processing digest for user: ${userEmail} (${userId})`);
 
   try {
-    // Send digests for all subscribed lounges for this user
-    await DigestService.sendDailyDigests(userEmail);
+    // Send digests for all subscribed lounges with something new since last time
+    await DigestService.sendDailyDigests(userEmail, lastSent);
 
     console.log(`Successfully sent digest to ${userEmail}`);
 
@@ -39,6 +41,72 @@ async function processUserDigest(job: Job) {
   }
 }
 
+// Build (or reuse) a lounge's current edition, then fan it out to the
+// recipients the scheduler picked. A build already running elsewhere throws
+// BUILD_IN_PROGRESS and the job retries with backoff.
+async function processEditionBuild(job: Job) {
+  const { loungeId, editionType, recipients } = job.data as DueEdition;
+
+  const lounge = await DigestService.getLounge(loungeId);
+  if (!lounge) {
+    throw new Error(`Lounge ${loungeId} not found`);
+  }
+
+  console.log(`Building ${lounge.name} ${editionType} digest edition`);
+
+  const edition = await DigestService.buildLoungeEdition(lounge, {
+    editionType,
+  });
+  if (!edition) {
+    return { success: true, loungeId, editionType, skipped: true };
+  }
+
+  // Daily digests skip recipients with nothing new since their last one;
+  // weekly deliveries are unique per week
+  const deliverTo =
+    editionType === 'daily'
+      ? await DigestService.getRecipientsWithNewContent(loungeId, recipients)
+      : recipients;
+  const { queued } = await queueDigestDeliveries(edition.id, deliverTo);
+
+  console.log(
+    `Queued ${queued} deliveries of ${lounge.name} ${editionType} edition v${edition.version}`
+  );
+
+  return {
+    success: true,
+    loungeId,
+    editionType,
+    editionId: edition.id,
+    version: edition.version,
+    queued,
+  };
+}
+
+// Send a built edition to one recipient
+async function processEditionDelivery(job: Job) {
+  const { editionId, userEmail, userId } = job.data;
+
+  try {
+    const sent = await DigestService.deliverEdition(editionId, {
+      userId,
+      email: userEmail,
+    });
+
+    return {
+      success: true,
+      userEmail,
+      userId,
+      editionId,
+      sent,
+      sentAt: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`Failed to send digest to ${userEmail}:`, error);
+    throw new Error(`Digest failed for ${userEmail}: ${error}`);
+  }
+}
+
 // Create the worker
 export function createDigestWorker() {
   const worker = new Worker(
@@ -48,6 +116,10 @@ export function createDigestWorker() {
       switch (job.name) {
         case JOB_NAMES.SEND_USER_DIGEST:
           return await processUserDigest(job);
+        case JOB_NAMES.BUILD_DIGEST_EDITION:
+          return await processEditionBuild(job);
+        case JOB_NAMES.DELIVER_DIGEST_EDITION:
+          return await processEditionDelivery(job);
         default:
           throw new Error(`Unknown job type: ${job.name}`);
       }
@@ -63,12 +135,14 @@ export function createDigestWorker() {
 
   // Event listeners for monitoring
   worker.on('completed', (job) => {
-    console.log(`Digest job ${job.id} completed for ${job.data.userEmail}`);
+    console.log(
+      `Digest job ${job.id} completed for ${job.data.userEmail || job.data.loungeId}`
+    );
   });
 
   worker.on('failed', (job, error) => {
     console.error(
-      `Digest job ${job?.id} failed for ${job?.data.userEmail}:`,
+      `Digest job ${job?.id} failed for ${job?.data.userEmail || job?.data.loungeId}:`,
       error
     );
   });
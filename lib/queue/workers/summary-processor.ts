@@ -7,6 +7,7 @@ import {
   WORKER_CONCURRENCY,
 } from '../config';
 import { getAISummaryService } from '@/lib/services/ai-summary-service';
+import { isLLMBatchModeEnabled } from '@/lib/services/llm-batch-service';
 
 // Initialize service client lazily
 let supabase: any;
@@ -25,7 +26,7 @@ async function processSummaries(job: Job) {
   // Initialize services on first use
   initializeServices();
 
-  const { contentIds, creatorId } = job.data;
+  const { contentIds, creatorId, realtime } = job.data;
 
   console.log(
     `[Summary Job] Processing ${contentIds.length} items for creator ${creatorId}`
@@ -40,6 +41,16 @@ async function processSummaries(job: Job) {
     };
   }
 
+  // Bulk work stays pending for /api/cron/process-llm-batches; jobs a user
+  // is waiting on still run in real time
+  if (isLLMBatchModeEnabled() && !realtime) {
+    return {
+      success: true,
+      skipped: true,
+      reason: 'Summaries are generated by batch jobs',
+    };
+  }
+
   try {
     // Removed progress update to reduce Redis operations
 
@@ -0,0 +1,76 @@
+import { Worker, Job } from 'bullmq';
+import { createClient } from '@supabase/supabase-js';
+import {
+  getRedisConnection,
+  QUEUE_NAMES,
+  JOB_NAMES,
+  WORKER_CONCURRENCY,
+  WEBHOOK_JOB_OPTIONS,
+} from '../config';
+import { WebhookService } from '@/lib/services/webhook-service';
+
+// Ensure environment variables are loaded
+import { config } from 'dotenv';
+config({ path: '.env.local' });
+
+// Deliver one webhook; throwing hands the job back to BullMQ for a retry
+async function processWebhookDelivery(job: Job) {
+  const { deliveryId } = job.data;
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!
+  );
+
+  const maxAttempts = job.opts.attempts || WEBHOOK_JOB_OPTIONS.attempts;
+  const isFinalAttempt = job.attemptsMade + 1 >= maxAttempts;
+
+  const result = await new WebhookService(supabase).deliver(deliveryId, {
+    isFinalAttempt,
+  });
+
+  if (!result.ok && !isFinalAttempt) {
+    throw new Error(
+      `Webhook delivery ${deliveryId} failed: ${result.error || 'unknown error'}`
+    );
+  }
+
+  return { deliveryId, ...result };
+}
+
+// Create the worker
+export function createWebhookWorker() {
+  const worker = new Worker(
+    QUEUE_NAMES.WEBHOOK_DELIVERY,
+    async (job: Job) => {
+      switch (job.name) {
+        case JOB_NAMES.DELIVER_WEBHOOK:
+          return await processWebhookDelivery(job);
+        default:
+          throw new Error(`Unknown job type: ${job.name}`);
+      }
+    },
+    {
+      connection: getRedisConnection(),
+      concurrency: WORKER_CONCURRENCY.WEBHOOK_DELIVERY,
+      lockDuration: WEBHOOK_JOB_OPTIONS.lockDuration,
+      stalledInterval: WEBHOOK_JOB_OPTIONS.stalledInterval,
+    }
+  );
+
+  worker.on('completed', (job, result) => {
+    if (!result?.ok) {
+      console.warn(
+        `Webhook delivery ${job.data.deliveryId} gave up after ${job.attemptsMade} attempts`
+      );
+    }
+  });
+
+  worker.on('failed', (job, error) => {
+    console.warn(
+      `Webhook delivery ${job?.data.deliveryId} attempt ${job?.attemptsMade} failed: ${error.message}`
+    );
+  });
+
+  return worker;
+}
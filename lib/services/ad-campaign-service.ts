@@ -0,0 +1,410 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  AdCampaignError,
+  hasValidFlight,
+  type AdCampaign,
+  type AdCampaignReport,
+  type CreateAdCampaignInput,
+  type DigestAdvertiser,
+  type UpdateAdCampaignInput,
+} from '@/types/advertiser';
+
+// Sponsor slots at the top of a digest
+export const DIGEST_AD_SLOTS = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const CAMPAIGN_COLUMNS =
+  'id, position, company_name, logo_url, link_url, tagline, is_active, starts_at, ends_at, lounge_ids, weight, frequency_cap, frequency_cap_days';
+
+export interface CampaignStatsRow {
+  day: string;
+  impressions: number;
+  clicks: number;
+}
+
+/**
+ * Whether a campaign can run in a lounge's digest at `now`
+ */
+export function isCampaignLive(
+  campaign: AdCampaign,
+  loungeId: string,
+  now: Date = new Date()
+): boolean {
+  if (!campaign.is_active) return false;
+  if (campaign.starts_at && new Date(campaign.starts_at) > now) return false;
+  if (campaign.ends_at && new Date(campaign.ends_at) <= now) return false;
+
+  return (
+    campaign.lounge_ids.length === 0 || campaign.lounge_ids.includes(loungeId)
+  );
+}
+
+/**
+ * Whether a recipient can see a campaign again, given when they were shown it
+ */
+export function isUnderFrequencyCap(
+  campaign: Pick<AdCampaign, 'frequency_cap' | 'frequency_cap_days'>,
+  impressions: string[],
+  now: Date = new Date()
+): boolean {
+  if (campaign.frequency_cap === null) return true;
+
+  const windowStart = now.getTime() - campaign.frequency_cap_days * DAY_MS;
+  const recent = impressions.filter(
+    (shownAt) => new Date(shownAt).getTime() >= windowStart
+  );
+  return recent.length < campaign.frequency_cap;
+}
+
+/**
+ * Pick the campaigns for one digest. When more are eligible than there are
+ * slots, they're drawn by weight without replacement. The result is in
+ * position order so the layout stays stable.
+ */
+export function selectCampaigns(
+  campaigns: AdCampaign[],
+  slots: number = DIGEST_AD_SLOTS,
+  random: () => number = Math.random
+): AdCampaign[] {
+  const pool = [...campaigns];
+  const chosen: AdCampaign[] = [];
+
+  if (pool.length <= slots) {
+    chosen.push(...pool);
+  } else {
+    while (chosen.length < slots) {
+      let roll = random() * pool.reduce((sum, c) => sum + c.weight, 0);
+      let index = pool.findIndex((c) => (roll -= c.weight) < 0);
+      if (index === -1) index = pool.length - 1;
+      chosen.push(...pool.splice(index, 1));
+    }
+  }
+
+  return chosen.sort((a, b) => a.position - b.position);
+}
+
+export function toDigestAdvertiser(campaign: AdCampaign): DigestAdvertiser {
+  return {
+    id: campaign.id,
+    position: campaign.position,
+    company_name: campaign.company_name,
+    logo_url: campaign.logo_url,
+    link_url: campaign.link_url,
+    tagline: campaign.tagline,
+  };
+}
+
+/**
+ * Campaign report with a row for every day from `since` to `until`,
+ * including days without activity
+ */
+export function buildCampaignReport(
+  campaign: Pick<AdCampaign, 'id' | 'company_name'>,
+  since: Date,
+  until: Date,
+  rows: CampaignStatsRow[]
+): AdCampaignReport {
+  const byDay = new Map(rows.map((row) => [row.day, row]));
+  const days: AdCampaignReport['days'] = [];
+
+  for (
+    let day = new Date(since.toISOString().slice(0, 10));
+    day <= until;
+    day = new Date(day.getTime() + DAY_MS)
+  ) {
+    const date = day.toISOString().slice(0, 10);
+    const impressions = Number(byDay.get(date)?.impressions || 0);
+    const clicks = Number(byDay.get(date)?.clicks || 0);
+    days.push({
+      date,
+      impressions,
+      clicks,
+      ctr: impressions > 0 ? clicks / impressions : 0,
+    });
+  }
+
+  const impressions = days.reduce((sum, d) => sum + d.impressions, 0);
+  const clicks = days.reduce((sum, d) => sum + d.clicks, 0);
+
+  return {
+    campaignId: campaign.id,
+    companyName: campaign.company_name,
+    since: since.toISOString(),
+    impressions,
+    clicks,
+    ctr: impressions > 0 ? clicks / impressions : 0,
+    days,
+  };
+}
+
+/**
+ * Daily impressions, clicks and CTR (percent) as CSV, with a total row
+ */
+export function campaignReportToCsv(report: AdCampaignReport): string {
+  const formatCtr = (ctr: number) => (ctr * 100).toFixed(2);
+
+  return [
+    'date,impressions,clicks,ctr_percent',
+    ...report.days.map(
+      (d) => `${d.date},${d.impressions},${d.clicks},${formatCtr(d.ctr)}`
+    ),
+    `total,${report.impressions},${report.clicks},${formatCtr(report.ctr)}`,
+  ].join('\n');
+}
+
+/**
+ * Ad Campaign Service
+ *
+ * Manages digest advertiser campaigns, picks which ones each recipient sees
+ * and records impressions and clicks for billing. Expects a service-role
+ * client.
+ */
+export class AdCampaignService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listCampaigns(): Promise<AdCampaign[]> {
+    const { data, error } = await this.supabase
+      .from('email_advertisers')
+      .select(CAMPAIGN_COLUMNS)
+      .order('position');
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to fetch campaigns: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return (data || []) as AdCampaign[];
+  }
+
+  async getCampaign(id: string): Promise<AdCampaign> {
+    const { data, error } = await this.supabase
+      .from('email_advertisers')
+      .select(CAMPAIGN_COLUMNS)
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to fetch campaign: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data) {
+      throw new AdCampaignError('Campaign not found', 'NOT_FOUND', 404);
+    }
+    return data as AdCampaign;
+  }
+
+  async createCampaign(input: CreateAdCampaignInput): Promise<AdCampaign> {
+    const { data, error } = await this.supabase
+      .from('email_advertisers')
+      .insert(input)
+      .select(CAMPAIGN_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to create campaign: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as AdCampaign;
+  }
+
+  /**
+   * Apply a partial update. The flight is checked against the stored dates,
+   * since the update may only change one end of it.
+   */
+  async updateCampaign({
+    id,
+    ...changes
+  }: UpdateAdCampaignInput): Promise<AdCampaign> {
+    const current = await this.getCampaign(id);
+    if (!hasValidFlight({ ...current, ...changes })) {
+      throw new AdCampaignError(
+        'End date must be after the start date',
+        'INVALID_FLIGHT',
+        400
+      );
+    }
+
+    const { data, error } = await this.supabase
+      .from('email_advertisers')
+      .update(changes)
+      .eq('id', id)
+      .select(CAMPAIGN_COLUMNS)
+      .single();
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to update campaign: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as AdCampaign;
+  }
+
+  /**
+   * When a recipient was last shown each capped campaign, within the
+   * longest cap window
+   */
+  private async getRecentImpressions(
+    userId: string,
+    campaigns: AdCampaign[],
+    now: Date
+  ): Promise<Map<string, string[]>> {
+    const impressions = new Map<string, string[]>();
+    const capped = campaigns.filter((c) => c.frequency_cap !== null);
+    if (capped.length === 0) return impressions;
+
+    const windowDays = Math.max(...capped.map((c) => c.frequency_cap_days));
+    const { data, error } = await this.supabase
+      .from('ad_impressions')
+      .select('campaign_id, created_at')
+      .eq('user_id', userId)
+      .in(
+        'campaign_id',
+        capped.map((c) => c.id)
+      )
+      .gte(
+        'created_at',
+        new Date(now.getTime() - windowDays * DAY_MS).toISOString()
+      );
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to fetch impressions: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    for (const row of data || []) {
+      const shown = impressions.get(row.campaign_id) || [];
+      shown.push(row.created_at);
+      impressions.set(row.campaign_id, shown);
+    }
+    return impressions;
+  }
+
+  /**
+   * Campaigns to show in one digest. Without a user (test sends, previews)
+   * frequency caps don't apply.
+   */
+  async chooseCampaigns(
+    loungeId: string,
+    userId: string | null,
+    now: Date = new Date()
+  ): Promise<AdCampaign[]> {
+    const { data, error } = await this.supabase
+      .from('email_advertisers')
+      .select(CAMPAIGN_COLUMNS)
+      .eq('is_active', true);
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to fetch campaigns: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    let eligible = ((data || []) as AdCampaign[]).filter((campaign) =>
+      isCampaignLive(campaign, loungeId, now)
+    );
+
+    if (userId) {
+      const impressions = await this.getRecentImpressions(
+        userId,
+        eligible,
+        now
+      );
+      eligible = eligible.filter((campaign) =>
+        isUnderFrequencyCap(campaign, impressions.get(campaign.id) || [], now)
+      );
+    }
+
+    return selectCampaigns(eligible);
+  }
+
+  async recordImpressions(
+    campaignIds: string[],
+    delivery: { userId: string; loungeId: string; deliveryId: string | null }
+  ): Promise<void> {
+    if (campaignIds.length === 0) return;
+
+    const { error } = await this.supabase.from('ad_impressions').insert(
+      campaignIds.map((campaignId) => ({
+        campaign_id: campaignId,
+        user_id: delivery.userId,
+        lounge_id: delivery.loungeId,
+        delivery_id: delivery.deliveryId,
+      }))
+    );
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to record impressions: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  /**
+   * Bill a click from a delivery. Following the same link again, or another
+   * link to the campaign in that digest, isn't billed twice.
+   */
+  async recordClick(
+    campaignId: string,
+    click: { editionId: string; deliveryId: string }
+  ): Promise<void> {
+    const { error } = await this.supabase.from('ad_clicks').upsert(
+      {
+        campaign_id: campaignId,
+        edition_id: click.editionId,
+        delivery_id: click.deliveryId,
+      },
+      { onConflict: 'delivery_id,campaign_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to record click: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  /**
+   * Daily impressions and clicks for the last `days` days
+   */
+  async getReport(campaignId: string, days = 30): Promise<AdCampaignReport> {
+    const campaign = await this.getCampaign(campaignId);
+    const until = new Date();
+    const since = new Date(until.getTime() - (days - 1) * DAY_MS);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const { data, error } = await this.supabase.rpc(
+      'get_ad_campaign_daily_stats',
+      { p_campaign_id: campaignId, p_since: since.toISOString() }
+    );
+
+    if (error) {
+      throw new AdCampaignError(
+        `Failed to fetch campaign stats: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return buildCampaignReport(campaign, since, until, data || []);
+  }
+}
@@ -4,6 +4,11 @@ import crypto from 'crypto';
 import fetch from 'node-fetch';
 import sharp from 'sharp';
 import { AIPromptGenerator } from './ai-prompt-generator';
+import {
+  isOverBudget,
+  recordCost,
+  VENDOR_PRICING,
+} from './cost-ledger-service';
 
 interface GenerateImageOptions {
   url: string;
@@ -73,6 +78,12 @@ export class AIImageService {
       return null;
     }
 
+    // Fallback images are optional, so they pause when over budget
+    if (await isOverBudget('images')) {
+      console.log(`Images budget exceeded, skipping image for: ${options.url}`);
+      return null;
+    }
+
     try {
       // Create a hash of the URL for caching
       const urlHash = crypto
@@ -159,6 +170,16 @@ export class AIImageService {
         return null;
       }
 
+      await recordCost({
+        subsystem: 'images',
+        provider: 'gemini',
+        modelOrActor: 'gemini-2.5-flash-image-preview',
+        unitType: 'images',
+        units: 1,
+        costUsd: VENDOR_PRICING.geminiImage,
+        metadata: { url: options.url },
+      });
+
       // Convert base64 to a data URL for temporary storage
       const generatedImageUrl = `data:image/png;base64,${base64Image}`;
 
@@ -1,4 +1,5 @@
-import OpenAI from 'openai';
+import { z } from 'zod';
+import { getLLMGateway, type LLMGateway } from '@/lib/llm';
 
 interface ImagePromptOptions {
   title: string;
@@ -8,31 +9,25 @@ interface ImagePromptOptions {
   isBigStory?: boolean;
 }
 
-interface GeneratedPrompt {
-  prompt: string;
-  concept: string;
-  style: string;
-}
+const GeneratedPromptSchema = z.object({
+  prompt: z.string().min(1),
+  concept: z.string().default(''),
+  style: z.string().default('photorealistic'),
+});
 
-export class AIPromptGenerator {
-  private openai: OpenAI | null = null;
+type GeneratedPrompt = z.infer<typeof GeneratedPromptSchema>;
 
-  constructor() {
-    if (process.env.OPENAI_API_KEY) {
-      this.openai = new OpenAI({
-        apiKey: process.env.OPENAI_API_KEY,
-      });
-    }
-  }
+export class AIPromptGenerator {
+  constructor(private llm: LLMGateway = getLLMGateway()) {}
 
   /**
-   * Generate an image prompt using GPT-4o-mini
+   * Generate an image prompt with the prompt_generation model
    */
   async generateImagePrompt(
     options: ImagePromptOptions
   ): Promise<GeneratedPrompt | null> {
-    if (!this.openai) {
-      console.error('OpenAI API key not configured for prompt generation');
+    if (!this.llm.isAvailable('prompt_generation')) {
+      console.error('No LLM provider configured for prompt generation');
       return null;
     }
 
@@ -91,28 +86,23 @@ ${description ? `Description: ${description}` : ''}
 ${source ? `Source: ${source}` : ''}
 ${category ? `Category: ${category}` : ''}`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          { role: 'system', content: systemPrompt },
-          { role: 'user', content: userPrompt },
-        ],
-        temperature: 0.8, // Increased from 0.5 for more variety
-        max_tokens: 200,
-        response_format: { type: 'json_object' },
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || '{}');
-
-      if (!result.prompt) {
-        console.error('GPT-4o-mini did not return a valid prompt');
-        return null;
-      }
+      const { data: result } = await this.llm.completeJson(
+        {
+          task: 'prompt_generation',
+          messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: userPrompt },
+          ],
+          temperature: 0.8, // Increased from 0.5 for more variety
+          maxTokens: 200,
+        },
+        GeneratedPromptSchema
+      );
 
       console.log('Generated image prompt:', result.prompt);
-      return result as GeneratedPrompt;
+      return result;
     } catch (error) {
-      console.error('Error generating image prompt with GPT-4o-mini:', error);
+      console.error('Error generating image prompt:', error);
       return null;
     }
   }
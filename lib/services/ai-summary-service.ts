@@ -1,86 +1,131 @@
-import { OpenAI } from 'openai';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import type {
-  GenerateSummaryInput,
-  GenerateSummaryResult,
-  SummaryStatus,
+import { z } from 'zod';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
+import type { LLMCompletion, LLMCompletionRequest } from '@/types/llm';
+import {
+  getThreadText,
+  type ContentChapter,
+  type GenerateSummaryInput,
+  type GenerateSummaryResult,
+  type KeyMoment,
+  type SummaryLength,
+  type SummaryStatus,
+  type TranscriptSegment,
 } from '@/types/content';
-
-// Rate limiting configuration
-const RATE_LIMITS = {
-  'gpt-5-mini': {
-    requestsPerMinute: 1000,
-    tokensPerMinute: 400000,
-    requestsPerDay: 20000,
-  },
-  'gpt-4o-mini': {
-    requestsPerMinute: 500,
-    tokensPerMinute: 200000,
-    requestsPerDay: 10000,
-  },
-  'gpt-4': {
-    requestsPerMinute: 500,
-    tokensPerMinute: 40000,
-    requestsPerDay: 10000,
-  },
-  'gpt-3.5-turbo': {
-    requestsPerMinute: 3500,
-    tokensPerMinute: 90000,
-    requestsPerDay: 10000,
-  },
+import { ContentThreadService } from './content-thread-service';
+import { parseTimestamp } from './transcript-service';
+
+// How much source text is sent per summary type. Transcripts get a larger
+// window since spoken content is far less dense than written content.
+const INPUT_CHAR_LIMITS = {
+  content: { short: 2000, long: 4000 },
+  transcript: { short: 6000, long: 16000 },
 };
 
-// Cost per 1M tokens (as of 2025)
-const COST_PER_MILLION_TOKENS = {
-  'gpt-5-mini': {
-    input: 0.25, // $0.25 per 1M input tokens
-    output: 2.0, // $2.00 per 1M output tokens
-  },
-  'gpt-4o-mini': {
-    input: 0.15, // $0.15 per 1M input tokens
-    output: 0.6, // $0.60 per 1M output tokens
-  },
-  'gpt-4': {
-    input: 30.0, // $30 per 1M input tokens
-    output: 60.0, // $60 per 1M output tokens
-  },
-  'gpt-3.5-turbo': {
-    input: 0.5, // $0.50 per 1M input tokens
-    output: 1.5, // $1.50 per 1M output tokens
-  },
+const SUMMARY_MAX_WORDS: Record<SummaryLength, number> = {
+  short: 30,
+  long: 100,
 };
 
-export class AISummaryService {
-  private openai: OpenAI | null = null;
-  private requestCount = 0;
-  private lastResetTime = Date.now();
-  private totalTokensUsed = { input: 0, output: 0 };
-  private sessionCost = 0;
+// Key moments per summary, and how much spoken time one transcript line covers
+const MAX_KEY_MOMENTS = 8;
+const KEY_MOMENT_LINE_SECONDS = 30;
+
+const KeyMomentsResponseSchema = z.object({
+  key_moments: z.array(z.object({ time: z.string(), title: z.string() })),
+});
+
+type SummarySource = Partial<
+  Pick<GenerateSummaryInput, 'content_id' | 'source' | 'chapters'>
+>;
+
+// Content columns a summary is generated from
+export interface SummarizableContent {
+  id: string;
+  content_body?: string | null;
+  transcript?: string | null;
+  transcript_segments?: TranscriptSegment[] | null;
+  chapters?: ContentChapter[] | null;
+  creator_id?: string;
+  thread_id?: string | null;
+  thread_position?: number | null;
+}
 
-  constructor() {
-    this.initializeOpenAI();
-  }
+// Columns to select for SummarizableContent
+export const SUMMARIZABLE_COLUMNS =
+  'id, content_body, transcript, transcript_segments, chapters, creator_id, thread_id, thread_position';
+
+/**
+ * What to summarize for a content row: the transcript for podcast
+ * episodes and videos, otherwise the body. Null when there is no text.
+ */
+export function getSummaryInput(
+  content: SummarizableContent
+): GenerateSummaryInput | null {
+  const transcript = content.transcript?.trim();
+  const text = transcript || content.content_body?.trim() || '';
+  if (!text) return null;
+
+  return {
+    content_id: content.id,
+    text,
+    source: transcript ? 'transcript' : 'content',
+    chapters: content.chapters || undefined,
+    segments: (transcript && content.transcript_segments) || undefined,
+  };
+}
+
+/**
+ * Format seconds as MM:SS, or H:MM:SS past the hour
+ */
+function formatTimestamp(time: number): string {
+  const total = Math.floor(time);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const seconds = String(total % 60).padStart(2, '0');
+  return hours
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
 
-  private initializeOpenAI() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey && !this.openai) {
-      this.openai = new OpenAI({ apiKey });
+/**
+ * Format chapters as "MM:SS Title" lines for the prompt
+ */
+function formatChapterOutline(chapters: ContentChapter[]): string[] {
+  return chapters.map(
+    (chapter) => `${formatTimestamp(chapter.start_time)} ${chapter.title}`
+  );
+}
+
+/**
+ * Format a timed transcript as "[MM:SS] text" lines, one per stretch of
+ * speech. Long transcripts have each line shortened rather than the end
+ * cut off, so key moments can come from the whole video.
+ */
+function formatTimedTranscript(segments: TranscriptSegment[]): string {
+  const lines: Array<{ stamp: string; text: string }> = [];
+  let lineStart = -Infinity;
+  for (const segment of segments) {
+    if (segment.start - lineStart >= KEY_MOMENT_LINE_SECONDS) {
+      lineStart = segment.start;
+      lines.push({ stamp: formatTimestamp(segment.start), text: segment.text });
+    } else {
+      lines[lines.length - 1].text += ` ${segment.text}`;
     }
   }
 
-  private calculateCost(
-    model: string,
-    inputTokens: number,
-    outputTokens: number
-  ): number {
-    const costs =
-      COST_PER_MILLION_TOKENS[model as keyof typeof COST_PER_MILLION_TOKENS] ||
-      COST_PER_MILLION_TOKENS['gpt-4o-mini'];
-    const inputCost = (inputTokens / 1_000_000) * costs.input;
-    const outputCost = (outputTokens / 1_000_000) * costs.output;
-    return inputCost + outputCost;
-  }
+  const perLine = Math.floor(INPUT_CHAR_LIMITS.transcript.long / lines.length);
+  return lines
+    .map(({ stamp, text }) => `[${stamp}] ${text}`.substring(0, perLine))
+    .join('\n');
+}
+
+export class AISummaryService {
+  private totalTokensUsed = { input: 0, output: 0 };
+  private sessionCost = 0;
+
+  constructor(private llm: LLMGateway = getLLMGateway()) {}
 
   getCostReport(): {
     totalTokens: { input: number; output: number };
@@ -92,52 +137,28 @@ export class AISummaryService {
     };
   }
 
-  private async checkRateLimit(model: string): Promise<void> {
-    const now = Date.now();
-    const timeSinceReset = now - this.lastResetTime;
-
-    // Reset counter every minute
-    if (timeSinceReset >= 60000) {
-      this.requestCount = 0;
-      this.lastResetTime = now;
-    }
-
-    const limits =
-      RATE_LIMITS[model as keyof typeof RATE_LIMITS] ||
-      RATE_LIMITS['gpt-4o-mini'];
-
-    // Check if we're approaching rate limit
-    if (this.requestCount >= limits.requestsPerMinute * 0.8) {
-      // Wait until the next minute
-      const waitTime = 60000 - timeSinceReset;
-      if (waitTime > 0) {
-        console.log(`Approaching rate limit, waiting ${waitTime}ms`);
-        await new Promise((resolve) => setTimeout(resolve, waitTime));
-        this.requestCount = 0;
-        this.lastResetTime = Date.now();
-      }
-    }
-
-    this.requestCount++;
+  private trackUsage(completion: LLMCompletion) {
+    this.totalTokensUsed.input += completion.usage.inputTokens;
+    this.totalTokensUsed.output += completion.usage.outputTokens;
+    this.sessionCost += completion.cost;
   }
 
   async generateSummary(
     input: GenerateSummaryInput,
     supabaseClient?: ReturnType<typeof createServerClient>
   ): Promise<GenerateSummaryResult> {
-    // Try to initialize OpenAI if not already done
-    this.initializeOpenAI();
-
-    if (!this.openai) {
-      throw new Error('OpenAI API key not configured');
+    if (!this.llm.isAvailable('summary')) {
+      throw new Error('No LLM provider configured for summaries');
     }
 
     const {
       content_id,
       text,
-      model = 'gpt-4o-mini',
       generateShort = true,
       generateLong = true,
+      source = 'content',
+      chapters,
+      segments,
     } = input;
 
     if (!text || text.trim().length === 0) {
@@ -180,6 +201,8 @@ export class AISummaryService {
         content_id,
         success: false,
       };
+      // The model that answered, which depends on which providers were up
+      let model: string | null = null;
 
       // Calculate word count once
       const wordCount = this.countWords(text);
@@ -190,75 +213,48 @@ export class AISummaryService {
         console.log(
           `[AI Summary] Content too short (${wordCount} words), skipping summary generation`
         );
-      } else {
-        // Generate short summary for content with 30+ words
-        if (generateShort) {
-          try {
-            const shortSummary = await this.generateShortSummary(text, model);
-            results.shortSummary = shortSummary;
-          } catch (err) {
-            // Error generating short summary
+      }
+
+      for (const length of this.getSummaryLengths(wordCount, {
+        generateShort,
+        generateLong,
+      })) {
+        try {
+          const summary = await this.generateSummaryText(length, text, {
+            content_id,
+            source,
+            chapters,
+          });
+          results[length === 'short' ? 'shortSummary' : 'longSummary'] =
+            summary.text;
+          model = summary.model;
+        } catch (err) {
+          // Keep the first failure
+          if (!results.error) {
             results.error =
               err instanceof Error
                 ? err.message
-                : 'Failed to generate short summary';
+                : `Failed to generate ${length} summary`;
           }
         }
+      }
 
-        // Generate long summary if requested and text has at least 100 words
-        if (generateLong && wordCount >= 100) {
-          try {
-            const longSummary = await this.generateLongSummary(text, model);
-            results.longSummary = longSummary;
-          } catch (err) {
-            // Error generating long summary
-            if (!results.error) {
-              results.error =
-                err instanceof Error
-                  ? err.message
-                  : 'Failed to generate long summary';
-            }
+      if (this.wantsKeyMoments(wordCount, { segments, generateLong })) {
+        try {
+          const moments = await this.generateKeyMoments(segments!, content_id);
+          results.keyMoments = moments.keyMoments;
+          model ||= moments.model;
+        } catch (err) {
+          if (!results.error) {
+            results.error =
+              err instanceof Error
+                ? err.message
+                : 'Failed to generate key moments';
           }
         }
       }
 
-      // Update database with results
-      const updateData: any = {
-        summary_generated_at: new Date().toISOString(),
-        summary_model: model,
-        summary_error_message: results.error || null,
-      };
-
-      // Determine status based on word count and results
-      if (wordCount < 30) {
-        // Content too short - mark as completed without summaries
-        updateData.summary_status = 'completed';
-        updateData.ai_summary_short = null;
-        updateData.ai_summary_long = null;
-        updateData.summary_word_count_short = 0;
-        updateData.summary_word_count_long = 0;
-      } else {
-        // Content long enough - update with generated summaries
-        updateData.ai_summary_short = results.shortSummary || null;
-        updateData.ai_summary_long = results.longSummary || null;
-        updateData.summary_status =
-          results.shortSummary || results.longSummary ? 'completed' : 'error';
-        updateData.summary_word_count_short = results.shortSummary
-          ? this.countWords(results.shortSummary)
-          : 0;
-        updateData.summary_word_count_long = results.longSummary
-          ? this.countWords(results.longSummary)
-          : 0;
-      }
-
-      const { error: updateError } = await supabase
-        .from('content')
-        .update(updateData)
-        .eq('id', content_id);
-
-      if (updateError) {
-        throw updateError;
-      }
+      await this.saveSummaries(supabase, content_id, wordCount, results, model);
 
       results.success = true;
       return results;
@@ -275,44 +271,110 @@ export class AISummaryService {
     }
   }
 
-  private async generateShortSummary(
+  /**
+   * The completion request for one summary length. Shared by real-time
+   * generation and batch jobs so both send the same prompt.
+   */
+  buildSummaryRequest(
+    length: SummaryLength,
     text: string,
-    model: string
-  ): Promise<string> {
-    // Try to initialize OpenAI if not already done
-    this.initializeOpenAI();
-
-    if (!this.openai) throw new Error('OpenAI not initialized');
-
-    // Check rate limits before making request
-    await this.checkRateLimit(model);
+    { content_id, source = 'content', chapters }: SummarySource = {}
+  ): LLMCompletionRequest {
+    if (length === 'short') {
+      // Use structured JSON prompt for better AI understanding
+      return {
+        task: 'summary',
+        attribution: { contentId: content_id },
+        messages: [
+          {
+            role: 'system',
+            content: JSON.stringify(
+              {
+                role: 'concise content summarizer',
+                task: 'create brief summary',
+                requirements: {
+                  wordCount: { max: 30, strict: true },
+                  focus: ['key point', 'main idea', 'core message'],
+                  style: ['direct', 'informative', 'clear', 'factual'],
+                },
+                format: {
+                  type: 'plain text',
+                  structure: 'single paragraph',
+                  grammar: 'complete sentences',
+                },
+                constraints: [
+                  'NO introductory phrases like "This article discusses"',
+                  'NO unnecessary adjectives or filler words',
+                  'FOCUS on the most important information',
+                  'BE factual and accurate',
+                  'START directly with the subject matter',
+                ],
+              },
+              null,
+              2
+            ),
+          },
+          {
+            role: 'user',
+            content: JSON.stringify(
+              {
+                instruction:
+                  source === 'transcript'
+                    ? 'Summarize what is discussed in this episode transcript in exactly 30 words or less'
+                    : 'Summarize this content in exactly 30 words or less',
+                maxWords: 30,
+                content: text.substring(0, INPUT_CHAR_LIMITS[source].short),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+        temperature: 0.5,
+        maxTokens: 60,
+      };
+    }
 
-    // Use structured JSON prompt for better AI understanding
-    const completionParams: any = {
-      model,
+    // Use structured JSON prompt for comprehensive summary
+    return {
+      task: 'summary',
+      attribution: { contentId: content_id },
       messages: [
         {
           role: 'system',
           content: JSON.stringify(
             {
-              role: 'concise content summarizer',
-              task: 'create brief summary',
+              role: 'comprehensive content summarizer',
+              task: 'create detailed summary',
               requirements: {
-                wordCount: { max: 30, strict: true },
-                focus: ['key point', 'main idea', 'core message'],
-                style: ['direct', 'informative', 'clear', 'factual'],
+                wordCount: { max: 100, target: '80-100' },
+                coverage: [
+                  'main points and arguments',
+                  'key details and data',
+                  'important context',
+                  'implications or conclusions',
+                ],
+                style: ['informative', 'clear', 'structured', 'professional'],
               },
               format: {
                 type: 'plain text',
-                structure: 'single paragraph',
-                grammar: 'complete sentences',
+                structure: 'coherent narrative with logical flow',
+                grammar: 'complete sentences with proper transitions',
               },
+              priorities: [
+                'accuracy over brevity',
+                'completeness of key information',
+                'logical progression of ideas',
+                'actionable insights when relevant',
+                'preserve important numbers/statistics',
+              ],
               constraints: [
-                'NO introductory phrases like "This article discusses"',
-                'NO unnecessary adjectives or filler words',
-                'FOCUS on the most important information',
-                'BE factual and accurate',
-                'START directly with the subject matter',
+                'NO conversational language or questions',
+                'NO redundant information',
+                'NO introductory phrases',
+                'MAINTAIN factual accuracy',
+                'PRESERVE important data points',
+                'START with the main point',
               ],
             },
             null,
@@ -323,9 +385,18 @@ export class AISummaryService {
           role: 'user',
           content: JSON.stringify(
             {
-              instruction: 'Summarize this content in exactly 30 words or less',
-              maxWords: 30,
-              content: text.substring(0, 2000),
+              instruction:
+                source === 'transcript'
+                  ? 'Create comprehensive summary of this episode transcript in 100 words or less'
+                  : 'Create comprehensive summary in 100 words or less',
+              maxWords: 100,
+              targetLength: '80-100 words for completeness',
+              ...(chapters?.length && {
+                chapters: formatChapterOutline(chapters),
+                chapterGuidance:
+                  'Follow the order of the chapters and cover the most substantial ones',
+              }),
+              content: text.substring(0, INPUT_CHAR_LIMITS[source].long),
             },
             null,
             2
@@ -333,97 +404,99 @@ export class AISummaryService {
         },
       ],
       temperature: 0.5,
+      maxTokens: 200,
     };
+  }
 
-    // GPT-5 models use max_completion_tokens instead of max_tokens
-    if (model.includes('gpt-5')) {
-      completionParams.max_completion_tokens = 60;
-    } else {
-      completionParams.max_tokens = 60;
-    }
-
-    const response =
-      await this.openai.chat.completions.create(completionParams);
-
-    const summary = response.choices[0]?.message?.content?.trim();
+  /**
+   * Clean up a model's summary, trimming it to the length's word limit
+   */
+  finishSummary(length: SummaryLength, answer: string): string {
+    const summary = answer.trim();
     if (!summary) {
       throw new Error('No summary generated');
     }
 
-    // Track token usage and cost
-    if (response.usage) {
-      this.totalTokensUsed.input += response.usage.prompt_tokens;
-      this.totalTokensUsed.output += response.usage.completion_tokens;
-      const cost = this.calculateCost(
-        model,
-        response.usage.prompt_tokens,
-        response.usage.completion_tokens
-      );
-      this.sessionCost += cost;
-    }
-
     // Validate word count
-    const wordCount = this.countWords(summary);
-    if (wordCount > 30) {
+    const maxWords = SUMMARY_MAX_WORDS[length];
+    if (this.countWords(summary) > maxWords) {
       // Try to trim it down
-      const words = summary.split(' ');
-      return words.slice(0, 30).join(' ');
+      return summary.split(' ').slice(0, maxWords).join(' ');
     }
-
     return summary;
   }
 
-  private async generateLongSummary(
-    text: string,
-    model: string
-  ): Promise<string> {
-    // Try to initialize OpenAI if not already done
-    this.initializeOpenAI();
-
-    if (!this.openai) throw new Error('OpenAI not initialized');
+  /**
+   * Which summaries a text is long enough for: none under 30 words, the
+   * long one from 100
+   */
+  getSummaryLengths(
+    wordCount: number,
+    { generateShort = true, generateLong = true } = {}
+  ): SummaryLength[] {
+    if (wordCount < 30) return [];
+    return [
+      ...(generateShort ? (['short'] as const) : []),
+      ...(generateLong && wordCount >= 100 ? (['long'] as const) : []),
+    ];
+  }
 
-    // Check rate limits before making request
-    await this.checkRateLimit(model);
+  /**
+   * Whether to pick out key moments: only from a timed transcript long
+   * enough for the long summary
+   */
+  wantsKeyMoments(
+    wordCount: number,
+    {
+      segments,
+      generateLong = true,
+    }: Pick<GenerateSummaryInput, 'segments' | 'generateLong'>
+  ): boolean {
+    return (
+      generateLong &&
+      !!segments?.length &&
+      this.getSummaryLengths(wordCount).includes('long')
+    );
+  }
 
-    // Use structured JSON prompt for comprehensive summary
-    const completionParams: any = {
-      model,
+  /**
+   * The completion request for a timed transcript's key moments. Shared by
+   * real-time generation and batch jobs.
+   */
+  buildKeyMomentsRequest(
+    segments: TranscriptSegment[],
+    { content_id }: SummarySource = {}
+  ): LLMCompletionRequest {
+    return {
+      task: 'summary',
+      attribution: { contentId: content_id },
+      json: true,
       messages: [
         {
           role: 'system',
           content: JSON.stringify(
             {
-              role: 'comprehensive content summarizer',
-              task: 'create detailed summary',
+              role: 'video highlights editor',
+              task: 'pick the key moments of a timed transcript',
               requirements: {
-                wordCount: { max: 100, target: '80-100' },
-                coverage: [
-                  'main points and arguments',
-                  'key details and data',
-                  'important context',
-                  'implications or conclusions',
+                count: { min: 3, max: MAX_KEY_MOMENTS },
+                focus: [
+                  'topic changes',
+                  'main arguments and announcements',
+                  'notable data or examples',
                 ],
-                style: ['informative', 'clear', 'structured', 'professional'],
+                title: 'under 10 words, specific to what is said',
               },
               format: {
-                type: 'plain text',
-                structure: 'coherent narrative with logical flow',
-                grammar: 'complete sentences with proper transitions',
+                type: 'json',
+                schema: {
+                  key_moments: [{ time: 'MM:SS', title: 'string' }],
+                },
               },
-              priorities: [
-                'accuracy over brevity',
-                'completeness of key information',
-                'logical progression of ideas',
-                'actionable insights when relevant',
-                'preserve important numbers/statistics',
-              ],
               constraints: [
-                'NO conversational language or questions',
-                'NO redundant information',
-                'NO introductory phrases',
-                'MAINTAIN factual accuracy',
-                'PRESERVE important data points',
-                'START with the main point',
+                'ONLY use timestamps that appear in the transcript',
+                'LIST moments in the order they occur',
+                'NO generic titles like "Introduction" or "Conclusion"',
               ],
             },
             null,
@@ -434,61 +507,74 @@ export class AISummaryService {
           role: 'user',
           content: JSON.stringify(
             {
-              instruction: 'Create comprehensive summary in 100 words or less',
-              maxWords: 100,
-              targetLength: '80-100 words for completeness',
-              content: text.substring(0, 4000),
+              instruction:
+                'Pick the key moments of this transcript. Each line starts with its [MM:SS] timestamp.',
+              transcript: formatTimedTranscript(segments),
             },
             null,
             2
           ),
         },
       ],
-      temperature: 0.5,
+      temperature: 0.3,
+      maxTokens: 400,
     };
+  }
 
-    // GPT-5 models use max_completion_tokens instead of max_tokens
-    if (model.includes('gpt-5')) {
-      completionParams.max_completion_tokens = 200;
-    } else {
-      completionParams.max_tokens = 200;
+  /**
+   * Parse a model's key moments, in time order without duplicates
+   */
+  finishKeyMoments(answer: string): KeyMoment[] {
+    const { key_moments } = KeyMomentsResponseSchema.parse(extractJson(answer));
+
+    const byTime = new Map<number, KeyMoment>();
+    for (const moment of key_moments) {
+      const start_time = parseTimestamp(moment.time.replace(/[[\]]/g, ''));
+      const title = moment.title.trim();
+      if (Number.isFinite(start_time) && title && !byTime.has(start_time)) {
+        byTime.set(start_time, { start_time, title });
+      }
     }
 
-    const response =
-      await this.openai.chat.completions.create(completionParams);
+    return Array.from(byTime.values())
+      .sort((a, b) => a.start_time - b.start_time)
+      .slice(0, MAX_KEY_MOMENTS);
+  }
 
-    const summary = response.choices[0]?.message?.content?.trim();
-    if (!summary) {
-      throw new Error('No summary generated');
-    }
+  private async generateKeyMoments(
+    segments: TranscriptSegment[],
+    content_id: string
+  ): Promise<{ keyMoments: KeyMoment[]; model: string }> {
+    const completion = await this.llm.complete(
+      this.buildKeyMomentsRequest(segments, { content_id })
+    );
+    this.trackUsage(completion);
 
-    // Track token usage and cost
-    if (response.usage) {
-      this.totalTokensUsed.input += response.usage.prompt_tokens;
-      this.totalTokensUsed.output += response.usage.completion_tokens;
-      const cost = this.calculateCost(
-        model,
-        response.usage.prompt_tokens,
-        response.usage.completion_tokens
-      );
-      this.sessionCost += cost;
-    }
+    return {
+      keyMoments: this.finishKeyMoments(completion.text),
+      model: completion.model,
+    };
+  }
 
-    // Validate word count
-    const wordCount = this.countWords(summary);
-    if (wordCount > 100) {
-      // Try to trim it down
-      const words = summary.split(' ');
-      return words.slice(0, 100).join(' ');
-    }
+  private async generateSummaryText(
+    length: SummaryLength,
+    text: string,
+    source: SummarySource
+  ): Promise<{ text: string; model: string }> {
+    const completion = await this.llm.complete(
+      this.buildSummaryRequest(length, text, source)
+    );
+    this.trackUsage(completion);
 
-    return summary;
+    return {
+      text: this.finishSummary(length, completion.text),
+      model: completion.model,
+    };
   }
 
   async generateBatchSummaries(
     contentIds: string[],
     options: {
-      model?: string;
       batchSize?: number;
       delayMs?: number;
       maxCost?: number;
@@ -496,7 +582,6 @@ export class AISummaryService {
     } = {}
   ): Promise<{ processed: number; errors: number; estimatedCost?: number }> {
     const {
-      model = 'gpt-4o-mini',
       batchSize = 5,
       delayMs = 1000,
       maxCost = 10.0, // Default $10 limit per batch run
@@ -550,7 +635,7 @@ export class AISummaryService {
       // Fetch content for this batch
       const { data: contents, error: fetchError } = await supabase
         .from('content')
-        .select('id, content_body')
+        .select(SUMMARIZABLE_COLUMNS)
         .in('id', batch);
 
       console.log('[AI Summary] Batch fetch:', {
@@ -569,19 +654,13 @@ export class AISummaryService {
       }
 
       // Process each content item
+      const summarizable = await this.expandThreads(supabase, contents);
       await Promise.all(
-        contents.map(async (content: { id: string; content_body?: string }) => {
+        summarizable.map(async (content) => {
           try {
-            const text = content.content_body?.trim() || '';
-            if (text) {
-              await this.generateSummary(
-                {
-                  content_id: content.id,
-                  text,
-                  model,
-                },
-                supabase
-              );
+            const input = getSummaryInput(content);
+            if (input) {
+              await this.generateSummary(input, supabase);
               processed++;
             }
           } catch {
@@ -609,6 +688,49 @@ export class AISummaryService {
     };
   }
 
+  /**
+   * Summarize threads as a unit. A thread's opener is summarized from the
+   * text of the whole thread; later posts are completed without summaries
+   * of their own and bring their opener in instead, so a thread that grew
+   * since it was summarized is summarized again.
+   */
+  async expandThreads(
+    supabase: ReturnType<typeof createServerClient>,
+    contents: SummarizableContent[]
+  ): Promise<SummarizableContent[]> {
+    const threaded = contents.filter(
+      (content): content is SummarizableContent & { creator_id: string } =>
+        !!content.thread_id && !!content.creator_id
+    );
+    if (threaded.length === 0) return contents;
+
+    const threads = await new ContentThreadService(supabase).getThreads(
+      threaded
+    );
+
+    const expanded = new Map<string, SummarizableContent>();
+    for (const content of contents) {
+      const posts = threads.get(content.id);
+      if (!posts) {
+        expanded.set(content.id, content);
+        continue;
+      }
+
+      if (content.thread_position) {
+        await this.saveSummaries(supabase, content.id, 0, {}, null);
+      }
+      const opener = posts[0];
+      expanded.set(opener.id, {
+        id: opener.id,
+        creator_id: opener.creator_id,
+        thread_id: opener.thread_id,
+        thread_position: opener.thread_position,
+        content_body: getThreadText(posts),
+      });
+    }
+    return Array.from(expanded.values());
+  }
+
   async getPendingSummaries(limit: number = 100): Promise<string[]> {
     const cookieStore = await cookies();
     const supabase = createServerClient(
@@ -647,7 +769,65 @@ export class AISummaryService {
     return data?.map((item: { id: string }) => item.id) || [];
   }
 
-  private async updateSummaryStatus(
+  /**
+   * Write generated summaries to the content row. Content under 30 words
+   * is marked completed without summaries; otherwise the status is error
+   * when neither summary was generated.
+   */
+  async saveSummaries(
+    supabase: ReturnType<typeof createServerClient>,
+    contentId: string,
+    wordCount: number,
+    results: Pick<
+      GenerateSummaryResult,
+      'shortSummary' | 'longSummary' | 'keyMoments' | 'error'
+    >,
+    model: string | null
+  ): Promise<void> {
+    // Update database with results
+    const updateData: any = {
+      summary_generated_at: new Date().toISOString(),
+      summary_model: model,
+      summary_error_message: results.error || null,
+    };
+
+    // Determine status based on word count and results
+    if (wordCount < 30) {
+      // Content too short - mark as completed without summaries
+      updateData.summary_status = 'completed';
+      updateData.ai_summary_short = null;
+      updateData.ai_summary_long = null;
+      updateData.summary_word_count_short = 0;
+      updateData.summary_word_count_long = 0;
+      updateData.key_moments = null;
+    } else {
+      // Content long enough - update with generated summaries
+      updateData.ai_summary_short = results.shortSummary || null;
+      updateData.ai_summary_long = results.longSummary || null;
+      updateData.summary_status =
+        results.shortSummary || results.longSummary ? 'completed' : 'error';
+      updateData.summary_word_count_short = results.shortSummary
+        ? this.countWords(results.shortSummary)
+        : 0;
+      updateData.summary_word_count_long = results.longSummary
+        ? this.countWords(results.longSummary)
+        : 0;
+      updateData.key_moments = results.keyMoments?.length
+        ? results.keyMoments
+        : null;
+    }
+
+    const { error: updateError } = await supabase
+      .from('content')
+      .update(updateData)
+      .eq('id', contentId);
+
+    if (updateError) {
+      throw updateError;
+    }
+  }
+
+  async updateSummaryStatus(
     supabase: ReturnType<typeof createServerClient>,
     contentId: string,
     status: SummaryStatus,
@@ -667,7 +847,7 @@ export class AISummaryService {
     await supabase.from('content').update(updateData).eq('id', contentId);
   }
 
-  private countWords(text: string): number {
+  countWords(text: string): number {
     return text
       .trim()
       .split(/\s+/)
@@ -1,5 +1,9 @@
 import { createHash } from 'crypto';
 import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  SOCIAL_PLATFORMS,
+  isSocialPlatform,
+} from '@/lib/content-sources/platforms';
 
 export interface ContentForDeduplication {
   title: string;
@@ -109,11 +113,7 @@ function getContentText(content: ContentForDeduplication): string {
   const { title, description, content_body, platform } = content;
 
   // For social media platforms, prefer description/content over generic titles
-  if (
-    platform === 'twitter' ||
-    platform === 'threads' ||
-    platform === 'linkedin'
-  ) {
+  if (isSocialPlatform(platform)) {
     // Use description (actual tweet/post content) if available, fallback to content_body, then title
     return description || content_body || title || '';
   }
@@ -132,11 +132,7 @@ export function generateContentHash(content: ContentForDeduplication): string {
   const contentText = getContentText(content);
 
   // For social media, use fuzzy fingerprinting to catch near-duplicates
-  if (
-    platform === 'twitter' ||
-    platform === 'threads' ||
-    platform === 'linkedin'
-  ) {
+  if (isSocialPlatform(platform)) {
     const fingerprint = createContentFingerprint(contentText);
     const components = [creator_id, fingerprint];
 
@@ -175,6 +171,8 @@ const PLATFORM_PRIORITY: Record<string, number> = {
   twitter: 8,
   linkedin: 7,
   threads: 6,
+  bluesky: 6,
+  mastodon: 6,
   rss: 5,
   website: 4,
 };
@@ -216,6 +214,159 @@ export function selectPrimaryContent(
   return sortedContents[0].id;
 }
 
+/**
+ * Window and threshold for grouping near-identical posts across creators
+ */
+export const CROSS_CREATOR_WINDOW_HOURS = 48;
+export const CROSS_CREATOR_SIMILARITY_THRESHOLD = 0.5;
+
+// Rows per page when loading other creators' posts near the candidates
+const CLUSTER_PAGE_SIZE = 1000;
+
+// Other creators' posts compared per run, closest in time to a candidate
+// first. Only these are loaded with their text.
+const MAX_CLUSTER_NEIGHBOURS = 500;
+
+// IDs per request when loading the neighbours' text
+const CLUSTER_TEXT_BATCH_SIZE = 200;
+
+// Word shingle length used for cross-creator similarity
+const SHINGLE_SIZE = 3;
+
+// Posts shorter than this ("Big news!") would match each other by accident
+const MIN_SHINGLES = 5;
+
+export interface ContentForClustering {
+  id: string;
+  creator_id: string;
+  platform: string;
+  title: string;
+  description?: string | null;
+  content_body?: string | null;
+  published_at: string;
+  duplicate_group_id?: string | null;
+  is_primary?: boolean | null;
+}
+
+/**
+ * Generate a new duplicate group ID
+ */
+function generateDuplicateGroupId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+}
+
+/**
+ * Text compared across creators. Unlike hashing, titles alone are too short
+ * to compare, so articles and videos include their description.
+ */
+function getClusteringText(content: ContentForClustering): string {
+  if (isSocialPlatform(content.platform)) {
+    return content.description || content.content_body || content.title || '';
+  }
+  return [content.title, content.description].filter(Boolean).join(' ');
+}
+
+/**
+ * Build the set of word shingles (overlapping n-word sequences) for a text
+ */
+export function createShingles(
+  text: string,
+  size: number = SHINGLE_SIZE
+): Set<string> {
+  const words = normalizeText(text)
+    .split(' ')
+    .filter((w) => w.length > 0);
+  const shingles = new Set<string>();
+
+  for (let i = 0; i + size <= words.length; i++) {
+    shingles.add(words.slice(i, i + size).join(' '));
+  }
+
+  return shingles;
+}
+
+/**
+ * Jaccard similarity of two shingle sets
+ */
+export function calculateShingleSimilarity(
+  shingles1: Set<string>,
+  shingles2: Set<string>
+): number {
+  if (shingles1.size === 0 || shingles2.size === 0) return 0;
+
+  let intersection = 0;
+  for (const shingle of shingles1) {
+    if (shingles2.has(shingle)) intersection++;
+  }
+
+  return intersection / (shingles1.size + shingles2.size - intersection);
+}
+
+/**
+ * Group new content with near-identical posts by other creators published
+ * within the window. Returns clusters of two or more items; matches are
+ * transitive, so a cross-post can link two otherwise dissimilar posts.
+ */
+export function clusterCrossCreatorContent(
+  candidates: ContentForClustering[],
+  existing: ContentForClustering[],
+  options: { windowHours?: number; threshold?: number } = {}
+): ContentForClustering[][] {
+  const windowMs =
+    (options.windowHours ?? CROSS_CREATOR_WINDOW_HOURS) * 60 * 60 * 1000;
+  const threshold = options.threshold ?? CROSS_CREATOR_SIMILARITY_THRESHOLD;
+
+  const items = new Map<string, ContentForClustering>();
+  [...existing, ...candidates].forEach((item) => items.set(item.id, item));
+
+  const shingles = new Map<string, Set<string>>();
+  items.forEach((item, id) =>
+    shingles.set(id, createShingles(getClusteringText(item)))
+  );
+
+  // Union-find over content IDs
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  for (const candidate of candidates) {
+    const candidateShingles = shingles.get(candidate.id)!;
+    if (candidateShingles.size < MIN_SHINGLES) continue;
+    const publishedAt = new Date(candidate.published_at).getTime();
+
+    items.forEach((other, otherId) => {
+      if (other.creator_id === candidate.creator_id) return;
+      const gap = Math.abs(
+        new Date(other.published_at).getTime() - publishedAt
+      );
+      if (gap > windowMs) return;
+
+      const otherShingles = shingles.get(otherId)!;
+      if (otherShingles.size < MIN_SHINGLES) return;
+
+      if (
+        calculateShingleSimilarity(candidateShingles, otherShingles) >=
+        threshold
+      ) {
+        parent.set(find(otherId), find(candidate.id));
+      }
+    });
+  }
+
+  const clusters = new Map<string, ContentForClustering[]>();
+  items.forEach((item, id) => {
+    const root = find(id);
+    clusters.set(root, [...(clusters.get(root) || []), item]);
+  });
+
+  return Array.from(clusters.values()).filter((cluster) => cluster.length > 1);
+}
+
 /**
  * Content Deduplication Service
  */
@@ -276,7 +427,7 @@ export class ContentDeduplicationService {
     }>;
   }> {
     // Only check for social media platforms and only recent content (last 30 days)
-    if (!['twitter', 'linkedin', 'threads'].includes(platform)) {
+    if (!isSocialPlatform(platform)) {
       return { exists: false };
     }
 
@@ -289,7 +440,7 @@ export class ContentDeduplicationService {
         'id, platform, published_at, is_primary, duplicate_group_id, description'
       )
       .eq('creator_id', creatorId)
-      .in('platform', ['twitter', 'linkedin', 'threads'])
+      .in('platform', SOCIAL_PLATFORMS)
       .gte('published_at', thirtyDaysAgo.toISOString())
       .not('content_hash', 'is', null);
 
@@ -346,10 +497,7 @@ export class ContentDeduplicationService {
     let duplicateInfo = await this.findDuplicatesByHash(contentHash);
 
     // If no hash matches, try similarity-based matching for social media
-    if (
-      !duplicateInfo.exists &&
-      ['twitter', 'linkedin', 'threads'].includes(content.platform)
-    ) {
+    if (!duplicateInfo.exists && isSocialPlatform(content.platform)) {
       duplicateInfo = await this.findSimilarContentByCreator(
         content.creator_id,
         contentText,
@@ -398,13 +546,169 @@ export class ContentDeduplicationService {
     return {
       contentHash,
       duplicateGroupId:
-        duplicateInfo.duplicateGroupId ||
-        `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`,
+        duplicateInfo.duplicateGroupId || generateDuplicateGroupId(),
       isPrimary: isNewContentPrimary,
       shouldStore: true, // We still store duplicates but mark them appropriately
     };
   }
 
+  /**
+   * Group a creator's newly stored content with near-identical posts by other
+   * creators, so a cross-post or shared announcement shows up as one card
+   */
+  async clusterCrossCreatorDuplicates(
+    creatorId: string,
+    since: Date
+  ): Promise<{ groupsUpdated: number }> {
+    const fields =
+      'id, creator_id, platform, title, description, content_body, published_at, duplicate_group_id, is_primary';
+
+    const { data: candidates, error: candidatesError } = await this.supabase
+      .from('content')
+      .select(fields)
+      .eq('creator_id', creatorId)
+      .gte('created_at', since.toISOString());
+
+    if (candidatesError) {
+      throw new Error(
+        `Failed to load content for clustering: ${candidatesError.message}`
+      );
+    }
+
+    if (!candidates || candidates.length === 0) {
+      return { groupsUpdated: 0 };
+    }
+
+    // Only posts within the window of some candidate can cluster with it.
+    // Overlapping windows are merged and each one is listed in full, in
+    // date order, without text; the closest posts are then loaded with it.
+    const windowMs = CROSS_CREATOR_WINDOW_HOURS * 60 * 60 * 1000;
+    const candidateTimes = candidates
+      .map((c) => new Date(c.published_at).getTime())
+      .sort((a, b) => a - b);
+    const windows: Array<{ from: number; to: number }> = [];
+    candidateTimes.forEach((time) => {
+      const last = windows[windows.length - 1];
+      if (last && time - windowMs <= last.to) {
+        last.to = time + windowMs;
+      } else {
+        windows.push({ from: time - windowMs, to: time + windowMs });
+      }
+    });
+
+    const neighbours: Array<{ id: string; gap: number }> = [];
+    for (const window of windows) {
+      for (let offset = 0; ; offset += CLUSTER_PAGE_SIZE) {
+        const { data: page, error: existingError } = await this.supabase
+          .from('content')
+          .select('id, published_at')
+          .neq('creator_id', creatorId)
+          .gte('published_at', new Date(window.from).toISOString())
+          .lte('published_at', new Date(window.to).toISOString())
+          .order('published_at', { ascending: true })
+          .order('id', { ascending: true })
+          .range(offset, offset + CLUSTER_PAGE_SIZE - 1)
+          // Never null inside a published_at range
+          .overrideTypes<
+            Array<{ id: string; published_at: string }>,
+            { merge: false }
+          >();
+
+        if (existingError) {
+          throw new Error(
+            `Failed to load content for clustering: ${existingError.message}`
+          );
+        }
+
+        page?.forEach((row) => {
+          const time = new Date(row.published_at).getTime();
+          neighbours.push({
+            id: row.id,
+            gap: Math.min(...candidateTimes.map((c) => Math.abs(time - c))),
+          });
+        });
+        if (!page || page.length < CLUSTER_PAGE_SIZE) break;
+      }
+    }
+
+    const neighbourIds = neighbours
+      .sort((a, b) => a.gap - b.gap)
+      .slice(0, MAX_CLUSTER_NEIGHBOURS)
+      .map((neighbour) => neighbour.id);
+
+    const existing: ContentForClustering[] = [];
+    for (let i = 0; i < neighbourIds.length; i += CLUSTER_TEXT_BATCH_SIZE) {
+      const { data: batch, error: existingError } = await this.supabase
+        .from('content')
+        .select(fields)
+        .in('id', neighbourIds.slice(i, i + CLUSTER_TEXT_BATCH_SIZE));
+
+      if (existingError) {
+        throw new Error(
+          `Failed to load content for clustering: ${existingError.message}`
+        );
+      }
+      existing.push(...(batch || []));
+    }
+
+    const clusters = clusterCrossCreatorContent(candidates, existing);
+    let groupsUpdated = 0;
+
+    for (const cluster of clusters) {
+      // Merge into any group the members already belong to
+      const groupIds = [
+        ...new Set(
+          cluster
+            .map((item) => item.duplicate_group_id)
+            .filter((id): id is string => !!id)
+        ),
+      ];
+      const duplicateGroupId = groupIds[0] || generateDuplicateGroupId();
+
+      const members = new Map<
+        string,
+        { id: string; platform: string; published_at: string }
+      >(cluster.map((item) => [item.id, item]));
+      if (groupIds.length > 0) {
+        const { data: grouped } = await this.supabase
+          .from('content')
+          .select('id, platform, published_at')
+          .in('duplicate_group_id', groupIds);
+
+        grouped?.forEach((item) => {
+          if (!members.has(item.id)) {
+            members.set(item.id, item);
+          }
+        });
+      }
+
+      const memberIds = Array.from(members.keys());
+      const primaryId = selectPrimaryContent(Array.from(members.values()));
+
+      const { error: groupError } = await this.supabase
+        .from('content')
+        .update({ duplicate_group_id: duplicateGroupId, is_primary: false })
+        .in('id', memberIds);
+
+      if (groupError) {
+        console.error(
+          `[Deduplication] Failed to group content ${memberIds.join(', ')}:`,
+          groupError
+        );
+        continue;
+      }
+
+      await this.supabase
+        .from('content')
+        .update({ is_primary: true })
+        .eq('id', primaryId);
+
+      groupsUpdated++;
+    }
+
+    return { groupsUpdated };
+  }
+
   /**
    * Get duplicate groups for management
    */
@@ -1,601 +1,24 @@
 import {
   CreateContentInput,
-  MediaUrl,
   NormalizeContentInput,
   Platform,
-  calculateWordCount,
-  calculateReadingTime,
-  extractTextFromHTML,
+  getReplyParentId,
 } from '@/types/content';
-import { RSSItem, RSSEnclosure } from '@/types/rss';
+import { getPlatformDefinition } from '@/lib/content-sources/platforms';
 
 export class ContentNormalizer {
   /**
-   * Normalize content from any platform into unified format
+   * Normalize content from any platform into unified format, using the
+   * platform's definition in lib/content-sources/platforms
    */
   normalize(input: NormalizeContentInput): CreateContentInput {
     const { platform, platformData, creator_id, sourceUrl } = input;
 
-    switch (platform) {
-      case 'rss':
-        return this.normalizeRSSContent(
-          creator_id,
-          platformData as RSSItem,
-          sourceUrl
-        );
-      case 'youtube':
-        return this.normalizeYouTubeContent(creator_id, platformData);
-      case 'twitter':
-        return this.normalizeTwitterContent(creator_id, platformData);
-      case 'linkedin':
-        return this.normalizeLinkedInContent(creator_id, platformData);
-      case 'threads':
-        return this.normalizeThreadsContent(creator_id, platformData);
-      case 'website':
-        return this.normalizeWebsiteContent(
-          creator_id,
-          platformData,
-          sourceUrl
-        );
-      default:
-        throw new Error(`Unsupported platform: ${platform}`);
+    const definition = getPlatformDefinition(platform);
+    if (!definition) {
+      throw new Error(`Unsupported platform: ${platform}`);
     }
-  }
-
-  /**
-   * Normalize RSS content
-   */
-  private normalizeRSSContent(
-    creator_id: string,
-    item: RSSItem,
-    feedUrl?: string
-  ): CreateContentInput {
-    // Extract text content - prioritize full content over snippets
-    const contentBody =
-      item.content ||
-      item.description ||
-      item.summary ||
-      item.contentSnippet ||
-      '';
-    const textContent = extractTextFromHTML(contentBody);
-
-    // Extract media URLs
-    const mediaUrls: MediaUrl[] = [];
-
-    // Add enclosure if present (common for podcasts and media)
-    if (item.enclosure) {
-      mediaUrls.push(this.normalizeRSSEnclosure(item.enclosure));
-    }
-
-    // Extract media:thumbnail if present
-    if ((item as any)['media:thumbnail']) {
-      const thumbnail = (item as any)['media:thumbnail'];
-      const thumbUrl = Array.isArray(thumbnail)
-        ? thumbnail[0]?.$?.url || thumbnail[0]?.url
-        : thumbnail.$?.url || thumbnail.url;
-
-      if (thumbUrl && !mediaUrls.some((m) => m.url === thumbUrl)) {
-        mediaUrls.push({
-          url: thumbUrl,
-          type: 'image',
-        });
-      }
-    }
-
-    // Extract media:content if present
-    if ((item as any)['media:content']) {
-      const mediaContent = (item as any)['media:content'];
-      const contents = Array.isArray(mediaContent)
-        ? mediaContent
-        : [mediaContent];
-
-      contents.forEach((content: any) => {
-        const url = content.$?.url || content.url;
-        const type = content.$?.type || content.type;
-        const medium = content.$?.medium || content.medium;
-
-        if (url && (medium === 'image' || type?.startsWith('image/'))) {
-          if (!mediaUrls.some((m) => m.url === url)) {
-            mediaUrls.push({
-              url,
-              type: 'image',
-            });
-          }
-        }
-      });
-    }
-
-    // Extract from media:group if present
-    if ((item as any)['media:group']) {
-      const group = (item as any)['media:group'];
-
-      // Check media:thumbnail in group
-      if (group['media:thumbnail']) {
-        const thumbnails = Array.isArray(group['media:thumbnail'])
-          ? group['media:thumbnail']
-          : [group['media:thumbnail']];
-
-        thumbnails.forEach((thumb: any) => {
-          const url = thumb.$?.url || thumb.url;
-          if (url && !mediaUrls.some((m) => m.url === url)) {
-            mediaUrls.push({
-              url,
-              type: 'image',
-            });
-          }
-        });
-      }
-
-      // Check media:content in group
-      if (group['media:content']) {
-        const contents = Array.isArray(group['media:content'])
-          ? group['media:content']
-          : [group['media:content']];
-
-        contents.forEach((content: any) => {
-          const url = content.$?.url || content.url;
-          const type = content.$?.type || content.type;
-          const medium = content.$?.medium || content.medium;
-
-          if (url && (medium === 'image' || type?.startsWith('image/'))) {
-            if (!mediaUrls.some((m) => m.url === url)) {
-              mediaUrls.push({
-                url,
-                type: 'image',
-              });
-            }
-          }
-        });
-      }
-    }
-
-    // Extract images from content HTML (as fallback)
-    const imageMatches = contentBody.match(/<img[^>]+src="([^">]+)"/g);
-    if (imageMatches) {
-      imageMatches.forEach((imgTag) => {
-        const srcMatch = imgTag.match(/src="([^">]+)"/);
-        if (srcMatch && srcMatch[1]) {
-          // Only add if not already in the list
-          if (!mediaUrls.some((m) => m.url === srcMatch[1])) {
-            mediaUrls.push({
-              url: srcMatch[1],
-              type: 'image',
-            });
-          }
-        }
-      });
-    }
-
-    // Calculate metrics
-    const word_count = calculateWordCount(textContent);
-    const reading_time_minutes = calculateReadingTime(textContent);
-
-    return {
-      creator_id,
-      platform: 'rss',
-      platform_content_id:
-        item.guid || item.link || `${feedUrl}_${item.pubDate}`,
-      url: item.link || feedUrl || '',
-      title: item.title || 'Untitled',
-      description: item.contentSnippet || textContent.substring(0, 300),
-      published_at: item.pubDate
-        ? new Date(item.pubDate).toISOString()
-        : new Date().toISOString(),
-      content_body: contentBody,
-      word_count,
-      reading_time_minutes,
-      media_urls: mediaUrls,
-      engagement_metrics: {}, // RSS doesn't have engagement metrics
-    };
-  }
-
-  /**
-   * Normalize YouTube content (stub for future implementation)
-   */
-  private normalizeYouTubeContent(
-    creator_id: string,
-    data: {
-      id?: string | { videoId?: string };
-      snippet?: {
-        title?: string;
-        description?: string;
-        publishedAt?: string;
-        channelTitle?: string;
-        tags?: string[];
-        thumbnails?: {
-          high?: { url?: string; width?: number; height?: number };
-          default?: { url?: string; width?: number; height?: number };
-        };
-      };
-      statistics?: {
-        viewCount?: string;
-        likeCount?: string;
-        commentCount?: string;
-      };
-      contentDetails?: {
-        duration?: string;
-      };
-    }
-  ): CreateContentInput {
-    // YouTube-specific normalization
-    // This will be implemented when YouTube API integration is added
-    return {
-      creator_id,
-      platform: 'youtube',
-      platform_content_id:
-        typeof data.id === 'string' ? data.id : data.id?.videoId || '',
-      url: data.id
-        ? `https://www.youtube.com/watch?v=${typeof data.id === 'string' ? data.id : data.id.videoId}`
-        : '',
-      title: data.snippet?.title || 'Untitled Video',
-      description: data.snippet?.description || '',
-      thumbnail_url:
-        data.snippet?.thumbnails?.high?.url ||
-        data.snippet?.thumbnails?.default?.url,
-      published_at: data.snippet?.publishedAt || new Date().toISOString(),
-      content_body: data.snippet?.description || '',
-      word_count: calculateWordCount(data.snippet?.description || ''),
-      reading_time_minutes: 0, // Videos don't have reading time
-      media_urls:
-        data.snippet?.thumbnails &&
-        (data.snippet.thumbnails.high?.url ||
-          data.snippet.thumbnails.default?.url)
-          ? [
-              {
-                url:
-                  data.snippet.thumbnails.high?.url ||
-                  data.snippet.thumbnails.default?.url ||
-                  '',
-                type: 'image' as const,
-                width: data.snippet.thumbnails.high?.width,
-                height: data.snippet.thumbnails.high?.height,
-              },
-            ]
-          : [],
-      engagement_metrics: {
-        views: data.statistics?.viewCount
-          ? parseInt(data.statistics.viewCount)
-          : undefined,
-        likes: data.statistics?.likeCount
-          ? parseInt(data.statistics.likeCount)
-          : undefined,
-        comments: data.statistics?.commentCount
-          ? parseInt(data.statistics.commentCount)
-          : undefined,
-      },
-    };
-  }
-
-  /**
-   * Normalize Twitter content (stub for future implementation)
-   */
-  private normalizeTwitterContent(
-    creator_id: string,
-    data: {
-      id?: string;
-      text?: string;
-      author_id?: string;
-      created_at?: string;
-      lang?: string;
-      attachments?: { media_keys?: string[] };
-      entities?: {
-        hashtags?: Array<{ tag?: string }>;
-        media?: Array<{
-          type?: string;
-          media_url?: string;
-          media_url_https?: string;
-          url?: string;
-          display_url?: string;
-          expanded_url?: string;
-        }>;
-      };
-      includes?: {
-        media?: Array<{
-          type?: string;
-          url?: string;
-          preview_image_url?: string;
-          media_key?: string;
-          width?: number;
-          height?: number;
-          variants?: Array<{ url?: string }>;
-        }>;
-      };
-      public_metrics?: {
-        retweet_count?: number;
-        reply_count?: number;
-        like_count?: number;
-        bookmark_count?: number;
-        impression_count?: number;
-      };
-    }
-  ): CreateContentInput {
-    // Twitter-specific normalization
-    // This will be implemented when Twitter API integration is added
-    return {
-      creator_id,
-      platform: 'twitter',
-      platform_content_id: data.id || '',
-      url: data.id ? `https://twitter.com/i/status/${data.id}` : '',
-      title: '', // Tweets don't have titles
-      description: data.text || '',
-      published_at: data.created_at
-        ? new Date(data.created_at).toISOString()
-        : new Date().toISOString(),
-      content_body: data.text || '',
-      word_count: calculateWordCount(data.text || ''),
-      reading_time_minutes: calculateReadingTime(data.text || ''),
-      media_urls: this.extractTwitterMedia(data),
-      engagement_metrics: {
-        likes: data.public_metrics?.like_count,
-        retweets: data.public_metrics?.retweet_count,
-        comments: data.public_metrics?.reply_count,
-        bookmarks: data.public_metrics?.bookmark_count,
-      },
-    };
-  }
-
-  /**
-   * Normalize LinkedIn content (stub for future implementation)
-   */
-  private normalizeLinkedInContent(
-    creator_id: string,
-    data: {
-      id?: string;
-      urn?: string;
-      url?: string;
-      title?: string;
-      text?: string;
-      image?: { url?: string };
-      publishedAt?: string;
-      images?: Array<{ url?: string; type?: string }>;
-      numLikes?: number;
-      numComments?: number;
-      numShares?: number;
-    }
-  ): CreateContentInput {
-    // LinkedIn-specific normalization
-    // This will be implemented when LinkedIn scraping is added
-    return {
-      creator_id,
-      platform: 'linkedin',
-      platform_content_id: data.id || data.urn || '',
-      url: data.url || '',
-      title: data.title || '',
-      description: data.text || '',
-      thumbnail_url: data.image?.url,
-      published_at: data.publishedAt || new Date().toISOString(),
-      content_body: data.text || '',
-      word_count: calculateWordCount(data.text || ''),
-      reading_time_minutes: calculateReadingTime(data.text || ''),
-      media_urls:
-        data.images
-          ?.filter((img: { url?: string; type?: string }) => img.url)
-          .map((img: { url?: string; type?: string }) => ({
-            url: img.url || '',
-            type: 'image' as const,
-          })) || [],
-      engagement_metrics: {
-        likes: data.numLikes,
-        comments: data.numComments,
-        shares: data.numShares,
-      },
-    };
-  }
-
-  /**
-   * Normalize Threads content (stub for future implementation)
-   */
-  private normalizeThreadsContent(
-    creator_id: string,
-    data: {
-      id?: string;
-      url?: string;
-      text?: string;
-      publishedAt?: string;
-      timestamp?: string;
-      media?: Array<{ url?: string; type?: string }>;
-      likeCount?: number;
-      replyCount?: number;
-      shareCount?: number;
-    }
-  ): CreateContentInput {
-    // Threads-specific normalization
-    // This will be implemented when Threads scraping is added
-    return {
-      creator_id,
-      platform: 'threads',
-      platform_content_id: data.id || '',
-      url: data.url || '',
-      title: '', // Threads posts don't have titles
-      description: data.text || '',
-      thumbnail_url: data.media?.[0]?.url,
-      published_at: data.timestamp || new Date().toISOString(),
-      content_body: data.text || '',
-      word_count: calculateWordCount(data.text || ''),
-      reading_time_minutes: calculateReadingTime(data.text || ''),
-      media_urls:
-        data.media
-          ?.filter((media: { url?: string; type?: string }) => media.url)
-          .map((media: { url?: string; type?: string }) => ({
-            url: media.url || '',
-            type: (media.type === 'video' ||
-            media.type === 'audio' ||
-            media.type === 'document'
-              ? media.type
-              : 'image') as 'image' | 'video' | 'audio' | 'document',
-          })) || [],
-      engagement_metrics: {
-        likes: data.likeCount,
-        comments: data.replyCount,
-        shares: data.shareCount,
-      },
-    };
-  }
-
-  /**
-   * Normalize generic website content (stub for future implementation)
-   */
-  private normalizeWebsiteContent(
-    creator_id: string,
-    data: {
-      title?: string;
-      url?: string;
-      description?: string;
-      published_at?: string;
-      [key: string]: unknown;
-    },
-    sourceUrl?: string
-  ): CreateContentInput {
-    // Generic website content normalization
-    // This will be implemented when web scraping is added
-    return {
-      creator_id,
-      platform: 'website',
-      platform_content_id: data.url || sourceUrl || '',
-      url: data.url || sourceUrl || '',
-      title: data.title || 'Untitled',
-      description: (data.description || data.excerpt || '') as string,
-      thumbnail_url: (data.image || data.thumbnail) as string | undefined,
-      published_at:
-        (data.publishDate as string) ||
-        (data.datePublished as string) ||
-        new Date().toISOString(),
-      content_body: (data.content || data.body || '') as string,
-      word_count: calculateWordCount(
-        (data.content || data.body || '') as string
-      ),
-      reading_time_minutes: calculateReadingTime(
-        (data.content || data.body || '') as string
-      ),
-      media_urls:
-        (data.images as Array<{ url?: string; type?: string } | string>)
-          ?.filter((img: { url?: string; type?: string } | string) =>
-            typeof img === 'string' ? img : img.url
-          )
-          .map((img: { url?: string; type?: string } | string) => ({
-            url: (typeof img === 'string' ? img : img.url) || '',
-            type: 'image' as const,
-          })) || [],
-      engagement_metrics: {},
-    };
-  }
-
-  /**
-   * Normalize RSS enclosure to MediaUrl
-   */
-  private normalizeRSSEnclosure(enclosure: RSSEnclosure): MediaUrl {
-    // Determine media type from MIME type
-    let type: MediaUrl['type'] = 'document';
-    const mimeType = enclosure.type.toLowerCase();
-
-    if (mimeType.startsWith('image/')) {
-      type = 'image';
-    } else if (mimeType.startsWith('video/')) {
-      type = 'video';
-    } else if (mimeType.startsWith('audio/')) {
-      type = 'audio';
-    }
-
-    return {
-      url: enclosure.url,
-      type,
-      size: enclosure.length,
-    };
-  }
-
-  /**
-   * Extract media from Twitter data
-   */
-  private extractTwitterMedia(data: {
-    attachments?: { media_keys?: string[] };
-    entities?: {
-      media?: Array<{
-        type?: string;
-        media_url?: string;
-        media_url_https?: string;
-        url?: string;
-        display_url?: string;
-        expanded_url?: string;
-      }>;
-    };
-    includes?: {
-      media?: Array<{
-        type?: string;
-        url?: string;
-        preview_image_url?: string;
-        media_key?: string;
-        width?: number;
-        height?: number;
-        duration_ms?: number;
-        variants?: Array<{ url?: string }>;
-      }>;
-    };
-  }): MediaUrl[] {
-    const mediaUrls: MediaUrl[] = [];
-
-    // Handle attached media
-    if (data.attachments?.media_keys && data.includes?.media) {
-      data.includes.media.forEach(
-        (media: {
-          type?: string;
-          url?: string;
-          preview_image_url?: string;
-          media_key?: string;
-          width?: number;
-          height?: number;
-          duration_ms?: number;
-          variants?: Array<{ url?: string }>;
-        }) => {
-          if (
-            media.media_key &&
-            data.attachments?.media_keys?.includes(media.media_key)
-          ) {
-            if (media.type === 'photo') {
-              mediaUrls.push({
-                url: media.url || media.preview_image_url || '',
-                type: 'image',
-                width: media.width,
-                height: media.height,
-              });
-            } else if (
-              media.type === 'video' ||
-              media.type === 'animated_gif'
-            ) {
-              mediaUrls.push({
-                url: media.preview_image_url || '', // Videos use preview image
-                type: 'video',
-                duration: media.duration_ms
-                  ? media.duration_ms / 1000
-                  : undefined,
-                width: media.width,
-                height: media.height,
-              });
-            }
-          }
-        }
-      );
-    }
-
-    // Handle legacy media format
-    if (data.entities?.media) {
-      data.entities.media.forEach(
-        (media: {
-          type?: string;
-          media_url?: string;
-          media_url_https?: string;
-          url?: string;
-          display_url?: string;
-          expanded_url?: string;
-        }) => {
-          mediaUrls.push({
-            url: media.media_url_https || media.media_url || '',
-            type: media.type === 'photo' ? 'image' : 'video',
-          });
-        }
-      );
-    }
-
-    return mediaUrls;
+    return definition.normalize(creator_id, platformData, sourceUrl);
   }
 
   /**
@@ -616,4 +39,53 @@ export class ContentNormalizer {
       })
     );
   }
+
+  /**
+   * Link self-reply chains into threads. A reply to another item in the
+   * batch by the same creator continues that item's thread: every post
+   * gets the opener's platform ID as `thread_id`, and `thread_position`
+   * counts replies from the opener at 0. Items outside a chain are
+   * returned unchanged; replies to posts from an earlier fetch are linked
+   * when stored (see ContentThreadService.attachToStoredThreads).
+   */
+  linkThreads(items: CreateContentInput[]): CreateContentInput[] {
+    const byId = new Map(items.map((item) => [item.platform_content_id, item]));
+    type ThreadLink = Pick<
+      Required<CreateContentInput>,
+      'thread_id' | 'thread_position'
+    >;
+    const links = new Map<CreateContentInput, ThreadLink>();
+
+    const getParent = (item: CreateContentInput) => {
+      const parent = byId.get(getReplyParentId(item) || '');
+      return parent && parent !== item && parent.creator_id === item.creator_id
+        ? parent
+        : undefined;
+    };
+
+    const link = (item: CreateContentInput, depth = 0): ThreadLink => {
+      let threadLink = links.get(item);
+      if (!threadLink) {
+        // The depth check stops at malformed reply cycles
+        const parent = depth < items.length ? getParent(item) : undefined;
+        const parentLink = parent && link(parent, depth + 1);
+        threadLink = parentLink
+          ? {
+              thread_id: parentLink.thread_id,
+              thread_position: parentLink.thread_position + 1,
+            }
+          : { thread_id: item.platform_content_id, thread_position: 0 };
+        links.set(item, threadLink);
+      }
+      return threadLink;
+    };
+
+    // Linking a reply links its whole chain, opener included
+    items.filter((item) => getParent(item)).forEach((item) => link(item));
+
+    return items.map((item) => {
+      const threadLink = links.get(item);
+      return threadLink ? { ...item, ...threadLink } : item;
+    });
+  }
 }
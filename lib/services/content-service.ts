@@ -17,12 +17,16 @@ import {
   ContentDeduplicationService,
   generateContentHash,
 } from './content-deduplication';
+import { ContentThreadService } from './content-thread-service';
+import { getPlatformDefinition } from '@/lib/content-sources/platforms';
 
 export class ContentService {
   private deduplicationService: ContentDeduplicationService;
+  private threadService: ContentThreadService;
 
   constructor(private supabase: SupabaseClient) {
     this.deduplicationService = new ContentDeduplicationService(supabase);
+    this.threadService = new ContentThreadService(supabase);
   }
 
   /**
@@ -95,15 +99,10 @@ export class ContentService {
         is_primary: deduplicationResult.isPrimary,
         // IMPORTANT: Content with processing_status = 'pending' will NOT appear in the dashboard
         // Only content with processing_status = 'processed' is shown to users
-        // Add new platforms here when implementing their fetchers
-        processing_status:
-          validatedInput.platform === 'rss' ||
-          validatedInput.platform === 'youtube' ||
-          validatedInput.platform === 'twitter' ||
-          validatedInput.platform === 'threads' ||
-          validatedInput.platform === 'linkedin'
-            ? 'processed'
-            : 'pending',
+        processing_status: getPlatformDefinition(validatedInput.platform)
+          ?.pending
+          ? 'pending'
+          : 'processed',
       })
       .select()
       .single();
@@ -133,8 +132,11 @@ export class ContentService {
       errors: [],
     };
 
+    // Replies may continue threads stored by an earlier fetch
+    const linkedInputs = await this.threadService.attachToStoredThreads(inputs);
+
     // Process each content item
-    for (const input of inputs) {
+    for (const input of linkedInputs) {
       try {
         // Check if content exists
         const exists = await this.checkDuplicate(
@@ -156,6 +158,13 @@ export class ContentService {
               content_body: input.content_body,
               media_urls: input.media_urls,
               engagement_metrics: input.engagement_metrics,
+              // Only present when freshly fetched, so stored ones are kept
+              transcript: input.transcript,
+              transcript_segments: input.transcript_segments,
+              transcript_source: input.transcript_source,
+              chapters: input.chapters,
+              thread_id: input.thread_id,
+              thread_position: input.thread_position,
             }
           );
           result.updated++;
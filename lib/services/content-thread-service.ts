@@ -0,0 +1,166 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import {
+  Content,
+  CreateContentInput,
+  ThreadPost,
+  getReplyParentId,
+} from '@/types/content';
+
+const THREAD_POST_COLUMNS =
+  'id, creator_id, platform_content_id, url, title, content_body, media_urls, published_at, reference_type, referenced_content, thread_id, thread_position';
+
+// A content row that may belong to a thread
+export type ThreadMember = Pick<Content, 'id' | 'creator_id' | 'thread_id'>;
+
+function threadKey(creatorId: string, threadId: string): string {
+  return `${creatorId}:${threadId}`;
+}
+
+/**
+ * Content Thread Service
+ *
+ * Reads and extends self-reply threads. Threads are linked within a fetch
+ * by ContentNormalizer.linkThreads; this service joins them to posts
+ * stored by earlier fetches and loads whole threads for the feed,
+ * summaries and relevancy scoring.
+ */
+export class ContentThreadService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Continue threads that started in an earlier fetch. A reply to a stored
+   * post by the same creator joins that post's thread, bringing along the
+   * replies chained to it in this batch. A stored post that wasn't in a
+   * thread yet becomes its opener.
+   */
+  async attachToStoredThreads(
+    inputs: CreateContentInput[]
+  ): Promise<CreateContentInput[]> {
+    const batchIds = new Set(inputs.map((input) => input.platform_content_id));
+    const linked = inputs.map((input) => ({ ...input }));
+    const replies = linked.filter((input) => {
+      const parentId = getReplyParentId(input);
+      return parentId && !batchIds.has(parentId);
+    });
+    if (replies.length === 0) return inputs;
+
+    const { data: parents, error } = await this.supabase
+      .from('content')
+      .select('id, creator_id, platform_content_id, thread_id, thread_position')
+      .in('creator_id', Array.from(new Set(replies.map((r) => r.creator_id))))
+      .in(
+        'platform_content_id',
+        Array.from(new Set(replies.map((r) => getReplyParentId(r)!)))
+      );
+
+    // Unlinked posts still store fine, so a failed lookup isn't fatal
+    if (error) {
+      console.error('Error fetching thread parents:', error);
+      return inputs;
+    }
+
+    for (const reply of replies) {
+      const parent = parents?.find(
+        (row) =>
+          row.creator_id === reply.creator_id &&
+          row.platform_content_id === getReplyParentId(reply)
+      );
+      if (!parent) continue;
+
+      const threadId = parent.thread_id || parent.platform_content_id;
+      const offset = (parent.thread_position ?? 0) + 1;
+
+      // The reply opens a thread of its own if it has replies in the batch
+      const batchThreadId = reply.thread_id;
+      for (const input of linked) {
+        if (
+          input === reply ||
+          (batchThreadId &&
+            input.creator_id === reply.creator_id &&
+            input.thread_id === batchThreadId)
+        ) {
+          input.thread_id = threadId;
+          input.thread_position = (input.thread_position ?? 0) + offset;
+        }
+      }
+
+      if (!parent.thread_id) {
+        const { error: openerError } = await this.supabase
+          .from('content')
+          .update({ thread_id: threadId, thread_position: 0 })
+          .eq('id', parent.id);
+
+        if (openerError) {
+          console.error(
+            `Error opening thread at content ${parent.id}:`,
+            openerError
+          );
+        }
+        parent.thread_id = threadId;
+        parent.thread_position = 0;
+      }
+    }
+
+    return linked;
+  }
+
+  /**
+   * Every post in each member's thread, opener first, keyed by member ID.
+   * Members that aren't in a thread are left out.
+   */
+  async getThreads(
+    members: ThreadMember[]
+  ): Promise<Map<string, ThreadPost[]>> {
+    const threaded = members.filter((member) => member.thread_id);
+    const threads = new Map<string, ThreadPost[]>();
+    if (threaded.length === 0) return threads;
+
+    const { data, error } = await this.supabase
+      .from('content')
+      .select(THREAD_POST_COLUMNS)
+      .in('creator_id', Array.from(new Set(threaded.map((m) => m.creator_id))))
+      .in('thread_id', Array.from(new Set(threaded.map((m) => m.thread_id!))))
+      .order('thread_position', { ascending: true })
+      .order('published_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching thread posts:', error);
+      return threads;
+    }
+
+    const postsByThread = new Map<string, ThreadPost[]>();
+    for (const post of (data || []) as ThreadPost[]) {
+      const key = threadKey(post.creator_id, post.thread_id);
+      postsByThread.set(key, [...(postsByThread.get(key) || []), post]);
+    }
+
+    for (const member of threaded) {
+      const posts = postsByThread.get(
+        threadKey(member.creator_id, member.thread_id!)
+      );
+      if (posts) threads.set(member.id, posts);
+    }
+    return threads;
+  }
+
+  /**
+   * Like getThreads, for content known only by ID
+   */
+  async getThreadsForContent(
+    contentIds: string[]
+  ): Promise<Map<string, ThreadPost[]>> {
+    if (contentIds.length === 0) return new Map();
+
+    const { data, error } = await this.supabase
+      .from('content')
+      .select('id, creator_id, thread_id')
+      .in('id', contentIds)
+      .not('thread_id', 'is', null);
+
+    if (error) {
+      console.error('Error fetching content threads:', error);
+      return new Map();
+    }
+    return this.getThreads((data || []) as ThreadMember[]);
+  }
+}
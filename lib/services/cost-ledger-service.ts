@@ -0,0 +1,386 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Json } from '@/types/database.types';
+import type { LLMTask, LLMUsageEvent } from '@/types/llm';
+import {
+  COST_SUBSYSTEMS,
+  CostLedgerError,
+  type CostBudget,
+  type CostBudgetStatus,
+  type CostDailyTotal,
+  type CostEntry,
+  type CostReport,
+  type CostSubsystem,
+  type CostTrendPoint,
+  type CostVendorBreakdown,
+  type UpdateCostBudgetInput,
+} from '@/types/cost';
+
+/**
+ * List prices for vendors that don't report what a call cost. LLM pricing
+ * lives with the gateway in lib/llm/config.ts.
+ */
+export const VENDOR_PRICING = {
+  // Per dataset item, for runs that don't report usageTotalUsd
+  apify: {
+    'apidojo/tweet-scraper': 0.0004,
+    'curious_coder/threads-scraper': 0.001,
+    'apimaestro/linkedin-profile-posts': 0.005,
+  } as Record<string, number>,
+  // Per LinkedIn post record, for snapshots that don't report a cost
+  brightdata: 0.0015,
+  // Per image from gemini-2.5-flash-image-preview
+  geminiImage: 0.039,
+  // Flat-rate plans: calls are tracked for volume at no marginal cost
+  finnhub: 0,
+  newsdata: 0,
+};
+
+// Which subsystem pays for each gateway task
+export const LLM_TASK_SUBSYSTEMS: Record<LLMTask, CostSubsystem> = {
+  summary: 'summaries',
+  relevancy: 'relevancy',
+  relevancy_analysis: 'relevancy',
+  news_summary: 'ai_news',
+  news_curation: 'ai_news',
+  rss_curation: 'ai_news',
+  news_search: 'ai_news',
+  funding_search: 'ai_news',
+  stock_movers: 'ai_news',
+  social_post_selection: 'digests',
+  prompt_generation: 'images',
+  digest: 'digests',
+};
+
+function utcDay(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+function startOfUtcMonth(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function emptyBySubsystem(): Record<CostSubsystem, number> {
+  return Object.fromEntries(
+    COST_SUBSYSTEMS.map((subsystem) => [subsystem, 0])
+  ) as Record<CostSubsystem, number>;
+}
+
+/**
+ * Spend against a subsystem's limits. `totals` must cover the current
+ * month; rows for other subsystems are ignored.
+ */
+export function summarizeBudget(
+  subsystem: CostSubsystem,
+  budget: Pick<CostBudget, 'daily_limit_usd' | 'monthly_limit_usd'> | null,
+  totals: CostDailyTotal[],
+  now: Date = new Date()
+): CostBudgetStatus {
+  const today = utcDay(now);
+  const monthStart = utcDay(startOfUtcMonth(now));
+
+  let dailySpend = 0;
+  let monthlySpend = 0;
+  for (const row of totals) {
+    if (row.subsystem !== subsystem || row.day < monthStart) continue;
+    monthlySpend += Number(row.cost_usd);
+    if (row.day === today) dailySpend += Number(row.cost_usd);
+  }
+
+  const dailyLimit = budget?.daily_limit_usd ?? null;
+  const monthlyLimit = budget?.monthly_limit_usd ?? null;
+
+  return {
+    subsystem,
+    dailySpend,
+    monthlySpend,
+    dailyLimit,
+    monthlyLimit,
+    exceeded:
+      dailyLimit !== null && dailySpend >= dailyLimit
+        ? 'daily'
+        : monthlyLimit !== null && monthlySpend >= monthlyLimit
+          ? 'monthly'
+          : null,
+  };
+}
+
+/**
+ * Cost Ledger Service
+ *
+ * Records every paid external call in `cost_ledger` and checks spend
+ * against the per-subsystem limits in `cost_budgets`. Expects a
+ * service-role client.
+ */
+export class CostLedgerService {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  async record(entry: CostEntry): Promise<void> {
+    const { error } = await this.supabase.from('cost_ledger').insert({
+      subsystem: entry.subsystem,
+      provider: entry.provider,
+      model_or_actor: entry.modelOrActor ?? null,
+      task: entry.task ?? null,
+      unit_type: entry.unitType,
+      units: entry.units,
+      input_tokens: entry.inputTokens ?? null,
+      output_tokens: entry.outputTokens ?? null,
+      cost_usd: entry.costUsd,
+      lounge_id: entry.attribution?.loungeId ?? null,
+      creator_id: entry.attribution?.creatorId ?? null,
+      metadata: {
+        ...entry.metadata,
+        ...(entry.attribution?.contentId && {
+          content_id: entry.attribution.contentId,
+        }),
+      } as Json,
+    });
+
+    if (error) {
+      throw new CostLedgerError(
+        `Failed to record cost: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  async listBudgets(): Promise<CostBudget[]> {
+    const { data, error } = await this.supabase
+      .from('cost_budgets')
+      .select('*');
+
+    if (error) {
+      throw new CostLedgerError(
+        `Failed to fetch cost budgets: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return (data || []) as CostBudget[];
+  }
+
+  async updateBudget(
+    input: UpdateCostBudgetInput,
+    userId: string
+  ): Promise<CostBudget> {
+    const { data, error } = await this.supabase
+      .from('cost_budgets')
+      .upsert({
+        ...input,
+        updated_by: userId,
+        updated_at: new Date().toISOString(),
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new CostLedgerError(
+        `Failed to update cost budget: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as CostBudget;
+  }
+
+  async getBudgetStatus(subsystem: CostSubsystem): Promise<CostBudgetStatus> {
+    const now = new Date();
+    const [budget, totals] = await Promise.all([
+      this.supabase
+        .from('cost_budgets')
+        .select('daily_limit_usd, monthly_limit_usd')
+        .eq('subsystem', subsystem)
+        .maybeSingle(),
+      this.getDailyTotals(startOfUtcMonth(now), subsystem),
+    ]);
+
+    if (budget.error) {
+      throw new CostLedgerError(
+        `Failed to fetch cost budget: ${budget.error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return summarizeBudget(subsystem, budget.data, totals, now);
+  }
+
+  /**
+   * Daily spend per subsystem over the last `days` days, budget status for
+   * every subsystem and the most expensive vendors in the window
+   */
+  async getReport(days: number): Promise<CostReport> {
+    const now = new Date();
+    const windowStart = new Date(
+      Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())
+    );
+    windowStart.setUTCDate(windowStart.getUTCDate() - (days - 1));
+    const monthStart = startOfUtcMonth(now);
+
+    // Monthly budgets need the whole month even when the window is shorter
+    const [budgets, totals] = await Promise.all([
+      this.listBudgets(),
+      this.getDailyTotals(windowStart < monthStart ? windowStart : monthStart),
+    ]);
+
+    const firstDay = utcDay(windowStart);
+    const windowTotals = totals.filter((row) => row.day >= firstDay);
+
+    const trend: CostTrendPoint[] = [];
+    for (let i = 0; i < days; i++) {
+      const day = new Date(windowStart);
+      day.setUTCDate(windowStart.getUTCDate() + i);
+      trend.push({
+        day: utcDay(day),
+        total: 0,
+        bySubsystem: emptyBySubsystem(),
+      });
+    }
+    const trendByDay = new Map(trend.map((point) => [point.day, point]));
+
+    const vendors = new Map<string, CostVendorBreakdown>();
+    for (const row of windowTotals) {
+      const cost = Number(row.cost_usd);
+      const point = trendByDay.get(row.day);
+      if (point) {
+        point.total += cost;
+        point.bySubsystem[row.subsystem] += cost;
+      }
+
+      const key = `${row.provider}:${row.model_or_actor || ''}`;
+      const vendor = vendors.get(key) || {
+        provider: row.provider,
+        model_or_actor: row.model_or_actor,
+        calls: 0,
+        units: 0,
+        cost: 0,
+      };
+      vendor.calls += Number(row.calls);
+      vendor.units += Number(row.units);
+      vendor.cost += cost;
+      vendors.set(key, vendor);
+    }
+
+    const budgetsBySubsystem = new Map(
+      budgets.map((budget) => [budget.subsystem, budget])
+    );
+
+    return {
+      days,
+      totalCost: trend.reduce((sum, point) => sum + point.total, 0),
+      trend,
+      budgets: COST_SUBSYSTEMS.map((subsystem) =>
+        summarizeBudget(
+          subsystem,
+          budgetsBySubsystem.get(subsystem) || null,
+          totals,
+          now
+        )
+      ),
+      vendors: Array.from(vendors.values()).sort((a, b) => b.cost - a.cost),
+    };
+  }
+
+  private async getDailyTotals(
+    since: Date,
+    subsystem?: CostSubsystem
+  ): Promise<CostDailyTotal[]> {
+    const { data, error } = await this.supabase.rpc(
+      'cost_ledger_daily_totals',
+      {
+        p_since: since.toISOString(),
+        ...(subsystem && { p_subsystem: subsystem }),
+      }
+    );
+
+    if (error) {
+      throw new CostLedgerError(
+        `Failed to fetch spend: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return (data || []) as CostDailyTotal[];
+  }
+}
+
+// Shared by workers, crons and the LLM gateway; null without a service key
+let costLedger: CostLedgerService | null | undefined;
+
+export async function getCostLedger(): Promise<CostLedgerService | null> {
+  if (costLedger === undefined) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+    const key =
+      process.env.SUPABASE_SERVICE_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY;
+    if (!url || !key) {
+      costLedger = null;
+    } else {
+      // Loaded on first use: the LLM gateway imports this module, and
+      // supabase-js's ESM build breaks test suites that never record a cost
+      const { createClient } = await import('@supabase/supabase-js');
+      costLedger = new CostLedgerService(
+        createClient<Database>(url, key, {
+          auth: { persistSession: false, autoRefreshToken: false },
+        })
+      );
+    }
+  }
+  return costLedger;
+}
+
+/**
+ * Record a paid call. Never throws: the call has already been paid for, so
+ * a ledger outage is logged rather than failing the work it paid for.
+ */
+export async function recordCost(entry: CostEntry): Promise<void> {
+  const ledger = await getCostLedger();
+  if (!ledger) return;
+
+  try {
+    await ledger.record(entry);
+  } catch (error) {
+    console.error('[Cost Ledger] Failed to record cost:', error);
+  }
+}
+
+// Usage listener for the LLM gateway
+export function recordLLMUsage(event: LLMUsageEvent): Promise<void> {
+  return recordCost({
+    subsystem: LLM_TASK_SUBSYSTEMS[event.task],
+    provider: event.provider,
+    modelOrActor: event.model,
+    task: event.task,
+    unitType: 'tokens',
+    units: event.usage.inputTokens + event.usage.outputTokens,
+    inputTokens: event.usage.inputTokens,
+    outputTokens: event.usage.outputTokens,
+    costUsd: event.cost,
+    attribution: event.attribution,
+    metadata: {
+      duration_ms: event.durationMs,
+      ...(event.batch && { batch: true }),
+    },
+  });
+}
+
+/**
+ * Whether non-critical jobs in a subsystem should pause. Fails open: a
+ * ledger that can't be read doesn't stop the product.
+ */
+export async function isOverBudget(subsystem: CostSubsystem): Promise<boolean> {
+  const ledger = await getCostLedger();
+  if (!ledger) return false;
+
+  try {
+    const status = await ledger.getBudgetStatus(subsystem);
+    if (status.exceeded) {
+      console.warn(
+        `[Cost Ledger] ${subsystem} is over its ${status.exceeded} budget ` +
+          `($${(status.exceeded === 'daily' ? status.dailySpend : status.monthlySpend).toFixed(2)})`
+      );
+    }
+    return status.exceeded !== null;
+  } catch (error) {
+    console.error('[Cost Ledger] Failed to check budget:', error);
+    return false;
+  }
+}
@@ -0,0 +1,446 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Json, Tables } from '@/types/database.types';
+import {
+  DigestError,
+  type DigestAnalyticsReport,
+  type DigestEngagementStats,
+  type DigestEventType,
+  type DigestLinkSection,
+} from '@/types/digest';
+import { DIGEST_PLACEHOLDERS } from './digest-edition-service';
+
+export const DIGEST_LINK_SECTIONS: readonly DigestLinkSection[] = [
+  'big_story',
+  'news',
+  'special',
+  'social',
+  'advertiser',
+  'most_discussed',
+  'theme',
+];
+
+/**
+ * A link in a rendered edition, as carried by its tracking redirect
+ */
+export interface TrackedLink {
+  editionId: string;
+  section: DigestLinkSection;
+  // Story, post or advertiser the link belongs to
+  target?: string;
+  url: string;
+}
+
+export interface TrackedDeliveryRow {
+  id: string;
+  lounge_id: string;
+  sent_at: string;
+  lounges: { name: string } | null;
+}
+
+// A delivery with its recipient's consent, `users!inner` so always present
+type ConsentedDeliveryRow = Pick<
+  Tables<'digest_deliveries'>,
+  'id' | 'edition_id' | 'lounge_id' | 'user_id' | 'tracked'
+> & { users: { consent_details: Json | null } };
+
+export interface DigestEventRow {
+  delivery_id: string;
+  event_type: DigestEventType;
+  section: string | null;
+  target: string | null;
+}
+
+// 1x1 transparent GIF served by the open pixel
+export const OPEN_PIXEL_GIF = Buffer.from(
+  'R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7',
+  'base64'
+);
+
+const PAGE_SIZE = 1000;
+
+/**
+ * Tracking needs a signing secret and a public URL for the redirects;
+ * without them editions render with plain links
+ */
+export function isDigestTrackingEnabled(): boolean {
+  return (
+    !!process.env.DIGEST_TRACKING_SECRET && !!process.env.NEXT_PUBLIC_APP_URL
+  );
+}
+
+// The open pixel is opt-in on top of click tracking
+export function isOpenTrackingEnabled(): boolean {
+  return isDigestTrackingEnabled() && process.env.DIGEST_TRACK_OPENS === 'true';
+}
+
+function getTrackingSecret(): string {
+  const secret = process.env.DIGEST_TRACKING_SECRET;
+  if (!secret) {
+    throw new Error('DIGEST_TRACKING_SECRET is not configured');
+  }
+  return secret;
+}
+
+function sign(value: string): string {
+  return createHmac('sha256', getTrackingSecret())
+    .update(value)
+    .digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+function linkPayload(link: TrackedLink): string {
+  return [link.editionId, link.section, link.target || '', link.url].join('\n');
+}
+
+/**
+ * Whether a user's stored consent covers analytics. Consent is opt-in: no
+ * recorded choice means no tracking.
+ */
+export function hasAnalyticsConsent(consentDetails: Json | null): boolean {
+  if (
+    !consentDetails ||
+    typeof consentDetails !== 'object' ||
+    Array.isArray(consentDetails)
+  ) {
+    return false;
+  }
+  return consentDetails.analytics_consent === true;
+}
+
+/**
+ * Per-recipient token filled into an edition's tracking URLs. Carries the
+ * delivery ID so events can be tied to a send without exposing the user.
+ */
+export function createRecipientToken(deliveryId: string): string {
+  return `${deliveryId}.${sign(`recipient:${deliveryId}`)}`;
+}
+
+/**
+ * Delivery ID from a recipient token, or null if it wasn't issued by us
+ */
+export function verifyRecipientToken(token: string | null): string | null {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const deliveryId = token.slice(0, separator);
+  return safeEqual(token.slice(separator + 1), sign(`recipient:${deliveryId}`))
+    ? deliveryId
+    : null;
+}
+
+/**
+ * Redirect URL for a link in an edition. The signature covers the edition,
+ * section, target and destination, so the endpoint can't be used as an open
+ * redirect; the recipient token is left as a placeholder.
+ */
+export function createTrackedLink(link: TrackedLink): string {
+  const params = new URLSearchParams({
+    e: link.editionId,
+    s: link.section,
+    u: link.url,
+  });
+  if (link.target) params.set('t', link.target);
+  params.set('sig', sign(linkPayload(link)));
+
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/digest/click?${params}&r=${DIGEST_PLACEHOLDERS.TRACKING_TOKEN}`;
+}
+
+/**
+ * The link a redirect was issued for, or null if it was tampered with
+ */
+export function parseTrackedLink(params: URLSearchParams): TrackedLink | null {
+  const editionId = params.get('e');
+  const section = params.get('s') as DigestLinkSection | null;
+  const url = params.get('u');
+  const signature = params.get('sig');
+
+  if (!editionId || !section || !url || !signature) return null;
+  if (!DIGEST_LINK_SECTIONS.includes(section)) return null;
+  if (!/^https?:\/\//i.test(url)) return null;
+
+  const link: TrackedLink = {
+    editionId,
+    section,
+    target: params.get('t') || undefined,
+    url,
+  };
+  return safeEqual(signature, sign(linkPayload(link))) ? link : null;
+}
+
+export function createOpenPixelUrl(): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/digest/open?r=${DIGEST_PLACEHOLDERS.TRACKING_TOKEN}`;
+}
+
+function toStats(
+  tracked: number,
+  opened: number,
+  clicked: number,
+  clicks: number
+): DigestEngagementStats {
+  return {
+    tracked,
+    opens: opened,
+    clicks,
+    openRate: tracked > 0 ? opened / tracked : 0,
+    clickRate: tracked > 0 ? clicked / tracked : 0,
+  };
+}
+
+/**
+ * Roll tracked deliveries and their events up into the admin report. A
+ * click counts as an open too, since many clients block the pixel.
+ */
+export function summarizeDigestEvents(
+  since: string,
+  deliveries: TrackedDeliveryRow[],
+  events: DigestEventRow[]
+): DigestAnalyticsReport {
+  const deliveryById = new Map(deliveries.map((d) => [d.id, d]));
+  const opened = new Set<string>();
+  const clicked = new Set<string>();
+  const clicksByDelivery = new Map<string, number>();
+  const sections = new Map<
+    string,
+    { clicks: number; deliveries: Set<string> }
+  >();
+  const advertisers = new Map<
+    string,
+    { clicks: number; deliveries: Set<string> }
+  >();
+
+  const countInto = (
+    groups: Map<string, { clicks: number; deliveries: Set<string> }>,
+    key: string,
+    deliveryId: string
+  ) => {
+    const group = groups.get(key) || { clicks: 0, deliveries: new Set() };
+    group.clicks += 1;
+    group.deliveries.add(deliveryId);
+    groups.set(key, group);
+  };
+
+  for (const event of events) {
+    if (!deliveryById.has(event.delivery_id)) continue;
+
+    opened.add(event.delivery_id);
+    if (event.event_type !== 'click') continue;
+
+    clicked.add(event.delivery_id);
+    clicksByDelivery.set(
+      event.delivery_id,
+      (clicksByDelivery.get(event.delivery_id) || 0) + 1
+    );
+    if (event.section) countInto(sections, event.section, event.delivery_id);
+    if (event.section === 'advertiser' && event.target) {
+      countInto(advertisers, event.target, event.delivery_id);
+    }
+  }
+
+  const statsFor = (group: TrackedDeliveryRow[]) =>
+    toStats(
+      group.length,
+      group.filter((d) => opened.has(d.id)).length,
+      group.filter((d) => clicked.has(d.id)).length,
+      group.reduce((sum, d) => sum + (clicksByDelivery.get(d.id) || 0), 0)
+    );
+
+  const groupBy = (key: (d: TrackedDeliveryRow) => string) => {
+    const groups = new Map<string, TrackedDeliveryRow[]>();
+    for (const delivery of deliveries) {
+      const group = groups.get(key(delivery)) || [];
+      group.push(delivery);
+      groups.set(key(delivery), group);
+    }
+    return groups;
+  };
+
+  const total = deliveries.length;
+
+  return {
+    since,
+    totals: statsFor(deliveries),
+    lounges: [...groupBy((d) => d.lounge_id)]
+      .map(([loungeId, group]) => ({
+        loungeId,
+        name: group[0].lounges?.name || 'Unknown lounge',
+        ...statsFor(group),
+      }))
+      .sort((a, b) => b.tracked - a.tracked),
+    days: [...groupBy((d) => d.sent_at.slice(0, 10))]
+      .map(([date, group]) => ({ date, ...statsFor(group) }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    sections: [...sections]
+      .map(([section, group]) => ({
+        section: section as DigestLinkSection,
+        clicks: group.clicks,
+        clickRate: total > 0 ? group.deliveries.size / total : 0,
+      }))
+      .sort((a, b) => b.clicks - a.clicks),
+    advertisers: [...advertisers]
+      .map(([name, group]) => ({
+        name,
+        clicks: group.clicks,
+        clickRate: total > 0 ? group.deliveries.size / total : 0,
+      }))
+      .sort((a, b) => b.clicks - a.clicks),
+  };
+}
+
+/**
+ * Digest Analytics Service
+ *
+ * Records digest opens and clicks for consenting recipients and reports
+ * engagement per lounge, section and advertiser. Expects a service-role
+ * client.
+ */
+export class DigestAnalyticsService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Record an open or click from a recipient token. Returns false when
+   * nothing was recorded: bad token, untracked send, or consent withdrawn
+   * since the digest went out.
+   */
+  async recordEvent(
+    token: string | null,
+    event: { type: 'open' } | { type: 'click'; link: TrackedLink }
+  ): Promise<boolean> {
+    const deliveryId = verifyRecipientToken(token);
+    if (!deliveryId) return false;
+
+    const { data: delivery, error } = await this.supabase
+      .from('digest_deliveries')
+      .select(
+        'id, edition_id, lounge_id, user_id, tracked, users!inner(consent_details)'
+      )
+      .eq('id', deliveryId)
+      .maybeSingle()
+      .overrideTypes<ConsentedDeliveryRow, { merge: false }>();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest delivery: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    if (
+      !delivery?.tracked ||
+      !hasAnalyticsConsent(delivery.users.consent_details)
+    ) {
+      return false;
+    }
+
+    const { error: insertError } = await this.supabase
+      .from('digest_events')
+      .insert({
+        delivery_id: delivery.id,
+        edition_id: delivery.edition_id,
+        lounge_id: delivery.lounge_id,
+        user_id: delivery.user_id,
+        event_type: event.type,
+        ...(event.type === 'click' && {
+          section: event.link.section,
+          target: event.link.target || null,
+          url: event.link.url,
+        }),
+      });
+
+    if (insertError) {
+      throw new DigestError(
+        `Failed to record digest event: ${insertError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return true;
+  }
+
+  // PostgREST caps responses, so reports page through large ranges
+  private async fetchAll<T>(
+    fetchPage: (
+      from: number,
+      to: number
+    ) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>
+  ): Promise<T[]> {
+    const rows: T[] = [];
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const { data, error } = await fetchPage(from, from + PAGE_SIZE - 1);
+      if (error) {
+        throw new DigestError(
+          `Failed to fetch digest analytics: ${error.message}`,
+          'STORAGE_ERROR',
+          500
+        );
+      }
+
+      rows.push(...(data || []));
+      if (!data || data.length < PAGE_SIZE) return rows;
+    }
+  }
+
+  /**
+   * Engagement for tracked deliveries sent in the last `days`, optionally
+   * for one lounge
+   */
+  async getReport(
+    options: { days?: number; loungeId?: string } = {}
+  ): Promise<DigestAnalyticsReport> {
+    const since = new Date(
+      Date.now() - (options.days || 30) * 24 * 60 * 60 * 1000
+    ).toISOString();
+
+    const deliveries = await this.fetchAll<TrackedDeliveryRow>((from, to) => {
+      let query = this.supabase
+        .from('digest_deliveries')
+        .select('id, lounge_id, sent_at, lounges(name)')
+        .eq('tracked', true)
+        .eq('status', 'sent')
+        .gte('sent_at', since);
+      if (options.loungeId) query = query.eq('lounge_id', options.loungeId);
+      return query
+        .order('sent_at')
+        .range(from, to)
+        .overrideTypes<TrackedDeliveryRow[], { merge: false }>();
+    });
+
+    const events = await this.fetchAll<DigestEventRow>((from, to) => {
+      let query = this.supabase
+        .from('digest_events')
+        .select('delivery_id, event_type, section, target')
+        .gte('created_at', since);
+      if (options.loungeId) query = query.eq('lounge_id', options.loungeId);
+      return query
+        .order('created_at')
+        .range(from, to)
+        .overrideTypes<DigestEventRow[], { merge: false }>();
+    });
+
+    const report = summarizeDigestEvents(since, deliveries, events);
+
+    // Advertiser links carry the campaign ID
+    const { data: campaigns } = await this.supabase
+      .from('email_advertisers')
+      .select('id, company_name');
+    const names = new Map(
+      (campaigns || []).map((c) => [c.id as string, c.company_name as string])
+    );
+    report.advertisers = report.advertisers.map((advertiser) => ({
+      ...advertiser,
+      name: names.get(advertiser.name) || advertiser.name,
+    }));
+
+    return report;
+  }
+}
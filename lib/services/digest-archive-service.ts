@@ -0,0 +1,372 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { render } from '@react-email/render';
+import { DailyDigestEmail } from '@/emails/daily-digest';
+import { WeeklyDigestEmail } from '@/emails/weekly-digest';
+import { personalizeEdition } from './digest-edition-service';
+import {
+  DigestError,
+  type DigestArchiveEntry,
+  type DigestEdition,
+  type DigestEditionType,
+} from '@/types/digest';
+
+// Editions per archive page
+export const DIGEST_ARCHIVE_PAGE_SIZE = 20;
+
+const ARCHIVE_COLUMNS =
+  'id, edition_type, edition_date, version, subject, is_public, built_at';
+
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ArchiveLounge {
+  id: string;
+  name: string;
+  description: string | null;
+  subdomain: string | null;
+  user_id: string | null;
+  is_system_lounge: boolean | null;
+}
+
+export interface ArchiveViewer {
+  id: string;
+  role: string | null;
+}
+
+export interface EditionPreview {
+  title: string;
+  headline: string;
+  description: string;
+}
+
+/**
+ * Archive path of a lounge, or of one of its editions
+ */
+export function getDigestArchivePath(
+  loungeId: string,
+  editionDate?: string,
+  editionType: DigestEditionType = 'daily'
+): string {
+  if (!editionDate) return `/digests/${loungeId}`;
+
+  const path = `/digests/${loungeId}/${editionDate}`;
+  return editionType === 'weekly' ? `${path}?type=weekly` : path;
+}
+
+export function getDigestArchiveUrl(
+  loungeId: string,
+  editionDate?: string,
+  editionType?: DigestEditionType
+): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL}${getDigestArchivePath(loungeId, editionDate, editionType)}`;
+}
+
+/**
+ * Signed-in readers can browse system lounges; custom lounges are only
+ * visible to their owner. Admins can see everything.
+ */
+export function canViewArchive(
+  lounge: ArchiveLounge,
+  viewer: ArchiveViewer | null
+): boolean {
+  if (!viewer) return false;
+  return Boolean(lounge.is_system_lounge) || canManageArchive(lounge, viewer);
+}
+
+// Who can share a lounge's editions publicly
+export function canManageArchive(
+  lounge: ArchiveLounge,
+  viewer: ArchiveViewer | null
+): boolean {
+  if (!viewer) return false;
+  return viewer.role === 'admin' || lounge.user_id === viewer.id;
+}
+
+/**
+ * Keep only the newest version of each edition, in the order given
+ */
+export function latestVersions<
+  T extends Pick<DigestEdition, 'edition_type' | 'edition_date' | 'version'>,
+>(rows: T[]): T[] {
+  const latest = new Map<string, T>();
+
+  for (const row of rows) {
+    const key = `${row.edition_type}:${row.edition_date}`;
+    const current = latest.get(key);
+    if (!current || row.version > current.version) latest.set(key, row);
+  }
+
+  return rows.filter(
+    (row) => latest.get(`${row.edition_type}:${row.edition_date}`) === row
+  );
+}
+
+function truncate(text: string, length: number): string {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  return clean.length > length
+    ? `${clean.slice(0, length - 1).trimEnd()}…`
+    : clean;
+}
+
+/**
+ * Title and lead story of an edition for link previews
+ */
+export function getEditionPreview(
+  edition: Pick<DigestEdition, 'edition_type' | 'subject' | 'inputs'>
+): EditionPreview {
+  const inputs = (edition.inputs || {}) as {
+    loungeDescription?: string;
+    aiNewsSummary?: { bigStory?: { title?: string; summary?: string } };
+    narrative?: string;
+    themes?: Array<{ title?: string; summary?: string }>;
+  };
+  const title = edition.subject || 'Digest';
+
+  let headline = '';
+  let description = '';
+  if (edition.edition_type === 'weekly') {
+    const theme = inputs.themes?.[0];
+    headline = theme?.title || '';
+    description = inputs.narrative || theme?.summary || '';
+  } else {
+    const bigStory = inputs.aiNewsSummary?.bigStory;
+    headline = bigStory?.title || '';
+    description = bigStory?.summary || '';
+  }
+
+  return {
+    title,
+    headline: truncate(headline || title, 120),
+    description: truncate(description || inputs.loungeDescription || '', 200),
+  };
+}
+
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Add the page title, link preview tags and a link back to the archive to a
+ * rendered edition
+ */
+export function withArchiveHead(
+  html: string,
+  meta: {
+    title: string;
+    description: string;
+    url: string;
+    archiveUrl: string;
+    archiveLabel: string;
+    imageUrl?: string;
+  }
+): string {
+  const tags = [
+    `<title>${escapeAttribute(meta.title)}</title>`,
+    `<meta name="description" content="${escapeAttribute(meta.description)}" />`,
+    `<meta property="og:type" content="article" />`,
+    `<meta property="og:title" content="${escapeAttribute(meta.title)}" />`,
+    `<meta property="og:description" content="${escapeAttribute(meta.description)}" />`,
+    `<meta property="og:url" content="${escapeAttribute(meta.url)}" />`,
+    meta.imageUrl
+      ? `<meta property="og:image" content="${escapeAttribute(meta.imageUrl)}" />`
+      : '',
+    `<meta name="twitter:card" content="${meta.imageUrl ? 'summary_large_image' : 'summary'}" />`,
+    `<meta name="viewport" content="width=device-width, initial-scale=1" />`,
+  ].join('');
+  const banner = `<div style="text-align:center;padding:12px;font-family:sans-serif;font-size:13px"><a href="${escapeAttribute(meta.archiveUrl)}" style="color:#525f7f">&larr; ${escapeAttribute(meta.archiveLabel)}</a></div>`;
+
+  return html
+    .replace(/<head[^>]*>/i, (head) => `${head}${tags}`)
+    .replace(/<body[^>]*>/i, (body) => `${body}${banner}`);
+}
+
+/**
+ * Digest Archive Service
+ *
+ * Lists, searches and shares a lounge's past digest editions and renders
+ * them for the web. Expects a service-role client; callers check access with
+ * canViewArchive.
+ */
+export class DigestArchiveService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Find a lounge by ID or subdomain
+   */
+  async resolveLounge(slug: string): Promise<ArchiveLounge | null> {
+    const { data, error } = await this.supabase
+      .from('lounges')
+      .select('id, name, description, subdomain, user_id, is_system_lounge')
+      .eq(UUID_PATTERN.test(slug) ? 'id' : 'subdomain', slug)
+      .maybeSingle();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch lounge: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as ArchiveLounge | null;
+  }
+
+  async getViewer(userId: string | undefined): Promise<ArchiveViewer | null> {
+    if (!userId) return null;
+
+    const { data } = await this.supabase
+      .from('users')
+      .select('role')
+      .eq('id', userId)
+      .maybeSingle();
+    return { id: userId, role: data?.role ?? null };
+  }
+
+  /**
+   * Ready editions of a lounge, newest first. `query` is a web-style search
+   * over subjects and text; `before` pages back from an edition date.
+   */
+  async listEditions(
+    loungeId: string,
+    options: { query?: string; before?: string; publicOnly?: boolean } = {}
+  ): Promise<DigestArchiveEntry[]> {
+    let query = this.supabase
+      .from('digest_editions')
+      .select(ARCHIVE_COLUMNS)
+      .eq('lounge_id', loungeId)
+      .eq('status', 'ready');
+
+    if (options.publicOnly) query = query.eq('is_public', true);
+    if (options.before) query = query.lt('edition_date', options.before);
+    if (options.query) {
+      query = query.textSearch('search_document', options.query, {
+        type: 'websearch',
+        config: 'english',
+      });
+    }
+
+    // Rebuilt editions leave older versions behind; fetch extra to cover them
+    const { data, error } = await query
+      .order('edition_date', { ascending: false })
+      .order('version', { ascending: false })
+      .limit(DIGEST_ARCHIVE_PAGE_SIZE * 2);
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest archive: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return latestVersions((data || []) as DigestArchiveEntry[]).slice(
+      0,
+      DIGEST_ARCHIVE_PAGE_SIZE
+    );
+  }
+
+  /**
+   * The latest ready version of a lounge's edition for a date
+   */
+  async getEdition(
+    loungeId: string,
+    editionDate: string,
+    editionType: DigestEditionType = 'daily'
+  ): Promise<DigestEdition> {
+    const { data, error } = await this.supabase
+      .from('digest_editions')
+      .select('*')
+      .eq('lounge_id', loungeId)
+      .eq('edition_type', editionType)
+      .eq('edition_date', editionDate)
+      .eq('status', 'ready')
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest edition: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data) {
+      throw new DigestError('Digest edition not found', 'NOT_FOUND', 404);
+    }
+    return data as DigestEdition;
+  }
+
+  async getPublicEdition(id: string): Promise<DigestEdition> {
+    const { data, error } = await this.supabase
+      .from('digest_editions')
+      .select('*')
+      .eq('id', id)
+      .eq('is_public', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest edition: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data) {
+      throw new DigestError('Digest edition not found', 'NOT_FOUND', 404);
+    }
+    return data as DigestEdition;
+  }
+
+  /**
+   * Render an edition for the web from the inputs it was built with, using
+   * the same templates as the email. Editions without stored inputs fall
+   * back to their sent HTML.
+   */
+  async renderWebVersion(edition: DigestEdition): Promise<string> {
+    const recipient = { recipientEmail: '', unsubscribeUrl: '' };
+
+    if (edition.inputs) {
+      const inputs = edition.inputs as Record<string, unknown>;
+      return render(
+        edition.edition_type === 'weekly'
+          ? WeeklyDigestEmail({
+              ...(inputs as unknown as Parameters<typeof WeeklyDigestEmail>[0]),
+              ...recipient,
+              webVersion: true,
+            })
+          : DailyDigestEmail({
+              ...(inputs as unknown as Parameters<typeof DailyDigestEmail>[0]),
+              ...recipient,
+              webVersion: true,
+            })
+      );
+    }
+
+    return personalizeEdition(edition.html || '', {
+      email: '',
+      unsubscribeUrl: '',
+    });
+  }
+
+  async setPublic(editionId: string, isPublic: boolean): Promise<void> {
+    const { error } = await this.supabase
+      .from('digest_editions')
+      .update({
+        is_public: isPublic,
+        shared_at: isPublic ? new Date().toISOString() : null,
+      })
+      .eq('id', editionId);
+
+    if (error) {
+      throw new DigestError(
+        `Failed to update digest sharing: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,335 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Json } from '@/types/database.types';
+import {
+  DigestError,
+  type DigestDelivery,
+  type DigestEdition,
+  type DigestEditionType,
+  type DigestRecipient,
+} from '@/types/digest';
+
+/**
+ * Tokens rendered into an edition in place of per-recipient fields
+ */
+export const DIGEST_PLACEHOLDERS = {
+  RECIPIENT_EMAIL: '%%recipient_email%%',
+  UNSUBSCRIBE_URL: '%%unsubscribe_url%%',
+  // Empty for recipients who haven't consented to analytics
+  TRACKING_TOKEN: '%%tracking_token%%',
+  // Sponsor block, chosen per recipient for frequency caps and rotation
+  ADVERTISERS: '%%advertisers%%',
+} as const;
+
+export interface RecipientFields {
+  email: string;
+  unsubscribeUrl: string;
+  trackingToken?: string;
+  // Rendered sponsor block; inserted as-is
+  advertisers?: { html: string; text: string };
+}
+
+/**
+ * Edition date (UTC, YYYY-MM-DD), matching the digest job IDs
+ */
+export function getEditionDate(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
+
+/**
+ * Weekly edition date: the Monday (UTC) of the week containing `date`
+ */
+export function getWeekStartDate(date: Date = new Date()): string {
+  const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+  return getEditionDate(new Date(date.getTime() - daysSinceMonday * 86400000));
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Fill an edition's placeholders for one recipient
+ */
+export function personalizeEdition(
+  template: string,
+  fields: RecipientFields,
+  format: 'html' | 'text' = 'html'
+): string {
+  const encode = format === 'html' ? escapeHtml : (value: string) => value;
+
+  return template
+    .split(DIGEST_PLACEHOLDERS.ADVERTISERS)
+    .join(fields.advertisers?.[format] || '')
+    .split(DIGEST_PLACEHOLDERS.RECIPIENT_EMAIL)
+    .join(encode(fields.email))
+    .split(DIGEST_PLACEHOLDERS.UNSUBSCRIBE_URL)
+    .join(encode(fields.unsubscribeUrl))
+    .split(DIGEST_PLACEHOLDERS.TRACKING_TOKEN)
+    .join(encode(fields.trackingToken || ''));
+}
+
+/**
+ * Digest Edition Service
+ *
+ * Persists rendered lounge digests and tracks who each one was sent to.
+ * Expects a service-role client.
+ */
+export class DigestEditionService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getEdition(id: string): Promise<DigestEdition> {
+    const { data, error } = await this.supabase
+      .from('digest_editions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest edition: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data) {
+      throw new DigestError('Digest edition not found', 'NOT_FOUND', 404);
+    }
+
+    return data;
+  }
+
+  /**
+   * Latest version of a lounge's daily or weekly edition for a date,
+   * optionally only if ready
+   */
+  async getLatestEdition(
+    loungeId: string,
+    editionDate: string,
+    options: { editionType?: DigestEditionType; readyOnly?: boolean } = {}
+  ): Promise<DigestEdition | null> {
+    let query = this.supabase
+      .from('digest_editions')
+      .select('*')
+      .eq('lounge_id', loungeId)
+      .eq('edition_type', options.editionType || 'daily')
+      .eq('edition_date', editionDate);
+
+    if (options.readyOnly) {
+      query = query.eq('status', 'ready');
+    }
+
+    const { data, error } = await query
+      .order('version', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest edition: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Reserve the next version of a lounge's edition for a date
+   */
+  async startEdition(
+    loungeId: string,
+    editionDate: string,
+    editionType: DigestEditionType = 'daily'
+  ): Promise<DigestEdition> {
+    const latest = await this.getLatestEdition(loungeId, editionDate, {
+      editionType,
+    });
+
+    const { data, error } = await this.supabase
+      .from('digest_editions')
+      .insert({
+        lounge_id: loungeId,
+        edition_type: editionType,
+        edition_date: editionDate,
+        version: (latest?.version || 0) + 1,
+        status: 'building',
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // Another worker claimed this version first
+      if (error.code === '23505') {
+        throw new DigestError(
+          'Digest edition is already being built',
+          'BUILD_IN_PROGRESS',
+          409
+        );
+      }
+      throw new DigestError(
+        `Failed to create digest edition: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return data;
+  }
+
+  async completeEdition(
+    id: string,
+    rendered: {
+      subject: string;
+      html: string;
+      text_body: string;
+      inputs: Json;
+    }
+  ): Promise<DigestEdition> {
+    const { data, error } = await this.supabase
+      .from('digest_editions')
+      .update({
+        ...rendered,
+        status: 'ready',
+        error: null,
+        built_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to save digest edition: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return data;
+  }
+
+  /**
+   * Close an edition that won't be sent: no content, or the build failed
+   */
+  async closeEdition(
+    id: string,
+    status: 'empty' | 'failed',
+    message?: string
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('digest_editions')
+      .update({
+        status,
+        error: message || null,
+        built_at: new Date().toISOString(),
+      })
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Failed to close digest edition ${id}:`, error);
+    }
+  }
+
+  /**
+   * Claim the delivery of an edition to one recipient. Returns null when the
+   * recipient already got this lounge's digest for the day (or week), or
+   * another attempt may still be sending it, so retries and rebuilt versions
+   * never send twice. `tracked` records whether the recipient's opens and
+   * clicks may be recorded.
+   */
+  async claimDelivery(
+    edition: DigestEdition,
+    recipient: DigestRecipient,
+    options: { tracked?: boolean } = {}
+  ): Promise<DigestDelivery | null> {
+    const { data, error } = await this.supabase
+      .from('digest_deliveries')
+      .insert({
+        edition_id: edition.id,
+        user_id: recipient.userId,
+        lounge_id: edition.lounge_id,
+        edition_type: edition.edition_type,
+        edition_date: edition.edition_date,
+        email: recipient.email,
+        tracked: options.tracked || false,
+      })
+      .select()
+      .single();
+
+    if (!error) return data;
+
+    if (error.code !== '23505') {
+      throw new DigestError(
+        `Failed to record digest delivery: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const { data: existing } = await this.supabase
+      .from('digest_deliveries')
+      .select('*')
+      .eq('user_id', recipient.userId)
+      .eq('lounge_id', edition.lounge_id)
+      .eq('edition_type', edition.edition_type)
+      .eq('edition_date', edition.edition_date)
+      .maybeSingle();
+
+    // Pending rows may still be sending, or may have sent without recording
+    // it, so only a recorded failure is safe to retry
+    if (!existing || existing.status !== 'failed') return null;
+
+    // An earlier attempt failed before anything went out: retry with this edition
+    const { data: retried, error: retryError } = await this.supabase
+      .from('digest_deliveries')
+      .update({
+        edition_id: edition.id,
+        email: recipient.email,
+        tracked: options.tracked || false,
+        status: 'pending',
+        error: null,
+      })
+      .eq('id', existing.id)
+      .eq('status', 'failed')
+      .select()
+      .maybeSingle();
+
+    if (retryError) {
+      throw new DigestError(
+        `Failed to record digest delivery: ${retryError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return retried;
+  }
+
+  async recordDelivery(
+    id: string,
+    result: { messageId?: string | null; error?: string }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('digest_deliveries')
+      .update(
+        result.error
+          ? { status: 'failed', error: result.error }
+          : {
+              status: 'sent',
+              provider_message_id: result.messageId || null,
+              sent_at: new Date().toISOString(),
+            }
+      )
+      .eq('id', id);
+
+    if (error) {
+      console.error(`Failed to update digest delivery ${id}:`, error);
+    }
+  }
+}
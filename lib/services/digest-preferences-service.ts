@@ -0,0 +1,223 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Tables } from '@/types/database.types';
+import { DigestScheduleService } from './digest-schedule-service';
+import {
+  DigestError,
+  type DigestEditionType,
+  type DigestPreferences,
+  type LoungeDigestPreference,
+  type UpdateDigestPreferencesInput,
+} from '@/types/digest';
+
+/**
+ * Signed preference links need a secret and a public URL; without them
+ * digests link to the account settings page instead
+ */
+export function isPreferenceLinksEnabled(): boolean {
+  return (
+    !!process.env.DIGEST_PREFERENCES_SECRET && !!process.env.NEXT_PUBLIC_APP_URL
+  );
+}
+
+function sign(value: string): string {
+  const secret = process.env.DIGEST_PREFERENCES_SECRET;
+  if (!secret) {
+    throw new Error('DIGEST_PREFERENCES_SECRET is not configured');
+  }
+  return createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Token that lets whoever holds a digest email manage that user's digests
+ * without signing in. It doesn't expire, since unsubscribe links in old
+ * emails must keep working.
+ */
+export function createPreferencesToken(userId: string): string {
+  return `${userId}.${sign(`preferences:${userId}`)}`;
+}
+
+/**
+ * User ID from a preferences token, or null if it wasn't issued by us
+ */
+export function verifyPreferencesToken(token: string | null): string | null {
+  if (!token || !process.env.DIGEST_PREFERENCES_SECRET) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const userId = token.slice(0, separator);
+  return safeEqual(token.slice(separator + 1), sign(`preferences:${userId}`))
+    ? userId
+    : null;
+}
+
+/**
+ * Preference center link, optionally highlighting the lounge the email was for
+ */
+export function getPreferencesUrl(userId: string, loungeId?: string): string {
+  const params = new URLSearchParams({ token: createPreferencesToken(userId) });
+  if (loungeId) params.set('lounge', loungeId);
+  return `${process.env.NEXT_PUBLIC_APP_URL}/email-preferences?${params}`;
+}
+
+/**
+ * RFC 8058 List-Unsubscribe target for one lounge digest. A POST unsubscribes
+ * straight away; opening it in a browser only shows the preference center.
+ */
+export function getOneClickUnsubscribeUrl(
+  userId: string,
+  loungeId: string,
+  editionType: DigestEditionType
+): string {
+  const params = new URLSearchParams({
+    token: createPreferencesToken(userId),
+    lounge: loungeId,
+    type: editionType,
+  });
+  return `${process.env.NEXT_PUBLIC_APP_URL}/api/digest/unsubscribe?${params}`;
+}
+
+// `lounges!inner`, so the lounge is always present
+type LoungeSubscriptionRow = Pick<
+  Tables<'lounge_digest_subscriptions'>,
+  'lounge_id' | 'subscribed' | 'weekly_subscribed'
+> & { lounges: Pick<Tables<'lounges'>, 'name'> };
+
+/**
+ * Digest Preferences Service
+ *
+ * Reads and changes a user's lounge digest subscriptions and schedule on
+ * behalf of a verified preferences token. Expects a service-role client.
+ */
+export class DigestPreferencesService {
+  private schedules: DigestScheduleService;
+
+  constructor(private supabase: SupabaseClient) {
+    this.schedules = new DigestScheduleService(supabase);
+  }
+
+  async getPreferences(userId: string): Promise<DigestPreferences> {
+    const [{ data: user, error: userError }, { data, error }, schedule] =
+      await Promise.all([
+        this.supabase
+          .from('users')
+          .select('email')
+          .eq('id', userId)
+          .maybeSingle(),
+        this.supabase
+          .from('lounge_digest_subscriptions')
+          .select(
+            'lounge_id, subscribed, weekly_subscribed, lounges!inner(name)'
+          )
+          .eq('user_id', userId)
+          .overrideTypes<LoungeSubscriptionRow[], { merge: false }>(),
+        this.schedules.getSchedule(userId),
+      ]);
+
+    const failure = userError || error;
+    if (failure) {
+      throw new DigestError(
+        `Failed to fetch digest preferences: ${failure.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!user) {
+      throw new DigestError('User not found', 'NOT_FOUND', 404);
+    }
+
+    const lounges: LoungeDigestPreference[] = (data || [])
+      .map((row) => ({
+        lounge_id: row.lounge_id,
+        name: row.lounges.name,
+        subscribed: row.subscribed ?? false,
+        weekly_subscribed: row.weekly_subscribed ?? false,
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+
+    return { email: user.email, lounges, schedule };
+  }
+
+  /**
+   * Apply changes from the preference center. Only lounges the user already
+   * has a subscription row for can be changed.
+   */
+  async updatePreferences(
+    userId: string,
+    input: UpdateDigestPreferencesInput
+  ): Promise<DigestPreferences> {
+    for (const { lounge_id, ...changes } of input.lounges || []) {
+      if (
+        changes.subscribed === undefined &&
+        changes.weekly_subscribed === undefined
+      ) {
+        continue;
+      }
+      await this.updateLounge(userId, lounge_id, changes);
+    }
+
+    const { frequency, active } = input;
+    if (frequency !== undefined || active !== undefined) {
+      await this.schedules.updateSchedule(userId, {
+        ...(frequency !== undefined && { frequency }),
+        ...(active !== undefined && { active }),
+      });
+    }
+
+    if (input.pause_weeks !== undefined) {
+      await this.schedules.pauseSchedule(userId, input.pause_weeks);
+    }
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * One-click unsubscribe from a lounge's daily or weekly digest. Without a
+   * lounge, every digest is stopped.
+   */
+  async unsubscribe(
+    userId: string,
+    loungeId: string | null,
+    editionType: DigestEditionType = 'daily'
+  ): Promise<void> {
+    if (!loungeId) {
+      await this.schedules.updateSchedule(userId, { active: false });
+      return;
+    }
+
+    await this.updateLounge(
+      userId,
+      loungeId,
+      editionType === 'weekly'
+        ? { weekly_subscribed: false }
+        : { subscribed: false }
+    );
+  }
+
+  private async updateLounge(
+    userId: string,
+    loungeId: string,
+    changes: { subscribed?: boolean; weekly_subscribed?: boolean }
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('lounge_digest_subscriptions')
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq('user_id', userId)
+      .eq('lounge_id', loungeId);
+
+    if (error) {
+      throw new DigestError(
+        `Failed to update digest subscription: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Tables } from '@/types/database.types';
+import {
+  DEFAULT_DIGEST_TIME,
+  DEFAULT_DIGEST_TIMEZONE,
+  DigestError,
+  isValidTimezone,
+  type DigestFrequency,
+  type DigestSchedule,
+  type ScheduledRecipient,
+  type UpdateDigestScheduleInput,
+} from '@/types/digest';
+
+type ScheduleTiming = Pick<DigestSchedule, 'frequency' | 'day_of_week'> & {
+  // Falls back to DEFAULT_DIGEST_TIME
+  time_of_day: string | null;
+};
+
+// email_digests row the scheduler reads, with its user
+type DueScheduleRow = Pick<
+  Tables<'email_digests'>,
+  | 'user_id'
+  | 'frequency'
+  | 'time_of_day'
+  | 'day_of_week'
+  | 'last_sent'
+  | 'next_send_at'
+> & { users: Pick<Tables<'users'>, 'email' | 'timezone'> };
+
+// A user whose digest slot has come up
+export interface DueDigest extends ScheduledRecipient {
+  scheduledFor: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Schedules are computed from the end of a pause that hasn't run out yet
+function getResumeDate(pausedUntil: string | null, now: Date = new Date()) {
+  return pausedUntil && new Date(pausedUntil) > now
+    ? new Date(pausedUntil)
+    : now;
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+function getZonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  };
+}
+
+// Minutes the timezone is ahead of UTC at an instant
+function getOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(
+    p.year,
+    p.month - 1,
+    p.day,
+    p.hour,
+    p.minute,
+    p.second
+  );
+  return Math.round((asUtc - date.getTime()) / 60000);
+}
+
+/**
+ * UTC instant of a wall-clock time in a timezone. Times skipped by a DST
+ * change land an hour later.
+ */
+export function zonedTimeToUtc(
+  local: { year: number; month: number; day: number },
+  time: string,
+  timeZone: string
+): Date {
+  const [hour, minute] = time.split(':').map(Number);
+  const guess = Date.UTC(local.year, local.month - 1, local.day, hour, minute);
+
+  const offset = getOffsetMinutes(new Date(guess), timeZone);
+  const adjusted = guess - offset * 60000;
+  const correctedOffset = getOffsetMinutes(new Date(adjusted), timeZone);
+
+  return new Date(guess - correctedOffset * 60000);
+}
+
+function matchesFrequency(
+  frequency: DigestFrequency,
+  dayOfWeek: number | null,
+  date: { weekday: number; day: number }
+): boolean {
+  switch (frequency) {
+    case 'weekdays':
+      return date.weekday >= 1 && date.weekday <= 5;
+    case 'weekly':
+      return date.weekday === (dayOfWeek ?? 1);
+    case 'monthly':
+      return date.day === 1;
+    default:
+      return true;
+  }
+}
+
+/**
+ * Next send time strictly after `after` for a schedule in a timezone
+ */
+export function getNextDigestSendAt(
+  schedule: ScheduleTiming,
+  timeZone: string | null,
+  after: Date = new Date()
+): Date {
+  const zone =
+    timeZone && isValidTimezone(timeZone) ? timeZone : DEFAULT_DIGEST_TIMEZONE;
+  const time = schedule.time_of_day?.slice(0, 5) || DEFAULT_DIGEST_TIME;
+  const today = getZonedParts(after, zone);
+
+  // Walk forward through local calendar days; a month covers every frequency
+  for (let i = 0; i <= 31; i++) {
+    const day = new Date(
+      Date.UTC(today.year, today.month - 1, today.day) + i * DAY_MS
+    );
+    const local = {
+      year: day.getUTCFullYear(),
+      month: day.getUTCMonth() + 1,
+      day: day.getUTCDate(),
+    };
+
+    if (
+      !matchesFrequency(schedule.frequency, schedule.day_of_week, {
+        weekday: day.getUTCDay(),
+        day: local.day,
+      })
+    ) {
+      continue;
+    }
+
+    const sendAt = zonedTimeToUtc(local, time, zone);
+    if (sendAt > after) return sendAt;
+  }
+
+  throw new Error(`No digest slot found for ${schedule.frequency} schedule`);
+}
+
+/**
+ * Digest Schedule Service
+ *
+ * Reads and updates when each user's digest is sent, and hands due users
+ * to the digest edition builds.
+ */
+export class DigestScheduleService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getSchedule(userId: string): Promise<DigestSchedule> {
+    const [{ data: digest, error }, { data: user }] = await Promise.all([
+      this.supabase
+        .from('email_digests')
+        .select(
+          'frequency, time_of_day, day_of_week, active, last_sent, next_send_at, paused_until'
+        )
+        .eq('user_id', userId)
+        .maybeSingle(),
+      this.supabase
+        .from('users')
+        .select('timezone')
+        .eq('id', userId)
+        .maybeSingle(),
+    ]);
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch digest schedule: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return {
+      frequency: digest?.frequency || 'daily',
+      time_of_day: digest?.time_of_day?.slice(0, 5) || DEFAULT_DIGEST_TIME,
+      day_of_week: digest?.day_of_week ?? null,
+      timezone:
+        user?.timezone && isValidTimezone(user.timezone)
+          ? user.timezone
+          : DEFAULT_DIGEST_TIMEZONE,
+      active: digest?.active ?? true,
+      last_sent: digest?.last_sent || null,
+      next_send_at: digest?.next_send_at || null,
+      paused_until: digest?.paused_until || null,
+    };
+  }
+
+  /**
+   * Save a user's schedule and move their next send to match it
+   */
+  async updateSchedule(
+    userId: string,
+    input: UpdateDigestScheduleInput
+  ): Promise<DigestSchedule> {
+    const current = await this.getSchedule(userId);
+    const schedule = { ...current, ...input };
+
+    if (schedule.frequency === 'weekly' && schedule.day_of_week === null) {
+      schedule.day_of_week = 1;
+    }
+
+    if (input.timezone) {
+      const { error } = await this.supabase
+        .from('users')
+        .update({
+          timezone: input.timezone,
+          updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+      if (error) {
+        throw new DigestError(
+          `Failed to update timezone: ${error.message}`,
+          'STORAGE_ERROR',
+          500
+        );
+      }
+    }
+
+    const { error } = await this.supabase.from('email_digests').upsert(
+      {
+        user_id: userId,
+        frequency: schedule.frequency,
+        time_of_day: schedule.time_of_day,
+        day_of_week: schedule.day_of_week,
+        active: schedule.active,
+        next_send_at: schedule.active
+          ? getNextDigestSendAt(
+              schedule,
+              schedule.timezone,
+              getResumeDate(schedule.paused_until)
+            ).toISOString()
+          : null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+    if (error) {
+      throw new DigestError(
+        `Failed to update digest schedule: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return this.getSchedule(userId);
+  }
+
+  /**
+   * Hold a user's digests for `weeks` weeks; 0 resumes them now. The next
+   * send moves to the first slot after the pause.
+   */
+  async pauseSchedule(
+    userId: string,
+    weeks: number,
+    now: Date = new Date()
+  ): Promise<DigestSchedule> {
+    const schedule = await this.getSchedule(userId);
+    const pausedUntil =
+      weeks > 0 ? new Date(now.getTime() + weeks * 7 * DAY_MS) : null;
+
+    const { error } = await this.supabase.from('email_digests').upsert(
+      {
+        user_id: userId,
+        frequency: schedule.frequency,
+        time_of_day: schedule.time_of_day,
+        day_of_week: schedule.day_of_week,
+        active: schedule.active,
+        paused_until: pausedUntil?.toISOString() ?? null,
+        next_send_at: schedule.active
+          ? getNextDigestSendAt(
+              schedule,
+              schedule.timezone,
+              pausedUntil || now
+            ).toISOString()
+          : null,
+        updated_at: now.toISOString(),
+      },
+      { onConflict: 'user_id' }
+    );
+
+    if (error) {
+      throw new DigestError(
+        `Failed to pause digest schedule: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return this.getSchedule(userId);
+  }
+
+  /**
+   * Hand every active schedule whose send time has passed to `send`, then
+   * advance each to its next slot. Schedules only move once `send` resolves,
+   * so a failed run leaves them due for the next one. Rows without a next
+   * send yet are only initialised, so a first run never sends late digests.
+   * Overlapping runs can hand a user over twice; each edition is delivered
+   * to a recipient once. Expects a service-role client.
+   */
+  async dispatchDueDigests(
+    send: (due: DueDigest[]) => Promise<void>,
+    now: Date = new Date()
+  ): Promise<DueDigest[]> {
+    const { data, error } = await this.supabase
+      .from('email_digests')
+      .select(
+        'user_id, frequency, time_of_day, day_of_week, last_sent, next_send_at, users!inner(email, timezone)'
+      )
+      .eq('active', true)
+      .or(`next_send_at.is.null,next_send_at.lte.${now.toISOString()}`)
+      .overrideTypes<DueScheduleRow[], { merge: false }>();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch due digests: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const rows = data || [];
+    if (rows.length === 0) return [];
+
+    const due: DueDigest[] = rows
+      .filter((row) => row.next_send_at)
+      .map((row) => ({
+        userId: row.user_id,
+        email: row.users.email,
+        lastSent: row.last_sent,
+        scheduledFor: row.next_send_at!,
+      }));
+
+    if (due.length > 0) await send(due);
+
+    const { error: advanceError } = await this.supabase.rpc(
+      'advance_digest_schedules',
+      {
+        p_schedules: rows.map((row) => ({
+          user_id: row.user_id,
+          previous_send_at: row.next_send_at,
+          next_send_at: getNextDigestSendAt(
+            row,
+            row.users.timezone,
+            now
+          ).toISOString(),
+        })),
+      }
+    );
+
+    if (advanceError) {
+      // The digests are queued; the next run hands them over again and
+      // deliveries already made are skipped
+      throw new DigestError(
+        `Failed to advance digest schedules: ${advanceError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return due;
+  }
+}
@@ -1,12 +1,57 @@
 import { createClient } from '@supabase/supabase-js';
 import { Resend } from 'resend';
-import { DailyDigestEmail } from '@/emails/daily-digest';
+import type { Tables } from '@/types/database.types';
+import {
+  DailyDigestAdvertisers,
+  DailyDigestEmail,
+} from '@/emails/daily-digest';
+import {
+  WeeklyDigestAdvertisers,
+  WeeklyDigestEmail,
+} from '@/emails/weekly-digest';
 import { NewsSummaryService } from './news-summary-service';
 import { SocialPostSelector } from './social-post-selector';
 import { OpenGraphService } from './opengraph-service';
 import { AIImageService } from './ai-image-service';
 import { ImageOptimizer } from './image-optimizer';
 import { getSaaSStockMoversService } from './saas-stock-movers-service';
+import {
+  DIGEST_PLACEHOLDERS,
+  DigestEditionService,
+  getEditionDate,
+  getWeekStartDate,
+  personalizeEdition,
+} from './digest-edition-service';
+import { WeeklyDigestService } from './weekly-digest-service';
+import { getDigestArchiveUrl } from './digest-archive-service';
+import {
+  getOneClickUnsubscribeUrl,
+  getPreferencesUrl,
+  isPreferenceLinksEnabled,
+} from './digest-preferences-service';
+import { AdCampaignService, toDigestAdvertiser } from './ad-campaign-service';
+import { EmailSuppressionService } from './email-suppression-service';
+import {
+  createOpenPixelUrl,
+  createRecipientToken,
+  createTrackedLink,
+  hasAnalyticsConsent,
+  isDigestTrackingEnabled,
+  isOpenTrackingEnabled,
+} from './digest-analytics-service';
+import { render } from '@react-email/render';
+import type { ReactElement } from 'react';
+import type { Json } from '@/types/database.types';
+import type { AdCampaign } from '@/types/advertiser';
+import {
+  DigestError,
+  type DigestEdition,
+  type DigestEditionType,
+  type DigestLinkSection,
+  type DigestRecipient,
+  type DueEdition,
+  type ScheduledRecipient,
+} from '@/types/digest';
 
 // Lazy initialize Resend client to avoid build-time errors
 let resend: Resend | null = null;
@@ -59,6 +104,89 @@ interface ContentForDigest {
   };
 }
 
+// Builds older than this are presumed dead and started over
+const EDITION_BUILD_TIMEOUT = 5 * 60 * 1000;
+// Lounges with nothing to send aren't rebuilt on every scheduler run
+const EMPTY_EDITION_TTL = 60 * 60 * 1000;
+// Users per subscription lookup, keeping .in() filters short
+const SUBSCRIPTION_BATCH_SIZE = 200;
+
+// Email props shared by every recipient of an edition
+type DigestEmailInputs = Omit<
+  Parameters<typeof DailyDigestEmail>[0],
+  'recipientEmail' | 'unsubscribeUrl'
+>;
+
+interface RenderedEdition {
+  subject: string;
+  html: string;
+  text_body: string;
+  inputs: Json;
+}
+
+// Render once with placeholders; recipients only get them filled in
+async function renderWithPlaceholders(
+  email: ReactElement
+): Promise<{ html: string; text_body: string }> {
+  const [html, textBody] = await Promise.all([
+    render(email),
+    render(email, { plainText: true }),
+  ]);
+  return { html, text_body: textBody };
+}
+
+// Tracked links and open pixel for an edition, when tracking is configured
+function getTrackingProps(editionId: string) {
+  if (!isDigestTrackingEnabled()) return {};
+
+  return {
+    trackLink: (url: string, section: DigestLinkSection, target?: string) =>
+      createTrackedLink({ editionId, section, target, url }),
+    openPixelUrl: isOpenTrackingEnabled() ? createOpenPixelUrl() : undefined,
+  };
+}
+
+// "View in browser" link for an edition, when the app URL is configured
+function getWebVersionUrl(edition: DigestEdition): string | undefined {
+  if (!process.env.NEXT_PUBLIC_APP_URL) return undefined;
+  return getDigestArchiveUrl(
+    edition.lounge_id,
+    edition.edition_date,
+    edition.edition_type
+  );
+}
+
+// One recipient's sponsor block for an edition
+async function renderAdvertisers(
+  edition: DigestEdition,
+  campaigns: AdCampaign[]
+): Promise<{ html: string; text: string }> {
+  const props = {
+    advertisers: campaigns.map(toDigestAdvertiser),
+    trackLink: getTrackingProps(edition.id).trackLink,
+  };
+  const block =
+    edition.edition_type === 'weekly'
+      ? WeeklyDigestAdvertisers(props)
+      : DailyDigestAdvertisers(props);
+  if (!block) return { html: '', text: '' };
+
+  const [html, text] = await Promise.all([
+    render(block),
+    render(block, { plainText: true }),
+  ]);
+  // render() always produces a full document
+  return { html: html.replace(/^<!DOCTYPE[^>]*>/i, ''), text };
+}
+
+function formatEditionDate(editionDate: string): string {
+  return new Date(`${editionDate}T12:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
 // Helper function to strip markdown links from text
 function stripMarkdownLinks(text: string | undefined): string | undefined {
   if (!text) return text;
@@ -421,18 +549,17 @@ export class DigestService {
   }
 
   /**
-   * Generate and send digest for a specific lounge
+   * Gather everything a lounge digest shows. Runs the expensive steps (AI
+   * summary images, social post selection, stock movers) once per edition.
+   * Returns null when the lounge has nothing to send.
    */
-  static async sendLoungeDigest(
-    lounge: Lounge,
-    recipientEmail: string,
-    unsubscribeToken?: string
-  ): Promise<void> {
-    try {
-      // Start a new digest session to track duplicate images
-      const { OpenGraphService } = await import('./opengraph-service');
-      OpenGraphService.startDigestSession();
+  static async buildDigestInputs(
+    lounge: Lounge
+  ): Promise<DigestEmailInputs | null> {
+    // Start a new digest session to track duplicate images
+    OpenGraphService.startDigestSession();
 
+    try {
       // Get AI-generated news summary for this lounge
       let aiNewsSummary:
         | {
@@ -554,7 +681,7 @@ export class DigestService {
         console.log(
           `No content available for ${lounge.name} lounge, skipping digest`
         );
-        return;
+        return null;
       }
 
       // Combine content with news first, then social
@@ -568,9 +695,6 @@ export class DigestService {
         day: 'numeric',
       });
 
-      // Generate unsubscribe URL - always point to settings/account since unsubscribe tokens aren't implemented
-      const unsubscribeUrl = `${process.env.NEXT_PUBLIC_APP_URL}/settings/account`;
-
       // Format content for email
       const emailContent = content.map((item) => ({
         id: item.id,
@@ -592,14 +716,6 @@ export class DigestService {
         engagement_metrics: (item as any).engagement_metrics || undefined,
       }));
 
-      // Fetch active advertisers
-      const supabase = getSupabaseClient();
-      const { data: advertisers } = await supabase
-        .from('email_advertisers')
-        .select('position, company_name, logo_url, link_url, tagline')
-        .eq('is_active', true)
-        .order('position');
-
       // Format top social posts for email
       const formattedTopPosts = topSocialPosts.map((item) => {
         const formatted = {
@@ -634,63 +750,533 @@ export class DigestService {
         return formatted;
       });
 
-      // Send email
-      const { error } = await getResendClient().emails.send({
-        from: FROM_EMAIL,
-        to: recipientEmail,
-        subject: `${lounge.name} Daily Digest - ${new Date().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`,
-        react: DailyDigestEmail({
-          loungeName: lounge.name,
-          loungeDescription: lounge.description,
-          content: emailContent,
-          topSocialPosts: formattedTopPosts,
-          recipientEmail,
-          unsubscribeUrl,
-          date,
-          aiNewsSummary,
-          stockMovers,
-          advertisers: advertisers || [],
-        }),
+      return {
+        loungeName: lounge.name,
+        loungeDescription: lounge.description,
+        content: emailContent,
+        topSocialPosts: formattedTopPosts,
+        date,
+        aiNewsSummary,
+        stockMovers,
+      };
+    } finally {
+      // End the digest session to clear image caches
+      OpenGraphService.endDigestSession();
+    }
+  }
+
+  /**
+   * The current edition of a lounge digest, building and rendering it if
+   * there is no ready one yet. Daily editions cover today (UTC); weekly ones
+   * are dated by this week's Monday and cover the seven days before it.
+   * `force` renders a new version even if one exists.
+   */
+  static async buildLoungeEdition(
+    lounge: Lounge,
+    options: {
+      editionType?: DigestEditionType;
+      editionDate?: string;
+      force?: boolean;
+    } = {}
+  ): Promise<DigestEdition | null> {
+    const editions = new DigestEditionService(getSupabaseClient());
+    const editionType = options.editionType || 'daily';
+    const editionDate =
+      options.editionDate ||
+      (editionType === 'weekly' ? getWeekStartDate() : getEditionDate());
+
+    if (!options.force) {
+      const existing = await editions.getLatestEdition(lounge.id, editionDate, {
+        editionType,
+        readyOnly: true,
       });
+      if (existing) return existing;
 
-      if (error) {
-        console.error(
-          `Failed to send ${lounge.name} digest to ${recipientEmail}:`,
-          error
+      // Another job may be rendering it right now; callers retry later
+      const latest = await editions.getLatestEdition(lounge.id, editionDate, {
+        editionType,
+      });
+      if (
+        latest?.status === 'building' &&
+        Date.now() - new Date(latest.created_at).getTime() <
+          EDITION_BUILD_TIMEOUT
+      ) {
+        throw new DigestError(
+          'Digest edition is already being built',
+          'BUILD_IN_PROGRESS',
+          409
         );
-        throw error;
+      }
+      if (
+        latest?.status === 'empty' &&
+        Date.now() - new Date(latest.built_at || latest.created_at).getTime() <
+          EMPTY_EDITION_TTL
+      ) {
+        return null;
+      }
+    }
+
+    // Throws BUILD_IN_PROGRESS when another job claimed this version first
+    const edition = await editions.startEdition(
+      lounge.id,
+      editionDate,
+      editionType
+    );
+
+    try {
+      const rendered =
+        editionType === 'weekly'
+          ? await this.renderWeeklyEdition(lounge, edition)
+          : await this.renderDailyEdition(lounge, edition);
+      if (!rendered) {
+        await editions.closeEdition(edition.id, 'empty');
+        return null;
       }
 
+      const ready = await editions.completeEdition(edition.id, rendered);
+
       console.log(
-        `Successfully sent ${lounge.name} digest to ${recipientEmail}`
+        `Built ${lounge.name} ${editionType} digest edition ${editionDate} v${ready.version}`
+      );
+      return ready;
+    } catch (error) {
+      await editions.closeEdition(
+        edition.id,
+        'failed',
+        error instanceof Error ? error.message : String(error)
       );
+      throw error;
+    }
+  }
 
-      // Update last_sent timestamp in email_digests table
-      await this.updateLastSent(recipientEmail, lounge.id);
+  private static async renderDailyEdition(
+    lounge: Lounge,
+    edition: DigestEdition
+  ): Promise<RenderedEdition | null> {
+    const inputs = await this.buildDigestInputs(lounge);
+    if (!inputs) return null;
+
+    const rendered = await renderWithPlaceholders(
+      DailyDigestEmail({
+        ...inputs,
+        ...getTrackingProps(edition.id),
+        webVersionUrl: getWebVersionUrl(edition),
+        advertisersSlot: DIGEST_PLACEHOLDERS.ADVERTISERS,
+        recipientEmail: DIGEST_PLACEHOLDERS.RECIPIENT_EMAIL,
+        unsubscribeUrl: DIGEST_PLACEHOLDERS.UNSUBSCRIBE_URL,
+      })
+    );
 
-      // End the digest session to clear image caches
-      OpenGraphService.endDigestSession();
+    return {
+      ...rendered,
+      subject: `${lounge.name} Daily Digest - ${formatEditionDate(edition.edition_date)}`,
+      inputs: inputs as unknown as Json,
+    };
+  }
+
+  private static async renderWeeklyEdition(
+    lounge: Lounge,
+    edition: DigestEdition
+  ): Promise<RenderedEdition | null> {
+    const weekly = new WeeklyDigestService(getSupabaseClient());
+    const inputs = await weekly.buildWeeklyInputs(
+      lounge,
+      new Date(`${edition.edition_date}T00:00:00Z`)
+    );
+    if (!inputs) return null;
+
+    const rendered = await renderWithPlaceholders(
+      WeeklyDigestEmail({
+        ...inputs,
+        ...getTrackingProps(edition.id),
+        webVersionUrl: getWebVersionUrl(edition),
+        advertisersSlot: DIGEST_PLACEHOLDERS.ADVERTISERS,
+        recipientEmail: DIGEST_PLACEHOLDERS.RECIPIENT_EMAIL,
+        unsubscribeUrl: DIGEST_PLACEHOLDERS.UNSUBSCRIBE_URL,
+      })
+    );
+
+    return {
+      ...rendered,
+      subject: `${lounge.name} Weekly Best Of - ${inputs.weekLabel}`,
+      inputs: inputs as unknown as Json,
+    };
+  }
+
+  /**
+   * When a lounge last got something to send: an AI news summary or content
+   * above the lounge threshold. Null when it has neither.
+   */
+  static async getLatestContentAt(loungeId: string): Promise<Date | null> {
+    const supabase = getSupabaseClient();
+
+    const [{ data: summary }, { data: lounge }, { data: creatorLounges }] =
+      await Promise.all([
+        supabase
+          .from('daily_news_summaries')
+          .select('generated_at')
+          .eq('lounge_id', loungeId)
+          .order('generated_at', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+        supabase
+          .from('lounges')
+          .select('relevancy_threshold')
+          .eq('id', loungeId)
+          .single(),
+        supabase
+          .from('creator_lounges')
+          .select('creator_id')
+          .eq('lounge_id', loungeId),
+      ]);
+
+    const creatorIds = (creatorLounges || []).map((cl) => cl.creator_id);
+
+    // created_at rather than published_at: late-fetched posts still count as new
+    const { data: content } =
+      creatorIds.length > 0
+        ? await supabase
+            .from('content')
+            .select('created_at')
+            .in('creator_id', creatorIds)
+            .eq('processing_status', 'processed')
+            .eq('is_primary', true)
+            .gte('relevancy_score', lounge?.relevancy_threshold || 70)
+            .order('created_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+        : { data: null };
+
+    const times = [summary?.generated_at, content?.created_at]
+      .filter((time): time is string => Boolean(time))
+      .map((time) => new Date(time).getTime());
+
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+  }
+
+  /**
+   * Whether a lounge has anything new to send since a user's last digest
+   */
+  static async hasNewContentSince(
+    loungeId: string,
+    since: string
+  ): Promise<boolean> {
+    const latest = await this.getLatestContentAt(loungeId);
+    return latest !== null && latest > new Date(since);
+  }
+
+  /**
+   * Recipients of a daily edition with something new since their last
+   * digest. Checked once per lounge rather than per recipient.
+   */
+  static async getRecipientsWithNewContent(
+    loungeId: string,
+    recipients: ScheduledRecipient[]
+  ): Promise<ScheduledRecipient[]> {
+    if (recipients.every((recipient) => !recipient.lastSent)) {
+      return recipients;
+    }
+
+    const latest = await this.getLatestContentAt(loungeId);
+    return recipients.filter(
+      (recipient) =>
+        !recipient.lastSent ||
+        (latest !== null && latest > new Date(recipient.lastSent))
+    );
+  }
+
+  /**
+   * Per-recipient unsubscribe link filled into each edition: the signed
+   * preference center when configured, otherwise account settings (which
+   * needs a sign-in)
+   */
+  static getUnsubscribeUrl(userId?: string, loungeId?: string): string {
+    if (userId && isPreferenceLinksEnabled()) {
+      return getPreferencesUrl(userId, loungeId);
+    }
+    return `${process.env.NEXT_PUBLIC_APP_URL}/settings/account`;
+  }
+
+  /**
+   * RFC 8058 one-click unsubscribe headers for a subscriber's copy
+   */
+  private static getListUnsubscribeHeaders(
+    edition: DigestEdition,
+    userId?: string
+  ): Record<string, string> | undefined {
+    if (!userId || !isPreferenceLinksEnabled()) return undefined;
+
+    return {
+      'List-Unsubscribe': `<${getOneClickUnsubscribeUrl(userId, edition.lounge_id, edition.edition_type)}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+  }
+
+  /**
+   * Whether a user has consented to digest open and click tracking
+   */
+  static async hasAnalyticsConsent(userId: string): Promise<boolean> {
+    if (!isDigestTrackingEnabled()) return false;
+
+    const { data } = await getSupabaseClient()
+      .from('users')
+      .select('consent_details')
+      .eq('id', userId)
+      .maybeSingle();
+
+    return hasAnalyticsConsent(data?.consent_details || null);
+  }
+
+  /**
+   * Sponsors for one recipient of an edition. Frequency caps only apply with
+   * a user. Editions rendered before sponsors were chosen per recipient have
+   * them baked in and get none.
+   */
+  private static async chooseCampaigns(
+    edition: DigestEdition,
+    userId: string | null
+  ): Promise<AdCampaign[]> {
+    if (!edition.html?.includes(DIGEST_PLACEHOLDERS.ADVERTISERS)) return [];
+
+    try {
+      return await new AdCampaignService(getSupabaseClient()).chooseCampaigns(
+        edition.lounge_id,
+        userId
+      );
     } catch (error) {
-      console.error(`Error sending digest for ${lounge.name}:`, error);
+      // A digest without sponsors beats no digest
+      console.error('Failed to choose digest advertisers:', error);
+      return [];
+    }
+  }
 
-      // End session even on error to clean up
-      try {
-        const { OpenGraphService } = await import('./opengraph-service');
-        OpenGraphService.endDigestSession();
-      } catch (cleanupError) {
-        console.error('Error cleaning up session:', cleanupError);
-      }
+  /**
+   * Send a rendered edition to one address. Returns the provider message ID.
+   * Without a tracking token, tracked links redirect without recording;
+   * without a user, there are no one-click unsubscribe links.
+   */
+  private static async sendEdition(
+    edition: DigestEdition,
+    recipientEmail: string,
+    options: {
+      userId?: string;
+      trackingToken?: string;
+      campaigns?: AdCampaign[];
+    } = {}
+  ): Promise<string | null> {
+    if (edition.status !== 'ready' || !edition.html) {
+      throw new DigestError('Digest edition is not ready', 'NOT_READY', 409);
+    }
+
+    const fields = {
+      email: recipientEmail,
+      unsubscribeUrl: this.getUnsubscribeUrl(options.userId, edition.lounge_id),
+      trackingToken: options.trackingToken,
+      advertisers: await renderAdvertisers(edition, options.campaigns || []),
+    };
+
+    const { data, error } = await getResendClient().emails.send({
+      from: FROM_EMAIL,
+      to: recipientEmail,
+      subject: edition.subject || 'Daily Digest',
+      html: personalizeEdition(edition.html, fields),
+      text: edition.text_body
+        ? personalizeEdition(edition.text_body, fields, 'text')
+        : undefined,
+      headers: this.getListUnsubscribeHeaders(edition, options.userId),
+    });
+
+    if (error) {
+      console.error(`Failed to send digest to ${recipientEmail}:`, error);
+      throw error;
+    }
+
+    return data?.id || null;
+  }
+
+  /**
+   * Deliver an edition to a subscriber, at most once per lounge and day (or
+   * week, for weekly editions). Returns false when the subscriber already
+   * received it.
+   */
+  static async deliverEdition(
+    editionId: string,
+    recipient: DigestRecipient
+  ): Promise<boolean> {
+    const editions = new DigestEditionService(getSupabaseClient());
+    const edition = await editions.getEdition(editionId);
+
+    const tracked = await this.hasAnalyticsConsent(recipient.userId);
+    const delivery = await editions.claimDelivery(edition, recipient, {
+      tracked,
+    });
+    if (!delivery) {
+      console.log(
+        `${edition.edition_type} digest edition ${edition.edition_date} already sent to ${recipient.email}`
+      );
+      return false;
+    }
+
+    const campaigns = await this.chooseCampaigns(edition, recipient.userId);
+    try {
+      const messageId = await this.sendEdition(edition, recipient.email, {
+        userId: recipient.userId,
+        // Every recipient gets a token so advertiser clicks can be billed;
+        // analytics events still need the delivery to be tracked
+        trackingToken: isDigestTrackingEnabled()
+          ? createRecipientToken(delivery.id)
+          : undefined,
+        campaigns,
+      });
+      await editions.recordDelivery(delivery.id, { messageId });
+    } catch (error) {
+      await editions.recordDelivery(delivery.id, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
 
+    try {
+      await new AdCampaignService(getSupabaseClient()).recordImpressions(
+        campaigns.map((c) => c.id),
+        {
+          userId: recipient.userId,
+          loungeId: edition.lounge_id,
+          deliveryId: delivery.id,
+        }
+      );
+    } catch (error) {
+      console.error('Failed to record advertiser impressions:', error);
+    }
+
+    // Update last_sent timestamp in email_digests table
+    await this.updateLastSent(recipient.email, edition.lounge_id);
+    return true;
+  }
+
+  /**
+   * Get a lounge by ID with the fields the digest needs
+   */
+  static async getLounge(loungeId: string): Promise<Lounge | null> {
+    const supabase = getSupabaseClient();
+
+    const { data, error } = await supabase
+      .from('lounges')
+      .select('id, name, description, theme_description')
+      .eq('id', loungeId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching lounge:', error);
       throw error;
     }
+
+    return data;
+  }
+
+  /**
+   * The lounge editions a scheduler run's recipients are subscribed to, each
+   * with who it goes to. Suppressed addresses are left out.
+   */
+  static async getDueEditions(
+    recipients: ScheduledRecipient[]
+  ): Promise<DueEdition[]> {
+    const supabase = getSupabaseClient();
+
+    const suppressed = await new EmailSuppressionService(
+      supabase
+    ).getSuppressedEmails(recipients.map((recipient) => recipient.email));
+    const recipientsById = new Map(
+      recipients
+        .filter((recipient) => !suppressed.has(recipient.email.toLowerCase()))
+        .map((recipient) => [recipient.userId, recipient])
+    );
+    const userIds = [...recipientsById.keys()];
+
+    // One edition per lounge and type, e.g. "<lounge id>:weekly"
+    const editions = new Map<string, DueEdition>();
+
+    for (let i = 0; i < userIds.length; i += SUBSCRIPTION_BATCH_SIZE) {
+      const { data, error } = await supabase
+        .from('lounge_digest_subscriptions')
+        .select('user_id, lounge_id, subscribed, weekly_subscribed')
+        .in('user_id', userIds.slice(i, i + SUBSCRIPTION_BATCH_SIZE))
+        .or('subscribed.eq.true,weekly_subscribed.eq.true');
+
+      if (error) {
+        throw new DigestError(
+          `Failed to fetch digest subscriptions: ${error.message}`,
+          'STORAGE_ERROR',
+          500
+        );
+      }
+
+      for (const subscription of data || []) {
+        const recipient = recipientsById.get(subscription.user_id);
+        if (!recipient) continue;
+
+        const editionTypes: DigestEditionType[] = [];
+        if (subscription.subscribed) editionTypes.push('daily');
+        if (subscription.weekly_subscribed) editionTypes.push('weekly');
+
+        for (const editionType of editionTypes) {
+          const key = `${subscription.lounge_id}:${editionType}`;
+          const edition: DueEdition = editions.get(key) || {
+            loungeId: subscription.lounge_id,
+            editionType,
+            recipients: [],
+          };
+          edition.recipients.push({
+            userId: recipient.userId,
+            email: recipient.email,
+            lastSent: recipient.lastSent,
+          });
+          editions.set(key, edition);
+        }
+      }
+    }
+
+    return [...editions.values()];
   }
 
   /**
-   * Send daily digests for subscribed lounges to a user
+   * Send today's edition of a lounge digest to one address, building it if
+   * needed. Used for test sends; subscribers go through deliverEdition.
    */
-  static async sendDailyDigests(recipientEmail: string): Promise<void> {
+  static async sendLoungeDigest(
+    lounge: Lounge,
+    recipientEmail: string
+  ): Promise<void> {
+    const edition = await this.buildLoungeEdition(lounge);
+    if (!edition) return;
+
+    await this.sendEdition(edition, recipientEmail, {
+      campaigns: await this.chooseCampaigns(edition, null),
+    });
+    console.log(`Successfully sent ${lounge.name} digest to ${recipientEmail}`);
+
+    await this.updateLastSent(recipientEmail, lounge.id);
+  }
+
+  /**
+   * Send digests for subscribed lounges to a user. Daily digests for lounges
+   * with nothing new since `lastSent` are skipped; a weekly subscription goes
+   * out at the user's first scheduled send of the week.
+   */
+  static async sendDailyDigests(
+    recipientEmail: string,
+    lastSent?: string | null
+  ): Promise<void> {
     const supabase = getSupabaseClient();
 
+    // Addresses that bounced or complained aren't mailed
+    if (
+      await new EmailSuppressionService(supabase).isSuppressed(recipientEmail)
+    ) {
+      console.log(`Skipping digests for suppressed address ${recipientEmail}`);
+      return;
+    }
+
     // Get user ID from email
     const { data: userData, error: userError } = await supabase
       .from('users')
@@ -706,9 +1292,9 @@ export class DigestService {
     // Get lounges this user is subscribed to
     const { data: subscriptions, error: subError } = await supabase
       .from('lounge_digest_subscriptions')
-      .select('lounge_id')
+      .select('lounge_id, subscribed, weekly_subscribed')
       .eq('user_id', userData.id)
-      .eq('subscribed', true);
+      .or('subscribed.eq.true,weekly_subscribed.eq.true');
 
     if (subError) {
       console.error('Error fetching subscriptions:', subError);
@@ -736,16 +1322,46 @@ export class DigestService {
       `Sending ${lounges.length} lounge digests to ${recipientEmail}`
     );
 
-    // Send digest for each subscribed lounge
+    const recipient = { userId: userData.id, email: recipientEmail };
+
+    // Send each subscribed lounge's shared editions
     for (const lounge of lounges) {
-      try {
-        await this.sendLoungeDigest(lounge, recipientEmail);
+      const subscription = subscriptions.find((s) => s.lounge_id === lounge.id);
 
-        // Add a small delay between emails to avoid rate limiting
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      } catch (error) {
-        console.error(`Failed to send ${lounge.name} digest:`, error);
-        // Continue with other lounges even if one fails
+      if (subscription?.subscribed) {
+        try {
+          if (
+            lastSent &&
+            !(await this.hasNewContentSince(lounge.id, lastSent))
+          ) {
+            console.log(
+              `No new ${lounge.name} content since ${lastSent}, skipping for ${recipientEmail}`
+            );
+          } else {
+            const edition = await this.buildLoungeEdition(lounge);
+            if (edition && (await this.deliverEdition(edition.id, recipient))) {
+              // Add a small delay between emails to avoid rate limiting
+              await new Promise((resolve) => setTimeout(resolve, 1000));
+            }
+          }
+        } catch (error) {
+          console.error(`Failed to send ${lounge.name} digest:`, error);
+          // Continue with other lounges even if one fails
+        }
+      }
+
+      if (subscription?.weekly_subscribed) {
+        try {
+          // Deliveries are unique per week, so later sends this week no-op
+          const edition = await this.buildLoungeEdition(lounge, {
+            editionType: 'weekly',
+          });
+          if (edition && (await this.deliverEdition(edition.id, recipient))) {
+            await new Promise((resolve) => setTimeout(resolve, 1000));
+          }
+        } catch (error) {
+          console.error(`Failed to send ${lounge.name} weekly digest:`, error);
+        }
       }
     }
   }
@@ -771,23 +1387,37 @@ export class DigestService {
       return;
     }
 
-    // Update or create email_digest record
-    const { error } = await supabase.from('email_digests').upsert(
-      {
-        user_id: userData.id,
-        frequency: 'daily',
-        last_sent: new Date().toISOString(),
-        active: true,
+    // Only touch delivery fields so the user's schedule is kept
+    const now = new Date().toISOString();
+    const { data: updated, error } = await supabase
+      .from('email_digests')
+      .update({
+        last_sent: now,
         lounges_included: loungeId ? [loungeId] : null,
-        updated_at: new Date().toISOString(),
-      },
-      {
-        onConflict: 'user_id',
-      }
-    );
+        updated_at: now,
+      })
+      .eq('user_id', userData.id)
+      .select('id');
 
     if (error) {
       console.error('Error updating last_sent:', error);
+      return;
+    }
+
+    if (!updated || updated.length === 0) {
+      const { error: insertError } = await supabase
+        .from('email_digests')
+        .insert({
+          user_id: userData.id,
+          frequency: 'daily',
+          last_sent: now,
+          active: true,
+          lounges_included: loungeId ? [loungeId] : null,
+        });
+
+      if (insertError) {
+        console.error('Error creating email digest record:', insertError);
+      }
     }
   }
 
@@ -801,7 +1431,11 @@ export class DigestService {
     const { data, error } = await supabase
       .from('lounge_digest_subscriptions')
       .select('users!inner(email)')
-      .eq('subscribed', true);
+      .or('subscribed.eq.true,weekly_subscribed.eq.true')
+      .overrideTypes<
+        Array<{ users: Pick<Tables<'users'>, 'email'> }>,
+        { merge: false }
+      >();
 
     if (error) {
       console.error('Error fetching users with subscriptions:', error);
@@ -809,9 +1443,16 @@ export class DigestService {
     }
 
     // Deduplicate emails (in case a user is subscribed to multiple lounges)
-    const uniqueEmails = [
-      ...new Set(data?.map((d: any) => d.users.email) || []),
+    // and drop addresses on the suppression list
+    const subscribedEmails = [
+      ...new Set<string>(data?.map((d) => d.users.email) || []),
     ];
+    const suppressed = await new EmailSuppressionService(
+      supabase
+    ).getSuppressedEmails(subscribedEmails);
+    const uniqueEmails = subscribedEmails.filter(
+      (email) => !suppressed.has(email.toLowerCase())
+    );
 
     console.log(`Found ${uniqueEmails.length} users with lounge subscriptions`);
     return uniqueEmails;
@@ -0,0 +1,335 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Tables } from '@/types/database.types';
+import { DigestError } from '@/types/digest';
+import {
+  EMAIL_FEEDBACK_EVENTS,
+  type EmailFeedbackEventType,
+  type EmailSuppression,
+  type ResendWebhookEvent,
+} from '@/types/email-delivery';
+
+// How far a webhook timestamp may drift from our clock
+export const WEBHOOK_TOLERANCE_MS = 5 * 60 * 1000;
+
+// Consecutive soft bounces before an address is treated as dead
+export const MAX_SOFT_BOUNCES = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Addresses per suppression lookup, to keep the filter URL short
+const LOOKUP_BATCH_SIZE = 200;
+
+export interface WebhookSignatureHeaders {
+  id: string | null;
+  timestamp: string | null;
+  signature: string | null;
+}
+
+// Resend secrets are `whsec_` followed by the base64 key
+function decodeSecret(secret: string): Buffer {
+  return Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+}
+
+/**
+ * Signature for a webhook body, as Resend (via Svix) sends it: `v1,` and a
+ * base64 HMAC of `id.timestamp.body`. Also used by the local fake.
+ */
+export function signResendPayload(
+  secret: string,
+  id: string,
+  timestamp: string,
+  body: string
+): string {
+  const signature = createHmac('sha256', decodeSecret(secret))
+    .update(`${id}.${timestamp}.${body}`)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+/**
+ * Whether a webhook request was signed with our secret recently. The header
+ * may carry several space-separated signatures during secret rotation.
+ */
+export function verifyResendSignature(
+  secret: string,
+  headers: WebhookSignatureHeaders,
+  body: string,
+  now: Date = new Date()
+): boolean {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) return false;
+
+  const sentAt = Number(timestamp) * 1000;
+  if (!Number.isFinite(sentAt)) return false;
+  if (Math.abs(now.getTime() - sentAt) > WEBHOOK_TOLERANCE_MS) return false;
+
+  const expected = Buffer.from(signResendPayload(secret, id, timestamp, body));
+  return signature.split(' ').some((candidate) => {
+    const actual = Buffer.from(candidate);
+    return (
+      actual.length === expected.length && timingSafeEqual(actual, expected)
+    );
+  });
+}
+
+/**
+ * Permanent bounces are hard; transient and undetermined ones are retried
+ */
+export function classifyBounce(
+  bounce: ResendWebhookEvent['data']['bounce']
+): 'hard' | 'soft' {
+  return bounce?.type?.toLowerCase() === 'permanent' ? 'hard' : 'soft';
+}
+
+/**
+ * How long to hold an address after its nth consecutive soft bounce:
+ * 1, 2, 4, 8... days, capped at 30
+ */
+export function getSoftBounceBackoff(count: number): number {
+  return Math.min(2 ** Math.max(count - 1, 0), 30) * DAY_MS;
+}
+
+/**
+ * Whether a suppression currently blocks sends
+ */
+export function isSuppressionActive(
+  suppression: Pick<EmailSuppression, 'reason' | 'suppressed_until'>,
+  now: Date = new Date()
+): boolean {
+  if (suppression.reason !== 'soft_bounce') return true;
+  return (
+    !!suppression.suppressed_until &&
+    new Date(suppression.suppressed_until) > now
+  );
+}
+
+function isFeedbackEvent(type: string): type is EmailFeedbackEventType {
+  return (EMAIL_FEEDBACK_EVENTS as readonly string[]).includes(type);
+}
+
+/**
+ * Email Suppression Service
+ *
+ * Records delivery feedback from Resend webhooks and keeps the list of
+ * addresses digests skip. Expects a service-role client.
+ */
+export class EmailSuppressionService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Store a webhook event and update the recipient's suppression. Returns
+   * false for events we don't act on and for redelivered webhooks.
+   *
+   * The event is only marked processed once the suppression is written, so
+   * a retry after a failed write applies it again rather than being dropped.
+   */
+  async recordEvent(
+    providerEventId: string,
+    event: ResendWebhookEvent,
+    now: Date = new Date()
+  ): Promise<boolean> {
+    if (!isFeedbackEvent(event.type)) return false;
+
+    const to = event.data.to;
+    const email = (Array.isArray(to) ? to[0] : to)?.trim().toLowerCase();
+    if (!email) return false;
+
+    const { error } = await this.supabase.from('email_events').upsert(
+      {
+        provider_event_id: providerEventId,
+        provider_message_id: event.data.email_id || null,
+        email,
+        event_type: event.type,
+        bounce_type: event.data.bounce?.type || null,
+        detail: event.data.bounce?.message || null,
+      },
+      { onConflict: 'provider_event_id', ignoreDuplicates: true }
+    );
+
+    if (error) {
+      throw new DigestError(
+        `Failed to record email event: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const { data: stored, error: fetchError } = await this.supabase
+      .from('email_events')
+      .select('processed_at')
+      .eq('provider_event_id', providerEventId)
+      .maybeSingle()
+      .overrideTypes<
+        Pick<Tables<'email_events'>, 'processed_at'>,
+        { merge: false }
+      >();
+
+    if (fetchError) {
+      throw new DigestError(
+        `Failed to fetch email event: ${fetchError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (stored?.processed_at) return false;
+
+    switch (event.type) {
+      case 'email.complained':
+        await this.suppress(email, 'complaint', now);
+        break;
+      case 'email.bounced':
+        if (classifyBounce(event.data.bounce) === 'hard') {
+          await this.suppress(email, 'hard_bounce', now);
+        } else {
+          await this.recordSoftBounce(email, now);
+        }
+        break;
+      case 'email.delivered':
+        await this.clearSoftBounces(email);
+        break;
+    }
+
+    const { error: markError } = await this.supabase
+      .from('email_events')
+      .update({ processed_at: now.toISOString() })
+      .eq('provider_event_id', providerEventId);
+
+    if (markError) {
+      throw new DigestError(
+        `Failed to mark email event processed: ${markError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return true;
+  }
+
+  private async getSuppression(
+    email: string
+  ): Promise<EmailSuppression | null> {
+    const { data, error } = await this.supabase
+      .from('email_suppressions')
+      .select('*')
+      .eq('email', email)
+      .maybeSingle();
+
+    if (error) {
+      throw new DigestError(
+        `Failed to fetch email suppression: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as EmailSuppression | null;
+  }
+
+  private async suppress(
+    email: string,
+    reason: EmailSuppression['reason'],
+    now: Date,
+    changes: Partial<EmailSuppression> = {}
+  ): Promise<void> {
+    const { error } = await this.supabase.from('email_suppressions').upsert(
+      {
+        email,
+        reason,
+        suppressed_until: null,
+        last_event_at: now.toISOString(),
+        updated_at: now.toISOString(),
+        ...changes,
+      },
+      { onConflict: 'email' }
+    );
+
+    if (error) {
+      throw new DigestError(
+        `Failed to suppress ${email}: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  /**
+   * Hold an address for a growing backoff; too many in a row and it's
+   * suppressed for good. Never downgrades a permanent suppression.
+   */
+  private async recordSoftBounce(email: string, now: Date): Promise<void> {
+    const current = await this.getSuppression(email);
+    if (current && current.reason !== 'soft_bounce') return;
+
+    const count = (current?.soft_bounce_count || 0) + 1;
+    if (count >= MAX_SOFT_BOUNCES) {
+      await this.suppress(email, 'hard_bounce', now, {
+        soft_bounce_count: count,
+      });
+      return;
+    }
+
+    await this.suppress(email, 'soft_bounce', now, {
+      soft_bounce_count: count,
+      suppressed_until: new Date(
+        now.getTime() + getSoftBounceBackoff(count)
+      ).toISOString(),
+    });
+  }
+
+  // A successful delivery ends a run of soft bounces
+  private async clearSoftBounces(email: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('email_suppressions')
+      .delete()
+      .eq('email', email)
+      .eq('reason', 'soft_bounce');
+
+    if (error) {
+      throw new DigestError(
+        `Failed to clear soft bounces: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  /**
+   * Which of the given addresses shouldn't be mailed right now, lowercased
+   */
+  async getSuppressedEmails(
+    emails: string[],
+    now: Date = new Date()
+  ): Promise<Set<string>> {
+    const candidates = Array.from(
+      new Set(emails.map((email) => email.trim().toLowerCase()))
+    );
+    const suppressed = new Set<string>();
+
+    for (let i = 0; i < candidates.length; i += LOOKUP_BATCH_SIZE) {
+      const { data, error } = await this.supabase
+        .from('email_suppressions')
+        .select('email, reason, suppressed_until')
+        .in('email', candidates.slice(i, i + LOOKUP_BATCH_SIZE))
+        .or(`reason.neq.soft_bounce,suppressed_until.gt.${now.toISOString()}`);
+
+      if (error) {
+        throw new DigestError(
+          `Failed to fetch email suppressions: ${error.message}`,
+          'STORAGE_ERROR',
+          500
+        );
+      }
+
+      for (const row of data || []) {
+        if (isSuppressionActive(row, now)) suppressed.add(row.email);
+      }
+    }
+
+    return suppressed;
+  }
+
+  async isSuppressed(email: string, now: Date = new Date()): Promise<boolean> {
+    const suppression = await this.getSuppression(email.trim().toLowerCase());
+    return !!suppression && isSuppressionActive(suppression, now);
+  }
+}
@@ -0,0 +1,464 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Tables } from '@/types/database.types';
+
+export type FeedFormat = 'rss' | 'atom' | 'json';
+
+export interface FeedEntry {
+  id: string;
+  url: string;
+  title: string;
+  summary: string | null;
+  author: string | null;
+  published_at: string;
+  image?: string | null;
+  tags?: string[];
+}
+
+export interface FeedDocument {
+  title: string;
+  description: string;
+  // Page the feed mirrors in the app
+  homePageUrl: string;
+  // Canonical feed URL, without the token
+  feedUrl: string;
+  entries: FeedEntry[];
+}
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+  json: 'application/feed+json; charset=utf-8',
+};
+
+const DEFAULT_FEED_LIMIT = 50;
+
+const FEED_CONTENT_SELECT = `
+  id,
+  title,
+  description,
+  url,
+  thumbnail_url,
+  published_at,
+  ai_summary_short,
+  ai_summary_long,
+  creators!inner(
+    display_name
+  )
+`;
+
+/**
+ * Lounge feeds follow lounge visibility: system lounges are open to every
+ * user, custom lounges only to their owner
+ */
+export function canReadLoungeFeed(
+  lounge: Pick<Tables<'lounges'>, 'user_id' | 'is_system_lounge'>,
+  userId: string
+): boolean {
+  return Boolean(lounge.is_system_lounge) || lounge.user_id === userId;
+}
+
+/**
+ * Feed scope for a lounge, or for saved items (optionally one collection)
+ */
+export function loungeFeedScope(loungeId: string): string {
+  return `lounge:${loungeId}`;
+}
+
+export function savedFeedScope(collectionId?: string | null): string {
+  return `saved:${collectionId || 'all'}`;
+}
+
+function getFeedSecret(): string {
+  const secret = process.env.FEED_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error('FEED_TOKEN_SECRET is not configured');
+  }
+  return secret;
+}
+
+function signFeedScope(userId: string, scope: string): string {
+  return createHmac('sha256', getFeedSecret())
+    .update(`${userId}:${scope}`)
+    .digest('base64url');
+}
+
+/**
+ * Token for a feed URL. Feed readers can't send cookies, so the token carries
+ * the user ID and an HMAC over user and scope; rotating FEED_TOKEN_SECRET
+ * revokes every issued URL.
+ */
+export function createFeedToken(userId: string, scope: string): string {
+  return `${userId}.${signFeedScope(userId, scope)}`;
+}
+
+/**
+ * User ID from a feed token, or null when it wasn't issued for this scope
+ */
+export function verifyFeedToken(
+  token: string | null,
+  scope: string
+): string | null {
+  if (!token) return null;
+
+  const separator = token.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const userId = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(signFeedScope(userId, scope));
+
+  if (
+    signature.length !== expected.length ||
+    !timingSafeEqual(signature, expected)
+  ) {
+    return null;
+  }
+
+  return userId;
+}
+
+/**
+ * Requested output format: ?format=atom|json, defaulting to RSS
+ */
+export function parseFeedFormat(value: string | null): FeedFormat {
+  return value === 'atom' || value === 'json' ? value : 'rss';
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+export function buildRssFeed(feed: FeedDocument): string {
+  const items = feed.entries
+    .map((entry) =>
+      [
+        '    <item>',
+        `      <title>${escapeXml(entry.title)}</title>`,
+        `      <link>${escapeXml(entry.url)}</link>`,
+        `      <guid isPermaLink="false">${escapeXml(entry.id)}</guid>`,
+        `      <pubDate>${new Date(entry.published_at).toUTCString()}</pubDate>`,
+        entry.author &&
+          `      <dc:creator>${escapeXml(entry.author)}</dc:creator>`,
+        entry.summary &&
+          `      <description>${escapeXml(entry.summary)}</description>`,
+        ...(entry.tags || []).map(
+          (tag) => `      <category>${escapeXml(tag)}</category>`
+        ),
+        '    </item>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homePageUrl)}</link>
+    <description>${escapeXml(feed.description)}</description>
+    <atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${new Date().toUTCString()}</lastBuildDate>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+export function buildAtomFeed(feed: FeedDocument): string {
+  const updated = feed.entries[0]?.published_at || new Date().toISOString();
+  const entries = feed.entries
+    .map((entry) =>
+      [
+        '  <entry>',
+        `    <id>urn:uuid:${escapeXml(entry.id)}</id>`,
+        `    <title>${escapeXml(entry.title)}</title>`,
+        `    <link href="${escapeXml(entry.url)}"/>`,
+        `    <updated>${new Date(entry.published_at).toISOString()}</updated>`,
+        entry.author &&
+          `    <author><name>${escapeXml(entry.author)}</name></author>`,
+        entry.summary &&
+          `    <summary type="text">${escapeXml(entry.summary)}</summary>`,
+        ...(entry.tags || []).map(
+          (tag) => `    <category term="${escapeXml(tag)}"/>`
+        ),
+        '  </entry>',
+      ]
+        .filter(Boolean)
+        .join('\n')
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeXml(feed.feedUrl)}</id>
+  <title>${escapeXml(feed.title)}</title>
+  <subtitle>${escapeXml(feed.description)}</subtitle>
+  <link href="${escapeXml(feed.homePageUrl)}"/>
+  <link rel="self" href="${escapeXml(feed.feedUrl)}"/>
+  <updated>${new Date(updated).toISOString()}</updated>
+${entries}
+</feed>
+`;
+}
+
+/**
+ * JSON Feed 1.1 (https://www.jsonfeed.org/version/1.1/)
+ */
+export function buildJsonFeed(feed: FeedDocument) {
+  return {
+    version: 'https://jsonfeed.org/version/1.1',
+    title: feed.title,
+    description: feed.description,
+    home_page_url: feed.homePageUrl,
+    feed_url: feed.feedUrl,
+    items: feed.entries.map((entry) => ({
+      id: entry.id,
+      url: entry.url,
+      title: entry.title,
+      content_text: entry.summary || entry.title,
+      summary: entry.summary || undefined,
+      image: entry.image || undefined,
+      date_published: new Date(entry.published_at).toISOString(),
+      authors: entry.author ? [{ name: entry.author }] : undefined,
+      tags: entry.tags?.length ? entry.tags : undefined,
+    })),
+  };
+}
+
+export function renderFeed(
+  feed: FeedDocument,
+  format: FeedFormat
+): { body: string; contentType: string } {
+  const body =
+    format === 'json'
+      ? JSON.stringify(buildJsonFeed(feed))
+      : format === 'atom'
+        ? buildAtomFeed(feed)
+        : buildRssFeed(feed);
+
+  return { body, contentType: FEED_CONTENT_TYPES[format] };
+}
+
+// content row as selected by FEED_CONTENT_SELECT
+type FeedContentRow = Pick<
+  Tables<'content'>,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'url'
+  | 'thumbnail_url'
+  | 'published_at'
+  | 'ai_summary_short'
+  | 'ai_summary_long'
+> & { creators: Pick<Tables<'creators'>, 'display_name'> };
+
+/**
+ * Map a content row to a feed entry, preferring the AI summary
+ */
+function toFeedEntry(row: FeedContentRow, tags?: string[]): FeedEntry {
+  const summary =
+    row.ai_summary_short || row.ai_summary_long || row.description || null;
+
+  return {
+    id: row.id,
+    url: row.url,
+    title: row.title || summary?.slice(0, 120) || 'Untitled',
+    summary,
+    author: row.creators?.display_name || null,
+    // Undated items sort last in readers
+    published_at: row.published_at || new Date(0).toISOString(),
+    image: row.thumbnail_url,
+    tags,
+  };
+}
+
+/**
+ * Feed Export Service
+ *
+ * Loads lounge and saved-item content for personal RSS, Atom and JSON feeds.
+ * Expects a service-role client: access is checked through the feed token
+ * and, for lounges, the lounge's visibility.
+ */
+export class FeedExportService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Lounge content that passed the lounge's relevancy threshold, primary
+   * copies only, newest first. Null when the user can no longer read the
+   * lounge, so issued tokens stop working with access.
+   */
+  async getLoungeFeed(
+    userId: string,
+    loungeId: string,
+    limit: number = DEFAULT_FEED_LIMIT
+  ): Promise<{
+    lounge: { name: string; description: string | null };
+    entries: FeedEntry[];
+  } | null> {
+    const { data: lounge } = await this.supabase
+      .from('lounges')
+      .select(
+        'name, description, relevancy_threshold, user_id, is_system_lounge'
+      )
+      .eq('id', loungeId)
+      .maybeSingle();
+
+    if (!lounge || !canReadLoungeFeed(lounge, userId)) return null;
+
+    const { data: creatorLounges } = await this.supabase
+      .from('creator_lounges')
+      .select('creator_id')
+      .eq('lounge_id', loungeId);
+
+    const creatorIds = (creatorLounges || []).map(
+      (cl: { creator_id: string }) => cl.creator_id
+    );
+    if (creatorIds.length === 0) {
+      return { lounge, entries: [] };
+    }
+
+    const [{ data, error }, { data: deleted }] = await Promise.all([
+      this.supabase
+        .from('content')
+        .select(FEED_CONTENT_SELECT)
+        .in('creator_id', creatorIds)
+        .eq('processing_status', 'processed')
+        .eq('is_primary', true)
+        .gte('relevancy_score', lounge.relevancy_threshold || 70)
+        .order('published_at', { ascending: false })
+        .limit(limit)
+        .overrideTypes<FeedContentRow[], { merge: false }>(),
+      this.supabase.rpc('get_deleted_content_for_filtering', {
+        creator_ids: creatorIds,
+      }),
+    ]);
+
+    if (error) {
+      throw new Error(`Failed to fetch lounge feed: ${error.message}`);
+    }
+
+    const deletedIds = new Set(
+      (deleted || []).map((d: { content_id: string }) => d.content_id)
+    );
+
+    return {
+      lounge,
+      entries: (data || [])
+        .filter((row) => !deletedIds.has(row.id))
+        .map((row) => toFeedEntry(row)),
+    };
+  }
+
+  /**
+   * Feed document for a lounge, or null when the lounge doesn't exist or
+   * isn't readable by the user
+   */
+  async buildLoungeFeed(
+    userId: string,
+    loungeId: string,
+    urls: { homePageUrl: string; feedUrl: string }
+  ): Promise<FeedDocument | null> {
+    const feed = await this.getLoungeFeed(userId, loungeId);
+    if (!feed) return null;
+
+    return {
+      ...urls,
+      title: `${feed.lounge.name} · Daily News`,
+      description:
+        feed.lounge.description ||
+        `Top posts from the ${feed.lounge.name} lounge`,
+      entries: feed.entries,
+    };
+  }
+
+  /**
+   * Feed document for saved items, or null when the collection isn't the user's
+   */
+  async buildSavedFeed(
+    userId: string,
+    collectionId: string | null,
+    urls: { homePageUrl: string; feedUrl: string }
+  ): Promise<FeedDocument | null> {
+    const feed = await this.getSavedFeed(userId, collectionId);
+    if (!feed) return null;
+
+    return {
+      ...urls,
+      title: `${feed.name} · Daily News`,
+      description: collectionId
+        ? `Saved items in the ${feed.name} collection`
+        : 'Your saved items',
+      entries: feed.entries,
+    };
+  }
+
+  /**
+   * A user's saved items, newest saves first, tagged with their saved tags
+   */
+  async getSavedFeed(
+    userId: string,
+    collectionId?: string | null,
+    limit: number = DEFAULT_FEED_LIMIT
+  ): Promise<{ name: string; entries: FeedEntry[] } | null> {
+    let name = 'Saved Items';
+
+    if (collectionId) {
+      const { data: collection } = await this.supabase
+        .from('saved_collections')
+        .select('name')
+        .eq('id', collectionId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (!collection) return null;
+      name = collection.name;
+    }
+
+    let query = this.supabase
+      .from('saved_content')
+      .select(`tags, content:content(${FEED_CONTENT_SELECT})`)
+      .eq('user_id', userId);
+
+    if (collectionId) {
+      query = query.eq('collection_id', collectionId);
+    }
+
+    const { data, error } = await query
+      .order('saved_at', { ascending: false })
+      .limit(limit)
+      .overrideTypes<
+        Array<
+          Pick<Tables<'saved_content'>, 'tags'> & {
+            content: FeedContentRow | null;
+          }
+        >,
+        { merge: false }
+      >();
+
+    if (error) {
+      throw new Error(`Failed to fetch saved feed: ${error.message}`);
+    }
+
+    return {
+      name,
+      entries: (data || []).flatMap((row) =>
+        row.content
+          ? [
+              toFeedEntry(
+                row.content,
+                Array.isArray(row.tags) ? (row.tags as string[]) : []
+              ),
+            ]
+          : []
+      ),
+    };
+  }
+}
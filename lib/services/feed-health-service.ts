@@ -0,0 +1,157 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CreatorUrl } from '@/types/creator';
+import type { RSSCacheValidators } from '@/types/rss';
+
+// Feeds failing continuously for this many days are marked invalid
+export const DEFAULT_FEED_DEAD_AFTER_DAYS = 14;
+
+// Weight of the newest sample in the latency moving average
+const LATENCY_SMOOTHING = 0.2;
+
+/**
+ * Exponential moving average of fetch latency
+ */
+export function updateAverageLatency(
+  previous: number | null | undefined,
+  latest: number
+): number {
+  if (!previous) return Math.round(latest);
+  return Math.round(
+    previous * (1 - LATENCY_SMOOTHING) + latest * LATENCY_SMOOTHING
+  );
+}
+
+/**
+ * Median hours between consecutive publish dates, or null with fewer than 2
+ */
+export function calculateItemCadenceHours(
+  publishedAt: Array<string | undefined>
+): number | null {
+  const times = publishedAt
+    .map((date) => (date ? new Date(date).getTime() : NaN))
+    .filter((time) => !Number.isNaN(time))
+    .sort((a, b) => b - a);
+
+  if (times.length < 2) return null;
+
+  const gaps = times
+    .slice(1)
+    .map((time, index) => (times[index] - time) / 3600000)
+    .sort((a, b) => a - b);
+  const middle = Math.floor(gaps.length / 2);
+  const median =
+    gaps.length % 2 ? gaps[middle] : (gaps[middle - 1] + gaps[middle]) / 2;
+
+  return Math.round(median * 100) / 100;
+}
+
+/**
+ * Feed Health Service
+ *
+ * Records the outcome of every feed fetch on its creator_urls row: cache
+ * validators, failure streaks, latency and publishing cadence. Feeds that
+ * keep failing past the dead threshold are flipped to invalid.
+ */
+export class FeedHealthService {
+  private deadAfterDays: number;
+
+  constructor(
+    private supabase: SupabaseClient,
+    options: { deadAfterDays?: number } = {}
+  ) {
+    this.deadAfterDays =
+      options.deadAfterDays ??
+      (Number(process.env.FEED_DEAD_AFTER_DAYS) ||
+        DEFAULT_FEED_DEAD_AFTER_DAYS);
+  }
+
+  /**
+   * Record a successful fetch (200 or 304)
+   */
+  async recordSuccess(
+    creatorUrl: CreatorUrl,
+    result: {
+      latencyMs: number;
+      validators?: RSSCacheValidators;
+      publishedAt?: Array<string | undefined>;
+    }
+  ): Promise<void> {
+    const now = new Date().toISOString();
+    const cadence = result.publishedAt
+      ? calculateItemCadenceHours(result.publishedAt)
+      : null;
+
+    await this.update(creatorUrl.id, {
+      etag: result.validators?.etag ?? creatorUrl.etag ?? null,
+      last_modified:
+        result.validators?.lastModified ?? creatorUrl.last_modified ?? null,
+      last_fetched_at: now,
+      last_success_at: now,
+      failing_since: null,
+      consecutive_failures: 0,
+      last_error: null,
+      average_latency_ms: updateAverageLatency(
+        creatorUrl.average_latency_ms,
+        result.latencyMs
+      ),
+      // A 304 carries no items, so keep the previous cadence
+      item_cadence_hours: cadence ?? creatorUrl.item_cadence_hours ?? null,
+      // A feed that answers again is no longer dead
+      ...(creatorUrl.validation_status === 'invalid' && {
+        validation_status: 'valid',
+        last_validated: now,
+      }),
+    });
+  }
+
+  /**
+   * Record a failed fetch, marking the feed invalid once it has been
+   * failing for longer than the dead threshold
+   */
+  async recordFailure(
+    creatorUrl: CreatorUrl,
+    result: { latencyMs: number; error: string }
+  ): Promise<{ markedInvalid: boolean }> {
+    const now = new Date();
+    const failingSince = creatorUrl.failing_since || now.toISOString();
+    const daysFailing =
+      (now.getTime() - new Date(failingSince).getTime()) / 86400000;
+    const markedInvalid =
+      daysFailing >= this.deadAfterDays &&
+      creatorUrl.validation_status !== 'invalid';
+
+    await this.update(creatorUrl.id, {
+      last_fetched_at: now.toISOString(),
+      failing_since: failingSince,
+      consecutive_failures: (creatorUrl.consecutive_failures || 0) + 1,
+      last_error: result.error.substring(0, 500),
+      average_latency_ms: updateAverageLatency(
+        creatorUrl.average_latency_ms,
+        result.latencyMs
+      ),
+      ...(markedInvalid && {
+        validation_status: 'invalid',
+        last_validated: now.toISOString(),
+      }),
+    });
+
+    if (markedInvalid) {
+      console.warn(
+        `[Feed Health] ${creatorUrl.url} failing for ${Math.floor(daysFailing)} days, marked invalid`
+      );
+    }
+
+    return { markedInvalid };
+  }
+
+  private async update(id: string, data: Record<string, unknown>) {
+    const { error } = await this.supabase
+      .from('creator_urls')
+      .update({ ...data, updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) {
+      console.error(`[Feed Health] Failed to update creator URL ${id}:`, error);
+    }
+  }
+}
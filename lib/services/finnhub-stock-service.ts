@@ -1,3 +1,5 @@
+import { recordCost, VENDOR_PRICING } from './cost-ledger-service';
+
 interface FinnhubQuote {
   c: number; // Current price
   d: number; // Change
@@ -126,6 +128,15 @@ export class FinnhubStockService {
         throw new Error(`Finnhub API error: ${data.error}`);
       }
 
+      await recordCost({
+        subsystem: 'ai_news',
+        provider: 'finnhub',
+        modelOrActor: endpoint.split('?')[0],
+        unitType: 'requests',
+        units: 1,
+        costUsd: VENDOR_PRICING.finnhub,
+      });
+
       return data;
     } catch (error) {
       console.error(`Error fetching from Finnhub (${endpoint}):`, error);
@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
 import {
   NewsItem,
   BigStory,
@@ -26,16 +26,10 @@ export interface CurationConfig {
 }
 
 export class GPTNewsCurator {
-  private client: OpenAI;
-  private model: string;
-
-  constructor(apiKey: string, model: string = 'gpt-4o-mini') {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
+  constructor(private llm: LLMGateway = getLLMGateway()) {
+    if (!llm.isAvailable('news_curation')) {
+      throw new Error('No LLM provider configured for news curation');
     }
-
-    this.client = new OpenAI({ apiKey });
-    this.model = model;
   }
 
   private getSpecialSectionInfo(loungeType: string): {
@@ -177,11 +171,11 @@ Guidelines:
       }));
 
       console.log(
-        `[GPT Curator] Curating ${articles.length} articles for ${config.loungeType} lounge using model: ${this.model}`
+        `[GPT Curator] Curating ${articles.length} articles for ${config.loungeType} lounge`
       );
 
-      const response = await this.client.chat.completions.create({
-        model: this.model,
+      const response = await this.llm.complete({
+        task: 'news_curation',
         messages: [
           {
             role: 'system',
@@ -198,22 +192,12 @@ Guidelines:
             )}`,
           },
         ],
-        // gpt-4o-mini supports temperature
         temperature: 0.7,
-        max_tokens: 4000, // Use max_tokens for gpt-4o-mini
-        response_format: { type: 'json_object' },
+        maxTokens: 4000,
+        json: true,
       });
 
-      const content = response.choices[0]?.message?.content;
-
-      if (!content) {
-        console.error('[GPT Curator] Empty response from OpenAI:', {
-          model: this.model,
-          articleCount: articles.length,
-          response: response.choices[0],
-        });
-        throw new Error(`No content generated from GPT model ${this.model}`);
-      }
+      const content = response.text;
 
       // Parse the JSON response
       interface ParsedResponse {
@@ -243,7 +227,7 @@ Guidelines:
 
       let parsed: ParsedResponse;
       try {
-        parsed = JSON.parse(content);
+        parsed = extractJson(content) as ParsedResponse;
       } catch (error) {
         console.error('[GPT Curator] Failed to parse GPT response:', content);
         throw new Error('Failed to parse GPT response as JSON');
@@ -317,7 +301,6 @@ Guidelines:
     } catch (error: any) {
       console.error('[GPT Curator] Error curating news:', {
         error: error.message,
-        model: this.model,
         articleCount: articles.length,
         loungeType: config.loungeType,
         errorDetails: error.response?.data || error,
@@ -369,12 +352,7 @@ let gptNewsCurator: GPTNewsCurator | null = null;
 
 export function getGPTNewsCurator(): GPTNewsCurator {
   if (!gptNewsCurator) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    // Use gpt-4o-mini model for best balance of cost and reliability
-    gptNewsCurator = new GPTNewsCurator(apiKey, 'gpt-4o-mini');
+    gptNewsCurator = new GPTNewsCurator();
   }
   return gptNewsCurator;
 }
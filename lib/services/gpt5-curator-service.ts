@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
 import type { RSSArticle } from './rss-feed-service';
 import type {
   NewsItem,
@@ -26,14 +26,10 @@ interface CurationPrompt {
 }
 
 export class GPT5CuratorService {
-  private client: OpenAI;
-  private model: string = 'gpt-5-mini';
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
+  constructor(private llm: LLMGateway = getLLMGateway()) {
+    if (!llm.isAvailable('rss_curation')) {
+      throw new Error('No LLM provider configured for RSS curation');
     }
-    this.client = new OpenAI({ apiKey });
   }
 
   async curateNewsFromRSS(
@@ -59,56 +55,28 @@ export class GPT5CuratorService {
 
       const prompt = this.buildCurationPrompt(preparedArticles, config);
 
-      // Use the Responses API to curate
-      const response = await (this.client as any).responses.create({
-        model: this.model,
-        reasoning: {
-          effort: 'medium',
-        },
-        instructions: `You are a professional SaaS news curator. Today's date is ${new Date().toLocaleDateString(
-          'en-US',
+      const response = await this.llm.complete({
+        task: 'rss_curation',
+        reasoningEffort: 'medium',
+        messages: [
           {
-            weekday: 'long',
-            year: 'numeric',
-            month: 'long',
-            day: 'numeric',
-          }
-        )}. Your task is to select and summarize the most important news from the provided RSS articles.`,
-        input: prompt,
+            role: 'system',
+            content: `You are a professional SaaS news curator. Today's date is ${new Date().toLocaleDateString(
+              'en-US',
+              {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+              }
+            )}. Your task is to select and summarize the most important news from the provided RSS articles.`,
+          },
+          { role: 'user', content: prompt },
+        ],
       });
 
-      // Extract the curated content
-      let content = '';
-      if (response.output_text) {
-        content = response.output_text;
-      } else if (response.output && Array.isArray(response.output)) {
-        const outputTextItem = response.output.find(
-          (item: any) =>
-            item.type === 'output_text' ||
-            (item.type === 'message' &&
-              item.content?.[0]?.type === 'output_text')
-        );
-        if (outputTextItem) {
-          content =
-            outputTextItem.type === 'output_text'
-              ? outputTextItem.text
-              : outputTextItem.content?.[0]?.text || '';
-        }
-      } else if (response.text) {
-        content = response.text;
-      }
-
-      if (!content) {
-        throw new Error('No output from GPT-5 curation');
-      }
-
       // Parse the JSON response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No valid JSON in GPT-5 response');
-      }
-
-      const curated = JSON.parse(jsonMatch[0]);
+      const curated = extractJson(response.text) as Record<string, any>;
 
       // Validate and format the result
       const result: GenerateNewsResult = {
@@ -239,8 +207,8 @@ Return ONLY valid JSON with this structure:
     Focus on major SaaS companies and real trends.
     Return JSON with bigStory, bullets, and specialSection arrays.`;
 
-    const response = await this.client.chat.completions.create({
-      model: this.model,
+    const response = await this.llm.complete({
+      task: 'rss_curation',
       messages: [
         {
           role: 'system',
@@ -253,16 +221,11 @@ Return ONLY valid JSON with this structure:
         },
       ],
       temperature: 0.8,
-      max_tokens: 2000,
-      response_format: { type: 'json_object' },
+      maxTokens: 2000,
+      json: true,
     });
 
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error('No content from fallback generation');
-    }
-
-    const generated = JSON.parse(content);
+    const generated = extractJson(response.text) as Record<string, any>;
 
     return {
       items: this.validateAndFormatItems(generated.bullets || []),
@@ -281,11 +244,7 @@ let gpt5CuratorService: GPT5CuratorService | null = null;
 
 export function getGPT5CuratorService(): GPT5CuratorService {
   if (!gpt5CuratorService) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    gpt5CuratorService = new GPT5CuratorService(apiKey);
+    gpt5CuratorService = new GPT5CuratorService();
   }
   return gpt5CuratorService;
 }
@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { getLLMGateway, type LLMGateway } from '@/lib/llm';
 
 export interface FundingItem {
   text: string;
@@ -28,14 +28,10 @@ export interface FundingSearchConfig {
 }
 
 export class GPT5MiniFundingService {
-  private client: OpenAI;
-  private model: string = 'gpt-5-mini'; // Using GPT-5-mini for cost efficiency
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
+  constructor(private llm: LLMGateway = getLLMGateway()) {
+    if (!llm.isAvailable('funding_search')) {
+      throw new Error('No LLM provider configured for funding search');
     }
-    this.client = new OpenAI({ apiKey });
   }
 
   private getAllowedDomains(loungeType: string): string[] {
@@ -132,8 +128,12 @@ export class GPT5MiniFundingService {
     }
 
     // General funding queries - also apply time restriction
-    queries.push(`"$" million OR billion "Series" OR "funding round" from:${timeframe}`);
-    queries.push(`"M&A" OR acquisition OR "acquires" OR "acquired by" tech from:${timeframe}`);
+    queries.push(
+      `"$" million OR billion "Series" OR "funding round" from:${timeframe}`
+    );
+    queries.push(
+      `"M&A" OR acquisition OR "acquires" OR "acquired by" tech from:${timeframe}`
+    );
 
     return queries.join('\n');
   }
@@ -152,24 +152,21 @@ export class GPT5MiniFundingService {
 
       const searchQueries = this.buildSearchQueries(config);
 
-      // Use the Responses API with web_search tool
-      const response = await (this.client as any).responses.create({
-        model: this.model,
-        reasoning: {
-          effort: 'low', // Low effort for cost efficiency with mini model
+      const response = await this.llm.complete({
+        task: 'funding_search',
+        reasoningEffort: 'low', // Low effort for cost efficiency with mini model
+        webSearch: {
+          contextSize: 'low', // Low context for focused search and cost efficiency
+          allowedDomains: allowedDomains.slice(0, 20), // API limit is 20 domains
         },
-        tools: [
+        messages: [
           {
-            type: 'web_search',
-            search_context_size: 'low', // Low context for focused search and cost efficiency
-            filters: {
-              allowed_domains: allowedDomains.slice(0, 20), // API limit is 20 domains
-            },
+            role: 'system',
+            content: `You are a specialized funding news aggregator. Focus on finding REAL, RECENT funding rounds and M&A activity.`,
           },
-        ],
-        include: ['web_search_call.action.sources'],
-        instructions: `You are a specialized funding news aggregator. Focus on finding REAL, RECENT funding rounds and M&A activity.`,
-        input: `Search for and extract ${maxResults} RECENT funding rounds and M&A deals.
+          {
+            role: 'user',
+            content: `Search for and extract ${maxResults} RECENT funding rounds and M&A deals.
 
 Priority search queries:
 ${searchQueries}
@@ -210,45 +207,11 @@ IMPORTANT:
 - All sourceUrl fields MUST be actual URLs from web search results
 - Focus on substantial funding rounds (preferably $1M+)
 - Include variety: different stages (seed to Series D), industries, and geographies`,
+          },
+        ],
       });
 
-      // Extract output from response
-      let content = '';
-
-      if (response.output_text) {
-        content = response.output_text;
-      } else if (response.output && Array.isArray(response.output)) {
-        const outputTextItem = response.output.find(
-          (item: any) =>
-            item.type === 'output_text' ||
-            (item.type === 'message' &&
-              item.content?.[0]?.type === 'output_text')
-        );
-
-        if (outputTextItem) {
-          if (outputTextItem.type === 'output_text') {
-            content = outputTextItem.text || '';
-          } else if (outputTextItem.content?.[0]?.text) {
-            content = outputTextItem.content[0].text;
-          }
-        }
-      } else if (response.text) {
-        content = response.text;
-      }
-
-      // Log web search sources for debugging
-      if (response.web_search_sources) {
-        const saasnewsSources = response.web_search_sources.filter((s: any) =>
-          s.url?.includes('thesaasnews.com')
-        );
-        console.log(
-          `[GPT-5-mini Funding] Found ${response.web_search_sources.length} sources (${saasnewsSources.length} from thesaasnews.com)`
-        );
-      }
-
-      if (!content) {
-        throw new Error('No output_text found in GPT-5-mini response');
-      }
+      const content = response.text;
 
       console.log(
         '[GPT-5-mini Funding] Response content length:',
@@ -350,11 +313,7 @@ let gpt5MiniFundingService: GPT5MiniFundingService | null = null;
 
 export function getGPT5MiniFundingService(): GPT5MiniFundingService {
   if (!gpt5MiniFundingService) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    gpt5MiniFundingService = new GPT5MiniFundingService(apiKey);
+    gpt5MiniFundingService = new GPT5MiniFundingService();
   }
   return gpt5MiniFundingService;
 }
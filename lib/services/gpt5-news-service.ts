@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
 
 export interface NewsItem {
   text: string;
@@ -32,14 +32,10 @@ export interface GPT5NewsConfig {
 }
 
 export class GPT5NewsService {
-  private client: OpenAI;
-  private model: string = 'gpt-5'; // Using GPT-5 model
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
+  constructor(private llm: LLMGateway = getLLMGateway()) {
+    if (!llm.isAvailable('news_search')) {
+      throw new Error('No LLM provider configured for news search');
     }
-    this.client = new OpenAI({ apiKey });
   }
 
   private buildPrompt(config: GPT5NewsConfig): string {
@@ -272,24 +268,18 @@ Guidelines:
         ];
       }
 
-      // Use the Responses API with web_search tool
-      const response = await (this.client as any).responses.create({
-        model: this.model,
-        reasoning: {
-          effort: 'medium', // Balanced effort for quality and cost
+      const response = await this.llm.complete({
+        task: 'news_search',
+        reasoningEffort: 'medium', // Balanced effort for quality and cost
+        webSearch: {
+          contextSize: 'medium', // Balanced context and latency (default)
+          allowedDomains,
         },
-        tools: [
+        messages: [
+          { role: 'system', content: instructions },
           {
-            type: 'web_search',
-            search_context_size: 'medium', // Balanced context and latency (default)
-            filters: {
-              allowed_domains: allowedDomains,
-            },
-          },
-        ],
-        include: ['web_search_call.action.sources'],
-        instructions: instructions,
-        input: `Search for and find the most important ${config.loungeType} news from the LAST 24 HOURS (${dateStr}).
+            role: 'user',
+            content: `Search for and find the most important ${config.loungeType} news from the LAST 24 HOURS (${dateStr}).
 
 ${searchQueries}
 
@@ -344,65 +334,27 @@ Return ONLY a valid JSON object with this exact structure:
     }
   ]
 }`,
+          },
+        ],
       });
 
-      // Extract output_text from the response
-      let content = '';
-
-      // Handle different response structures based on GPT-5 Responses API
-      if (response.output_text) {
-        content = response.output_text;
-      } else if (response.output && Array.isArray(response.output)) {
-        // Find the output_text item in the output array
-        const outputTextItem = response.output.find(
-          (item: any) =>
-            item.type === 'output_text' ||
-            (item.type === 'message' &&
-              item.content?.[0]?.type === 'output_text')
-        );
-
-        if (outputTextItem) {
-          if (outputTextItem.type === 'output_text') {
-            content = outputTextItem.text || '';
-          } else if (outputTextItem.content?.[0]?.text) {
-            content = outputTextItem.content[0].text;
-          }
-        }
-      } else if (response.text) {
-        // Some responses might have text directly
-        content = response.text;
-      }
-
-      // Log web search sources if available for debugging
-      if (response.web_search_sources) {
-        console.log(
-          '[GPT-5 News] Web search sources found:',
-          response.web_search_sources.length
-        );
-      }
-
-      if (!content) {
-        console.error(
-          '[GPT-5 News] Response structure:',
-          JSON.stringify(response, null, 2).substring(0, 1000)
-        );
-        throw new Error('No output_text found in GPT-5 response');
-      }
-
-      console.log('[GPT-5 News] Raw response length:', content.length);
+      const content = response.text;
+      console.log(
+        `[GPT-5 News] Raw response length: ${content.length} (${response.provider}/${response.model})`
+      );
 
       // Parse the JSON from the response
-      const jsonMatch = content.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
+      let parsed: any;
+      try {
+        parsed = extractJson(content);
+      } catch {
         console.error(
           '[GPT-5 News] Response content:',
           content.substring(0, 500)
         );
-        throw new Error('No JSON found in GPT-5 response');
+        throw new Error('No JSON found in news search response');
       }
 
-      const parsed = JSON.parse(jsonMatch[0]);
-
       // Transform to match existing format
       const result: GenerateNewsResult = {
         items: parsed.bullets || [],
@@ -432,11 +384,7 @@ let gpt5NewsService: GPT5NewsService | null = null;
 
 export function getGPT5NewsService(): GPT5NewsService {
   if (!gpt5NewsService) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    gpt5NewsService = new GPT5NewsService(apiKey);
+    gpt5NewsService = new GPT5NewsService();
   }
   return gpt5NewsService;
 }
@@ -1,4 +1,4 @@
-import OpenAI from 'openai';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
 
 export interface StockMover {
   symbol: string;
@@ -25,14 +25,10 @@ export interface StockMoversData {
 }
 
 export class GPT5StockMoversService {
-  private client: OpenAI;
-  private model: string = 'gpt-5-mini'; // Using GPT-5-mini model
-
-  constructor(apiKey: string) {
-    if (!apiKey) {
-      throw new Error('OpenAI API key is required');
+  constructor(private llm: LLMGateway = getLLMGateway()) {
+    if (!llm.isAvailable('stock_movers')) {
+      throw new Error('No LLM provider configured for stock movers');
     }
-    this.client = new OpenAI({ apiKey });
   }
 
   public async generateStockMovers(): Promise<StockMoversData> {
@@ -50,167 +46,112 @@ export class GPT5StockMoversService {
         day: 'numeric',
       });
 
-      // Use the Responses API with web_search tool and Structured Outputs
-      const response = await (this.client as any).responses.create({
-        model: this.model,
-        reasoning: {
-          effort: 'low', // Low effort for cost and speed
+      // Web search with Structured Outputs where the provider supports them
+      const response = await this.llm.complete({
+        task: 'stock_movers',
+        reasoningEffort: 'low', // Low effort for cost and speed
+        webSearch: {
+          contextSize: 'low', // Low context for speed
         },
-        tools: [
+        messages: [
+          {
+            role: 'system',
+            content: `Extract real stock prices from web search results. Return actual numbers only, never questions or placeholder text.`,
+          },
           {
-            type: 'web_search',
-            search_context_size: 'low', // Low context for speed
+            role: 'user',
+            content: `Search for "software stocks gainers today" and "software stocks losers today" to find real stock prices and percentage changes.`,
           },
         ],
-        include: ['web_search_call.action.sources'],
-        instructions: `Extract real stock prices from web search results. Return actual numbers only, never questions or placeholder text.`,
-        input: `Search for "software stocks gainers today" and "software stocks losers today" to find real stock prices and percentage changes.`,
-        text: {
-          format: {
-            type: 'json_schema',
-            name: 'stock_movers',
-            strict: true,
-            schema: {
-              type: 'object',
-              properties: {
-                indexes: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      name: { type: 'string' },
-                      changePercent: { type: 'number' },
-                      details: { type: 'string' },
-                    },
-                    required: ['name', 'changePercent', 'details'],
-                    additionalProperties: false,
+        jsonSchema: {
+          name: 'stock_movers',
+          schema: {
+            type: 'object',
+            properties: {
+              indexes: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    name: { type: 'string' },
+                    changePercent: { type: 'number' },
+                    details: { type: 'string' },
                   },
+                  required: ['name', 'changePercent', 'details'],
+                  additionalProperties: false,
                 },
-                topGainers: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      symbol: { type: 'string' },
-                      companyName: { type: 'string' },
-                      price: { type: 'number' },
-                      change: { type: 'number' },
-                      changePercent: { type: 'number' },
-                      marketCap: { type: ['string', 'null'] },
-                      revenue: { type: ['string', 'null'] },
-                      ebitda: { type: ['string', 'null'] },
-                    },
-                    required: [
-                      'symbol',
-                      'companyName',
-                      'price',
-                      'change',
-                      'changePercent',
-                      'marketCap',
-                      'revenue',
-                      'ebitda',
-                    ],
-                    additionalProperties: false,
+              },
+              topGainers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    symbol: { type: 'string' },
+                    companyName: { type: 'string' },
+                    price: { type: 'number' },
+                    change: { type: 'number' },
+                    changePercent: { type: 'number' },
+                    marketCap: { type: ['string', 'null'] },
+                    revenue: { type: ['string', 'null'] },
+                    ebitda: { type: ['string', 'null'] },
                   },
+                  required: [
+                    'symbol',
+                    'companyName',
+                    'price',
+                    'change',
+                    'changePercent',
+                    'marketCap',
+                    'revenue',
+                    'ebitda',
+                  ],
+                  additionalProperties: false,
                 },
-                topLosers: {
-                  type: 'array',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      symbol: { type: 'string' },
-                      companyName: { type: 'string' },
-                      price: { type: 'number' },
-                      change: { type: 'number' },
-                      changePercent: { type: 'number' },
-                      marketCap: { type: ['string', 'null'] },
-                      revenue: { type: ['string', 'null'] },
-                      ebitda: { type: ['string', 'null'] },
-                    },
-                    required: [
-                      'symbol',
-                      'companyName',
-                      'price',
-                      'change',
-                      'changePercent',
-                      'marketCap',
-                      'revenue',
-                      'ebitda',
-                    ],
-                    additionalProperties: false,
+              },
+              topLosers: {
+                type: 'array',
+                items: {
+                  type: 'object',
+                  properties: {
+                    symbol: { type: 'string' },
+                    companyName: { type: 'string' },
+                    price: { type: 'number' },
+                    change: { type: 'number' },
+                    changePercent: { type: 'number' },
+                    marketCap: { type: ['string', 'null'] },
+                    revenue: { type: ['string', 'null'] },
+                    ebitda: { type: ['string', 'null'] },
                   },
+                  required: [
+                    'symbol',
+                    'companyName',
+                    'price',
+                    'change',
+                    'changePercent',
+                    'marketCap',
+                    'revenue',
+                    'ebitda',
+                  ],
+                  additionalProperties: false,
                 },
               },
-              required: ['indexes', 'topGainers', 'topLosers'],
-              additionalProperties: false,
             },
+            required: ['indexes', 'topGainers', 'topLosers'],
+            additionalProperties: false,
           },
         },
       });
 
       // Extract the structured JSON from the response
       let parsed: any;
-
-      // With Structured Outputs, the response should have valid JSON
-      if (response.output_text) {
-        // Direct output_text property (preferred with Structured Outputs)
-        console.log(
-          '[GPT-5 Stock Movers] Found output_text, length:',
-          response.output_text.length
-        );
-        parsed = JSON.parse(response.output_text);
-      } else if (response.output && Array.isArray(response.output)) {
-        // Find the message item (comes after web_search_call)
-        const messageItem = response.output.find(
-          (item: any) => item.type === 'message'
-        );
-
-        if (messageItem?.content) {
-          // Check for refusal first
-          if (Array.isArray(messageItem.content)) {
-            const refusalItem = messageItem.content.find(
-              (c: any) => c.type === 'refusal'
-            );
-            if (refusalItem) {
-              console.error(
-                '[GPT-5 Stock Movers] Model refused request:',
-                refusalItem.refusal
-              );
-              throw new Error(`Model refused: ${refusalItem.refusal}`);
-            }
-
-            // Get the output_text
-            const textItem = messageItem.content.find(
-              (c: any) => c.type === 'output_text'
-            );
-            if (textItem?.text) {
-              console.log(
-                '[GPT-5 Stock Movers] Found output_text in message, parsing JSON'
-              );
-              parsed = JSON.parse(textItem.text);
-            }
-          }
-        }
-
-        // Log if we found web search results for debugging
-        const webSearchCall = response.output.find(
-          (item: any) => item.type === 'web_search_call'
-        );
-        if (webSearchCall?.action?.sources) {
-          console.log(
-            `[GPT-5 Stock Movers] Web search found ${webSearchCall.action.sources.length} sources`
-          );
-        }
-      }
-
-      if (!parsed) {
+      try {
+        parsed = extractJson(response.text);
+      } catch {
         console.error(
           '[GPT-5 Stock Movers] Could not extract JSON from response:',
-          JSON.stringify(response, null, 2).substring(0, 1000)
-        );
-        throw new Error(
-          'Could not extract structured data from GPT-5 response'
+          response.text.substring(0, 1000)
         );
+        throw new Error('Could not extract structured stock movers data');
       }
 
       // Format market caps if they're just numbers
@@ -275,11 +216,7 @@ let gpt5StockMoversService: GPT5StockMoversService | null = null;
 
 export function getGPT5StockMoversService(): GPT5StockMoversService {
   if (!gpt5StockMoversService) {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) {
-      throw new Error('OPENAI_API_KEY environment variable is not set');
-    }
-    gpt5StockMoversService = new GPT5StockMoversService(apiKey);
+    gpt5StockMoversService = new GPT5StockMoversService();
   }
   return gpt5StockMoversService;
 }
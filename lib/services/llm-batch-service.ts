@@ -0,0 +1,565 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getLLMGateway, type LLMGateway } from '@/lib/llm';
+import type { Database, Json } from '@/types/database.types';
+import type { CostAttribution } from '@/types/cost';
+import type { KeyMoment, SummaryStatus } from '@/types/content';
+import type {
+  LLMBatchItem,
+  LLMBatchOutcome,
+  LLMBatchResult,
+} from '@/types/llm';
+import type { RelevancyResult } from '@/types/relevancy-policy';
+import {
+  LLMBatchJobError,
+  type LLMBatchJob,
+  type LLMBatchJobItem,
+  type LLMBatchRunResult,
+  type LLMBatchTask,
+} from '@/types/llm-batch';
+import {
+  AISummaryService,
+  SUMMARIZABLE_COLUMNS,
+  getSummaryInput,
+  type SummarizableContent,
+} from './ai-summary-service';
+import { RelevancyService } from './relevancy-service';
+
+// Items per submitted job. Providers accept far more; this keeps one
+// cron run's submission and result handling well inside its time limit.
+export const LLM_BATCH_LIMITS: Record<LLMBatchTask, number> = {
+  summary: 200,
+  relevancy: 500,
+};
+
+// Open jobs polled per run
+const POLL_LIMIT = 20;
+
+/**
+ * Whether bulk summaries and relevancy scoring go through batch jobs.
+ * When on, the summary worker and the score-relevancy cron leave their
+ * work to /api/cron/process-llm-batches.
+ */
+export function isLLMBatchModeEnabled(): boolean {
+  return process.env.LLM_BATCH_MODE === 'true';
+}
+
+/**
+ * LLM Batch Service
+ *
+ * Packs pending summaries and relevancy checks into provider batch jobs,
+ * tracks them in `llm_batch_jobs`, and applies finished results through
+ * the same paths as real-time generation: `AISummaryService.saveSummaries`
+ * and `updateSummaryStatus`, and `RelevancyService.updateRelevancyScores`.
+ * Expects a service-role client.
+ */
+export class LLMBatchService {
+  private summaries: AISummaryService;
+  private relevancy: RelevancyService | null = null;
+
+  constructor(
+    private supabase: SupabaseClient<Database>,
+    private llm: LLMGateway = getLLMGateway()
+  ) {
+    this.summaries = new AISummaryService(llm);
+  }
+
+  /**
+   * Submit what's pending, then poll open jobs and apply any that ended.
+   * Pass `submit: false` to only drain jobs already submitted.
+   */
+  async run({ submit = true } = {}): Promise<LLMBatchRunResult> {
+    const result: LLMBatchRunResult = {
+      submitted: [],
+      polled: 0,
+      applied: 0,
+      errors: [],
+    };
+
+    if (submit) {
+      for (const task of ['summary', 'relevancy'] as const) {
+        try {
+          const job =
+            task === 'summary'
+              ? await this.submitSummaries()
+              : await this.submitRelevancyChecks();
+          if (job) result.submitted.push(job);
+        } catch (error) {
+          console.error(`[LLM Batch] Failed to submit ${task} batch:`, error);
+          result.errors.push(
+            `${task}: ${error instanceof Error ? error.message : String(error)}`
+          );
+        }
+      }
+    }
+
+    for (const job of await this.listOpenJobs()) {
+      result.polled++;
+      try {
+        if (await this.pollJob(job)) result.applied++;
+      } catch (error) {
+        console.error(`[LLM Batch] Failed to poll job ${job.id}:`, error);
+        result.errors.push(
+          `${job.id}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Submit pending summaries, newest first, as one job. Rows are claimed
+   * (pending to processing) before anything is sent, and only claimed rows
+   * are submitted, so overlapping runs never pay for the same content
+   * twice. Content too short to summarize is completed straight away, as
+   * real-time generation does, and threads are summarized as a unit
+   * through their opener.
+   */
+  async submitSummaries(
+    limit: number = LLM_BATCH_LIMITS.summary
+  ): Promise<LLMBatchJob | null> {
+    const { data, error } = await this.supabase
+      .from('content')
+      .select('id')
+      .eq('summary_status', 'pending')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new LLMBatchJobError(
+        `Failed to fetch pending summaries: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data || data.length === 0) return null;
+
+    const claimed = await this.claimSummaries(
+      data.map((row) => row.id),
+      'pending'
+    );
+    const expanded = await this.summaries.expandThreads(this.supabase, claimed);
+
+    // Openers brought in by a new reply weren't pending, so claim them too
+    const claimedIds = new Set(claimed.map((content) => content.id));
+    const openerIds = expanded
+      .filter((content) => !claimedIds.has(content.id))
+      .map((content) => content.id);
+    const claimedOpeners = new Set(
+      (await this.claimSummaries(openerIds)).map((content) => content.id)
+    );
+    const pending = expanded.filter(
+      (content) => claimedIds.has(content.id) || claimedOpeners.has(content.id)
+    );
+
+    const items: LLMBatchJobItem[] = [];
+    const requests: LLMBatchItem[] = [];
+    for (const content of pending) {
+      const input = getSummaryInput(content);
+      const wordCount = input ? this.summaries.countWords(input.text) : 0;
+      const lengths = this.summaries.getSummaryLengths(wordCount);
+
+      if (!input || lengths.length === 0) {
+        await this.summaries.saveSummaries(
+          this.supabase,
+          content.id,
+          wordCount,
+          {},
+          null
+        );
+        continue;
+      }
+
+      for (const length of lengths) {
+        const customId = `item-${items.length}`;
+        const request = this.summaries.buildSummaryRequest(
+          length,
+          input.text,
+          input
+        );
+        items.push({
+          custom_id: customId,
+          content_id: content.id,
+          summary_type: length,
+          word_count: wordCount,
+        });
+        requests.push({ customId, request });
+      }
+
+      if (this.summaries.wantsKeyMoments(wordCount, input)) {
+        const customId = `item-${items.length}`;
+        items.push({
+          custom_id: customId,
+          content_id: content.id,
+          summary_type: 'key_moments',
+          word_count: wordCount,
+        });
+        requests.push({
+          customId,
+          request: this.summaries.buildKeyMomentsRequest(
+            input.segments!,
+            input
+          ),
+        });
+      }
+    }
+
+    if (requests.length === 0) return null;
+
+    try {
+      return await this.submitJob('summary', items, requests);
+    } catch (error) {
+      // A batch the provider accepted but we failed to save stays claimed,
+      // since resubmitting it would pay twice
+      if (!(error instanceof LLMBatchJobError)) {
+        await this.supabase
+          .from('content')
+          .update({ summary_status: 'pending' })
+          .in('id', Array.from(new Set(items.map((item) => item.content_id))))
+          .eq('summary_status', 'processing');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Move content to processing and return the rows this call moved. With
+   * `fromStatus`, only rows still in that status are taken; otherwise any
+   * row not already processing is.
+   */
+  private async claimSummaries(
+    contentIds: string[],
+    fromStatus?: SummaryStatus
+  ): Promise<SummarizableContent[]> {
+    if (contentIds.length === 0) return [];
+
+    const query = this.supabase
+      .from('content')
+      .update({ summary_status: 'processing' })
+      .in('id', contentIds);
+    const { data, error } = await (
+      fromStatus
+        ? query.eq('summary_status', fromStatus)
+        : query.neq('summary_status', 'processing')
+    ).select(SUMMARIZABLE_COLUMNS);
+
+    if (error) {
+      throw new LLMBatchJobError(
+        `Failed to claim pending summaries: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return (data || []) as unknown as SummarizableContent[];
+  }
+
+  /**
+   * Submit unscored content/lounge pairs as one job, skipping pairs that
+   * are already waiting in an open job
+   */
+  async submitRelevancyChecks(
+    limit: number = LLM_BATCH_LIMITS.relevancy
+  ): Promise<LLMBatchJob | null> {
+    const relevancy = this.getRelevancyService();
+
+    const queued = new Set(
+      (await this.listOpenJobs('relevancy')).flatMap((job) =>
+        job.items.map((item) => `${item.content_id}:${item.lounge_id}`)
+      )
+    );
+    const pending = (
+      await relevancy.getContentForRelevancyCheck(limit + queued.size)
+    )
+      .filter((item) => !queued.has(`${item.content_id}:${item.lounge_id}`))
+      .slice(0, limit);
+
+    if (pending.length === 0) return null;
+
+    const items: LLMBatchJobItem[] = [];
+    const requests: LLMBatchItem[] = [];
+    for (const item of pending) {
+      const customId = `item-${items.length}`;
+      const request = await relevancy.buildRelevancyRequest(item);
+      items.push({
+        custom_id: customId,
+        content_id: item.content_id,
+        lounge_id: item.lounge_id,
+      });
+      requests.push({ customId, request });
+    }
+
+    return this.submitJob('relevancy', items, requests);
+  }
+
+  /**
+   * Check one open job and apply its results if it has ended. Returns
+   * whether it ended.
+   */
+  async pollJob(job: LLMBatchJob): Promise<boolean> {
+    const outcome = await this.llm.getBatch(
+      job.task,
+      {
+        provider: job.provider,
+        model: job.model,
+        batchId: job.provider_batch_id,
+      },
+      Object.fromEntries(
+        job.items.map((item) => [item.custom_id, this.attributionFor(item)])
+      )
+    );
+
+    if (outcome.status === 'in_progress') {
+      await this.updateJob(job.id, {
+        last_polled_at: new Date().toISOString(),
+      });
+      return false;
+    }
+
+    if (job.task === 'summary') {
+      await this.applySummaries(job, outcome);
+    } else {
+      await this.applyRelevancyScores(job, outcome);
+    }
+
+    const now = new Date().toISOString();
+    await this.updateJob(job.id, {
+      status: outcome.status,
+      succeeded_count: outcome.results.filter((r) => r.completion).length,
+      failed_count: outcome.results.filter((r) => !r.completion).length,
+      cost_usd: outcome.results.reduce(
+        (sum, r) => sum + (r.completion?.cost || 0),
+        0
+      ),
+      error: outcome.error || null,
+      last_polled_at: now,
+      completed_at: now,
+    });
+
+    console.log(
+      `[LLM Batch] ${job.task} job ${job.id} ${outcome.status}: ${outcome.results.length}/${job.request_count} results`
+    );
+    return true;
+  }
+
+  /**
+   * Save each content item's summaries. Items the batch never answered go
+   * back to pending for the next job, unless the provider rejected the
+   * whole batch, which would fail again.
+   */
+  private async applySummaries(
+    job: LLMBatchJob,
+    outcome: LLMBatchOutcome
+  ): Promise<void> {
+    const results = this.resultsById(outcome);
+    const byContent = new Map<string, LLMBatchJobItem[]>();
+    for (const item of job.items) {
+      byContent.set(item.content_id, [
+        ...(byContent.get(item.content_id) || []),
+        item,
+      ]);
+    }
+
+    for (const [contentId, items] of Array.from(byContent.entries())) {
+      const answered = items.filter((item) => results.has(item.custom_id));
+
+      try {
+        if (answered.length === 0) {
+          await this.summaries.updateSummaryStatus(
+            this.supabase,
+            contentId,
+            outcome.status === 'failed' ? 'error' : 'pending',
+            outcome.status === 'failed'
+              ? outcome.error || 'Batch job failed'
+              : undefined
+          );
+          continue;
+        }
+
+        const summaries: {
+          shortSummary?: string;
+          longSummary?: string;
+          keyMoments?: KeyMoment[];
+          error?: string;
+        } = {};
+        for (const item of answered) {
+          const result = results.get(item.custom_id)!;
+          const length = item.summary_type || 'short';
+          try {
+            if (!result.completion) {
+              throw new Error(result.error || 'No response');
+            }
+            if (length === 'key_moments') {
+              summaries.keyMoments = this.summaries.finishKeyMoments(
+                result.completion.text
+              );
+            } else {
+              summaries[length === 'short' ? 'shortSummary' : 'longSummary'] =
+                this.summaries.finishSummary(length, result.completion.text);
+            }
+          } catch (error) {
+            // Keep the first failure
+            summaries.error ||=
+              error instanceof Error
+                ? error.message
+                : `Failed to generate ${length} summary`;
+          }
+        }
+
+        await this.summaries.saveSummaries(
+          this.supabase,
+          contentId,
+          items[0].word_count || 0,
+          summaries,
+          job.model
+        );
+      } catch (error) {
+        console.error(
+          `[LLM Batch] Failed to save summaries for ${contentId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Score every answered pair. An answer that isn't a valid score gets the
+   * neutral score real-time checks fall back to; unanswered pairs stay
+   * unscored and go in a later job.
+   */
+  private async applyRelevancyScores(
+    job: LLMBatchJob,
+    outcome: LLMBatchOutcome
+  ): Promise<void> {
+    const relevancy = this.getRelevancyService();
+    const results = this.resultsById(outcome);
+
+    const scores: RelevancyResult[] = [];
+    for (const item of job.items) {
+      const result = results.get(item.custom_id);
+      if (!result || !item.lounge_id) continue;
+
+      const pair = { content_id: item.content_id, lounge_id: item.lounge_id };
+      try {
+        if (!result.completion) {
+          throw new Error(result.error || 'No response');
+        }
+        scores.push(
+          relevancy.parseRelevancyAnswer(pair, result.completion.text)
+        );
+      } catch (error) {
+        console.error(
+          `Error checking relevancy for content ${item.content_id}:`,
+          error
+        );
+        scores.push({
+          content_id: item.content_id,
+          lounge_id: item.lounge_id,
+          score: 50,
+          reason: 'Error during relevancy check',
+        });
+      }
+    }
+
+    if (scores.length > 0) {
+      await relevancy.updateRelevancyScores(scores);
+    }
+  }
+
+  private async submitJob(
+    task: LLMBatchTask,
+    items: LLMBatchJobItem[],
+    requests: LLMBatchItem[]
+  ): Promise<LLMBatchJob> {
+    const submission = await this.llm.submitBatch(requests);
+
+    const { data, error } = await this.supabase
+      .from('llm_batch_jobs')
+      .insert({
+        task,
+        provider: submission.provider,
+        model: submission.model,
+        provider_batch_id: submission.batchId,
+        items: items as unknown as Json,
+        request_count: requests.length,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      // The provider is already working on it, so leave a trail
+      console.error(
+        `[LLM Batch] ${submission.provider} batch ${submission.batchId} was submitted but not saved`
+      );
+      throw new LLMBatchJobError(
+        `Failed to save batch job: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    console.log(
+      `[LLM Batch] Submitted ${requests.length} ${task} requests to ${submission.provider}/${submission.model}`
+    );
+    return data as unknown as LLMBatchJob;
+  }
+
+  async listOpenJobs(task?: LLMBatchTask): Promise<LLMBatchJob[]> {
+    let query = this.supabase
+      .from('llm_batch_jobs')
+      .select('*')
+      .eq('status', 'in_progress');
+    if (task) {
+      query = query.eq('task', task);
+    }
+
+    const { data, error } = await query
+      .order('submitted_at', { ascending: true })
+      .limit(POLL_LIMIT);
+
+    if (error) {
+      throw new LLMBatchJobError(
+        `Failed to fetch batch jobs: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return (data || []) as unknown as LLMBatchJob[];
+  }
+
+  private async updateJob(
+    id: string,
+    update: Database['public']['Tables']['llm_batch_jobs']['Update']
+  ): Promise<void> {
+    const { error } = await this.supabase
+      .from('llm_batch_jobs')
+      .update(update)
+      .eq('id', id);
+
+    if (error) {
+      throw new LLMBatchJobError(
+        `Failed to update batch job: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  private resultsById(outcome: LLMBatchOutcome): Map<string, LLMBatchResult> {
+    return new Map(outcome.results.map((result) => [result.customId, result]));
+  }
+
+  private attributionFor(item: LLMBatchJobItem): CostAttribution {
+    return {
+      contentId: item.content_id,
+      ...(item.lounge_id && { loungeId: item.lounge_id }),
+    };
+  }
+
+  // Created on first use: it throws when no relevancy provider is configured
+  private getRelevancyService(): RelevancyService {
+    if (!this.relevancy) {
+      this.relevancy = new RelevancyService(this.supabase, this.llm);
+    }
+    return this.relevancy;
+  }
+}
@@ -1,7 +1,7 @@
-import { OpenAI } from 'openai';
 import { createClient } from '@supabase/supabase-js';
 import type { Database, Json } from '@/types/database.types';
 import { OpenGraphService } from './opengraph-service';
+import { getLLMGateway, type LLMGateway } from '@/lib/llm';
 
 interface ImagePrompt {
   concept: string;
@@ -56,19 +56,13 @@ interface GenerateSummaryResult {
 }
 
 export class NewsSummaryService {
-  private openai: OpenAI | null = null;
   private supabase: ReturnType<typeof createClient<Database>> | null = null;
 
-  constructor() {
+  constructor(private llm: LLMGateway = getLLMGateway()) {
     this.initializeServices();
   }
 
   private initializeServices() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey && !this.openai) {
-      this.openai = new OpenAI({ apiKey });
-    }
-
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
 
@@ -85,8 +79,8 @@ export class NewsSummaryService {
     newsContent: NewsContent[],
     loungeId?: string
   ): Promise<GenerateSummaryResult> {
-    if (!this.openai) {
-      throw new Error('OpenAI API key not configured');
+    if (!this.llm.isAvailable('news_summary')) {
+      throw new Error('No LLM provider configured for news summaries');
     }
 
     const startTime = Date.now();
@@ -209,8 +203,8 @@ IMPORTANT:
 - Each imagePrompt must be a properly formatted JSON object`;
 
     try {
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const completion = await this.llm.complete({
+        task: 'news_summary',
         messages: [
           {
             role: 'system',
@@ -223,16 +217,12 @@ IMPORTANT:
           },
         ],
         temperature: 0.7,
-        max_tokens: 2000, // Increased to accommodate image prompts
-        response_format: { type: 'json_object' },
+        maxTokens: 2000, // Increased to accommodate image prompts
+        json: true,
       });
 
       const generationTimeMs = Date.now() - startTime;
-      const response = completion.choices[0].message.content;
-
-      if (!response) {
-        throw new Error('No response from OpenAI');
-      }
+      const response = completion.text;
 
       // Parse the JSON response
       let bigStory: BigStory | undefined;
@@ -245,7 +235,7 @@ IMPORTANT:
         bullets = parsed.bullets || [];
         specialSection = parsed.specialSection || [];
       } catch (parseError) {
-        console.error('Error parsing OpenAI response:', parseError);
+        console.error('Error parsing model response:', parseError);
         // Fallback: try to extract bullet points from text
         bullets = this.extractBulletsFromText(response);
       }
@@ -256,7 +246,8 @@ IMPORTANT:
       specialSection = specialSection.slice(0, 5);
 
       // Get token usage
-      const tokenCount = completion.usage?.total_tokens || 0;
+      const tokenCount =
+        completion.usage.inputTokens + completion.usage.outputTokens;
 
       return {
         bigStory,
@@ -264,7 +255,7 @@ IMPORTANT:
         specialSection,
         topic,
         loungeId,
-        modelUsed: 'gpt-4o-mini',
+        modelUsed: completion.model,
         tokenCount,
         generationTimeMs,
         sourceContentIds: sortedContent.map((c) => c.id),
@@ -1,3 +1,5 @@
+import { recordCost, VENDOR_PRICING } from './cost-ledger-service';
+
 interface NewsDataArticle {
   article_id: string;
   title: string;
@@ -57,6 +59,18 @@ export class NewsDataService {
     this.minRequestInterval = (60 * 1000) / requestsPerMinute;
   }
 
+  // Every successful request spends one API credit
+  private async recordCredit(endpoint: 'latest' | 'archive'): Promise<void> {
+    await recordCost({
+      subsystem: 'ai_news',
+      provider: 'newsdata',
+      modelOrActor: endpoint,
+      unitType: 'credits',
+      units: 1,
+      costUsd: VENDOR_PRICING.newsdata,
+    });
+  }
+
   private async enforceRateLimit(): Promise<void> {
     const now = Date.now();
     const timeSinceLastRequest = now - this.lastRequestTime;
@@ -268,6 +282,7 @@ export class NewsDataService {
       if (data.status !== 'success') {
         throw new Error(`NewsData API returned status: ${data.status}`);
       }
+      await this.recordCredit('latest');
 
       console.log(
         `[NewsData] Fetched ${data.results.length} articles for ${loungeType}`
@@ -350,6 +365,7 @@ export class NewsDataService {
       if (data.status !== 'success') {
         throw new Error(`NewsData API returned status: ${data.status}`);
       }
+      await this.recordCredit('latest');
 
       console.log(`[NewsData] Fetched ${data.results.length} articles`);
 
@@ -428,6 +444,7 @@ export class NewsDataService {
       if (data.status !== 'success') {
         throw new Error(`NewsData API returned status: ${data.status}`);
       }
+      await this.recordCredit('archive');
 
       console.log(
         `[NewsData] Fetched ${data.results.length} archive articles for ${loungeType}`
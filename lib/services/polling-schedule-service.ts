@@ -0,0 +1,194 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { CreatorUrl } from '@/types/creator';
+
+// Bounds for the learned polling interval
+export const MIN_POLL_INTERVAL_MINUTES = 60;
+export const MAX_POLL_INTERVAL_MINUTES = 24 * 60;
+
+// Interval used for creators with the "always poll hourly" override
+export const VIP_POLL_INTERVAL_MINUTES = 60;
+
+// Window used to learn posting cadence
+const CADENCE_WINDOW_DAYS = 14;
+
+// Creators with no posts for this long are polled at the max interval
+const DORMANT_AFTER_DAYS = 30;
+
+// URLs due within this many minutes count as due, so an hourly interval
+// isn't pushed to the next cron tick by a few seconds of drift
+const DUE_GRACE_MINUTES = 5;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Learn a polling interval from recent publish dates: poll about twice per
+ * expected post, back off quiet creators and park dormant ones at the max.
+ */
+export function calculatePollIntervalMinutes(
+  publishedAt: string[],
+  now: Date = new Date()
+): number {
+  const times = publishedAt
+    .map((date) => new Date(date).getTime())
+    .filter((time) => !Number.isNaN(time) && time <= now.getTime());
+  const windowStart = now.getTime() - CADENCE_WINDOW_DAYS * DAY_MS;
+  const recentCount = times.filter((time) => time >= windowStart).length;
+
+  if (recentCount === 0) {
+    const latest = times.length > 0 ? Math.max(...times) : null;
+    const isDormant =
+      !latest || now.getTime() - latest > DORMANT_AFTER_DAYS * DAY_MS;
+    return isDormant
+      ? MAX_POLL_INTERVAL_MINUTES
+      : MAX_POLL_INTERVAL_MINUTES / 2;
+  }
+
+  const averageGapMinutes =
+    (CADENCE_WINDOW_DAYS * DAY_MS) / MINUTE_MS / recentCount;
+  return Math.min(
+    MAX_POLL_INTERVAL_MINUTES,
+    Math.max(MIN_POLL_INTERVAL_MINUTES, Math.round(averageGapMinutes / 2))
+  );
+}
+
+/**
+ * Interval after a failed fetch: double the last one, so a broken URL is
+ * retried less and less often instead of on every cron tick
+ */
+export function calculateFailureBackoffMinutes(
+  previousIntervalMinutes: number | null | undefined
+): number {
+  return Math.min(
+    MAX_POLL_INTERVAL_MINUTES,
+    Math.max(MIN_POLL_INTERVAL_MINUTES, (previousIntervalMinutes || 0) * 2)
+  );
+}
+
+/**
+ * A creator URL fetched on this run, and whether the fetch failed
+ */
+export interface PolledUrl {
+  creatorUrl: CreatorUrl;
+  failed: boolean;
+}
+
+/**
+ * Whether a creator URL is due for polling
+ */
+export function isPollDue(
+  creatorUrl: Pick<CreatorUrl, 'next_poll_at'>,
+  now: Date = new Date()
+): boolean {
+  if (!creatorUrl.next_poll_at) return true;
+  return (
+    new Date(creatorUrl.next_poll_at).getTime() <=
+    now.getTime() + DUE_GRACE_MINUTES * MINUTE_MS
+  );
+}
+
+/**
+ * Polling Schedule Service
+ *
+ * Computes a next-due time per creator_urls row from the creator's posting
+ * cadence so the cron only enqueues creators with something due.
+ */
+export class PollingScheduleService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Keep only creators with at least one due URL
+   */
+  async filterDueCreators<T extends { id: string }>(
+    creators: T[],
+    options: { skipLinkedIn?: boolean; now?: Date } = {}
+  ): Promise<T[]> {
+    const now = options.now || new Date();
+    const dueCreatorIds = new Set<string>();
+    const CHUNK_SIZE = 200;
+
+    for (let i = 0; i < creators.length; i += CHUNK_SIZE) {
+      const chunk = creators.slice(i, i + CHUNK_SIZE).map((c) => c.id);
+      const { data: urls, error } = await this.supabase
+        .from('creator_urls')
+        .select('creator_id, platform, next_poll_at')
+        .in('creator_id', chunk);
+
+      if (error) {
+        throw new Error(`Failed to load polling schedule: ${error.message}`);
+      }
+
+      for (const url of urls || []) {
+        if (options.skipLinkedIn && url.platform === 'linkedin') continue;
+        if (isPollDue(url, now)) {
+          dueCreatorIds.add(url.creator_id);
+        }
+      }
+    }
+
+    return creators.filter((creator) => dueCreatorIds.has(creator.id));
+  }
+
+  /**
+   * Compute and store the next poll time for URLs that were just fetched.
+   * Failed fetches back off from their last interval; a success goes back
+   * to the creator's cadence.
+   */
+  async scheduleNextPolls(
+    creatorId: string,
+    polls: PolledUrl[],
+    now: Date = new Date()
+  ): Promise<void> {
+    if (polls.length === 0) return;
+
+    const [{ data: creator }, { data: content }] = await Promise.all([
+      this.supabase
+        .from('creators')
+        .select('always_poll_hourly')
+        .eq('id', creatorId)
+        .single(),
+      this.supabase
+        .from('content')
+        .select('platform, published_at')
+        .eq('creator_id', creatorId)
+        .gte(
+          'published_at',
+          new Date(now.getTime() - DORMANT_AFTER_DAYS * DAY_MS).toISOString()
+        )
+        .order('published_at', { ascending: false })
+        .limit(1000),
+    ]);
+
+    for (const { creatorUrl, failed } of polls) {
+      const publishedAt = (content || [])
+        .filter(
+          (item: { platform: string; published_at: string | null }) =>
+            item.platform === creatorUrl.platform && item.published_at
+        )
+        .map((item: { published_at: string }) => item.published_at);
+
+      const interval = failed
+        ? calculateFailureBackoffMinutes(creatorUrl.poll_interval_minutes)
+        : creator?.always_poll_hourly
+          ? VIP_POLL_INTERVAL_MINUTES
+          : calculatePollIntervalMinutes(publishedAt, now);
+
+      const { error } = await this.supabase
+        .from('creator_urls')
+        .update({
+          next_poll_at: new Date(
+            now.getTime() + interval * MINUTE_MS
+          ).toISOString(),
+          poll_interval_minutes: interval,
+        })
+        .eq('id', creatorUrl.id);
+
+      if (error) {
+        console.error(
+          `[Polling Schedule] Failed to schedule ${creatorUrl.url}:`,
+          error
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,483 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ReferencedContent } from '@/types/content';
+import type { Tables } from '@/types/database.types';
+import type { RelevancyService } from './relevancy-service';
+import { LLMGateway, StubProvider, resolveTaskRoutes } from '@/lib/llm';
+import {
+  RelevancyPolicyError,
+  type PromptAdjustment,
+  type RelevancyPolicyRules,
+} from '@/types/relevancy-policy';
+import type {
+  RelevancyEvalFlip,
+  RelevancyEvalItem,
+  RelevancyEvalMetrics,
+  RelevancyEvalReport,
+} from '@/types/relevancy-eval';
+
+type EvalContentRow = Pick<
+  Tables<'content'>,
+  | 'id'
+  | 'title'
+  | 'description'
+  | 'url'
+  | 'platform'
+  | 'platform_content_id'
+  | 'relevancy_score'
+  | 'reference_type'
+> & {
+  referenced_content: ReferencedContent | null;
+  creators: Pick<Tables<'creators'>, 'display_name'> | null;
+};
+
+export interface RelevancyEvalCandidate {
+  rules?: RelevancyPolicyRules;
+  adjustments?: PromptAdjustment[];
+}
+
+// Same batch size as RelevancyService.checkRelevancy, for the same rate limits
+const BATCH_SIZE = 5;
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+/**
+ * Precision and recall of keep decisions against the labels, treating a
+ * score at or above the threshold as keep
+ */
+export function computeMetrics(
+  results: Array<{ label: 'keep' | 'filter'; score: number }>,
+  threshold: number
+): RelevancyEvalMetrics {
+  let tp = 0;
+  let fp = 0;
+  let fn = 0;
+  let tn = 0;
+
+  for (const { label, score } of results) {
+    const kept = score >= threshold;
+    if (kept && label === 'keep') tp++;
+    else if (kept) fp++;
+    else if (label === 'keep') fn++;
+    else tn++;
+  }
+
+  return {
+    total: results.length,
+    true_positives: tp,
+    false_positives: fp,
+    false_negatives: fn,
+    true_negatives: tn,
+    precision: ratio(tp, tp + fp),
+    recall: ratio(tp, tp + fn),
+  };
+}
+
+const STOPWORDS = new Set([
+  'about',
+  'also',
+  'content',
+  'from',
+  'have',
+  'into',
+  'just',
+  'like',
+  'only',
+  'related',
+  'than',
+  'that',
+  'their',
+  'them',
+  'they',
+  'this',
+  'unless',
+  'unrelated',
+  'what',
+  'with',
+  'without',
+  'your',
+]);
+
+function keywords(text: string): Set<string> {
+  return new Set(
+    (text.toLowerCase().match(/[a-z0-9]+/g) || []).filter(
+      (word) => word.length >= 4 && !STOPWORDS.has(word)
+    )
+  );
+}
+
+function countMatches(criteria: string[], words: Set<string>): number {
+  return criteria.filter((criterion) =>
+    Array.from(keywords(criterion)).some((word) => words.has(word))
+  ).length;
+}
+
+/**
+ * Deterministic stand-in for the model: scores a relevancy prompt by how
+ * many keep, borderline and filter criteria share a keyword with the
+ * content. Crude, but it reacts to policy and adjustment changes the same
+ * direction the model would, so the harness runs without an API key.
+ */
+export function mockRelevancyScore(prompt: string): {
+  score: number;
+  reason: string;
+} {
+  const content =
+    prompt.match(/\nContent: ([\s\S]*?)\n\nCRITICAL FILTERING RULES/)?.[1] ||
+    '';
+  const words = keywords(content);
+
+  const sections: Record<string, string[]> = {};
+  for (const match of Array.from(
+    prompt.matchAll(
+      /^(KEEP|BORDERLINE|FILTER OUT) \(Score [^)]*\):\n((?:- .*(?:\n|$))*)/gm
+    )
+  )) {
+    sections[match[1]] = match[2]
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => line.slice(2));
+  }
+
+  const keep = countMatches(sections['KEEP'] || [], words);
+  const borderline = countMatches(sections['BORDERLINE'] || [], words);
+  const filter = countMatches(sections['FILTER OUT'] || [], words);
+
+  let score: number;
+  if (keep > filter) {
+    score = 70 + 5 * Math.min(keep, 3);
+  } else if (filter > keep) {
+    score = 30;
+  } else if (borderline > 0) {
+    score = 50;
+  } else {
+    score = 45;
+  }
+
+  return {
+    score,
+    reason: `Mock: ${keep} keep, ${borderline} borderline, ${filter} filter criteria matched`,
+  };
+}
+
+/**
+ * Gateway that answers every task from mockRelevancyScore via the stub
+ * provider, for RelevancyService in CI and local runs
+ */
+export function createMockRelevancyGateway(): LLMGateway {
+  const stub = new StubProvider((request) =>
+    JSON.stringify(
+      mockRelevancyScore(request.messages[request.messages.length - 1].content)
+    )
+  );
+
+  return new LLMGateway(
+    [{ name: 'stub', create: () => stub }],
+    resolveTaskRoutes({ LLM_PROVIDER: 'stub' })
+  );
+}
+
+/**
+ * Relevancy Eval Service
+ *
+ * Builds a labeled dataset for a lounge from curator corrections and from
+ * content the live prompt kept or deleted, then replays it through
+ * RelevancyService with the live policy and a candidate to show what the
+ * candidate would change. Expects a service-role client.
+ */
+export class RelevancyEvalService {
+  constructor(
+    private supabase: SupabaseClient,
+    private relevancy: RelevancyService
+  ) {}
+
+  /**
+   * Up to `limit` labeled items. Curator corrections come first, then kept
+   * and deleted content in roughly equal parts, newest first.
+   */
+  async buildDataset(
+    loungeId: string,
+    limit: number
+  ): Promise<RelevancyEvalItem[]> {
+    const { data: lounge, error: loungeError } = await this.supabase
+      .from('lounges')
+      .select('id, name, theme_description, relevancy_threshold')
+      .eq('id', loungeId)
+      .maybeSingle();
+
+    if (loungeError) {
+      throw new RelevancyPolicyError(
+        `Failed to fetch lounge: ${loungeError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!lounge) {
+      throw new RelevancyPolicyError('Lounge not found', 'NOT_FOUND', 404);
+    }
+
+    const base = {
+      lounge_id: lounge.id,
+      lounge_name: lounge.name,
+      theme_description: lounge.theme_description || '',
+    };
+    const threshold = lounge.relevancy_threshold ?? 60;
+
+    const [corrections, creators] = await Promise.all([
+      this.supabase
+        .from('relevancy_corrections')
+        .select('content_id, content_snapshot')
+        .eq('lounge_id', loungeId)
+        .order('created_at', { ascending: false })
+        .limit(limit),
+      this.supabase
+        .from('creator_lounges')
+        .select('creator_id')
+        .eq('lounge_id', loungeId),
+    ]);
+
+    const failure = corrections.error || creators.error;
+    if (failure) {
+      throw new RelevancyPolicyError(
+        `Failed to build evaluation dataset: ${failure.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    // Curators restored these, so the model should have kept them
+    const restored: RelevancyEvalItem[] = (corrections.data || [])
+      .filter((row) => row.content_id && row.content_snapshot)
+      .map((row) => {
+        const snapshot = row.content_snapshot as Record<string, any>;
+        return {
+          ...base,
+          content_id: row.content_id,
+          content_title: snapshot.title || '',
+          content_description: snapshot.description || null,
+          content_url: snapshot.url || '',
+          creator_name: snapshot.creator_name || 'Unknown',
+          reference_type: snapshot.reference_type || null,
+          referenced_content: snapshot.referenced_content || null,
+          label: 'keep' as const,
+          source: 'correction' as const,
+        };
+      });
+
+    const creatorIds = (creators.data || []).map((row) => row.creator_id);
+    const remaining = limit - restored.length;
+    if (remaining <= 0 || creatorIds.length === 0) {
+      return restored.slice(0, limit);
+    }
+
+    const { data: content, error: contentError } = await this.supabase
+      .from('content')
+      .select(
+        'id, title, description, url, platform, platform_content_id, relevancy_score, reference_type, referenced_content, creators(display_name)'
+      )
+      .in('creator_id', creatorIds)
+      .not('relevancy_checked_at', 'is', null)
+      .order('published_at', { ascending: false })
+      .limit(remaining * 4)
+      .overrideTypes<EvalContentRow[], { merge: false }>();
+
+    if (contentError) {
+      throw new RelevancyPolicyError(
+        `Failed to build evaluation dataset: ${contentError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const rows = content || [];
+    const { data: deleted, error: deletedError } = rows.length
+      ? await this.supabase
+          .from('deleted_content')
+          .select('platform, platform_content_id, deletion_reason')
+          .in(
+            'platform_content_id',
+            rows.map((row) => row.platform_content_id)
+          )
+      : { data: [], error: null };
+
+    if (deletedError) {
+      throw new RelevancyPolicyError(
+        `Failed to build evaluation dataset: ${deletedError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const deletionReasons = new Map(
+      (deleted || []).map((row) => [
+        `${row.platform}:${row.platform_content_id}`,
+        row.deletion_reason,
+      ])
+    );
+    const restoredIds = new Set(restored.map((item) => item.content_id));
+
+    const kept: RelevancyEvalItem[] = [];
+    const removed: RelevancyEvalItem[] = [];
+    for (const row of rows) {
+      if (restoredIds.has(row.id)) continue;
+
+      const item = {
+        ...base,
+        content_id: row.id,
+        content_title: row.title || '',
+        content_description: row.description,
+        content_url: row.url,
+        creator_name: row.creators?.display_name || 'Unknown',
+        reference_type: row.reference_type,
+        referenced_content: row.referenced_content,
+      };
+      const reason = deletionReasons.get(
+        `${row.platform}:${row.platform_content_id}`
+      );
+
+      if (reason === undefined) {
+        // Scores under the threshold that survived passed another lounge
+        if (Number(row.relevancy_score) >= threshold) {
+          kept.push({ ...item, label: 'keep', source: 'kept' });
+        }
+      } else {
+        removed.push({
+          ...item,
+          label: 'filter',
+          source: reason === 'low_relevancy' ? 'auto_deleted' : 'manual_delete',
+        });
+      }
+    }
+
+    // Curator deletions are the stronger signal
+    removed.sort(
+      (a, b) =>
+        Number(a.source === 'auto_deleted') -
+        Number(b.source === 'auto_deleted')
+    );
+
+    const keepCount = Math.min(
+      kept.length,
+      Math.max(Math.ceil(remaining / 2), remaining - removed.length)
+    );
+    return [
+      ...restored,
+      ...kept.slice(0, keepCount),
+      ...removed.slice(0, remaining - keepCount),
+    ];
+  }
+
+  /**
+   * Live adjustments plus a pending suggestion, as a candidate
+   */
+  async getSuggestionCandidate(
+    loungeId: string,
+    suggestionId: string
+  ): Promise<PromptAdjustment[]> {
+    const [live, { data: suggestion, error }] = await Promise.all([
+      this.relevancy.getPromptAdjustments(loungeId),
+      this.supabase
+        .from('prompt_adjustments')
+        .select('lounge_id, adjustment_type, adjustment_text')
+        .eq('id', suggestionId)
+        .maybeSingle(),
+    ]);
+
+    if (error) {
+      throw new RelevancyPolicyError(
+        `Failed to fetch suggestion: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!suggestion || suggestion.lounge_id !== loungeId) {
+      throw new RelevancyPolicyError('Suggestion not found', 'NOT_FOUND', 404);
+    }
+
+    return [
+      ...live,
+      {
+        adjustment_type: suggestion.adjustment_type,
+        adjustment_text: suggestion.adjustment_text,
+      },
+    ];
+  }
+
+  /**
+   * Score the dataset with the live policy and with the candidate, and
+   * report how each does against the labels
+   */
+  async evaluate(
+    loungeId: string,
+    dataset: RelevancyEvalItem[],
+    candidate: RelevancyEvalCandidate,
+    options: { mock?: boolean } = {}
+  ): Promise<RelevancyEvalReport> {
+    const [liveRules, liveAdjustments] = await Promise.all([
+      this.relevancy.getPolicyRules(loungeId),
+      this.relevancy.getPromptAdjustments(loungeId),
+    ]);
+    const baseline = { rules: liveRules, adjustments: liveAdjustments };
+    const proposed = {
+      rules: candidate.rules || liveRules,
+      adjustments: candidate.adjustments || liveAdjustments,
+    };
+
+    const baselineScores = await this.score(dataset, baseline);
+    const candidateScores = await this.score(dataset, proposed);
+
+    const flips: RelevancyEvalFlip[] = [];
+    dataset.forEach((item, i) => {
+      const before = baselineScores[i].score >= baseline.rules.threshold;
+      const after = candidateScores[i].score >= proposed.rules.threshold;
+      if (before === after) return;
+
+      flips.push({
+        content_id: item.content_id,
+        title: item.content_title,
+        url: item.content_url,
+        label: item.label,
+        source: item.source,
+        baseline_score: baselineScores[i].score,
+        candidate_score: candidateScores[i].score,
+        candidate_reason: candidateScores[i].reason,
+        fixed: after === (item.label === 'keep'),
+      });
+    });
+
+    const labeled = (scores: { score: number }[]) =>
+      dataset.map((item, i) => ({ label: item.label, score: scores[i].score }));
+
+    return {
+      lounge_id: loungeId,
+      dataset_size: dataset.length,
+      mock: !!options.mock,
+      baseline: {
+        ...computeMetrics(labeled(baselineScores), baseline.rules.threshold),
+        threshold: baseline.rules.threshold,
+      },
+      candidate: {
+        ...computeMetrics(labeled(candidateScores), proposed.rules.threshold),
+        threshold: proposed.rules.threshold,
+      },
+      flips,
+    };
+  }
+
+  private async score(
+    dataset: RelevancyEvalItem[],
+    candidate: Required<RelevancyEvalCandidate>
+  ) {
+    const results = [];
+    for (let i = 0; i < dataset.length; i += BATCH_SIZE) {
+      const batch = dataset.slice(i, i + BATCH_SIZE);
+      results.push(
+        ...(await Promise.all(
+          batch.map((item) => this.relevancy.checkSingleItem(item, candidate))
+        ))
+      );
+    }
+    return results;
+  }
+}
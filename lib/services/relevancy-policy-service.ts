@@ -0,0 +1,261 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  RelevancyPolicyError,
+  type LoungeRelevancyPolicy,
+  type PromptAdjustment,
+  type PublishRelevancyPolicyInput,
+  type RelevancyPolicyLounge,
+  type RelevancyPolicyRules,
+} from '@/types/relevancy-policy';
+
+// Used for lounges that don't have a policy yet
+export const DEFAULT_RELEVANCY_THRESHOLD = 60;
+
+// Width of the borderline band below the threshold
+const BORDERLINE_BAND = 20;
+
+export const EMPTY_RELEVANCY_POLICY: RelevancyPolicyRules = {
+  keep_criteria: [],
+  borderline_criteria: [],
+  filter_criteria: [],
+  examples: [],
+  focus: null,
+  threshold: DEFAULT_RELEVANCY_THRESHOLD,
+};
+
+function bullets(criteria: string[]): string {
+  return criteria.map((criterion) => `- ${criterion}`).join('\n');
+}
+
+/**
+ * The keep/borderline/filter section of the relevancy prompt, with approved
+ * prompt adjustments appended to each list. Returns an empty string when
+ * there's nothing to say about the lounge.
+ */
+export function buildPolicyContext(
+  rules: RelevancyPolicyRules,
+  adjustments: PromptAdjustment[] = []
+): string {
+  const withAdjustments = (
+    criteria: string[],
+    type: PromptAdjustment['adjustment_type']
+  ) => [
+    ...criteria,
+    ...adjustments
+      .filter((a) => a.adjustment_type === type)
+      .map((a) => a.adjustment_text),
+  ];
+
+  const keep = withAdjustments(rules.keep_criteria, 'keep');
+  const borderline = withAdjustments(rules.borderline_criteria, 'borderline');
+  const filter = withAdjustments(rules.filter_criteria, 'filter');
+
+  if (
+    keep.length === 0 &&
+    borderline.length === 0 &&
+    filter.length === 0 &&
+    rules.examples.length === 0
+  ) {
+    return '';
+  }
+
+  const { threshold } = rules;
+  const floor = Math.max(threshold - BORDERLINE_BAND, 0);
+  const sections = [`KEEP (Score ${threshold}+):\n${bullets(keep)}`];
+
+  if (borderline.length > 0) {
+    sections.push(
+      `BORDERLINE (Score ${floor}-${threshold - 1}):\n${bullets(borderline)}`,
+      `FILTER OUT (Score <${floor}):\n${bullets(filter)}`
+    );
+  } else {
+    sections.push(`FILTER OUT (Score <${threshold}):\n${bullets(filter)}`);
+  }
+
+  if (rules.examples.length > 0) {
+    sections.push(
+      `EXAMPLES:\n${rules.examples
+        .map(
+          (example) =>
+            `- ${example.verdict.toUpperCase()}: "${example.content}"${
+              example.reason ? ` (${example.reason})` : ''
+            }`
+        )
+        .join('\n')}`
+    );
+  }
+
+  return `\n${sections.join('\n\n')}`;
+}
+
+/**
+ * Relevancy Policy Service
+ *
+ * Reads and publishes the versioned relevancy policy each lounge is scored
+ * against. Publishing never edits a version in place: every change,
+ * including a rollback, becomes a new active version. Expects a
+ * service-role client.
+ */
+export class RelevancyPolicyService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async getActivePolicy(
+    loungeId: string
+  ): Promise<LoungeRelevancyPolicy | null> {
+    const { data, error } = await this.supabase
+      .from('lounge_relevancy_policies')
+      .select('*')
+      .eq('lounge_id', loungeId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    if (error) {
+      throw new RelevancyPolicyError(
+        `Failed to fetch relevancy policy: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as LoungeRelevancyPolicy | null;
+  }
+
+  /**
+   * Every version of a lounge's policy, newest first
+   */
+  async listVersions(loungeId: string): Promise<LoungeRelevancyPolicy[]> {
+    const { data, error } = await this.supabase
+      .from('lounge_relevancy_policies')
+      .select('*')
+      .eq('lounge_id', loungeId)
+      .order('version', { ascending: false });
+
+    if (error) {
+      throw new RelevancyPolicyError(
+        `Failed to fetch relevancy policy history: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return (data || []) as LoungeRelevancyPolicy[];
+  }
+
+  /**
+   * System lounges with the version of their policy that's live
+   */
+  async listLounges(): Promise<RelevancyPolicyLounge[]> {
+    const [lounges, policies] = await Promise.all([
+      this.supabase
+        .from('lounges')
+        .select('id, name, relevancy_threshold')
+        .eq('is_system_lounge', true)
+        .order('name'),
+      this.supabase
+        .from('lounge_relevancy_policies')
+        .select('lounge_id, version')
+        .eq('is_active', true),
+    ]);
+
+    const failure = lounges.error || policies.error;
+    if (failure) {
+      throw new RelevancyPolicyError(
+        `Failed to fetch lounges: ${failure.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const activeVersions = new Map<string, number>(
+      (policies.data || []).map((row) => [row.lounge_id, row.version])
+    );
+
+    return (lounges.data || []).map((lounge) => ({
+      id: lounge.id,
+      name: lounge.name,
+      relevancy_threshold: lounge.relevancy_threshold,
+      active_version: activeVersions.get(lounge.id) ?? null,
+    }));
+  }
+
+  /**
+   * Publish a new active version and copy its threshold onto the lounge
+   */
+  async publish(
+    input: PublishRelevancyPolicyInput,
+    userId: string | null,
+    rolledBackFrom: number | null = null
+  ): Promise<LoungeRelevancyPolicy> {
+    const { data, error } = await this.supabase.rpc(
+      'publish_lounge_relevancy_policy',
+      {
+        p_lounge_id: input.lounge_id,
+        p_keep_criteria: input.keep_criteria,
+        p_borderline_criteria: input.borderline_criteria,
+        p_filter_criteria: input.filter_criteria,
+        p_examples: input.examples,
+        p_focus: input.focus || null,
+        p_threshold: input.threshold,
+        p_change_note: input.change_note || null,
+        p_created_by: userId,
+        p_rolled_back_from: rolledBackFrom,
+      }
+    );
+
+    if (error) {
+      if (error.code === 'P0002') {
+        throw new RelevancyPolicyError('Lounge not found', 'NOT_FOUND', 404);
+      }
+      throw new RelevancyPolicyError(
+        `Failed to publish relevancy policy: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    return data as LoungeRelevancyPolicy;
+  }
+
+  /**
+   * Make an older version live again by republishing it as the newest one
+   */
+  async rollback(
+    loungeId: string,
+    version: number,
+    userId: string | null
+  ): Promise<LoungeRelevancyPolicy> {
+    const { data: target, error } = await this.supabase
+      .from('lounge_relevancy_policies')
+      .select('*')
+      .eq('lounge_id', loungeId)
+      .eq('version', version)
+      .maybeSingle();
+
+    if (error) {
+      throw new RelevancyPolicyError(
+        `Failed to fetch relevancy policy: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!target) {
+      throw new RelevancyPolicyError(
+        `Version ${version} not found`,
+        'NOT_FOUND',
+        404
+      );
+    }
+
+    return this.publish(
+      {
+        lounge_id: loungeId,
+        keep_criteria: target.keep_criteria,
+        borderline_criteria: target.borderline_criteria,
+        filter_criteria: target.filter_criteria,
+        examples: target.examples,
+        focus: target.focus,
+        threshold: target.threshold,
+        change_note: `Rolled back to version ${version}`,
+      },
+      userId,
+      version
+    );
+  }
+}
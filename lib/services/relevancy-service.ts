@@ -1,44 +1,54 @@
-import OpenAI from 'openai';
 import { SupabaseClient } from '@supabase/supabase-js';
-
-interface RelevancyCheckItem {
-  content_id: string;
-  lounge_id: string;
-  lounge_name: string;
-  theme_description: string;
-  content_title: string;
-  content_description: string | null;
-  content_url: string;
-  creator_name: string;
-  reference_type?: string | null;
-  referenced_content?: any | null;
-}
-
-interface RelevancyResult {
-  content_id: string;
-  lounge_id: string;
-  score: number;
-  reason: string;
-}
-
-interface PromptAdjustment {
-  adjustment_type: 'keep' | 'filter' | 'borderline';
-  adjustment_text: string;
+import { z } from 'zod';
+import { WebhookService, type KeptContent } from './webhook-service';
+import {
+  EMPTY_RELEVANCY_POLICY,
+  RelevancyPolicyService,
+  buildPolicyContext,
+} from './relevancy-policy-service';
+import { ContentThreadService } from './content-thread-service';
+import { queueWebhookDeliveries } from '@/lib/queue/queue-service';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
+import { getThreadText } from '@/types/content';
+import type { LLMCompletionRequest } from '@/types/llm';
+import type {
+  PromptAdjustment,
+  RelevancyCheckItem,
+  RelevancyPolicyRules,
+  RelevancyResult,
+} from '@/types/relevancy-policy';
+
+// The model's answer for one item
+const RelevancyScoreSchema = z.object({
+  score: z.coerce.number(),
+  reason: z.string().optional(),
+});
+
+// A policy or adjustment list that isn't live yet, for evaluation
+interface RelevancyCandidate {
+  rules?: RelevancyPolicyRules;
+  adjustments?: PromptAdjustment[];
 }
 
 export class RelevancyService {
-  private openai: OpenAI;
+  private llm: LLMGateway;
   private supabase: SupabaseClient;
+  private policies: RelevancyPolicyService;
+  private threads: ContentThreadService;
 
-  constructor(supabase: SupabaseClient) {
-    if (!process.env.OPENAI_API_KEY) {
-      throw new Error('OpenAI API key is not configured');
+  /**
+   * Pass `llm` to score with another gateway, such as the offline
+   * evaluation harness's mock model
+   */
+  constructor(supabase: SupabaseClient, llm: LLMGateway = getLLMGateway()) {
+    if (!llm.isAvailable('relevancy')) {
+      throw new Error('No LLM provider is configured for relevancy checks');
     }
 
-    this.openai = new OpenAI({
-      apiKey: process.env.OPENAI_API_KEY,
-    });
+    this.llm = llm;
     this.supabase = supabase;
+    this.policies = new RelevancyPolicyService(supabase);
+    this.threads = new ContentThreadService(supabase);
   }
 
   /**
@@ -65,9 +75,7 @@ export class RelevancyService {
   /**
    * Get dynamic prompt adjustments from database
    */
-  private async getPromptAdjustments(
-    loungeId: string
-  ): Promise<PromptAdjustment[]> {
+  async getPromptAdjustments(loungeId: string): Promise<PromptAdjustment[]> {
     const { data, error } = await this.supabase
       .from('prompt_adjustments')
       .select('adjustment_type, adjustment_text')
@@ -84,317 +92,59 @@ export class RelevancyService {
   }
 
   /**
-   * Build lounge context with base rules and dynamic adjustments
+   * The lounge's active relevancy policy, or an empty one scored at the
+   * default threshold if it has none
    */
-  private async buildLoungeContext(
-    loungeName: string,
-    loungeId: string
-  ): Promise<string> {
-    // Get dynamic adjustments from database
-    const adjustments = await this.getPromptAdjustments(loungeId);
-
-    // Group adjustments by type
-    const keepAdjustments = adjustments
-      .filter((a) => a.adjustment_type === 'keep')
-      .map((a) => `- ${a.adjustment_text}`);
-    const filterAdjustments = adjustments
-      .filter((a) => a.adjustment_type === 'filter')
-      .map((a) => `- ${a.adjustment_text}`);
-    const borderlineAdjustments = adjustments
-      .filter((a) => a.adjustment_type === 'borderline')
-      .map((a) => `- ${a.adjustment_text}`);
-
-    let baseContext = '';
-
-    if (loungeName === 'SaaS') {
-      // Base SaaS context
-      const baseKeep = [
-        '- ANY technology, software, AI, or programming content',
-        '- AI tools, prompts, workflows, use cases (ChatGPT, Claude, Midjourney, etc.)',
-        '- AI in business, AI automation, AI agents, AI APIs',
-        '- Machine learning, LLMs, AI development, AI trends',
-        '- Software as a Service businesses, SaaS metrics (MRR, ARR, churn, CAC, LTV)',
-        '- B2B software sales, pricing, customer success',
-        '- SaaS product development, features, integrations',
-        '- Cloud software, subscription models, SaaS tools',
-        '- Technical implementation (APIs, infrastructure, security, DevOps)',
-        '- Software engineering, coding, architecture patterns',
-        '- Tech industry news, product launches, acquisitions',
-        '- Developer tools, productivity software, automation',
-        '- Open source projects, tech tutorials, best practices',
-        '- No-code/low-code tools and platforms',
-        ...keepAdjustments, // Add dynamic adjustments
-      ];
-
-      const baseBorderline = [
-        '- General B2B business strategies without tech/AI context',
-        '- Marketing/growth tactics without specific software examples',
-        '- Generic startup advice without tech/software focus',
-        '- Brand building without product context',
-        ...borderlineAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Pure celebrity/entertainment content',
-        '- Consumer product reviews (non-tech)',
-        '- Personal life updates unrelated to tech/work',
-        '- Motivational quotes without business/tech context',
-        '- Political content unrelated to tech industry',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 60+):
-${baseKeep.join('\n')}
-
-BORDERLINE (Score 40-59):
-${baseBorderline.join('\n')}
-
-FILTER OUT (Score <40):
-${baseFilter.join('\n')}`;
-    } else if (loungeName === 'B2B Growth' || loungeName === 'Growth Coffee') {
-      // B2B Growth specific context
-      const baseKeep = [
-        '- B2B sales techniques, strategies, and methodologies',
-        '- Account-based marketing (ABM) and enterprise sales',
-        '- Lead generation, nurturing, and conversion strategies',
-        '- B2B content marketing and thought leadership',
-        '- Sales enablement tools and processes',
-        '- Customer acquisition strategies for B2B',
-        '- Revenue operations and growth metrics',
-        '- B2B pricing strategies and models',
-        '- Partnership and channel strategies',
-        '- B2B customer success and retention',
-        '- Marketing automation for B2B',
-        '- LinkedIn and B2B social selling strategies',
-        '- Case studies of B2B growth',
-        '- SaaS growth tactics and metrics',
-        '- Professional insights about growing B2B companies',
-        ...keepAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Personal life events (engagements, birthdays, vacations)',
-        '- Sports news or entertainment gossip',
-        '- Celebrity news or pop culture references',
-        '- Personal relationship updates',
-        '- Food, fashion, or lifestyle content without B2B angle',
-        '- Motivational quotes without specific B2B context',
-        '- Political content unrelated to B2B business',
-        '- Consumer product reviews (B2C focus)',
-        '- Personal hobbies or interests unrelated to B2B',
-        '- General news without B2B business impact',
-        '- Jokes or memes without B2B relevance',
-        '- Weather, travel, or local news',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 60+):
-${baseKeep.join('\n')}
-
-FILTER OUT (Score <60):
-${baseFilter.join('\n')}`;
-    } else if (loungeName === 'AI' || loungeName === 'AI Coffee') {
-      // AI-specific lounge
-      const baseKeep = [
-        '- AI technology, machine learning, LLMs, neural networks',
-        '- AI tools, products, and applications',
-        '- AI research, papers, breakthroughs',
-        '- AI in business, automation, AI agents',
-        '- AI development, prompting, workflows',
-        '- AI industry news, funding, acquisitions',
-        '- AI ethics, safety, governance',
-        '- AI startups and venture investments in AI',
-        '- Technical AI discussions and implementations',
-        ...keepAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Sports results, athlete achievements, game scores',
-        '- Tennis, football, basketball, or any sports competition',
-        '- Celebrity gossip, entertainment news',
-        '- Personal life updates (birthdays, vacations, relationships)',
-        '- Food, fashion, lifestyle without AI context',
-        '- Generic motivational quotes',
-        '- Political content unrelated to AI policy',
-        '- Health/fitness unless AI-related',
-        '- Travel, weather, local news',
-        '- Pure venture/business without AI angle',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 60+):
-${baseKeep.join('\n')}
-
-FILTER OUT (Score <60):
-${baseFilter.join('\n')}`;
-    } else if (loungeName === 'Venture' || loungeName === 'Venture Coffee') {
-      // Venture-specific lounge
-      const baseKeep = [
-        '- Venture capital, startup funding, investment rounds',
-        '- Startup news, exits, acquisitions, IPOs',
-        '- Founder stories, entrepreneurship insights',
-        '- Investment strategies, portfolio management',
-        '- Startup metrics, growth, scaling',
-        '- Accelerators, incubators, startup programs',
-        '- Angel investing, seed funding',
-        '- Market analysis, industry trends',
-        '- VC firm news, partner moves',
-        ...keepAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Sports results, athlete achievements, game scores',
-        '- Tennis, football, basketball, or any sports competition',
-        '- Celebrity gossip, entertainment news',
-        '- Personal life updates (birthdays, vacations, relationships)',
-        '- Food, fashion, lifestyle without business context',
-        '- Generic motivational quotes',
-        '- Political content unrelated to business/tech policy',
-        '- Health/fitness unless startup-related',
-        '- Travel, weather, local news',
-        '- Pure technical content without business angle',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 60+):
-${baseKeep.join('\n')}
-
-FILTER OUT (Score <60):
-${baseFilter.join('\n')}`;
-    } else if (loungeName === 'Crypto') {
-      // Crypto-specific lounge
-      const baseKeep = [
-        '- Cryptocurrency, blockchain, DeFi, Web3',
-        '- Crypto trading, markets, analysis',
-        '- NFTs, DAOs, smart contracts',
-        '- Crypto regulations, policy, legal',
-        '- Blockchain development, protocols',
-        '- Crypto projects, launches, updates',
-        '- Mining, staking, yield farming',
-        '- Crypto venture investments',
-        ...keepAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Sports, entertainment (unless business angle)',
-        '- Personal daily routines unrelated to work',
-        '- Birthday wishes, personal celebrations',
-        '- Generic life advice without professional context',
-        '- Political rants unrelated to crypto/tech',
-        '- Vague excitement without context ("So cool!", "Amazing!")',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 60+):
-${baseKeep.join('\n')}
-
-FILTER OUT (Score <60):
-${baseFilter.join('\n')}`;
-    } else if (loungeName === 'Biohacking') {
-      const baseKeep = [
-        '- Health optimization, fitness, nutrition content',
-        '- Sleep, recovery, performance tips',
-        '- Supplements, nootropics, health tech',
-        '- Personal health experiments and results',
-        '- Wellness routines and protocols',
-        '- Mental health and cognitive enhancement',
-        '- Even personal stories IF they include health insights',
-        ...keepAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Pure motivational content without health context',
-        '- Business content unrelated to health',
-        '- Political or social commentary',
-        '- Entertainment, sports (unless health-related)',
-        '- Vague statements without health information',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 50+):
-${baseKeep.join('\n')}
-
-FILTER OUT (Score <50):
-${baseFilter.join('\n')}`;
-    } else if (loungeName === 'Personal Growth') {
-      const baseKeep = [
-        '- Productivity tips and systems',
-        '- Goal setting and achievement',
-        '- Learning strategies, skill development',
-        '- Career growth and professional development',
-        '- Mindset and psychology insights',
-        '- Work-life balance strategies',
-        '- Personal experiences with lessons learned',
-        '- Even motivational content IF it has actionable advice',
-        ...keepAdjustments,
-      ];
-
-      const baseFilter = [
-        '- Empty motivational quotes with no substance',
-        '- Pure business metrics without growth angle',
-        '- Technical content without learning aspect',
-        '- Political or controversial topics',
-        '- Entertainment without educational value',
-        ...filterAdjustments,
-      ];
-
-      baseContext = `
-KEEP (Score 50+):
-${baseKeep.join('\n')}
-
-FILTER OUT (Score <50):
-${baseFilter.join('\n')}`;
+  async getPolicyRules(loungeId: string): Promise<RelevancyPolicyRules> {
+    try {
+      const policy = await this.policies.getActivePolicy(loungeId);
+      return policy || EMPTY_RELEVANCY_POLICY;
+    } catch (error) {
+      console.error('Error fetching relevancy policy:', error);
+      return EMPTY_RELEVANCY_POLICY;
     }
-
-    return baseContext;
   }
 
   /**
-   * Check relevancy for a single content item
+   * The scoring request for one item in its lounge. Shared by real-time
+   * checks and batch jobs so both send the same prompt.
    */
-  private async checkSingleItem(
-    item: RelevancyCheckItem
-  ): Promise<RelevancyResult> {
-    try {
-      // Build lounge context with base rules and dynamic adjustments
-      const loungeContext = await this.buildLoungeContext(
-        item.lounge_name,
-        item.lounge_id
-      );
-
-      // loungeContext is now built dynamically above
-
-      // Build content description including referenced content
-      let fullContent = item.content_description || item.content_title;
-
-      // If this is a quote tweet, retweet, or reply, include the referenced content
-      if (item.reference_type && item.referenced_content) {
-        const refContent = item.referenced_content;
-        if (item.reference_type === 'quote') {
-          fullContent += `\n\n[QUOTED TWEET: ${refContent.text || refContent.description || ''}]`;
-          if (refContent.author?.username) {
-            fullContent += ` by @${refContent.author.username}`;
-          }
-        } else if (item.reference_type === 'retweet') {
-          // For retweets, the referenced content IS the main content
-          fullContent = `[RETWEET: ${refContent.text || refContent.description || fullContent}]`;
-          if (refContent.author?.username) {
-            fullContent += ` by @${refContent.author.username}`;
-          }
-        } else if (item.reference_type === 'reply') {
-          fullContent += `\n\n[REPLYING TO: @${refContent.author?.username || 'unknown'}]`;
+  async buildRelevancyRequest(
+    item: RelevancyCheckItem,
+    candidate: RelevancyCandidate = {}
+  ): Promise<LLMCompletionRequest> {
+    // Build lounge context from its policy and dynamic adjustments
+    const [rules, adjustments] = await Promise.all([
+      candidate.rules || this.getPolicyRules(item.lounge_id),
+      candidate.adjustments || this.getPromptAdjustments(item.lounge_id),
+    ]);
+    const loungeContext = buildPolicyContext(rules, adjustments);
+
+    // Build content description including referenced content
+    let fullContent = item.content_description || item.content_title;
+
+    // If this is a quote tweet, retweet, or reply, include the referenced content
+    if (item.reference_type && item.referenced_content) {
+      const refContent = item.referenced_content;
+      if (item.reference_type === 'quote') {
+        fullContent += `\n\n[QUOTED TWEET: ${refContent.text || ''}]`;
+        if (refContent.author?.username) {
+          fullContent += ` by @${refContent.author.username}`;
+        }
+      } else if (item.reference_type === 'retweet') {
+        // For retweets, the referenced content IS the main content
+        fullContent = `[RETWEET: ${refContent.text || fullContent}]`;
+        if (refContent.author?.username) {
+          fullContent += ` by @${refContent.author.username}`;
         }
+      } else if (item.reference_type === 'reply') {
+        fullContent += `\n\n[REPLYING TO: @${refContent.author?.username || 'unknown'}]`;
       }
+    }
 
-      const prompt = `You are a strict content curator for a professional tech/business lounge. Be STRICT about filtering off-topic content.
+    const prompt = `You are a strict content curator for a professional tech/business lounge. Be STRICT about filtering off-topic content.
 
-LOUNGE: ${item.lounge_name}
+LOUNGE: ${item.lounge_name}${item.theme_description ? `\nTHEME: ${item.theme_description}` : ''}
 ${loungeContext}
 
 CONTENT TO EVALUATE:
@@ -407,8 +157,8 @@ CRITICAL FILTERING RULES:
 - Be STRICT: Content must be DIRECTLY relevant to the lounge theme, not tangentially related
 - For quote tweets/retweets: BOTH the commentary AND quoted content must be relevant. If either is off-topic, score low.
 
-Score 0-100 based on relevance to the lounge. The threshold is ${item.lounge_name === 'Biohacking' || item.lounge_name === 'Personal Growth' ? '50' : '60'}.
-For ${item.lounge_name.includes('AI') ? 'AI lounges: ONLY AI/ML content scores 60+' : item.lounge_name.includes('Venture') ? 'Venture lounges: ONLY startup/investment content scores 60+' : 'this lounge: stay strictly on theme'}.
+Score 0-100 based on relevance to the lounge. The threshold is ${rules.threshold}.
+For this lounge: ${rules.focus || 'stay strictly on theme'}.
 
 Respond in JSON:
 {
@@ -416,32 +166,67 @@ Respond in JSON:
   "reason": "<briefly explain relevance>"
 }`;
 
-      const response = await this.openai.chat.completions.create({
-        model: 'gpt-4o-mini',
-        messages: [
-          {
-            role: 'system',
-            content:
-              'You are a content relevancy evaluator. Always respond in valid JSON format.',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        temperature: 0.3,
-        max_tokens: 200,
-        response_format: { type: 'json_object' },
-      });
+    return {
+      task: 'relevancy',
+      attribution: { loungeId: item.lounge_id, contentId: item.content_id },
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are a content relevancy evaluator. Always respond in valid JSON format.',
+        },
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+      temperature: 0.3,
+      maxTokens: 200,
+      json: true,
+    };
+  }
 
-      const result = JSON.parse(response.choices[0].message.content || '{}');
+  /**
+   * Read a model's answer for one item, as returned by a batch job.
+   * Throws when it isn't a valid score.
+   */
+  parseRelevancyAnswer(
+    item: Pick<RelevancyCheckItem, 'content_id' | 'lounge_id'>,
+    answer: string
+  ): RelevancyResult {
+    return this.toRelevancyResult(
+      item,
+      RelevancyScoreSchema.parse(extractJson(answer))
+    );
+  }
 
-      return {
-        content_id: item.content_id,
-        lounge_id: item.lounge_id,
-        score: Math.min(100, Math.max(0, result.score || 0)),
-        reason: result.reason || 'No reason provided',
-      };
+  private toRelevancyResult(
+    item: Pick<RelevancyCheckItem, 'content_id' | 'lounge_id'>,
+    result: z.infer<typeof RelevancyScoreSchema>
+  ): RelevancyResult {
+    return {
+      content_id: item.content_id,
+      lounge_id: item.lounge_id,
+      score: Math.min(100, Math.max(0, result.score)),
+      reason: result.reason || 'No reason provided',
+    };
+  }
+
+  /**
+   * Check relevancy for a single content item. `candidate` swaps in a
+   * policy or adjustment list that isn't live yet, for evaluation.
+   */
+  async checkSingleItem(
+    item: RelevancyCheckItem,
+    candidate: RelevancyCandidate = {}
+  ): Promise<RelevancyResult> {
+    try {
+      const { data: result } = await this.llm.completeJson(
+        await this.buildRelevancyRequest(item, candidate),
+        RelevancyScoreSchema
+      );
+
+      return this.toRelevancyResult(item, result);
     } catch (error) {
       console.error(
         `Error checking relevancy for content ${item.content_id}:`,
@@ -475,7 +260,43 @@ Respond in JSON:
       throw error;
     }
 
-    return data || [];
+    return this.groupThreads(data || []);
+  }
+
+  /**
+   * Score threads as a unit, so a thread is kept or filtered as a whole.
+   * Any post from a thread is checked as the thread's opener with the
+   * text of the whole thread, once per lounge; updateRelevancyScores
+   * copies the opener's score to the rest of the thread.
+   */
+  private async groupThreads(
+    items: RelevancyCheckItem[]
+  ): Promise<RelevancyCheckItem[]> {
+    const threads = await this.threads.getThreadsForContent(
+      items.map((item) => item.content_id)
+    );
+    if (threads.size === 0) return items;
+
+    const grouped = new Map<string, RelevancyCheckItem>();
+    for (const item of items) {
+      const posts = threads.get(item.content_id);
+      const threadItem = posts
+        ? {
+            ...item,
+            content_id: posts[0].id,
+            content_title: posts[0].title || item.content_title,
+            content_url: posts[0].url,
+            content_description: getThreadText(posts),
+            reference_type: posts[0].reference_type,
+            referenced_content: posts[0].referenced_content,
+          }
+        : item;
+      grouped.set(
+        `${threadItem.content_id}:${threadItem.lounge_id}`,
+        threadItem
+      );
+    }
+    return Array.from(grouped.values());
   }
 
   /**
@@ -538,6 +359,9 @@ Respond in JSON:
       }
     }
 
+    // Content that passes at least one lounge threshold, for webhooks
+    const keptContent: KeptContent[] = [];
+
     // Update each content item
     const entries = Array.from(contentScores.entries());
     for (const [
@@ -572,6 +396,19 @@ Respond in JSON:
         }
       });
 
+      if (!shouldDelete) {
+        keptContent.push({
+          content_id: contentId,
+          score: highestScore,
+          lounges: Array.from(loungeScores.entries())
+            .filter(
+              ([loungeId, { score }]) =>
+                score >= (loungeThresholds.get(loungeId) || 60)
+            )
+            .map(([loungeId, { score }]) => ({ id: loungeId, score })),
+        });
+      }
+
       // If score is below threshold for ALL lounges, add to deleted_content
       if (shouldDelete) {
         // Get content details for deletion
@@ -628,6 +465,70 @@ Respond in JSON:
         }
       }
     }
+
+    await this.copyScoresToThreads(contentScores);
+    await this.notifyWebhooks(keptContent);
+  }
+
+  /**
+   * Give the rest of each scored opener's thread the opener's score, so
+   * its posts aren't checked again on their own
+   */
+  private async copyScoresToThreads(
+    contentScores: Map<string, { highestScore: number; highestReason: string }>
+  ): Promise<void> {
+    const threads = await this.threads.getThreadsForContent(
+      Array.from(contentScores.keys())
+    );
+
+    for (const [contentId, posts] of Array.from(threads.entries())) {
+      const replyIds = posts
+        .filter((post) => post.id !== contentId)
+        .map((post) => post.id);
+      const scores = contentScores.get(contentId);
+      if (posts[0].id !== contentId || replyIds.length === 0 || !scores) {
+        continue;
+      }
+
+      const { error } = await this.supabase
+        .from('content')
+        .update({
+          relevancy_score: scores.highestScore,
+          relevancy_reason: scores.highestReason,
+          relevancy_checked_at: new Date().toISOString(),
+        })
+        .in('id', replyIds);
+
+      if (error) {
+        console.error(
+          `Error copying relevancy to the thread of content ${contentId}:`,
+          error
+        );
+      }
+    }
+  }
+
+  /**
+   * Queue webhook deliveries for kept content. Failures are logged so
+   * relevancy scoring is never blocked by webhooks.
+   */
+  private async notifyWebhooks(keptContent: KeptContent[]): Promise<void> {
+    if (keptContent.length === 0) return;
+
+    try {
+      const deliveryIds = await new WebhookService(
+        this.supabase
+      ).createDeliveriesForKeptContent(keptContent);
+
+      if (deliveryIds.length > 0) {
+        await queueWebhookDeliveries(deliveryIds);
+        console.log(
+          `[RelevancyService] Queued ${deliveryIds.length} webhook deliveries`
+        );
+      }
+    } catch (error) {
+      console.error('[RelevancyService] Error queueing webhooks:', error);
+    }
   }
 
   /**
@@ -690,8 +591,8 @@ Respond in JSON:
 export function getRelevancyService(
   supabase: SupabaseClient
 ): RelevancyService | null {
-  if (!process.env.OPENAI_API_KEY) {
-    console.warn('OpenAI API key not configured - relevancy checking disabled');
+  if (!getLLMGateway().isAvailable('relevancy')) {
+    console.warn('No LLM provider configured - relevancy checking disabled');
     return null;
   }
 
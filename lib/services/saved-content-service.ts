@@ -0,0 +1,444 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Content } from '@/types/content';
+import type { Tables } from '@/types/database.types';
+import {
+  MAX_TAGS_PER_ITEM,
+  SavedContentError,
+  UNSORTED_COLLECTION,
+  type BulkSavedAction,
+  type CreateCollectionInput,
+  type SavedCollection,
+  type SavedFilters,
+  type SavedItem,
+  type SavedListResponse,
+  type SavedTagCount,
+  type UpdateCollectionInput,
+  type UpdateSavedItemInput,
+} from '@/types/saved';
+
+const SAVED_ITEM_SELECT = `
+  id,
+  content_id,
+  collection_id,
+  notes,
+  tags,
+  read_status,
+  saved_at,
+  updated_at,
+  content:content(
+    *,
+    creator:creators(
+      id,
+      display_name,
+      avatar_url,
+      metadata
+    )
+  )
+`;
+
+// saved_content row as selected by SAVED_ITEM_SELECT
+type SavedItemRow = Pick<
+  Tables<'saved_content'>,
+  | 'id'
+  | 'content_id'
+  | 'collection_id'
+  | 'notes'
+  | 'tags'
+  | 'read_status'
+  | 'updated_at'
+> & {
+  // Set by the column default on insert
+  saved_at: string;
+  content:
+    | (Content & {
+        creator:
+          | (Pick<Tables<'creators'>, 'id' | 'display_name' | 'avatar_url'> & {
+              metadata: Record<string, unknown> | null;
+            })
+          | null;
+      })
+    | null;
+};
+
+/**
+ * Lowercase, trim and de-duplicate tags, dropping anything that isn't a string
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return [];
+
+  const normalized = tags
+    .filter((tag): tag is string => typeof tag === 'string')
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-'))
+    .filter(Boolean);
+
+  return [...new Set(normalized)].slice(0, MAX_TAGS_PER_ITEM);
+}
+
+/**
+ * Tag usage across a user's saved items, most used first
+ */
+export function countTags(rows: Array<{ tags: unknown }>): SavedTagCount[] {
+  const counts = new Map<string, number>();
+  rows.forEach((row) =>
+    normalizeTags(row.tags).forEach((tag) =>
+      counts.set(tag, (counts.get(tag) || 0) + 1)
+    )
+  );
+
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Map a saved_content row (with embedded content) to a SavedItem
+ */
+function toSavedItem(row: SavedItemRow): SavedItem {
+  const content = row.content
+    ? {
+        ...row.content,
+        is_saved: true,
+        creator: row.content.creator
+          ? {
+              id: row.content.creator.id,
+              name: row.content.creator.display_name,
+              platform: row.content.platform,
+              avatar_url: row.content.creator.avatar_url,
+              metadata: row.content.creator.metadata || undefined,
+            }
+          : undefined,
+      }
+    : undefined;
+
+  return {
+    id: row.id,
+    content_id: row.content_id,
+    collection_id: row.collection_id,
+    notes: row.notes,
+    tags: normalizeTags(row.tags),
+    read_status: !!row.read_status,
+    saved_at: row.saved_at,
+    updated_at: row.updated_at,
+    content,
+  };
+}
+
+/**
+ * Saved Content Service
+ *
+ * Manages a user's bookmarks as a research queue: collections, tags,
+ * markdown notes and read state. All queries are scoped to one user.
+ */
+export class SavedContentService {
+  constructor(
+    private supabase: SupabaseClient,
+    private userId: string
+  ) {}
+
+  /**
+   * List saved items, newest first, with tag counts for the filter bar
+   */
+  async listSaved(filters: SavedFilters = {}): Promise<SavedListResponse> {
+    const page = filters.page || 1;
+    const limit = filters.limit || 20;
+    const offset = (page - 1) * limit;
+
+    let query = this.supabase
+      .from('saved_content')
+      .select(SAVED_ITEM_SELECT, { count: 'exact' })
+      .eq('user_id', this.userId);
+
+    if (filters.collection_id === UNSORTED_COLLECTION) {
+      query = query.is('collection_id', null);
+    } else if (filters.collection_id) {
+      query = query.eq('collection_id', filters.collection_id);
+    }
+    const [tag] = normalizeTags(filters.tag ? [filters.tag] : []);
+    if (tag) {
+      query = query.contains('tags', JSON.stringify([tag]));
+    }
+    if (filters.read_status) {
+      query = query.eq('read_status', filters.read_status === 'read');
+    }
+
+    const [{ data, error, count }, { data: tagRows }] = await Promise.all([
+      query
+        .order('saved_at', { ascending: false })
+        .range(offset, offset + limit - 1)
+        .overrideTypes<SavedItemRow[], { merge: false }>(),
+      this.supabase
+        .from('saved_content')
+        .select('tags')
+        .eq('user_id', this.userId),
+    ]);
+
+    if (error) {
+      throw new SavedContentError(
+        `Failed to fetch saved content: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return {
+      items: (data || []).map(toSavedItem),
+      tags: countTags(tagRows || []),
+      total: count || 0,
+      page,
+      limit,
+      has_more: (count || 0) > offset + limit,
+    };
+  }
+
+  /**
+   * Update notes, tags, read state or collection of one saved item
+   */
+  async updateItem(
+    id: string,
+    input: UpdateSavedItemInput
+  ): Promise<SavedItem> {
+    const { data, error } = await this.supabase
+      .from('saved_content')
+      .update({
+        ...input,
+        ...(input.tags && { tags: normalizeTags(input.tags) }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', this.userId)
+      .select(SAVED_ITEM_SELECT)
+      .maybeSingle()
+      .overrideTypes<SavedItemRow, { merge: false }>();
+
+    if (error) {
+      throw new SavedContentError(
+        `Failed to update saved item: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data) {
+      throw new SavedContentError('Saved item not found', 'NOT_FOUND', 404);
+    }
+
+    return toSavedItem(data);
+  }
+
+  /**
+   * Remove a saved item
+   */
+  async deleteItem(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('saved_content')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new SavedContentError(
+        `Failed to delete saved item: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  /**
+   * Apply one action to many saved items. Returns the number of items changed.
+   */
+  async bulkAction(input: BulkSavedAction): Promise<number> {
+    const now = new Date().toISOString();
+
+    switch (input.action) {
+      case 'mark_read':
+      case 'mark_unread':
+        return this.updateMany(input.ids, {
+          read_status: input.action === 'mark_read',
+          updated_at: now,
+        });
+      case 'move':
+        return this.updateMany(input.ids, {
+          collection_id: input.collection_id,
+          updated_at: now,
+        });
+      case 'delete': {
+        const { data, error } = await this.supabase
+          .from('saved_content')
+          .delete()
+          .eq('user_id', this.userId)
+          .in('id', input.ids)
+          .select('id');
+
+        if (error) {
+          throw new SavedContentError(
+            `Failed to delete saved items: ${error.message}`,
+            'STORAGE_ERROR',
+            500
+          );
+        }
+        return data?.length || 0;
+      }
+      case 'add_tags':
+      case 'remove_tags': {
+        // Tags are merged per item, so read the current ones first
+        const { data: rows, error } = await this.supabase
+          .from('saved_content')
+          .select('id, tags')
+          .eq('user_id', this.userId)
+          .in('id', input.ids);
+
+        if (error) {
+          throw new SavedContentError(
+            `Failed to load saved items: ${error.message}`,
+            'STORAGE_ERROR',
+            500
+          );
+        }
+
+        const changed = normalizeTags(input.tags);
+        for (const row of rows || []) {
+          const current = normalizeTags(row.tags);
+          const tags =
+            input.action === 'add_tags'
+              ? normalizeTags([...current, ...changed])
+              : current.filter((tag) => !changed.includes(tag));
+          await this.updateMany([row.id], { tags, updated_at: now });
+        }
+        return rows?.length || 0;
+      }
+    }
+  }
+
+  /**
+   * List the user's collections with their item counts
+   */
+  async listCollections(): Promise<SavedCollection[]> {
+    const [{ data: collections, error }, { data: items }] = await Promise.all([
+      this.supabase
+        .from('saved_collections')
+        .select('*')
+        .eq('user_id', this.userId)
+        .order('name'),
+      this.supabase
+        .from('saved_content')
+        .select('collection_id')
+        .eq('user_id', this.userId)
+        .not('collection_id', 'is', null),
+    ]);
+
+    if (error) {
+      throw new SavedContentError(
+        `Failed to fetch collections: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    const counts = new Map<string, number>();
+    (items || []).forEach((item: { collection_id: string }) =>
+      counts.set(item.collection_id, (counts.get(item.collection_id) || 0) + 1)
+    );
+
+    return (collections || []).map((collection: SavedCollection) => ({
+      ...collection,
+      item_count: counts.get(collection.id) || 0,
+    }));
+  }
+
+  async createCollection(
+    input: CreateCollectionInput
+  ): Promise<SavedCollection> {
+    const { data, error } = await this.supabase
+      .from('saved_collections')
+      .insert({ ...input, user_id: this.userId })
+      .select()
+      .single();
+
+    if (error) {
+      throw this.collectionError(error, 'create');
+    }
+
+    return { ...data, item_count: 0 };
+  }
+
+  async updateCollection(
+    id: string,
+    input: UpdateCollectionInput
+  ): Promise<SavedCollection> {
+    const { data, error } = await this.supabase
+      .from('saved_collections')
+      .update({ ...input, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .eq('user_id', this.userId)
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw this.collectionError(error, 'update');
+    }
+    if (!data) {
+      throw new SavedContentError('Collection not found', 'NOT_FOUND', 404);
+    }
+
+    return data;
+  }
+
+  /**
+   * Delete a collection. Its items stay saved and become unsorted.
+   */
+  async deleteCollection(id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('saved_collections')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', this.userId);
+
+    if (error) {
+      throw new SavedContentError(
+        `Failed to delete collection: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  private async updateMany(
+    ids: string[],
+    data: Record<string, unknown>
+  ): Promise<number> {
+    const { data: updated, error } = await this.supabase
+      .from('saved_content')
+      .update(data)
+      .eq('user_id', this.userId)
+      .in('id', ids)
+      .select('id');
+
+    if (error) {
+      throw new SavedContentError(
+        `Failed to update saved items: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return updated?.length || 0;
+  }
+
+  private collectionError(
+    error: { code?: string; message: string },
+    action: string
+  ): SavedContentError {
+    if (error.code === '23505') {
+      return new SavedContentError(
+        'A collection with this name already exists',
+        'DUPLICATE_COLLECTION',
+        409
+      );
+    }
+    return new SavedContentError(
+      `Failed to ${action} collection: ${error.message}`,
+      'STORAGE_ERROR',
+      500
+    );
+  }
+}
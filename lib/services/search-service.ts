@@ -0,0 +1,295 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { PLATFORM_VALUES, type Platform } from '@/types/creator';
+
+/**
+ * Operators understood by the content search box
+ */
+export const SEARCH_OPERATORS = {
+  from: 'Posts by a creator',
+  platform: 'Posts from one platform',
+  lounge: 'Posts from a lounge',
+  before: 'Published before a date (YYYY-MM-DD)',
+  after: 'Published on or after a date (YYYY-MM-DD)',
+} as const;
+
+export type SearchOperator = keyof typeof SEARCH_OPERATORS;
+
+// Aliases accepted by platform:
+const PLATFORM_ALIASES: Record<string, Platform> = {
+  x: 'twitter',
+  yt: 'youtube',
+  bsky: 'bluesky',
+};
+
+// Optional leading "-", optional "operator:", then a quoted or bare value
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export interface ParsedSearchQuery {
+  terms: string[];
+  phrases: string[];
+  excluded: string[];
+  from: string[];
+  platforms: Platform[];
+  lounges: string[];
+  before?: string;
+  after?: string;
+}
+
+export interface SearchSnippet {
+  rank: number;
+  snippet: string;
+}
+
+export interface OperatorSuggestion {
+  // Full query with the last token completed
+  query: string;
+  label: string;
+  description: string;
+}
+
+function isSearchOperator(value: string): value is SearchOperator {
+  return value in SEARCH_OPERATORS;
+}
+
+/**
+ * Parse a YYYY-MM-DD (or any Date-parsable) value into an ISO timestamp
+ */
+function parseDateValue(value: string): string | undefined {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Split a search box query into free text and operators.
+ * Negation applies to words and phrases only; a negated operator is ignored.
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed: ParsedSearchQuery = {
+    terms: [],
+    phrases: [],
+    excluded: [],
+    from: [],
+    platforms: [],
+    lounges: [],
+  };
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, operatorName, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const operator = operatorName?.toLowerCase();
+
+    if (operator && isSearchOperator(operator)) {
+      if (!value || negation) continue;
+
+      switch (operator) {
+        case 'from':
+          parsed.from.push(value.replace(/^@/, ''));
+          break;
+        case 'platform': {
+          const platform =
+            PLATFORM_ALIASES[value.toLowerCase()] || value.toLowerCase();
+          if ((PLATFORM_VALUES as readonly string[]).includes(platform)) {
+            parsed.platforms.push(platform as Platform);
+          }
+          break;
+        }
+        case 'lounge':
+          parsed.lounges.push(value);
+          break;
+        case 'before':
+          parsed.before = parseDateValue(value) ?? parsed.before;
+          break;
+        case 'after':
+          parsed.after = parseDateValue(value) ?? parsed.after;
+          break;
+      }
+      continue;
+    }
+
+    // Unknown "word:" prefixes (e.g. "note:") are kept as plain text
+    const text = operatorName && !quoted ? raw.replace(/^-/, '') : value;
+    if (!text) continue;
+
+    if (negation) {
+      parsed.excluded.push(quoted !== undefined ? `"${text}"` : text);
+    } else if (quoted !== undefined) {
+      parsed.phrases.push(text);
+    } else {
+      parsed.terms.push(text);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Free-text part of a parsed query in websearch_to_tsquery syntax,
+ * or an empty string when the query only has operators.
+ * Exclusion-only queries (e.g. "-crypto") are kept and match every post
+ * without the excluded words.
+ */
+export function toWebSearchQuery(parsed: ParsedSearchQuery): string {
+  return [
+    ...parsed.terms,
+    ...parsed.phrases.map((phrase) => `"${phrase}"`),
+    ...parsed.excluded.map((word) => `-${word}`),
+  ].join(' ');
+}
+
+/**
+ * Completions for the token being typed: operator names first, then
+ * values for platform: and lounge:
+ */
+export function getOperatorSuggestions(
+  query: string,
+  options: { lounges?: string[] } = {}
+): OperatorSuggestion[] {
+  const tokenStart = query.search(/\S*$/);
+  const prefix = query.slice(0, tokenStart);
+  const token = query.slice(tokenStart).replace(/^-/, '').toLowerCase();
+  if (!token) return [];
+
+  const separator = token.indexOf(':');
+  if (separator === -1) {
+    return (Object.keys(SEARCH_OPERATORS) as SearchOperator[])
+      .filter((operator) => operator.startsWith(token) && operator !== token)
+      .map((operator) => ({
+        query: `${prefix}${operator}:`,
+        label: `${operator}:`,
+        description: SEARCH_OPERATORS[operator],
+      }));
+  }
+
+  const operator = token.slice(0, separator);
+  const value = token.slice(separator + 1).replace(/^"/, '');
+  const complete = (option: string) => ({
+    query: `${prefix}${operator}:${/\s/.test(option) ? `"${option}"` : option} `,
+    label: `${operator}:${option}`,
+    description: SEARCH_OPERATORS[operator as SearchOperator],
+  });
+
+  switch (operator) {
+    case 'platform':
+      return PLATFORM_VALUES.filter(
+        (platform) => platform.startsWith(value) && platform !== value
+      ).map(complete);
+    case 'lounge':
+      return (options.lounges || [])
+        .filter((name) => name.toLowerCase().startsWith(value))
+        .map(complete);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Search Service
+ *
+ * Resolves search operators to creator IDs and fetches ranked, highlighted
+ * snippets from the content full-text index.
+ */
+export class SearchService {
+  constructor(private supabase: SupabaseClient) {}
+
+  /**
+   * Creator IDs matching from: and lounge: operators.
+   * Returns null when neither operator is used.
+   */
+  async resolveCreatorIds(parsed: ParsedSearchQuery): Promise<string[] | null> {
+    if (parsed.from.length === 0 && parsed.lounges.length === 0) return null;
+
+    const matches: string[][] = [];
+
+    if (parsed.from.length > 0) {
+      const { data, error } = await this.supabase
+        .from('creators')
+        .select('id')
+        .or(
+          parsed.from
+            .map(
+              (name) => `display_name.ilike.${escapeFilterValue(`%${name}%`)}`
+            )
+            .join(',')
+        );
+
+      if (error) {
+        throw new Error(`Failed to resolve creators: ${error.message}`);
+      }
+      matches.push((data || []).map((creator: { id: string }) => creator.id));
+    }
+
+    if (parsed.lounges.length > 0) {
+      const { data: lounges, error } = await this.supabase
+        .from('lounges')
+        .select('id')
+        .or(
+          parsed.lounges
+            .map((name) => `name.ilike.${escapeFilterValue(name)}`)
+            .join(',')
+        );
+
+      if (error) {
+        throw new Error(`Failed to resolve lounges: ${error.message}`);
+      }
+
+      const loungeIds = (lounges || []).map(
+        (lounge: { id: string }) => lounge.id
+      );
+      const { data: creatorLounges } =
+        loungeIds.length > 0
+          ? await this.supabase
+              .from('creator_lounges')
+              .select('creator_id')
+              .in('lounge_id', loungeIds)
+          : { data: [] };
+
+      matches.push(
+        (creatorLounges || []).map(
+          (cl: { creator_id: string }) => cl.creator_id
+        )
+      );
+    }
+
+    // Every operator must match, e.g. from:jane lounge:saas
+    const [first, ...rest] = matches;
+    return [...new Set(first)].filter((id) =>
+      rest.every((ids) => ids.includes(id))
+    );
+  }
+
+  /**
+   * Rank and highlighted snippet for each content item matching the query
+   */
+  async getSnippets(
+    webSearchQuery: string,
+    contentIds: string[]
+  ): Promise<Map<string, SearchSnippet>> {
+    const snippets = new Map<string, SearchSnippet>();
+    if (!webSearchQuery || contentIds.length === 0) return snippets;
+
+    const { data, error } = await this.supabase.rpc('content_search_snippets', {
+      search_query: webSearchQuery,
+      content_ids: contentIds,
+    });
+
+    if (error) {
+      console.error('[Search] Failed to build snippets:', error);
+      return snippets;
+    }
+
+    (data || []).forEach(
+      (row: { id: string; rank: number; snippet: string }) => {
+        snippets.set(row.id, { rank: row.rank, snippet: row.snippet });
+      }
+    );
+
+    return snippets;
+  }
+}
+
+/**
+ * Quote a value for use inside a PostgREST or() filter
+ */
+function escapeFilterValue(value: string): string {
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
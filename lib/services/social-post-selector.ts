@@ -1,6 +1,6 @@
-import { OpenAI } from 'openai';
 import { createClient } from '@supabase/supabase-js';
 import type { Database } from '@/types/database.types';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
 
 interface SocialPost {
   id: string;
@@ -33,19 +33,13 @@ interface SelectedPost extends SocialPost {
 }
 
 export class SocialPostSelector {
-  private openai: OpenAI | null = null;
   private supabase: ReturnType<typeof createClient<Database>> | null = null;
 
-  constructor() {
+  constructor(private llm: LLMGateway = getLLMGateway()) {
     this.initializeServices();
   }
 
   private initializeServices() {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (apiKey && !this.openai) {
-      this.openai = new OpenAI({ apiKey });
-    }
-
     const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
     const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY;
 
@@ -62,9 +56,9 @@ export class SocialPostSelector {
     loungeTheme: string,
     targetCount: number = 5
   ): Promise<SelectedPost[]> {
-    if (!this.openai) {
+    if (!this.llm.isAvailable('social_post_selection')) {
       console.error(
-        'OpenAI API not configured, falling back to basic selection'
+        'No LLM provider configured, falling back to basic selection'
       );
       return this.fallbackSelection(posts, targetCount);
     }
@@ -133,8 +127,8 @@ IMPORTANT:
 - Fill remaining slots with best posts regardless of platform
 - Indices must be valid (0 to ${posts.length - 1})`;
 
-      const completion = await this.openai.chat.completions.create({
-        model: 'gpt-5-mini', // Using GPT-5 mini as requested
+      const completion = await this.llm.complete({
+        task: 'social_post_selection',
         messages: [
           {
             role: 'system',
@@ -146,17 +140,14 @@ IMPORTANT:
             content: prompt,
           },
         ],
-        max_completion_tokens: 500,
-        response_format: { type: 'json_object' },
+        maxTokens: 500,
+        json: true,
       });
 
-      const response = completion.choices[0]?.message?.content;
-      if (!response) {
-        console.error('No response from OpenAI');
-        return this.fallbackSelection(posts, targetCount);
-      }
-
-      const result = JSON.parse(response);
+      const result = extractJson(completion.text) as {
+        selectedIndices?: unknown[];
+        reasoning?: string;
+      };
       const selectedIndices = result.selectedIndices || [];
 
       // Validate indices and get selected posts
@@ -187,7 +178,9 @@ IMPORTANT:
         selectedPosts.push(...fallbackPosts);
       }
 
-      console.log(`AI selected ${selectedPosts.length} posts using GPT-5 mini`);
+      console.log(
+        `AI selected ${selectedPosts.length} posts using ${completion.model}`
+      );
       return selectedPosts.slice(0, targetCount);
     } catch (error) {
       console.error('Error in AI post selection:', error);
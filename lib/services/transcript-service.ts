@@ -0,0 +1,251 @@
+import {
+  ContentChapter,
+  TranscriptSegment,
+  extractTextFromHTML,
+} from '@/types/content';
+import { RSSPodcastTranscript } from '@/types/rss';
+
+export interface ParsedTranscript {
+  text: string;
+  segments: TranscriptSegment[];
+}
+
+// Preferred transcript formats, best first (timed formats beat plain text)
+const TRANSCRIPT_FORMAT_PREFERENCE = [
+  'application/json',
+  'text/vtt',
+  'application/x-subrip',
+  'application/srt',
+  'text/html',
+  'text/plain',
+];
+
+// Guard against multi-megabyte transcripts bloating the content table
+const MAX_TRANSCRIPT_LENGTH = 500000;
+
+const FETCH_TIMEOUT_MS = 15000;
+
+const CUE_TIMING_PATTERN =
+  /^\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)/;
+
+/**
+ * Parse a cue timestamp (HH:MM:SS.mmm, MM:SS.mmm or SRT's comma form) into seconds
+ */
+export function parseTimestamp(value: string): number {
+  const parts = value.replace(',', '.').split(':').map(Number);
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+/**
+ * Transcript Service
+ *
+ * Fetches and parses transcripts and chapter markers. Handles the
+ * Podcasting 2.0 transcript formats (JSON, WebVTT, SRT, HTML, plain text)
+ * and the JSON chapters format.
+ */
+export class TranscriptService {
+  /**
+   * Pick the most useful transcript from the ones a feed item advertises
+   */
+  static selectTranscript(
+    transcripts: RSSPodcastTranscript[]
+  ): RSSPodcastTranscript | undefined {
+    const rank = (transcript: RSSPodcastTranscript) => {
+      const index = TRANSCRIPT_FORMAT_PREFERENCE.indexOf(
+        transcript.type.toLowerCase()
+      );
+      return index === -1 ? TRANSCRIPT_FORMAT_PREFERENCE.length : index;
+    };
+
+    return [...transcripts].sort((a, b) => rank(a) - rank(b))[0];
+  }
+
+  /**
+   * Parse a transcript body according to its MIME type
+   */
+  static parseTranscript(body: string, type: string): ParsedTranscript {
+    const mimeType = type.toLowerCase();
+    const trimmed = body.trim();
+
+    if (mimeType === 'application/json' || trimmed.startsWith('{')) {
+      return this.parseJSONTranscript(trimmed);
+    }
+    if (
+      mimeType === 'text/vtt' ||
+      mimeType.includes('srt') ||
+      mimeType.includes('subrip') ||
+      trimmed.startsWith('WEBVTT')
+    ) {
+      return this.parseCues(trimmed);
+    }
+    if (mimeType === 'text/html') {
+      return { text: extractTextFromHTML(trimmed), segments: [] };
+    }
+
+    return { text: trimmed.replace(/\s+/g, ' '), segments: [] };
+  }
+
+  /**
+   * Parse WebVTT or SRT cues into timed segments
+   */
+  static parseCues(body: string): ParsedTranscript {
+    const segments: TranscriptSegment[] = [];
+
+    for (const block of body.replace(/\r\n/g, '\n').split(/\n{2,}/)) {
+      const lines = block.split('\n');
+      const timingIndex = lines.findIndex((line) =>
+        CUE_TIMING_PATTERN.test(line)
+      );
+      if (timingIndex === -1) continue;
+
+      const [, start, end] = lines[timingIndex].match(CUE_TIMING_PATTERN)!;
+      let speaker: string | undefined;
+      const text = lines
+        .slice(timingIndex + 1)
+        .join(' ')
+        .replace(/<v(?:\.[^\s>]*)?\s+([^>]+)>/, (_, name: string) => {
+          speaker = name.trim();
+          return '';
+        })
+        .replace(/<[^>]*>/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      if (!text) continue;
+
+      segments.push({
+        start: parseTimestamp(start),
+        end: parseTimestamp(end),
+        text,
+        ...(speaker && { speaker }),
+      });
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(' '),
+      segments,
+    };
+  }
+
+  /**
+   * Parse the Podcasting 2.0 JSON transcript format
+   */
+  static parseJSONTranscript(body: string): ParsedTranscript {
+    const data = JSON.parse(body) as {
+      segments?: Array<{
+        startTime?: number;
+        endTime?: number;
+        body?: string;
+        speaker?: string;
+      }>;
+    };
+
+    const segments: TranscriptSegment[] = (data.segments || [])
+      .filter((segment) => segment.body?.trim())
+      .map((segment) => ({
+        start: segment.startTime ?? 0,
+        end: segment.endTime,
+        text: segment.body!.trim(),
+        ...(segment.speaker && { speaker: segment.speaker }),
+      }));
+
+    return {
+      text: segments.map((segment) => segment.text).join(' '),
+      segments,
+    };
+  }
+
+  /**
+   * Trim a transcript to MAX_TRANSCRIPT_LENGTH characters. Segments are cut
+   * at the same point so transcript_segments stays as bounded as the text.
+   */
+  static capTranscript(transcript: ParsedTranscript): ParsedTranscript {
+    if (transcript.text.length <= MAX_TRANSCRIPT_LENGTH) return transcript;
+
+    const segments: TranscriptSegment[] = [];
+    let length = 0;
+    for (const segment of transcript.segments) {
+      // Segments are joined with a space in the text
+      length += segment.text.length + (segments.length > 0 ? 1 : 0);
+      if (length > MAX_TRANSCRIPT_LENGTH) break;
+      segments.push(segment);
+    }
+
+    return {
+      text: transcript.text.substring(0, MAX_TRANSCRIPT_LENGTH),
+      segments,
+    };
+  }
+
+  /**
+   * Parse the Podcasting 2.0 JSON chapters format
+   */
+  static parseChapters(body: string): ContentChapter[] {
+    const data = JSON.parse(body) as {
+      chapters?: Array<{
+        startTime?: number;
+        endTime?: number;
+        title?: string;
+        url?: string;
+        img?: string;
+        toc?: boolean;
+      }>;
+    };
+
+    return (data.chapters || [])
+      .filter((chapter) => chapter.title && chapter.toc !== false)
+      .map((chapter) => ({
+        start_time: chapter.startTime ?? 0,
+        end_time: chapter.endTime,
+        title: chapter.title!,
+        url: chapter.url,
+        image_url: chapter.img,
+      }))
+      .sort((a, b) => a.start_time - b.start_time);
+  }
+
+  /**
+   * Fetch and parse a transcript. Returns null when it can't be retrieved.
+   */
+  async fetchTranscript(
+    transcript: RSSPodcastTranscript
+  ): Promise<ParsedTranscript | null> {
+    try {
+      const body = await this.fetchText(transcript.url);
+      const parsed = TranscriptService.parseTranscript(body, transcript.type);
+      if (!parsed.text) return null;
+
+      return TranscriptService.capTranscript(parsed);
+    } catch (error) {
+      console.error(`Failed to fetch transcript ${transcript.url}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Fetch and parse a chapters file. Returns null when it can't be retrieved.
+   */
+  async fetchChapters(url: string): Promise<ContentChapter[] | null> {
+    try {
+      const chapters = TranscriptService.parseChapters(
+        await this.fetchText(url)
+      );
+      return chapters.length > 0 ? chapters : null;
+    } catch (error) {
+      console.error(`Failed to fetch chapters ${url}:`, error);
+      return null;
+    }
+  }
+
+  private async fetchText(url: string): Promise<string> {
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    return response.text();
+  }
+}
@@ -0,0 +1,600 @@
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Tables } from '@/types/database.types';
+import { hasPrivateHost, isPrivateIpAddress } from '@/lib/url-utils';
+import {
+  WEBHOOK_EVENTS,
+  WebhookError,
+  type CreateWebhookInput,
+  type UpdateWebhookInput,
+  type WebhookDelivery,
+  type WebhookEndpoint,
+  type WebhookPayload,
+} from '@/types/webhook';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
+
+// Endpoints are disabled after this many deliveries in a row exhaust retries
+export const MAX_CONSECUTIVE_FAILURES = 10;
+
+const DELIVERY_TIMEOUT_MS = 10000;
+const MAX_RESPONSE_BODY_LENGTH = 1000;
+
+const ENDPOINT_COLUMNS =
+  'id, user_id, url, description, lounge_id, min_relevancy_score, platforms, creator_ids, is_active, consecutive_failures, last_delivery_at, created_at, updated_at';
+
+/**
+ * Content that passed relevancy review, with the lounges it was kept for
+ */
+export interface KeptContent {
+  content_id: string;
+  score: number;
+  lounges: Array<{ id: string; score: number }>;
+}
+
+// Kept content with the fields endpoint filters look at
+export interface WebhookCandidate extends KeptContent {
+  creator_id: string;
+  platform: string;
+}
+
+type EndpointFilter = Pick<
+  WebhookEndpoint,
+  'lounge_id' | 'min_relevancy_score' | 'platforms' | 'creator_ids'
+>;
+
+export interface DeliveryResult {
+  ok: boolean;
+  status: number | null;
+  error: string | null;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Signature header value: "t=<unix seconds>,v1=<hex HMAC-SHA256>", where the
+ * HMAC covers "<timestamp>.<raw body>" so receivers can reject replays
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Reject webhook URLs whose host is, or resolves to, a private address.
+ * Runs on registration and again before every delivery, so a hostname
+ * re-pointed at an internal address afterwards is still refused.
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  const invalid = new WebhookError(
+    'Webhook URLs must point to a public address',
+    'INVALID_URL',
+    400
+  );
+  if (hasPrivateHost(url)) throw invalid;
+
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  const addresses = await lookup(hostname, { all: true }).catch(() => {
+    throw new WebhookError(`Could not resolve ${hostname}`, 'INVALID_URL', 400);
+  });
+  if (addresses.some(({ address }) => isPrivateIpAddress(address))) {
+    throw invalid;
+  }
+}
+
+/**
+ * Whether kept content passes an endpoint's filters. A lounge filter also
+ * scopes the score check to that lounge.
+ */
+export function matchesWebhookFilter(
+  endpoint: EndpointFilter,
+  item: WebhookCandidate
+): boolean {
+  let score = item.score;
+
+  if (endpoint.lounge_id) {
+    const lounge = item.lounges.find((l) => l.id === endpoint.lounge_id);
+    if (!lounge) return false;
+    score = lounge.score;
+  }
+
+  if (
+    endpoint.min_relevancy_score !== null &&
+    score < endpoint.min_relevancy_score
+  ) {
+    return false;
+  }
+  if (
+    endpoint.platforms.length > 0 &&
+    !(endpoint.platforms as string[]).includes(item.platform)
+  ) {
+    return false;
+  }
+  if (
+    endpoint.creator_ids.length > 0 &&
+    !endpoint.creator_ids.includes(item.creator_id)
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+// content row as selected for delivery payloads
+type WebhookContentRow = Pick<
+  Tables<'content'>,
+  | 'id'
+  | 'title'
+  | 'url'
+  | 'platform'
+  | 'published_at'
+  | 'ai_summary_short'
+  | 'relevancy_score'
+  | 'relevancy_reason'
+  | 'creator_id'
+> & { creators: Pick<Tables<'creators'>, 'display_name'> | null };
+
+// webhook_deliveries row with the endpoint it goes to
+type DeliveryRow = Pick<
+  Tables<'webhook_deliveries'>,
+  'id' | 'event_type' | 'payload' | 'attempts' | 'status'
+> & {
+  webhook_endpoints: Pick<
+    Tables<'webhook_endpoints'>,
+    'id' | 'url' | 'secret' | 'is_active' | 'consecutive_failures'
+  >;
+};
+
+function buildContentPayload(
+  row: WebhookContentRow,
+  lounges: KeptContent['lounges']
+): WebhookPayload['data']['content'] {
+  return {
+    id: row.id,
+    title: row.title,
+    url: row.url,
+    platform: row.platform,
+    published_at: row.published_at,
+    ai_summary_short: row.ai_summary_short,
+    relevancy_score: row.relevancy_score,
+    relevancy_reason: row.relevancy_reason,
+    creator: { id: row.creator_id, name: row.creators?.display_name || '' },
+    lounges,
+  };
+}
+
+const TEST_CONTENT: WebhookPayload['data']['content'] = {
+  id: '00000000-0000-0000-0000-000000000000',
+  title: 'Test event',
+  url: 'https://example.com/test-event',
+  platform: 'rss',
+  published_at: null,
+  ai_summary_short: 'This is a test event sent from your webhook settings.',
+  relevancy_score: 100,
+  relevancy_reason: null,
+  creator: { id: '00000000-0000-0000-0000-000000000000', name: 'Daily News' },
+  lounges: [],
+};
+
+/**
+ * Webhook Service
+ *
+ * Manages webhook endpoints and their delivery log, matches kept content to
+ * endpoint filters and performs signed deliveries. Retries are driven by the
+ * webhook delivery queue.
+ */
+export class WebhookService {
+  constructor(private supabase: SupabaseClient) {}
+
+  async listEndpoints(userId: string): Promise<WebhookEndpoint[]> {
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select(ENDPOINT_COLUMNS)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to fetch webhooks: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return (data || []) as WebhookEndpoint[];
+  }
+
+  /**
+   * Register an endpoint. The returned endpoint includes its signing secret.
+   */
+  async createEndpoint(
+    userId: string,
+    input: CreateWebhookInput
+  ): Promise<WebhookEndpoint> {
+    await assertPublicWebhookUrl(input.url);
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .insert({ ...input, user_id: userId, secret: generateWebhookSecret() })
+      .select(`${ENDPOINT_COLUMNS}, secret`)
+      .single();
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to create webhook: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return data as WebhookEndpoint;
+  }
+
+  async updateEndpoint(
+    userId: string,
+    id: string,
+    input: UpdateWebhookInput
+  ): Promise<WebhookEndpoint> {
+    if (input.url) await assertPublicWebhookUrl(input.url);
+
+    const { data, error } = await this.supabase
+      .from('webhook_endpoints')
+      .update({
+        ...input,
+        // Re-enabling an endpoint gives it a fresh failure budget
+        ...(input.is_active && { consecutive_failures: 0 }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', id)
+      .eq('user_id', userId)
+      .select(ENDPOINT_COLUMNS)
+      .maybeSingle();
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to update webhook: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+    if (!data) {
+      throw new WebhookError('Webhook not found', 'NOT_FOUND', 404);
+    }
+
+    return data as WebhookEndpoint;
+  }
+
+  async deleteEndpoint(userId: string, id: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('webhook_endpoints')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to delete webhook: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+  }
+
+  /**
+   * Most recent deliveries for one of the user's endpoints
+   */
+  async listDeliveries(
+    userId: string,
+    endpointId: string,
+    limit: number = 50
+  ): Promise<WebhookDelivery[]> {
+    await this.getOwnedEndpoint(userId, endpointId);
+
+    const { data, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select(
+        'id, endpoint_id, content_id, event_type, status, attempts, response_status, error, created_at, delivered_at'
+      )
+      .eq('endpoint_id', endpointId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to fetch deliveries: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return (data || []) as WebhookDelivery[];
+  }
+
+  /**
+   * Create deliveries for kept content on every matching active endpoint.
+   * Returns the IDs of new deliveries; content already delivered to an
+   * endpoint is skipped.
+   */
+  async createDeliveriesForKeptContent(
+    items: KeptContent[]
+  ): Promise<string[]> {
+    if (items.length === 0) return [];
+
+    const { data: endpoints, error } = await this.supabase
+      .from('webhook_endpoints')
+      .select('id, lounge_id, min_relevancy_score, platforms, creator_ids')
+      .eq('is_active', true);
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to fetch webhooks: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    if (!endpoints || endpoints.length === 0) return [];
+
+    const { data: contentRows } = await this.supabase
+      .from('content')
+      .select(
+        'id, title, url, platform, published_at, ai_summary_short, relevancy_score, relevancy_reason, creator_id, creators(display_name)'
+      )
+      .in(
+        'id',
+        items.map((item) => item.content_id)
+      )
+      .overrideTypes<WebhookContentRow[], { merge: false }>();
+
+    const contentById = new Map(
+      (contentRows || []).map((row) => [row.id, row])
+    );
+    const now = new Date().toISOString();
+
+    const rows = items.flatMap((item) => {
+      const content = contentById.get(item.content_id);
+      if (!content) return [];
+
+      const candidate = {
+        ...item,
+        creator_id: content.creator_id,
+        platform: content.platform,
+      };
+
+      return endpoints
+        .filter((endpoint) => matchesWebhookFilter(endpoint, candidate))
+        .map((endpoint) => ({
+          endpoint_id: endpoint.id,
+          content_id: item.content_id,
+          event_type: WEBHOOK_EVENTS.CONTENT_KEPT,
+          payload: {
+            type: WEBHOOK_EVENTS.CONTENT_KEPT,
+            created_at: now,
+            data: { content: buildContentPayload(content, item.lounges) },
+          },
+        }));
+    });
+    if (rows.length === 0) return [];
+
+    const { data: created, error: insertError } = await this.supabase
+      .from('webhook_deliveries')
+      .upsert(rows, {
+        onConflict: 'endpoint_id,content_id,event_type',
+        ignoreDuplicates: true,
+      })
+      .select('id');
+
+    if (insertError) {
+      throw new WebhookError(
+        `Failed to create deliveries: ${insertError.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    return (created || []).map((row: { id: string }) => row.id);
+  }
+
+  /**
+   * Send a test event right away and return the logged delivery
+   */
+  async sendTestEvent(
+    userId: string,
+    endpointId: string
+  ): Promise<WebhookDelivery> {
+    await this.getOwnedEndpoint(userId, endpointId);
+
+    const { data: delivery, error } = await this.supabase
+      .from('webhook_deliveries')
+      .insert({
+        endpoint_id: endpointId,
+        event_type: WEBHOOK_EVENTS.TEST,
+        payload: {
+          type: WEBHOOK_EVENTS.TEST,
+          created_at: new Date().toISOString(),
+          data: { content: TEST_CONTENT },
+        },
+      })
+      .select('id')
+      .single();
+
+    if (error) {
+      throw new WebhookError(
+        `Failed to create test delivery: ${error.message}`,
+        'STORAGE_ERROR',
+        500
+      );
+    }
+
+    // Test events get one attempt and don't count towards disabling
+    await this.deliver(delivery.id, { isFinalAttempt: true, isTest: true });
+
+    const [latest] = await this.listDeliveries(userId, endpointId, 1);
+    return latest;
+  }
+
+  /**
+   * POST one delivery to its endpoint and record the attempt. Failed
+   * attempts stay pending until isFinalAttempt, when they are marked failed.
+   */
+  async deliver(
+    deliveryId: string,
+    options: { isFinalAttempt: boolean; isTest?: boolean }
+  ): Promise<DeliveryResult> {
+    const { data: delivery, error } = await this.supabase
+      .from('webhook_deliveries')
+      .select(
+        'id, event_type, payload, attempts, status, webhook_endpoints(id, url, secret, is_active, consecutive_failures)'
+      )
+      .eq('id', deliveryId)
+      .single()
+      .overrideTypes<DeliveryRow, { merge: false }>();
+
+    if (error || !delivery) {
+      throw new WebhookError('Delivery not found', 'NOT_FOUND', 404);
+    }
+
+    const endpoint = delivery.webhook_endpoints;
+    if (delivery.status === 'succeeded') {
+      return { ok: true, status: null, error: null };
+    }
+    if (!endpoint?.is_active && !options.isTest) {
+      await this.recordAttempt(delivery, {
+        ok: false,
+        status: null,
+        error: 'Endpoint disabled',
+        final: true,
+      });
+      return { ok: false, status: null, error: 'Endpoint disabled' };
+    }
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      ...(delivery.payload as Omit<WebhookPayload, 'id'>),
+    });
+
+    let result: DeliveryResult;
+    let responseBody: string | null = null;
+
+    try {
+      await assertPublicWebhookUrl(endpoint.url);
+
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'DailyNews-Webhooks/1.0',
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Delivery': delivery.id,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(endpoint.secret, body),
+        },
+        body,
+        // Not followed: a redirect could point at an internal address
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+
+      responseBody = (await response.text().catch(() => '')).slice(
+        0,
+        MAX_RESPONSE_BODY_LENGTH
+      );
+      result = {
+        ok: response.ok,
+        status: response.status,
+        error: response.ok ? null : `HTTP ${response.status}`,
+      };
+    } catch (fetchError) {
+      result = {
+        ok: false,
+        status: null,
+        error:
+          fetchError instanceof Error ? fetchError.message : String(fetchError),
+      };
+    }
+
+    await this.recordAttempt(delivery, {
+      ...result,
+      responseBody,
+      final: result.ok || options.isFinalAttempt,
+    });
+
+    if (!options.isTest && (result.ok || options.isFinalAttempt)) {
+      await this.updateEndpointHealth(endpoint, result.ok);
+    }
+
+    return result;
+  }
+
+  private async recordAttempt(
+    delivery: { id: string; attempts: number },
+    attempt: {
+      ok: boolean;
+      status: number | null;
+      error: string | null;
+      responseBody?: string | null;
+      final: boolean;
+    }
+  ): Promise<void> {
+    const now = new Date().toISOString();
+
+    await this.supabase
+      .from('webhook_deliveries')
+      .update({
+        attempts: delivery.attempts + 1,
+        status: attempt.ok ? 'succeeded' : attempt.final ? 'failed' : 'pending',
+        response_status: attempt.status,
+        response_body: attempt.responseBody ?? null,
+        error: attempt.error,
+        delivered_at: attempt.ok ? now : null,
+      })
+      .eq('id', delivery.id);
+  }
+
+  private async updateEndpointHealth(
+    endpoint: { id: string; consecutive_failures: number },
+    succeeded: boolean
+  ): Promise<void> {
+    const failures = succeeded ? 0 : endpoint.consecutive_failures + 1;
+
+    if (failures >= MAX_CONSECUTIVE_FAILURES) {
+      console.warn(
+        `[Webhooks] Disabling endpoint ${endpoint.id} after ${failures} failed deliveries`
+      );
+    }
+
+    await this.supabase
+      .from('webhook_endpoints')
+      .update({
+        consecutive_failures: failures,
+        ...(succeeded && { last_delivery_at: new Date().toISOString() }),
+        ...(failures >= MAX_CONSECUTIVE_FAILURES && { is_active: false }),
+      })
+      .eq('id', endpoint.id);
+  }
+
+  private async getOwnedEndpoint(
+    userId: string,
+    endpointId: string
+  ): Promise<{ id: string }> {
+    const { data } = await this.supabase
+      .from('webhook_endpoints')
+      .select('id')
+      .eq('id', endpointId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!data) {
+      throw new WebhookError('Webhook not found', 'NOT_FOUND', 404);
+    }
+    return data;
+  }
+}
@@ -0,0 +1,490 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { WeeklyDigestEmail } from '@/emails/weekly-digest';
+import { extractJson, getLLMGateway, type LLMGateway } from '@/lib/llm';
+
+type Platform =
+  | 'youtube'
+  | 'twitter'
+  | 'linkedin'
+  | 'threads'
+  | 'rss'
+  | 'website';
+
+interface EngagementMetrics {
+  likes?: number;
+  views?: number;
+  shares?: number;
+  comments?: number;
+}
+
+export interface WeeklyContentItem {
+  id: string;
+  title: string;
+  description: string | null;
+  url: string;
+  platform: Platform;
+  thumbnail_url: string | null;
+  published_at: string;
+  ai_summary_short: string | null;
+  relevancy_score: number | null;
+  engagement_metrics: EngagementMetrics | null;
+  creator_id: string;
+  creator: { display_name: string } | null;
+}
+
+export interface RankedWeeklyItem extends WeeklyContentItem {
+  saves: number;
+  score: number;
+}
+
+export interface DuplicateGroupItem {
+  id: string;
+  title: string;
+  url: string;
+  ai_summary_short: string | null;
+  duplicate_group_id: string | null;
+  is_primary: boolean | null;
+  creator_id: string;
+  creator: { display_name: string } | null;
+}
+
+export interface MostDiscussedTopic {
+  groupId: string;
+  title: string;
+  url: string;
+  summary?: string;
+  creators: string[];
+  itemCount: number;
+}
+
+export interface WeeklyTheme {
+  title: string;
+  summary: string;
+  items: RankedWeeklyItem[];
+}
+
+interface WeeklyLounge {
+  id: string;
+  name: string;
+  description: string;
+  theme_description?: string;
+}
+
+// Email props shared by every recipient of a weekly edition
+export type WeeklyDigestInputs = Omit<
+  Parameters<typeof WeeklyDigestEmail>[0],
+  'recipientEmail' | 'unsubscribeUrl'
+>;
+
+// How much each signal counts towards an item's weekly score
+export const WEEKLY_SCORE_WEIGHTS = {
+  relevancy: 0.5,
+  engagement: 0.3,
+  saves: 0.2,
+} as const;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+// Items handed to the LLM for theming; the rest only feed the ranking
+const THEMED_ITEM_LIMIT = 15;
+// Fewer ranked items than this and the week isn't worth an edition
+const MIN_WEEKLY_ITEMS = 3;
+
+/**
+ * Raw engagement for one item. Comments and shares count for more than
+ * likes, and views for much less.
+ */
+export function getEngagementScore(metrics?: EngagementMetrics | null): number {
+  if (!metrics) return 0;
+  return (
+    (metrics.likes || 0) +
+    (metrics.comments || 0) * 2 +
+    (metrics.shares || 0) * 3 +
+    (metrics.views || 0) / 100
+  );
+}
+
+// Log scale against the week's best, so one viral post doesn't flatten the rest
+function normalizeLog(value: number, max: number): number {
+  return max > 0 ? Math.log1p(value) / Math.log1p(max) : 0;
+}
+
+/**
+ * Rank a week's content by relevancy, engagement and saves, best first
+ */
+export function rankWeeklyContent(
+  items: WeeklyContentItem[],
+  saveCounts: Record<string, number>
+): RankedWeeklyItem[] {
+  const engagement = items.map((item) =>
+    getEngagementScore(item.engagement_metrics)
+  );
+  const maxEngagement = Math.max(0, ...engagement);
+  const maxSaves = Math.max(
+    0,
+    ...items.map((item) => saveCounts[item.id] || 0)
+  );
+
+  return items
+    .map((item, index) => {
+      const saves = saveCounts[item.id] || 0;
+      const score =
+        WEEKLY_SCORE_WEIGHTS.relevancy * ((item.relevancy_score || 0) / 100) +
+        WEEKLY_SCORE_WEIGHTS.engagement *
+          normalizeLog(engagement[index], maxEngagement) +
+        WEEKLY_SCORE_WEIGHTS.saves * normalizeLog(saves, maxSaves);
+
+      return { ...item, saves, score };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        new Date(b.published_at).getTime() - new Date(a.published_at).getTime()
+    );
+}
+
+/**
+ * The week's most discussed stories: duplicate groups covered by the most
+ * different creators. Groups from a single creator are left out.
+ */
+export function findMostDiscussed(
+  items: DuplicateGroupItem[],
+  limit: number = 3
+): MostDiscussedTopic[] {
+  const groups = new Map<string, DuplicateGroupItem[]>();
+  for (const item of items) {
+    if (!item.duplicate_group_id) continue;
+    const group = groups.get(item.duplicate_group_id) || [];
+    group.push(item);
+    groups.set(item.duplicate_group_id, group);
+  }
+
+  const topics: MostDiscussedTopic[] = [];
+  for (const [groupId, group] of groups) {
+    const creators = new Map<string, string>();
+    for (const item of group) {
+      creators.set(
+        item.creator_id,
+        item.creator?.display_name || 'Unknown creator'
+      );
+    }
+    if (creators.size < 2) continue;
+
+    const primary = group.find((item) => item.is_primary) || group[0];
+    topics.push({
+      groupId,
+      title: primary.title,
+      url: primary.url,
+      summary: primary.ai_summary_short || undefined,
+      creators: [...creators.values()],
+      itemCount: group.length,
+    });
+  }
+
+  return topics
+    .sort(
+      (a, b) =>
+        b.creators.length - a.creators.length || b.itemCount - a.itemCount
+    )
+    .slice(0, limit);
+}
+
+/**
+ * Weekly Digest Service
+ *
+ * Gathers a lounge's "best of the week": top content ranked across
+ * relevancy, engagement and saves, grouped into themes with an LLM-written
+ * narrative, plus the stories the most creators covered.
+ */
+export class WeeklyDigestService {
+  // Pass null to skip theming
+  constructor(
+    private supabase: SupabaseClient,
+    private llm: LLMGateway | null = getLLMGateway()
+  ) {}
+
+  private async getLoungeCreators(
+    loungeId: string
+  ): Promise<{ creatorIds: string[]; threshold: number }> {
+    const [{ data: lounge }, { data: creatorLounges, error }] =
+      await Promise.all([
+        this.supabase
+          .from('lounges')
+          .select('relevancy_threshold')
+          .eq('id', loungeId)
+          .single(),
+        this.supabase
+          .from('creator_lounges')
+          .select('creator_id')
+          .eq('lounge_id', loungeId),
+      ]);
+
+    if (error) {
+      console.error('Error fetching creators for lounge:', error);
+      throw error;
+    }
+
+    return {
+      creatorIds: (creatorLounges || []).map((cl) => cl.creator_id),
+      threshold: lounge?.relevancy_threshold || 70,
+    };
+  }
+
+  /**
+   * How many users saved each item
+   */
+  async getSaveCounts(contentIds: string[]): Promise<Record<string, number>> {
+    if (contentIds.length === 0) return {};
+
+    const { data, error } = await this.supabase
+      .from('saved_content')
+      .select('content_id')
+      .in('content_id', contentIds);
+
+    if (error) {
+      console.error('Error fetching save counts:', error);
+      return {};
+    }
+
+    const counts: Record<string, number> = {};
+    for (const row of data || []) {
+      counts[row.content_id] = (counts[row.content_id] || 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * A lounge's content published in [since, until), ranked best first
+   */
+  async getRankedContent(
+    loungeId: string,
+    since: string,
+    until: string
+  ): Promise<RankedWeeklyItem[]> {
+    const { creatorIds, threshold } = await this.getLoungeCreators(loungeId);
+    if (creatorIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('content')
+      .select(
+        'id, title, description, url, platform, thumbnail_url, published_at, ai_summary_short, relevancy_score, engagement_metrics, creator_id, creator:creators!inner(display_name)'
+      )
+      .in('creator_id', creatorIds)
+      .eq('processing_status', 'processed')
+      .eq('is_primary', true)
+      .gte('relevancy_score', threshold)
+      .gte('published_at', since)
+      .lt('published_at', until)
+      .order('relevancy_score', { ascending: false })
+      .limit(200);
+
+    if (error) {
+      console.error('Error fetching weekly content:', error);
+      throw error;
+    }
+
+    const items = (data || []) as unknown as WeeklyContentItem[];
+    const saveCounts = await this.getSaveCounts(items.map((item) => item.id));
+    return rankWeeklyContent(items, saveCounts);
+  }
+
+  /**
+   * Stories covered by several of the lounge's creators in [since, until)
+   */
+  async getMostDiscussed(
+    loungeId: string,
+    since: string,
+    until: string,
+    limit: number = 3
+  ): Promise<MostDiscussedTopic[]> {
+    const { creatorIds } = await this.getLoungeCreators(loungeId);
+    if (creatorIds.length === 0) return [];
+
+    const { data, error } = await this.supabase
+      .from('content')
+      .select(
+        'id, title, url, ai_summary_short, duplicate_group_id, is_primary, creator_id, creator:creators!inner(display_name)'
+      )
+      .in('creator_id', creatorIds)
+      .not('duplicate_group_id', 'is', null)
+      .gte('published_at', since)
+      .lt('published_at', until);
+
+    if (error) {
+      console.error('Error fetching duplicate groups:', error);
+      return [];
+    }
+
+    return findMostDiscussed(
+      (data || []) as unknown as DuplicateGroupItem[],
+      limit
+    );
+  }
+
+  /**
+   * Group the top items into themes and write the week's narrative. Without
+   * an LLM, or if it fails, the items go out as a single ranked list.
+   */
+  async generateThemes(
+    loungeName: string,
+    items: RankedWeeklyItem[]
+  ): Promise<{ narrative?: string; themes: WeeklyTheme[] }> {
+    const fallback = {
+      themes: [{ title: 'Top of the week', summary: '', items }],
+    };
+    if (!this.llm?.isAvailable('digest') || items.length === 0) {
+      return fallback;
+    }
+
+    try {
+      const itemsData = items.map((item, index) => ({
+        index,
+        title: item.title,
+        summary: (item.ai_summary_short || item.description || '').slice(
+          0,
+          200
+        ),
+        creator: item.creator?.display_name,
+        platform: item.platform,
+      }));
+
+      const completion = await this.llm.complete({
+        task: 'digest',
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are the editor of a weekly industry newsletter. Always return valid JSON.',
+          },
+          {
+            role: 'user',
+            content: `These are the ${loungeName} lounge's top posts of the past week, best first.
+
+Group them into 2-4 themes and write a short narrative (3-4 sentences) on what defined the week for ${loungeName} professionals. Every post belongs to at most one theme; keep the ranking order within a theme.
+
+POSTS:
+${JSON.stringify(itemsData, null, 2)}
+
+Return a JSON object:
+{
+  "narrative": "...",
+  "themes": [{ "title": "short theme name", "summary": "one sentence", "indices": [post indices] }]
+}`,
+          },
+        ],
+        temperature: 0.4,
+        maxTokens: 1000,
+        json: true,
+      });
+
+      const result = extractJson(completion.text) as {
+        narrative?: string;
+        themes?: Array<{
+          title?: string;
+          summary?: string;
+          indices?: unknown[];
+        }>;
+      };
+      const used = new Set<number>();
+      const themes: WeeklyTheme[] = [];
+
+      for (const theme of result.themes || []) {
+        const themeItems = ((theme.indices || []) as unknown[])
+          .filter(
+            (index): index is number =>
+              typeof index === 'number' &&
+              index >= 0 &&
+              index < items.length &&
+              !used.has(index)
+          )
+          .sort((a, b) => a - b)
+          .map((index) => {
+            used.add(index);
+            return items[index];
+          });
+
+        if (theme.title && themeItems.length > 0) {
+          themes.push({
+            title: String(theme.title),
+            summary: String(theme.summary || ''),
+            items: themeItems,
+          });
+        }
+      }
+
+      if (themes.length === 0) return fallback;
+
+      return {
+        narrative: result.narrative ? String(result.narrative) : undefined,
+        themes,
+      };
+    } catch (error) {
+      console.error('Error generating weekly digest themes:', error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Everything a lounge's weekly edition shows for the week before
+   * `weekStart`. Returns null when the week was too quiet to send.
+   */
+  async buildWeeklyInputs(
+    lounge: WeeklyLounge,
+    weekStart: Date = new Date()
+  ): Promise<WeeklyDigestInputs | null> {
+    const since = new Date(weekStart.getTime() - WEEK_MS).toISOString();
+    const until = weekStart.toISOString();
+
+    const [ranked, mostDiscussed] = await Promise.all([
+      this.getRankedContent(lounge.id, since, until),
+      this.getMostDiscussed(lounge.id, since, until),
+    ]);
+
+    if (ranked.length < MIN_WEEKLY_ITEMS) {
+      console.log(
+        `Only ${ranked.length} items for ${lounge.name} this week, skipping weekly digest`
+      );
+      return null;
+    }
+
+    const { narrative, themes } = await this.generateThemes(
+      lounge.theme_description || lounge.name,
+      ranked.slice(0, THEMED_ITEM_LIMIT)
+    );
+
+    const format = (date: Date) =>
+      date.toLocaleDateString('en-US', {
+        month: 'long',
+        day: 'numeric',
+        timeZone: 'UTC',
+      });
+
+    return {
+      loungeName: lounge.name,
+      loungeDescription: lounge.description,
+      weekLabel: `${format(new Date(since))} – ${format(new Date(weekStart.getTime() - 1))}`,
+      narrative,
+      themes: themes.map((theme) => ({
+        title: theme.title,
+        summary: theme.summary || undefined,
+        items: theme.items.map((item) => ({
+          id: item.id,
+          title: item.title,
+          url: item.url,
+          creator_name: item.creator?.display_name || 'Unknown creator',
+          platform: item.platform,
+          thumbnail_url: item.thumbnail_url || undefined,
+          ai_summary_short:
+            item.ai_summary_short || item.description || undefined,
+          saves: item.saves,
+          engagement_metrics: item.engagement_metrics || undefined,
+        })),
+      })),
+      mostDiscussed: mostDiscussed.map((topic) => ({
+        title: topic.title,
+        url: topic.url,
+        summary: topic.summary,
+        creators: topic.creators,
+      })),
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import { SupabaseClient } from '@supabase/supabase-js';
+import type { CreateContentInput } from '@/types/content';
+import type { YouTubeVideo } from '@/types/youtube';
+import { ParsedTranscript, TranscriptService } from './transcript-service';
+
+const FETCH_TIMEOUT_MS = 15000;
+
+const TIMED_TEXT_URL = 'https://www.youtube.com/api/timedtext';
+
+export interface YouTubeTranscriptRequest {
+  videoId: string;
+  // BCP-47 language of the video's audio, when YouTube reports it
+  language?: string;
+  // contentDetails.caption: false when the video has no uploaded caption
+  // track; auto-generated captions aren't reported there
+  captions?: boolean;
+}
+
+/**
+ * A source of YouTube captions. Returns null when the video has none.
+ */
+export interface YouTubeTranscriptProvider {
+  // Stored as content.transcript_source
+  readonly name: string;
+  fetchTranscript(
+    request: YouTubeTranscriptRequest
+  ): Promise<ParsedTranscript | null>;
+}
+
+export interface YouTubeTranscriptProviderDefinition {
+  name: string;
+  // Null when the provider isn't configured
+  create: () => YouTubeTranscriptProvider | null;
+}
+
+export interface YouTubeTranscript extends ParsedTranscript {
+  source: string;
+}
+
+/**
+ * Reads YouTube's timed-text track as WebVTT. Uploaded captions are tried
+ * before auto-generated ones; an empty body means there is no track.
+ * Videos YouTube reports as uncaptioned go straight to auto-generated ones.
+ */
+export class TimedTextTranscriptProvider implements YouTubeTranscriptProvider {
+  readonly name = 'youtube';
+
+  async fetchTranscript({
+    videoId,
+    language = 'en',
+    captions,
+  }: YouTubeTranscriptRequest): Promise<ParsedTranscript | null> {
+    const kinds = captions === false ? ['asr'] : [undefined, 'asr'];
+
+    for (const kind of kinds) {
+      const params = new URLSearchParams({
+        v: videoId,
+        lang: language,
+        fmt: 'vtt',
+        ...(kind && { kind }),
+      });
+      const response = await fetch(`${TIMED_TEXT_URL}?${params}`, {
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      const parsed = TranscriptService.parseCues(await response.text());
+      if (parsed.text) return parsed;
+    }
+    return null;
+  }
+}
+
+/**
+ * Asks an external transcript service for captions, for deployments where
+ * the timed-text endpoint is blocked or incomplete. The service is called
+ * with `video_id` and `lang` and may answer with WebVTT, SRT or the
+ * Podcasting 2.0 JSON format; a 404 means there is no transcript.
+ */
+export class HttpTranscriptProvider implements YouTubeTranscriptProvider {
+  readonly name = 'transcript-api';
+
+  constructor(
+    private baseUrl: string,
+    private apiKey?: string
+  ) {}
+
+  async fetchTranscript({
+    videoId,
+    language,
+  }: YouTubeTranscriptRequest): Promise<ParsedTranscript | null> {
+    const url = new URL(this.baseUrl);
+    url.searchParams.set('video_id', videoId);
+    if (language) url.searchParams.set('lang', language);
+
+    const response = await fetch(url, {
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const parsed = TranscriptService.parseTranscript(
+      await response.text(),
+      response.headers.get('content-type')?.split(';')[0] || 'text/vtt'
+    );
+    return parsed.text ? parsed : null;
+  }
+}
+
+export const timedTextProviderDefinition: YouTubeTranscriptProviderDefinition =
+  {
+    name: 'youtube',
+    create: () =>
+      process.env.YOUTUBE_TIMEDTEXT_DISABLED === 'true'
+        ? null
+        : new TimedTextTranscriptProvider(),
+  };
+
+export const httpTranscriptProviderDefinition: YouTubeTranscriptProviderDefinition =
+  {
+    name: 'transcript-api',
+    create: () =>
+      process.env.YOUTUBE_TRANSCRIPT_API_URL
+        ? new HttpTranscriptProvider(
+            process.env.YOUTUBE_TRANSCRIPT_API_URL,
+            process.env.YOUTUBE_TRANSCRIPT_API_KEY
+          )
+        : null,
+  };
+
+// Tried in order; adding a provider means listing its definition here
+export const DEFAULT_YOUTUBE_TRANSCRIPT_PROVIDERS: YouTubeTranscriptProviderDefinition[] =
+  [timedTextProviderDefinition, httpTranscriptProviderDefinition];
+
+/**
+ * YouTube Transcript Service
+ *
+ * Fetches video captions through the configured providers, falling
+ * through to the next one when a provider has no transcript or fails.
+ */
+export class YouTubeTranscriptService {
+  private providers: YouTubeTranscriptProvider[];
+
+  constructor(
+    providers: YouTubeTranscriptProvider[] = DEFAULT_YOUTUBE_TRANSCRIPT_PROVIDERS.map(
+      (definition) => definition.create()
+    ).filter(
+      (provider): provider is YouTubeTranscriptProvider => provider !== null
+    )
+  ) {
+    this.providers = providers;
+  }
+
+  hasProviders(): boolean {
+    return this.providers.length > 0;
+  }
+
+  /**
+   * The first transcript any provider has for the video, or null
+   */
+  async fetchTranscript(
+    request: YouTubeTranscriptRequest
+  ): Promise<YouTubeTranscript | null> {
+    for (const provider of this.providers) {
+      try {
+        const transcript = await provider.fetchTranscript(request);
+        if (transcript?.text) {
+          return {
+            ...TranscriptService.capTranscript(transcript),
+            source: provider.name,
+          };
+        }
+      } catch (error) {
+        console.error(
+          `Failed to fetch ${provider.name} transcript for ${request.videoId}:`,
+          error
+        );
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Set transcript fields on normalized videos, in the same order as the
+   * videos they came from. Videos that already have a stored transcript
+   * are skipped, as are the ones no provider has captions for.
+   */
+  async attachTranscripts(
+    supabase: SupabaseClient,
+    creatorId: string,
+    videos: YouTubeVideo[],
+    items: CreateContentInput[]
+  ): Promise<void> {
+    if (!this.hasProviders() || items.length === 0) return;
+
+    const { data: existing } = await supabase
+      .from('content')
+      .select('platform_content_id')
+      .eq('creator_id', creatorId)
+      .eq('platform', 'youtube')
+      .not('transcript', 'is', null)
+      .in(
+        'platform_content_id',
+        items.map((item) => item.platform_content_id)
+      );
+    const alreadyTranscribed = new Set(
+      (existing || []).map((row) => row.platform_content_id)
+    );
+
+    for (const [index, content] of items.entries()) {
+      if (
+        !content.platform_content_id ||
+        alreadyTranscribed.has(content.platform_content_id)
+      ) {
+        continue;
+      }
+
+      const video = videos[index];
+      const caption = video?.contentDetails?.caption;
+      const transcript = await this.fetchTranscript({
+        videoId: content.platform_content_id,
+        language: video?.snippet?.defaultAudioLanguage,
+        ...(caption && { captions: caption === 'true' }),
+      });
+      if (transcript) {
+        content.transcript = transcript.text;
+        content.transcript_segments = transcript.segments;
+        content.transcript_source = transcript.source;
+      }
+    }
+  }
+}
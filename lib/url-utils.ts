@@ -51,6 +51,17 @@ export function isExternalUrl(url: string): boolean {
   }
 }
 
+/**
+ * Hostname of a URL without its www. prefix, or undefined if it doesn't parse
+ */
+export function getDomain(url: string): string | undefined {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Extracts external URLs from content that should show link previews
  */
@@ -80,3 +91,124 @@ export function extractUrlsFromContent(
 
   return allUrls;
 }
+
+// Hostnames that only ever point inside the network the app runs in
+const INTERNAL_HOSTNAMES = ['localhost', 'metadata.google.internal'];
+const INTERNAL_HOSTNAME_SUFFIXES = ['.localhost', '.local', '.internal'];
+
+// IPv4 ranges that aren't reachable on the public internet, as [base, prefix]
+const PRIVATE_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "This" network
+  ['10.0.0.0', 8], // Private
+  ['100.64.0.0', 10], // Carrier-grade NAT
+  ['127.0.0.0', 8], // Loopback
+  ['169.254.0.0', 16], // Link-local, including cloud metadata
+  ['172.16.0.0', 12], // Private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // Private
+  ['198.18.0.0', 15], // Benchmarking
+  ['224.0.0.0', 4], // Multicast
+  ['240.0.0.0', 4], // Reserved and broadcast
+];
+
+function parseIpv4(address: string): number | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+
+  const octets = match.slice(1).map(Number);
+  if (octets.some((octet) => octet > 255)) return null;
+  return octets.reduce((value, octet) => value * 256 + octet, 0);
+}
+
+function isPrivateIpv4(value: number): boolean {
+  return PRIVATE_IPV4_RANGES.some(([base, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    return Math.floor(value / size) === Math.floor(parseIpv4(base)! / size);
+  });
+}
+
+/**
+ * The eight 16-bit groups of an IPv6 address, or null if it isn't one
+ */
+function parseIpv6(address: string): number[] | null {
+  let text = address.replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  if (!text.includes(':')) return null;
+
+  // Trailing dotted IPv4, e.g. ::ffff:127.0.0.1
+  const embedded = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (embedded) {
+    const ipv4 = parseIpv4(embedded[2]);
+    if (ipv4 === null) return null;
+    text = `${embedded[1]}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(missing).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local (including the
+ * 169.254.169.254 metadata service) or otherwise not a public internet
+ * address. IPv4-mapped and NAT64 IPv6 addresses are judged by their IPv4
+ * part. Returns false for anything that isn't an IP address.
+ */
+export function isPrivateIpAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) return isPrivateIpv4(ipv4);
+
+  const groups = parseIpv6(address);
+  if (!groups) return false;
+
+  const embeddedIpv4 = groups[6] * 65536 + groups[7];
+  const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+  // Unspecified (::), loopback (::1) and IPv4-compatible (::a.b.c.d)
+  if (leadingZeros && groups[5] === 0) {
+    return groups[6] === 0 || isPrivateIpv4(embeddedIpv4);
+  }
+  // IPv4-mapped (::ffff:a.b.c.d)
+  if (leadingZeros && groups[5] === 0xffff) return isPrivateIpv4(embeddedIpv4);
+  // NAT64 (64:ff9b::a.b.c.d)
+  if (
+    groups[0] === 0x64 &&
+    groups[1] === 0xff9b &&
+    groups.slice(2, 6).every((group) => group === 0)
+  ) {
+    return isPrivateIpv4(embeddedIpv4);
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // Unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // Link-local
+    (groups[0] & 0xffc0) === 0xfec0 || // Site-local
+    (groups[0] & 0xff00) === 0xff00 // Multicast
+  );
+}
+
+/**
+ * Whether a URL's host can't be a public server: an internal hostname such
+ * as localhost, or a private IP literal. Hostnames aren't resolved.
+ */
+export function hasPrivateHost(url: string): boolean {
+  try {
+    const hostname = new URL(url).hostname.toLowerCase().replace(/\.$/, '');
+
+    return (
+      INTERNAL_HOSTNAMES.includes(hostname) ||
+      INTERNAL_HOSTNAME_SUFFIXES.some((suffix) => hostname.endsWith(suffix)) ||
+      isPrivateIpAddress(hostname)
+    );
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Offline evaluation of a relevancy prompt change. Builds a labeled dataset
+ * for a lounge from curator corrections and kept/deleted content, replays
+ * it through the live policy and the candidate, and prints precision,
+ * recall and the items that flipped.
+ *
+ * Usage:
+ *   tsx scripts/eval-relevancy.ts --lounge <id> --suggestion <id>
+ *   tsx scripts/eval-relevancy.ts --lounge <id> --policy draft.json
+ *
+ * Options:
+ *   --limit <n>  Dataset size (default 60)
+ *   --mock       Score with the keyword mock instead of a model
+ *   --json       Print the raw report
+ *
+ * The policy file holds keep_criteria, borderline_criteria, filter_criteria,
+ * examples, focus and threshold, as published from the admin dashboard.
+ */
+import { readFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import * as dotenv from 'dotenv';
+import { RelevancyService } from '../lib/services/relevancy-service';
+import {
+  RelevancyEvalService,
+  createMockRelevancyGateway,
+} from '../lib/services/relevancy-eval-service';
+import { RelevancyEvalRequestSchema } from '../types/relevancy-eval';
+
+dotenv.config({ path: '.env.local' });
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function percent(rate: number) {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
+async function main() {
+  const policyFile = getArg('policy');
+  const input = RelevancyEvalRequestSchema.parse({
+    lounge_id: getArg('lounge'),
+    suggestion_id: getArg('suggestion'),
+    policy: policyFile
+      ? JSON.parse(readFileSync(policyFile, 'utf8'))
+      : undefined,
+    limit: getArg('limit') ? Number(getArg('limit')) : undefined,
+  });
+  const mock = process.argv.includes('--mock');
+
+  const supabase = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_KEY!
+  );
+  const evals = new RelevancyEvalService(
+    supabase,
+    new RelevancyService(
+      supabase,
+      mock ? createMockRelevancyGateway() : undefined
+    )
+  );
+
+  const dataset = await evals.buildDataset(input.lounge_id, input.limit);
+  const adjustments = input.suggestion_id
+    ? await evals.getSuggestionCandidate(input.lounge_id, input.suggestion_id)
+    : undefined;
+  const report = await evals.evaluate(
+    input.lounge_id,
+    dataset,
+    { rules: input.policy, adjustments },
+    { mock }
+  );
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log(
+    `📊 ${report.dataset_size} labeled items${mock ? ' (mock model)' : ''}\n`
+  );
+  for (const [name, metrics] of [
+    ['Live', report.baseline],
+    ['Candidate', report.candidate],
+  ] as const) {
+    console.log(
+      `${name.padEnd(10)} threshold ${metrics.threshold}  precision ${percent(metrics.precision)}  recall ${percent(metrics.recall)}`
+    );
+  }
+
+  console.log(`\n🔁 ${report.flips.length} flipped`);
+  for (const flip of report.flips) {
+    console.log(
+      `   ${flip.fixed ? '✓' : '✗'} [${flip.label}/${flip.source}] ${flip.baseline_score} → ${flip.candidate_score}  ${flip.title || flip.url}`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error('❌ Evaluation failed:', error);
+  process.exit(1);
+});
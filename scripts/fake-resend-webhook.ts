@@ -0,0 +1,103 @@
+/**
+ * Local stand-in for Resend's delivery webhooks. Signs sample events with
+ * RESEND_WEBHOOK_SECRET and posts them to /api/webhooks/resend.
+ *
+ * Usage:
+ *   tsx scripts/fake-resend-webhook.ts <event> <email> [url]
+ *
+ * Events: delivered, delayed, hard-bounce, soft-bounce, complaint
+ * URL defaults to http://localhost:3000
+ */
+import { randomUUID } from 'crypto';
+import * as dotenv from 'dotenv';
+import { signResendPayload } from '../lib/services/email-suppression-service';
+
+dotenv.config({ path: '.env.local' });
+
+function samplePayload(event: string, email: string) {
+  const data = {
+    email_id: randomUUID(),
+    from: 'Daily News <noreply@dailynews.app>',
+    to: [email],
+    subject: 'SaaS Daily Digest',
+    created_at: new Date().toISOString(),
+  };
+
+  switch (event) {
+    case 'delivered':
+      return { type: 'email.delivered', data };
+    case 'delayed':
+      return { type: 'email.delivery_delayed', data };
+    case 'hard-bounce':
+      return {
+        type: 'email.bounced',
+        data: {
+          ...data,
+          bounce: {
+            type: 'Permanent',
+            subType: 'General',
+            message: 'The recipient address does not exist.',
+          },
+        },
+      };
+    case 'soft-bounce':
+      return {
+        type: 'email.bounced',
+        data: {
+          ...data,
+          bounce: {
+            type: 'Transient',
+            subType: 'MailboxFull',
+            message: 'The recipient mailbox is full.',
+          },
+        },
+      };
+    case 'complaint':
+      return { type: 'email.complained', data };
+    default:
+      return null;
+  }
+}
+
+async function main() {
+  const [event, email, url = 'http://localhost:3000'] = process.argv.slice(2);
+  const secret = process.env.RESEND_WEBHOOK_SECRET;
+
+  const payload = event && email ? samplePayload(event, email) : null;
+  if (!payload) {
+    console.error(
+      'Usage: tsx scripts/fake-resend-webhook.ts <delivered|delayed|hard-bounce|soft-bounce|complaint> <email> [url]'
+    );
+    process.exit(1);
+  }
+  if (!secret) {
+    console.error('RESEND_WEBHOOK_SECRET is not set');
+    process.exit(1);
+  }
+
+  const body = JSON.stringify({
+    ...payload,
+    created_at: new Date().toISOString(),
+  });
+  const id = `msg_${randomUUID()}`;
+  const timestamp = String(Math.floor(Date.now() / 1000));
+
+  const response = await fetch(`${url}/api/webhooks/resend`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'svix-id': id,
+      'svix-timestamp': timestamp,
+      'svix-signature': signResendPayload(secret, id, timestamp, body),
+    },
+    body,
+  });
+
+  console.log(`${payload.type} for ${email}: ${response.status}`);
+  console.log(await response.text());
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
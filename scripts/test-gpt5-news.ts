@@ -20,7 +20,7 @@ async function testGPT5NewsIntegration() {
   try {
     // Initialize GPT-5 service
     console.log('🤖 Initializing GPT-5 news service...');
-    const gpt5Service = new GPT5NewsService(process.env.OPENAI_API_KEY);
+    const gpt5Service = new GPT5NewsService();
 
     // Focus on SaaS lounge
     const loungeType = 'saas';
@@ -36,10 +36,7 @@ async function testNewsDataIntegration() {
     });
 
     console.log('🤖 Initializing GPT curator...');
-    const gptCurator = new GPTNewsCurator(
-      process.env.OPENAI_API_KEY,
-      'gpt-4o-mini'
-    );
+    const gptCurator = new GPTNewsCurator();
 
     // Fetch news from NewsData.io
     console.log(`\n📰 Fetching news from NewsData.io for ${loungeType}...`);
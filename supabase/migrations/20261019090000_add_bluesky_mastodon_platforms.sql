@@ -0,0 +1,5 @@
+-- Add Bluesky and Mastodon as creator platforms
+-- Both are fetched from public APIs (AT Protocol AppView and Mastodon REST)
+
+ALTER TYPE platform_type ADD VALUE IF NOT EXISTS 'bluesky' BEFORE 'rss';
+ALTER TYPE platform_type ADD VALUE IF NOT EXISTS 'mastodon' BEFORE 'rss';
@@ -0,0 +1,15 @@
+-- Add transcript and chapter columns to content
+-- Podcast episodes (podcast:transcript / podcast:chapters) and videos store
+-- their transcripts here so summaries can be generated from the spoken content
+
+ALTER TABLE content
+ADD COLUMN transcript TEXT,
+ADD COLUMN transcript_segments JSONB,
+ADD COLUMN transcript_source TEXT,
+ADD COLUMN chapters JSONB;
+
+-- Add comments for documentation
+COMMENT ON COLUMN content.transcript IS 'Full plain-text transcript of the episode or video';
+COMMENT ON COLUMN content.transcript_segments IS 'Timed transcript segments: [{start, end, text, speaker}] in seconds';
+COMMENT ON COLUMN content.transcript_source IS 'Where the transcript came from (e.g. podcast)';
+COMMENT ON COLUMN content.chapters IS 'Chapter markers: [{start_time, end_time, title, url, image_url}] in seconds';
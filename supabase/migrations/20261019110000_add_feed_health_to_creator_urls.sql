@@ -0,0 +1,27 @@
+-- Add conditional GET validators and feed health tracking to creator_urls
+-- RSS feeds are fetched with If-None-Match / If-Modified-Since and skipped on
+-- 304. Health columns let us spot dead feeds and flip them to invalid.
+
+ALTER TABLE creator_urls
+ADD COLUMN etag TEXT,
+ADD COLUMN last_modified TEXT,
+ADD COLUMN last_fetched_at TIMESTAMPTZ,
+ADD COLUMN last_success_at TIMESTAMPTZ,
+ADD COLUMN failing_since TIMESTAMPTZ,
+ADD COLUMN consecutive_failures INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN last_error TEXT,
+ADD COLUMN average_latency_ms INTEGER,
+ADD COLUMN item_cadence_hours NUMERIC(8, 2);
+
+-- Add index for finding failing feeds
+CREATE INDEX idx_creator_urls_failing_since ON creator_urls(failing_since)
+WHERE failing_since IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN creator_urls.etag IS 'ETag from the last 200 response, sent as If-None-Match';
+COMMENT ON COLUMN creator_urls.last_modified IS 'Last-Modified from the last 200 response, sent as If-Modified-Since';
+COMMENT ON COLUMN creator_urls.last_success_at IS 'Last fetch that returned 200 or 304';
+COMMENT ON COLUMN creator_urls.failing_since IS 'First failure of the current failure streak, NULL when healthy';
+COMMENT ON COLUMN creator_urls.consecutive_failures IS 'Failed fetches since the last success';
+COMMENT ON COLUMN creator_urls.average_latency_ms IS 'Moving average of fetch latency';
+COMMENT ON COLUMN creator_urls.item_cadence_hours IS 'Median hours between published items';
@@ -0,0 +1,36 @@
+-- Add adaptive polling schedule to creator_urls
+-- Each URL gets a next-due time learned from its creator's posting cadence.
+-- The queue-creators cron only enqueues creators with at least one due URL.
+
+ALTER TABLE creator_urls
+ADD COLUMN next_poll_at TIMESTAMPTZ,
+ADD COLUMN poll_interval_minutes INTEGER;
+
+-- VIP override: poll every hour regardless of cadence
+ALTER TABLE creators
+ADD COLUMN always_poll_hourly BOOLEAN NOT NULL DEFAULT false;
+
+-- Add index for the due check
+CREATE INDEX idx_creator_urls_next_poll_at ON creator_urls(next_poll_at);
+
+-- Toggling the override makes the creator due on the next cron tick
+CREATE OR REPLACE FUNCTION reset_creator_poll_schedule()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE creator_urls
+  SET next_poll_at = NULL
+  WHERE creator_id = NEW.id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER reset_poll_schedule_on_override_change
+AFTER UPDATE OF always_poll_hourly ON creators
+FOR EACH ROW
+WHEN (OLD.always_poll_hourly IS DISTINCT FROM NEW.always_poll_hourly)
+EXECUTE FUNCTION reset_creator_poll_schedule();
+
+-- Add comments for documentation
+COMMENT ON COLUMN creator_urls.next_poll_at IS 'When this URL is next due for fetching, NULL means due now';
+COMMENT ON COLUMN creator_urls.poll_interval_minutes IS 'Interval used to compute next_poll_at';
+COMMENT ON COLUMN creators.always_poll_hourly IS 'VIP override: poll hourly regardless of posting cadence';
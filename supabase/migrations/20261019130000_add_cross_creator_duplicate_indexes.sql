@@ -0,0 +1,10 @@
+-- Support cross-creator duplicate clustering
+-- New content is compared with other creators' posts published within a
+-- time window, and the feed looks up the rest of each primary's group.
+
+CREATE INDEX IF NOT EXISTS idx_content_published_at ON content(published_at);
+
+CREATE INDEX IF NOT EXISTS idx_content_duplicate_group_id ON content(duplicate_group_id)
+WHERE duplicate_group_id IS NOT NULL;
+
+COMMENT ON COLUMN content.duplicate_group_id IS 'Groups the same post by one or more creators; only the primary item is shown in feeds';
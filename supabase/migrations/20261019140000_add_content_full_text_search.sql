@@ -0,0 +1,77 @@
+-- Full-text search over content
+-- Titles weigh most, then AI summaries, descriptions and bodies. The search
+-- document is built by an immutable function so the GIN expression index
+-- and the search functions always agree on it.
+
+CREATE OR REPLACE FUNCTION content_search_document(
+  p_title TEXT,
+  p_ai_summary_short TEXT,
+  p_description TEXT,
+  p_content_body TEXT
+)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    setweight(to_tsvector('english'::regconfig, coalesce(p_title, '')), 'A') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(p_ai_summary_short, '')), 'B') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(p_description, '')), 'C') ||
+    setweight(to_tsvector('english'::regconfig, coalesce(p_content_body, '')), 'D')
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_content_search_document ON content
+USING GIN (content_search_document(title, ai_summary_short, description, content_body));
+
+-- Content matching a websearch-style query (quoted phrases, -exclusion, or),
+-- best match first. Runs with the caller's privileges so RLS still applies;
+-- callers chain further filters and pagination on top.
+CREATE OR REPLACE FUNCTION search_content(search_query TEXT)
+RETURNS SETOF content
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT c.*
+  FROM content c, websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+  WHERE content_search_document(c.title, c.ai_summary_short, c.description, c.content_body) @@ q.query
+  ORDER BY
+    ts_rank_cd(
+      content_search_document(c.title, c.ai_summary_short, c.description, c.content_body),
+      q.query
+    ) DESC,
+    c.published_at DESC
+$$;
+
+-- Rank and highlighted snippet for a page of search results. Matches are
+-- wrapped in <mark></mark>; HTML in the source text is stripped first.
+CREATE OR REPLACE FUNCTION content_search_snippets(
+  search_query TEXT,
+  content_ids UUID[]
+)
+RETURNS TABLE (id UUID, rank REAL, snippet TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id,
+    ts_rank_cd(
+      content_search_document(c.title, c.ai_summary_short, c.description, c.content_body),
+      q.query
+    ),
+    ts_headline(
+      'english'::regconfig,
+      regexp_replace(
+        concat_ws(' ', c.ai_summary_short, c.description, c.content_body),
+        '<[^>]*>',
+        ' ',
+        'g'
+      ),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM content c, websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+  WHERE c.id = ANY(content_ids)
+$$;
+
+GRANT EXECUTE ON FUNCTION search_content(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION content_search_snippets(TEXT, UUID[]) TO authenticated;
@@ -0,0 +1,63 @@
+-- Saved content collections
+-- Users group bookmarks into their own collections (one collection per saved
+-- item, like folders) and organize them with tags, notes and read state.
+
+CREATE TABLE IF NOT EXISTS public.saved_collections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.saved_content
+ADD COLUMN collection_id UUID REFERENCES public.saved_collections(id) ON DELETE SET NULL,
+ADD COLUMN updated_at TIMESTAMPTZ;
+
+-- Tags are stored as a JSON array of strings
+UPDATE public.saved_content SET tags = '[]'::jsonb WHERE tags IS NULL;
+ALTER TABLE public.saved_content ALTER COLUMN tags SET DEFAULT '[]'::jsonb;
+UPDATE public.saved_content SET read_status = false WHERE read_status IS NULL;
+ALTER TABLE public.saved_content ALTER COLUMN read_status SET DEFAULT false;
+
+-- Add indexes for filtering the saved view
+CREATE INDEX IF NOT EXISTS idx_saved_content_user_saved_at ON public.saved_content(user_id, saved_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_content_collection_id ON public.saved_content(collection_id)
+WHERE collection_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_saved_content_tags ON public.saved_content USING GIN(tags);
+CREATE INDEX IF NOT EXISTS idx_saved_collections_user_id ON public.saved_collections(user_id);
+
+-- Collections are private to their owner
+ALTER TABLE public.saved_collections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own collections" ON public.saved_collections
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own collections" ON public.saved_collections
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own collections" ON public.saved_collections
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own collections" ON public.saved_collections
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Notes, tags and read state are edited in place
+DROP POLICY IF EXISTS "Users can update own saved content" ON public.saved_content;
+CREATE POLICY "Users can update own saved content" ON public.saved_content
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND (
+      collection_id IS NULL OR
+      EXISTS (
+        SELECT 1 FROM public.saved_collections
+        WHERE id = collection_id AND user_id = auth.uid()
+      )
+    )
+  );
+
+COMMENT ON COLUMN public.saved_content.collection_id IS 'User collection the bookmark is filed under, NULL when unsorted';
+COMMENT ON COLUMN public.saved_content.notes IS 'Markdown notes';
+COMMENT ON COLUMN public.saved_content.tags IS 'JSON array of lowercase tag strings';
@@ -0,0 +1,73 @@
+-- Outbound webhooks
+-- Users register endpoints that receive signed JSON payloads when content
+-- passes relevancy review. Every attempt is recorded in webhook_deliveries.
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  -- HMAC-SHA256 signing secret, shown to the owner once on creation
+  secret TEXT NOT NULL,
+  -- Filters: NULL or empty means "any"
+  lounge_id UUID REFERENCES public.lounges(id) ON DELETE CASCADE,
+  min_relevancy_score INTEGER CHECK (min_relevancy_score BETWEEN 0 AND 100),
+  platforms TEXT[] NOT NULL DEFAULT '{}',
+  creator_ids UUID[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  last_delivery_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  content_id UUID REFERENCES public.content(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  delivered_at TIMESTAMPTZ,
+  -- One delivery per endpoint and content item
+  UNIQUE (endpoint_id, content_id, event_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_active ON public.webhook_endpoints(is_active)
+WHERE is_active = true;
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON public.webhook_endpoints(user_id);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint_created ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+-- Endpoints and their delivery log are private to the owner.
+-- Deliveries are written by the service role only.
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own webhook endpoints" ON public.webhook_endpoints
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own webhook endpoints" ON public.webhook_endpoints
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own webhook endpoints" ON public.webhook_endpoints
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own webhook endpoints" ON public.webhook_endpoints
+  FOR DELETE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own webhook deliveries" ON public.webhook_deliveries
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.webhook_endpoints
+      WHERE id = endpoint_id AND user_id = auth.uid()
+    )
+  );
+
+COMMENT ON TABLE public.webhook_endpoints IS 'User-registered URLs notified when content passes relevancy review';
+COMMENT ON COLUMN public.webhook_endpoints.consecutive_failures IS 'Deliveries that exhausted all retries in a row; the endpoint is disabled after too many';
+COMMENT ON TABLE public.webhook_deliveries IS 'Delivery log for webhook events, one row per endpoint and event';
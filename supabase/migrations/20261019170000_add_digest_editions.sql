@@ -0,0 +1,52 @@
+-- Digest editions
+-- Each lounge digest is built and rendered once per day, then delivered to
+-- every subscriber with only per-recipient fields substituted. Rebuilding an
+-- edition for the same day creates a new version.
+
+CREATE TABLE IF NOT EXISTS public.digest_editions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lounge_id UUID NOT NULL REFERENCES public.lounges(id) ON DELETE CASCADE,
+  edition_date DATE NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  status TEXT NOT NULL DEFAULT 'building' CHECK (status IN ('building', 'ready', 'empty', 'failed')),
+  subject TEXT,
+  -- Rendered email with placeholders for per-recipient fields
+  html TEXT,
+  text_body TEXT,
+  -- Props the email was rendered from, minus per-recipient fields
+  inputs JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  built_at TIMESTAMPTZ,
+  UNIQUE (lounge_id, edition_date, version)
+);
+
+CREATE TABLE IF NOT EXISTS public.digest_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  edition_id UUID NOT NULL REFERENCES public.digest_editions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  lounge_id UUID NOT NULL REFERENCES public.lounges(id) ON DELETE CASCADE,
+  edition_date DATE NOT NULL,
+  email TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  provider_message_id TEXT,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  sent_at TIMESTAMPTZ,
+  -- A recipient gets one edition of a lounge per day, whatever its version
+  UNIQUE (user_id, lounge_id, edition_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_editions_lounge_date ON public.digest_editions(lounge_id, edition_date DESC, version DESC);
+CREATE INDEX IF NOT EXISTS idx_digest_deliveries_edition_id ON public.digest_deliveries(edition_id);
+
+-- Written by the digest workers with the service role only
+ALTER TABLE public.digest_editions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.digest_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own digest deliveries" ON public.digest_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.digest_editions IS 'Daily lounge digest, rendered once and shared by all subscribers';
+COMMENT ON COLUMN public.digest_editions.html IS 'Rendered HTML with %%placeholders%% for per-recipient fields';
+COMMENT ON TABLE public.digest_deliveries IS 'One row per recipient, lounge and day; guards against double sends on retry';
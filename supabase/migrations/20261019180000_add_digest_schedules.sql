@@ -0,0 +1,39 @@
+-- Per-user digest schedules
+-- Digests go out at each user's local time_of_day in users.timezone, on
+-- every day, weekdays only, or one day_of_week. The scheduler cron picks up
+-- rows whose next_send_at has passed and advances it.
+
+ALTER TYPE email_digest_frequency ADD VALUE IF NOT EXISTS 'weekdays' AFTER 'daily';
+
+ALTER TABLE public.email_digests
+  ADD COLUMN IF NOT EXISTS next_send_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_email_digests_next_send_at ON public.email_digests(next_send_at)
+WHERE active = true;
+
+-- Existing subscribers keep the old 6am Pacific daily send until they change it.
+-- next_send_at stays NULL and is filled in by the scheduler's first run.
+INSERT INTO public.email_digests (user_id, frequency, time_of_day, active)
+SELECT DISTINCT user_id, 'daily'::email_digest_frequency, '06:00'::time, true
+FROM public.lounge_digest_subscriptions
+WHERE subscribed = true
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Users manage their own schedule from settings
+ALTER TABLE public.email_digests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own email digest" ON public.email_digests;
+CREATE POLICY "Users can view own email digest" ON public.email_digests
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own email digest" ON public.email_digests;
+CREATE POLICY "Users can insert own email digest" ON public.email_digests
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own email digest" ON public.email_digests;
+CREATE POLICY "Users can update own email digest" ON public.email_digests
+  FOR UPDATE USING (auth.uid() = user_id);
+
+COMMENT ON COLUMN public.email_digests.time_of_day IS 'Local delivery time in users.timezone';
+COMMENT ON COLUMN public.email_digests.day_of_week IS 'Weekly delivery day, 0 = Sunday';
+COMMENT ON COLUMN public.email_digests.next_send_at IS 'Next scheduled send (UTC); NULL until the scheduler computes it';
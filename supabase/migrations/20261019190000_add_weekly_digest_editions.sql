@@ -0,0 +1,31 @@
+-- Weekly "best of the lounge" digest
+-- Lounge subscribers can opt into a weekly edition alongside or instead of
+-- the daily one. Weekly editions are dated by the Monday (UTC) that starts
+-- the week they are sent in and cover the previous seven days.
+
+ALTER TABLE public.lounge_digest_subscriptions
+  ADD COLUMN IF NOT EXISTS weekly_subscribed BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.digest_editions
+  ADD COLUMN IF NOT EXISTS edition_type TEXT NOT NULL DEFAULT 'daily' CHECK (edition_type IN ('daily', 'weekly'));
+
+ALTER TABLE public.digest_deliveries
+  ADD COLUMN IF NOT EXISTS edition_type TEXT NOT NULL DEFAULT 'daily' CHECK (edition_type IN ('daily', 'weekly'));
+
+-- Daily and weekly editions of a lounge can share a date
+ALTER TABLE public.digest_editions
+  DROP CONSTRAINT IF EXISTS digest_editions_lounge_id_edition_date_version_key;
+ALTER TABLE public.digest_editions
+  ADD CONSTRAINT digest_editions_lounge_type_date_version_key UNIQUE (lounge_id, edition_type, edition_date, version);
+
+ALTER TABLE public.digest_deliveries
+  DROP CONSTRAINT IF EXISTS digest_deliveries_user_id_lounge_id_edition_date_key;
+ALTER TABLE public.digest_deliveries
+  ADD CONSTRAINT digest_deliveries_user_lounge_type_date_key UNIQUE (user_id, lounge_id, edition_type, edition_date);
+
+DROP INDEX IF EXISTS public.idx_digest_editions_lounge_date;
+CREATE INDEX IF NOT EXISTS idx_digest_editions_lounge_type_date ON public.digest_editions(lounge_id, edition_type, edition_date DESC, version DESC);
+
+COMMENT ON COLUMN public.lounge_digest_subscriptions.subscribed IS 'Receives the daily digest for this lounge';
+COMMENT ON COLUMN public.lounge_digest_subscriptions.weekly_subscribed IS 'Receives the weekly best-of digest for this lounge';
+COMMENT ON COLUMN public.digest_editions.edition_type IS 'daily, or weekly (edition_date is the Monday the week starts)';
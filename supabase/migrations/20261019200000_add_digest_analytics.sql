@@ -0,0 +1,41 @@
+-- Digest open and click analytics
+-- Digest links go through a signed redirect and an optional open pixel.
+-- Events are only recorded for recipients who consented to analytics
+-- (users.consent_details.analytics_consent); everyone else gets untracked
+-- redirects and no pixel.
+
+ALTER TABLE public.digest_deliveries
+  ADD COLUMN IF NOT EXISTS tracked BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.digest_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  delivery_id UUID NOT NULL REFERENCES public.digest_deliveries(id) ON DELETE CASCADE,
+  edition_id UUID NOT NULL REFERENCES public.digest_editions(id) ON DELETE CASCADE,
+  lounge_id UUID NOT NULL REFERENCES public.lounges(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN ('open', 'click')),
+  -- Click events only: where the link sat and what it pointed to
+  section TEXT,
+  target TEXT,
+  url TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_digest_events_created_at ON public.digest_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_digest_events_lounge_created ON public.digest_events(lounge_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_digest_events_delivery_id ON public.digest_events(delivery_id);
+CREATE INDEX IF NOT EXISTS idx_digest_deliveries_sent_at ON public.digest_deliveries(sent_at DESC)
+WHERE tracked = true;
+
+-- Recorded by the tracking endpoints with the service role. Users can see
+-- and erase their own events (data export, consent withdrawal).
+ALTER TABLE public.digest_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own digest events" ON public.digest_events
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own digest events" ON public.digest_events
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE public.digest_events IS 'Digest opens and clicks from recipients who consented to analytics';
+COMMENT ON COLUMN public.digest_deliveries.tracked IS 'Recipient had analytics consent when the digest was sent';
@@ -0,0 +1,84 @@
+-- Digest advertiser campaigns
+-- email_advertisers rows become campaigns: a flight (starts_at/ends_at),
+-- lounge targeting, a per-recipient frequency cap and a rotation weight used
+-- when more campaigns are live than a digest has slots for.
+
+ALTER TABLE public.email_advertisers
+  ADD COLUMN IF NOT EXISTS starts_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ends_at TIMESTAMPTZ,
+  -- Empty targets every lounge
+  ADD COLUMN IF NOT EXISTS lounge_ids UUID[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS weight INTEGER NOT NULL DEFAULT 1 CHECK (weight > 0),
+  -- Max impressions per recipient within frequency_cap_days; NULL is uncapped
+  ADD COLUMN IF NOT EXISTS frequency_cap INTEGER CHECK (frequency_cap > 0),
+  ADD COLUMN IF NOT EXISTS frequency_cap_days INTEGER NOT NULL DEFAULT 7 CHECK (frequency_cap_days > 0);
+
+ALTER TABLE public.email_advertisers
+  DROP CONSTRAINT IF EXISTS email_advertisers_flight_check;
+ALTER TABLE public.email_advertisers
+  ADD CONSTRAINT email_advertisers_flight_check
+  CHECK (starts_at IS NULL OR ends_at IS NULL OR ends_at > starts_at);
+
+-- One row per campaign shown in a sent digest. Drives frequency caps and
+-- billing; test sends aren't recorded.
+CREATE TABLE IF NOT EXISTS public.ad_impressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.email_advertisers(id) ON DELETE CASCADE,
+  delivery_id UUID REFERENCES public.digest_deliveries(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  lounge_id UUID NOT NULL REFERENCES public.lounges(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_impressions_user_created ON public.ad_impressions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ad_impressions_campaign_created ON public.ad_impressions(campaign_id, created_at);
+
+-- Clicks through the signed digest redirect. Anonymous, so every click is
+-- billable regardless of analytics consent.
+CREATE TABLE IF NOT EXISTS public.ad_clicks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  campaign_id UUID NOT NULL REFERENCES public.email_advertisers(id) ON DELETE CASCADE,
+  edition_id UUID REFERENCES public.digest_editions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ad_clicks_campaign_created ON public.ad_clicks(campaign_id, created_at);
+
+-- Written and read with the service role only
+ALTER TABLE public.ad_impressions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ad_clicks ENABLE ROW LEVEL SECURITY;
+
+-- Daily impressions and clicks for a campaign's report
+CREATE OR REPLACE FUNCTION get_ad_campaign_daily_stats(
+  p_campaign_id UUID,
+  p_since TIMESTAMPTZ
+)
+RETURNS TABLE (day DATE, impressions BIGINT, clicks BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH impressions AS (
+    SELECT (created_at AT TIME ZONE 'UTC')::date AS day, COUNT(*) AS total
+    FROM public.ad_impressions
+    WHERE campaign_id = p_campaign_id AND created_at >= p_since
+    GROUP BY 1
+  ),
+  clicks AS (
+    SELECT (created_at AT TIME ZONE 'UTC')::date AS day, COUNT(*) AS total
+    FROM public.ad_clicks
+    WHERE campaign_id = p_campaign_id AND created_at >= p_since
+    GROUP BY 1
+  )
+  SELECT
+    COALESCE(i.day, c.day) AS day,
+    COALESCE(i.total, 0) AS impressions,
+    COALESCE(c.total, 0) AS clicks
+  FROM impressions i
+  FULL OUTER JOIN clicks c ON c.day = i.day
+  ORDER BY 1
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_ad_campaign_daily_stats(UUID, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON TABLE public.ad_impressions IS 'Advertiser campaigns shown per digest delivery, for frequency caps and billing';
+COMMENT ON TABLE public.ad_clicks IS 'Anonymous advertiser clicks from digest emails';
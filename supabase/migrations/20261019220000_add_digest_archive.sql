@@ -0,0 +1,26 @@
+-- Digest web archive
+-- Sent editions are served at /digests/[lounge]/[date]. Editions are private
+-- to signed-in readers unless shared publicly, which also enables their
+-- OpenGraph preview. Past editions are searchable by subject and text.
+
+ALTER TABLE public.digest_editions
+  ADD COLUMN IF NOT EXISTS is_public BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS shared_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS search_document TSVECTOR
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('english'::regconfig, COALESCE(subject, '')), 'A') ||
+      setweight(
+        to_tsvector(
+          'english'::regconfig,
+          -- Drop links and placeholders so they don't match searches
+          regexp_replace(COALESCE(text_body, ''), '(https?://\S+|%%\w+%%)', ' ', 'g')
+        ),
+        'B'
+      )
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_digest_editions_search ON public.digest_editions USING GIN (search_document);
+CREATE INDEX IF NOT EXISTS idx_digest_editions_public ON public.digest_editions(lounge_id, edition_date DESC)
+WHERE is_public = true;
+
+COMMENT ON COLUMN public.digest_editions.is_public IS 'Shared publicly in the web archive, with an OpenGraph preview';
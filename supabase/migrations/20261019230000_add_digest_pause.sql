@@ -0,0 +1,8 @@
+-- Pausing digests from the email preference center
+-- A pause moves next_send_at past paused_until; it is kept so schedule
+-- changes during the pause don't bring the next send forward.
+
+ALTER TABLE public.email_digests
+  ADD COLUMN IF NOT EXISTS paused_until TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.email_digests.paused_until IS 'Digests are held until this time';
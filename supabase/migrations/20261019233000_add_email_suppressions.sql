@@ -0,0 +1,38 @@
+-- Delivery feedback from Resend and the suppression list it feeds
+-- /api/webhooks/resend records deliveries, delays, bounces and complaints.
+-- Hard bounces and complaints suppress an address for good; soft bounces
+-- hold it for a backoff that grows with each repeat until it counts as hard.
+
+CREATE TABLE IF NOT EXISTS public.email_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Webhook message ID, so redelivered webhooks are only applied once
+  provider_event_id TEXT NOT NULL UNIQUE,
+  provider_message_id TEXT,
+  email TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('email.delivered', 'email.delivery_delayed', 'email.bounced', 'email.complained')),
+  bounce_type TEXT,
+  detail TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_email ON public.email_events(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_events_message_id ON public.email_events(provider_message_id);
+
+CREATE TABLE IF NOT EXISTS public.email_suppressions (
+  -- Lowercased
+  email TEXT PRIMARY KEY,
+  reason TEXT NOT NULL CHECK (reason IN ('hard_bounce', 'soft_bounce', 'complaint')),
+  soft_bounce_count INTEGER NOT NULL DEFAULT 0,
+  -- Soft bounces only; hard bounces and complaints never expire
+  suppressed_until TIMESTAMPTZ,
+  last_event_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Written by the webhook with the service role only
+ALTER TABLE public.email_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_suppressions ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.email_events IS 'Delivery, bounce and complaint events from the email provider';
+COMMENT ON TABLE public.email_suppressions IS 'Addresses digests are not sent to';
@@ -0,0 +1,322 @@
+-- Per-lounge relevancy policies
+-- The keep/borderline/filter criteria the relevancy check scores against,
+-- previously hard-coded per lounge name in RelevancyService. Every edit
+-- publishes a new version; exactly one version per lounge is active. The
+-- threshold is mirrored onto lounges.relevancy_threshold, which is what
+-- auto-deletion and digests read. Approved prompt_adjustments are still
+-- appended on top of the active policy.
+
+CREATE TABLE IF NOT EXISTS public.lounge_relevancy_policies (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  lounge_id UUID NOT NULL REFERENCES public.lounges(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL CHECK (version > 0),
+  keep_criteria TEXT[] NOT NULL DEFAULT '{}',
+  -- Empty means there is no borderline band between keep and filter
+  borderline_criteria TEXT[] NOT NULL DEFAULT '{}',
+  filter_criteria TEXT[] NOT NULL DEFAULT '{}',
+  -- [{ "content": "...", "verdict": "keep" | "filter", "reason": "..." }]
+  examples JSONB NOT NULL DEFAULT '[]',
+  -- One-line scope rule, e.g. "Only AI/ML content passes"
+  focus TEXT,
+  threshold INTEGER NOT NULL CHECK (threshold BETWEEN 0 AND 100),
+  change_note TEXT,
+  -- Set when this version restores an older one
+  rolled_back_from INTEGER,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (lounge_id, version)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_lounge_relevancy_policies_active
+  ON public.lounge_relevancy_policies(lounge_id)
+  WHERE is_active;
+
+-- Read by the relevancy cron and written by admin routes with the service role
+ALTER TABLE public.lounge_relevancy_policies ENABLE ROW LEVEL SECURITY;
+
+-- Publish a new active version and sync the lounge threshold in one
+-- transaction. Locks the lounge so concurrent edits get distinct versions.
+CREATE OR REPLACE FUNCTION publish_lounge_relevancy_policy(
+  p_lounge_id UUID,
+  p_keep_criteria TEXT[],
+  p_borderline_criteria TEXT[],
+  p_filter_criteria TEXT[],
+  p_examples JSONB,
+  p_focus TEXT,
+  p_threshold INTEGER,
+  p_change_note TEXT,
+  p_created_by UUID,
+  p_rolled_back_from INTEGER DEFAULT NULL
+)
+RETURNS public.lounge_relevancy_policies
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_version INTEGER;
+  v_policy public.lounge_relevancy_policies;
+BEGIN
+  PERFORM 1 FROM public.lounges WHERE id = p_lounge_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Lounge % not found', p_lounge_id USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO v_version
+  FROM public.lounge_relevancy_policies
+  WHERE lounge_id = p_lounge_id;
+
+  UPDATE public.lounge_relevancy_policies
+  SET is_active = false
+  WHERE lounge_id = p_lounge_id AND is_active;
+
+  INSERT INTO public.lounge_relevancy_policies (
+    lounge_id, version, keep_criteria, borderline_criteria, filter_criteria,
+    examples, focus, threshold, change_note, rolled_back_from, is_active,
+    created_by
+  )
+  VALUES (
+    p_lounge_id, v_version, p_keep_criteria, p_borderline_criteria,
+    p_filter_criteria, p_examples, p_focus, p_threshold, p_change_note,
+    p_rolled_back_from, true, p_created_by
+  )
+  RETURNING * INTO v_policy;
+
+  UPDATE public.lounges
+  SET relevancy_threshold = p_threshold
+  WHERE id = p_lounge_id;
+
+  RETURN v_policy;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION publish_lounge_relevancy_policy(UUID, TEXT[], TEXT[], TEXT[], JSONB, TEXT, INTEGER, TEXT, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Seed version 1 from the rules that used to live in RelevancyService.
+-- Lounges whose threshold was never set keep the one their prompt used.
+WITH seed (names, keep_criteria, borderline_criteria, filter_criteria, focus, threshold) AS (
+  VALUES
+  (
+    ARRAY['SaaS'],
+    ARRAY[
+      'ANY technology, software, AI, or programming content',
+      'AI tools, prompts, workflows, use cases (ChatGPT, Claude, Midjourney, etc.)',
+      'AI in business, AI automation, AI agents, AI APIs',
+      'Machine learning, LLMs, AI development, AI trends',
+      'Software as a Service businesses, SaaS metrics (MRR, ARR, churn, CAC, LTV)',
+      'B2B software sales, pricing, customer success',
+      'SaaS product development, features, integrations',
+      'Cloud software, subscription models, SaaS tools',
+      'Technical implementation (APIs, infrastructure, security, DevOps)',
+      'Software engineering, coding, architecture patterns',
+      'Tech industry news, product launches, acquisitions',
+      'Developer tools, productivity software, automation',
+      'Open source projects, tech tutorials, best practices',
+      'No-code/low-code tools and platforms'
+    ],
+    ARRAY[
+      'General B2B business strategies without tech/AI context',
+      'Marketing/growth tactics without specific software examples',
+      'Generic startup advice without tech/software focus',
+      'Brand building without product context'
+    ],
+    ARRAY[
+      'Pure celebrity/entertainment content',
+      'Consumer product reviews (non-tech)',
+      'Personal life updates unrelated to tech/work',
+      'Motivational quotes without business/tech context',
+      'Political content unrelated to tech industry'
+    ],
+    NULL,
+    60
+  ),
+  (
+    ARRAY['B2B Growth', 'Growth Coffee'],
+    ARRAY[
+      'B2B sales techniques, strategies, and methodologies',
+      'Account-based marketing (ABM) and enterprise sales',
+      'Lead generation, nurturing, and conversion strategies',
+      'B2B content marketing and thought leadership',
+      'Sales enablement tools and processes',
+      'Customer acquisition strategies for B2B',
+      'Revenue operations and growth metrics',
+      'B2B pricing strategies and models',
+      'Partnership and channel strategies',
+      'B2B customer success and retention',
+      'Marketing automation for B2B',
+      'LinkedIn and B2B social selling strategies',
+      'Case studies of B2B growth',
+      'SaaS growth tactics and metrics',
+      'Professional insights about growing B2B companies'
+    ],
+    ARRAY[]::TEXT[],
+    ARRAY[
+      'Personal life events (engagements, birthdays, vacations)',
+      'Sports news or entertainment gossip',
+      'Celebrity news or pop culture references',
+      'Personal relationship updates',
+      'Food, fashion, or lifestyle content without B2B angle',
+      'Motivational quotes without specific B2B context',
+      'Political content unrelated to B2B business',
+      'Consumer product reviews (B2C focus)',
+      'Personal hobbies or interests unrelated to B2B',
+      'General news without B2B business impact',
+      'Jokes or memes without B2B relevance',
+      'Weather, travel, or local news'
+    ],
+    NULL,
+    60
+  ),
+  (
+    ARRAY['AI', 'AI Coffee'],
+    ARRAY[
+      'AI technology, machine learning, LLMs, neural networks',
+      'AI tools, products, and applications',
+      'AI research, papers, breakthroughs',
+      'AI in business, automation, AI agents',
+      'AI development, prompting, workflows',
+      'AI industry news, funding, acquisitions',
+      'AI ethics, safety, governance',
+      'AI startups and venture investments in AI',
+      'Technical AI discussions and implementations'
+    ],
+    ARRAY[]::TEXT[],
+    ARRAY[
+      'Sports results, athlete achievements, game scores',
+      'Tennis, football, basketball, or any sports competition',
+      'Celebrity gossip, entertainment news',
+      'Personal life updates (birthdays, vacations, relationships)',
+      'Food, fashion, lifestyle without AI context',
+      'Generic motivational quotes',
+      'Political content unrelated to AI policy',
+      'Health/fitness unless AI-related',
+      'Travel, weather, local news',
+      'Pure venture/business without AI angle'
+    ],
+    'ONLY AI/ML content reaches the threshold',
+    60
+  ),
+  (
+    ARRAY['Venture', 'Venture Coffee'],
+    ARRAY[
+      'Venture capital, startup funding, investment rounds',
+      'Startup news, exits, acquisitions, IPOs',
+      'Founder stories, entrepreneurship insights',
+      'Investment strategies, portfolio management',
+      'Startup metrics, growth, scaling',
+      'Accelerators, incubators, startup programs',
+      'Angel investing, seed funding',
+      'Market analysis, industry trends',
+      'VC firm news, partner moves'
+    ],
+    ARRAY[]::TEXT[],
+    ARRAY[
+      'Sports results, athlete achievements, game scores',
+      'Tennis, football, basketball, or any sports competition',
+      'Celebrity gossip, entertainment news',
+      'Personal life updates (birthdays, vacations, relationships)',
+      'Food, fashion, lifestyle without business context',
+      'Generic motivational quotes',
+      'Political content unrelated to business/tech policy',
+      'Health/fitness unless startup-related',
+      'Travel, weather, local news',
+      'Pure technical content without business angle'
+    ],
+    'ONLY startup/investment content reaches the threshold',
+    60
+  ),
+  (
+    ARRAY['Crypto'],
+    ARRAY[
+      'Cryptocurrency, blockchain, DeFi, Web3',
+      'Crypto trading, markets, analysis',
+      'NFTs, DAOs, smart contracts',
+      'Crypto regulations, policy, legal',
+      'Blockchain development, protocols',
+      'Crypto projects, launches, updates',
+      'Mining, staking, yield farming',
+      'Crypto venture investments'
+    ],
+    ARRAY[]::TEXT[],
+    ARRAY[
+      'Sports, entertainment (unless business angle)',
+      'Personal daily routines unrelated to work',
+      'Birthday wishes, personal celebrations',
+      'Generic life advice without professional context',
+      'Political rants unrelated to crypto/tech',
+      'Vague excitement without context ("So cool!", "Amazing!")'
+    ],
+    NULL,
+    60
+  ),
+  (
+    ARRAY['Biohacking'],
+    ARRAY[
+      'Health optimization, fitness, nutrition content',
+      'Sleep, recovery, performance tips',
+      'Supplements, nootropics, health tech',
+      'Personal health experiments and results',
+      'Wellness routines and protocols',
+      'Mental health and cognitive enhancement',
+      'Even personal stories IF they include health insights'
+    ],
+    ARRAY[]::TEXT[],
+    ARRAY[
+      'Pure motivational content without health context',
+      'Business content unrelated to health',
+      'Political or social commentary',
+      'Entertainment, sports (unless health-related)',
+      'Vague statements without health information'
+    ],
+    NULL,
+    50
+  ),
+  (
+    ARRAY['Personal Growth'],
+    ARRAY[
+      'Productivity tips and systems',
+      'Goal setting and achievement',
+      'Learning strategies, skill development',
+      'Career growth and professional development',
+      'Mindset and psychology insights',
+      'Work-life balance strategies',
+      'Personal experiences with lessons learned',
+      'Even motivational content IF it has actionable advice'
+    ],
+    ARRAY[]::TEXT[],
+    ARRAY[
+      'Empty motivational quotes with no substance',
+      'Pure business metrics without growth angle',
+      'Technical content without learning aspect',
+      'Political or controversial topics',
+      'Entertainment without educational value'
+    ],
+    NULL,
+    50
+  )
+)
+INSERT INTO public.lounge_relevancy_policies (
+  lounge_id, version, keep_criteria, borderline_criteria, filter_criteria,
+  focus, threshold, change_note, is_active
+)
+SELECT
+  l.id,
+  1,
+  seed.keep_criteria,
+  seed.borderline_criteria,
+  seed.filter_criteria,
+  seed.focus,
+  COALESCE(l.relevancy_threshold, seed.threshold),
+  'Imported from the built-in lounge rules',
+  true
+FROM public.lounges l
+JOIN seed ON l.name = ANY(seed.names)
+ON CONFLICT (lounge_id, version) DO NOTHING;
+
+UPDATE public.lounges l
+SET relevancy_threshold = p.threshold
+FROM public.lounge_relevancy_policies p
+WHERE p.lounge_id = l.id
+  AND p.is_active
+  AND l.relevancy_threshold IS NULL;
+
+COMMENT ON TABLE public.lounge_relevancy_policies IS 'Versioned keep/borderline/filter criteria the relevancy check scores each lounge against';
@@ -0,0 +1,90 @@
+-- Cost ledger
+-- One row per paid external call: LLM completions (through the gateway),
+-- Apify actor runs, Bright Data snapshots, Gemini images, Finnhub requests
+-- and NewsData credits. Costs are estimated from list prices when the
+-- vendor doesn't report them, so vendor invoices stay the source of truth
+-- for billing; the ledger is what spend is broken down and budgeted by.
+
+CREATE TABLE IF NOT EXISTS public.cost_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  subsystem TEXT NOT NULL CHECK (
+    subsystem IN (
+      'summaries', 'relevancy', 'ai_news', 'digests', 'images', 'scraping'
+    )
+  ),
+  -- Vendor billed for the call, e.g. openai, apify, brightdata
+  provider TEXT NOT NULL,
+  -- Model or actor/dataset the call ran on
+  model_or_actor TEXT,
+  -- LLM gateway task, when the call went through the gateway
+  task TEXT,
+  unit_type TEXT NOT NULL CHECK (
+    unit_type IN ('tokens', 'items', 'records', 'images', 'requests', 'credits')
+  ),
+  units NUMERIC NOT NULL DEFAULT 0,
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  lounge_id UUID REFERENCES public.lounges(id) ON DELETE SET NULL,
+  creator_id UUID REFERENCES public.creators(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_created_at
+  ON public.cost_ledger(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_cost_ledger_subsystem_created_at
+  ON public.cost_ledger(subsystem, created_at DESC);
+
+-- Daily and monthly spend limits per subsystem. NULL means no limit.
+-- Non-critical jobs in a subsystem are paused while either is exceeded.
+CREATE TABLE IF NOT EXISTS public.cost_budgets (
+  subsystem TEXT PRIMARY KEY CHECK (
+    subsystem IN (
+      'summaries', 'relevancy', 'ai_news', 'digests', 'images', 'scraping'
+    )
+  ),
+  daily_limit_usd NUMERIC(10, 2) CHECK (daily_limit_usd >= 0),
+  monthly_limit_usd NUMERIC(10, 2) CHECK (monthly_limit_usd >= 0),
+  updated_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Written by workers and read by admin routes with the service role
+ALTER TABLE public.cost_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cost_budgets ENABLE ROW LEVEL SECURITY;
+
+-- Spend per UTC day, subsystem, vendor and model since a point in time.
+-- Aggregated in the database so trend and budget checks don't page
+-- through every ledger row.
+CREATE OR REPLACE FUNCTION cost_ledger_daily_totals(
+  p_since TIMESTAMPTZ,
+  p_subsystem TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  day DATE,
+  subsystem TEXT,
+  provider TEXT,
+  model_or_actor TEXT,
+  calls BIGINT,
+  units NUMERIC,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (l.created_at AT TIME ZONE 'UTC')::DATE AS day,
+    l.subsystem,
+    l.provider,
+    l.model_or_actor,
+    COUNT(*) AS calls,
+    SUM(l.units) AS units,
+    SUM(l.cost_usd) AS cost_usd
+  FROM public.cost_ledger l
+  WHERE l.created_at >= p_since
+    AND (p_subsystem IS NULL OR l.subsystem = p_subsystem)
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
@@ -0,0 +1,36 @@
+-- LLM batch jobs
+-- Bulk summaries and relevancy checks sent to a provider's batch API
+-- (half price, answered within 24 hours) instead of real-time completions.
+-- One row per provider batch; /api/cron/process-llm-batches submits new
+-- ones and polls open ones until their results have been applied.
+
+CREATE TABLE IF NOT EXISTS public.llm_batch_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- Gateway task, which decides how results are applied
+  task TEXT NOT NULL CHECK (task IN ('summary', 'relevancy')),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  provider_batch_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (
+    status IN ('in_progress', 'completed', 'failed', 'expired', 'cancelled')
+  ),
+  -- What each request in the batch is for, keyed by its custom_id:
+  -- [{ custom_id, content_id, lounge_id?, summary_type?, word_count? }]
+  items JSONB NOT NULL DEFAULT '[]',
+  request_count INTEGER NOT NULL DEFAULT 0,
+  succeeded_count INTEGER NOT NULL DEFAULT 0,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  error TEXT,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_polled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ,
+  UNIQUE (provider, provider_batch_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_batch_jobs_open
+  ON public.llm_batch_jobs(task, submitted_at)
+  WHERE status = 'in_progress';
+
+-- Written and read by the batch cron with the service role
+ALTER TABLE public.llm_batch_jobs ENABLE ROW LEVEL SECURITY;
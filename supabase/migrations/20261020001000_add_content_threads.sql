@@ -0,0 +1,15 @@
+-- Link self-reply chains into threads
+-- A creator's replies to their own posts share the opener's thread_id and
+-- are numbered from 0 (the opener), so the feed can show one card per
+-- thread and summaries and relevancy can treat the thread as a unit
+
+ALTER TABLE content
+ADD COLUMN thread_id TEXT,
+ADD COLUMN thread_position INTEGER CHECK (thread_position >= 0);
+
+CREATE INDEX idx_content_threads ON content(creator_id, thread_id, thread_position)
+WHERE thread_id IS NOT NULL;
+
+-- Add comments for documentation
+COMMENT ON COLUMN content.thread_id IS 'platform_content_id of the post that opens the thread, shared by every post in it';
+COMMENT ON COLUMN content.thread_position IS 'Position in the thread: 0 for the opener, then in reply order';
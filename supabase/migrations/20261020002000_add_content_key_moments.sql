@@ -0,0 +1,10 @@
+-- Add key moments to content summaries
+-- Videos and episodes with a timed transcript get a list of timestamped
+-- highlights alongside their summaries, so cards can deep link into them
+
+ALTER TABLE content
+ADD COLUMN key_moments JSONB;
+
+-- Add comments for documentation
+COMMENT ON COLUMN content.key_moments IS 'AI-generated timestamped highlights: [{start_time, title}] in seconds';
+COMMENT ON COLUMN content.transcript_source IS 'Where the transcript came from (e.g. podcast, youtube)';
@@ -0,0 +1,90 @@
+-- Content search: creator names and an explicit rank
+-- search_content also matches posts whose creator's name matches the query,
+-- as the old display_name search did, and returns each match's rank so
+-- callers can order (and page) by it. Ordering inside the function isn't
+-- kept once PostgREST filters and paginates on top of it.
+
+-- Row type of search_content: a content row plus its rank. Never holds rows
+-- itself; it exists so PostgREST can still embed creators on the results.
+CREATE OR REPLACE VIEW content_search_results
+WITH (security_invoker = true) AS
+SELECT c.*, 0::REAL AS rank
+FROM content c
+WHERE false;
+
+-- Vector for a creator's name. Matched on its own, so posts keep using the
+-- content_search_document index.
+CREATE OR REPLACE FUNCTION creator_search_document(p_display_name TEXT)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT setweight(to_tsvector('english'::regconfig, coalesce(p_display_name, '')), 'A')
+$$;
+
+-- The return type changes, so the function is recreated
+DROP FUNCTION IF EXISTS search_content(TEXT);
+
+-- Content matching a websearch-style query (quoted phrases, -exclusion, or)
+-- in its text, or by a creator whose name matches it. Exclusion-only
+-- queries filter content text only: every name "matches" a pure negation.
+-- Runs with the caller's privileges so RLS still applies; callers chain
+-- further filters, order by rank and paginate on top.
+CREATE FUNCTION search_content(search_query TEXT)
+RETURNS SETOF content_search_results
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.*,
+    ts_rank_cd(
+      content_search_document(c.title, c.ai_summary_short, c.description, c.content_body) ||
+        creator_search_document(cr.display_name),
+      q.query
+    ) AS rank
+  FROM content c
+  LEFT JOIN creators cr ON cr.id = c.creator_id
+  CROSS JOIN websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+  WHERE content_search_document(c.title, c.ai_summary_short, c.description, c.content_body) @@ q.query
+    OR (
+      querytree(q.query) <> 'T'
+      AND creator_search_document(cr.display_name) @@ q.query
+    )
+$$;
+
+-- Rank and highlighted snippet for a page of search results, ranked the
+-- same way as search_content
+CREATE OR REPLACE FUNCTION content_search_snippets(
+  search_query TEXT,
+  content_ids UUID[]
+)
+RETURNS TABLE (id UUID, rank REAL, snippet TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.id,
+    ts_rank_cd(
+      content_search_document(c.title, c.ai_summary_short, c.description, c.content_body) ||
+        creator_search_document(cr.display_name),
+      q.query
+    ),
+    ts_headline(
+      'english'::regconfig,
+      regexp_replace(
+        concat_ws(' ', c.ai_summary_short, c.description, c.content_body),
+        '<[^>]*>',
+        ' ',
+        'g'
+      ),
+      q.query,
+      'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "'
+    )
+  FROM content c
+  LEFT JOIN creators cr ON cr.id = c.creator_id
+  CROSS JOIN websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+  WHERE c.id = ANY(content_ids)
+$$;
+
+GRANT SELECT ON content_search_results TO authenticated;
+GRANT EXECUTE ON FUNCTION search_content(TEXT) TO authenticated;
@@ -0,0 +1,25 @@
+-- Advance digest schedules in one statement
+-- The scheduler cron queues due digests first and then moves each schedule to
+-- its next slot, so a failed run leaves them due for the next one. A row only
+-- moves if next_send_at still holds the value the run read, so overlapping
+-- runs don't push a schedule twice.
+
+CREATE OR REPLACE FUNCTION advance_digest_schedules(p_schedules JSONB)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH advanced AS (
+    UPDATE public.email_digests d
+    SET next_send_at = s.next_send_at,
+        updated_at = now()
+    FROM jsonb_to_recordset(p_schedules) AS s(
+      user_id UUID,
+      previous_send_at TIMESTAMPTZ,
+      next_send_at TIMESTAMPTZ
+    )
+    WHERE d.user_id = s.user_id
+      AND d.next_send_at IS NOT DISTINCT FROM s.previous_send_at
+    RETURNING d.user_id
+  )
+  SELECT count(*)::INTEGER FROM advanced
+$$;
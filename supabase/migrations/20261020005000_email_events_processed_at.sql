@@ -0,0 +1,14 @@
+-- Mark email events once their suppression change is applied
+-- The webhook stores the event before updating the suppression list. If that
+-- update fails, Resend retries the same event; the retry finds the stored row
+-- unprocessed and applies it again instead of dropping it as a duplicate.
+
+ALTER TABLE public.email_events
+  ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+
+-- Events recorded before this column were applied when they arrived
+UPDATE public.email_events
+SET processed_at = created_at
+WHERE processed_at IS NULL;
+
+COMMENT ON COLUMN public.email_events.processed_at IS 'When the event''s suppression change was applied; null until then';
@@ -0,0 +1,14 @@
+-- Tie advertiser clicks to the delivery they came from
+-- Only clicks carrying a valid recipient token are billed, and each delivery
+-- counts at most one click per campaign however often the link is followed.
+-- Clicks recorded before this have no delivery and stay as they are.
+
+ALTER TABLE public.ad_clicks
+  ADD COLUMN IF NOT EXISTS delivery_id UUID REFERENCES public.digest_deliveries(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ad_clicks
+  DROP CONSTRAINT IF EXISTS ad_clicks_delivery_campaign_key;
+ALTER TABLE public.ad_clicks
+  ADD CONSTRAINT ad_clicks_delivery_campaign_key UNIQUE (delivery_id, campaign_id);
+
+COMMENT ON TABLE public.ad_clicks IS 'Advertiser clicks from digest emails, at most one per delivery and campaign';
@@ -0,0 +1,41 @@
+-- Keep content search on its index when matching creator names
+-- OR-ing the content text match with the creator name match across a join
+-- stopped the planner from using idx_content_search_document. The two are
+-- now separate queries over the same content: one through that index, the
+-- other through the creators whose names match. Results and rank are
+-- unchanged.
+
+CREATE OR REPLACE FUNCTION search_content(search_query TEXT)
+RETURNS SETOF content_search_results
+LANGUAGE sql
+STABLE
+AS $$
+  WITH matches AS (
+    SELECT c.id
+    FROM content c
+    CROSS JOIN websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+    WHERE content_search_document(c.title, c.ai_summary_short, c.description, c.content_body) @@ q.query
+    UNION
+    SELECT c.id
+    FROM content c
+    WHERE c.creator_id IN (
+      SELECT cr.id
+      FROM creators cr
+      CROSS JOIN websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+      -- Exclusion-only queries filter content text only
+      WHERE querytree(q.query) <> 'T'
+        AND creator_search_document(cr.display_name) @@ q.query
+    )
+  )
+  SELECT
+    c.*,
+    ts_rank_cd(
+      content_search_document(c.title, c.ai_summary_short, c.description, c.content_body) ||
+        creator_search_document(cr.display_name),
+      q.query
+    ) AS rank
+  FROM matches m
+  JOIN content c ON c.id = m.id
+  LEFT JOIN creators cr ON cr.id = c.creator_id
+  CROSS JOIN websearch_to_tsquery('english'::regconfig, search_query) AS q(query)
+$$;
@@ -0,0 +1,111 @@
+import { z } from 'zod';
+
+/**
+ * A digest sponsor and its campaign settings (an `email_advertisers` row)
+ */
+export interface AdCampaign {
+  id: string;
+  // Display order when several campaigns share a digest
+  position: number;
+  company_name: string;
+  logo_url: string;
+  link_url: string;
+  tagline: string;
+  is_active: boolean;
+  // Flight; open-ended on either side when null
+  starts_at: string | null;
+  ends_at: string | null;
+  // Lounges the campaign runs in; empty runs everywhere
+  lounge_ids: string[];
+  // Relative share of rotations when more campaigns are live than slots
+  weight: number;
+  // Max impressions per recipient within frequency_cap_days; null is uncapped
+  frequency_cap: number | null;
+  frequency_cap_days: number;
+}
+
+// What the digest templates need to show a sponsor
+export type DigestAdvertiser = Pick<
+  AdCampaign,
+  'position' | 'company_name' | 'logo_url' | 'link_url' | 'tagline'
+> & { id?: string };
+
+export interface AdCampaignReportDay {
+  date: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+export interface AdCampaignReport {
+  campaignId: string;
+  companyName: string;
+  since: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  days: AdCampaignReportDay[];
+}
+
+// Zod schemas for validation
+const AdCampaignFieldsSchema = z.object({
+  position: z.number().int().min(1),
+  company_name: z.string().trim().min(1, 'Company name is required').max(100),
+  logo_url: z.string().url('Logo must be a valid URL').or(z.literal('')),
+  link_url: z
+    .string()
+    .url('Must be a valid URL')
+    .refine((url) => /^https?:\/\//i.test(url), {
+      message: 'Link must use HTTP or HTTPS',
+    }),
+  tagline: z.string().max(200).default(''),
+  is_active: z.boolean().default(false),
+  starts_at: z.string().datetime({ offset: true }).nullable().default(null),
+  ends_at: z.string().datetime({ offset: true }).nullable().default(null),
+  lounge_ids: z.array(z.string().uuid()).max(100).default([]),
+  weight: z.number().int().min(1).max(100).default(1),
+  frequency_cap: z.number().int().min(1).max(100).nullable().default(null),
+  frequency_cap_days: z.number().int().min(1).max(90).default(7),
+});
+
+export const hasValidFlight = (campaign: {
+  starts_at?: string | null;
+  ends_at?: string | null;
+}) =>
+  !campaign.starts_at ||
+  !campaign.ends_at ||
+  new Date(campaign.ends_at) > new Date(campaign.starts_at);
+
+const flightError = {
+  message: 'End date must be after the start date',
+  path: ['ends_at'],
+};
+
+export const CreateAdCampaignSchema = AdCampaignFieldsSchema.refine(
+  hasValidFlight,
+  flightError
+);
+
+export const UpdateAdCampaignSchema = AdCampaignFieldsSchema.partial()
+  .extend({ id: z.string().uuid() })
+  .refine(hasValidFlight, flightError);
+
+export type CreateAdCampaignInput = z.infer<typeof CreateAdCampaignSchema>;
+export type UpdateAdCampaignInput = z.infer<typeof UpdateAdCampaignSchema>;
+
+// Custom error class for advertiser campaign operations
+export class AdCampaignError extends Error {
+  constructor(
+    message: string,
+    public code: AdCampaignErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'AdCampaignError';
+  }
+}
+
+export type AdCampaignErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_FLIGHT'
+  | 'STORAGE_ERROR';
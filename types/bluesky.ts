@@ -0,0 +1,149 @@
+// Bluesky (AT Protocol) types for the public AppView API
+// https://docs.bsky.app/docs/api/app-bsky-feed-get-author-feed
+
+export interface BlueskyAuthor {
+  did: string;
+  handle: string;
+  displayName?: string;
+  avatar?: string;
+  verification?: { verifiedStatus?: string };
+}
+
+export interface BlueskyPostRecord {
+  $type?: 'app.bsky.feed.post';
+  text: string;
+  createdAt: string;
+  langs?: string[];
+  reply?: {
+    root: { uri: string; cid: string };
+    parent: { uri: string; cid: string };
+  };
+}
+
+export interface BlueskyImageView {
+  thumb: string;
+  fullsize: string;
+  alt?: string;
+  aspectRatio?: { width: number; height: number };
+}
+
+export interface BlueskyExternalView {
+  uri: string;
+  title?: string;
+  description?: string;
+  thumb?: string;
+}
+
+// Embedded (quoted) record as returned by the AppView
+export interface BlueskyViewRecord {
+  $type: 'app.bsky.embed.record#viewRecord';
+  uri: string;
+  cid: string;
+  author: BlueskyAuthor;
+  value: BlueskyPostRecord;
+  indexedAt?: string;
+  likeCount?: number;
+  replyCount?: number;
+  repostCount?: number;
+  embeds?: BlueskyEmbedView[];
+}
+
+export type BlueskyEmbedView =
+  | { $type: 'app.bsky.embed.images#view'; images: BlueskyImageView[] }
+  | { $type: 'app.bsky.embed.external#view'; external: BlueskyExternalView }
+  | {
+      $type: 'app.bsky.embed.video#view';
+      playlist: string;
+      thumbnail?: string;
+      aspectRatio?: { width: number; height: number };
+    }
+  | {
+      $type: 'app.bsky.embed.record#view';
+      record: BlueskyViewRecord | { $type: string; uri?: string };
+    }
+  | {
+      $type: 'app.bsky.embed.recordWithMedia#view';
+      record: { record: BlueskyViewRecord | { $type: string; uri?: string } };
+      media: BlueskyEmbedView;
+    };
+
+export interface BlueskyPostView {
+  uri: string;
+  cid: string;
+  author: BlueskyAuthor;
+  record: BlueskyPostRecord;
+  embed?: BlueskyEmbedView;
+  replyCount?: number;
+  repostCount?: number;
+  likeCount?: number;
+  quoteCount?: number;
+  indexedAt: string;
+}
+
+export interface BlueskyFeedViewPost {
+  post: BlueskyPostView;
+  reply?: {
+    root?: BlueskyPostView | { $type: string; uri?: string };
+    parent?: BlueskyPostView | { $type: string; uri?: string };
+  };
+  reason?: {
+    $type: 'app.bsky.feed.defs#reasonRepost' | string;
+    by?: BlueskyAuthor;
+    indexedAt?: string;
+  };
+}
+
+export interface BlueskyAuthorFeedResponse {
+  feed: BlueskyFeedViewPost[];
+  cursor?: string;
+}
+
+export interface BlueskyFetchOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Maximum number of posts to return (API max is 100) */
+  limit?: number;
+  /** AppView base URL */
+  serviceUrl?: string;
+}
+
+export class BlueskyFetchError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode?: number,
+    public actor?: string
+  ) {
+    super(message);
+    this.name = 'BlueskyFetchError';
+  }
+}
+
+export const DEFAULT_BLUESKY_FETCH_OPTIONS: BlueskyFetchOptions = {
+  timeout: 10000,
+  limit: 20,
+  serviceUrl: 'https://public.api.bsky.app',
+};
+
+/**
+ * Build the public bsky.app URL for a post from its AT URI
+ * (at://did:plc:xyz/app.bsky.feed.post/<rkey>)
+ */
+export const getBlueskyPostUrl = (uri: string, handle: string): string => {
+  const rkey = uri.split('/').pop() || '';
+  return `https://bsky.app/profile/${handle}/post/${rkey}`;
+};
+
+export const isBlueskyPostView = (value: unknown): value is BlueskyPostView =>
+  !!value &&
+  typeof value === 'object' &&
+  'record' in value &&
+  'author' in value &&
+  'uri' in value;
+
+export const isBlueskyViewRecord = (
+  value: unknown
+): value is BlueskyViewRecord =>
+  !!value &&
+  typeof value === 'object' &&
+  (value as { $type?: string }).$type === 'app.bsky.embed.record#viewRecord';
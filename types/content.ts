@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { Platform, PlatformSchema } from './creator';
+import { Platform, PlatformSchema, PLATFORM_VALUES } from './creator';
 
 // Re-export Platform for convenience
 export type { Platform } from './creator';
@@ -10,6 +10,9 @@ export type ContentProcessingStatus = 'pending' | 'processed' | 'failed';
 // Summary generation status enum
 export type SummaryStatus = 'pending' | 'processing' | 'completed' | 'error';
 
+// Short summaries are up to 30 words, long ones up to 100
+export type SummaryLength = 'short' | 'long';
+
 // Reference type for tweets that reference other content
 export type ReferenceType = 'quote' | 'retweet' | 'reply';
 
@@ -34,6 +37,7 @@ export interface Content {
   summary_error_message?: string | null;
   summary_word_count_short?: number | null;
   summary_word_count_long?: number | null;
+  key_moments?: KeyMoment[] | null; // Timestamped highlights from a timed transcript
   processing_status?: ContentProcessingStatus | null;
   error_message?: string | null;
   created_at: string | null;
@@ -50,6 +54,14 @@ export interface Content {
   relevancy_score?: number | null;
   relevancy_checked_at?: string | null;
   relevancy_reason?: string | null;
+  // Transcript fields for podcast episodes and videos
+  transcript?: string | null;
+  transcript_segments?: TranscriptSegment[] | null;
+  transcript_source?: string | null;
+  chapters?: ContentChapter[] | null;
+  // Self-reply thread: the opener's platform_content_id, and 0 for the opener
+  thread_id?: string | null;
+  thread_position?: number | null;
 }
 
 // Content with creator information
@@ -76,8 +88,43 @@ export interface ContentWithCreator extends Content {
   content_hash?: string;
   duplicate_group_id?: string;
   is_primary?: boolean;
+  // Other creators who posted the same content, shown on the primary card
+  also_shared_by?: SharedByCreator[];
+  // The rest of the thread, in order, shown on the opener's card
+  thread_posts?: ThreadPost[];
+  // Full-text search match, with hits wrapped in <mark></mark>
+  search_rank?: number;
+  search_snippet?: string;
 }
 
+// A creator whose post was grouped with another creator's primary content
+export interface SharedByCreator {
+  content_id: string;
+  creator_id: string;
+  name: string;
+  avatar_url?: string | null;
+  platform: Platform;
+  url: string;
+}
+
+// A post in a self-reply thread
+export type ThreadPost = Pick<
+  Content,
+  | 'id'
+  | 'creator_id'
+  | 'platform_content_id'
+  | 'url'
+  | 'title'
+  | 'content_body'
+  | 'media_urls'
+  | 'published_at'
+  | 'reference_type'
+  | 'referenced_content'
+> & {
+  thread_id: string;
+  thread_position: number;
+};
+
 // Media URL structure for images, videos, etc.
 export interface MediaUrl {
   url: string;
@@ -98,6 +145,29 @@ export interface MediaUrl {
   card_type?: string;
 }
 
+// Timed transcript segment (times in seconds)
+export interface TranscriptSegment {
+  start: number;
+  end?: number;
+  text: string;
+  speaker?: string;
+}
+
+// Chapter marker within an episode or video (times in seconds)
+export interface ContentChapter {
+  start_time: number;
+  end_time?: number;
+  title: string;
+  url?: string;
+  image_url?: string;
+}
+
+// Summarized moment in a timed transcript (time in seconds)
+export interface KeyMoment {
+  start_time: number;
+  title: string;
+}
+
 // Referenced content structure (for quotes, retweets, replies)
 export interface ReferencedContent {
   id: string;
@@ -147,6 +217,14 @@ export interface CreateContentInput {
   reference_type?: ReferenceType;
   referenced_content_id?: string;
   referenced_content?: ReferencedContent;
+  // Transcript fields for podcast episodes and videos
+  transcript?: string;
+  transcript_segments?: TranscriptSegment[];
+  transcript_source?: string;
+  chapters?: ContentChapter[];
+  // Self-reply thread, set by ContentNormalizer.linkThreads
+  thread_id?: string;
+  thread_position?: number;
 }
 
 // Content update input
@@ -172,6 +250,12 @@ export interface UpdateContentInput {
   reference_type?: ReferenceType;
   referenced_content_id?: string;
   referenced_content?: ReferencedContent;
+  transcript?: string;
+  transcript_segments?: TranscriptSegment[];
+  transcript_source?: string;
+  chapters?: ContentChapter[];
+  thread_id?: string;
+  thread_position?: number;
 }
 
 // Content query filters
@@ -218,9 +302,11 @@ export interface NormalizeContentInput {
 export interface GenerateSummaryInput {
   content_id: string;
   text: string; // Combined title, description, and content_body
-  model?: string; // AI model to use (e.g., 'gpt-4', 'claude-3')
   generateShort?: boolean; // Generate short summary (default: true)
   generateLong?: boolean; // Generate long summary (default: true)
+  source?: 'content' | 'transcript'; // Where text came from (default: 'content')
+  chapters?: ContentChapter[]; // Chapter outline for transcript summaries
+  segments?: TranscriptSegment[]; // Timed transcript for key moments
 }
 
 // AI Summary generation result
@@ -229,6 +315,7 @@ export interface GenerateSummaryResult {
   success: boolean;
   shortSummary?: string;
   longSummary?: string;
+  keyMoments?: KeyMoment[];
   error?: string;
 }
 
@@ -267,6 +354,21 @@ export const MediaUrlSchema = z.object({
   card_type: z.string().optional(),
 });
 
+export const TranscriptSegmentSchema = z.object({
+  start: z.number().nonnegative(),
+  end: z.number().nonnegative().optional(),
+  text: z.string(),
+  speaker: z.string().optional(),
+});
+
+export const ContentChapterSchema = z.object({
+  start_time: z.number().nonnegative(),
+  end_time: z.number().nonnegative().optional(),
+  title: z.string(),
+  url: z.string().optional(),
+  image_url: z.string().optional(),
+});
+
 export const ReferencedContentSchema: z.ZodType<any> = z.lazy(() =>
   z.object({
     id: z.string(),
@@ -316,6 +418,12 @@ export const CreateContentInputSchema = z.object({
   reference_type: ReferenceTypeSchema.optional(),
   referenced_content_id: z.string().uuid().optional(),
   referenced_content: ReferencedContentSchema.optional(),
+  transcript: z.string().optional(),
+  transcript_segments: z.array(TranscriptSegmentSchema).optional(),
+  transcript_source: z.string().max(50).optional(),
+  chapters: z.array(ContentChapterSchema).optional(),
+  thread_id: z.string().min(1).max(255).optional(),
+  thread_position: z.number().int().nonnegative().optional(),
 });
 
 export const UpdateContentInputSchema = z.object({
@@ -339,6 +447,12 @@ export const UpdateContentInputSchema = z.object({
   reference_type: ReferenceTypeSchema.optional(),
   referenced_content_id: z.string().uuid().optional(),
   referenced_content: ReferencedContentSchema.optional(),
+  transcript: z.string().optional(),
+  transcript_segments: z.array(TranscriptSegmentSchema).optional(),
+  transcript_source: z.string().max(50).optional(),
+  chapters: z.array(ContentChapterSchema).optional(),
+  thread_id: z.string().min(1).max(255).optional(),
+  thread_position: z.number().int().nonnegative().optional(),
 });
 
 export const ContentFiltersSchema = z.object({
@@ -401,28 +515,22 @@ export const extractTextFromHTML = (html?: string): string => {
     .trim();
 };
 
-// Platform-specific content ID generators
-export const generatePlatformContentId = (
-  platform: Platform,
-  data: any
-): string => {
-  switch (platform) {
-    case 'youtube':
-      return data.videoId || data.id || '';
-    case 'twitter':
-      return data.tweetId || data.id || '';
-    case 'linkedin':
-      return data.postId || data.id || '';
-    case 'threads':
-      return data.postId || data.id || '';
-    case 'rss':
-      return data.guid || data.link || '';
-    case 'website':
-      return data.url || data.link || '';
-    default:
-      return '';
-  }
-};
+// The platform ID of the post a reply answers
+export const getReplyParentId = (
+  input: Pick<CreateContentInput, 'reference_type' | 'referenced_content'>
+): string | undefined =>
+  input.reference_type === 'reply'
+    ? input.referenced_content?.platform_content_id || undefined
+    : undefined;
+
+// Text of a whole thread, one post per paragraph
+export const getThreadText = (
+  posts: Array<Pick<ThreadPost, 'content_body'>>
+): string =>
+  posts
+    .map((post) => post.content_body?.trim())
+    .filter(Boolean)
+    .join('\n\n');
 
 // Constants
 export const DEFAULT_CONTENT_FILTERS: ContentFilters = {
@@ -444,14 +552,7 @@ export const CONTENT_ERROR_MESSAGES: Record<ContentErrorCode, string> = {
 
 // Type guards
 export const isValidPlatform = (platform: string): platform is Platform => {
-  return [
-    'youtube',
-    'twitter',
-    'linkedin',
-    'threads',
-    'rss',
-    'website',
-  ].includes(platform);
+  return (PLATFORM_VALUES as readonly string[]).includes(platform);
 };
 
 export const isProcessingStatus = (
@@ -0,0 +1,129 @@
+import { z } from 'zod';
+
+// Product areas spend is broken down and budgeted by
+export const COST_SUBSYSTEMS = [
+  'summaries',
+  'relevancy',
+  'ai_news',
+  'digests',
+  'images',
+  'scraping',
+] as const;
+
+export type CostSubsystem = (typeof COST_SUBSYSTEMS)[number];
+
+export type CostUnitType =
+  | 'tokens'
+  | 'items'
+  | 'records'
+  | 'images'
+  | 'requests'
+  | 'credits';
+
+// What a paid call was made for, where the caller knows
+export interface CostAttribution {
+  loungeId?: string;
+  creatorId?: string;
+  contentId?: string;
+}
+
+/**
+ * One paid external call, as recorded in the `cost_ledger` table
+ */
+export interface CostEntry {
+  subsystem: CostSubsystem;
+  // Vendor billed for the call, e.g. openai, apify, brightdata
+  provider: string;
+  modelOrActor?: string;
+  // LLM gateway task, for completions
+  task?: string;
+  unitType: CostUnitType;
+  units: number;
+  inputTokens?: number;
+  outputTokens?: number;
+  costUsd: number;
+  attribution?: CostAttribution;
+  metadata?: Record<string, unknown>;
+}
+
+export interface CostBudget {
+  subsystem: CostSubsystem;
+  // Null means no limit
+  daily_limit_usd: number | null;
+  monthly_limit_usd: number | null;
+  updated_by: string | null;
+  updated_at: string;
+}
+
+export interface CostBudgetStatus {
+  subsystem: CostSubsystem;
+  // Spend for the current UTC day and month
+  dailySpend: number;
+  monthlySpend: number;
+  dailyLimit: number | null;
+  monthlyLimit: number | null;
+  // Which limit is exceeded, if any; the daily one wins
+  exceeded: 'daily' | 'monthly' | null;
+}
+
+// A `cost_ledger_daily_totals` row
+export interface CostDailyTotal {
+  day: string;
+  subsystem: CostSubsystem;
+  provider: string;
+  model_or_actor: string | null;
+  calls: number;
+  units: number;
+  cost_usd: number;
+}
+
+export interface CostTrendPoint {
+  day: string;
+  total: number;
+  bySubsystem: Record<CostSubsystem, number>;
+}
+
+export interface CostVendorBreakdown {
+  provider: string;
+  model_or_actor: string | null;
+  calls: number;
+  units: number;
+  cost: number;
+}
+
+export interface CostReport {
+  days: number;
+  totalCost: number;
+  // One point per UTC day in the window, including days with no spend
+  trend: CostTrendPoint[];
+  budgets: CostBudgetStatus[];
+  // Most expensive first
+  vendors: CostVendorBreakdown[];
+}
+
+// Zod schemas for validation
+export const CostSubsystemSchema = z.enum(COST_SUBSYSTEMS);
+
+const LimitSchema = z.number().nonnegative().max(1_000_000).nullable();
+
+export const UpdateCostBudgetSchema = z.object({
+  subsystem: CostSubsystemSchema,
+  daily_limit_usd: LimitSchema,
+  monthly_limit_usd: LimitSchema,
+});
+
+export type UpdateCostBudgetInput = z.infer<typeof UpdateCostBudgetSchema>;
+
+// Custom error class for cost ledger operations
+export class CostLedgerError extends Error {
+  constructor(
+    message: string,
+    public code: CostLedgerErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'CostLedgerError';
+  }
+}
+
+export type CostLedgerErrorCode = 'STORAGE_ERROR';
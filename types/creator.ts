@@ -1,22 +1,61 @@
 import { z } from 'zod';
 
-// Platform types
-export type Platform =
-  | 'youtube'
-  | 'twitter'
-  | 'linkedin'
-  | 'threads'
-  | 'rss'
-  | 'website';
+// Platform types - single source of truth for the Platform union and schema
+export const PLATFORM_VALUES = [
+  'youtube',
+  'twitter',
+  'linkedin',
+  'threads',
+  'bluesky',
+  'mastodon',
+  'rss',
+  'website',
+] as const;
+
+export type Platform = (typeof PLATFORM_VALUES)[number];
 
 // Creator URL interface matching creator_urls table
-export interface CreatorUrl {
+export interface CreatorUrl extends Partial<FeedHealth> {
   id: string;
   platform: Platform;
   url: string;
   validation_status: 'valid' | 'invalid' | 'pending';
+  // Adaptive polling schedule
+  next_poll_at?: string | null;
+  poll_interval_minutes?: number | null;
 }
 
+// Conditional GET validators and health stats tracked per creator URL
+export interface FeedHealth {
+  etag: string | null;
+  last_modified: string | null;
+  last_fetched_at: string | null;
+  last_success_at: string | null;
+  failing_since: string | null;
+  consecutive_failures: number;
+  last_error: string | null;
+  average_latency_ms: number | null;
+  item_cadence_hours: number | null;
+}
+
+// Feeds without a successful fetch for this long are shown as stale
+export const FEED_STALE_AFTER_HOURS = 48;
+
+/**
+ * Whether a creator URL is stale: invalid, currently failing, or not
+ * successfully fetched within FEED_STALE_AFTER_HOURS
+ */
+export const isFeedStale = (url: CreatorUrl, now: Date = new Date()) => {
+  if (url.validation_status === 'invalid' || url.consecutive_failures) {
+    return true;
+  }
+  if (!url.last_success_at) return false;
+
+  const hoursSinceSuccess =
+    (now.getTime() - new Date(url.last_success_at).getTime()) / 3600000;
+  return hoursSinceSuccess > FEED_STALE_AFTER_HOURS;
+};
+
 // Core Creator interface matching database schema
 export interface Creator {
   id: string;
@@ -30,6 +69,8 @@ export interface Creator {
   avatar_url?: string;
   metadata?: Record<string, unknown>;
   status?: 'active' | 'inactive' | 'suspended';
+  // VIP override: poll hourly regardless of posting cadence
+  always_poll_hourly?: boolean;
   // Renamed from is_active for consistency with DB
   is_active?: boolean;
   created_at: string;
@@ -63,14 +104,7 @@ export interface CreatorFilters {
 }
 
 // Zod schemas for validation
-export const PlatformSchema = z.enum([
-  'youtube',
-  'twitter',
-  'linkedin',
-  'threads',
-  'rss',
-  'website',
-]);
+export const PlatformSchema = z.enum(PLATFORM_VALUES);
 
 export const CreatorSchema = z.object({
   id: z.string(),
@@ -237,6 +271,16 @@ export interface ThreadsMetadata {
   isVerified?: boolean;
 }
 
+export interface BlueskyMetadata {
+  handle: string;
+  did?: string;
+}
+
+export interface MastodonMetadata {
+  username: string;
+  instance: string;
+}
+
 export interface RSSMetadata {
   feedUrl: string;
   title: string;
@@ -252,6 +296,8 @@ export type PlatformMetadata =
   | ({ platform: 'twitter' } & TwitterMetadata)
   | ({ platform: 'linkedin' } & LinkedInMetadata)
   | ({ platform: 'threads' } & ThreadsMetadata)
+  | ({ platform: 'bluesky' } & BlueskyMetadata)
+  | ({ platform: 'mastodon' } & MastodonMetadata)
   | ({ platform: 'rss' } & RSSMetadata);
 
 // Utility types
@@ -270,6 +316,8 @@ export const PLATFORMS: Record<
   twitter: { label: 'Twitter', icon: 'Twitter', color: 'blue' },
   linkedin: { label: 'LinkedIn', icon: 'Linkedin', color: 'blue' },
   threads: { label: 'Threads', icon: 'AtSign', color: 'purple' },
+  bluesky: { label: 'Bluesky', icon: 'Cloud', color: 'sky' },
+  mastodon: { label: 'Mastodon', icon: 'MessageSquare', color: 'indigo' },
   rss: { label: 'RSS', icon: 'Rss', color: 'orange' },
   website: { label: 'Website', icon: 'Globe', color: 'gray' },
 };
@@ -14,6 +14,108 @@ export type Database = {
   };
   public: {
     Tables: {
+      ad_clicks: {
+        Row: {
+          campaign_id: string;
+          created_at: string;
+          delivery_id: string | null;
+          edition_id: string | null;
+          id: string;
+        };
+        Insert: {
+          campaign_id: string;
+          created_at?: string;
+          delivery_id?: string | null;
+          edition_id?: string | null;
+          id?: string;
+        };
+        Update: {
+          campaign_id?: string;
+          created_at?: string;
+          delivery_id?: string | null;
+          edition_id?: string | null;
+          id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ad_clicks_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'email_advertisers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ad_clicks_delivery_id_fkey';
+            columns: ['delivery_id'];
+            isOneToOne: false;
+            referencedRelation: 'digest_deliveries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ad_clicks_edition_id_fkey';
+            columns: ['edition_id'];
+            isOneToOne: false;
+            referencedRelation: 'digest_editions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      ad_impressions: {
+        Row: {
+          campaign_id: string;
+          created_at: string;
+          delivery_id: string | null;
+          id: string;
+          lounge_id: string;
+          user_id: string;
+        };
+        Insert: {
+          campaign_id: string;
+          created_at?: string;
+          delivery_id?: string | null;
+          id?: string;
+          lounge_id: string;
+          user_id: string;
+        };
+        Update: {
+          campaign_id?: string;
+          created_at?: string;
+          delivery_id?: string | null;
+          id?: string;
+          lounge_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'ad_impressions_campaign_id_fkey';
+            columns: ['campaign_id'];
+            isOneToOne: false;
+            referencedRelation: 'email_advertisers';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ad_impressions_delivery_id_fkey';
+            columns: ['delivery_id'];
+            isOneToOne: false;
+            referencedRelation: 'digest_deliveries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ad_impressions_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'ad_impressions_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       ai_news: {
         Row: {
           content: Json;
@@ -152,6 +254,7 @@ export type Database = {
           ai_summary: string | null;
           ai_summary_long: string | null;
           ai_summary_short: string | null;
+          chapters: Json | null;
           content_body: string | null;
           content_hash: string | null;
           created_at: string | null;
@@ -162,6 +265,7 @@ export type Database = {
           error_message: string | null;
           id: string;
           is_primary: boolean | null;
+          key_moments: Json | null;
           media_urls: Json | null;
           platform: Database['public']['Enums']['platform_type'];
           platform_content_id: string;
@@ -182,8 +286,13 @@ export type Database = {
           summary_status: Database['public']['Enums']['summary_status'] | null;
           summary_word_count_long: number | null;
           summary_word_count_short: number | null;
+          thread_id: string | null;
+          thread_position: number | null;
           thumbnail_url: string | null;
           title: string | null;
+          transcript: string | null;
+          transcript_segments: Json | null;
+          transcript_source: string | null;
           updated_at: string | null;
           url: string;
           word_count: number | null;
@@ -192,6 +301,7 @@ export type Database = {
           ai_summary?: string | null;
           ai_summary_long?: string | null;
           ai_summary_short?: string | null;
+          chapters?: Json | null;
           content_body?: string | null;
           content_hash?: string | null;
           created_at?: string | null;
@@ -202,6 +312,7 @@ export type Database = {
           error_message?: string | null;
           id?: string;
           is_primary?: boolean | null;
+          key_moments?: Json | null;
           media_urls?: Json | null;
           platform: Database['public']['Enums']['platform_type'];
           platform_content_id: string;
@@ -222,8 +333,13 @@ export type Database = {
           summary_status?: Database['public']['Enums']['summary_status'] | null;
           summary_word_count_long?: number | null;
           summary_word_count_short?: number | null;
+          thread_id?: string | null;
+          thread_position?: number | null;
           thumbnail_url?: string | null;
           title?: string | null;
+          transcript?: string | null;
+          transcript_segments?: Json | null;
+          transcript_source?: string | null;
           updated_at?: string | null;
           url: string;
           word_count?: number | null;
@@ -232,6 +348,7 @@ export type Database = {
           ai_summary?: string | null;
           ai_summary_long?: string | null;
           ai_summary_short?: string | null;
+          chapters?: Json | null;
           content_body?: string | null;
           content_hash?: string | null;
           created_at?: string | null;
@@ -242,6 +359,7 @@ export type Database = {
           error_message?: string | null;
           id?: string;
           is_primary?: boolean | null;
+          key_moments?: Json | null;
           media_urls?: Json | null;
           platform?: Database['public']['Enums']['platform_type'];
           platform_content_id?: string;
@@ -262,8 +380,13 @@ export type Database = {
           summary_status?: Database['public']['Enums']['summary_status'] | null;
           summary_word_count_long?: number | null;
           summary_word_count_short?: number | null;
+          thread_id?: string | null;
+          thread_position?: number | null;
           thumbnail_url?: string | null;
           title?: string | null;
+          transcript?: string | null;
+          transcript_segments?: Json | null;
+          transcript_source?: string | null;
           updated_at?: string | null;
           url?: string;
           word_count?: number | null;
@@ -342,6 +465,104 @@ export type Database = {
           },
         ];
       };
+      cost_budgets: {
+        Row: {
+          daily_limit_usd: number | null;
+          monthly_limit_usd: number | null;
+          subsystem: string;
+          updated_at: string;
+          updated_by: string | null;
+        };
+        Insert: {
+          daily_limit_usd?: number | null;
+          monthly_limit_usd?: number | null;
+          subsystem: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Update: {
+          daily_limit_usd?: number | null;
+          monthly_limit_usd?: number | null;
+          subsystem?: string;
+          updated_at?: string;
+          updated_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'cost_budgets_updated_by_fkey';
+            columns: ['updated_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      cost_ledger: {
+        Row: {
+          cost_usd: number;
+          created_at: string;
+          creator_id: string | null;
+          id: string;
+          input_tokens: number | null;
+          lounge_id: string | null;
+          metadata: Json;
+          model_or_actor: string | null;
+          output_tokens: number | null;
+          provider: string;
+          subsystem: string;
+          task: string | null;
+          unit_type: string;
+          units: number;
+        };
+        Insert: {
+          cost_usd?: number;
+          created_at?: string;
+          creator_id?: string | null;
+          id?: string;
+          input_tokens?: number | null;
+          lounge_id?: string | null;
+          metadata?: Json;
+          model_or_actor?: string | null;
+          output_tokens?: number | null;
+          provider: string;
+          subsystem: string;
+          task?: string | null;
+          unit_type: string;
+          units?: number;
+        };
+        Update: {
+          cost_usd?: number;
+          created_at?: string;
+          creator_id?: string | null;
+          id?: string;
+          input_tokens?: number | null;
+          lounge_id?: string | null;
+          metadata?: Json;
+          model_or_actor?: string | null;
+          output_tokens?: number | null;
+          provider?: string;
+          subsystem?: string;
+          task?: string | null;
+          unit_type?: string;
+          units?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'cost_ledger_creator_id_fkey';
+            columns: ['creator_id'];
+            isOneToOne: false;
+            referencedRelation: 'creators';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'cost_ledger_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       creator_lounges: {
         Row: {
           created_at: string | null;
@@ -401,13 +622,24 @@ export type Database = {
       };
       creator_urls: {
         Row: {
+          average_latency_ms: number | null;
+          consecutive_failures: number;
           created_at: string | null;
           creator_id: string;
+          etag: string | null;
+          failing_since: string | null;
           id: string;
+          item_cadence_hours: number | null;
+          last_error: string | null;
+          last_fetched_at: string | null;
+          last_modified: string | null;
+          last_success_at: string | null;
           last_validated: string | null;
           metadata: Json | null;
+          next_poll_at: string | null;
           normalized_url: string;
           platform: Database['public']['Enums']['platform_type'];
+          poll_interval_minutes: number | null;
           updated_at: string | null;
           url: string;
           validation_status:
@@ -415,13 +647,24 @@ export type Database = {
             | null;
         };
         Insert: {
+          average_latency_ms?: number | null;
+          consecutive_failures?: number;
           created_at?: string | null;
           creator_id: string;
+          etag?: string | null;
+          failing_since?: string | null;
           id?: string;
+          item_cadence_hours?: number | null;
+          last_error?: string | null;
+          last_fetched_at?: string | null;
+          last_modified?: string | null;
+          last_success_at?: string | null;
           last_validated?: string | null;
           metadata?: Json | null;
+          next_poll_at?: string | null;
           normalized_url: string;
           platform: Database['public']['Enums']['platform_type'];
+          poll_interval_minutes?: number | null;
           updated_at?: string | null;
           url: string;
           validation_status?:
@@ -429,13 +672,24 @@ export type Database = {
             | null;
         };
         Update: {
+          average_latency_ms?: number | null;
+          consecutive_failures?: number;
           created_at?: string | null;
           creator_id?: string;
+          etag?: string | null;
+          failing_since?: string | null;
           id?: string;
+          item_cadence_hours?: number | null;
+          last_error?: string | null;
+          last_fetched_at?: string | null;
+          last_modified?: string | null;
+          last_success_at?: string | null;
           last_validated?: string | null;
           metadata?: Json | null;
+          next_poll_at?: string | null;
           normalized_url?: string;
           platform?: Database['public']['Enums']['platform_type'];
+          poll_interval_minutes?: number | null;
           updated_at?: string | null;
           url?: string;
           validation_status?:
@@ -454,6 +708,7 @@ export type Database = {
       };
       creators: {
         Row: {
+          always_poll_hourly: boolean;
           avatar_url: string | null;
           bio: string | null;
           content_count: number | null;
@@ -470,6 +725,7 @@ export type Database = {
           verified: boolean | null;
         };
         Insert: {
+          always_poll_hourly?: boolean;
           avatar_url?: string | null;
           bio?: string | null;
           content_count?: number | null;
@@ -486,6 +742,7 @@ export type Database = {
           verified?: boolean | null;
         };
         Update: {
+          always_poll_hourly?: boolean;
           avatar_url?: string | null;
           bio?: string | null;
           content_count?: number | null;
@@ -889,6 +1146,257 @@ export type Database = {
         };
         Relationships: [];
       };
+      digest_deliveries: {
+        Row: {
+          created_at: string;
+          edition_date: string;
+          edition_id: string;
+          edition_type: string;
+          email: string;
+          error: string | null;
+          id: string;
+          lounge_id: string;
+          provider_message_id: string | null;
+          sent_at: string | null;
+          status: string;
+          tracked: boolean;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          edition_date: string;
+          edition_id: string;
+          edition_type?: string;
+          email: string;
+          error?: string | null;
+          id?: string;
+          lounge_id: string;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          status?: string;
+          tracked?: boolean;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          edition_date?: string;
+          edition_id?: string;
+          edition_type?: string;
+          email?: string;
+          error?: string | null;
+          id?: string;
+          lounge_id?: string;
+          provider_message_id?: string | null;
+          sent_at?: string | null;
+          status?: string;
+          tracked?: boolean;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'digest_deliveries_edition_id_fkey';
+            columns: ['edition_id'];
+            isOneToOne: false;
+            referencedRelation: 'digest_editions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'digest_deliveries_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'digest_deliveries_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      digest_editions: {
+        Row: {
+          built_at: string | null;
+          created_at: string;
+          edition_date: string;
+          edition_type: string;
+          error: string | null;
+          html: string | null;
+          id: string;
+          inputs: Json | null;
+          is_public: boolean;
+          lounge_id: string;
+          search_document: unknown | null;
+          shared_at: string | null;
+          status: string;
+          subject: string | null;
+          text_body: string | null;
+          version: number;
+        };
+        Insert: {
+          built_at?: string | null;
+          created_at?: string;
+          edition_date: string;
+          edition_type?: string;
+          error?: string | null;
+          html?: string | null;
+          id?: string;
+          inputs?: Json | null;
+          is_public?: boolean;
+          lounge_id: string;
+          search_document?: never;
+          shared_at?: string | null;
+          status?: string;
+          subject?: string | null;
+          text_body?: string | null;
+          version?: number;
+        };
+        Update: {
+          built_at?: string | null;
+          created_at?: string;
+          edition_date?: string;
+          edition_type?: string;
+          error?: string | null;
+          html?: string | null;
+          id?: string;
+          inputs?: Json | null;
+          is_public?: boolean;
+          lounge_id?: string;
+          search_document?: never;
+          shared_at?: string | null;
+          status?: string;
+          subject?: string | null;
+          text_body?: string | null;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'digest_editions_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      digest_events: {
+        Row: {
+          created_at: string;
+          delivery_id: string;
+          edition_id: string;
+          event_type: string;
+          id: string;
+          lounge_id: string;
+          section: string | null;
+          target: string | null;
+          url: string | null;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          delivery_id: string;
+          edition_id: string;
+          event_type: string;
+          id?: string;
+          lounge_id: string;
+          section?: string | null;
+          target?: string | null;
+          url?: string | null;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          delivery_id?: string;
+          edition_id?: string;
+          event_type?: string;
+          id?: string;
+          lounge_id?: string;
+          section?: string | null;
+          target?: string | null;
+          url?: string | null;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'digest_events_delivery_id_fkey';
+            columns: ['delivery_id'];
+            isOneToOne: false;
+            referencedRelation: 'digest_deliveries';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'digest_events_edition_id_fkey';
+            columns: ['edition_id'];
+            isOneToOne: false;
+            referencedRelation: 'digest_editions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'digest_events_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'digest_events_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      email_advertisers: {
+        Row: {
+          company_name: string;
+          ends_at: string | null;
+          frequency_cap: number | null;
+          frequency_cap_days: number;
+          id: string;
+          is_active: boolean;
+          link_url: string;
+          logo_url: string;
+          lounge_ids: string[];
+          position: number;
+          starts_at: string | null;
+          tagline: string;
+          weight: number;
+        };
+        Insert: {
+          company_name: string;
+          ends_at?: string | null;
+          frequency_cap?: number | null;
+          frequency_cap_days?: number;
+          id?: string;
+          is_active?: boolean;
+          link_url: string;
+          logo_url: string;
+          lounge_ids?: string[];
+          position: number;
+          starts_at?: string | null;
+          tagline: string;
+          weight?: number;
+        };
+        Update: {
+          company_name?: string;
+          ends_at?: string | null;
+          frequency_cap?: number | null;
+          frequency_cap_days?: number;
+          id?: string;
+          is_active?: boolean;
+          link_url?: string;
+          logo_url?: string;
+          lounge_ids?: string[];
+          position?: number;
+          starts_at?: string | null;
+          tagline?: string;
+          weight?: number;
+        };
+        Relationships: [];
+      };
       email_digests: {
         Row: {
           active: boolean | null;
@@ -899,6 +1407,8 @@ export type Database = {
           id: string;
           last_sent: string | null;
           lounges_included: Json | null;
+          next_send_at: string | null;
+          paused_until: string | null;
           template_version: number | null;
           time_of_day: string | null;
           updated_at: string | null;
@@ -913,6 +1423,8 @@ export type Database = {
           id?: string;
           last_sent?: string | null;
           lounges_included?: Json | null;
+          next_send_at?: string | null;
+          paused_until?: string | null;
           template_version?: number | null;
           time_of_day?: string | null;
           updated_at?: string | null;
@@ -927,6 +1439,8 @@ export type Database = {
           id?: string;
           last_sent?: string | null;
           lounges_included?: Json | null;
+          next_send_at?: string | null;
+          paused_until?: string | null;
           template_version?: number | null;
           time_of_day?: string | null;
           updated_at?: string | null;
@@ -942,6 +1456,72 @@ export type Database = {
           },
         ];
       };
+      email_events: {
+        Row: {
+          bounce_type: string | null;
+          created_at: string;
+          detail: string | null;
+          email: string;
+          event_type: string;
+          id: string;
+          processed_at: string | null;
+          provider_event_id: string;
+          provider_message_id: string | null;
+        };
+        Insert: {
+          bounce_type?: string | null;
+          created_at?: string;
+          detail?: string | null;
+          email: string;
+          event_type: string;
+          id?: string;
+          processed_at?: string | null;
+          provider_event_id: string;
+          provider_message_id?: string | null;
+        };
+        Update: {
+          bounce_type?: string | null;
+          created_at?: string;
+          detail?: string | null;
+          email?: string;
+          event_type?: string;
+          id?: string;
+          processed_at?: string | null;
+          provider_event_id?: string;
+          provider_message_id?: string | null;
+        };
+        Relationships: [];
+      };
+      email_suppressions: {
+        Row: {
+          created_at: string;
+          email: string;
+          last_event_at: string;
+          reason: string;
+          soft_bounce_count: number;
+          suppressed_until: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          email: string;
+          last_event_at?: string;
+          reason: string;
+          soft_bounce_count?: number;
+          suppressed_until?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          email?: string;
+          last_event_at?: string;
+          reason?: string;
+          soft_bounce_count?: number;
+          suppressed_until?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
       generated_images: {
         Row: {
           created_at: string | null;
@@ -978,6 +1558,60 @@ export type Database = {
         };
         Relationships: [];
       };
+      llm_batch_jobs: {
+        Row: {
+          completed_at: string | null;
+          cost_usd: number;
+          error: string | null;
+          failed_count: number;
+          id: string;
+          items: Json;
+          last_polled_at: string | null;
+          model: string;
+          provider: string;
+          provider_batch_id: string;
+          request_count: number;
+          status: string;
+          submitted_at: string;
+          succeeded_count: number;
+          task: string;
+        };
+        Insert: {
+          completed_at?: string | null;
+          cost_usd?: number;
+          error?: string | null;
+          failed_count?: number;
+          id?: string;
+          items?: Json;
+          last_polled_at?: string | null;
+          model: string;
+          provider: string;
+          provider_batch_id: string;
+          request_count?: number;
+          status?: string;
+          submitted_at?: string;
+          succeeded_count?: number;
+          task: string;
+        };
+        Update: {
+          completed_at?: string | null;
+          cost_usd?: number;
+          error?: string | null;
+          failed_count?: number;
+          id?: string;
+          items?: Json;
+          last_polled_at?: string | null;
+          model?: string;
+          provider?: string;
+          provider_batch_id?: string;
+          request_count?: number;
+          status?: string;
+          submitted_at?: string;
+          succeeded_count?: number;
+          task?: string;
+        };
+        Relationships: [];
+      };
       lounge_digest_subscriptions: {
         Row: {
           created_at: string | null;
@@ -986,6 +1620,7 @@ export type Database = {
           subscribed: boolean | null;
           updated_at: string | null;
           user_id: string;
+          weekly_subscribed: boolean;
         };
         Insert: {
           created_at?: string | null;
@@ -994,6 +1629,7 @@ export type Database = {
           subscribed?: boolean | null;
           updated_at?: string | null;
           user_id: string;
+          weekly_subscribed?: boolean;
         };
         Update: {
           created_at?: string | null;
@@ -1002,6 +1638,7 @@ export type Database = {
           subscribed?: boolean | null;
           updated_at?: string | null;
           user_id?: string;
+          weekly_subscribed?: boolean;
         };
         Relationships: [
           {
@@ -1062,6 +1699,72 @@ export type Database = {
           },
         ];
       };
+      lounge_relevancy_policies: {
+        Row: {
+          borderline_criteria: string[];
+          change_note: string | null;
+          created_at: string;
+          created_by: string | null;
+          examples: Json;
+          filter_criteria: string[];
+          focus: string | null;
+          id: string;
+          is_active: boolean;
+          keep_criteria: string[];
+          lounge_id: string;
+          rolled_back_from: number | null;
+          threshold: number;
+          version: number;
+        };
+        Insert: {
+          borderline_criteria?: string[];
+          change_note?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          examples?: Json;
+          filter_criteria?: string[];
+          focus?: string | null;
+          id?: string;
+          is_active?: boolean;
+          keep_criteria?: string[];
+          lounge_id: string;
+          rolled_back_from?: number | null;
+          threshold: number;
+          version: number;
+        };
+        Update: {
+          borderline_criteria?: string[];
+          change_note?: string | null;
+          created_at?: string;
+          created_by?: string | null;
+          examples?: Json;
+          filter_criteria?: string[];
+          focus?: string | null;
+          id?: string;
+          is_active?: boolean;
+          keep_criteria?: string[];
+          lounge_id?: string;
+          rolled_back_from?: number | null;
+          threshold?: number;
+          version?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'lounge_relevancy_policies_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'lounge_relevancy_policies_created_by_fkey';
+            columns: ['created_by'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       lounges: {
         Row: {
           content_count: number | null;
@@ -1308,35 +2011,83 @@ export type Database = {
           },
         ];
       };
+      saved_collections: {
+        Row: {
+          created_at: string;
+          description: string | null;
+          id: string;
+          name: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'saved_collections_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
       saved_content: {
         Row: {
+          collection_id: string | null;
           content_id: string;
           id: string;
           notes: string | null;
           read_status: boolean | null;
           saved_at: string | null;
           tags: Json | null;
+          updated_at: string | null;
           user_id: string;
         };
         Insert: {
+          collection_id?: string | null;
           content_id: string;
           id?: string;
           notes?: string | null;
           read_status?: boolean | null;
           saved_at?: string | null;
           tags?: Json | null;
+          updated_at?: string | null;
           user_id: string;
         };
         Update: {
+          collection_id?: string | null;
           content_id?: string;
           id?: string;
           notes?: string | null;
           read_status?: boolean | null;
           saved_at?: string | null;
           tags?: Json | null;
+          updated_at?: string | null;
           user_id?: string;
         };
         Relationships: [
+          {
+            foreignKeyName: 'saved_content_collection_id_fkey';
+            columns: ['collection_id'];
+            isOneToOne: false;
+            referencedRelation: 'saved_collections';
+            referencedColumns: ['id'];
+          },
           {
             foreignKeyName: 'saved_content_content_id_fkey';
             columns: ['content_id'];
@@ -1547,11 +2298,146 @@ export type Database = {
         };
         Relationships: [];
       };
+      webhook_deliveries: {
+        Row: {
+          attempts: number;
+          content_id: string | null;
+          created_at: string;
+          delivered_at: string | null;
+          endpoint_id: string;
+          error: string | null;
+          event_type: string;
+          id: string;
+          payload: Json;
+          response_body: string | null;
+          response_status: number | null;
+          status: string;
+        };
+        Insert: {
+          attempts?: number;
+          content_id?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          endpoint_id: string;
+          error?: string | null;
+          event_type: string;
+          id?: string;
+          payload: Json;
+          response_body?: string | null;
+          response_status?: number | null;
+          status?: string;
+        };
+        Update: {
+          attempts?: number;
+          content_id?: string | null;
+          created_at?: string;
+          delivered_at?: string | null;
+          endpoint_id?: string;
+          error?: string | null;
+          event_type?: string;
+          id?: string;
+          payload?: Json;
+          response_body?: string | null;
+          response_status?: number | null;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_deliveries_content_id_fkey';
+            columns: ['content_id'];
+            isOneToOne: false;
+            referencedRelation: 'content';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'webhook_deliveries_endpoint_id_fkey';
+            columns: ['endpoint_id'];
+            isOneToOne: false;
+            referencedRelation: 'webhook_endpoints';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      webhook_endpoints: {
+        Row: {
+          consecutive_failures: number;
+          created_at: string;
+          creator_ids: string[];
+          description: string | null;
+          id: string;
+          is_active: boolean;
+          last_delivery_at: string | null;
+          lounge_id: string | null;
+          min_relevancy_score: number | null;
+          platforms: string[];
+          secret: string;
+          updated_at: string;
+          url: string;
+          user_id: string;
+        };
+        Insert: {
+          consecutive_failures?: number;
+          created_at?: string;
+          creator_ids?: string[];
+          description?: string | null;
+          id?: string;
+          is_active?: boolean;
+          last_delivery_at?: string | null;
+          lounge_id?: string | null;
+          min_relevancy_score?: number | null;
+          platforms?: string[];
+          secret: string;
+          updated_at?: string;
+          url: string;
+          user_id: string;
+        };
+        Update: {
+          consecutive_failures?: number;
+          created_at?: string;
+          creator_ids?: string[];
+          description?: string | null;
+          id?: string;
+          is_active?: boolean;
+          last_delivery_at?: string | null;
+          lounge_id?: string | null;
+          min_relevancy_score?: number | null;
+          platforms?: string[];
+          secret?: string;
+          updated_at?: string;
+          url?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'webhook_endpoints_lounge_id_fkey';
+            columns: ['lounge_id'];
+            isOneToOne: false;
+            referencedRelation: 'lounges';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'webhook_endpoints_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
     };
     Views: {
-      [_ in never]: never;
+      content_search_results: {
+        Row: Database['public']['Tables']['content']['Row'] & {
+          rank: number;
+        };
+        Relationships: [];
+      };
     };
     Functions: {
+      advance_digest_schedules: {
+        Args: { p_schedules: Json };
+        Returns: number;
+      };
       check_rate_limit: {
         Args: {
           p_endpoint: string;
@@ -1569,6 +2455,35 @@ export type Database = {
         Args: Record<PropertyKey, never>;
         Returns: undefined;
       };
+      content_search_document: {
+        Args: {
+          p_ai_summary_short: string;
+          p_content_body: string;
+          p_description: string;
+          p_title: string;
+        };
+        Returns: unknown;
+      };
+      content_search_snippets: {
+        Args: { content_ids: string[]; search_query: string };
+        Returns: {
+          id: string;
+          rank: number;
+          snippet: string;
+        }[];
+      };
+      cost_ledger_daily_totals: {
+        Args: { p_since: string; p_subsystem?: string };
+        Returns: {
+          calls: number;
+          cost_usd: number;
+          day: string;
+          model_or_actor: string | null;
+          provider: string;
+          subsystem: string;
+          units: number;
+        }[];
+      };
       deduplicate_media_urls: {
         Args: { media_urls_array: Json };
         Returns: Json;
@@ -1583,6 +2498,14 @@ export type Database = {
         };
         Returns: Json;
       };
+      get_ad_campaign_daily_stats: {
+        Args: { p_campaign_id: string; p_since: string };
+        Returns: {
+          clicks: number;
+          day: string;
+          impressions: number;
+        }[];
+      };
       get_all_deleted_content_ids: {
         Args: { excluded_creator_ids?: string[] };
         Returns: {
@@ -1618,6 +2541,25 @@ export type Database = {
           unique_content: number;
         }[];
       };
+      publish_lounge_relevancy_policy: {
+        Args: {
+          p_borderline_criteria: string[];
+          p_change_note: string;
+          p_created_by: string;
+          p_examples: Json;
+          p_filter_criteria: string[];
+          p_focus: string;
+          p_keep_criteria: string[];
+          p_lounge_id: string;
+          p_rolled_back_from?: number;
+          p_threshold: number;
+        };
+        Returns: Database['public']['Tables']['lounge_relevancy_policies']['Row'];
+      };
+      search_content: {
+        Args: { search_query: string };
+        Returns: Database['public']['Views']['content_search_results']['Row'][];
+      };
       validate_csrf_token: {
         Args: {
           p_ip_address?: unknown;
@@ -1633,12 +2575,14 @@ export type Database = {
       content_processing_status: 'pending' | 'processed' | 'failed';
       content_type: 'social' | 'news';
       creator_status: 'active' | 'inactive' | 'suspended';
-      email_digest_frequency: 'daily' | 'weekly' | 'monthly';
+      email_digest_frequency: 'daily' | 'weekdays' | 'weekly' | 'monthly';
       platform_type:
         | 'youtube'
         | 'twitter'
         | 'linkedin'
         | 'threads'
+        | 'bluesky'
+        | 'mastodon'
         | 'rss'
         | 'website';
       processing_queue_status: 'queued' | 'processing' | 'completed' | 'failed';
@@ -1779,12 +2723,14 @@ export const Constants = {
       content_processing_status: ['pending', 'processed', 'failed'],
       content_type: ['social', 'news'],
       creator_status: ['active', 'inactive', 'suspended'],
-      email_digest_frequency: ['daily', 'weekly', 'monthly'],
+      email_digest_frequency: ['daily', 'weekdays', 'weekly', 'monthly'],
       platform_type: [
         'youtube',
         'twitter',
         'linkedin',
         'threads',
+        'bluesky',
+        'mastodon',
         'rss',
         'website',
       ],
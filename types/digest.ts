@@ -0,0 +1,247 @@
+import { z } from 'zod';
+import type { Database, Json } from './database.types';
+
+export type DigestEditionStatus = 'building' | 'ready' | 'empty' | 'failed';
+
+// Weekly editions are dated by the Monday (UTC) of the week they go out
+export type DigestEditionType = 'daily' | 'weekly';
+
+/**
+ * A lounge's digest for one day or week, rendered once and shared by all
+ * subscribers
+ */
+export interface DigestEdition {
+  id: string;
+  lounge_id: string;
+  edition_type: DigestEditionType;
+  edition_date: string;
+  version: number;
+  status: DigestEditionStatus;
+  subject: string | null;
+  // Rendered with DIGEST_PLACEHOLDERS in place of per-recipient fields
+  html: string | null;
+  text_body: string | null;
+  inputs: Json | null;
+  error: string | null;
+  // Shared in the web archive without sign-in
+  is_public: boolean;
+  shared_at: string | null;
+  created_at: string;
+  built_at: string | null;
+}
+
+export type DigestDeliveryStatus = 'pending' | 'sent' | 'failed';
+
+export interface DigestDelivery {
+  id: string;
+  edition_id: string;
+  user_id: string;
+  lounge_id: string;
+  edition_type: DigestEditionType;
+  edition_date: string;
+  email: string;
+  status: DigestDeliveryStatus;
+  // Whether the recipient's links and opens are recorded
+  tracked: boolean;
+  provider_message_id: string | null;
+  error: string | null;
+  created_at: string;
+  sent_at: string | null;
+}
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+}
+
+// Recipient picked by the scheduler, with when they last got a digest
+export interface ScheduledRecipient extends DigestRecipient {
+  lastSent: string | null;
+}
+
+// A lounge edition to build for a scheduler run and who it goes to
+export interface DueEdition {
+  loungeId: string;
+  editionType: DigestEditionType;
+  recipients: ScheduledRecipient[];
+}
+
+/**
+ * Which digests a user gets for one lounge
+ */
+export interface LoungeDigestSubscription {
+  subscribed: boolean;
+  weekly_subscribed: boolean;
+}
+
+export const UpdateLoungeDigestSubscriptionSchema = z
+  .object({
+    subscribed: z.boolean(),
+    weekly_subscribed: z.boolean(),
+  })
+  .partial();
+
+// One lounge's digests as shown in the email preference center
+export interface LoungeDigestPreference extends LoungeDigestSubscription {
+  lounge_id: string;
+  name: string;
+}
+
+/**
+ * Everything a recipient can change from an emailed preferences link
+ */
+export interface DigestPreferences {
+  email: string;
+  lounges: LoungeDigestPreference[];
+  schedule: DigestSchedule;
+}
+
+// Longest pause offered in the preference center
+export const MAX_DIGEST_PAUSE_WEEKS = 12;
+
+// Where in a digest a tracked link sits
+export type DigestLinkSection =
+  | 'big_story'
+  | 'news'
+  | 'special'
+  | 'social'
+  | 'advertiser'
+  | 'most_discussed'
+  | 'theme';
+
+export type DigestEventType = 'open' | 'click';
+
+/**
+ * Open and click rates for a group of tracked deliveries
+ */
+export interface DigestEngagementStats {
+  // Deliveries to recipients who consented to analytics
+  tracked: number;
+  opens: number;
+  clicks: number;
+  // Share of tracked deliveries opened / clicked at least once
+  openRate: number;
+  clickRate: number;
+}
+
+export interface DigestAnalyticsReport {
+  since: string;
+  totals: DigestEngagementStats;
+  lounges: Array<DigestEngagementStats & { loungeId: string; name: string }>;
+  days: Array<DigestEngagementStats & { date: string }>;
+  sections: Array<{
+    section: DigestLinkSection;
+    clicks: number;
+    clickRate: number;
+  }>;
+  advertisers: Array<{ name: string; clicks: number; clickRate: number }>;
+}
+
+// A past edition as listed in a lounge's web archive
+export interface DigestArchiveEntry {
+  id: string;
+  edition_type: DigestEditionType;
+  edition_date: string;
+  version: number;
+  subject: string | null;
+  is_public: boolean;
+  built_at: string | null;
+}
+
+export const ShareDigestEditionSchema = z.object({
+  is_public: z.boolean(),
+});
+
+export type DigestFrequency =
+  Database['public']['Enums']['email_digest_frequency'];
+
+// Frequencies offered in settings; 'monthly' is only kept for older rows
+export const DIGEST_FREQUENCY_OPTIONS = [
+  'daily',
+  'weekdays',
+  'weekly',
+] as const satisfies readonly DigestFrequency[];
+
+// Used until a user picks their own time, matching the original 6am PT send
+export const DEFAULT_DIGEST_TIME = '06:00';
+export const DEFAULT_DIGEST_TIMEZONE = 'America/Los_Angeles';
+
+/**
+ * When a user's digest goes out, in their local time
+ */
+export interface DigestSchedule {
+  frequency: DigestFrequency;
+  // HH:MM in `timezone`
+  time_of_day: string;
+  // 0 = Sunday, used by weekly schedules
+  day_of_week: number | null;
+  timezone: string;
+  active: boolean;
+  last_sent: string | null;
+  next_send_at: string | null;
+  // Sends are held until then, e.g. from the email preference center
+  paused_until: string | null;
+}
+
+export function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const UpdateDigestScheduleSchema = z
+  .object({
+    frequency: z.enum(DIGEST_FREQUENCY_OPTIONS),
+    time_of_day: z
+      .string()
+      .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM (24-hour)'),
+    day_of_week: z.number().int().min(0).max(6).nullable(),
+    timezone: z.string().refine(isValidTimezone, 'Unknown timezone'),
+    active: z.boolean(),
+  })
+  .partial();
+
+export type UpdateDigestScheduleInput = z.infer<
+  typeof UpdateDigestScheduleSchema
+>;
+
+export const UpdateDigestPreferencesSchema = z.object({
+  lounges: z
+    .array(
+      UpdateLoungeDigestSubscriptionSchema.extend({
+        lounge_id: z.string().uuid(),
+      })
+    )
+    .max(100)
+    .optional(),
+  frequency: z.enum(DIGEST_FREQUENCY_OPTIONS).optional(),
+  // Off stops every digest; lounge choices are kept for when it's back on
+  active: z.boolean().optional(),
+  // 0 resumes a paused schedule
+  pause_weeks: z.number().int().min(0).max(MAX_DIGEST_PAUSE_WEEKS).optional(),
+});
+
+export type UpdateDigestPreferencesInput = z.infer<
+  typeof UpdateDigestPreferencesSchema
+>;
+
+export class DigestError extends Error {
+  constructor(
+    message: string,
+    public code: DigestErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'DigestError';
+  }
+}
+
+export type DigestErrorCode =
+  | 'NOT_FOUND'
+  | 'NOT_READY'
+  | 'BUILD_IN_PROGRESS'
+  | 'INVALID_LINK'
+  | 'STORAGE_ERROR';
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+// Resend delivery feedback we act on; other event types are acknowledged
+// and ignored
+export const EMAIL_FEEDBACK_EVENTS = [
+  'email.delivered',
+  'email.delivery_delayed',
+  'email.bounced',
+  'email.complained',
+] as const;
+
+export type EmailFeedbackEventType = (typeof EMAIL_FEEDBACK_EVENTS)[number];
+
+export type EmailSuppressionReason =
+  | 'hard_bounce'
+  | 'soft_bounce'
+  | 'complaint';
+
+/**
+ * An address we stop mailing. Hard bounces and complaints are permanent;
+ * soft bounces hold sends until `suppressed_until` and back off on repeats.
+ */
+export interface EmailSuppression {
+  email: string;
+  reason: EmailSuppressionReason;
+  soft_bounce_count: number;
+  suppressed_until: string | null;
+  last_event_at: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Body of a Resend webhook request
+export const ResendWebhookEventSchema = z.object({
+  type: z.string(),
+  created_at: z.string(),
+  data: z
+    .object({
+      email_id: z.string().optional(),
+      to: z.union([z.array(z.string()), z.string()]).optional(),
+      subject: z.string().optional(),
+      bounce: z
+        .object({
+          type: z.string().optional(),
+          subType: z.string().optional(),
+          message: z.string().optional(),
+        })
+        .optional(),
+    })
+    .passthrough(),
+});
+
+export type ResendWebhookEvent = z.infer<typeof ResendWebhookEventSchema>;
@@ -0,0 +1,59 @@
+import type { SummaryLength } from './content';
+import type { LLMBatchStatus, LLMProviderName } from './llm';
+
+// Types for provider batch jobs (lib/services/llm-batch-service.ts)
+
+// Gateway tasks whose bulk work can run as batch jobs
+export type LLMBatchTask = 'summary' | 'relevancy';
+
+// What one request in a batch job is for
+export interface LLMBatchJobItem {
+  custom_id: string;
+  content_id: string;
+  // Relevancy: the lounge the content is scored for
+  lounge_id?: string;
+  // Summaries: which summary (or the key moments), and the text's word
+  // count when submitted
+  summary_type?: SummaryLength | 'key_moments';
+  word_count?: number;
+}
+
+export interface LLMBatchJob {
+  id: string;
+  task: LLMBatchTask;
+  provider: LLMProviderName;
+  model: string;
+  provider_batch_id: string;
+  status: LLMBatchStatus;
+  items: LLMBatchJobItem[];
+  request_count: number;
+  succeeded_count: number;
+  failed_count: number;
+  cost_usd: number;
+  error: string | null;
+  submitted_at: string;
+  last_polled_at: string | null;
+  completed_at: string | null;
+}
+
+// One cron run: jobs submitted, and open jobs polled and applied
+export interface LLMBatchRunResult {
+  submitted: LLMBatchJob[];
+  polled: number;
+  applied: number;
+  errors: string[];
+}
+
+// Custom error class for batch job operations
+export class LLMBatchJobError extends Error {
+  constructor(
+    message: string,
+    public code: LLMBatchJobErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'LLMBatchJobError';
+  }
+}
+
+export type LLMBatchJobErrorCode = 'STORAGE_ERROR';
@@ -0,0 +1,140 @@
+import type { CostAttribution } from './cost';
+
+// Types for the LLM gateway (lib/llm)
+
+/**
+ * What a completion is for. Each task has its own provider/model route in
+ * lib/llm/config.ts, so a task can be moved to another model without
+ * touching the service that runs it.
+ */
+export type LLMTask =
+  | 'summary'
+  | 'relevancy'
+  | 'relevancy_analysis'
+  | 'news_summary'
+  | 'news_curation'
+  | 'rss_curation'
+  | 'news_search'
+  | 'funding_search'
+  | 'stock_movers'
+  | 'social_post_selection'
+  | 'prompt_generation'
+  | 'digest';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'gemini' | 'stub';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // Ask for a single JSON object
+  json?: boolean;
+  // Strict structured output where the provider supports it; implies json
+  jsonSchema?: {
+    name: string;
+    schema: Record<string, unknown>;
+  };
+  reasoningEffort?: 'low' | 'medium' | 'high';
+  // Let the model search the web. Routes whose provider can't are skipped.
+  webSearch?: {
+    contextSize?: 'low' | 'medium' | 'high';
+    // Restrict results to these domains where the provider supports it
+    allowedDomains?: string[];
+  };
+  // Lounge, creator or content the spend is recorded against
+  attribution?: CostAttribution;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMCompletion {
+  text: string;
+  // Which route answered; later routes only answer after earlier ones fail
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  // Estimated USD cost from MODEL_PRICING
+  cost: number;
+}
+
+export interface LLMUsageEvent extends LLMCompletion {
+  task: LLMTask;
+  // Zero for batch results, which have no per-request timing
+  durationMs: number;
+  attribution?: CostAttribution;
+  // Answered by a provider batch job, at the batch price
+  batch?: boolean;
+}
+
+// Provider batch jobs: cheaper, asynchronous completions for work that
+// can wait up to a day
+
+export type LLMBatchStatus =
+  | 'in_progress'
+  | 'completed'
+  | 'failed'
+  | 'expired'
+  | 'cancelled';
+
+export interface LLMBatchItem {
+  // Unique within the batch; letters, digits, _ and - only (Anthropic)
+  customId: string;
+  // Every request in a batch must be for the same task, without web search
+  request: LLMCompletionRequest;
+}
+
+// Where a submitted batch lives, for polling it later
+export interface LLMBatchSubmission {
+  provider: LLMProviderName;
+  model: string;
+  batchId: string;
+}
+
+export interface LLMBatchResult {
+  customId: string;
+  // Absent when the provider failed this one request
+  completion?: LLMCompletion;
+  error?: string;
+}
+
+export interface LLMBatchOutcome {
+  status: LLMBatchStatus;
+  // Only filled in once the batch has ended; expired batches may be partial
+  results: LLMBatchResult[];
+  error?: string;
+}
+
+export type LLMErrorCode =
+  | 'RATE_LIMITED'
+  | 'UNAVAILABLE'
+  | 'NOT_CONFIGURED'
+  | 'INVALID_REQUEST'
+  | 'INVALID_RESPONSE';
+
+export class LLMError extends Error {
+  constructor(
+    message: string,
+    public code: LLMErrorCode,
+    public statusCode?: number,
+    public provider?: LLMProviderName,
+    // Seconds the provider asked us to wait, from Retry-After
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'LLMError';
+  }
+
+  // Whether another provider might succeed where this one failed
+  get retryable(): boolean {
+    return this.code !== 'INVALID_REQUEST';
+  }
+}
@@ -0,0 +1,100 @@
+// Mastodon REST API types
+// https://docs.joinmastodon.org/entities/Status/
+
+export interface MastodonAccount {
+  id: string;
+  username: string;
+  acct: string;
+  display_name: string;
+  avatar?: string;
+  url: string;
+  bot?: boolean;
+}
+
+export interface MastodonMediaAttachment {
+  id: string;
+  type: 'image' | 'video' | 'gifv' | 'audio' | 'unknown';
+  url: string;
+  preview_url?: string | null;
+  description?: string | null;
+  meta?: {
+    original?: {
+      width?: number;
+      height?: number;
+      duration?: number; // seconds
+      bitrate?: number;
+    };
+  } | null;
+}
+
+export interface MastodonPreviewCard {
+  url: string;
+  title?: string;
+  description?: string;
+  type?: 'link' | 'photo' | 'video' | 'rich';
+  image?: string | null;
+  provider_name?: string;
+}
+
+export interface MastodonStatus {
+  id: string;
+  uri: string;
+  url?: string | null;
+  created_at: string;
+  content: string; // HTML
+  spoiler_text?: string;
+  language?: string | null;
+  in_reply_to_id?: string | null;
+  in_reply_to_account_id?: string | null;
+  reblog?: MastodonStatus | null;
+  // Native quote posts (Mastodon 4.4+)
+  quote?: {
+    state: 'accepted' | 'pending' | 'rejected' | 'revoked' | string;
+    quoted_status?: MastodonStatus | null;
+  } | null;
+  account: MastodonAccount;
+  media_attachments: MastodonMediaAttachment[];
+  card?: MastodonPreviewCard | null;
+  replies_count?: number;
+  reblogs_count?: number;
+  favourites_count?: number;
+  quotes_count?: number;
+}
+
+export interface MastodonFetchOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Maximum number of statuses to return (API max is 40) */
+  limit?: number;
+  /** Exclude replies to other accounts */
+  excludeReplies?: boolean;
+}
+
+export class MastodonFetchError extends Error {
+  constructor(
+    message: string,
+    public code: string,
+    public statusCode?: number,
+    public profileUrl?: string
+  ) {
+    super(message);
+    this.name = 'MastodonFetchError';
+  }
+}
+
+export const DEFAULT_MASTODON_FETCH_OPTIONS: MastodonFetchOptions = {
+  timeout: 10000,
+  limit: 20,
+  excludeReplies: false,
+};
+
+/**
+ * Parse a Mastodon profile URL (https://instance/@user) into its parts
+ */
+export const parseMastodonProfileUrl = (
+  url: string
+): { instance: string; username: string } | null => {
+  const match = url.match(/^https?:\/\/([^/]+)\/@([a-zA-Z0-9_]+)\/?$/);
+  if (!match) return null;
+  return { instance: match[1].toLowerCase(), username: match[2] };
+};
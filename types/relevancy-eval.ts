@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import {
+  PublishRelevancyPolicySchema,
+  type RelevancyCheckItem,
+  type RelevancyVerdict,
+} from './relevancy-policy';
+
+/**
+ * Where a labeled item came from. Corrections and manual deletions are
+ * curator decisions; kept and auto-deleted items are what the live prompt
+ * decided and nobody overturned.
+ */
+export type RelevancyEvalSource =
+  | 'correction'
+  | 'manual_delete'
+  | 'kept'
+  | 'auto_deleted';
+
+export interface RelevancyEvalItem extends RelevancyCheckItem {
+  label: RelevancyVerdict;
+  source: RelevancyEvalSource;
+}
+
+export interface RelevancyEvalMetrics {
+  total: number;
+  true_positives: number;
+  false_positives: number;
+  false_negatives: number;
+  true_negatives: number;
+  // Of the items kept, how many should have been
+  precision: number;
+  // Of the items that should be kept, how many were
+  recall: number;
+}
+
+// An item the candidate decides differently from the live prompt
+export interface RelevancyEvalFlip {
+  content_id: string;
+  title: string;
+  url: string;
+  label: RelevancyVerdict;
+  source: RelevancyEvalSource;
+  baseline_score: number;
+  candidate_score: number;
+  candidate_reason: string;
+  // Whether the candidate now agrees with the label
+  fixed: boolean;
+}
+
+export interface RelevancyEvalReport {
+  lounge_id: string;
+  dataset_size: number;
+  // Scored by the mock model rather than OpenAI
+  mock: boolean;
+  baseline: RelevancyEvalMetrics & { threshold: number };
+  candidate: RelevancyEvalMetrics & { threshold: number };
+  flips: RelevancyEvalFlip[];
+}
+
+export const MAX_RELEVANCY_EVAL_ITEMS = 200;
+
+// A candidate is a pending suggestion, an unpublished policy, or both
+export const RelevancyEvalRequestSchema = z
+  .object({
+    lounge_id: z.string().uuid(),
+    suggestion_id: z.string().uuid().optional(),
+    policy: PublishRelevancyPolicySchema.omit({
+      lounge_id: true,
+      change_note: true,
+    }).optional(),
+    limit: z.number().int().min(1).max(MAX_RELEVANCY_EVAL_ITEMS).default(60),
+  })
+  .refine((request) => request.suggestion_id || request.policy, {
+    message: 'Provide a suggestion or a policy to evaluate',
+  });
+
+export type RelevancyEvalRequest = z.infer<typeof RelevancyEvalRequestSchema>;
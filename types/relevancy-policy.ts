@@ -0,0 +1,128 @@
+import { z } from 'zod';
+import type { ReferencedContent } from './content';
+
+export type RelevancyVerdict = 'keep' | 'filter';
+
+// A content item to score against one of its lounges
+export interface RelevancyCheckItem {
+  content_id: string;
+  lounge_id: string;
+  lounge_name: string;
+  theme_description: string;
+  content_title: string;
+  content_description: string | null;
+  content_url: string;
+  creator_name: string;
+  reference_type?: string | null;
+  referenced_content?: ReferencedContent | null;
+}
+
+export interface RelevancyResult {
+  content_id: string;
+  lounge_id: string;
+  score: number;
+  reason: string;
+}
+
+// A scored-by-hand item the relevancy prompt shows as a reference
+export interface RelevancyPolicyExample {
+  content: string;
+  verdict: RelevancyVerdict;
+  reason?: string;
+}
+
+/**
+ * One version of a lounge's relevancy policy (a `lounge_relevancy_policies`
+ * row). Only the active version is used for scoring.
+ */
+export interface LoungeRelevancyPolicy {
+  id: string;
+  lounge_id: string;
+  version: number;
+  keep_criteria: string[];
+  // Empty means nothing sits between keep and filter
+  borderline_criteria: string[];
+  filter_criteria: string[];
+  examples: RelevancyPolicyExample[];
+  // One-line scope rule, e.g. "ONLY AI/ML content reaches the threshold"
+  focus: string | null;
+  // Mirrored onto lounges.relevancy_threshold when published
+  threshold: number;
+  change_note: string | null;
+  rolled_back_from: number | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+// The parts of a policy the prompt is built from
+export type RelevancyPolicyRules = Pick<
+  LoungeRelevancyPolicy,
+  | 'keep_criteria'
+  | 'borderline_criteria'
+  | 'filter_criteria'
+  | 'examples'
+  | 'focus'
+  | 'threshold'
+>;
+
+// An approved suggestion from the relevancy learning loop, appended to the
+// matching list of the active policy
+export interface PromptAdjustment {
+  adjustment_type: 'keep' | 'filter' | 'borderline';
+  adjustment_text: string;
+}
+
+// Lounge summary for the admin policy editor
+export interface RelevancyPolicyLounge {
+  id: string;
+  name: string;
+  relevancy_threshold: number | null;
+  active_version: number | null;
+}
+
+// Zod schemas for validation
+const CriteriaSchema = z
+  .array(z.string().trim().min(1).max(300))
+  .max(50)
+  .default([]);
+
+export const RelevancyPolicyExampleSchema = z.object({
+  content: z.string().trim().min(1).max(2000),
+  verdict: z.enum(['keep', 'filter']),
+  reason: z.string().trim().max(300).optional(),
+});
+
+export const PublishRelevancyPolicySchema = z.object({
+  lounge_id: z.string().uuid(),
+  keep_criteria: CriteriaSchema,
+  borderline_criteria: CriteriaSchema,
+  filter_criteria: CriteriaSchema,
+  examples: z.array(RelevancyPolicyExampleSchema).max(20).default([]),
+  focus: z.string().trim().max(300).nullable().default(null),
+  threshold: z.number().int().min(0).max(100),
+  change_note: z.string().trim().max(500).nullable().default(null),
+});
+
+export const RollbackRelevancyPolicySchema = z.object({
+  lounge_id: z.string().uuid(),
+  version: z.number().int().min(1),
+});
+
+export type PublishRelevancyPolicyInput = z.infer<
+  typeof PublishRelevancyPolicySchema
+>;
+
+// Custom error class for relevancy policy operations
+export class RelevancyPolicyError extends Error {
+  constructor(
+    message: string,
+    public code: RelevancyPolicyErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'RelevancyPolicyError';
+  }
+}
+
+export type RelevancyPolicyErrorCode = 'NOT_FOUND' | 'STORAGE_ERROR';
@@ -30,6 +30,8 @@ export interface RSSFeed {
   image?: RSSImage;
   /** iTunes specific metadata */
   itunes?: RSSItunesMetadata;
+  /** Whether the feed uses the iTunes or Podcasting 2.0 namespaces */
+  isPodcast?: boolean;
   /** Array of feed items */
   items: RSSItem[];
   /** Custom fields that may be present */
@@ -63,6 +65,8 @@ export interface RSSItem {
   enclosure?: RSSEnclosure;
   /** iTunes specific metadata */
   itunes?: RSSItemItunesMetadata;
+  /** Podcast episode metadata (iTunes / Podcasting 2.0) */
+  podcast?: RSSPodcastMetadata;
   /** Custom fields that may be present */
   custom?: Record<string, any>;
 }
@@ -107,6 +111,25 @@ export interface RSSItemItunesMetadata {
   summary?: string;
 }
 
+export interface RSSPodcastTranscript {
+  url: string;
+  type: string;
+  language?: string;
+  rel?: string;
+}
+
+export interface RSSPodcastMetadata {
+  /** Episode duration in seconds */
+  duration?: number;
+  /** podcast:transcript links */
+  transcripts: RSSPodcastTranscript[];
+  /** podcast:chapters JSON link */
+  chaptersUrl?: string;
+  chaptersType?: string;
+  episode?: number;
+  season?: number;
+}
+
 // Fetcher result interfaces
 export interface RSSFetchResult {
   success: boolean;
@@ -114,6 +137,10 @@ export interface RSSFetchResult {
   error?: string;
   fetchedAt: Date;
   responseTime?: number;
+  /** True when a conditional request returned 304 and parsing was skipped */
+  notModified?: boolean;
+  /** Cache validators to send with the next conditional request */
+  validators?: RSSCacheValidators;
   creatorContext?: {
     creator_id: string;
     creator_name: string;
@@ -144,6 +171,8 @@ export interface RSSFetchOptions {
     feed?: string[];
     item?: string[];
   };
+  /** Send a conditional GET with validators from the previous fetch */
+  conditional?: RSSCacheValidators;
   /** Storage options for persisting fetched content */
   storage?: {
     enabled: boolean;
@@ -152,6 +181,11 @@ export interface RSSFetchOptions {
   };
 }
 
+export interface RSSCacheValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
 // Error handling
 export class RSSFetchError extends Error {
   constructor(
@@ -311,6 +345,21 @@ export const normalizeRSSDate = (dateString?: string): Date | undefined => {
   }
 };
 
+/**
+ * Parse an itunes:duration value (seconds, MM:SS or HH:MM:SS) into seconds
+ */
+export const parseItunesDuration = (value?: string): number | undefined => {
+  if (!value) return undefined;
+
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some((part) => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+
+  const seconds = parts.reduce((total, part) => total * 60 + Number(part), 0);
+  return seconds > 0 ? Math.round(seconds) : undefined;
+};
+
 export const truncateContent = (
   content?: string,
   maxLength: number = 500
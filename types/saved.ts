@@ -0,0 +1,127 @@
+import { z } from 'zod';
+import type { ContentWithCreator } from './content';
+
+// User-defined collection of saved content
+export interface SavedCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+  item_count?: number;
+}
+
+// Saved content row with the content it points to
+export interface SavedItem {
+  id: string;
+  content_id: string;
+  collection_id: string | null;
+  notes: string | null; // Markdown
+  tags: string[];
+  read_status: boolean;
+  saved_at: string;
+  updated_at?: string | null;
+  content?: ContentWithCreator;
+}
+
+export interface SavedTagCount {
+  tag: string;
+  count: number;
+}
+
+// Saved items list response from API
+export interface SavedListResponse {
+  items: SavedItem[];
+  tags: SavedTagCount[];
+  total: number;
+  page: number;
+  limit: number;
+  has_more: boolean;
+}
+
+// Filter for items outside any collection
+export const UNSORTED_COLLECTION = 'unsorted';
+
+export interface SavedFilters {
+  collection_id?: string; // Collection ID or UNSORTED_COLLECTION
+  tag?: string;
+  read_status?: 'read' | 'unread';
+  page?: number;
+  limit?: number;
+}
+
+// Tags are lowercase, trimmed and de-duplicated
+export const MAX_TAGS_PER_ITEM = 20;
+export const MAX_TAG_LENGTH = 40;
+export const MAX_NOTES_LENGTH = 20000;
+
+const TagSchema = z.string().trim().min(1).max(MAX_TAG_LENGTH);
+
+// Zod schemas for validation
+export const SavedFiltersSchema = z.object({
+  collection_id: z
+    .union([z.string().uuid(), z.literal(UNSORTED_COLLECTION)])
+    .optional(),
+  tag: TagSchema.optional(),
+  read_status: z.enum(['read', 'unread']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export const UpdateSavedItemSchema = z
+  .object({
+    notes: z.string().max(MAX_NOTES_LENGTH).nullable().optional(),
+    tags: z.array(TagSchema).max(MAX_TAGS_PER_ITEM).optional(),
+    read_status: z.boolean().optional(),
+    collection_id: z.string().uuid().nullable().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Nothing to update',
+  });
+
+export const BulkSavedActionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.enum(['mark_read', 'mark_unread', 'delete']),
+    ids: z.array(z.string().uuid()).min(1).max(200),
+  }),
+  z.object({
+    action: z.enum(['add_tags', 'remove_tags']),
+    ids: z.array(z.string().uuid()).min(1).max(200),
+    tags: z.array(TagSchema).min(1).max(MAX_TAGS_PER_ITEM),
+  }),
+  z.object({
+    action: z.literal('move'),
+    ids: z.array(z.string().uuid()).min(1).max(200),
+    collection_id: z.string().uuid().nullable(),
+  }),
+]);
+
+export const CreateCollectionSchema = z.object({
+  name: z.string().trim().min(1, 'Collection name is required').max(60),
+  description: z.string().max(200).optional(),
+});
+
+export const UpdateCollectionSchema = CreateCollectionSchema.partial();
+
+export type UpdateSavedItemInput = z.infer<typeof UpdateSavedItemSchema>;
+export type BulkSavedAction = z.infer<typeof BulkSavedActionSchema>;
+export type CreateCollectionInput = z.infer<typeof CreateCollectionSchema>;
+export type UpdateCollectionInput = z.infer<typeof UpdateCollectionSchema>;
+
+// Custom error class for saved content operations
+export class SavedContentError extends Error {
+  constructor(
+    message: string,
+    public code: SavedContentErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'SavedContentError';
+  }
+}
+
+export type SavedContentErrorCode =
+  | 'NOT_FOUND'
+  | 'DUPLICATE_COLLECTION'
+  | 'STORAGE_ERROR';
@@ -0,0 +1,112 @@
+import { z } from 'zod';
+import { hasPrivateHost } from '@/lib/url-utils';
+import { PlatformSchema, type Platform } from './creator';
+
+// Events sent to webhook endpoints
+export const WEBHOOK_EVENTS = {
+  CONTENT_KEPT: 'content.kept',
+  TEST: 'webhook.test',
+} as const;
+
+export type WebhookEventType =
+  (typeof WEBHOOK_EVENTS)[keyof typeof WEBHOOK_EVENTS];
+
+export type WebhookDeliveryStatus = 'pending' | 'succeeded' | 'failed';
+
+// Registered endpoint. The secret is only returned when the endpoint is created.
+export interface WebhookEndpoint {
+  id: string;
+  user_id: string;
+  url: string;
+  description?: string | null;
+  lounge_id: string | null;
+  min_relevancy_score: number | null;
+  platforms: Platform[];
+  creator_ids: string[];
+  is_active: boolean;
+  consecutive_failures: number;
+  last_delivery_at?: string | null;
+  created_at: string;
+  updated_at: string;
+  secret?: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  endpoint_id: string;
+  content_id: string | null;
+  event_type: WebhookEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}
+
+// Body of every webhook request
+export interface WebhookPayload {
+  id: string; // Delivery ID, stable across retries
+  type: WebhookEventType;
+  created_at: string;
+  data: {
+    content: {
+      id: string;
+      title: string | null;
+      url: string;
+      platform: Platform;
+      published_at: string | null;
+      ai_summary_short: string | null;
+      relevancy_score: number | null;
+      relevancy_reason: string | null;
+      creator: { id: string; name: string };
+      lounges: Array<{ id: string; score: number }>;
+    };
+  };
+}
+
+// Zod schemas for validation
+const WebhookFilterSchema = z.object({
+  lounge_id: z.string().uuid().nullable().optional(),
+  min_relevancy_score: z.number().int().min(0).max(100).nullable().optional(),
+  platforms: z.array(PlatformSchema).optional(),
+  creator_ids: z.array(z.string().uuid()).max(100).optional(),
+});
+
+export const CreateWebhookSchema = WebhookFilterSchema.extend({
+  url: z
+    .string()
+    .url('Must be a valid URL')
+    .refine((url) => url.startsWith('https://'), {
+      message: 'Webhook URLs must use HTTPS',
+    })
+    .refine((url) => !hasPrivateHost(url), {
+      message: 'Webhook URLs must point to a public address',
+    }),
+  description: z.string().max(200).optional(),
+});
+
+export const UpdateWebhookSchema = CreateWebhookSchema.partial().extend({
+  is_active: z.boolean().optional(),
+});
+
+export type CreateWebhookInput = z.infer<typeof CreateWebhookSchema>;
+export type UpdateWebhookInput = z.infer<typeof UpdateWebhookSchema>;
+
+// Custom error class for webhook operations
+export class WebhookError extends Error {
+  constructor(
+    message: string,
+    public code: WebhookErrorCode,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+export type WebhookErrorCode =
+  | 'NOT_FOUND'
+  | 'INVALID_URL'
+  | 'DELIVERY_FAILED'
+  | 'STORAGE_ERROR';
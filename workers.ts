@@ -10,6 +10,7 @@ import { createSummaryProcessorWorker } from '@/lib/queue/workers/summary-proces
 import { createBrightDataProcessorWorker } from '@/lib/queue/workers/brightdata-processor';
 import { createAINewsProcessorWorker } from '@/lib/queue/workers/ai-news-processor';
 import { createDigestWorker } from '@/lib/queue/workers/digest-processor';
+import { createWebhookWorker } from '@/lib/queue/workers/webhook-processor';
 
 console.log('Starting queue workers...');
 console.log('NODE_ENV:', process.env.NODE_ENV);
@@ -49,6 +50,7 @@ const summaryWorker = createSummaryProcessorWorker();
 const brightdataWorker = createBrightDataProcessorWorker();
 const aiNewsWorker = createAINewsProcessorWorker();
 const digestWorker = createDigestWorker();
+const webhookWorker = createWebhookWorker();
 
 console.log('Workers started successfully!');
 console.log(
@@ -64,6 +66,9 @@ console.log(
 console.log(
   '- Email Digest worker: Processing daily email digests (5 concurrent)'
 );
+console.log(
+  '- Webhook worker: Delivering signed webhook events with retries (5 concurrent)'
+);
 
 // Error handling
 process.on('uncaughtException', (error) => {
@@ -87,6 +92,7 @@ process.on('SIGTERM', async () => {
   await brightdataWorker.close();
   await aiNewsWorker.close();
   await digestWorker.close();
+  await webhookWorker.close();
   process.exit(0);
 });
 
@@ -97,5 +103,6 @@ process.on('SIGINT', async () => {
   await brightdataWorker.close();
   await aiNewsWorker.close();
   await digestWorker.close();
+  await webhookWorker.close();
   process.exit(0);
 });